@@ -14,12 +14,13 @@ import { PERMISSIONS } from '@/hooks/usePermissions';
 import { HomePage } from '@/pages/home/Home';
 import { ConversationsPage } from '@/pages/inbox/Conversations';
 import { TasksPage } from '@/pages/tasks/Tasks';
+import { HousekeepingPage } from '@/pages/housekeeping/Housekeeping';
 import { AppsPage } from '@/pages/engine/apps/Apps';
 import { AppEditPage } from '@/pages/engine/apps/AppEdit';
 import { SettingsPage } from '@/pages/settings/Settings';
 import { SiteScraperPage } from '@/pages/tools/SiteScraper';
 import { KnowledgeBasePage } from '@/pages/tools/KnowledgeBase';
-import { GuestsPage, GuestProfilePage, GuestFormPage } from '@/pages/guests';
+import { GuestsPage, GuestProfilePage, GuestFormPage, GuestDuplicatesPage } from '@/pages/guests';
 import { ReservationsPage, ReservationDetailPage } from '@/pages/reservations';
 
 export function App() {
@@ -45,9 +46,11 @@ export function App() {
           <Route path="/engine" element={<Navigate to="/settings" replace />} />
           <Route path="/guests" element={<ProtectedRoute permission={PERMISSIONS.GUESTS_VIEW}><GuestsPage /></ProtectedRoute>} />
           <Route path="/guests/new" element={<ProtectedRoute permission={PERMISSIONS.GUESTS_MANAGE}><GuestFormPage /></ProtectedRoute>} />
+          <Route path="/guests/duplicates" element={<ProtectedRoute permission={PERMISSIONS.GUESTS_VIEW}><GuestDuplicatesPage /></ProtectedRoute>} />
           <Route path="/guests/:id" element={<ProtectedRoute permission={PERMISSIONS.GUESTS_VIEW}><GuestProfilePage /></ProtectedRoute>} />
           <Route path="/reservations" element={<ProtectedRoute permission={PERMISSIONS.RESERVATIONS_VIEW}><ReservationsPage /></ProtectedRoute>} />
           <Route path="/reservations/:id" element={<ProtectedRoute permission={PERMISSIONS.RESERVATIONS_VIEW}><ReservationDetailPage /></ProtectedRoute>} />
+          <Route path="/housekeeping" element={<ProtectedRoute permission={PERMISSIONS.TASKS_VIEW}><HousekeepingPage /></ProtectedRoute>} />
           <Route path="/tools/knowledge-base" element={<ProtectedRoute permission={PERMISSIONS.KNOWLEDGE_VIEW}><KnowledgeBasePage /></ProtectedRoute>} />
           <Route path="/tools/site-scraper" element={<ProtectedRoute permission={PERMISSIONS.KNOWLEDGE_MANAGE}><SiteScraperPage /></ProtectedRoute>} />
           <Route path="*" element={<Navigate to="/" replace />} />
@@ -73,6 +73,8 @@ const iconMapping: Record<string, LucideIcon | string> = {
   opera: 'building',
   cloudbeds: 'cloudbeds',
   'pms-cloudbeds': 'cloudbeds',
+  apaleo: 'building',
+  'pms-apaleo': 'building',
 };
 
 // Category icons
@@ -0,0 +1,311 @@
+/**
+ * Single Sign-On Settings Card
+ *
+ * OIDC provider connection, group-to-role mappings, just-in-time
+ * provisioning, and which roles must sign in with SSO.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface RoleMapping {
+  value: string;
+  roleId: string;
+}
+
+interface OidcSettings {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  clientSecretSet: boolean;
+  buttonLabel: string;
+  scopes: string;
+  groupsClaim: string;
+  roleMappings: RoleMapping[];
+  defaultRoleId: string | null;
+  autoProvision: boolean;
+  passwordLoginDisabledRoleIds: string[];
+}
+
+interface OidcResponse {
+  settings: OidcSettings;
+  redirectUri: string;
+}
+
+interface SsoSettingsCardProps {
+  roles: Array<{ id: string; name: string }>;
+  canManage: boolean;
+}
+
+/** Select value for "no default role" (Radix selects cannot use an empty value) */
+const NO_ROLE = '__none__';
+
+export function SsoSettingsCard({ roles, canManage }: SsoSettingsCardProps) {
+  const { t } = useTranslation('settings');
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState<OidcSettings | null>(null);
+  const [clientSecret, setClientSecret] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ['oidc-settings'],
+    queryFn: () => api.get<OidcResponse>('/settings/auth/oidc'),
+  });
+
+  useEffect(() => {
+    if (data?.settings) {
+      setForm(data.settings);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: ({ clientSecretSet: _, ...settings }: OidcSettings) =>
+      api.put<OidcResponse>('/settings/auth/oidc', {
+        ...settings,
+        roleMappings: settings.roleMappings.filter((m) => m.value.trim() && m.roleId),
+        ...(clientSecret && { clientSecret }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['oidc-settings'] });
+      setClientSecret('');
+      setSaved(true);
+      setTimeout(() => setSaved(false), 3000);
+    },
+  });
+
+  if (!form) return null;
+
+  const update = (changes: Partial<OidcSettings>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const updateMapping = (index: number, changes: Partial<RoleMapping>) =>
+    update({ roleMappings: form.roleMappings.map((m, i) => (i === index ? { ...m, ...changes } : m)) });
+
+  const togglePasswordRole = (roleId: string, disabled: boolean) =>
+    update({
+      passwordLoginDisabledRoleIds: disabled
+        ? [...form.passwordLoginDisabledRoleIds, roleId]
+        : form.passwordLoginDisabledRoleIds.filter((id) => id !== roleId),
+    });
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground">{t('settings.security.sso.title')}</h3>
+            <p className="text-xs text-muted-foreground mt-1">{t('settings.security.sso.description')}</p>
+          </div>
+          <Switch checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} disabled={!canManage} />
+        </div>
+
+        {/* Provider */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-1.5 sm:col-span-2">
+            <Label htmlFor="sso-issuer">{t('settings.security.sso.issuer')}</Label>
+            <Input
+              id="sso-issuer"
+              value={form.issuer}
+              onChange={(e) => update({ issuer: e.target.value })}
+              placeholder="https://accounts.google.com"
+              disabled={!canManage}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="sso-client-id">{t('settings.security.sso.clientId')}</Label>
+            <Input
+              id="sso-client-id"
+              value={form.clientId}
+              onChange={(e) => update({ clientId: e.target.value })}
+              disabled={!canManage}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="sso-client-secret">{t('settings.security.sso.clientSecret')}</Label>
+            <Input
+              id="sso-client-secret"
+              type="password"
+              value={clientSecret}
+              onChange={(e) => setClientSecret(e.target.value)}
+              placeholder={form.clientSecretSet ? t('settings.security.sso.clientSecretSaved') : ''}
+              autoComplete="new-password"
+              disabled={!canManage}
+            />
+          </div>
+          <div className="grid gap-1.5 sm:col-span-2">
+            <Label>{t('settings.security.sso.redirectUri')}</Label>
+            <p className="font-mono text-sm break-all select-all">{data?.redirectUri}</p>
+            <p className="text-xs text-muted-foreground">{t('settings.security.sso.redirectUriDesc')}</p>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="sso-button-label">{t('settings.security.sso.buttonLabel')}</Label>
+            <Input
+              id="sso-button-label"
+              value={form.buttonLabel}
+              onChange={(e) => update({ buttonLabel: e.target.value })}
+              disabled={!canManage}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="sso-scopes">{t('settings.security.sso.scopes')}</Label>
+            <Input
+              id="sso-scopes"
+              value={form.scopes}
+              onChange={(e) => update({ scopes: e.target.value })}
+              disabled={!canManage}
+            />
+          </div>
+        </div>
+
+        {/* Provisioning and roles */}
+        <div className="space-y-4 pt-4 border-t">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t('settings.security.sso.autoProvision')}</Label>
+              <p className="text-sm text-muted-foreground">{t('settings.security.sso.autoProvisionDesc')}</p>
+            </div>
+            <Switch
+              checked={form.autoProvision}
+              onCheckedChange={(autoProvision) => update({ autoProvision })}
+              disabled={!canManage}
+            />
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label htmlFor="sso-groups-claim">{t('settings.security.sso.groupsClaim')}</Label>
+            <Input
+              id="sso-groups-claim"
+              value={form.groupsClaim}
+              onChange={(e) => update({ groupsClaim: e.target.value })}
+              disabled={!canManage}
+              className="w-64"
+            />
+            <p className="text-xs text-muted-foreground">{t('settings.security.sso.groupsClaimDesc')}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('settings.security.sso.roleMappings')}</Label>
+            <p className="text-xs text-muted-foreground">{t('settings.security.sso.roleMappingsDesc')}</p>
+            {form.roleMappings.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={mapping.value}
+                  onChange={(e) => updateMapping(index, { value: e.target.value })}
+                  placeholder={t('settings.security.sso.groupValue')}
+                  disabled={!canManage}
+                  className="flex-1"
+                />
+                <Select
+                  value={mapping.roleId}
+                  onValueChange={(roleId) => updateMapping(index, { roleId })}
+                  disabled={!canManage}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder={t('settings.security.selectRole')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ roleMappings: form.roleMappings.filter((_, i) => i !== index) })}
+                    aria-label={t('settings.security.sso.removeMapping')}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ roleMappings: [...form.roleMappings, { value: '', roleId: '' }] })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                {t('settings.security.sso.addMapping')}
+              </Button>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label>{t('settings.security.sso.defaultRole')}</Label>
+            <Select
+              value={form.defaultRoleId ?? NO_ROLE}
+              onValueChange={(value) => update({ defaultRoleId: value === NO_ROLE ? null : value })}
+              disabled={!canManage}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ROLE}>{t('settings.security.sso.defaultRoleNone')}</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.id} value={role.id}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Password sign-in policy */}
+        <div className="space-y-4 pt-4 border-t">
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground">{t('settings.security.sso.passwordLoginDisabled')}</h3>
+            <p className="text-xs text-muted-foreground mt-1">{t('settings.security.sso.passwordLoginDisabledDesc')}</p>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {roles.map((role) => (
+              <div key={role.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`sso-only-${role.id}`}
+                  checked={form.passwordLoginDisabledRoleIds.includes(role.id)}
+                  onCheckedChange={(checked) => togglePasswordRole(role.id, checked)}
+                  disabled={!canManage}
+                />
+                <label htmlFor={`sso-only-${role.id}`} className="text-sm cursor-pointer">
+                  {role.name}
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {canManage && (
+          <div className="flex items-center gap-4 pt-4 border-t">
+            <Button onClick={() => saveMutation.mutate(form)} loading={saveMutation.isPending}>
+              {t('common:common.save')}
+            </Button>
+            {saved && <span className="text-sm text-success-foreground">{t('settings.security.saved')}</span>}
+            {saveMutation.error && <span className="text-sm text-destructive">{saveMutation.error.message}</span>}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * Two-Factor Card
+ *
+ * The signed-in user's own 2FA: set up, replace recovery codes, or disable.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatDate } from '@/lib/formatters';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  DialogRoot,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  TwoFactorCodeForm,
+  TwoFactorSetupStep,
+  RecoveryCodesStep,
+  type TwoFactorSetupData,
+} from './TwoFactorSetup';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+type DialogMode = 'setup' | 'regenerate' | 'disable';
+
+export function TwoFactorCard() {
+  const { t } = useTranslation('settings');
+  const queryClient = useQueryClient();
+
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['two-factor-status'],
+    queryFn: () => api.get<{ status: TwoFactorStatus }>('/auth/2fa'),
+  });
+  const status = data?.status;
+
+  const close = () => {
+    setMode(null);
+    setSetup(null);
+    setRecoveryCodes(null);
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['two-factor-status'] });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('settings.security.twoFactor.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartSetup = () => {
+    setMode('setup');
+    run(async () => setSetup(await api.post<TwoFactorSetupData>('/auth/2fa/setup', {})));
+  };
+
+  const handleEnable = (code: string) =>
+    run(async () => {
+      const res = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code });
+      setRecoveryCodes(res.recoveryCodes);
+    });
+
+  const handleRegenerate = (code: string) =>
+    run(async () => {
+      const res = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code });
+      setRecoveryCodes(res.recoveryCodes);
+    });
+
+  const handleDisable = (code: string) =>
+    run(async () => {
+      await api.post('/auth/2fa/disable', { code });
+      close();
+    });
+
+  const renderDialogBody = () => {
+    if (recoveryCodes) {
+      return <RecoveryCodesStep codes={recoveryCodes} onDone={close} doneLabel={t('settings.security.twoFactor.done')} />;
+    }
+    if (mode === 'setup') {
+      return setup ? (
+        <TwoFactorSetupStep setup={setup} onConfirm={handleEnable} loading={loading} error={error} />
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      );
+    }
+    return (
+      <TwoFactorCodeForm
+        onSubmit={mode === 'disable' ? handleDisable : handleRegenerate}
+        submitLabel={t('settings.security.twoFactor.confirm')}
+        loading={loading}
+        error={error}
+      />
+    );
+  };
+
+  const dialogTitle = {
+    setup: t('settings.security.twoFactor.setupTitle'),
+    regenerate: t('settings.security.twoFactor.regenerateTitle'),
+    disable: t('settings.security.twoFactor.disableTitle'),
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground">{t('settings.security.twoFactor.title')}</h3>
+            <p className="text-xs text-muted-foreground mt-1">{t('settings.security.twoFactor.description')}</p>
+          </div>
+          {status && (
+            <div className="flex items-center gap-1.5 shrink-0">
+              {status.required && <Badge variant="secondary">{t('settings.security.twoFactor.requiredByRole')}</Badge>}
+              <Badge variant={status.enabled ? 'success' : 'secondary'}>
+                {status.enabled ? t('settings.security.twoFactor.enabled') : t('settings.security.twoFactor.disabled')}
+              </Badge>
+            </div>
+          )}
+        </div>
+
+        {status?.enabled ? (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <ShieldCheck className="w-4 h-4 text-success-foreground" />
+              <span>
+                {status.enabledAt && t('settings.security.twoFactor.enabledSince', { date: formatDate(status.enabledAt) })}
+                {' · '}
+                {t('settings.security.twoFactor.recoveryRemaining', { count: status.recoveryCodesRemaining })}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMode('regenerate')}>
+                {t('settings.security.twoFactor.newRecoveryCodes')}
+              </Button>
+              {!status.required && (
+                <Button variant="outline" size="sm" onClick={() => setMode('disable')}>
+                  {t('settings.security.twoFactor.disable')}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          status && <Button onClick={handleStartSetup}>{t('settings.security.twoFactor.setUp')}</Button>
+        )}
+      </div>
+
+      <DialogRoot open={!!mode} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="p-6">
+          <DialogHeader className="mb-4">
+            <DialogTitle>{mode && dialogTitle[mode]}</DialogTitle>
+            {mode === 'disable' && !recoveryCodes && (
+              <DialogDescription>{t('settings.security.twoFactor.disableDesc')}</DialogDescription>
+            )}
+            {mode === 'regenerate' && !recoveryCodes && (
+              <DialogDescription>{t('settings.security.twoFactor.regenerateDesc')}</DialogDescription>
+            )}
+          </DialogHeader>
+          {renderDialogBody()}
+        </DialogContent>
+      </DialogRoot>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Two-Factor Login Step
+ *
+ * Shown after a correct password when the account has 2FA enabled
+ * (enter a code) or its role requires 2FA (enroll, then save recovery codes).
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/lib/api';
+import type { TokenPair, TwoFactorChallenge as Challenge } from '@/hooks/useAuth';
+import { Spinner } from '@/components/ui/spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  TwoFactorCodeForm,
+  TwoFactorSetupStep,
+  RecoveryCodesStep,
+  type TwoFactorSetupData,
+} from './TwoFactorSetup';
+
+interface TwoFactorChallengeProps {
+  challenge: Challenge;
+  onComplete: (tokens: TokenPair) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function TwoFactorChallenge({ challenge, onComplete, onCancel }: TwoFactorChallengeProps) {
+  const { t } = useTranslation();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [enrolled, setEnrolled] = useState<{ tokens: TokenPair; recoveryCodes: string[] } | null>(null);
+
+  const { challengeToken, method } = challenge;
+
+  // Login-time enrollment starts straight away
+  useEffect(() => {
+    if (method !== 'enroll') return;
+    api
+      .post<TwoFactorSetupData>('/auth/2fa/challenge/setup', { challengeToken })
+      .then(setSetup)
+      .catch((err: Error) => setError(err.message));
+  }, [method, challengeToken]);
+
+  const handleVerify = async (code: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tokens = await api.post<TokenPair>('/auth/2fa/challenge/verify', { challengeToken, code });
+      await onComplete(tokens);
+    } catch {
+      setError(t('auth.twoFactor.invalidCode'));
+      setLoading(false);
+    }
+  };
+
+  const handleEnable = async (code: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { recoveryCodes, ...tokens } = await api.post<TokenPair & { recoveryCodes: string[] }>(
+        '/auth/2fa/challenge/enable',
+        { challengeToken, code }
+      );
+      setEnrolled({ tokens, recoveryCodes });
+    } catch {
+      setError(t('auth.twoFactor.invalidCode'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (method === 'verify') {
+      return (
+        <>
+          <p className="text-sm text-muted-foreground text-center mt-1 mb-6">{t('auth.twoFactor.verifyDesc')}</p>
+          <TwoFactorCodeForm
+            onSubmit={handleVerify}
+            submitLabel={t('auth.twoFactor.verify')}
+            loading={loading}
+            error={error}
+            hint={t('auth.twoFactor.useRecoveryHint')}
+          />
+        </>
+      );
+    }
+
+    if (enrolled) {
+      return (
+        <div className="mt-6">
+          <RecoveryCodesStep codes={enrolled.recoveryCodes} onDone={() => onComplete(enrolled.tokens)} />
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <p className="text-sm text-muted-foreground text-center mt-1 mb-6">{t('auth.twoFactor.enrollDesc')}</p>
+        {setup ? (
+          <TwoFactorSetupStep setup={setup} onConfirm={handleEnable} loading={loading} error={error} />
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-foreground text-center">
+        {method === 'verify' ? t('auth.twoFactor.title') : t('auth.twoFactor.enrollTitle')}
+      </h2>
+      {renderBody()}
+      <div className="mt-4 text-center">
+        <button type="button" onClick={onCancel} className="text-sm text-primary hover:underline">
+          {t('auth.backToSignIn')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Two-Factor Setup Steps
+ *
+ * Shared by the login-time enrollment and the Security settings page:
+ * scan the QR code and confirm a code, then save the recovery codes.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+/**
+ * Enrollment data returned by the setup endpoints
+ */
+export interface TwoFactorSetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface CodeFormProps {
+  onSubmit: (code: string) => void;
+  submitLabel: string;
+  loading?: boolean;
+  error?: string | null;
+  hint?: string;
+}
+
+/**
+ * Single code input (TOTP or recovery code)
+ */
+export function TwoFactorCodeForm({ onSubmit, submitLabel, loading, error, hint }: CodeFormProps) {
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) onSubmit(code.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <div className="grid gap-1.5">
+        <Label htmlFor="two-factor-code">{t('auth.twoFactor.code')}</Label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          autoComplete="one-time-code"
+          autoFocus
+          className="font-mono tracking-widest"
+        />
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </div>
+      <Button type="submit" loading={loading} disabled={!code.trim()} className="w-full">
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+interface SetupStepProps {
+  setup: TwoFactorSetupData;
+  onConfirm: (code: string) => void;
+  loading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * QR code, manual key, and confirmation code
+ */
+export function TwoFactorSetupStep({ setup, onConfirm, loading, error }: SetupStepProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t('auth.twoFactor.scanQr')}</p>
+      <div className="flex justify-center">
+        <img src={setup.qrCode} alt="" className="w-44 h-44 rounded border border-border bg-white p-2" />
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">{t('auth.twoFactor.manualEntry')}</p>
+        <p className="font-mono text-sm break-all select-all">{setup.secret}</p>
+      </div>
+      <TwoFactorCodeForm
+        onSubmit={onConfirm}
+        submitLabel={t('auth.twoFactor.verify')}
+        loading={loading}
+        error={error}
+        hint={t('auth.twoFactor.enterCode')}
+      />
+    </div>
+  );
+}
+
+interface RecoveryCodesStepProps {
+  codes: string[];
+  onDone: () => void;
+  doneLabel?: string;
+}
+
+/**
+ * One-time display of recovery codes
+ */
+export function RecoveryCodesStep({ codes, onDone, doneLabel }: RecoveryCodesStepProps) {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-medium">{t('auth.twoFactor.recoveryTitle')}</h3>
+        <p className="text-sm text-muted-foreground mt-1">{t('auth.twoFactor.recoveryDesc')}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 rounded-md border border-border bg-muted p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={handleCopy} className="flex-1">
+          {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+          {copied ? t('auth.twoFactor.copied') : t('auth.twoFactor.copy')}
+        </Button>
+        <Button type="button" onClick={onDone} className="flex-1">
+          {doneLabel ?? t('auth.twoFactor.continue')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,22 @@
 import { useState, useRef, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import { ArrowLeft, ChevronDown, Languages, ListTodo, Wrench, Sparkles, ConciergeBell, UtensilsCrossed, HelpCircle, SquareArrowOutUpRight } from 'lucide-react';
+import { ArrowLeft, ChevronDown, Clock, Languages, ListTodo, Wrench, Sparkles, ConciergeBell, UtensilsCrossed, HelpCircle, SquareArrowOutUpRight, StickyNote } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { api } from '@/lib/api';
 import { cn } from '@/lib/utils';
 import { formatTime, formatDateTime } from '@/lib/formatters';
 import { priorityVariants, taskStatusVariants } from '@/lib/config';
 import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
-import type { Task } from '@/types/api';
+import type { MessageMedia, Task } from '@/types/api';
 import { DrawerRoot, DrawerContent } from '@/components/ui/drawer';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { InlineAlert } from '@/components/ui/inline-alert';
 import { ChannelIcon } from '@/components/shared/ChannelIcon';
+import { MediaAttachments } from '@/components/shared/MediaAttachments';
+import { ReplySuggestions, type ReplyDraft } from './ReplySuggestions';
+import { HandoffSummaryCard, type HandoffSummary } from './HandoffSummaryCard';
 
 interface Props {
   id: string;
@@ -32,22 +36,44 @@ interface ConversationDetails {
   currentIntent: string | null;
   messageCount: number;
   createdAt: string;
+  handoffSummary: HandoffSummary | null;
+  /** WhatsApp only: free-form replies are possible while the 24-hour window is open */
+  messagingWindow?: MessagingWindow | null;
+}
+
+interface MessagingWindow {
+  open: boolean;
+  lastInboundAt: string | null;
+  closesAt: string | null;
+  hasFallbackTemplate: boolean;
+}
+
+interface StaffMember {
+  id: string;
+  name: string;
 }
 
 interface Message {
   id: string;
   conversationId: string;
-  direction: 'inbound' | 'outbound';
+  /** `internal` is a staff note: never sent to the guest */
+  direction: 'inbound' | 'outbound' | 'internal';
   senderType: 'guest' | 'ai' | 'staff' | 'system';
   senderId: string | null;
   content: string;
   contentType: string;
+  media?: MessageMedia[];
   translatedContent?: string | null;
   detectedLanguage?: string | null;
   intent: string | null;
   createdAt: string;
+  /** Internal notes only */
+  senderName?: string | null;
+  mentions?: StaffMember[];
 }
 
+type ComposeMode = 'reply' | 'note';
+
 export function ConversationView({ id, onBack }: Props) {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
@@ -55,14 +81,23 @@ export function ConversationView({ id, onBack }: Props) {
   const canManageConversations = can(PERMISSIONS.CONVERSATIONS_MANAGE);
   const canManageTasks = can(PERMISSIONS.TASKS_MANAGE);
   const [input, setInput] = useState('');
+  const [composeMode, setComposeMode] = useState<ComposeMode>('reply');
   const [stateMenuOpen, setStateMenuOpen] = useState(false);
   const [taskDrawerOpen, setTaskDrawerOpen] = useState(false);
+  const [replyDraft, setReplyDraft] = useState<ReplyDraft | null>(null);
+  // Suggestion inserted into the composer, reported with the send so edits can be tracked
+  const [insertedSuggestion, setInsertedSuggestion] = useState<{ id: string; index: number } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const stateMenuRef = useRef<HTMLDivElement>(null);
 
   const { data: convData } = useQuery({
     queryKey: ['conversation', id],
     queryFn: () => api.get<{ conversation: ConversationDetails }>(`/conversations/${id}`),
+    // The summary is written in the background after escalating
+    refetchInterval: (query) => {
+      const conversation = query.state.data?.conversation;
+      return conversation?.state === 'escalated' && !conversation.handoffSummary ? 5000 : false;
+    },
   });
 
   const { data: msgData, isLoading: loadingMessages } = useQuery({
@@ -76,16 +111,49 @@ export function ConversationView({ id, onBack }: Props) {
     refetchInterval: 10000,
   });
 
+  const { data: staffData } = useQuery({
+    queryKey: ['mentionableStaff'],
+    queryFn: () => api.get<{ staff: StaffMember[] }>('/conversations/staff'),
+    enabled: composeMode === 'note',
+    staleTime: 5 * 60 * 1000,
+  });
+
   const sendMutation = useMutation({
     mutationFn: (content: string) =>
-      api.post(`/conversations/${id}/messages`, { content, contentType: 'text' }),
+      api.post(`/conversations/${id}/messages`, {
+        content,
+        contentType: 'text',
+        ...(insertedSuggestion ? { draft: insertedSuggestion } : {}),
+      }),
     onSuccess: () => {
       setInput('');
+      setReplyDraft(null);
+      setInsertedSuggestion(null);
       queryClient.invalidateQueries({ queryKey: ['messages', id] });
       queryClient.invalidateQueries({ queryKey: ['conversations'] });
     },
   });
 
+  const noteMutation = useMutation({
+    mutationFn: (content: string) => api.post(`/conversations/${id}/notes`, { content }),
+    onSuccess: () => {
+      setInput('');
+      queryClient.invalidateQueries({ queryKey: ['messages', id] });
+    },
+  });
+
+  const draftMutation = useMutation({
+    mutationFn: () => api.post<{ draft: ReplyDraft }>(`/conversations/${id}/reply-drafts`, {}),
+    onSuccess: ({ draft }) => setReplyDraft(draft),
+  });
+
+  const summaryMutation = useMutation({
+    mutationFn: () => api.post<{ summary: HandoffSummary }>(`/conversations/${id}/handoff-summary`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversation', id] });
+    },
+  });
+
   const updateStateMutation = useMutation({
     mutationFn: (state: string) =>
       api.patch(`/conversations/${id}`, { state }),
@@ -111,6 +179,15 @@ export function ConversationView({ id, onBack }: Props) {
     },
   });
 
+  // Suggestions belong to the conversation they were drafted for
+  useEffect(() => {
+    setReplyDraft(null);
+    setInsertedSuggestion(null);
+    draftMutation.reset();
+    summaryMutation.reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
   // Close state menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -144,15 +221,45 @@ export function ConversationView({ id, onBack }: Props) {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages.length]);
 
+  // Staff matching the `@name` being typed at the end of a note
+  const mentionQuery = composeMode === 'note' ? /(?:^|\s)@([^\s@]*)$/.exec(input)?.[1] : undefined;
+  const mentionMatches = useMemo(() => {
+    if (mentionQuery === undefined) return [];
+    const query = mentionQuery.toLowerCase();
+    return (staffData?.staff || []).filter((s) => s.name.toLowerCase().includes(query)).slice(0, 5);
+  }, [mentionQuery, staffData]);
+
+  const handlePickMention = (person: StaffMember) => {
+    setInput((current) => current.replace(/@[^\s@]*$/, `@${person.name} `));
+  };
+
+  const isSending = sendMutation.isPending || noteMutation.isPending;
+
   const handleSend = () => {
     if (!input.trim()) return;
-    sendMutation.mutate(input.trim());
+    if (composeMode === 'note') {
+      noteMutation.mutate(input.trim());
+    } else {
+      sendMutation.mutate(input.trim());
+    }
+  };
+
+  const handleInsertSuggestion = (index: number) => {
+    const suggestion = replyDraft?.suggestions[index];
+    if (!replyDraft || !suggestion) return;
+    setInput(suggestion.content);
+    setInsertedSuggestion({ id: replyDraft.id, index });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      handleSend();
+      const [firstMatch] = mentionMatches;
+      if (firstMatch) {
+        handlePickMention(firstMatch);
+      } else {
+        handleSend();
+      }
     }
   };
 
@@ -265,6 +372,17 @@ export function ConversationView({ id, onBack }: Props) {
         </div>
       </div>
 
+      {(conv.handoffSummary || conv.state === 'escalated') && (
+        <HandoffSummaryCard
+          summary={conv.handoffSummary}
+          canRefresh={canManageConversations}
+          refreshing={summaryMutation.isPending}
+          error={summaryMutation.error ? summaryMutation.error.message || t('conversations.handoff.failed') : null}
+          onRefresh={() => summaryMutation.mutate()}
+          t={t}
+        />
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto scrollbar-hide p-2 sm:p-4 space-y-3">
         {loadingMessages ? (
@@ -276,7 +394,7 @@ export function ConversationView({ id, onBack }: Props) {
             const messageTasks = tasksByMessageId.get(msg.id) || [];
             return (
               <div key={msg.id}>
-                <MessageBubble message={msg} t={t} />
+                {msg.direction === 'internal' ? <NoteBubble message={msg} t={t} /> : <MessageBubble message={msg} t={t} />}
                 {messageTasks.length > 0 && (
                   <TaskIndicator
                     tasks={messageTasks}
@@ -294,22 +412,86 @@ export function ConversationView({ id, onBack }: Props) {
 
       {/* Input */}
       {canManageConversations && (
-        <div className="p-4 border-t shrink-0">
+        <div className={cn('p-4 border-t shrink-0', composeMode === 'note' && 'bg-warning')}>
+          <div className="flex gap-1 mb-2">
+            {(['reply', 'note'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setComposeMode(mode)}
+                className={cn(
+                  'px-2.5 py-1 text-xs rounded-md transition-colors',
+                  composeMode === mode ? 'bg-foreground text-background' : 'text-muted-foreground hover:bg-muted'
+                )}
+              >
+                {t(`conversations.notes.modes.${mode}`)}
+              </button>
+            ))}
+          </div>
+          {composeMode === 'reply' && conv.messagingWindow && (
+            <MessagingWindowNotice window={conv.messagingWindow} messages={messages} t={t} />
+          )}
+          {noteMutation.isError && (
+            <InlineAlert variant="error" className="mb-2 text-sm">
+              {noteMutation.error.message || t('conversations.notes.failed')}
+            </InlineAlert>
+          )}
+          {composeMode === 'reply' && draftMutation.isError && (
+            <InlineAlert variant="error" className="mb-2 text-sm">
+              {draftMutation.error.message || t('conversations.suggestions.failed')}
+            </InlineAlert>
+          )}
+          {composeMode === 'reply' && replyDraft && (
+            <ReplySuggestions
+              draft={replyDraft}
+              onInsert={handleInsertSuggestion}
+              onDismiss={() => setReplyDraft(null)}
+              t={t}
+            />
+          )}
+          {mentionMatches.length > 0 && (
+            <div className="mb-2 bg-card border border-border rounded-md shadow-sm py-1 max-w-xs">
+              {mentionMatches.map((person) => (
+                <button
+                  key={person.id}
+                  onClick={() => handlePickMention(person)}
+                  className="w-full px-3 py-1.5 text-start text-sm text-foreground hover:bg-muted"
+                >
+                  @{person.name}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex gap-2">
+            {composeMode === 'reply' && (
+              <Button
+                variant="outline"
+                onClick={() => draftMutation.mutate()}
+                loading={draftMutation.isPending}
+                disabled={sendMutation.isPending || !messages.some((m) => m.direction === 'inbound')}
+                title={t('conversations.suggestions.button')}
+              >
+                {!draftMutation.isPending && <Sparkles className="w-4 h-4 me-2" />}
+                {t('conversations.suggestions.button')}
+              </Button>
+            )}
             <input
               type="text"
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={(e) => {
+                setInput(e.target.value);
+                // Cleared and rewritten from scratch: no longer a suggestion
+                if (!e.target.value.trim()) setInsertedSuggestion(null);
+              }}
               onKeyDown={handleKeyDown}
-              placeholder={t('conversations.typeMessage')}
+              placeholder={composeMode === 'note' ? t('conversations.notes.placeholder') : t('conversations.typeMessage')}
               className="flex-1 px-3 py-2 bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
-              disabled={sendMutation.isPending}
+              disabled={isSending}
             />
             <Button
               onClick={handleSend}
-              disabled={!input.trim() || sendMutation.isPending}
+              disabled={!input.trim() || isSending}
             >
-              {t('conversations.send')}
+              {composeMode === 'note' ? t('conversations.notes.add') : t('conversations.send')}
             </Button>
           </div>
         </div>
@@ -379,6 +561,9 @@ function MessageBubble({ message, t }: { message: Message; t: (key: string) => s
         >
           {senderLabel}
         </div>
+        {!!message.media?.length && (
+          <MediaAttachments media={message.media} inverted={!isInbound} className="mb-2" />
+        )}
         <div className="text-sm whitespace-pre-wrap">{primaryContent}</div>
         {hasTranslation && (
           <div className={cn(
@@ -423,6 +608,71 @@ function MessageBubble({ message, t }: { message: Message; t: (key: string) => s
   );
 }
 
+/** Internal staff note: full width, never shown to the guest */
+function NoteBubble({ message, t }: { message: Message; t: (key: string, options?: Record<string, unknown>) => string }) {
+  return (
+    <div className="rounded-lg border border-warning-border bg-warning px-3 py-2 text-warning-foreground">
+      <div className="flex items-center gap-1.5 text-xs mb-1">
+        <StickyNote className="w-3 h-3" />
+        {message.senderName
+          ? t('conversations.notes.byline', { name: message.senderName })
+          : t('conversations.notes.label')}
+      </div>
+      <div className="text-sm whitespace-pre-wrap">{highlightMentions(message.content, message.mentions || [])}</div>
+      <div className="text-xs opacity-70 mt-1">{formatTime(message.createdAt)}</div>
+    </div>
+  );
+}
+
+/** Bold the `@Name` mentions the server resolved, longest names first */
+function highlightMentions(content: string, mentions: StaffMember[]): React.ReactNode {
+  if (mentions.length === 0) return content;
+  const names = mentions
+    .map((m) => m.name)
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(@(?:${names.join('|')}))`, 'gi');
+  return content.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <span key={i} className="font-semibold">{part}</span> : part
+  );
+}
+
+const MESSAGING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a free-form WhatsApp reply is still possible. Guest messages that
+ * arrived since the conversation was loaded reopen the window.
+ */
+function MessagingWindowNotice({
+  window,
+  messages,
+  t,
+}: {
+  window: MessagingWindow;
+  messages: Message[];
+  t: (key: string, options?: Record<string, unknown>) => string;
+}) {
+  const lastInbound = [window.lastInboundAt, ...messages.filter((m) => m.direction === 'inbound').map((m) => m.createdAt)]
+    .filter((date): date is string => !!date)
+    .map((date) => new Date(date).getTime());
+  const closesAt = lastInbound.length > 0 ? Math.max(...lastInbound) + MESSAGING_WINDOW_MS : null;
+
+  if (closesAt !== null && closesAt > Date.now()) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-muted-foreground mb-2">
+        <Clock className="w-3 h-3" />
+        {t('conversations.window.open', { time: formatDateTime(new Date(closesAt).toISOString()) })}
+      </p>
+    );
+  }
+
+  return (
+    <InlineAlert variant={window.hasFallbackTemplate ? 'warning' : 'error'} className="mb-2 text-sm">
+      {window.hasFallbackTemplate ? t('conversations.window.closedFallback') : t('conversations.window.closedNoFallback')}
+    </InlineAlert>
+  );
+}
+
 function TaskIndicator({
   tasks,
   isInbound,
@@ -0,0 +1,94 @@
+/**
+ * Handoff Summary Card
+ *
+ * AI-written note pinned above the thread for whoever picks the
+ * conversation up: what the guest wants, what was promised, and the tasks
+ * still open. Written on escalation and at each shift change.
+ */
+
+import { useState } from 'react';
+import { ChevronDown, NotebookPen, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/formatters';
+import { Button } from '@/components/ui/button';
+
+export interface HandoffSummary {
+  guestWants: string;
+  promised: string[];
+  openTasks: string[];
+  trigger: 'escalation' | 'shift_change' | 'manual';
+  updatedAt: string;
+}
+
+interface HandoffSummaryCardProps {
+  summary: HandoffSummary | null;
+  canRefresh: boolean;
+  refreshing: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  t: (key: string, options?: Record<string, unknown>) => string;
+}
+
+export function HandoffSummaryCard({ summary, canRefresh, refreshing, error, onRefresh, t }: HandoffSummaryCardProps) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  return (
+    <div className="px-2 sm:px-4 py-2 border-b shrink-0 bg-muted/30">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setCollapsed((c) => !c)}
+          className="flex items-center gap-1.5 text-sm font-medium min-w-0"
+          aria-expanded={!collapsed}
+        >
+          <NotebookPen className="w-4 h-4 shrink-0" />
+          {t('conversations.handoff.title')}
+          {summary && (
+            <span className="text-xs font-normal text-muted-foreground truncate">
+              · {t(`conversations.handoff.triggers.${summary.trigger}`, { time: formatDateTime(summary.updatedAt) })}
+            </span>
+          )}
+          <ChevronDown className={cn('w-4 h-4 shrink-0 transition-transform', collapsed && '-rotate-90')} />
+        </button>
+        {canRefresh && (
+          <Button size="sm" variant="ghost" onClick={onRefresh} loading={refreshing}>
+            {!refreshing && <RefreshCw className="w-3.5 h-3.5 me-1.5" />}
+            {summary ? t('conversations.handoff.refresh') : t('conversations.handoff.generate')}
+          </Button>
+        )}
+      </div>
+
+      {!collapsed && (
+        <div className="mt-1.5 space-y-1.5 text-sm">
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          {summary ? (
+            <>
+              <p>{summary.guestWants}</p>
+              {summary.promised.length > 0 && (
+                <div>
+                  <span className="text-xs font-medium text-muted-foreground">{t('conversations.handoff.promised')}</span>
+                  <ul className="list-disc ps-5">
+                    {summary.promised.map((item, index) => (
+                      <li key={index}>{item}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {summary.openTasks.length > 0 && (
+                <div>
+                  <span className="text-xs font-medium text-muted-foreground">{t('conversations.handoff.openTasks')}</span>
+                  <ul className="list-disc ps-5">
+                    {summary.openTasks.map((item, index) => (
+                      <li key={index}>{item}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">{t('conversations.handoff.pending')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Reply Suggestions
+ *
+ * Replies drafted for the staff member from the guest's context, memories
+ * and the knowledge base. Each shows what the guest would receive in their
+ * language; inserting one puts it in the composer for review.
+ */
+
+import { Sparkles, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+export interface ReplySuggestion {
+  tone: string;
+  content: string;
+  translation: string | null;
+}
+
+export interface ReplyDraft {
+  id: string;
+  language: string;
+  suggestions: ReplySuggestion[];
+}
+
+interface ReplySuggestionsProps {
+  draft: ReplyDraft;
+  onInsert: (index: number) => void;
+  onDismiss: () => void;
+  t: (key: string, options?: Record<string, unknown>) => string;
+}
+
+export function ReplySuggestions({ draft, onInsert, onDismiss, t }: ReplySuggestionsProps) {
+  return (
+    <div className="mb-3 rounded-md border bg-muted/30">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="flex items-center gap-1.5 text-sm font-medium">
+          <Sparkles className="w-4 h-4" />
+          {t('conversations.suggestions.title')}
+        </span>
+        <button
+          onClick={onDismiss}
+          className="p-1 rounded hover:bg-muted text-muted-foreground"
+          aria-label={t('conversations.suggestions.dismiss')}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="max-h-64 overflow-y-auto divide-y">
+        {draft.suggestions.map((suggestion, index) => (
+          <li key={index} className="flex items-start gap-3 px-3 py-2">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant={index === 0 ? 'info' : 'secondary'}>
+                  {t(`conversations.suggestions.tones.${suggestion.tone}`)}
+                </Badge>
+                {index === 0 && (
+                  <span className="text-xs text-muted-foreground">{t('conversations.suggestions.suggested')}</span>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{suggestion.content}</p>
+              {suggestion.translation && (
+                <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                  {t('conversations.suggestions.guestSees', { language: draft.language.toUpperCase() })}{' '}
+                  {suggestion.translation}
+                </p>
+              )}
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onInsert(index)}>
+              {t('conversations.suggestions.insert')}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+/**
+ * Journey Step Form Modal
+ *
+ * Modal for creating and editing guest journey steps with per-language
+ * message templates.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Info, Plus, Trash2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Combobox } from '@/components/ui/combobox';
+import { TimeSelect } from '@/components/ui/time-select';
+import { Tooltip } from '@/components/ui/tooltip';
+import { InlineAlert } from '@/components/ui/inline-alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export type JourneyAnchor = 'arrival' | 'departure';
+export type JourneyChannel = 'auto' | 'whatsapp' | 'sms' | 'email';
+
+export interface JourneyStep {
+  id: string;
+  name: string;
+  anchor: JourneyAnchor;
+  offsetDays: number;
+  sendTime: string;
+  channel: JourneyChannel;
+  templates: Record<string, string>;
+  subject: string | null;
+  enabled: boolean;
+}
+
+export const JOURNEY_CHANNELS: JourneyChannel[] = ['auto', 'whatsapp', 'sms', 'email'];
+
+const TEMPLATE_VARIABLES = [
+  'firstName',
+  'lastName',
+  'hotelName',
+  'confirmationNumber',
+  'roomNumber',
+  'arrivalDate',
+  'departureDate',
+  'checkInTime',
+  'checkOutTime',
+];
+
+interface LanguageOption {
+  value: string;
+  label: string;
+}
+
+interface TemplateRow {
+  language: string;
+  body: string;
+}
+
+interface FormData {
+  name: string;
+  anchor: JourneyAnchor;
+  offsetDays: number;
+  sendTime: string;
+  channel: JourneyChannel;
+  subject: string;
+  enabled: boolean;
+  templates: TemplateRow[];
+}
+
+interface JourneyStepFormModalProps {
+  open: boolean;
+  onClose: () => void;
+  step: JourneyStep | null;
+}
+
+const EMPTY_FORM: FormData = {
+  name: '',
+  anchor: 'arrival',
+  offsetDays: -2,
+  sendTime: '10:00',
+  channel: 'auto',
+  subject: '',
+  enabled: true,
+  templates: [{ language: 'en', body: '' }],
+};
+
+export function JourneyStepFormModal({ open, onClose, step }: JourneyStepFormModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const isEditing = !!step;
+
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: languagesData } = useQuery({
+    queryKey: ['languages'],
+    queryFn: () => api.get<{ languages: LanguageOption[] }>('/settings/hotel/languages'),
+    enabled: open,
+  });
+
+  // Reset form when modal opens/closes or step changes
+  useEffect(() => {
+    if (open) {
+      if (step) {
+        setFormData({
+          name: step.name,
+          anchor: step.anchor,
+          offsetDays: step.offsetDays,
+          sendTime: step.sendTime,
+          channel: step.channel,
+          subject: step.subject || '',
+          enabled: step.enabled,
+          templates: Object.entries(step.templates).map(([language, body]) => ({ language, body })),
+        });
+      } else {
+        setFormData(EMPTY_FORM);
+      }
+      setError(null);
+    }
+  }, [open, step]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Omit<JourneyStep, 'id' | 'subject'> & { subject: string | null }) =>
+      isEditing ? api.put(`/journeys/steps/${step?.id}`, data) : api.post('/journeys/steps', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['journey-steps'] });
+      onClose();
+    },
+    onError: (err: Error) => {
+      setError(err.message || t('settings.journeys.errors.saveFailed'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.name.trim()) {
+      setError(t('settings.journeys.validation.nameRequired'));
+      return;
+    }
+
+    const templates = Object.fromEntries(
+      formData.templates
+        .filter((row) => row.language && row.body.trim())
+        .map((row) => [row.language, row.body.trim()])
+    );
+    if (Object.keys(templates).length === 0) {
+      setError(t('settings.journeys.validation.templateRequired'));
+      return;
+    }
+
+    saveMutation.mutate({
+      name: formData.name.trim(),
+      anchor: formData.anchor,
+      offsetDays: formData.offsetDays,
+      sendTime: formData.sendTime,
+      channel: formData.channel,
+      subject: formData.subject.trim() || null,
+      enabled: formData.enabled,
+      templates,
+    });
+  };
+
+  const updateTemplate = (index: number, patch: Partial<TemplateRow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      templates: prev.templates.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    }));
+  };
+
+  const addTemplate = () => {
+    setFormData((prev) => ({ ...prev, templates: [...prev.templates, { language: '', body: '' }] }));
+  };
+
+  const removeTemplate = (index: number) => {
+    setFormData((prev) => ({ ...prev, templates: prev.templates.filter((_, i) => i !== index) }));
+  };
+
+  const usedLanguages = new Set(formData.templates.map((row) => row.language));
+
+  return (
+    <DialogRoot open={open} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        title={isEditing ? t('settings.journeys.editStep') : t('settings.journeys.addStep')}
+        className="max-w-2xl"
+      >
+        <form onSubmit={handleSubmit} className="flex flex-col overflow-hidden">
+          <div className="relative p-4 space-y-6 flex-1 min-h-0 overflow-y-auto">
+            {error && <InlineAlert variant="error">{error}</InlineAlert>}
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="journey-name">{t('settings.journeys.labels.name')}</Label>
+                <Input
+                  id="journey-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder={t('settings.journeys.placeholders.name')}
+                  autoFocus
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('settings.journeys.labels.anchor')}</Label>
+                  <Select
+                    value={formData.anchor}
+                    onValueChange={(value) => setFormData({ ...formData, anchor: value as JourneyAnchor })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="arrival">{t('settings.journeys.anchors.arrival')}</SelectItem>
+                      <SelectItem value="departure">{t('settings.journeys.anchors.departure')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="journey-offset">{t('settings.journeys.labels.offsetDays')}</Label>
+                  <Input
+                    id="journey-offset"
+                    type="number"
+                    min={-60}
+                    max={60}
+                    value={formData.offsetDays}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        offsetDays: Math.max(-60, Math.min(60, parseInt(e.target.value) || 0)),
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('settings.journeys.labels.sendTime')}</Label>
+                  <TimeSelect
+                    value={formData.sendTime}
+                    onValueChange={(value) => setFormData({ ...formData, sendTime: value })}
+                    placeholder={t('settings.hotelProfile.selectTime')}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">{t('settings.journeys.helpText.offset')}</p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('settings.journeys.labels.channel')}</Label>
+                  <Select
+                    value={formData.channel}
+                    onValueChange={(value) => setFormData({ ...formData, channel: value as JourneyChannel })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {JOURNEY_CHANNELS.map((channel) => (
+                        <SelectItem key={channel} value={channel}>
+                          {t(`settings.journeys.channels.${channel}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="journey-subject">{t('settings.journeys.labels.subject')}</Label>
+                  <Input
+                    id="journey-subject"
+                    value={formData.subject}
+                    onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+                    placeholder={formData.name}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>{t('settings.journeys.labels.enabled')}</Label>
+                  <p className="text-xs text-muted-foreground">{t('settings.journeys.helpText.enabled')}</p>
+                </div>
+                <Switch
+                  checked={formData.enabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, enabled: checked })}
+                />
+              </div>
+            </div>
+
+            {/* Templates */}
+            <div className="space-y-3">
+              <div>
+                <Label>{t('settings.journeys.labels.templates')}</Label>
+                <p className="text-xs text-muted-foreground mt-1">{t('settings.journeys.helpText.templates')}</p>
+              </div>
+
+              <div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                <Tooltip
+                  content={
+                    <div className="space-y-1">
+                      {TEMPLATE_VARIABLES.map((v) => (
+                        <div key={v}>
+                          <span className="font-mono text-primary-foreground">{`{{${v}}}`}</span>
+                          {' — '}
+                          {t(`settings.journeys.variables.${v}`)}
+                        </div>
+                      ))}
+                    </div>
+                  }
+                  side="bottom"
+                >
+                  <span className="inline-flex items-center gap-1 cursor-help border-b border-dashed border-muted-foreground/50">
+                    <Info size={12} />
+                    {t('settings.security.variables.title')}:
+                    {' '}
+                    <span className="font-mono">{TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(', ')}</span>
+                  </span>
+                </Tooltip>
+              </div>
+
+              {formData.templates.map((row, index) => (
+                <div key={index} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Combobox
+                      options={(languagesData?.languages || []).filter(
+                        (lang) => lang.value === row.language || !usedLanguages.has(lang.value)
+                      )}
+                      value={row.language}
+                      onValueChange={(value) => updateTemplate(index, { language: value })}
+                      placeholder={t('settings.hotelProfile.selectLanguage')}
+                      searchPlaceholder={t('settings.hotelProfile.searchLanguage')}
+                      emptyText={t('settings.hotelProfile.noLanguageFound')}
+                      className="w-56"
+                    />
+                    {formData.templates.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeTemplate(index)}
+                        className="ms-auto p-1.5 rounded hover:bg-muted text-muted-foreground"
+                        aria-label={t('settings.journeys.actions.removeLanguage')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <textarea
+                    value={row.body}
+                    onChange={(e) => updateTemplate(index, { body: e.target.value })}
+                    placeholder={t('settings.journeys.placeholders.template')}
+                    rows={4}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring resize-y"
+                  />
+                </div>
+              ))}
+
+              <Button type="button" variant="outline" size="sm" onClick={addTemplate}>
+                <Plus className="w-4 h-4 mr-2" />
+                {t('settings.journeys.actions.addLanguage')}
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter className="px-4 py-3 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" loading={saveMutation.isPending}>
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
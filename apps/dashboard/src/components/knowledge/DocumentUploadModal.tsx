@@ -0,0 +1,292 @@
+/**
+ * Document Upload Modal
+ *
+ * Uploads a PDF, DOCX, Markdown or CSV file, shows the proposed knowledge
+ * base entries for review, and imports the selected ones. Importing a file
+ * that was uploaded before replaces its previous entries.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { api } from '@/lib/api';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { InlineAlert } from '@/components/ui/inline-alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const CATEGORIES = ['faq', 'policy', 'amenity', 'service', 'dining', 'room_type', 'local_info', 'contact', 'other'];
+
+const ACCEPT = '.pdf,.docx,.md,.markdown,.csv';
+
+interface ProposedEntry {
+  title: string;
+  content: string;
+  category: string;
+  keywords: string[];
+}
+
+interface ParseResult {
+  document: { filename: string; format: string; sourceRef: string };
+  entries: ProposedEntry[];
+  duplicates: Array<{ newIndex: number; matchTitle: string; isExisting: boolean; similarity: number }>;
+  qaPairs: Array<{ question: string; answer: string; entryIndex: number }>;
+  existingEntryCount: number;
+}
+
+interface ReviewEntry extends ProposedEntry {
+  selected: boolean;
+  duplicateOf?: string;
+  qaCount: number;
+}
+
+interface DocumentUploadModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called with the number of imported entries */
+  onImported: (count: number) => void;
+}
+
+/** Translation key for a category label (shared with the site scraper) */
+function categoryKey(category: string): string {
+  const key = category === 'room_type' ? 'roomType' : category === 'local_info' ? 'localInfo' : category;
+  return `siteScraper.categories.${key}`;
+}
+
+export function DocumentUploadModal({ open, onClose, onImported }: DocumentUploadModalProps) {
+  const { t } = useTranslation();
+  const [file, setFile] = useState<File | null>(null);
+  const [category, setCategory] = useState('other');
+  const [generateQa, setGenerateQa] = useState(false);
+  const [parsed, setParsed] = useState<ParseResult | null>(null);
+  const [entries, setEntries] = useState<ReviewEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when the modal opens
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setCategory('other');
+      setGenerateQa(false);
+      setParsed(null);
+      setEntries([]);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleParse = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('category', category);
+      body.append('generateQa', String(generateQa));
+
+      const result = await api.upload<ParseResult>('/knowledge/documents/parse', body);
+      setParsed(result);
+      setEntries(
+        result.entries.map((entry, index) => {
+          const duplicate = result.duplicates.find((d) => d.newIndex === index);
+          return {
+            ...entry,
+            selected: !duplicate,
+            ...(duplicate ? { duplicateOf: duplicate.matchTitle } : {}),
+            qaCount: result.qaPairs.filter((qa) => qa.entryIndex === index).length,
+          };
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('knowledge.documents.parseFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setLoading(true);
+    setError(null);
+
+    // Keep Q&A pairs of selected entries, re-pointed at their new index
+    const selectedIndexes = entries.map((e, i) => (e.selected ? i : -1)).filter((i) => i >= 0);
+    const qaPairs = parsed.qaPairs
+      .filter((qa) => selectedIndexes.includes(qa.entryIndex))
+      .map((qa) => ({ ...qa, entryIndex: selectedIndexes.indexOf(qa.entryIndex) }));
+
+    try {
+      const result = await api.post<{ imported: number; replaced: number }>('/knowledge/documents/import', {
+        sourceRef: parsed.document.sourceRef,
+        entries: entries
+          .filter((e) => e.selected)
+          .map(({ title, content, category, keywords }) => ({ title, content, category, keywords })),
+        qaPairs,
+      });
+      onImported(result.imported);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('knowledge.documents.importFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateEntry = (index: number, changes: Partial<ReviewEntry>) => {
+    setEntries((prev) => prev.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+  };
+
+  const selectedCount = entries.filter((e) => e.selected).length;
+
+  return (
+    <DialogRoot open={open} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent
+        title={parsed ? t('knowledge.documents.reviewTitle', { filename: parsed.document.filename }) : t('knowledge.documents.title')}
+        className={parsed ? 'max-w-4xl' : 'max-w-lg'}
+      >
+        <div className="p-4 space-y-4 flex-1 min-h-0 overflow-y-auto">
+          {error && <InlineAlert variant="error">{error}</InlineAlert>}
+
+          {!parsed ? (
+            <>
+              <p className="text-sm text-muted-foreground">{t('knowledge.documents.description')}</p>
+
+              <div className="space-y-2">
+                <Label htmlFor="document-file">{t('knowledge.documents.file')}</Label>
+                <Input
+                  id="document-file"
+                  type="file"
+                  accept={ACCEPT}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+                <p className="text-xs text-muted-foreground">{t('knowledge.documents.fileHint')}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('knowledge.documents.defaultCategory')}</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORIES.map((cat) => (
+                      <SelectItem key={cat} value={cat}>
+                        {t(categoryKey(cat))}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox checked={generateQa} onCheckedChange={setGenerateQa} />
+                <span className="text-sm">{t('knowledge.documents.generateQa')}</span>
+              </div>
+            </>
+          ) : (
+            <>
+              {parsed.existingEntryCount > 0 && (
+                <InlineAlert variant="warning">
+                  {t('knowledge.documents.replacesExisting', { count: parsed.existingEntryCount })}
+                </InlineAlert>
+              )}
+
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {t('knowledge.documents.selectedCount', { selected: selectedCount, total: entries.length })}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setEntries((prev) => prev.map((e) => ({ ...e, selected: selectedCount < entries.length })))
+                  }
+                >
+                  {selectedCount < entries.length ? t('siteScraper.selectAll') : t('siteScraper.deselectAll')}
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                {entries.map((entry, index) => (
+                  <div key={index} className={`flex gap-3 border rounded-lg p-3 ${entry.selected ? '' : 'opacity-50'}`}>
+                    <div className="pt-2">
+                      <Checkbox checked={entry.selected} onCheckedChange={(selected) => updateEntry(index, { selected })} />
+                    </div>
+                    <div className="flex-1 space-y-2 min-w-0">
+                      <div className="flex gap-2">
+                        <Input
+                          value={entry.title}
+                          onChange={(e) => updateEntry(index, { title: e.target.value })}
+                          className="text-sm font-medium"
+                        />
+                        <Select value={entry.category} onValueChange={(value) => updateEntry(index, { category: value })}>
+                          <SelectTrigger className="text-xs h-9 w-[140px] shrink-0">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CATEGORIES.map((cat) => (
+                              <SelectItem key={cat} value={cat}>
+                                {t(categoryKey(cat))}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Textarea
+                        value={entry.content}
+                        onChange={(e) => updateEntry(index, { content: e.target.value })}
+                        className="text-sm min-h-[80px] max-h-[200px]"
+                      />
+                      {entry.duplicateOf && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0" />
+                          <span className="text-yellow-700 dark:text-yellow-400">
+                            {t('siteScraper.duplicateWarning')}: {t('siteScraper.similarTo')} &ldquo;{entry.duplicateOf}&rdquo;
+                          </span>
+                        </div>
+                      )}
+                      {entry.qaCount > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {t('knowledge.documents.qaCount', { count: entry.qaCount })}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t">
+          {parsed ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => setParsed(null)} disabled={loading}>
+                {t('siteScraper.startOver')}
+              </Button>
+              <Button type="button" onClick={handleImport} loading={loading} disabled={selectedCount === 0}>
+                {t('siteScraper.importEntries', { count: selectedCount })}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="button" onClick={handleParse} loading={loading} disabled={!file}>
+                <FileUp className="w-4 h-4 mr-2" />
+                {t('knowledge.documents.extract')}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Knowledge Gaps Card
+ *
+ * Lists the most-asked guest questions the knowledge base could not answer,
+ * grouped by similarity, with actions to draft an entry or dismiss the gap.
+ * Renders nothing while there are no open gaps.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { HelpCircle, PenLine, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatTimeAgo } from '@/lib/formatters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+export interface KnowledgeGapDraft {
+  category: string;
+  title: string;
+  content: string;
+  keywords: string[];
+  priority: number;
+}
+
+interface KnowledgeGap {
+  id: string;
+  question: string;
+  gapCount: number;
+  lastSeenAt: string;
+  sampleQuestions: string[];
+}
+
+interface KnowledgeGapsCardProps {
+  canManage: boolean;
+  /** Called with the gap id and a pre-filled entry to open in the add form */
+  onDraft: (gapId: string, draft: KnowledgeGapDraft) => void;
+}
+
+const GAP_LIMIT = 5;
+
+export function KnowledgeGapsCard({ canManage, onDraft }: KnowledgeGapsCardProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [draftingId, setDraftingId] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['knowledge-gaps'],
+    queryFn: () => api.get<{ gaps: KnowledgeGap[] }>(`/knowledge/gaps?limit=${GAP_LIMIT}`),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: string) => api.put(`/knowledge/gaps/${id}`, { status: 'dismissed' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-gaps'] });
+    },
+  });
+
+  const handleDraft = async (gap: KnowledgeGap) => {
+    setDraftingId(gap.id);
+    try {
+      const draft = await api.get<KnowledgeGapDraft>(`/knowledge/gaps/${gap.id}/draft`);
+      onDraft(gap.id, draft);
+    } finally {
+      setDraftingId(null);
+    }
+  };
+
+  const gaps = data?.gaps ?? [];
+  if (gaps.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HelpCircle className="w-4 h-4 text-muted-foreground" />
+          {t('knowledge.gaps.title')}
+        </CardTitle>
+        <CardDescription>{t('knowledge.gaps.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {gaps.map((gap) => (
+          <div key={gap.id} className="flex items-start justify-between gap-4 border rounded-lg p-3">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium truncate" title={gap.question}>
+                  {gap.question}
+                </span>
+                <Badge variant="secondary" className="text-xs shrink-0">
+                  {t('knowledge.gaps.askedCount', { count: gap.gapCount })}
+                </Badge>
+              </div>
+              {gap.sampleQuestions.filter((q) => q !== gap.question).length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {gap.sampleQuestions
+                    .filter((q) => q !== gap.question)
+                    .map((q) => `“${q}”`)
+                    .join(' · ')}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {t('knowledge.gaps.lastAsked', { time: formatTimeAgo(gap.lastSeenAt, t) })}
+              </p>
+            </div>
+            {canManage && (
+              <div className="flex items-center gap-1 shrink-0">
+                <Button size="sm" variant="outline" onClick={() => handleDraft(gap)} loading={draftingId === gap.id}>
+                  <PenLine className="w-4 h-4 me-1.5" />
+                  {t('knowledge.gaps.draftEntry')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => dismissMutation.mutate(gap.id)}
+                  disabled={dismissMutation.isPending}
+                  title={t('knowledge.gaps.dismiss')}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
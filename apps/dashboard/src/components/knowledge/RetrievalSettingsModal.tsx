@@ -0,0 +1,140 @@
+/**
+ * Retrieval Settings Modal
+ *
+ * Tunes how keyword (full-text) and semantic (vector) matches are blended
+ * when searching the knowledge base.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InlineAlert } from '@/components/ui/inline-alert';
+
+interface RetrievalSettings {
+  vectorWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+}
+
+interface RetrievalSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function RetrievalSettingsModal({ open, onClose }: RetrievalSettingsModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<RetrievalSettings>({ vectorWeight: 1, keywordWeight: 1, rrfK: 60 });
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['knowledge-retrieval-settings'],
+    queryFn: () => api.get<RetrievalSettings>('/knowledge/retrieval-settings'),
+    enabled: open,
+  });
+
+  // Reset form when modal opens or settings load
+  useEffect(() => {
+    if (open && data) {
+      setFormData(data);
+    }
+    if (open) {
+      setError(null);
+    }
+  }, [open, data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: RetrievalSettings) => api.put<RetrievalSettings>('/knowledge/retrieval-settings', settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-retrieval-settings'] });
+      onClose();
+    },
+    onError: (err: Error) => {
+      setError(err.message || t('knowledge.retrieval.saveFailed'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.vectorWeight <= 0 && formData.keywordWeight <= 0) {
+      setError(t('knowledge.retrieval.weightRequired'));
+      return;
+    }
+
+    saveMutation.mutate(formData);
+  };
+
+  const setNumber = (field: keyof RetrievalSettings) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({ ...formData, [field]: Number(e.target.value) });
+  };
+
+  return (
+    <DialogRoot open={open} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent title={t('knowledge.retrieval.title')} className="max-w-lg">
+        <form onSubmit={handleSubmit} className="flex flex-col overflow-hidden">
+          <div className="p-4 space-y-4">
+            {error && <InlineAlert variant="error">{error}</InlineAlert>}
+            <p className="text-sm text-muted-foreground">{t('knowledge.retrieval.description')}</p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="retrieval-vector-weight">{t('knowledge.retrieval.vectorWeight')}</Label>
+                <Input
+                  id="retrieval-vector-weight"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={formData.vectorWeight}
+                  onChange={setNumber('vectorWeight')}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retrieval-keyword-weight">{t('knowledge.retrieval.keywordWeight')}</Label>
+                <Input
+                  id="retrieval-keyword-weight"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={formData.keywordWeight}
+                  onChange={setNumber('keywordWeight')}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="retrieval-rrf-k">{t('knowledge.retrieval.rrfK')}</Label>
+              <Input
+                id="retrieval-rrf-k"
+                type="number"
+                min={1}
+                max={1000}
+                step={1}
+                value={formData.rrfK}
+                onChange={setNumber('rrfK')}
+              />
+              <p className="text-xs text-muted-foreground">{t('knowledge.retrieval.rrfKHint')}</p>
+            </div>
+          </div>
+
+          <DialogFooter className="px-4 py-3 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" loading={saveMutation.isPending}>
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
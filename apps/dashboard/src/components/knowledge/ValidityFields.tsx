@@ -0,0 +1,176 @@
+/**
+ * Knowledge Validity Fields
+ *
+ * Form fields for an entry's validity window (valid from / until, hotel-local
+ * dates) and recurring schedule (days of the week, yearly season), plus the
+ * badge the entries table shows for time-bound entries.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { CalendarClock } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+export type KnowledgeValidity = 'in_effect' | 'scheduled' | 'expired' | 'off_schedule';
+
+export interface KnowledgeSchedule {
+  daysOfWeek?: number[];
+  seasonStart?: string;
+  seasonEnd?: string;
+}
+
+/** Form state; empty strings mean "not set" */
+export interface ValidityFormValue {
+  validFrom: string;
+  validUntil: string;
+  daysOfWeek: number[];
+  seasonStart: string;
+  seasonEnd: string;
+}
+
+interface ValidityFieldsProps {
+  value: ValidityFormValue;
+  onChange: (value: ValidityFormValue) => void;
+}
+
+// 2023-01-01 was a Sunday, so day d of that week has weekday index d
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+function weekdayLabel(day: number, locale: string): string {
+  return new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' }).format(
+    new Date(Date.UTC(2023, 0, 1 + day))
+  );
+}
+
+export function ValidityFields({ value, onChange }: ValidityFieldsProps) {
+  const { t, i18n } = useTranslation();
+
+  const toggleDay = (day: number) => {
+    const daysOfWeek = value.daysOfWeek.includes(day)
+      ? value.daysOfWeek.filter((d) => d !== day)
+      : [...value.daysOfWeek, day].sort();
+    onChange({ ...value, daysOfWeek });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div>
+        <div className="text-sm font-medium">{t('knowledge.validity.title')}</div>
+        <p className="text-xs text-muted-foreground">{t('knowledge.validity.description')}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-xs font-medium">{t('knowledge.validity.validFrom')}</label>
+          <Input
+            type="date"
+            value={value.validFrom}
+            onChange={(e) => onChange({ ...value, validFrom: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium">{t('knowledge.validity.validUntil')}</label>
+          <Input
+            type="date"
+            value={value.validUntil}
+            min={value.validFrom || undefined}
+            onChange={(e) => onChange({ ...value, validUntil: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs font-medium">{t('knowledge.validity.daysOfWeek')}</label>
+        <div className="mt-1 flex flex-wrap gap-1">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={cn(
+                'rounded-md border px-2.5 py-1 text-xs',
+                value.daysOfWeek.includes(day) ? 'bg-foreground text-background' : 'text-muted-foreground hover:bg-muted'
+              )}
+            >
+              {weekdayLabel(day, i18n.language)}
+            </button>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">{t('knowledge.validity.daysOfWeekHint')}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-xs font-medium">{t('knowledge.validity.seasonStart')}</label>
+          <Input
+            value={value.seasonStart}
+            onChange={(e) => onChange({ ...value, seasonStart: e.target.value })}
+            placeholder="06-01"
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium">{t('knowledge.validity.seasonEnd')}</label>
+          <Input
+            value={value.seasonEnd}
+            onChange={(e) => onChange({ ...value, seasonEnd: e.target.value })}
+            placeholder="08-31"
+            className="mt-1"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ValidityBadgeProps {
+  validity: KnowledgeValidity;
+  validFrom: string | null;
+  validUntil: string | null;
+  schedule: KnowledgeSchedule | null;
+  expiryFlaggedAt: string | null;
+}
+
+/**
+ * Badge for time-bound entries; renders nothing for entries that always apply
+ */
+export function ValidityBadge({ validity, validFrom, validUntil, schedule, expiryFlaggedAt }: ValidityBadgeProps) {
+  const { t } = useTranslation();
+
+  if (validity === 'scheduled') {
+    return (
+      <Badge variant="info" className="text-xs shrink-0">
+        {t('knowledge.validity.startsOn', { date: validFrom })}
+      </Badge>
+    );
+  }
+  if (validity === 'expired') {
+    return (
+      <Badge variant="error" className="text-xs shrink-0">
+        {t('knowledge.validity.expired')}
+      </Badge>
+    );
+  }
+  if (expiryFlaggedAt && validUntil) {
+    return (
+      <Badge variant="warning" className="text-xs shrink-0">
+        {t('knowledge.validity.endsOn', { date: validUntil })}
+      </Badge>
+    );
+  }
+  if (schedule) {
+    return (
+      <span
+        title={validity === 'off_schedule' ? t('knowledge.validity.offSchedule') : t('knowledge.validity.recurring')}
+      >
+        <CalendarClock
+          className={cn('w-3.5 h-3.5 shrink-0', validity === 'off_schedule' ? 'text-muted-foreground/50' : 'text-muted-foreground')}
+        />
+      </span>
+    );
+  }
+  return null;
+}
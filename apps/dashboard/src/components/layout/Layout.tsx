@@ -19,6 +19,7 @@ import {
   User,
   Users,
   CalendarDays,
+  BedDouble,
   Settings,
   Globe,
   FileText,
@@ -29,6 +30,7 @@ import {
   X,
   MoreVertical,
   AlertTriangle,
+  AtSign,
 } from 'lucide-react';
 import { Tooltip } from '@/components/ui/tooltip';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
@@ -360,6 +362,7 @@ export function Layout() {
       items: [
         { path: '/guests', label: t('nav.guests'), icon: <Users size={20} />, permission: PERMISSIONS.GUESTS_VIEW },
         { path: '/reservations', label: t('nav.reservations'), icon: <CalendarDays size={20} />, permission: PERMISSIONS.RESERVATIONS_VIEW },
+        { path: '/housekeeping', label: t('nav.housekeeping'), icon: <BedDouble size={20} />, permission: PERMISSIONS.TASKS_VIEW },
       ],
     },
     {
@@ -728,6 +731,7 @@ export function Layout() {
             setMobileMenuOpen={setMobileMenuOpen}
           />
           <EmailVerificationBanner />
+          <MentionBanner />
           {/* Page content */}
           <main className="flex-1 overflow-auto scrollbar-hide">
             <Outlet />
@@ -925,3 +929,52 @@ function EmailVerificationBanner() {
     </div>
   );
 }
+
+interface MentionAlert {
+  conversationId: string;
+  messageId: string;
+  authorName: string;
+  snippet: string;
+}
+
+/** Latest internal note that @mentioned the signed-in user */
+function MentionBanner() {
+  const { t } = useTranslation();
+  const [mention, setMention] = useState<MentionAlert | null>(null);
+
+  useEffect(() => {
+    const handler = (e: Event) => setMention((e as CustomEvent<MentionAlert>).detail);
+    window.addEventListener('ws:conversation:mention', handler);
+    return () => window.removeEventListener('ws:conversation:mention', handler);
+  }, []);
+
+  if (!mention) return null;
+
+  return (
+    <div className="bg-info border-b border-info-border px-4 py-2 flex items-center justify-between gap-3 text-sm">
+      <div className="flex items-center gap-2 text-info-foreground min-w-0">
+        <AtSign size={16} className="flex-shrink-0" />
+        <span className="truncate">
+          {t('conversations.notes.mentionedYou', { name: mention.authorName })}{' '}
+          <span className="italic">“{mention.snippet}”</span>
+        </span>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <Link
+          to={`/inbox?id=${mention.conversationId}`}
+          onClick={() => setMention(null)}
+          className="text-xs text-primary hover:underline"
+        >
+          {t('conversations.notes.openConversation')}
+        </Link>
+        <button
+          onClick={() => setMention(null)}
+          className="text-muted-foreground hover:text-foreground p-0.5"
+          aria-label={t('common.dismiss')}
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
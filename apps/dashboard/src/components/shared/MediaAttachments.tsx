@@ -0,0 +1,83 @@
+/**
+ * Media Attachments
+ *
+ * Guest photos and voice notes on a message or task. Files are fetched
+ * with the auth header and shown from object URLs; the AI description or
+ * transcript is shown underneath.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { ImageOff, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { MessageMedia } from '@/types/api';
+
+interface MediaAttachmentsProps {
+  media: MessageMedia[];
+  /** Styles captions for a dark (outbound-coloured) background */
+  inverted?: boolean;
+  className?: string;
+}
+
+function useMediaUrl(file: string): { url: string | null; isError: boolean } {
+  const { data, isError } = useQuery({
+    queryKey: ['media', file],
+    queryFn: () => api.getBlob(`/media/${file}`),
+    staleTime: Infinity,
+  });
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+    const objectUrl = URL.createObjectURL(data);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [data]);
+
+  return { url, isError };
+}
+
+function MediaItem({ media, inverted }: { media: MessageMedia; inverted: boolean }) {
+  const { t } = useTranslation();
+  const { url, isError } = useMediaUrl(media.file);
+  const caption = media.kind === 'image' ? media.description : media.transcript;
+  const captionLabel = media.kind === 'image' ? t('media.aiDescription') : t('media.transcript');
+
+  return (
+    <div className="space-y-1">
+      {isError ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <ImageOff className="w-4 h-4" />
+          {t('media.unavailable')}
+        </div>
+      ) : !url ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : media.kind === 'image' ? (
+        <a href={url} target="_blank" rel="noreferrer" title={t('media.openFull')}>
+          <img src={url} alt={media.description ?? t('media.photo')} className="max-h-64 rounded-md object-contain" />
+        </a>
+      ) : (
+        <audio controls src={url} className="w-64 max-w-full" />
+      )}
+      {caption && (
+        <div className={cn('text-xs italic', inverted ? 'text-white/70' : 'text-muted-foreground')}>
+          {captionLabel}: {caption}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MediaAttachments({ media, inverted = false, className }: MediaAttachmentsProps) {
+  if (media.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {media.map((item) => (
+        <MediaItem key={item.id} media={item} inverted={inverted} />
+      ))}
+    </div>
+  );
+}
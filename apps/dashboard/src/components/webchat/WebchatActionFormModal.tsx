@@ -0,0 +1,719 @@
+/**
+ * Webchat Action Form Modal
+ *
+ * Modal for creating and editing staff-defined webchat actions: form
+ * fields, what happens on submit, the guest confirmation, and per-locale
+ * labels for the widget.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { InlineAlert } from '@/components/ui/inline-alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export type ActionFieldType = 'text' | 'date' | 'time' | 'number' | 'select' | 'email' | 'tel';
+
+export interface WebchatActionField {
+  key: string;
+  label: string;
+  type: ActionFieldType;
+  required: boolean;
+  options?: string[];
+  placeholder?: string;
+  showWhen?: { field: string; values: string[] };
+}
+
+export interface WebchatActionTranslation {
+  name?: string;
+  fields?: Record<string, { label?: string; placeholder?: string; options?: Record<string, string> }>;
+  confirmationMessage?: string;
+}
+
+export type WebchatActionOutcome =
+  | { type: 'task'; department: string; taskType: string; priority: string }
+  | { type: 'email'; to: string }
+  | { type: 'webhook'; url: string; secretSet?: boolean; secret?: string | null };
+
+export interface WebchatAction {
+  id: string;
+  name: string;
+  triggerHint: string;
+  requiresVerification: boolean;
+  fields: WebchatActionField[];
+  translations: Record<string, WebchatActionTranslation>;
+  outcomes: WebchatActionOutcome[];
+  confirmationMessage: string;
+  enabled: boolean;
+}
+
+const FIELD_TYPES: ActionFieldType[] = ['text', 'select', 'date', 'time', 'number', 'email', 'tel'];
+const TASK_TYPES = ['concierge', 'housekeeping', 'maintenance', 'room_service', 'other'];
+const PRIORITIES = ['low', 'standard', 'high', 'urgent'];
+
+/** Select value for "always shown" (Radix selects cannot use an empty value) */
+const ALWAYS = '__always__';
+
+interface FieldRow {
+  key: string;
+  label: string;
+  type: ActionFieldType;
+  required: boolean;
+  placeholder: string;
+  /** Comma-separated option values */
+  options: string;
+  showWhenField: string;
+  /** Comma-separated option values of the dependency */
+  showWhenValues: string;
+}
+
+interface FormData {
+  id: string;
+  name: string;
+  triggerHint: string;
+  requiresVerification: boolean;
+  enabled: boolean;
+  fields: FieldRow[];
+  outcomes: WebchatActionOutcome[];
+  confirmationMessage: string;
+  translations: Record<string, WebchatActionTranslation>;
+}
+
+interface WebchatActionFormModalProps {
+  open: boolean;
+  onClose: () => void;
+  action: WebchatAction | null;
+  /** Widget locales other than English */
+  locales: string[];
+}
+
+const EMPTY_FIELD: FieldRow = {
+  key: '',
+  label: '',
+  type: 'text',
+  required: true,
+  placeholder: '',
+  options: '',
+  showWhenField: '',
+  showWhenValues: '',
+};
+
+const EMPTY_FORM: FormData = {
+  id: '',
+  name: '',
+  triggerHint: '',
+  requiresVerification: true,
+  enabled: true,
+  fields: [EMPTY_FIELD],
+  outcomes: [{ type: 'task', department: 'front_desk', taskType: 'other', priority: 'standard' }],
+  confirmationMessage: '',
+  translations: {},
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+function toFieldRow(field: WebchatActionField): FieldRow {
+  return {
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    placeholder: field.placeholder ?? '',
+    options: field.options?.join(', ') ?? '',
+    showWhenField: field.showWhen?.field ?? '',
+    showWhenValues: field.showWhen?.values.join(', ') ?? '',
+  };
+}
+
+function toField(row: FieldRow): WebchatActionField {
+  const field: WebchatActionField = {
+    key: row.key.trim(),
+    label: row.label.trim(),
+    type: row.type,
+    required: row.required,
+  };
+  if (row.type === 'select') field.options = splitList(row.options);
+  if (row.placeholder.trim()) field.placeholder = row.placeholder.trim();
+  if (row.showWhenField && splitList(row.showWhenValues).length > 0) {
+    field.showWhen = { field: row.showWhenField, values: splitList(row.showWhenValues) };
+  }
+  return field;
+}
+
+/** Drop blank strings so untranslated text falls back to the default */
+function cleanTranslation(translation: WebchatActionTranslation, fields: WebchatActionField[]): WebchatActionTranslation {
+  const result: WebchatActionTranslation = {};
+  if (translation.name?.trim()) result.name = translation.name.trim();
+  if (translation.confirmationMessage?.trim()) result.confirmationMessage = translation.confirmationMessage.trim();
+
+  for (const field of fields) {
+    const strings = translation.fields?.[field.key];
+    if (!strings) continue;
+    const cleaned: NonNullable<WebchatActionTranslation['fields']>[string] = {};
+    if (strings.label?.trim()) cleaned.label = strings.label.trim();
+    if (strings.placeholder?.trim()) cleaned.placeholder = strings.placeholder.trim();
+    const options = Object.entries(strings.options ?? {}).filter(
+      ([value, label]) => field.options?.includes(value) && label.trim()
+    );
+    if (options.length > 0) cleaned.options = Object.fromEntries(options.map(([v, l]) => [v, l.trim()]));
+    if (Object.keys(cleaned).length > 0) result.fields = { ...result.fields, [field.key]: cleaned };
+  }
+  return result;
+}
+
+export function WebchatActionFormModal({ open, onClose, action, locales }: WebchatActionFormModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const isEditing = !!action;
+
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [selectedLocale, setSelectedLocale] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when modal opens/closes or action changes
+  useEffect(() => {
+    if (open) {
+      if (action) {
+        setFormData({
+          id: action.id,
+          name: action.name,
+          triggerHint: action.triggerHint,
+          requiresVerification: action.requiresVerification,
+          enabled: action.enabled,
+          fields: action.fields.map(toFieldRow),
+          outcomes: action.outcomes,
+          confirmationMessage: action.confirmationMessage,
+          translations: action.translations,
+        });
+      } else {
+        setFormData(EMPTY_FORM);
+      }
+      setSelectedLocale('');
+      setError(null);
+    }
+  }, [open, action]);
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, ...data }: WebchatAction) =>
+      isEditing ? api.put(`/settings/webchat-actions/${id}`, data) : api.post('/settings/webchat-actions', { id, ...data }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webchat-actions'] });
+      onClose();
+    },
+    onError: (err: Error) => {
+      setError(err.message || t('appEdit.webchatActions.errors.saveFailed'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.id.trim() || !formData.name.trim() || !formData.triggerHint.trim()) {
+      setError(t('appEdit.webchatActions.validation.detailsRequired'));
+      return;
+    }
+    const fields = formData.fields.filter((row) => row.key.trim()).map(toField);
+    if (fields.length === 0 || fields.some((f) => !f.label)) {
+      setError(t('appEdit.webchatActions.validation.fieldsRequired'));
+      return;
+    }
+    if (!formData.confirmationMessage.trim()) {
+      setError(t('appEdit.webchatActions.validation.confirmationRequired'));
+      return;
+    }
+
+    const translations = Object.fromEntries(
+      Object.entries(formData.translations)
+        .map(([lng, translation]) => [lng, cleanTranslation(translation, fields)] as const)
+        .filter(([, translation]) => Object.keys(translation).length > 0)
+    );
+
+    saveMutation.mutate({
+      id: formData.id.trim(),
+      name: formData.name.trim(),
+      triggerHint: formData.triggerHint.trim(),
+      requiresVerification: formData.requiresVerification,
+      enabled: formData.enabled,
+      fields,
+      // The API never returns webhook secrets; only send one when it was changed
+      outcomes: formData.outcomes.map((outcome) => {
+        if (outcome.type !== 'webhook') return outcome;
+        const { secretSet: _, secret, ...rest } = outcome;
+        return secret ? { ...rest, secret } : rest;
+      }),
+      confirmationMessage: formData.confirmationMessage.trim(),
+      translations,
+    });
+  };
+
+  const updateField = (index: number, patch: Partial<FieldRow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      fields: prev.fields.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    }));
+  };
+
+  const updateOutcome = (index: number, outcome: WebchatActionOutcome) => {
+    setFormData((prev) => ({
+      ...prev,
+      outcomes: prev.outcomes.map((o, i) => (i === index ? outcome : o)),
+    }));
+  };
+
+  const changeOutcomeType = (index: number, type: WebchatActionOutcome['type']) => {
+    const defaults: Record<WebchatActionOutcome['type'], WebchatActionOutcome> = {
+      task: { type: 'task', department: 'front_desk', taskType: 'other', priority: 'standard' },
+      email: { type: 'email', to: '' },
+      webhook: { type: 'webhook', url: '' },
+    };
+    updateOutcome(index, defaults[type]);
+  };
+
+  const locale = selectedLocale || locales[0] || '';
+  const translation = formData.translations[locale] ?? {};
+  const updateTranslation = (patch: Partial<WebchatActionTranslation>) => {
+    setFormData((prev) => ({
+      ...prev,
+      translations: { ...prev.translations, [locale]: { ...prev.translations[locale], ...patch } },
+    }));
+  };
+  const updateFieldTranslation = (key: string, patch: NonNullable<WebchatActionTranslation['fields']>[string]) => {
+    updateTranslation({
+      fields: { ...translation.fields, [key]: { ...translation.fields?.[key], ...patch } },
+    });
+  };
+
+  const namedFields = formData.fields.filter((row) => row.key.trim());
+
+  return (
+    <DialogRoot open={open} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        title={isEditing ? t('appEdit.webchatActions.editAction') : t('appEdit.webchatActions.addAction')}
+        className="max-w-3xl"
+      >
+        <form onSubmit={handleSubmit} className="flex flex-col overflow-hidden">
+          <div className="relative p-4 space-y-6 flex-1 min-h-0 overflow-y-auto">
+            {error && <InlineAlert variant="error">{error}</InlineAlert>}
+
+            {/* Details */}
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="action-name">{t('appEdit.webchatActions.labels.name')}</Label>
+                  <Input
+                    id="action-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder={t('appEdit.webchatActions.placeholders.name')}
+                    autoFocus
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="action-id">{t('appEdit.webchatActions.labels.id')}</Label>
+                  <Input
+                    id="action-id"
+                    value={formData.id}
+                    onChange={(e) => setFormData({ ...formData, id: e.target.value.toLowerCase() })}
+                    placeholder="book-spa"
+                    className="font-mono"
+                    disabled={isEditing}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="action-trigger">{t('appEdit.webchatActions.labels.triggerHint')}</Label>
+                <Input
+                  id="action-trigger"
+                  value={formData.triggerHint}
+                  onChange={(e) => setFormData({ ...formData, triggerHint: e.target.value })}
+                  placeholder={t('appEdit.webchatActions.placeholders.triggerHint')}
+                />
+                <p className="text-xs text-muted-foreground">{t('appEdit.webchatActions.helpText.triggerHint')}</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>{t('appEdit.webchatActions.labels.requiresVerification')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('appEdit.webchatActions.helpText.requiresVerification')}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={formData.requiresVerification}
+                    onCheckedChange={(checked) => setFormData({ ...formData, requiresVerification: checked })}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>{t('appEdit.webchatActions.labels.enabled')}</Label>
+                    <p className="text-xs text-muted-foreground">{t('appEdit.webchatActions.helpText.enabled')}</p>
+                  </div>
+                  <Switch
+                    checked={formData.enabled}
+                    onCheckedChange={(checked) => setFormData({ ...formData, enabled: checked })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Fields */}
+            <div className="space-y-3">
+              <div>
+                <Label>{t('appEdit.webchatActions.labels.fields')}</Label>
+                <p className="text-xs text-muted-foreground mt-1">{t('appEdit.webchatActions.helpText.fields')}</p>
+              </div>
+
+              {formData.fields.map((row, index) => {
+                const dependencies = formData.fields
+                  .slice(0, index)
+                  .filter((f) => f.type === 'select' && f.key.trim());
+                return (
+                  <div key={index} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={row.key}
+                        onChange={(e) => updateField(index, { key: e.target.value })}
+                        placeholder={t('appEdit.webchatActions.placeholders.fieldKey')}
+                        className="w-36 font-mono"
+                      />
+                      <Input
+                        value={row.label}
+                        onChange={(e) => updateField(index, { label: e.target.value })}
+                        placeholder={t('appEdit.webchatActions.placeholders.fieldLabel')}
+                        className="flex-1"
+                      />
+                      <Select
+                        value={row.type}
+                        onValueChange={(value) => updateField(index, { type: value as ActionFieldType })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FIELD_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {t(`appEdit.webchatActions.fieldTypes.${type}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setFormData((prev) => ({ ...prev, fields: prev.fields.filter((_, i) => i !== index) }))
+                        }
+                        className="p-1.5 rounded hover:bg-muted text-muted-foreground"
+                        aria-label={t('appEdit.webchatActions.actions.removeField')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {row.type === 'select' ? (
+                      <Input
+                        value={row.options}
+                        onChange={(e) => updateField(index, { options: e.target.value })}
+                        placeholder={t('appEdit.webchatActions.placeholders.options')}
+                      />
+                    ) : (
+                      <Input
+                        value={row.placeholder}
+                        onChange={(e) => updateField(index, { placeholder: e.target.value })}
+                        placeholder={t('appEdit.webchatActions.placeholders.fieldPlaceholder')}
+                      />
+                    )}
+                    <div className="flex flex-wrap items-center gap-4">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`field-required-${index}`}
+                          checked={row.required}
+                          onCheckedChange={(checked) => updateField(index, { required: checked })}
+                        />
+                        <label htmlFor={`field-required-${index}`} className="text-sm cursor-pointer">
+                          {t('appEdit.webchatActions.labels.required')}
+                        </label>
+                      </div>
+                      {dependencies.length > 0 && (
+                        <div className="flex flex-1 items-center gap-2">
+                          <Select
+                            value={row.showWhenField || ALWAYS}
+                            onValueChange={(value) => updateField(index, { showWhenField: value === ALWAYS ? '' : value })}
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ALWAYS}>{t('appEdit.webchatActions.labels.alwaysShown')}</SelectItem>
+                              {dependencies.map((f) => (
+                                <SelectItem key={f.key} value={f.key.trim()}>
+                                  {t('appEdit.webchatActions.labels.showWhen', { field: f.label || f.key })}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {row.showWhenField && (
+                            <Input
+                              value={row.showWhenValues}
+                              onChange={(e) => updateField(index, { showWhenValues: e.target.value })}
+                              placeholder={t('appEdit.webchatActions.placeholders.showWhenValues')}
+                              className="flex-1"
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData((prev) => ({ ...prev, fields: [...prev.fields, EMPTY_FIELD] }))}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {t('appEdit.webchatActions.actions.addField')}
+              </Button>
+            </div>
+
+            {/* Outcomes */}
+            <div className="space-y-3">
+              <div>
+                <Label>{t('appEdit.webchatActions.labels.outcomes')}</Label>
+                <p className="text-xs text-muted-foreground mt-1">{t('appEdit.webchatActions.helpText.outcomes')}</p>
+              </div>
+
+              {formData.outcomes.map((outcome, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 border rounded-lg p-3">
+                  <Select
+                    value={outcome.type}
+                    onValueChange={(value) => changeOutcomeType(index, value as WebchatActionOutcome['type'])}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="task">{t('appEdit.webchatActions.outcomes.task')}</SelectItem>
+                      <SelectItem value="email">{t('appEdit.webchatActions.outcomes.email')}</SelectItem>
+                      <SelectItem value="webhook">{t('appEdit.webchatActions.outcomes.webhook')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {outcome.type === 'task' && (
+                    <>
+                      <Input
+                        value={outcome.department}
+                        onChange={(e) => updateOutcome(index, { ...outcome, department: e.target.value })}
+                        placeholder={t('appEdit.webchatActions.placeholders.department')}
+                        className="flex-1 min-w-32"
+                      />
+                      <Select
+                        value={outcome.taskType}
+                        onValueChange={(taskType) => updateOutcome(index, { ...outcome, taskType })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TASK_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {t(`appEdit.webchatActions.taskTypes.${type}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={outcome.priority}
+                        onValueChange={(priority) => updateOutcome(index, { ...outcome, priority })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PRIORITIES.map((priority) => (
+                            <SelectItem key={priority} value={priority}>
+                              {t(`appEdit.webchatActions.priorities.${priority}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+
+                  {outcome.type === 'email' && (
+                    <Input
+                      type="email"
+                      value={outcome.to}
+                      onChange={(e) => updateOutcome(index, { ...outcome, to: e.target.value })}
+                      placeholder="spa@hotel.com"
+                      className="flex-1"
+                    />
+                  )}
+
+                  {outcome.type === 'webhook' && (
+                    <>
+                      <Input
+                        value={outcome.url}
+                        onChange={(e) => updateOutcome(index, { ...outcome, url: e.target.value })}
+                        placeholder="https://"
+                        className="flex-1 min-w-48"
+                      />
+                      <Input
+                        type="password"
+                        value={outcome.secret ?? ''}
+                        onChange={(e) => updateOutcome(index, { ...outcome, secret: e.target.value })}
+                        placeholder={
+                          outcome.secretSet
+                            ? t('appEdit.webchatActions.placeholders.secretSaved')
+                            : t('appEdit.webchatActions.placeholders.secret')
+                        }
+                        autoComplete="new-password"
+                        className="w-44"
+                      />
+                    </>
+                  )}
+
+                  {formData.outcomes.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData((prev) => ({ ...prev, outcomes: prev.outcomes.filter((_, i) => i !== index) }))
+                      }
+                      className="ms-auto p-1.5 rounded hover:bg-muted text-muted-foreground"
+                      aria-label={t('appEdit.webchatActions.actions.removeOutcome')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData((prev) => ({ ...prev, outcomes: [...prev.outcomes, { type: 'email', to: '' }] }))
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {t('appEdit.webchatActions.actions.addOutcome')}
+              </Button>
+            </div>
+
+            {/* Confirmation */}
+            <div className="space-y-2">
+              <Label htmlFor="action-confirmation">{t('appEdit.webchatActions.labels.confirmationMessage')}</Label>
+              <Textarea
+                id="action-confirmation"
+                value={formData.confirmationMessage}
+                onChange={(e) => setFormData({ ...formData, confirmationMessage: e.target.value })}
+                placeholder={t('appEdit.webchatActions.placeholders.confirmationMessage')}
+                rows={2}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('appEdit.webchatActions.helpText.confirmationMessage', {
+                  variables: namedFields.map((f) => `{{${f.key.trim()}}}`).join(', ') || '{{fieldKey}}',
+                })}
+              </p>
+            </div>
+
+            {/* Translations */}
+            {locales.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>{t('appEdit.webchatActions.labels.translations')}</Label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {t('appEdit.webchatActions.helpText.translations')}
+                    </p>
+                  </div>
+                  <Select value={locale} onValueChange={setSelectedLocale}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locales.map((lng) => (
+                        <SelectItem key={lng} value={lng}>
+                          {lng.toUpperCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="border rounded-lg p-3 space-y-2">
+                  <Input
+                    value={translation.name ?? ''}
+                    onChange={(e) => updateTranslation({ name: e.target.value })}
+                    placeholder={formData.name || t('appEdit.webchatActions.labels.name')}
+                  />
+                  {namedFields.map((row) => {
+                    const key = row.key.trim();
+                    const strings = translation.fields?.[key];
+                    return (
+                      <div key={key} className="space-y-2">
+                        <Input
+                          value={strings?.label ?? ''}
+                          onChange={(e) => updateFieldTranslation(key, { label: e.target.value })}
+                          placeholder={row.label || key}
+                        />
+                        {row.type === 'select' &&
+                          splitList(row.options).map((option) => (
+                            <Input
+                              key={option}
+                              value={strings?.options?.[option] ?? ''}
+                              onChange={(e) =>
+                                updateFieldTranslation(key, { options: { ...strings?.options, [option]: e.target.value } })
+                              }
+                              placeholder={option}
+                              className="ms-6 w-auto"
+                            />
+                          ))}
+                      </div>
+                    );
+                  })}
+                  <Textarea
+                    value={translation.confirmationMessage ?? ''}
+                    onChange={(e) => updateTranslation({ confirmationMessage: e.target.value })}
+                    placeholder={formData.confirmationMessage || t('appEdit.webchatActions.labels.confirmationMessage')}
+                    rows={2}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="px-4 py-3 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" loading={saveMutation.isPending}>
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
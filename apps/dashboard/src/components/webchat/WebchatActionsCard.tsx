@@ -0,0 +1,207 @@
+/**
+ * Webchat Actions Card
+ *
+ * Staff-defined actions the assistant can offer in the webchat widget,
+ * listed next to the built-in ones.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ListChecks, Plus, MoreHorizontal } from 'lucide-react';
+import { api } from '@/lib/api';
+import { EmptyState } from '@/components';
+import { DataTable, Column } from '@/components/DataTable';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from '@/components/ui/dropdown-menu';
+import { WebchatActionFormModal, type WebchatAction } from './WebchatActionFormModal';
+
+interface WebchatActionsResponse {
+  actions: WebchatAction[];
+  builtIn: Array<{ id: string; name: string }>;
+  locales: string[];
+}
+
+interface WebchatActionsCardProps {
+  canManage: boolean;
+}
+
+export function WebchatActionsCard({ canManage }: WebchatActionsCardProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [selectedAction, setSelectedAction] = useState<WebchatAction | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [actionToDelete, setActionToDelete] = useState<WebchatAction | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webchat-actions'],
+    queryFn: () => api.get<WebchatActionsResponse>('/settings/webchat-actions'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/settings/webchat-actions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webchat-actions'] });
+      setActionToDelete(null);
+    },
+    onError: (err: Error) => {
+      setActionToDelete(null);
+      setDeleteError(err.message || t('appEdit.webchatActions.errors.deleteFailed'));
+    },
+  });
+
+  const actions = data?.actions || [];
+  // English is the default text; the rest are translations
+  const locales = (data?.locales || []).filter((lng) => lng !== 'en');
+
+  const describeOutcome = (outcome: WebchatAction['outcomes'][number]) => {
+    switch (outcome.type) {
+      case 'task':
+        return t('appEdit.webchatActions.outcomeSummary.task', { department: outcome.department.replace('_', ' ') });
+      case 'email':
+        return t('appEdit.webchatActions.outcomeSummary.email', { to: outcome.to });
+      case 'webhook':
+        return t('appEdit.webchatActions.outcomeSummary.webhook', {
+          host: outcome.url.replace(/^https?:\/\//, '').split('/')[0],
+        });
+    }
+  };
+
+  const handleCloseModal = () => {
+    setSelectedAction(null);
+    setShowAddModal(false);
+  };
+
+  const columns: Column<WebchatAction>[] = [
+    {
+      key: 'name',
+      header: t('appEdit.webchatActions.table.name'),
+      render: (action) => (
+        <div>
+          <div className="font-medium text-foreground">{action.name}</div>
+          <div className="text-xs text-muted-foreground font-mono">{action.id}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'outcomes',
+      header: t('appEdit.webchatActions.table.outcomes'),
+      render: (action) => (
+        <span className="text-sm text-muted-foreground">{action.outcomes.map(describeOutcome).join(', ')}</span>
+      ),
+    },
+    {
+      key: 'enabled',
+      header: t('appEdit.webchatActions.table.status'),
+      render: (action) => (
+        <Badge variant={action.enabled ? 'success' : 'secondary'}>
+          {action.enabled ? t('appEdit.webchatActions.status.enabled') : t('appEdit.webchatActions.status.disabled')}
+        </Badge>
+      ),
+    },
+    ...(canManage
+      ? [
+          {
+            key: 'actions',
+            header: '',
+            className: 'w-16',
+            render: (action: WebchatAction) => (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="p-1.5 rounded hover:bg-muted text-muted-foreground">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={() => setSelectedAction(action)}>
+                    {t('appEdit.webchatActions.actions.edit')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setActionToDelete(action)}>
+                    {t('appEdit.webchatActions.actions.delete')}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <ListChecks className="w-4 h-4" />
+            {t('appEdit.webchatActions.title')}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">{t('appEdit.webchatActions.description')}</p>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => setShowAddModal(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('appEdit.webchatActions.addAction')}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {deleteError && (
+          <Alert variant="destructive" onDismiss={() => setDeleteError(null)}>
+            {deleteError}
+          </Alert>
+        )}
+
+        <DataTable
+          data={actions}
+          columns={columns}
+          keyExtractor={(action) => action.id}
+          loading={isLoading}
+          emptyState={
+            <EmptyState
+              icon={ListChecks}
+              title={t('appEdit.webchatActions.empty.title')}
+              description={t('appEdit.webchatActions.empty.description')}
+            />
+          }
+        />
+
+        {data?.builtIn && data.builtIn.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {t('appEdit.webchatActions.builtIn', { actions: data.builtIn.map((a) => a.name).join(', ') })}
+          </p>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Action Modal */}
+      <WebchatActionFormModal
+        open={showAddModal || !!selectedAction}
+        onClose={handleCloseModal}
+        action={selectedAction}
+        locales={locales}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        open={!!actionToDelete}
+        onOpenChange={(open) => !open && setActionToDelete(null)}
+        title={t('appEdit.webchatActions.confirm.deleteTitle')}
+        description={t('appEdit.webchatActions.confirm.deleteDescription', { name: actionToDelete?.name })}
+        confirmLabel={t('appEdit.webchatActions.actions.delete')}
+        variant="destructive"
+        onConfirm={() => actionToDelete && deleteMutation.mutate(actionToDelete.id)}
+        loading={deleteMutation.isPending}
+      />
+    </Card>
+  );
+}
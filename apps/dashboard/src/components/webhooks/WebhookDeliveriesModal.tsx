@@ -0,0 +1,153 @@
+/**
+ * Webhook Deliveries Modal
+ *
+ * Recent deliveries for one webhook subscription, with manual redelivery.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { RotateCw } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatDateTime } from '@/lib/formatters';
+import { DataTable, Column } from '@/components/DataTable';
+import { DialogRoot, DialogContent } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { InlineAlert } from '@/components/ui/inline-alert';
+import type { WebhookSubscription } from './WebhookFormModal';
+
+interface WebhookDelivery {
+  id: string;
+  eventType: string;
+  status: 'pending' | 'sending' | 'success' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+}
+
+const STATUS_VARIANTS = {
+  pending: 'warning',
+  sending: 'info',
+  success: 'success',
+  failed: 'error',
+} as const;
+
+interface WebhookDeliveriesModalProps {
+  subscription: WebhookSubscription | null;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+export function WebhookDeliveriesModal({ subscription, canManage, onClose }: WebhookDeliveriesModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhook-deliveries', subscription?.id],
+    queryFn: () => api.get<{ deliveries: WebhookDelivery[] }>(`/settings/webhooks/${subscription?.id}/deliveries`),
+    enabled: !!subscription,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: (deliveryId: string) =>
+      api.post(`/settings/webhooks/${subscription?.id}/deliveries/${deliveryId}/redeliver`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', subscription?.id] });
+      queryClient.invalidateQueries({ queryKey: ['webhook-subscriptions'] });
+    },
+    onError: (err: Error) => {
+      setError(err.message || t('settings.webhooks.errors.redeliverFailed'));
+    },
+  });
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const columns: Column<WebhookDelivery>[] = [
+    {
+      key: 'event',
+      header: t('settings.webhooks.deliveries.event'),
+      render: (delivery) => (
+        <div>
+          <div className="text-sm font-mono">{delivery.eventType}</div>
+          <div className="text-xs text-muted-foreground">{formatDateTime(delivery.createdAt)}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: t('settings.webhooks.deliveries.status'),
+      render: (delivery) => (
+        <Badge variant={STATUS_VARIANTS[delivery.status]}>{t(`settings.webhooks.deliveryStatus.${delivery.status}`)}</Badge>
+      ),
+    },
+    {
+      key: 'response',
+      header: t('settings.webhooks.deliveries.response'),
+      render: (delivery) => (
+        <div className="text-sm text-muted-foreground">
+          <div>
+            {delivery.error || delivery.responseStatus}
+            {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+          </div>
+          <div className="text-xs">
+            {t('settings.webhooks.deliveries.attempts', { count: delivery.attempts })}
+            {delivery.status === 'pending' &&
+              delivery.nextAttemptAt &&
+              ` · ${t('settings.webhooks.deliveries.nextAttempt', { time: formatDateTime(delivery.nextAttemptAt) })}`}
+          </div>
+        </div>
+      ),
+    },
+    ...(canManage
+      ? [
+          {
+            key: 'actions',
+            header: '',
+            className: 'w-32',
+            render: (delivery: WebhookDelivery) => (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => redeliverMutation.mutate(delivery.id)}
+                disabled={redeliverMutation.isPending}
+              >
+                <RotateCw className="w-3.5 h-3.5 mr-1.5" />
+                {t('settings.webhooks.actions.redeliver')}
+              </Button>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <DialogRoot open={!!subscription} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent
+        title={t('settings.webhooks.deliveries.title', { name: subscription?.name })}
+        className="max-w-3xl"
+      >
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {error && <InlineAlert variant="error">{error}</InlineAlert>}
+          <DataTable
+            data={data?.deliveries || []}
+            columns={columns}
+            keyExtractor={(delivery) => delivery.id}
+            loading={isLoading}
+            emptyState={
+              <p className="py-8 text-center text-sm text-muted-foreground">{t('settings.webhooks.deliveries.empty')}</p>
+            }
+          />
+        </div>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
@@ -0,0 +1,221 @@
+/**
+ * Webhook Form Modal
+ *
+ * Modal for creating and editing outbound webhook subscriptions: target URL
+ * and the events it receives.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { InlineAlert } from '@/components/ui/inline-alert';
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  enabled: boolean;
+  consecutiveFailures: number;
+  disabledReason: string | null;
+  lastDeliveryAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface FormData {
+  name: string;
+  url: string;
+  events: string[];
+  enabled: boolean;
+}
+
+interface WebhookFormModalProps {
+  open: boolean;
+  onClose: () => void;
+  subscription: WebhookSubscription | null;
+  eventTypes: string[];
+  /** Called with the signing secret after a subscription is created */
+  onCreated: (secret: string) => void;
+}
+
+const EMPTY_FORM: FormData = {
+  name: '',
+  url: '',
+  events: [],
+  enabled: true,
+};
+
+/** Group event types by their prefix ("task.created" -> "task") */
+function groupEventTypes(eventTypes: string[]): Array<[string, string[]]> {
+  const groups = new Map<string, string[]>();
+  for (const type of eventTypes) {
+    const group = type.split('.')[0]!;
+    groups.set(group, [...(groups.get(group) || []), type]);
+  }
+  return [...groups.entries()];
+}
+
+export function WebhookFormModal({ open, onClose, subscription, eventTypes, onCreated }: WebhookFormModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const isEditing = !!subscription;
+
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when modal opens/closes or subscription changes
+  useEffect(() => {
+    if (open) {
+      if (subscription) {
+        setFormData({
+          name: subscription.name,
+          url: subscription.url,
+          events: subscription.events,
+          enabled: subscription.enabled,
+        });
+      } else {
+        setFormData(EMPTY_FORM);
+      }
+      setError(null);
+    }
+  }, [open, subscription]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FormData): Promise<{ secret?: string }> => {
+      if (isEditing) {
+        await api.put(`/settings/webhooks/${subscription?.id}`, data);
+        return {};
+      }
+      return api.post<{ subscription: WebhookSubscription; secret: string }>('/settings/webhooks', data);
+    },
+    onSuccess: ({ secret }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-subscriptions'] });
+      onClose();
+      if (secret) {
+        onCreated(secret);
+      }
+    },
+    onError: (err: Error) => {
+      setError(err.message || t('settings.webhooks.errors.saveFailed'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.name.trim()) {
+      setError(t('settings.webhooks.validation.nameRequired'));
+      return;
+    }
+    if (!/^https?:\/\/.+/.test(formData.url.trim())) {
+      setError(t('settings.webhooks.validation.urlInvalid'));
+      return;
+    }
+    if (formData.events.length === 0) {
+      setError(t('settings.webhooks.validation.eventsRequired'));
+      return;
+    }
+
+    saveMutation.mutate({ ...formData, name: formData.name.trim(), url: formData.url.trim() });
+  };
+
+  const toggleEvent = (type: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, type] : prev.events.filter((e) => e !== type),
+    }));
+  };
+
+  return (
+    <DialogRoot open={open} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        title={isEditing ? t('settings.webhooks.editWebhook') : t('settings.webhooks.addWebhook')}
+        className="max-w-2xl"
+      >
+        <form onSubmit={handleSubmit} className="flex flex-col overflow-hidden">
+          <div className="relative p-4 space-y-6 flex-1 min-h-0 overflow-y-auto">
+            {error && <InlineAlert variant="error">{error}</InlineAlert>}
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-name">{t('settings.webhooks.labels.name')}</Label>
+                <Input
+                  id="webhook-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder={t('settings.webhooks.placeholders.name')}
+                  autoFocus
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">{t('settings.webhooks.labels.url')}</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  value={formData.url}
+                  onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                  placeholder="https://"
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>{t('settings.webhooks.labels.enabled')}</Label>
+                  <p className="text-xs text-muted-foreground">{t('settings.webhooks.helpText.enabled')}</p>
+                </div>
+                <Switch
+                  checked={formData.enabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, enabled: checked })}
+                />
+              </div>
+            </div>
+
+            {/* Events */}
+            <div className="space-y-3">
+              <div>
+                <Label>{t('settings.webhooks.labels.events')}</Label>
+                <p className="text-xs text-muted-foreground mt-1">{t('settings.webhooks.helpText.events')}</p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {groupEventTypes(eventTypes).map(([group, types]) => (
+                  <div key={group} className="border rounded-lg p-3 space-y-2">
+                    <div className="text-sm font-medium capitalize">{group}</div>
+                    {types.map((type) => (
+                      <div key={type} className="flex items-center gap-2">
+                        <Checkbox
+                          checked={formData.events.includes(type)}
+                          onCheckedChange={(checked) => toggleEvent(type, checked)}
+                        />
+                        <span className="text-sm font-mono">{type}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="px-4 py-3 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" loading={saveMutation.isPending}>
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
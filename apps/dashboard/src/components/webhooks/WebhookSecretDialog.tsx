@@ -0,0 +1,49 @@
+/**
+ * Webhook Secret Dialog
+ *
+ * One-time display of a webhook signing secret after create or rotate.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Copy } from 'lucide-react';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+interface WebhookSecretDialogProps {
+  secret: string | null;
+  onClose: () => void;
+}
+
+export function WebhookSecretDialog({ secret, onClose }: WebhookSecretDialogProps) {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <DialogRoot open={!!secret} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent title={t('settings.webhooks.secret.title')} className="max-w-lg">
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">{t('settings.webhooks.secret.description')}</p>
+          <div className="rounded-md border border-border bg-muted p-3 font-mono text-sm break-all">{secret}</div>
+          <p className="text-xs text-muted-foreground">{t('settings.webhooks.secret.verifyHint')}</p>
+        </div>
+        <DialogFooter className="px-4 py-3 border-t">
+          <Button type="button" variant="outline" onClick={handleCopy}>
+            {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+            {copied ? t('settings.webhooks.secret.copied') : t('settings.webhooks.secret.copy')}
+          </Button>
+          <Button type="button" onClick={onClose}>
+            {t('settings.webhooks.secret.done')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * WhatsApp Template Modal
+ *
+ * Map each `{{n}}` variable of a template to a guest, reservation or hotel
+ * field, and choose whether it is the fallback for its language.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { DialogRoot, DialogContent, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { InlineAlert } from '@/components/ui/inline-alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface WhatsAppTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category: string;
+  status: string;
+  body: string;
+  parameterCount: number;
+  variables: Array<string | null>;
+  isFallback: boolean;
+  syncedAt: string;
+}
+
+interface WhatsAppTemplateModalProps {
+  template: WhatsAppTemplate | null;
+  variableSources: string[];
+  onClose: () => void;
+}
+
+/** Select value for an unmapped variable (Radix selects cannot use an empty value) */
+const UNMAPPED = '__unmapped__';
+
+export function WhatsAppTemplateModal({ template, variableSources, onClose }: WhatsAppTemplateModalProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [variables, setVariables] = useState<Array<string | null>>([]);
+  const [isFallback, setIsFallback] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (template) {
+      setVariables(template.variables);
+      setIsFallback(template.isFallback);
+      setError(null);
+    }
+  }, [template]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: { variables: Array<string | null>; isFallback: boolean }) =>
+      api.put(`/settings/whatsapp-templates/${template?.id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-templates'] });
+      onClose();
+    },
+    onError: (err: Error) => {
+      setError(err.message || t('appEdit.whatsappTemplates.errors.saveFailed'));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    saveMutation.mutate({ variables, isFallback });
+  };
+
+  return (
+    <DialogRoot open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent title={t('appEdit.whatsappTemplates.editTitle', { name: template?.name })} className="max-w-xl">
+        <form onSubmit={handleSubmit} className="flex flex-col overflow-hidden">
+          <div className="p-4 space-y-5 flex-1 min-h-0 overflow-y-auto">
+            {error && <InlineAlert variant="error">{error}</InlineAlert>}
+
+            <div className="space-y-2">
+              <Label>{t('appEdit.whatsappTemplates.table.body')}</Label>
+              <p className="text-sm whitespace-pre-wrap rounded-md border bg-muted/40 p-3">{template?.body}</p>
+            </div>
+
+            {variables.length > 0 && (
+              <div className="space-y-3">
+                {variables.map((source, index) => (
+                  <div key={index} className="grid grid-cols-[8rem_1fr] items-center gap-3">
+                    <Label className="font-mono">{`{{${index + 1}}}`}</Label>
+                    <Select
+                      value={source ?? UNMAPPED}
+                      onValueChange={(value) =>
+                        setVariables((prev) => prev.map((v, i) => (i === index ? (value === UNMAPPED ? null : value) : v)))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>{t('appEdit.whatsappTemplates.notMapped')}</SelectItem>
+                        {variableSources.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {t(`appEdit.whatsappTemplates.sources.${option}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>{t('appEdit.whatsappTemplates.useAsFallback')}</Label>
+                <p className="text-xs text-muted-foreground">{t('appEdit.whatsappTemplates.fallbackHelp')}</p>
+              </div>
+              <Switch
+                checked={isFallback}
+                onCheckedChange={setIsFallback}
+                disabled={template?.status !== 'APPROVED'}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="px-4 py-3 border-t">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" loading={saveMutation.isPending}>
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
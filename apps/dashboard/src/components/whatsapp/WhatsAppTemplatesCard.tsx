@@ -0,0 +1,190 @@
+/**
+ * WhatsApp Templates Card
+ *
+ * Templates synced from the WhatsApp Business account, with the guest or
+ * reservation field behind each variable and the fallback template used
+ * once a conversation's 24-hour window has closed.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileText, RefreshCw, MoreHorizontal } from 'lucide-react';
+import { api } from '@/lib/api';
+import { EmptyState } from '@/components';
+import { DataTable, Column } from '@/components/DataTable';
+import { Alert } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from '@/components/ui/dropdown-menu';
+import { WhatsAppTemplateModal, type WhatsAppTemplate } from './WhatsAppTemplateModal';
+
+interface WhatsAppTemplatesResponse {
+  templates: WhatsAppTemplate[];
+  variableSources: string[];
+}
+
+interface SyncResponse {
+  result: { added: number; updated: number; removed: number };
+  templates: WhatsAppTemplate[];
+}
+
+interface WhatsAppTemplatesCardProps {
+  canManage: boolean;
+}
+
+const statusVariant = (status: string) =>
+  status === 'APPROVED' ? 'success' : status === 'PENDING' ? 'warning' : 'error';
+
+export function WhatsAppTemplatesCard({ canManage }: WhatsAppTemplatesCardProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const [selectedTemplate, setSelectedTemplate] = useState<WhatsAppTemplate | null>(null);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['whatsapp-templates'],
+    queryFn: () => api.get<WhatsAppTemplatesResponse>('/settings/whatsapp-templates'),
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => api.post<SyncResponse>('/settings/whatsapp-templates/sync', {}),
+    onSuccess: ({ result }) => {
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-templates'] });
+      setSyncError(null);
+      setSyncMessage(t('appEdit.whatsappTemplates.synced', result));
+    },
+    onError: (err: Error) => {
+      setSyncMessage(null);
+      setSyncError(err.message || t('appEdit.whatsappTemplates.errors.syncFailed'));
+    },
+  });
+
+  const templates = data?.templates || [];
+
+  const columns: Column<WhatsAppTemplate>[] = [
+    {
+      key: 'name',
+      header: t('appEdit.whatsappTemplates.table.name'),
+      render: (template) => (
+        <div>
+          <div className="font-medium text-foreground flex items-center gap-2">
+            {template.name}
+            {template.isFallback && <Badge variant="info">{t('appEdit.whatsappTemplates.fallback')}</Badge>}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {template.language} · {template.category}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'body',
+      header: t('appEdit.whatsappTemplates.table.body'),
+      render: (template) => <span className="text-sm text-muted-foreground line-clamp-2">{template.body}</span>,
+    },
+    {
+      key: 'variables',
+      header: t('appEdit.whatsappTemplates.table.variables'),
+      render: (template) =>
+        template.parameterCount === 0 ? (
+          <span className="text-sm text-muted-foreground">{t('appEdit.whatsappTemplates.noVariables')}</span>
+        ) : (
+          <span className="text-sm text-muted-foreground">
+            {t('appEdit.whatsappTemplates.mapped', {
+              mapped: template.variables.filter(Boolean).length,
+              total: template.parameterCount,
+            })}
+          </span>
+        ),
+    },
+    {
+      key: 'status',
+      header: t('appEdit.whatsappTemplates.table.status'),
+      render: (template) => <Badge variant={statusVariant(template.status)}>{template.status}</Badge>,
+    },
+    ...(canManage
+      ? [
+          {
+            key: 'actions',
+            header: '',
+            className: 'w-16',
+            render: (template: WhatsAppTemplate) => (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="p-1.5 rounded hover:bg-muted text-muted-foreground">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={() => setSelectedTemplate(template)}>
+                    {t('appEdit.whatsappTemplates.edit')}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <FileText className="w-4 h-4" />
+            {t('appEdit.whatsappTemplates.title')}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">{t('appEdit.whatsappTemplates.description')}</p>
+        </div>
+        {canManage && (
+          <Button size="sm" variant="outline" onClick={() => syncMutation.mutate()} loading={syncMutation.isPending}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {t('appEdit.whatsappTemplates.sync')}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {syncError && (
+          <Alert variant="destructive" onDismiss={() => setSyncError(null)}>
+            {syncError}
+          </Alert>
+        )}
+        {syncMessage && (
+          <Alert variant="success" onDismiss={() => setSyncMessage(null)}>
+            {syncMessage}
+          </Alert>
+        )}
+
+        <DataTable
+          data={templates}
+          columns={columns}
+          keyExtractor={(template) => template.id}
+          loading={isLoading}
+          emptyState={
+            <EmptyState
+              icon={FileText}
+              title={t('appEdit.whatsappTemplates.empty.title')}
+              description={t('appEdit.whatsappTemplates.empty.description')}
+            />
+          }
+        />
+      </CardContent>
+
+      <WhatsAppTemplateModal
+        template={selectedTemplate}
+        variableSources={data?.variableSources || []}
+        onClose={() => setSelectedTemplate(null)}
+      />
+    </Card>
+  );
+}
@@ -3,6 +3,8 @@ import { createContext, useContext, useEffect, useState, type ReactNode } from '
 interface AppConfig {
   demoMode: boolean;
   registrationEnabled: boolean;
+  /** Present when OIDC single sign-on is enabled */
+  sso: { buttonLabel: string } | null;
   version: string;
 }
 
@@ -16,6 +18,7 @@ const AppConfigContext = createContext<AppConfigContextValue | null>(null);
 const DEFAULT_CONFIG: AppConfig = {
   demoMode: false,
   registrationEnabled: false,
+  sso: null,
   version: 'dev',
 };
 
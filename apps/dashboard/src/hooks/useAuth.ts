@@ -21,6 +21,7 @@ interface User {
   permissions: string[];
   emailVerified: boolean;
   emailVerificationDeadline: string | null;
+  twoFactorEnabled: boolean;
 }
 
 /**
@@ -35,6 +36,24 @@ interface UserResponse {
   permissions: string[];
   emailVerified: boolean;
   emailVerificationDeadline: string | null;
+  twoFactorEnabled: boolean;
+}
+
+/**
+ * Tokens issued once every login factor has been checked
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Returned by login instead of tokens when a second factor is needed
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  method: 'verify' | 'enroll';
+  challengeToken: string;
 }
 
 /**
@@ -44,7 +63,9 @@ interface AuthState {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
+  /** Resolves with a challenge when a second factor is needed, otherwise null */
+  login: (email: string, password: string, rememberMe?: boolean) => Promise<TwoFactorChallenge | null>;
+  completeLogin: (tokens: TokenPair) => Promise<void>;
   logout: () => void;
   checkAuth: () => Promise<void>;
   // Permission helpers
@@ -69,6 +90,7 @@ function transformUser(response: UserResponse): User {
     permissions: response.permissions,
     emailVerified: response.emailVerified,
     emailVerificationDeadline: response.emailVerificationDeadline,
+    twoFactorEnabled: response.twoFactorEnabled,
   };
 }
 
@@ -126,13 +148,22 @@ export const useAuth = create<AuthState>((set, get) => ({
     // Set storage preference before storing tokens
     api.setRememberMe(rememberMe);
 
-    const data = await api.post<{ accessToken: string; refreshToken: string }>('/auth/login', {
+    const data = await api.post<TokenPair | TwoFactorChallenge>('/auth/login', {
       email,
       password,
       rememberMe,
     });
-    api.setToken(data.accessToken);
-    api.setRefreshToken(data.refreshToken);
+    if ('twoFactorRequired' in data) {
+      return data;
+    }
+
+    await get().completeLogin(data);
+    return null;
+  },
+
+  completeLogin: async (tokens: TokenPair) => {
+    api.setToken(tokens.accessToken);
+    api.setRefreshToken(tokens.refreshToken);
 
     const { user: userResponse } = await api.get<{ user: UserResponse }>('/auth/me');
     const user = transformUser(userResponse);
@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+
+/** A guest reply dead-lettered by the outbound queue after all retries */
+export interface UndeliveredMessage {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  channel: string;
+  channelId: string;
+  content: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface UndeliveredMessagesResponse {
+  items: UndeliveredMessage[];
+}
+
+export function useUndeliveredMessages({
+  refetchInterval = 30_000,
+  enabled = true,
+}: { refetchInterval?: number; enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['undelivered-messages'],
+    queryFn: () => api.get<UndeliveredMessagesResponse>('/system/outbound/dead'),
+    refetchInterval,
+    staleTime: 15_000,
+    enabled,
+  });
+}
@@ -21,6 +21,15 @@ export function useWebSocket() {
           queryClient.setQueryData(['taskStats'], message.payload);
           // Also refresh task list if on Tasks page
           queryClient.invalidateQueries({ queryKey: ['tasks'] });
+          // Open task counts on the housekeeping board
+          queryClient.invalidateQueries({ queryKey: ['rooms'] });
+          break;
+        case 'rooms:updated':
+          queryClient.invalidateQueries({ queryKey: ['rooms'] });
+          break;
+        case 'task:sla_breached':
+          // Sent to supervisors named by an escalation step
+          queryClient.invalidateQueries({ queryKey: ['tasks'] });
           break;
         case 'stats:conversations':
           queryClient.setQueryData(['conversationStats'], message.payload);
@@ -39,6 +48,15 @@ export function useWebSocket() {
         case 'activity:event':
           window.dispatchEvent(new CustomEvent('ws:activity:event', { detail: message.payload }));
           break;
+        case 'conversation:mention': {
+          // Sent to staff @mentioned in an internal note
+          const payload = message.payload as { conversationId?: string } | undefined;
+          if (payload?.conversationId) {
+            queryClient.invalidateQueries({ queryKey: ['messages', payload.conversationId] });
+          }
+          window.dispatchEvent(new CustomEvent('ws:conversation:mention', { detail: message.payload }));
+          break;
+        }
         case 'connected':
           console.log('[WebSocket] Connected', message.payload);
           break;
@@ -120,9 +120,13 @@ class ApiClient {
     window.location.href = '/login';
   }
 
-  async fetch<T>(path: string, options: RequestInit = {}, isRetry = false): Promise<T> {
+  /**
+   * Authenticated request; refreshes the token on 401 and throws ApiError on failure
+   */
+  private async request(path: string, options: RequestInit = {}, isRetry = false): Promise<Response> {
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      // Multipart bodies need the browser to set the boundary itself
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...(options.headers as Record<string, string>),
     };
 
@@ -139,7 +143,7 @@ class ApiClient {
     if (res.status === 401 && !isRetry && !path.startsWith('/auth/')) {
       const refreshed = await this.tryRefresh();
       if (refreshed) {
-        return this.fetch<T>(path, options, true);
+        return this.request(path, options, true);
       }
       this.handleAuthFailure();
       throw new Error('Session expired');
@@ -151,9 +155,22 @@ class ApiClient {
       throw new ApiError(e.message || 'Request failed', e.code || 'UNKNOWN', e.details);
     }
 
+    return res;
+  }
+
+  async fetch<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const res = await this.request(path, options);
     return res.json();
   }
 
+  /**
+   * Fetch a binary resource (e.g. a guest photo) that needs the auth header
+   */
+  async getBlob(path: string): Promise<Blob> {
+    const res = await this.request(path);
+    return res.blob();
+  }
+
   get<T>(path: string) {
     return this.fetch<T>(path);
   }
@@ -165,6 +182,13 @@ class ApiClient {
     });
   }
 
+  upload<T>(path: string, body: FormData) {
+    return this.fetch<T>(path, {
+      method: 'POST',
+      body,
+    });
+  }
+
   put<T>(path: string, body: unknown) {
     return this.fetch<T>(path, {
       method: 'PUT',
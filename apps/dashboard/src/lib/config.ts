@@ -94,6 +94,15 @@ export const reservationStatusVariants: Record<string, BadgeVariant> = {
   no_show: 'error',
 };
 
+export const roomStatusVariants: Record<string, BadgeVariant> = {
+  vacant: 'default',
+  occupied: 'info',
+  dirty: 'warning',
+  clean: 'success',
+  inspected: 'success',
+  out_of_order: 'error',
+};
+
 export const conversationStateVariants: Record<string, BadgeVariant> = {
   new: 'info',
   active: 'success',
@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useSearchParams, useLocation, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { useAuth } from '@/hooks/useAuth';
-import { ApiError } from '@/lib/api';
+import { useAuth, type TokenPair, type TwoFactorChallenge as Challenge } from '@/hooks/useAuth';
+import { api, ApiError } from '@/lib/api';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -12,11 +12,15 @@ import { Tooltip } from '@/components/ui/tooltip';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAppConfig } from '@/contexts/AppConfigContext';
 import { DemoOrbit } from '@/components/ui/DemoOrbit';
+import { TwoFactorChallenge } from '@/components/auth/TwoFactorChallenge';
 
 export function LoginPage() {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { t, i18n } = useTranslation();
   const login = useAuth((s) => s.login);
+  const completeLogin = useAuth((s) => s.completeLogin);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(true);
@@ -26,8 +30,13 @@ export function LoginPage() {
   const [needsVerification, setNeedsVerification] = useState(false);
   const { config } = useAppConfig();
   const registrationEnabled = config?.registrationEnabled ?? false;
+  const sso = config?.sso ?? null;
   const [resending, setResending] = useState(false);
   const [resent, setResent] = useState(false);
+  // Registration and email verification hand over a challenge when the role needs 2FA
+  const [challenge, setChallenge] = useState<Challenge | null>(
+    () => (location.state as { challenge?: Challenge } | null)?.challenge ?? null
+  );
 
   // Check if setup is needed and if registration is enabled on mount
   useEffect(() => {
@@ -51,6 +60,27 @@ export function LoginPage() {
     checkSetupState();
   }, [navigate]);
 
+  // Returning from the identity provider with a one-time code or an error
+  useEffect(() => {
+    const code = searchParams.get('sso');
+    const ssoError = searchParams.get('sso_error');
+    if (!code && !ssoError) return;
+
+    setSearchParams({}, { replace: true });
+    if (ssoError) {
+      setError(ssoError);
+      return;
+    }
+
+    setLoading(true);
+    api
+      .post<TokenPair>('/auth/oidc/exchange', { code })
+      .then((tokens) => completeLogin(tokens))
+      .then(() => navigate('/'))
+      .catch((err: Error) => setError(err.message || t('auth.loginFailed')))
+      .finally(() => setLoading(false));
+  }, [searchParams, setSearchParams, completeLogin, navigate, t]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -59,7 +89,11 @@ export function LoginPage() {
     setLoading(true);
 
     try {
-      await login(email, password, rememberMe);
+      const pending = await login(email, password, rememberMe);
+      if (pending) {
+        setChallenge(pending);
+        return;
+      }
       navigate('/');
     } catch (err) {
       if (err instanceof ApiError && err.details?.reason === 'EMAIL_NOT_VERIFIED') {
@@ -71,6 +105,16 @@ export function LoginPage() {
     }
   };
 
+  const handleTwoFactorComplete = async (tokens: TokenPair) => {
+    await completeLogin(tokens);
+    navigate('/');
+  };
+
+  const handleTwoFactorCancel = () => {
+    setChallenge(null);
+    setPassword('');
+  };
+
   const handleResendVerification = async () => {
     setResending(true);
     setResent(false);
@@ -141,6 +185,14 @@ export function LoginPage() {
           <div className="flex justify-center mb-6">
             <img src="/favicon.svg" alt={t('app.name')} className="w-16 h-16 object-contain dark:invert" />
           </div>
+          {challenge ? (
+            <TwoFactorChallenge
+              challenge={challenge}
+              onComplete={handleTwoFactorComplete}
+              onCancel={handleTwoFactorCancel}
+            />
+          ) : (
+          <>
           <h2 className="text-lg font-semibold text-foreground text-center">{t('auth.loginTitle')}</h2>
           <p className="text-sm text-muted-foreground text-center mt-1 mb-6">{t('auth.loginDesc')}</p>
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -205,6 +257,27 @@ export function LoginPage() {
             </Button>
           </form>
 
+          {sso && (
+            <>
+              <div className="my-4 flex items-center gap-3 text-xs text-muted-foreground">
+                <div className="h-px flex-1 bg-border" />
+                {t('auth.or')}
+                <div className="h-px flex-1 bg-border" />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={loading}
+                onClick={() => {
+                  window.location.href = '/api/v1/auth/oidc/login';
+                }}
+              >
+                {sso.buttonLabel}
+              </Button>
+            </>
+          )}
+
           {registrationEnabled && (
             <div className="mt-4 text-center text-sm text-muted-foreground">
               {t('auth.noAccount')}{' '}
@@ -213,6 +286,8 @@ export function LoginPage() {
               </Link>
             </div>
           )}
+          </>
+          )}
           </div>{/* end inner p-6 */}
         </div>{/* end form panel */}
       </div>
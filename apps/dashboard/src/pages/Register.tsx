@@ -72,6 +72,11 @@ export function RegisterPage() {
           navigate('/', { replace: true });
           return;
         }
+        if (data.challenge) {
+          // The role requires 2FA: finish signing in on the login page
+          navigate('/login', { replace: true, state: { challenge: data.challenge } });
+          return;
+        }
         setResult(data);
       } else {
         setError(data.error?.message || t('auth.loginFailed'));
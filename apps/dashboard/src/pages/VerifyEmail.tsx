@@ -50,6 +50,11 @@ export function VerifyEmailPage() {
             navigate('/', { replace: true });
             return;
           }
+          if (data.challenge) {
+            // The role requires 2FA: finish signing in on the login page
+            navigate('/login', { replace: true, state: { challenge: data.challenge } });
+            return;
+          }
 
           // Account requires approval — show success but no auto-login
           setRequiresApproval(data.requiresApproval === true);
@@ -36,6 +36,8 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AppIcon, PageContainer } from '@/components';
 import { WebchatPreview } from './WebchatPreview';
+import { WebchatActionsCard } from '@/components/webchat/WebchatActionsCard';
+import { WhatsAppTemplatesCard } from '@/components/whatsapp/WhatsAppTemplatesCard';
 
 type AppStatus = 'not_configured' | 'configured' | 'connected' | 'error' | 'disabled';
 
@@ -836,6 +838,12 @@ export function AppEditPage() {
           <EmbedCode widgetKey={String(app.config.widgetKey)} />
         )}
 
+        {/* Custom Actions — full width */}
+        {app.id === 'channel-webchat' && <WebchatActionsCard canManage={canManageSettings} />}
+
+        {/* Message Templates — full width */}
+        {app.id === 'whatsapp-meta' && app.config && <WhatsAppTemplatesCard canManage={canManageSettings} />}
+
         {/* Activity Logs — full width */}
         {app.config && (
           <Card>
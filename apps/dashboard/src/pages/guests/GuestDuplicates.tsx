@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, ArrowRight, CheckCircle2, GitMerge, Undo2, Users } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatDate, formatDateTime } from '@/lib/formatters';
+import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import type { DuplicateCandidate, DuplicateReason, GuestMerge, GuestWithCounts } from '@/types/api';
+import { PageContainer, EmptyState, DetailHeader } from '@/components';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge, type BadgeVariant } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { Spinner } from '@/components/ui/spinner';
+
+const reasonVariants: Record<DuplicateReason, BadgeVariant> = {
+  external_id: 'error',
+  email: 'warning',
+  phone: 'warning',
+  name_and_stay: 'info',
+};
+
+interface PendingMerge {
+  keep: GuestWithCounts;
+  remove: GuestWithCounts;
+}
+
+export function GuestDuplicatesPage() {
+  const { t } = useTranslation();
+  const location = useLocation();
+  const backLabel = (location.state as { fromLabel?: string } | null)?.fromLabel ?? t('guestProfile.backToGuests');
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManageGuests = can(PERMISSIONS.GUESTS_MANAGE);
+  const [pending, setPending] = useState<PendingMerge | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['guestDuplicates'],
+    queryFn: () => api.get<{ candidates: DuplicateCandidate[] }>('/guests/duplicates'),
+  });
+
+  const { data: mergeData } = useQuery({
+    queryKey: ['guestMerges'],
+    queryFn: () => api.get<{ merges: GuestMerge[] }>('/guests/merges'),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['guestDuplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['guestMerges'] });
+    queryClient.invalidateQueries({ queryKey: ['guests'] });
+    queryClient.invalidateQueries({ queryKey: ['guestStats'] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ keep, remove }: PendingMerge) => api.post(`/guests/${keep.id}/merge`, { sourceId: remove.id }),
+    onSuccess: () => {
+      setPending(null);
+      refresh();
+    },
+    onError: (err) => {
+      setPending(null);
+      setError(err instanceof Error ? err.message : t('guestDuplicates.mergeFailed'));
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (mergeId: string) => api.post(`/guests/merges/${mergeId}/undo`, {}),
+    onSuccess: refresh,
+    onError: (err) => setError(err instanceof Error ? err.message : t('guestDuplicates.undoFailed')),
+  });
+
+  const candidates = data?.candidates ?? [];
+  const merges = mergeData?.merges ?? [];
+
+  const fullName = (guest: { firstName: string; lastName: string }) => `${guest.firstName} ${guest.lastName}`;
+
+  return (
+    <PageContainer>
+      <DetailHeader
+        backTo="/guests"
+        backLabel={backLabel}
+        icon={<GitMerge className="w-8 h-8" />}
+        title={t('guestDuplicates.title')}
+        subtitle={t('guestDuplicates.subtitle')}
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-6" onDismiss={() => setError(null)}>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner />
+        </div>
+      ) : candidates.length === 0 ? (
+        <EmptyState icon={CheckCircle2} title={t('guestDuplicates.none')} description={t('guestDuplicates.noneDescription')} />
+      ) : (
+        <div className="space-y-4">
+          {candidates.map(({ guests: [left, right], reasons }) => (
+            <Card key={`${left.id}:${right.id}`}>
+              <CardHeader className="pb-3">
+                <div className="flex flex-wrap gap-1.5">
+                  {reasons.map((reason) => (
+                    <Badge key={reason} variant={reasonVariants[reason]}>
+                      {t(`guestDuplicates.reasons.${reason}`)}
+                    </Badge>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <GuestColumn guest={left} t={t} />
+                  <GuestColumn guest={right} t={t} />
+                </div>
+                {canManageGuests && (
+                  <div className="flex flex-wrap justify-end gap-2 mt-4">
+                    <Button variant="outline" size="sm" onClick={() => setPending({ keep: left, remove: right })}>
+                      <ArrowLeft className="w-4 h-4 me-1.5" />
+                      {t('guestDuplicates.keep', { name: fullName(left) })}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setPending({ keep: right, remove: left })}>
+                      {t('guestDuplicates.keep', { name: fullName(right) })}
+                      <ArrowRight className="w-4 h-4 ms-1.5" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {merges.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="text-base">{t('guestDuplicates.recentMerges')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {merges.map((merge) => (
+                <li key={merge.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="text-sm">
+                      {t('guestDuplicates.mergedInto', { source: merge.sourceName })}{' '}
+                      <Link to={`/guests/${merge.targetId}`} className="font-medium hover:text-primary">
+                        {merge.targetName}
+                      </Link>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDateTime(merge.mergedAt)} ·{' '}
+                      {t('guestDuplicates.moved', {
+                        conversations: merge.counts.conversations,
+                        reservations: merge.counts.reservations,
+                        tasks: merge.counts.tasks,
+                        memories: merge.counts.memories,
+                      })}
+                    </div>
+                  </div>
+                  {merge.undoneAt ? (
+                    <Badge variant="secondary">{t('guestDuplicates.undone')}</Badge>
+                  ) : (
+                    canManageGuests && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => undoMutation.mutate(merge.id)}
+                        loading={undoMutation.isPending && undoMutation.variables === merge.id}
+                      >
+                        <Undo2 className="w-4 h-4 me-1.5" />
+                        {t('guestDuplicates.undo')}
+                      </Button>
+                    )
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        open={!!pending}
+        onOpenChange={(open) => { if (!open) setPending(null); }}
+        title={t('guestDuplicates.confirmTitle')}
+        description={
+          pending
+            ? t('guestDuplicates.confirmDescription', { keep: fullName(pending.keep), remove: fullName(pending.remove) })
+            : ''
+        }
+        confirmLabel={t('guestDuplicates.merge')}
+        onConfirm={() => pending && mergeMutation.mutate(pending)}
+        loading={mergeMutation.isPending}
+      />
+    </PageContainer>
+  );
+}
+
+interface GuestColumnProps {
+  guest: GuestWithCounts;
+  t: (key: string, options?: Record<string, unknown>) => string;
+}
+
+function GuestColumn({ guest, t }: GuestColumnProps) {
+  return (
+    <div className="rounded-md border p-3 space-y-1 text-sm">
+      <Link to={`/guests/${guest.id}`} className="flex items-center gap-2 font-medium hover:text-primary">
+        <Users className="w-4 h-4 text-muted-foreground" />
+        {guest.firstName} {guest.lastName}
+      </Link>
+      <div className="text-muted-foreground">{guest.email || <span className="italic">{t('common.noEmail')}</span>}</div>
+      {guest.phone && <div className="text-muted-foreground">{guest.phone}</div>}
+      <div className="text-xs text-muted-foreground">
+        {t('guestDuplicates.counts', {
+          reservations: guest._counts.reservations,
+          conversations: guest._counts.conversations,
+        })}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {t('guestDuplicates.created', { date: formatDate(guest.createdAt) })}
+      </div>
+    </div>
+  );
+}
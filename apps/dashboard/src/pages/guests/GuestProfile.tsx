@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -24,6 +25,7 @@ import {
   Pencil,
   Save,
   Crown,
+  Ban,
   Mail,
   Phone,
   Globe,
@@ -150,6 +152,9 @@ export function GuestProfilePage() {
     preferences: '',
     tags: '',
     notes: '',
+    journeyOptOut: false,
+    blocked: false,
+    blockedReason: '',
   });
 
   const fetchGuest = async () => {
@@ -169,6 +174,9 @@ export function GuestProfilePage() {
         preferences: data.preferences.join('\n'),
         tags: data.tags.join(', '),
         notes: data.notes || '',
+        journeyOptOut: data.journeyOptOut,
+        blocked: !!data.blockedAt,
+        blockedReason: data.blockedReason || '',
       });
       setError(null);
     } catch (err) {
@@ -296,6 +304,9 @@ export function GuestProfilePage() {
         preferences: formData.preferences.split('\n').map(p => p.trim()).filter(Boolean),
         tags: formData.tags.split(',').map(t => t.trim()).filter(Boolean),
         notes: formData.notes || null,
+        journeyOptOut: formData.journeyOptOut,
+        blocked: formData.blocked,
+        blockedReason: formData.blocked ? formData.blockedReason || null : null,
       };
 
       await api.put(`/guests/${id}`, payload);
@@ -329,6 +340,9 @@ export function GuestProfilePage() {
                 preferences: guest.preferences.join('\n'),
                 tags: guest.tags.join(', '),
                 notes: guest.notes || '',
+                journeyOptOut: guest.journeyOptOut,
+                blocked: !!guest.blockedAt,
+                blockedReason: guest.blockedReason || '',
               });
             }
             setEditing(false);
@@ -407,6 +421,12 @@ export function GuestProfilePage() {
             {guest.loyaltyTier && guest.loyaltyTier !== 'none' && (
               <Badge variant="outline">{guest.loyaltyTier}</Badge>
             )}
+            {guest.blockedAt && (
+              <Badge variant="error" title={guest.blockedReason ?? undefined}>
+                <Ban className="w-3 h-3 me-1" />
+                {t('guestProfile.blocked')}
+              </Badge>
+            )}
           </span>
         }
         subtitle={
@@ -603,6 +623,38 @@ export function GuestProfilePage() {
                       className="mt-1"
                     />
                   </div>
+                  <div className="md:col-span-2 lg:col-span-3 flex items-center justify-between gap-4">
+                    <div>
+                      <label className="text-sm font-medium">{t('guestProfile.journeyOptOut')}</label>
+                      <p className="text-xs text-muted-foreground">{t('guestProfile.journeyOptOutHint')}</p>
+                    </div>
+                    <Switch
+                      checked={formData.journeyOptOut}
+                      onCheckedChange={(checked) => setFormData({ ...formData, journeyOptOut: checked })}
+                    />
+                  </div>
+                  <div className="md:col-span-2 lg:col-span-3 flex items-center justify-between gap-4">
+                    <div>
+                      <label className="text-sm font-medium">{t('guestProfile.block')}</label>
+                      <p className="text-xs text-muted-foreground">{t('guestProfile.blockHint')}</p>
+                    </div>
+                    <Switch
+                      checked={formData.blocked}
+                      onCheckedChange={(checked) => setFormData({ ...formData, blocked: checked })}
+                    />
+                  </div>
+                  {formData.blocked && (
+                    <div className="md:col-span-2 lg:col-span-3">
+                      <label className="text-sm font-medium">{t('guestProfile.blockedReason')}</label>
+                      <Input
+                        value={formData.blockedReason}
+                        onChange={(e) => setFormData({ ...formData, blockedReason: e.target.value })}
+                        placeholder={t('guestProfile.blockedReasonPlaceholder')}
+                        maxLength={500}
+                        className="mt-1"
+                      />
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
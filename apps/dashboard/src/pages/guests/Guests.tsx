@@ -8,6 +8,7 @@ import type { Column } from '@/components/DataTable';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
+  GitMerge,
   Plus,
   Users,
   Crown,
@@ -43,6 +44,13 @@ export function GuestsPage() {
   useEffect(() => {
     if (canManageGuests) {
       setActions([
+        {
+          id: 'review-duplicates',
+          label: t('guests.reviewDuplicates'),
+          icon: GitMerge,
+          variant: 'outline',
+          href: '/guests/duplicates',
+        },
         {
           id: 'add-guest',
           label: t('guests.addGuest'),
@@ -1,3 +1,4 @@
 export { GuestsPage } from './Guests';
 export { GuestProfilePage } from './GuestProfile';
 export { GuestFormPage } from './GuestForm';
+export { GuestDuplicatesPage } from './GuestDuplicates';
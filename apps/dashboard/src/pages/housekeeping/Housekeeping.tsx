@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { BedDouble, RefreshCw } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/formatters';
+import { roomStatusVariants, taskStatusVariants } from '@/lib/config';
+import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import { usePageActions } from '@/contexts/PageActionsContext';
+import type { Room, RoomStatus } from '@/types/api';
+import { PageContainer, EmptyState } from '@/components';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { FilterTabs } from '@/components/ui/filter-tabs';
+import { Spinner } from '@/components/ui/spinner';
+
+const ROOM_STATUSES: RoomStatus[] = ['dirty', 'clean', 'inspected', 'occupied', 'vacant', 'out_of_order'];
+
+export function HousekeepingPage() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { setActions } = usePageActions();
+  const [statusFilter, setStatusFilter] = useState<RoomStatus | 'all'>('all');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['rooms'],
+    queryFn: () => api.get<{ rooms: Room[] }>('/rooms'),
+    refetchInterval: 30000,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => api.post('/rooms/sync', {}),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rooms'] }),
+  });
+
+  useEffect(() => {
+    if (can(PERMISSIONS.TASKS_MANAGE)) {
+      setActions([
+        {
+          id: 'sync-rooms',
+          label: t('tasks.housekeeping.sync'),
+          icon: RefreshCw,
+          variant: 'outline',
+          onClick: () => syncMutation.mutate(),
+          loading: syncMutation.isPending,
+        },
+      ]);
+    }
+    return () => setActions([]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setActions, can, t, syncMutation.isPending]);
+
+  const rooms = data?.rooms ?? [];
+
+  const statusFilters = useMemo(
+    () => [
+      { value: 'all' as const, label: t('filters.all') },
+      ...ROOM_STATUSES.map((status) => ({
+        value: status,
+        label: `${t(`tasks.housekeeping.statuses.${status}`)} (${rooms.filter((room) => room.status === status).length})`,
+      })),
+    ],
+    [rooms, t]
+  );
+
+  // Rooms arrive sorted by floor, then number
+  const floors = useMemo(() => {
+    const groups = new Map<string, Room[]>();
+    for (const room of rooms) {
+      if (statusFilter !== 'all' && room.status !== statusFilter) continue;
+      const floor = room.floor ?? '';
+      groups.set(floor, [...(groups.get(floor) ?? []), room]);
+    }
+    return [...groups.entries()];
+  }, [rooms, statusFilter]);
+
+  if (isLoading) {
+    return (
+      <PageContainer>
+        <div className="flex justify-center py-12">
+          <Spinner />
+        </div>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer>
+      {rooms.length === 0 ? (
+        <EmptyState icon={BedDouble} title={t('tasks.housekeeping.noRooms')} description={t('tasks.housekeeping.noRoomsDescription')} />
+      ) : (
+        <div className="space-y-6">
+          <FilterTabs options={statusFilters} value={statusFilter} onChange={setStatusFilter} />
+
+          {floors.map(([floor, floorRooms]) => (
+            <section key={floor}>
+              <h2 className="text-sm font-medium text-muted-foreground mb-2">
+                {floor ? t('tasks.housekeeping.floor', { floor }) : t('tasks.housekeeping.noFloor')}
+              </h2>
+              <div className="grid gap-3 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+                {floorRooms.map((room) => (
+                  <RoomCard key={room.id} room={room} t={t} />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </PageContainer>
+  );
+}
+
+interface RoomCardProps {
+  room: Room;
+  t: (key: string, options?: Record<string, unknown>) => string;
+}
+
+function RoomCard({ room, t }: RoomCardProps) {
+  return (
+    <Card className={cn('p-3 space-y-2', room.status === 'out_of_order' && 'opacity-70')}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-lg font-semibold leading-tight">{room.number}</div>
+          <div className="text-xs text-muted-foreground truncate">{room.type}</div>
+        </div>
+        <Badge variant={roomStatusVariants[room.status]} title={room.statusChangedAt ? formatDateTime(room.statusChangedAt) : undefined}>
+          {t(`tasks.housekeeping.statuses.${room.status}`)}
+        </Badge>
+      </div>
+
+      {room.guestName && <div className="text-sm truncate">{room.guestName}</div>}
+
+      {room.openTasks.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-muted-foreground">
+            {t('tasks.housekeeping.openTasks', { count: room.openTasks.length })}
+          </div>
+          <ul className="space-y-1">
+            {room.openTasks.map((task) => (
+              <li key={task.id} className="flex items-center gap-1.5 text-xs">
+                <Badge variant={taskStatusVariants[task.status]} className="shrink-0">
+                  {t(`tasks.statuses.${task.status}`)}
+                </Badge>
+                <span className="truncate" title={task.description}>{task.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
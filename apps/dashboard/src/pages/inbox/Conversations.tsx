@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
@@ -16,6 +16,12 @@ export function ConversationsPage() {
   const [filter, setFilter] = useState<ConversationState | 'all'>('all');
   const [selectedId, setSelectedId] = useState<string | null>(searchParams.get('id'));
 
+  // Links into the inbox (e.g. a mention alert) can change the conversation while it is open
+  const linkedId = searchParams.get('id');
+  useEffect(() => {
+    if (linkedId) setSelectedId(linkedId);
+  }, [linkedId]);
+
   const { data, isLoading } = useQuery({
     queryKey: ['conversations', filter],
     queryFn: () => {
@@ -11,6 +11,7 @@ import {
   ListTodo,
   FileText,
   Star,
+  Send,
 } from 'lucide-react';
 import { api } from '@/lib/api';
 import { formatDate, formatDateShort, formatDateTime } from '@/lib/formatters';
@@ -56,9 +57,26 @@ interface ReservationDetail {
   _related: {
     conversations: { id: string; channelType: string; state: string; lastMessageAt: string }[];
     tasks: { id: string; type: string; description: string; status: string; priority: string }[];
+    journeySends: JourneySend[];
   };
 }
 
+interface JourneySend {
+  id: string;
+  stepName: string;
+  status: 'sent' | 'skipped' | 'failed';
+  reason: string | null;
+  channel: string | null;
+  conversationId: string | null;
+  createdAt: string;
+}
+
+const journeySendStatusVariants: Record<JourneySend['status'], 'success' | 'secondary' | 'error'> = {
+  sent: 'success',
+  skipped: 'secondary',
+  failed: 'error',
+};
+
 function InfoRow({ label, value, icon: Icon }: { label: string; value: React.ReactNode; icon?: typeof Calendar }) {
   return (
     <div className="flex items-start gap-3 py-2">
@@ -315,6 +333,42 @@ export function ReservationDetailPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Guest Journey */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Send className="w-4 h-4" />
+                {t('reservationDetail.journey')}
+                <Badge variant="secondary" className="ms-auto">
+                  {reservation._related.journeySends.length}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reservation._related.journeySends.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('reservationDetail.noJourneySends')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {reservation._related.journeySends.map((send) => (
+                    <div key={send.id} className="flex items-center justify-between p-2 rounded">
+                      <div>
+                        <p className="text-sm font-medium">{send.stepName}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatDateTime(send.createdAt)}
+                          {send.channel && <span className="capitalize"> • {send.channel}</span>}
+                          {send.reason && <span> • {t(`reservationDetail.journeyReasons.${send.reason}`, { defaultValue: send.reason })}</span>}
+                        </p>
+                      </div>
+                      <Badge variant={journeySendStatusVariants[send.status]}>
+                        {t(`reservationDetail.journeyStatuses.${send.status}`)}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
 
         {/* Sidebar - Guest Info */}
@@ -1,16 +1,18 @@
 import { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useSystemHealth, type AppHealthItem, type HealthStatus } from '@/hooks/useSystemHealth';
+import { useUndeliveredMessages, type UndeliveredMessage } from '@/hooks/useUndeliveredMessages';
 import { useSystemLogs, type LogEntry } from '@/hooks/useSystemLogs';
 import { useLiveLogs } from '@/hooks/useLiveLogs';
 import { Link, useSearchParams } from 'react-router-dom';
 import {
   RefreshCw, CheckCircle2, ChevronDown, ChevronRight,
   Filter, X, ExternalLink, Wifi, WifiOff, TrendingUp, TrendingDown,
-  AlertTriangle, Zap, Pause, Play, MessageSquare,
+  AlertTriangle, Zap, Pause, Play, MessageSquare, Send, Loader2,
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Button } from '@/components/ui/button'; // used in log viewer filters
+import { Button } from '@/components/ui/button';
 import { DateRangePicker } from '@/components/ui/date-range-picker';
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
@@ -22,6 +24,7 @@ import { Tooltip } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
 import { AppIcon } from '@/components';
+import { api } from '@/lib/api';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -47,6 +50,7 @@ const SOURCE_LABELS: Record<string, string> = {
   'email-mailgun': 'Mailgun', 'email-sendgrid': 'SendGrid', 'email-smtp': 'SMTP', 'email-gmail-smtp': 'Gmail SMTP',
   'pms-mews': 'Mews PMS',
   'pms-cloudbeds': 'Cloudbeds PMS',
+  'pms-apaleo': 'Apaleo PMS',
 };
 
 function sourceLabel(source: string): string {
@@ -57,7 +61,7 @@ const SOURCE_GROUPS = [
   { label: 'Channels',        items: [{ value: 'whatsapp', label: 'WhatsApp' }, { value: 'sms', label: 'SMS' }, { value: 'email', label: 'Email' }, { value: 'webchat', label: 'WebChat' }, { value: 'system', label: 'System' }] },
   { label: 'AI',              items: [{ value: 'anthropic', label: 'Anthropic' }, { value: 'openai', label: 'OpenAI' }, { value: 'ollama', label: 'Ollama' }, { value: 'local', label: 'Local AI' }] },
   { label: 'Email providers', items: [{ value: 'email-mailgun', label: 'Mailgun' }, { value: 'email-sendgrid', label: 'SendGrid' }, { value: 'email-smtp', label: 'SMTP' }, { value: 'email-gmail-smtp', label: 'Gmail SMTP' }] },
-  { label: 'PMS',             items: [{ value: 'pms-mews', label: 'Mews PMS' }, { value: 'pms-cloudbeds', label: 'Cloudbeds PMS' }] },
+  { label: 'PMS',             items: [{ value: 'pms-mews', label: 'Mews PMS' }, { value: 'pms-cloudbeds', label: 'Cloudbeds PMS' }, { value: 'pms-apaleo', label: 'Apaleo PMS' }] },
 ];
 
 function SourceFilter({ value, onValueChange }: { value: string; onValueChange: (v: string) => void }) {
@@ -243,6 +247,54 @@ function AppHealthItem({ app }: { app: AppActivity }) {
   );
 }
 
+// ─── Undelivered Messages ─────────────────────────────────────────────────────
+
+function UndeliveredMessageRow({ item, now, canResend }: { item: UndeliveredMessage; now: number; canResend: boolean }) {
+  const queryClient = useQueryClient();
+  const resend = useMutation({
+    mutationFn: () => api.post(`/system/outbound/${item.id}/resend`, {}),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['undelivered-messages'] });
+    },
+  });
+
+  return (
+    <div className="flex items-start gap-3 px-4 py-3">
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{sourceLabel(item.channel)}</span>
+          <span className="truncate">{item.channelId}</span>
+          <span className="inline-block h-1 w-1 rounded-full bg-muted-foreground/50 shrink-0" />
+          <span className="whitespace-nowrap">
+            {item.attempts} {item.attempts === 1 ? 'attempt' : 'attempts'} · <RelativeTime createdAt={item.updatedAt} now={now} />
+          </span>
+        </div>
+        <p className="text-sm truncate">{item.content}</p>
+        {item.lastError && (
+          <p className="font-mono text-[11px] text-destructive break-all">{item.lastError}</p>
+        )}
+        {resend.error && (
+          <p className="text-xs text-destructive">{resend.error.message}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-3 flex-shrink-0">
+        <Link
+          to={`/inbox?id=${item.conversationId}`}
+          className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ExternalLink className="h-3 w-3" /> Conversation
+        </Link>
+        {canResend && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => resend.mutate()} disabled={resend.isPending}>
+            {resend.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+            Resend
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ─── Zone 3: Log Row ──────────────────────────────────────────────────────────
 
 function LogRow({ entry, isNew = false, now }: { entry: LogEntry; isNew?: boolean; now: number }) {
@@ -351,6 +403,8 @@ export function HealthContent() {
   const { data: healthData, isLoading, refetch, isFetching } = useSystemHealth({
     refetchInterval: isLive ? 10_000 : 30_000,
   });
+  const { data: undeliveredData } = useUndeliveredMessages({ enabled: isAdmin });
+  const undelivered = undeliveredData?.items ?? [];
 
   function handleRefresh() {
     if (liveState !== 'off') stopLive();
@@ -480,6 +534,30 @@ export function HealthContent() {
         )}
       </Card>
 
+      {/* ── Undelivered messages (dead-lettered replies) ───────────────────── */}
+      {undelivered.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+              Undelivered Messages
+            </h3>
+            <p className="text-xs text-muted-foreground mt-1">
+              Replies the channel did not accept after all retries. The guest has not received them.
+            </p>
+          </div>
+          <Card className="divide-y">
+            {undelivered.map((item) => (
+              <UndeliveredMessageRow
+                key={item.id}
+                item={item}
+                now={now}
+                canResend={can(PERMISSIONS.CONVERSATIONS_MANAGE)}
+              />
+            ))}
+          </Card>
+        </div>
+      )}
+
       {/* ── Zone 3: System Logs (admin only) ─────────────────────────────────── */}
       {isAdmin && (
         <div className="space-y-3">
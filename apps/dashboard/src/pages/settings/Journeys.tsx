@@ -0,0 +1,199 @@
+/**
+ * Guest Journey Settings
+ *
+ * Scheduled guest messages — pre-arrival, in-stay, and post-stay steps.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Send, Plus, MoreHorizontal } from 'lucide-react';
+import { api } from '@/lib/api';
+import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import { EmptyState } from '@/components';
+import { Alert } from '@/components/ui/alert';
+import { DataTable, Column } from '@/components/DataTable';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { JourneyStepFormModal, type JourneyStep } from '@/components/journeys/JourneyStepFormModal';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from '@/components/ui/dropdown-menu';
+
+/**
+ * Journey content component - used within Settings
+ */
+export function JourneysContent() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can(PERMISSIONS.SETTINGS_MANAGE);
+
+  const [selectedStep, setSelectedStep] = useState<JourneyStep | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [stepToDelete, setStepToDelete] = useState<JourneyStep | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['journey-steps'],
+    queryFn: () => api.get<{ steps: JourneyStep[] }>('/journeys/steps'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (stepId: string) => api.delete(`/journeys/steps/${stepId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['journey-steps'] });
+      setStepToDelete(null);
+    },
+    onError: (err: Error) => {
+      setStepToDelete(null);
+      setDeleteError(err.message || t('settings.journeys.errors.deleteFailed'));
+    },
+  });
+
+  const steps = data?.steps || [];
+
+  const describeTiming = (step: JourneyStep) => {
+    const anchor = t(`settings.journeys.anchors.${step.anchor}`);
+    const days = Math.abs(step.offsetDays);
+    const when =
+      step.offsetDays === 0
+        ? t('settings.journeys.timing.on', { anchor })
+        : t(step.offsetDays < 0 ? 'settings.journeys.timing.before' : 'settings.journeys.timing.after', {
+            count: days,
+            anchor,
+          });
+    return t('settings.journeys.timing.at', { when, time: step.sendTime });
+  };
+
+  const handleCloseModal = () => {
+    setSelectedStep(null);
+    setShowAddModal(false);
+  };
+
+  const columns: Column<JourneyStep>[] = [
+    {
+      key: 'name',
+      header: t('settings.journeys.table.name'),
+      render: (step) => <span className="font-medium text-foreground">{step.name}</span>,
+    },
+    {
+      key: 'timing',
+      header: t('settings.journeys.table.timing'),
+      className: 'min-w-[220px]',
+      render: (step) => <span className="text-sm text-muted-foreground">{describeTiming(step)}</span>,
+    },
+    {
+      key: 'channel',
+      header: t('settings.journeys.table.channel'),
+      render: (step) => (
+        <span className="text-sm text-muted-foreground">{t(`settings.journeys.channels.${step.channel}`)}</span>
+      ),
+    },
+    {
+      key: 'languages',
+      header: t('settings.journeys.table.languages'),
+      render: (step) => (
+        <span className="text-sm text-muted-foreground uppercase">{Object.keys(step.templates).join(', ')}</span>
+      ),
+    },
+    {
+      key: 'enabled',
+      header: t('settings.journeys.table.status'),
+      render: (step) => (
+        <Badge variant={step.enabled ? 'success' : 'secondary'}>
+          {step.enabled ? t('settings.journeys.status.enabled') : t('settings.journeys.status.paused')}
+        </Badge>
+      ),
+    },
+    ...(canManage
+      ? [
+          {
+            key: 'actions',
+            header: '',
+            className: 'w-16',
+            render: (step: JourneyStep) => (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="p-1.5 rounded hover:bg-muted text-muted-foreground">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem onClick={() => setSelectedStep(step)}>
+                    {t('settings.journeys.actions.edit')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStepToDelete(step)}>
+                    {t('settings.journeys.actions.delete')}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold mb-1">{t('settings.journeys.title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('settings.journeys.description')}</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setShowAddModal(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('settings.journeys.addStep')}
+          </Button>
+        )}
+      </div>
+
+      {deleteError && (
+        <Alert variant="destructive" onDismiss={() => setDeleteError(null)}>
+          {deleteError}
+        </Alert>
+      )}
+
+      <DataTable
+        data={steps}
+        columns={columns}
+        keyExtractor={(step) => step.id}
+        loading={isLoading}
+        emptyState={
+          <EmptyState
+            icon={Send}
+            title={t('settings.journeys.empty.title')}
+            description={t('settings.journeys.empty.description')}
+          />
+        }
+      />
+
+      <p className="text-xs text-muted-foreground">{t('settings.journeys.quietHoursNote')}</p>
+
+      {/* Add/Edit Step Modal */}
+      <JourneyStepFormModal
+        open={showAddModal || !!selectedStep}
+        onClose={handleCloseModal}
+        step={selectedStep}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        open={!!stepToDelete}
+        onOpenChange={(open) => !open && setStepToDelete(null)}
+        title={t('settings.journeys.confirm.deleteTitle')}
+        description={t('settings.journeys.confirm.deleteDescription', { name: stepToDelete?.name })}
+        confirmLabel={t('settings.journeys.actions.delete')}
+        variant="destructive"
+        onConfirm={() => stepToDelete && deleteMutation.mutate(stepToDelete.id)}
+        loading={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
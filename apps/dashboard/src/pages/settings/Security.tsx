@@ -1,8 +1,8 @@
 /**
  * Security Settings Page
  *
- * Configure registration, email verification, admin approval settings,
- * and customize email templates.
+ * Configure registration, email verification, admin approval, 2FA policy and
+ * single sign-on, customize email templates, and manage your own 2FA.
  */
 
 import { useState, useEffect } from 'react';
@@ -16,6 +16,9 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { TwoFactorCard } from '@/components/auth/TwoFactorCard';
+import { SsoSettingsCard } from '@/components/auth/SsoSettingsCard';
 import { Tabs } from '@/components/ui/tabs';
 import { Tooltip } from '@/components/ui/tooltip';
 import {
@@ -32,6 +35,7 @@ interface AuthSettings {
   emailVerificationGraceDays: number;
   defaultRoleId: string | null;
   requireAdminApproval: boolean;
+  twoFactorRequiredRoleIds: string[];
 }
 
 interface Role {
@@ -86,6 +90,7 @@ const TEMPLATE_TABS: TemplateKey[] = ['passwordReset', 'emailVerification', 'app
 export function SecurityContent() {
   const { t } = useTranslation('settings');
   const { can } = usePermissions();
+  const canView = can(PERMISSIONS.ADMIN_VIEW);
   const canManage = can(PERMISSIONS.ADMIN_MANAGE);
   const queryClient = useQueryClient();
 
@@ -95,6 +100,7 @@ export function SecurityContent() {
     emailVerificationGraceDays: 7,
     defaultRoleId: null,
     requireAdminApproval: false,
+    twoFactorRequiredRoleIds: [],
   });
   const [saved, setSaved] = useState(false);
 
@@ -107,18 +113,21 @@ export function SecurityContent() {
   const { data: settingsData, isLoading } = useQuery({
     queryKey: ['auth-settings'],
     queryFn: () => api.get<{ settings: AuthSettings }>('/settings/auth'),
+    enabled: canView,
   });
 
   // Fetch roles for dropdown
   const { data: rolesData } = useQuery({
     queryKey: ['roles'],
     queryFn: () => api.get<{ roles: Role[] }>('/roles'),
+    enabled: canView,
   });
 
   // Fetch email templates
   const { data: templatesData } = useQuery({
     queryKey: ['email-templates'],
     queryFn: () => api.get<{ templates: EmailTemplates }>('/settings/auth/email-templates'),
+    enabled: canView,
   });
 
   // Update form when data loads
@@ -176,6 +185,15 @@ export function SecurityContent() {
     }));
   };
 
+  const handleToggleTwoFactorRole = (roleId: string, required: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      twoFactorRequiredRoleIds: required
+        ? [...prev.twoFactorRequiredRoleIds, roleId]
+        : prev.twoFactorRequiredRoleIds.filter((id) => id !== roleId),
+    }));
+  };
+
   const handleResetTemplate = (key: TemplateKey) => {
     setTemplates((prev) => {
       const next = { ...prev };
@@ -221,6 +239,11 @@ export function SecurityContent() {
         <p className="text-sm text-muted-foreground">{t('settings.security.description')}</p>
       </div>
 
+      {/* Your Two-Factor Authentication */}
+      <TwoFactorCard />
+
+      {canView && (
+      <>
       {/* Authentication Settings Card */}
       <Card className="p-6">
         <div className="space-y-6">
@@ -325,6 +348,29 @@ export function SecurityContent() {
             )}
           </div>
 
+          {/* Two-Factor Authentication Policy */}
+          <div className="space-y-4 pt-4 border-t">
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground">{t('settings.security.twoFactorPolicy')}</h3>
+              <p className="text-xs text-muted-foreground mt-1">{t('settings.security.twoFactorPolicyDesc')}</p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {availableRoles.map((role) => (
+                <div key={role.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`two-factor-${role.id}`}
+                    checked={form.twoFactorRequiredRoleIds.includes(role.id)}
+                    onCheckedChange={(checked) => handleToggleTwoFactorRole(role.id, checked)}
+                    disabled={!canManage}
+                  />
+                  <label htmlFor={`two-factor-${role.id}`} className="text-sm cursor-pointer">
+                    {role.name}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Save Button */}
           {canManage && (
             <div className="flex items-center gap-4 pt-4 border-t">
@@ -345,6 +391,9 @@ export function SecurityContent() {
         </div>
       </Card>
 
+      {/* Single Sign-On Card */}
+      <SsoSettingsCard roles={availableRoles} canManage={canManage} />
+
       {/* Email Templates Card */}
       <Card className="p-6">
         <div className="space-y-4">
@@ -438,6 +487,8 @@ export function SecurityContent() {
           </div>
         </div>
       </Card>
+      </>
+      )}
     </div>
   );
 }
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { AlertTriangle, Sparkles, Building2, Users, Shield, Lock, Activity } from 'lucide-react';
+import { AlertTriangle, Sparkles, Building2, Users, Shield, Lock, Activity, Send, Webhook, Plus, X } from 'lucide-react';
 import { api } from '@/lib/api';
 import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
 import { useSystemStatus } from '@/hooks/useSystemStatus';
@@ -10,11 +10,14 @@ import { UsersContent } from '@/pages/settings/Users';
 import { RolesContent } from '@/pages/settings/Roles';
 import { SecurityContent } from '@/pages/settings/Security';
 import { HealthContent } from '@/pages/settings/Health';
+import { JourneysContent } from '@/pages/settings/Journeys';
+import { WebhooksContent } from '@/pages/settings/Webhooks';
 import { PageContainer, ActionItems, DemoDataCard } from '@/components';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Combobox } from '@/components/ui/combobox';
 import { TimeSelect } from '@/components/ui/time-select';
 import {
@@ -44,10 +47,14 @@ interface HotelProfile {
   propertyLanguage?: string;
   checkInTime: string;
   checkOutTime: string;
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
+  shiftChangeTimes?: string[];
   totalRooms?: number;
   contactPhone?: string;
   contactEmail?: string;
   website?: string;
+  staffNotesForAi?: boolean;
 }
 
 interface TimezoneOption {
@@ -71,9 +78,31 @@ interface LanguageOption {
   label: string;
 }
 
-type SettingsTab = 'profile' | 'users' | 'roles' | 'security' | 'health' | 'quick-setup' | 'danger-zone';
-
-const VALID_TABS: SettingsTab[] = ['profile', 'users', 'roles', 'security', 'health', 'quick-setup', 'danger-zone'];
+const DEFAULT_SHIFT_CHANGE_TIMES = ['07:00', '15:00', '23:00'];
+const MAX_SHIFT_CHANGES = 6;
+
+type SettingsTab =
+  | 'profile'
+  | 'journeys'
+  | 'webhooks'
+  | 'users'
+  | 'roles'
+  | 'security'
+  | 'health'
+  | 'quick-setup'
+  | 'danger-zone';
+
+const VALID_TABS: SettingsTab[] = [
+  'profile',
+  'journeys',
+  'webhooks',
+  'users',
+  'roles',
+  'security',
+  'health',
+  'quick-setup',
+  'danger-zone',
+];
 
 export function SettingsPage() {
   const { t } = useTranslation();
@@ -91,9 +120,11 @@ export function SettingsPage() {
   // Redirect to profile if user navigates directly to a tab they can't access
   const tabPermissions: Record<SettingsTab, boolean> = {
     profile: true,
+    journeys: true,
+    webhooks: canViewAdmin,
     users: canViewAdmin,
     roles: canViewAdmin,
-    security: canViewAdmin,
+    security: true,
     health: canViewHealth,
     'quick-setup': canManageSettings,
     'danger-zone': canManageSettings,
@@ -172,10 +203,17 @@ export function SettingsPage() {
     },
   });
 
-  const handleProfileChange = (field: keyof HotelProfile, value: string | number | undefined) => {
+  const handleProfileChange = (field: keyof HotelProfile, value: string | number | boolean | undefined) => {
     setProfileForm((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Same defaults the server uses until the hotel sets its own
+  const shiftChangeTimes = profileForm.shiftChangeTimes ?? DEFAULT_SHIFT_CHANGE_TIMES;
+
+  const handleShiftChangeTimes = (times: string[]) => {
+    setProfileForm((prev) => ({ ...prev, shiftChangeTimes: times }));
+  };
+
   const handleSaveProfile = () => {
     saveProfileMutation.mutate(profileForm);
   };
@@ -202,10 +240,12 @@ export function SettingsPage() {
 
   const tabs = [
     { id: 'profile' as const, label: t('settings.hotelProfile.title'), icon: Building2 },
+    { id: 'journeys' as const, label: t('settings.journeys.title'), icon: Send },
+    { id: 'webhooks' as const, label: t('settings.webhooks.title'), icon: Webhook, disabled: !canViewAdmin },
     { id: 'health' as const, label: 'System Health', icon: Activity, disabled: !canViewHealth },
     { id: 'users' as const, label: t('nav.users'), icon: Users, disabled: !canViewAdmin },
     { id: 'roles' as const, label: t('nav.roles'), icon: Shield, disabled: !canViewAdmin },
-    { id: 'security' as const, label: t('settings.security.title'), icon: Lock, disabled: !canViewAdmin },
+    { id: 'security' as const, label: t('settings.security.title'), icon: Lock },
     { id: 'quick-setup' as const, label: t('settings.quickSetup.title'), icon: Sparkles, disabled: !canManageSettings },
     // Danger zone (show but disable if no permission)
     { id: 'danger-zone' as const, label: t('settings.dangerZone.title'), icon: AlertTriangle, variant: 'destructive' as const, disabled: !canManageSettings },
@@ -371,6 +411,82 @@ export function SettingsPage() {
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="grid gap-2">
+                        <Label>{t('settings.hotelProfile.quietHoursStart')}</Label>
+                        <TimeSelect
+                          value={profileForm.quietHoursStart ?? '21:00'}
+                          onValueChange={(value) => handleProfileChange('quietHoursStart', value)}
+                          placeholder={t('settings.hotelProfile.selectTime')}
+                          disabled={!canManageSettings}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label>{t('settings.hotelProfile.quietHoursEnd')}</Label>
+                        <TimeSelect
+                          value={profileForm.quietHoursEnd ?? '08:00'}
+                          onValueChange={(value) => handleProfileChange('quietHoursEnd', value)}
+                          placeholder={t('settings.hotelProfile.selectTime')}
+                          disabled={!canManageSettings}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground sm:col-span-2 -mt-2">
+                        {t('settings.hotelProfile.quietHoursDesc')}
+                      </p>
+                    </div>
+
+                    <div className="grid gap-2">
+                      <Label>{t('settings.hotelProfile.shiftChanges')}</Label>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {shiftChangeTimes.map((time, index) => (
+                          <div key={index} className="flex items-center gap-1">
+                            <TimeSelect
+                              value={time}
+                              onValueChange={(value) =>
+                                handleShiftChangeTimes(shiftChangeTimes.map((v, i) => (i === index ? value : v)))
+                              }
+                              placeholder={t('settings.hotelProfile.selectTime')}
+                              disabled={!canManageSettings}
+                            />
+                            {canManageSettings && (
+                              <button
+                                type="button"
+                                onClick={() => handleShiftChangeTimes(shiftChangeTimes.filter((_, i) => i !== index))}
+                                className="p-1 rounded hover:bg-muted text-muted-foreground"
+                                aria-label={t('settings.hotelProfile.removeShiftChange')}
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                        {canManageSettings && shiftChangeTimes.length < MAX_SHIFT_CHANGES && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleShiftChangeTimes([...shiftChangeTimes, '12:00'])}
+                          >
+                            <Plus className="w-4 h-4 me-1" />
+                            {t('settings.hotelProfile.addShiftChange')}
+                          </Button>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{t('settings.hotelProfile.shiftChangesDesc')}</p>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label>{t('settings.hotelProfile.staffNotesForAi')}</Label>
+                        <p className="text-xs text-muted-foreground">{t('settings.hotelProfile.staffNotesForAiDesc')}</p>
+                      </div>
+                      <Switch
+                        checked={!!profileForm.staffNotesForAi}
+                        onCheckedChange={(checked) => handleProfileChange('staffNotesForAi', checked)}
+                        disabled={!canManageSettings}
+                      />
+                    </div>
+
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                       <div className="grid gap-2">
                         <Label>{t('settings.hotelProfile.propertyLanguage')}</Label>
@@ -468,6 +584,12 @@ export function SettingsPage() {
           {/* System Health Tab */}
           {activeTab === 'health' && <HealthContent />}
 
+          {/* Guest Journey Tab */}
+          {activeTab === 'journeys' && <JourneysContent />}
+
+          {/* Outbound Webhooks Tab */}
+          {activeTab === 'webhooks' && <WebhooksContent />}
+
           {/* Users Tab */}
           {activeTab === 'users' && <UsersContent />}
 
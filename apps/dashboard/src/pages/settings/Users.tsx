@@ -11,6 +11,7 @@ import { Users, UserPlus, MoreHorizontal } from 'lucide-react';
 import { api } from '@/lib/api';
 import { formatDateTime } from '@/lib/formatters';
 import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import { useAuth } from '@/hooks/useAuth';
 import { EmptyState } from '@/components';
 import { DataTable, Column } from '@/components/DataTable';
 import { Alert } from '@/components/ui/alert';
@@ -37,6 +38,7 @@ interface StaffMember {
   roleName: string;
   status: 'active' | 'inactive';
   approvalStatus: 'pending' | 'approved' | 'rejected';
+  twoFactorEnabled: boolean;
   lastActiveAt: string | null;
   createdAt: string;
   isDeletable?: boolean;
@@ -63,6 +65,7 @@ export function UsersContent() {
   const queryClient = useQueryClient();
   const { can } = usePermissions();
   const canManage = can(PERMISSIONS.ADMIN_MANAGE);
+  const currentUserId = useAuth((s) => s.user?.id);
 
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [search, setSearch] = useState('');
@@ -74,6 +77,7 @@ export function UsersContent() {
   const [userToToggle, setUserToToggle] = useState<StaffMember | null>(null);
   const [userToDelete, setUserToDelete] = useState<StaffMember | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<StaffMember | null>(null);
 
   const statusFilters = [
     { value: 'all' as const, label: t('filters.all') },
@@ -152,6 +156,15 @@ export function UsersContent() {
     },
   });
 
+  // Reset 2FA mutation
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: (userId: string) => api.post(`/staff/${userId}/2fa/reset`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff'] });
+      setUserToResetTwoFactor(null);
+    },
+  });
+
   const staff = data?.staff || [];
   const roles = rolesData?.roles || [];
 
@@ -221,6 +234,9 @@ export function UsersContent() {
           {user.approvalStatus === 'rejected' && (
             <Badge variant="destructive">{t('status.rejected')}</Badge>
           )}
+          {user.twoFactorEnabled && (
+            <Badge variant="secondary">{t('status.twoFactor')}</Badge>
+          )}
         </div>
       ),
     },
@@ -264,6 +280,11 @@ export function UsersContent() {
                   <DropdownMenuItem onClick={() => handleToggleStatus(user)}>
                     {user.status === 'active' ? t('actions.deactivate') : t('actions.activate')}
                   </DropdownMenuItem>
+                  {user.twoFactorEnabled && user.id !== currentUserId && (
+                    <DropdownMenuItem onClick={() => setUserToResetTwoFactor(user)}>
+                      {t('actions.resetTwoFactor')}
+                    </DropdownMenuItem>
+                  )}
                   {user.isDeletable && (
                     <DropdownMenuItem onClick={() => handleDeleteUser(user)}>
                       {t('actions.delete')}
@@ -363,6 +384,18 @@ export function UsersContent() {
         onConfirm={() => userToDelete && deleteMutation.mutate(userToDelete.id)}
         loading={deleteMutation.isPending}
       />
+
+      {/* Reset 2FA Confirmation */}
+      <ConfirmDialog
+        open={!!userToResetTwoFactor}
+        onOpenChange={(open) => !open && setUserToResetTwoFactor(null)}
+        title={t('confirm.resetTwoFactorTitle')}
+        description={t('confirm.resetTwoFactorDescription', { name: userToResetTwoFactor?.name })}
+        confirmLabel={t('confirm.resetTwoFactorButton')}
+        variant="destructive"
+        onConfirm={() => userToResetTwoFactor && resetTwoFactorMutation.mutate(userToResetTwoFactor.id)}
+        loading={resetTwoFactorMutation.isPending}
+      />
     </div>
   );
 }
@@ -0,0 +1,259 @@
+/**
+ * Outbound Webhook Settings
+ *
+ * Subscriptions that push Jack's events (tasks, conversations, reservations)
+ * to third-party systems, with per-subscription delivery logs.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Webhook, Plus, MoreHorizontal } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatTimeAgo } from '@/lib/formatters';
+import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
+import { EmptyState } from '@/components';
+import { Alert } from '@/components/ui/alert';
+import { DataTable, Column } from '@/components/DataTable';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { WebhookFormModal, type WebhookSubscription } from '@/components/webhooks/WebhookFormModal';
+import { WebhookDeliveriesModal } from '@/components/webhooks/WebhookDeliveriesModal';
+import { WebhookSecretDialog } from '@/components/webhooks/WebhookSecretDialog';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from '@/components/ui/dropdown-menu';
+
+/**
+ * Webhooks content component - used within Settings
+ */
+export function WebhooksContent() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can(PERMISSIONS.ADMIN_MANAGE);
+
+  const [selectedSubscription, setSelectedSubscription] = useState<WebhookSubscription | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [deliveriesFor, setDeliveriesFor] = useState<WebhookSubscription | null>(null);
+  const [subscriptionToDelete, setSubscriptionToDelete] = useState<WebhookSubscription | null>(null);
+  const [subscriptionToRotate, setSubscriptionToRotate] = useState<WebhookSubscription | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhook-subscriptions'],
+    queryFn: () =>
+      api.get<{ subscriptions: WebhookSubscription[]; eventTypes: string[] }>('/settings/webhooks'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/settings/webhooks/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-subscriptions'] });
+      setSubscriptionToDelete(null);
+    },
+    onError: (err: Error) => {
+      setSubscriptionToDelete(null);
+      setActionError(err.message || t('settings.webhooks.errors.deleteFailed'));
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: (id: string) => api.post<{ secret: string }>(`/settings/webhooks/${id}/rotate-secret`, {}),
+    onSuccess: (result) => {
+      setSubscriptionToRotate(null);
+      setSecret(result.secret);
+    },
+    onError: (err: Error) => {
+      setSubscriptionToRotate(null);
+      setActionError(err.message || t('settings.webhooks.errors.rotateFailed'));
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (subscription: WebhookSubscription) =>
+      api.put(`/settings/webhooks/${subscription.id}`, { enabled: !subscription.enabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-subscriptions'] });
+    },
+    onError: (err: Error) => {
+      setActionError(err.message || t('settings.webhooks.errors.saveFailed'));
+    },
+  });
+
+  const subscriptions = data?.subscriptions || [];
+
+  const handleCloseModal = () => {
+    setSelectedSubscription(null);
+    setShowAddModal(false);
+  };
+
+  const columns: Column<WebhookSubscription>[] = [
+    {
+      key: 'name',
+      header: t('settings.webhooks.table.name'),
+      render: (subscription) => (
+        <div>
+          <div className="font-medium text-foreground">{subscription.name}</div>
+          <div className="text-xs text-muted-foreground font-mono truncate max-w-[280px]">{subscription.url}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'events',
+      header: t('settings.webhooks.table.events'),
+      render: (subscription) => (
+        <span className="text-sm text-muted-foreground">
+          {t('settings.webhooks.eventCount', { count: subscription.events.length })}
+        </span>
+      ),
+    },
+    {
+      key: 'lastDelivery',
+      header: t('settings.webhooks.table.lastDelivery'),
+      render: (subscription) => (
+        <span className="text-sm text-muted-foreground">
+          {subscription.lastDeliveryAt ? formatTimeAgo(subscription.lastDeliveryAt, t) : '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'enabled',
+      header: t('settings.webhooks.table.status'),
+      render: (subscription) =>
+        subscription.enabled ? (
+          <Badge variant={subscription.consecutiveFailures > 0 ? 'warning' : 'success'}>
+            {subscription.consecutiveFailures > 0
+              ? t('settings.webhooks.status.failing', { count: subscription.consecutiveFailures })
+              : t('settings.webhooks.status.enabled')}
+          </Badge>
+        ) : (
+          <Badge variant={subscription.disabledReason ? 'error' : 'secondary'} title={subscription.disabledReason ?? undefined}>
+            {subscription.disabledReason ? t('settings.webhooks.status.autoDisabled') : t('settings.webhooks.status.disabled')}
+          </Badge>
+        ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-16',
+      render: (subscription: WebhookSubscription) => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="p-1.5 rounded hover:bg-muted text-muted-foreground">
+              <MoreHorizontal className="w-4 h-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => setDeliveriesFor(subscription)}>
+              {t('settings.webhooks.actions.deliveries')}
+            </DropdownMenuItem>
+            {canManage && (
+              <>
+                <DropdownMenuItem onClick={() => setSelectedSubscription(subscription)}>
+                  {t('settings.webhooks.actions.edit')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => toggleMutation.mutate(subscription)}>
+                  {subscription.enabled ? t('settings.webhooks.actions.disable') : t('settings.webhooks.actions.enable')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setSubscriptionToRotate(subscription)}>
+                  {t('settings.webhooks.actions.rotateSecret')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setSubscriptionToDelete(subscription)}>
+                  {t('settings.webhooks.actions.delete')}
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold mb-1">{t('settings.webhooks.title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('settings.webhooks.description')}</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setShowAddModal(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('settings.webhooks.addWebhook')}
+          </Button>
+        )}
+      </div>
+
+      {actionError && (
+        <Alert variant="destructive" onDismiss={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      <DataTable
+        data={subscriptions}
+        columns={columns}
+        keyExtractor={(subscription) => subscription.id}
+        loading={isLoading}
+        emptyState={
+          <EmptyState
+            icon={Webhook}
+            title={t('settings.webhooks.empty.title')}
+            description={t('settings.webhooks.empty.description')}
+          />
+        }
+      />
+
+      <p className="text-xs text-muted-foreground">{t('settings.webhooks.retryNote')}</p>
+
+      {/* Add/Edit Modal */}
+      <WebhookFormModal
+        open={showAddModal || !!selectedSubscription}
+        onClose={handleCloseModal}
+        subscription={selectedSubscription}
+        eventTypes={data?.eventTypes || []}
+        onCreated={setSecret}
+      />
+
+      {/* Delivery Log */}
+      <WebhookDeliveriesModal
+        subscription={deliveriesFor}
+        canManage={canManage}
+        onClose={() => setDeliveriesFor(null)}
+      />
+
+      {/* New Secret */}
+      <WebhookSecretDialog secret={secret} onClose={() => setSecret(null)} />
+
+      {/* Rotate Confirmation */}
+      <ConfirmDialog
+        open={!!subscriptionToRotate}
+        onOpenChange={(open) => !open && setSubscriptionToRotate(null)}
+        title={t('settings.webhooks.confirm.rotateTitle')}
+        description={t('settings.webhooks.confirm.rotateDescription', { name: subscriptionToRotate?.name })}
+        confirmLabel={t('settings.webhooks.actions.rotateSecret')}
+        onConfirm={() => subscriptionToRotate && rotateMutation.mutate(subscriptionToRotate.id)}
+        loading={rotateMutation.isPending}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        open={!!subscriptionToDelete}
+        onOpenChange={(open) => !open && setSubscriptionToDelete(null)}
+        title={t('settings.webhooks.confirm.deleteTitle')}
+        description={t('settings.webhooks.confirm.deleteDescription', { name: subscriptionToDelete?.name })}
+        confirmLabel={t('settings.webhooks.actions.delete')}
+        variant="destructive"
+        onConfirm={() => subscriptionToDelete && deleteMutation.mutate(subscriptionToDelete.id)}
+        loading={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
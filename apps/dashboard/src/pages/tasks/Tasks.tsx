@@ -1,7 +1,7 @@
 import { useState } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
-import { ListTodo, Eye } from 'lucide-react';
+import { ListTodo, Eye, RefreshCw } from 'lucide-react';
 import { api } from '@/lib/api';
 import { formatDateTime } from '@/lib/formatters';
 import {
@@ -11,13 +11,35 @@ import {
 } from '@/lib/config';
 import { useFilteredQuery } from '@/hooks/useFilteredQuery';
 import { usePermissions, PERMISSIONS } from '@/hooks/usePermissions';
-import type { Task, TaskStatus } from '@/types/api';
+import type { MessageMedia, Task, TaskPmsAction, TaskStatus } from '@/types/api';
 import { PageContainer, EmptyState, DataTable } from '@/components';
 import type { Column } from '@/components/DataTable';
 import { DialogRoot, DialogContent } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { FilterTabs } from '@/components/ui/filter-tabs';
+import { MediaAttachments } from '@/components/shared/MediaAttachments';
+
+/** Still awaiting pickup past its SLA due time */
+function isOverdue(task: Task): boolean {
+  if (task.status !== 'pending' && task.status !== 'assigned') return false;
+  return !!task.slaBreachedAt || (!!task.dueAt && new Date(task.dueAt).getTime() < Date.now());
+}
+
+function pmsActionLabel(task: Task, t: (key: string, options?: Record<string, unknown>) => string): string | null {
+  if (!task.pmsAction) return null;
+  const action = JSON.parse(task.pmsAction) as TaskPmsAction;
+  switch (action.type) {
+    case 'departure_time':
+      return t('tasks.pms.actions.departure_time', { time: formatDateTime(action.departureTime) });
+    case 'room_out_of_order':
+      return t('tasks.pms.actions.room_out_of_order', { time: formatDateTime(action.until) });
+    case 'service_charge':
+      return t('tasks.pms.actions.service_charge', { amount: `${action.amount} ${action.currency ?? ''}`.trim() });
+    default:
+      return t(`tasks.pms.actions.${action.type}`);
+  }
+}
 
 export function TasksPage() {
   const { t } = useTranslation();
@@ -27,6 +49,13 @@ export function TasksPage() {
   const [statusFilter, setStatusFilter] = useState<TaskStatus | 'all'>('all');
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 
+  // Photos / voice notes from the guest message the selected task came from
+  const { data: detail } = useQuery({
+    queryKey: ['task', selectedTask?.id],
+    queryFn: () => api.get<{ task: Task; attachments: MessageMedia[] }>(`/tasks/${selectedTask!.id}`),
+    enabled: !!selectedTask?.messageId,
+  });
+
   const { data, isLoading } = useFilteredQuery<{ tasks: Task[] }>({
     queryKey: 'tasks',
     endpoint: '/tasks',
@@ -44,6 +73,14 @@ export function TasksPage() {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['tasks'] }),
   });
 
+  const pmsSyncMutation = useMutation({
+    mutationFn: (taskId: string) => api.post<{ task: Task }>(`/tasks/${taskId}/pms-sync`, {}),
+    onSuccess: ({ task }) => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      setSelectedTask((current) => (current?.id === task.id ? task : current));
+    },
+  });
+
   const reopenMutation = useMutation({
     mutationFn: (taskId: string) => api.post(`/tasks/${taskId}/reopen`, {}),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['tasks'] }),
@@ -85,7 +122,7 @@ export function TasksPage() {
         const isLong = task.description.length > 50;
         return (
           <div className="flex items-center gap-2">
-            {isLong && (
+            {(isLong || task.pmsAction) && (
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -117,9 +154,15 @@ export function TasksPage() {
       header: t('common.status'),
       className: 'min-w-[140px]',
       render: (task) => (
-        <Badge variant={taskStatusVariants[task.status]} className="capitalize">
-          {t(`tasks.statuses.${task.status}`)}
-        </Badge>
+        <div className="flex items-center gap-1.5">
+          <Badge variant={taskStatusVariants[task.status]} className="capitalize">
+            {t(`tasks.statuses.${task.status}`)}
+          </Badge>
+          {isOverdue(task) && <Badge variant="error">{t('tasks.overdue')}</Badge>}
+          {task.pmsSyncStatus === 'failed' && (
+            <Badge variant="error" title={task.pmsSyncError ?? undefined}>{t('tasks.pms.failed')}</Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -183,6 +226,13 @@ export function TasksPage() {
             <div className="p-4 space-y-4">
               <p className="text-sm whitespace-pre-wrap">{selectedTask.description}</p>
 
+              {!!detail?.attachments.length && (
+                <div>
+                  <div className="text-xs text-muted-foreground uppercase font-medium mb-1">{t('tasks.attachments')}</div>
+                  <MediaAttachments media={detail.attachments} />
+                </div>
+              )}
+
               <div className="flex flex-wrap gap-2">
                 {selectedTask.roomNumber && (
                   <Badge>{t('common.room')} {selectedTask.roomNumber}</Badge>
@@ -194,8 +244,38 @@ export function TasksPage() {
                 <Badge variant={taskStatusVariants[selectedTask.status]}>
                   {t(`tasks.statuses.${selectedTask.status}`)}
                 </Badge>
+                {isOverdue(selectedTask) && <Badge variant="error">{t('tasks.overdue')}</Badge>}
               </div>
 
+              {selectedTask.pmsAction && (
+                <div>
+                  <div className="text-xs text-muted-foreground uppercase font-medium mb-1">{t('tasks.pms.title')}</div>
+                  <p className="text-sm">{pmsActionLabel(selectedTask, t)}</p>
+                  {selectedTask.pmsSyncStatus === 'synced' && (
+                    <Badge variant="success" className="mt-1">{t('tasks.pms.synced')}</Badge>
+                  )}
+                  {selectedTask.pmsSyncStatus === 'failed' && (
+                    <div className="mt-1 flex items-center gap-2">
+                      <p className="text-xs text-destructive">{selectedTask.pmsSyncError}</p>
+                      {canManageTasks && (
+                        <Button
+                          variant="outline"
+                          size="xs"
+                          onClick={() => pmsSyncMutation.mutate(selectedTask.id)}
+                          loading={pmsSyncMutation.isPending}
+                        >
+                          {!pmsSyncMutation.isPending && <RefreshCw className="w-3 h-3 me-1" />}
+                          {t('tasks.pms.retry')}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {!selectedTask.pmsSyncStatus && (
+                    <p className="text-xs text-muted-foreground">{t('tasks.pms.pending')}</p>
+                  )}
+                </div>
+              )}
+
               {selectedTask.assignedName && (
                 <div>
                   <div className="text-xs text-muted-foreground uppercase font-medium mb-1">{t('tasks.assignedTo')}</div>
@@ -205,6 +285,10 @@ export function TasksPage() {
 
               <div className="text-xs text-muted-foreground">
                 <div>{t('common.created')} {formatDateTime(selectedTask.createdAt)}</div>
+                {selectedTask.dueAt && <div>{t('tasks.due')} {formatDateTime(selectedTask.dueAt)}</div>}
+                {!!selectedTask.escalationLevel && (
+                  <div>{t('tasks.escalationLevel', { level: selectedTask.escalationLevel })}</div>
+                )}
                 <div className="capitalize">{selectedTask.department.replace('_', ' ')}</div>
               </div>
             </div>
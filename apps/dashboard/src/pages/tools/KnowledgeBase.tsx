@@ -29,6 +29,9 @@ import {
   Sparkles,
   ChevronDown,
   Globe,
+  SlidersHorizontal,
+  FileText,
+  FileUp,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -40,6 +43,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { api } from '@/lib/api';
 import { cn } from '@/lib/utils';
 import { FilterTabs } from '@/components/ui/filter-tabs';
+import { RetrievalSettingsModal } from '@/components/knowledge/RetrievalSettingsModal';
+import { DocumentUploadModal } from '@/components/knowledge/DocumentUploadModal';
+import { KnowledgeGapsCard, type KnowledgeGapDraft } from '@/components/knowledge/KnowledgeGapsCard';
+import {
+  ValidityFields,
+  ValidityBadge,
+  type KnowledgeSchedule,
+  type KnowledgeValidity,
+  type ValidityFormValue,
+} from '@/components/knowledge/ValidityFields';
 
 interface KnowledgeEntry {
   id: string;
@@ -50,10 +63,23 @@ interface KnowledgeEntry {
   priority: number;
   status: string;
   sourceUrl?: string | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  schedule: KnowledgeSchedule | null;
+  expiryFlaggedAt: string | null;
+  validity: KnowledgeValidity;
   createdAt: string;
   updatedAt: string;
 }
 
+const EMPTY_VALIDITY: ValidityFormValue = {
+  validFrom: '',
+  validUntil: '',
+  daysOfWeek: [],
+  seasonStart: '',
+  seasonEnd: '',
+};
+
 interface Category {
   id: string;
   label: string;
@@ -65,6 +91,10 @@ interface TestMatch {
   title: string;
   category: string;
   similarity: number;
+  score: number;
+  vectorRank: number | null;
+  keywordRank: number | null;
+  keywordScore: number | null;
 }
 
 interface TestResult {
@@ -110,6 +140,8 @@ export function KnowledgeBasePage() {
   const [total, setTotal] = useState(0);
   const [editingEntry, setEditingEntry] = useState<KnowledgeEntry | null>(null);
   const [isAddingNew, setIsAddingNew] = useState(false);
+  // Knowledge gap the entry being added will answer
+  const [draftGapId, setDraftGapId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
 
   // Test knowledge base state
@@ -124,6 +156,8 @@ export function KnowledgeBasePage() {
   // Reindex state
   const [reindexing, setReindexing] = useState(false);
   const [showReindexConfirm, setShowReindexConfirm] = useState(false);
+  const [showRetrievalSettings, setShowRetrievalSettings] = useState(false);
+  const [showDocumentUpload, setShowDocumentUpload] = useState(false);
   const [showEmbeddingWarning, setShowEmbeddingWarning] = useState(false);
 
   // Delete state
@@ -137,6 +171,7 @@ export function KnowledgeBasePage() {
     keywords: '',
     priority: 5,
   });
+  const [validity, setValidity] = useState<ValidityFormValue>(EMPTY_VALIDITY);
 
   const fetchEntries = async () => {
     try {
@@ -181,6 +216,20 @@ export function KnowledgeBasePage() {
           onClick: () => providers?.embedding ? setShowReindexConfirm(true) : setShowEmbeddingWarning(true),
           disabled: reindexing,
         },
+        {
+          id: 'retrieval-settings',
+          label: t('knowledge.retrieval.button'),
+          icon: SlidersHorizontal,
+          variant: 'outline',
+          onClick: () => setShowRetrievalSettings(true),
+        },
+        {
+          id: 'upload-document',
+          label: t('knowledge.documents.upload'),
+          icon: FileUp,
+          variant: 'outline',
+          onClick: () => setShowDocumentUpload(true),
+        },
         {
           id: 'add-entry',
           label: t('knowledge.addEntry'),
@@ -212,8 +261,10 @@ export function KnowledgeBasePage() {
       keywords: '',
       priority: 5,
     });
+    setValidity(EMPTY_VALIDITY);
     setEditingEntry(null);
     setIsAddingNew(false);
+    setDraftGapId(null);
   };
 
   const startAdd = () => {
@@ -221,6 +272,19 @@ export function KnowledgeBasePage() {
     setIsAddingNew(true);
   };
 
+  const startDraftFromGap = (gapId: string, draft: KnowledgeGapDraft) => {
+    resetForm();
+    setFormData({
+      category: draft.category,
+      title: draft.title,
+      content: draft.content,
+      keywords: draft.keywords.join(', '),
+      priority: draft.priority,
+    });
+    setDraftGapId(gapId);
+    setIsAddingNew(true);
+  };
+
   const startEdit = (entry: KnowledgeEntry) => {
     setEditingEntry(entry);
     setFormData({
@@ -230,6 +294,13 @@ export function KnowledgeBasePage() {
       keywords: entry.keywords.join(', '),
       priority: entry.priority,
     });
+    setValidity({
+      validFrom: entry.validFrom ?? '',
+      validUntil: entry.validUntil ?? '',
+      daysOfWeek: entry.schedule?.daysOfWeek ?? [],
+      seasonStart: entry.schedule?.seasonStart ?? '',
+      seasonEnd: entry.schedule?.seasonEnd ?? '',
+    });
     setIsAddingNew(false);
   };
 
@@ -243,6 +314,11 @@ export function KnowledgeBasePage() {
     setError(null);
 
     try {
+      const schedule: KnowledgeSchedule = {
+        ...(validity.daysOfWeek.length > 0 && { daysOfWeek: validity.daysOfWeek }),
+        ...(validity.seasonStart.trim() && { seasonStart: validity.seasonStart.trim() }),
+        ...(validity.seasonEnd.trim() && { seasonEnd: validity.seasonEnd.trim() }),
+      };
       const payload = {
         category: formData.category,
         title: formData.title.trim(),
@@ -252,12 +328,18 @@ export function KnowledgeBasePage() {
           .map((k) => k.trim())
           .filter(Boolean),
         priority: formData.priority,
+        validFrom: validity.validFrom || null,
+        validUntil: validity.validUntil || null,
+        schedule: Object.keys(schedule).length > 0 ? schedule : null,
       };
 
       if (editingEntry) {
         await api.put(`/knowledge/${editingEntry.id}`, payload);
       } else {
-        await api.post('/knowledge', payload);
+        await api.post('/knowledge', { ...payload, ...(draftGapId ? { gapId: draftGapId } : {}) });
+        if (draftGapId) {
+          queryClient.invalidateQueries({ queryKey: ['knowledge-gaps'] });
+        }
       }
 
       resetForm();
@@ -357,9 +439,20 @@ export function KnowledgeBasePage() {
         <div className="flex items-center gap-1.5 font-medium truncate max-w-[200px]" title={entry.title}>
           {entry.sourceUrl && (
             <span title={entry.sourceUrl}>
-              <Globe className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+              {entry.sourceUrl.startsWith('document:') ? (
+                <FileText className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+              ) : (
+                <Globe className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+              )}
             </span>
           )}
+          <ValidityBadge
+            validity={entry.validity}
+            validFrom={entry.validFrom}
+            validUntil={entry.validUntil}
+            schedule={entry.schedule}
+            expiryFlaggedAt={entry.expiryFlaggedAt}
+          />
           {entry.title}
         </div>
       ),
@@ -410,6 +503,7 @@ export function KnowledgeBasePage() {
     { value: '', label: t('common.all') },
     { value: 'manual', label: t('knowledge.sourceManual') },
     { value: 'scraped', label: t('knowledge.sourceScraped') },
+    { value: 'document', label: t('knowledge.sourceDocument') },
   ];
 
   return (
@@ -630,11 +724,24 @@ export function KnowledgeBasePage() {
                               animation: askStep !== 'complete' ? `fadeSlideIn 0.3s ease-out ${index * 150}ms forwards` : 'none',
                             }}
                           >
-                            <div className="flex items-center gap-2">
-                              <Badge variant="secondary" className="text-xs">
-                                {match.category.replace(/_/g, ' ')}
-                              </Badge>
-                              <span className="text-foreground">{match.title}</span>
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <Badge variant="secondary" className="text-xs">
+                                  {match.category.replace(/_/g, ' ')}
+                                </Badge>
+                                <span className="text-foreground">{match.title}</span>
+                              </div>
+                              <div className="text-xs text-muted-foreground mt-0.5">
+                                {match.vectorRank !== null
+                                  ? t('knowledge.retrieval.semanticRank', { rank: match.vectorRank })
+                                  : t('knowledge.retrieval.semanticNone')}
+                                {' · '}
+                                {match.keywordRank !== null
+                                  ? t('knowledge.retrieval.keywordRank', { rank: match.keywordRank, score: match.keywordScore })
+                                  : t('knowledge.retrieval.keywordNone')}
+                                {' · '}
+                                {t('knowledge.retrieval.fusedScore', { score: match.score })}
+                              </div>
                             </div>
                             <div className="flex items-center gap-1.5">
                               <div className="w-12 h-1.5 bg-muted rounded-full overflow-hidden">
@@ -672,6 +779,11 @@ export function KnowledgeBasePage() {
         </CardContent>
       </Card>
 
+      {/* Unanswered guest questions */}
+      {!isAddingNew && !editingEntry && (
+        <KnowledgeGapsCard canManage={canManageKnowledge} onDraft={startDraftFromGap} />
+      )}
+
       {/* Add/Edit Form */}
       {(isAddingNew || editingEntry) && (
             <Card>
@@ -746,6 +858,8 @@ export function KnowledgeBasePage() {
                   />
                 </div>
 
+                <ValidityFields value={validity} onChange={setValidity} />
+
                 <div className="flex justify-end gap-2 pt-4 border-t">
                   <Button variant="outline" onClick={resetForm}>
                     {t('common.cancel')}
@@ -846,6 +960,18 @@ export function KnowledgeBasePage() {
         }}
       />
 
+      <RetrievalSettingsModal open={showRetrievalSettings} onClose={() => setShowRetrievalSettings(false)} />
+
+      <DocumentUploadModal
+        open={showDocumentUpload}
+        onClose={() => setShowDocumentUpload(false)}
+        onImported={(count) => {
+          setReindexResult(t('knowledge.documents.imported', { count }));
+          fetchEntries();
+          fetchCategories();
+        }}
+      />
+
     </PageContainer>
   );
 }
@@ -26,6 +26,9 @@ export interface Guest {
   stayCount: number;
   totalRevenue: number;
   lastStayDate: string | null;
+  journeyOptOut: boolean;
+  blockedAt: string | null;
+  blockedReason: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -47,6 +50,33 @@ export interface GuestSummary {
   loyaltyTier: string | null;
 }
 
+// --- Guest Duplicates ---
+
+export type DuplicateReason = 'external_id' | 'email' | 'phone' | 'name_and_stay';
+
+/** Two profiles that look like the same person; the first is the suggested one to keep */
+export interface DuplicateCandidate {
+  guests: [GuestWithCounts, GuestWithCounts];
+  reasons: DuplicateReason[];
+}
+
+export interface GuestMerge {
+  id: string;
+  targetId: string;
+  targetName: string;
+  sourceId: string;
+  sourceName: string;
+  mergedAt: string;
+  mergedBy: string | null;
+  counts: {
+    conversations: number;
+    reservations: number;
+    tasks: number;
+    memories: number;
+  };
+  undoneAt: string | null;
+}
+
 // --- Guest Memory ---
 
 export interface GuestMemory {
@@ -111,11 +141,55 @@ export interface Task {
   assignedTo: string | null;
   assignedName?: string;
   dueAt?: string | null;
+  slaBreachedAt?: string | null;
+  escalationLevel?: number;
+  /** JSON-encoded action pushed to the PMS on completion */
+  pmsAction?: string | null;
+  pmsSyncStatus?: 'synced' | 'failed' | null;
+  pmsSyncError?: string | null;
   createdAt: string;
 }
 
+/** Parsed `Task.pmsAction` */
+export type TaskPmsAction =
+  | { type: 'reservation_note'; note?: string }
+  | { type: 'departure_time'; departureTime: string }
+  | { type: 'room_out_of_order'; until: string; reason?: string }
+  | { type: 'service_charge'; amount: number; currency?: string; description?: string };
+
+// --- Room ---
+
+export type RoomStatus = 'vacant' | 'occupied' | 'dirty' | 'clean' | 'inspected' | 'out_of_order';
+
+/** Room on the housekeeping board */
+export interface Room {
+  id: string;
+  number: string;
+  type: string;
+  floor: string | null;
+  status: RoomStatus;
+  statusChangedAt: string | null;
+  currentReservationId: string | null;
+  guestName: string | null;
+  openTasks: Pick<Task, 'id' | 'type' | 'department' | 'description' | 'priority' | 'status' | 'dueAt'>[];
+  syncedAt: string;
+}
+
 // --- Conversation ---
 
+/** Guest photo or voice note attached to a message */
+export interface MessageMedia {
+  id: string;
+  kind: 'image' | 'audio';
+  mimeType: string;
+  size: number;
+  file: string;
+  /** AI description of a photo */
+  description?: string;
+  /** Transcript of a voice note */
+  transcript?: string;
+}
+
 export interface Conversation {
   id: string;
   channelType: ChannelType;
@@ -230,7 +230,7 @@ export const apps: App[] = [
     slug: 'apaleo',
     category: 'pms',
     summary: 'API-first property management platform for modern hotels.',
-    status: 'planned',
+    status: 'available',
   },
   {
     id: 'stayntouch',
@@ -79,7 +79,7 @@ export class ActionManager {
       this.callbacks.onSystemMessage(this.strings.verifyFirst);
       this.showActionForm('verify-reservation');
     } else {
-      this.showActionForm(actionId);
+      void this.openActionForm(actionId);
     }
   }
 
@@ -91,7 +91,7 @@ export class ActionManager {
     if (this.pendingActionId) {
       const pending = this.pendingActionId;
       this.pendingActionId = null;
-      setTimeout(() => this.showActionForm(pending), 300);
+      setTimeout(() => void this.openActionForm(pending), 300);
     }
   }
 
@@ -100,6 +100,34 @@ export class ActionManager {
     this.nextStepContext = null;
   }
 
+  /**
+   * Show an action's form, first fetching read-only values (e.g. the
+   * room number) for any fields the server prefills.
+   */
+  private async openActionForm(actionId: string): Promise<void> {
+    const action = this.getAction(actionId);
+    const token = this.callbacks.getSessionToken();
+    if (!action?.fields.some((f) => f.prefill) || !token) {
+      this.showActionForm(actionId);
+      return;
+    }
+
+    let prefill: Record<string, string> | undefined;
+    try {
+      const res = await fetch(
+        `${this.gatewayOrigin}/api/v1/webchat/actions/${actionId}/prefill`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      if (res.ok) {
+        const json = await res.json();
+        if (Object.keys(json.values ?? {}).length > 0) prefill = json.values;
+      }
+    } catch {
+      // Guest can still fill the field in themselves
+    }
+    this.showActionForm(actionId, undefined, prefill);
+  }
+
   private showActionForm(
     actionId: string,
     overrideFields?: WebChatActionField[],
@@ -170,7 +198,7 @@ export class ActionManager {
         if (actionId === 'verify-reservation' && this.pendingActionId) {
           const pending = this.pendingActionId;
           this.pendingActionId = null;
-          setTimeout(() => this.showActionForm(pending), 300);
+          setTimeout(() => void this.openActionForm(pending), 300);
         }
       } else {
         this.callbacks.onSystemMessage(result.message || this.strings.actionFailed);
@@ -71,6 +71,7 @@ export function createActionForm(
         email: 'email',
         tel: 'tel',
         date: 'date',
+        time: 'time',
         number: 'number',
       };
       input = createElement('input', {
@@ -3,6 +3,8 @@
  *
  * Scrollable message area with smooth auto-scroll and
  * scroll-to-bottom floating button via IntersectionObserver.
+ * Streamed AI replies render as a draft bubble that grows with each delta
+ * and is swapped in place for the final bubble when the reply completes.
  */
 
 import { createElement } from '../utils.js';
@@ -15,6 +17,8 @@ import type { MessageVariant } from '../types.js';
 export interface MessageList {
   element: HTMLDivElement;
   addMessage(content: string, variant: MessageVariant, label?: string, options?: MessageBubbleOptions): void;
+  appendDelta(streamId: string, delta: string, variant: MessageVariant, label?: string): void;
+  completeStream(streamId: string, content: string, variant: MessageVariant, label?: string, options?: MessageBubbleOptions): void;
   clear(): void;
   scrollToBottom(): void;
   updateStrings(strings: WidgetStrings): void;
@@ -69,6 +73,9 @@ export function createMessageList(strings: WidgetStrings = DEFAULT_STRINGS): Mes
     sentinel.scrollIntoView({ behavior: 'smooth', block: 'end' });
   }
 
+  // Draft bubbles for replies that are still streaming, keyed by streamId
+  const drafts = new Map<string, { element: HTMLDivElement; text: string }>();
+
   return {
     element: container,
     addMessage(content, variant, label, options) {
@@ -78,7 +85,38 @@ export function createMessageList(strings: WidgetStrings = DEFAULT_STRINGS): Mes
         scrollToBottom();
       }
     },
+    appendDelta(streamId, delta, variant, label) {
+      let draft = drafts.get(streamId);
+      if (!draft) {
+        const bubble = createMessageBubble('', variant, label);
+        container.insertBefore(bubble.element, sentinel);
+        draft = { element: bubble.element, text: '' };
+        drafts.set(streamId, draft);
+      }
+      draft.text += delta;
+      const textEl = draft.element.querySelector('.butler-msg-text');
+      if (textEl) textEl.textContent = draft.text;
+      if (isNearBottom) {
+        scrollToBottom();
+      }
+    },
+    completeStream(streamId, content, variant, label, options) {
+      const draft = drafts.get(streamId);
+      drafts.delete(streamId);
+      const bubble = createMessageBubble(content, variant, label, options);
+      if (draft?.element.isConnected) {
+        // Already faded in as a draft — don't animate the swap
+        bubble.element.classList.remove('butler-fade-in');
+        draft.element.replaceWith(bubble.element);
+      } else {
+        container.insertBefore(bubble.element, sentinel);
+      }
+      if (isNearBottom) {
+        scrollToBottom();
+      }
+    },
     clear() {
+      drafts.clear();
       // Remove all message bubbles, keep sentinel and scroll button
       for (const child of Array.from(container.children)) {
         if (child !== sentinel && child !== scrollBtn) {
@@ -18,6 +18,7 @@ import type {
   SessionUpdateMessage,
   HistoryMessage,
   ChatMessage,
+  DeltaMessage,
   VerificationStatus,
 } from './types.js';
 
@@ -26,6 +27,7 @@ export interface ConnectionCallbacks {
   onSessionUpdate(msg: SessionUpdateMessage): void;
   onHistory(msg: HistoryMessage): void;
   onMessage(msg: ChatMessage): void;
+  onDelta(msg: DeltaMessage): void;
   onError(message: string): void;
   onConnected(): void;
   onDisconnected(): void;
@@ -148,6 +150,9 @@ export class ConnectionManager {
       case 'message':
         this.callbacks.onMessage(data);
         break;
+      case 'delta':
+        this.callbacks.onDelta(data);
+        break;
       case 'error':
         this.callbacks.onError(data.message);
         break;
@@ -22,12 +22,13 @@ export interface WebChatAction {
 export interface WebChatActionField {
   key: string;
   label: string;
-  type: 'text' | 'date' | 'number' | 'select' | 'email' | 'tel';
+  type: 'text' | 'date' | 'time' | 'number' | 'select' | 'email' | 'tel';
   required: boolean;
   options?: string[];
   optionLabels?: string[];
   placeholder?: string;
   validation?: string;
+  prefill?: 'roomNumber';
   showWhen?: {
     field: string;
     values: string[];
@@ -79,6 +80,15 @@ export interface ChatMessage {
   senderType?: 'ai' | 'staff' | 'system';
   action?: { id: string };
   quickReplies?: string[];
+  /** Set on AI replies that were streamed — replaces the matching draft */
+  streamId?: string;
+}
+
+/** Partial AI reply text; appended to the draft bubble for `streamId` */
+export interface DeltaMessage {
+  type: 'delta';
+  streamId: string;
+  content: string;
 }
 
 export interface ErrorMessage {
@@ -95,6 +105,7 @@ export type ServerMessage =
   | SessionUpdateMessage
   | HistoryMessage
   | ChatMessage
+  | DeltaMessage
   | ErrorMessage
   | PongMessage;
 
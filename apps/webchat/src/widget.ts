@@ -152,7 +152,11 @@ export class ButlerChatWidget {
           const qrOptions = msg.quickReplies?.length
             ? { quickReplies: msg.quickReplies, onQuickReply: (text: string) => this.handleSend(text) }
             : undefined;
-          this.messageList.addMessage(msg.content, 'ai', this.strings.senderAI, qrOptions);
+          if (msg.streamId) {
+            this.messageList.completeStream(msg.streamId, msg.content, 'ai', this.strings.senderAI, qrOptions);
+          } else {
+            this.messageList.addMessage(msg.content, 'ai', this.strings.senderAI, qrOptions);
+          }
           if (msg.action?.id) {
             this.actionManager?.handleActionTrigger(msg.action.id);
           }
@@ -162,6 +166,11 @@ export class ButlerChatWidget {
           this.messageList.addMessage(msg.content, 'guest', this.strings.senderYou);
         }
       },
+      onDelta: (msg) => {
+        // Text is arriving — the draft bubble replaces the typing indicator
+        this.doHideTyping();
+        this.messageList.appendDelta(msg.streamId, msg.content, 'ai', this.strings.senderAI);
+      },
       onError: (message) => {
         this.messageList.addMessage(`Error: ${message}`, 'system');
       },
@@ -0,0 +1,3 @@
+ALTER TABLE `response_cache` ADD `embedding` blob;--> statement-breakpoint
+ALTER TABLE `response_cache` ADD `knowledge_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_response_cache_intent` ON `response_cache` (`intent`);
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE `journey_sends` (
+	`id` text PRIMARY KEY NOT NULL,
+	`step_id` text NOT NULL,
+	`reservation_id` text NOT NULL,
+	`guest_id` text NOT NULL,
+	`status` text NOT NULL,
+	`reason` text,
+	`channel` text,
+	`conversation_id` text,
+	`message_id` text,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`step_id`) REFERENCES `journey_steps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`reservation_id`) REFERENCES `reservations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`guest_id`) REFERENCES `guests`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_journey_sends_step_reservation` ON `journey_sends` (`step_id`,`reservation_id`);--> statement-breakpoint
+CREATE INDEX `idx_journey_sends_reservation` ON `journey_sends` (`reservation_id`);--> statement-breakpoint
+CREATE TABLE `journey_steps` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`anchor` text NOT NULL,
+	`offset_days` integer DEFAULT 0 NOT NULL,
+	`send_time` text DEFAULT '10:00' NOT NULL,
+	`channel` text DEFAULT 'auto' NOT NULL,
+	`templates` text DEFAULT '{}' NOT NULL,
+	`subject` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_journey_steps_anchor` ON `journey_steps` (`anchor`,`enabled`);--> statement-breakpoint
+ALTER TABLE `guests` ADD `journey_opt_out` integer DEFAULT false NOT NULL;
\ No newline at end of file
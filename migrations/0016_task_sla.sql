@@ -0,0 +1,3 @@
+ALTER TABLE `tasks` ADD `sla_breached_at` text;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `escalation_level` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_tasks_due` ON `tasks` (`due_at`);
\ No newline at end of file
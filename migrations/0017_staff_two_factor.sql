@@ -0,0 +1,4 @@
+ALTER TABLE `staff` ADD `totp_secret` text;--> statement-breakpoint
+ALTER TABLE `staff` ADD `totp_enabled_at` text;--> statement-breakpoint
+ALTER TABLE `staff` ADD `totp_last_step` integer;--> statement-breakpoint
+ALTER TABLE `staff` ADD `totp_recovery_codes` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
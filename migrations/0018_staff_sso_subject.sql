@@ -0,0 +1,2 @@
+ALTER TABLE `staff` ADD `sso_subject` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_staff_sso_subject` ON `staff` (`sso_subject`);
\ No newline at end of file
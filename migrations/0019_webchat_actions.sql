@@ -0,0 +1,13 @@
+CREATE TABLE `webchat_actions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`trigger_hint` text NOT NULL,
+	`requires_verification` integer DEFAULT true NOT NULL,
+	`fields` text DEFAULT '[]' NOT NULL,
+	`translations` text DEFAULT '{}' NOT NULL,
+	`outcomes` text DEFAULT '[]' NOT NULL,
+	`confirmation_message` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL
+);
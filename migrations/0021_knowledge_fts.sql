@@ -0,0 +1,25 @@
+-- Full-text index over knowledge_base for hybrid (keyword + vector) retrieval.
+-- External-content FTS5 table kept in sync by triggers; not modelled in schema.ts.
+CREATE VIRTUAL TABLE `knowledge_fts` USING fts5(
+	`title`,
+	`content`,
+	`keywords`,
+	content='knowledge_base',
+	content_rowid='rowid',
+	tokenize='unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `knowledge_fts_ai` AFTER INSERT ON `knowledge_base` BEGIN
+	INSERT INTO `knowledge_fts`(rowid, `title`, `content`, `keywords`) VALUES (new.rowid, new.`title`, new.`content`, new.`keywords`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `knowledge_fts_ad` AFTER DELETE ON `knowledge_base` BEGIN
+	INSERT INTO `knowledge_fts`(`knowledge_fts`, rowid, `title`, `content`, `keywords`) VALUES ('delete', old.rowid, old.`title`, old.`content`, old.`keywords`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `knowledge_fts_au` AFTER UPDATE OF `title`, `content`, `keywords` ON `knowledge_base` BEGIN
+	INSERT INTO `knowledge_fts`(`knowledge_fts`, rowid, `title`, `content`, `keywords`) VALUES ('delete', old.rowid, old.`title`, old.`content`, old.`keywords`);
+	INSERT INTO `knowledge_fts`(rowid, `title`, `content`, `keywords`) VALUES (new.rowid, new.`title`, new.`content`, new.`keywords`);
+END;
+--> statement-breakpoint
+INSERT INTO `knowledge_fts`(`knowledge_fts`) VALUES ('rebuild');
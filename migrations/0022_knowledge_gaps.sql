@@ -0,0 +1,31 @@
+CREATE TABLE `knowledge_gap_clusters` (
+	`id` text PRIMARY KEY NOT NULL,
+	`question` text NOT NULL,
+	`centroid` blob,
+	`intent` text,
+	`gap_count` integer DEFAULT 0 NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`knowledge_id` text,
+	`first_seen_at` text NOT NULL,
+	`last_seen_at` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`knowledge_id`) REFERENCES `knowledge_base`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_knowledge_gap_clusters_status` ON `knowledge_gap_clusters` (`status`,`gap_count`);--> statement-breakpoint
+CREATE TABLE `knowledge_gaps` (
+	`id` text PRIMARY KEY NOT NULL,
+	`question` text NOT NULL,
+	`intent` text,
+	`reason` text NOT NULL,
+	`top_similarity` real,
+	`embedding` blob,
+	`conversation_id` text,
+	`cluster_id` text,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`cluster_id`) REFERENCES `knowledge_gap_clusters`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_knowledge_gaps_cluster` ON `knowledge_gaps` (`cluster_id`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `knowledge_base` ADD `valid_from` text;--> statement-breakpoint
+ALTER TABLE `knowledge_base` ADD `valid_until` text;--> statement-breakpoint
+ALTER TABLE `knowledge_base` ADD `schedule` text;--> statement-breakpoint
+ALTER TABLE `knowledge_base` ADD `expiry_flagged_at` text;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `outbound_queue` (
+	`id` text PRIMARY KEY NOT NULL,
+	`message_id` text NOT NULL,
+	`conversation_id` text NOT NULL,
+	`channel` text NOT NULL,
+	`app_id` text,
+	`channel_id` text NOT NULL,
+	`content` text NOT NULL,
+	`content_type` text DEFAULT 'text' NOT NULL,
+	`metadata` text,
+	`idempotency_key` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` text,
+	`last_error` text,
+	`channel_message_id` text,
+	`sent_at` text,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `outbound_queue_idempotency_key_unique` ON `outbound_queue` (`idempotency_key`);--> statement-breakpoint
+CREATE INDEX `idx_outbound_queue_due` ON `outbound_queue` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE INDEX `idx_outbound_queue_message` ON `outbound_queue` (`message_id`);
\ No newline at end of file
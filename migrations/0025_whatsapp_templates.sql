@@ -0,0 +1,16 @@
+CREATE TABLE `whatsapp_templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`language` text NOT NULL,
+	`category` text NOT NULL,
+	`status` text NOT NULL,
+	`body` text DEFAULT '' NOT NULL,
+	`parameter_count` integer DEFAULT 0 NOT NULL,
+	`variables` text DEFAULT '[]' NOT NULL,
+	`is_fallback` integer DEFAULT false NOT NULL,
+	`synced_at` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_whatsapp_templates_name_language` ON `whatsapp_templates` (`name`,`language`);
\ No newline at end of file
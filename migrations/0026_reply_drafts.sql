@@ -0,0 +1,20 @@
+CREATE TABLE `reply_drafts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`message_id` text,
+	`staff_id` text,
+	`language` text NOT NULL,
+	`suggestions` text DEFAULT '[]' NOT NULL,
+	`outcome` text,
+	`chosen_index` integer,
+	`sent_message_id` text,
+	`used_at` text,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`staff_id`) REFERENCES `staff`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`sent_message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `idx_reply_drafts_conversation` ON `reply_drafts` (`conversation_id`);--> statement-breakpoint
+CREATE INDEX `idx_reply_drafts_created` ON `reply_drafts` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `conversations` ADD `handoff_summary` text;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `handoff_summary_at` text;
\ No newline at end of file
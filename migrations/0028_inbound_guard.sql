@@ -0,0 +1,2 @@
+ALTER TABLE `guests` ADD `blocked_at` text;--> statement-breakpoint
+ALTER TABLE `guests` ADD `blocked_reason` text;
\ No newline at end of file
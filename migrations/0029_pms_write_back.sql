@@ -0,0 +1,4 @@
+ALTER TABLE `tasks` ADD `pms_action` text;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `pms_sync_status` text;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `pms_sync_error` text;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `pms_synced_at` text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `rooms` (
+	`id` text PRIMARY KEY NOT NULL,
+	`number` text NOT NULL,
+	`type` text NOT NULL,
+	`floor` text,
+	`status` text NOT NULL,
+	`status_changed_at` text,
+	`current_reservation_id` text,
+	`synced_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`current_reservation_id`) REFERENCES `reservations`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `rooms_number_unique` ON `rooms` (`number`);--> statement-breakpoint
+CREATE INDEX `idx_rooms_floor` ON `rooms` (`floor`);--> statement-breakpoint
+CREATE INDEX `idx_rooms_status` ON `rooms` (`status`);
\ No newline at end of file
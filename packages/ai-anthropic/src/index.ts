@@ -1,7 +1,7 @@
 /**
  * Anthropic Claude Provider Extension
  *
- * Claude API integration for AI completions.
+ * Claude API integration for AI completions and image descriptions.
  *
  * @module extensions/ai/providers/anthropic
  */
@@ -17,6 +17,8 @@ import type {
   ConnectionTestResult,
   EmbeddingRequest,
   EmbeddingResponse,
+  ImageDescriptionRequest,
+  ImageDescriptionResponse,
   PluginContext,
 } from '@jackthebutler/shared';
 import { withLogContext } from '@jackthebutler/shared';
@@ -26,6 +28,16 @@ import { withLogContext } from '@jackthebutler/shared';
  */
 const DEFAULT_MODEL = 'claude-sonnet-4-6';
 
+/**
+ * Prompt used when an image description request doesn't supply one
+ */
+const DEFAULT_IMAGE_PROMPT = 'Describe this image in one or two plain sentences.';
+
+/**
+ * Image types accepted by the Messages API
+ */
+const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+
 /**
  * Anthropic provider configuration
  */
@@ -106,11 +118,43 @@ export class AnthropicProvider implements AIProvider, BaseProvider {
    * Generate a completion using Claude
    */
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const { model, params } = this.buildParams(request);
+
+    const eventType = request.purpose ? `completion.${request.purpose}` : 'completion';
+    const response = await this.appLog(eventType, { model, ...(request.purpose && { purpose: request.purpose }) }, async () => {
+      const result = await this.client.messages.create(params);
+      return withLogContext(result, this.logFields(result, request));
+    });
+
+    return this.toResponse(response);
+  }
+
+  /**
+   * Generate a completion using Claude, emitting text deltas as they arrive
+   */
+  async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse> {
+    const { model, params } = this.buildParams(request);
+
+    const eventType = request.purpose ? `completion.${request.purpose}` : 'completion';
+    const response = await this.appLog(eventType, { model, streamed: true, ...(request.purpose && { purpose: request.purpose }) }, async () => {
+      const stream = this.client.messages.stream(params);
+      stream.on('text', onDelta);
+      const result = await stream.finalMessage();
+      return withLogContext(result, this.logFields(result, request));
+    });
+
+    return this.toResponse(response);
+  }
+
+  /**
+   * Map a completion request onto Messages API params
+   */
+  private buildParams(request: CompletionRequest): { model: string; params: Anthropic.MessageCreateParamsNonStreaming } {
     const model = request.modelTier === 'utility' ? this.utilityModel : this.model;
     const systemMessage = request.messages.find((m) => m.role === 'system');
     const otherMessages = request.messages.filter((m) => m.role !== 'system');
 
-    const createParams: Anthropic.MessageCreateParamsNonStreaming = {
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
       model,
       max_tokens: request.maxTokens || this.maxTokens,
       messages: otherMessages.map((m) => ({
@@ -120,40 +164,82 @@ export class AnthropicProvider implements AIProvider, BaseProvider {
     };
 
     if (request.temperature !== undefined) {
-      createParams.temperature = request.temperature;
+      params.temperature = request.temperature;
     }
     if (systemMessage?.content) {
-      createParams.system = systemMessage.content;
+      params.system = systemMessage.content;
     }
     if (request.stopSequences && request.stopSequences.length > 0) {
-      createParams.stop_sequences = request.stopSequences;
+      params.stop_sequences = request.stopSequences;
     }
 
-    const eventType = request.purpose ? `completion.${request.purpose}` : 'completion';
-    const response = await this.appLog(eventType, { model, ...(request.purpose && { purpose: request.purpose }) }, async () => {
-      const result = await this.client.messages.create(createParams);
-      const textBlock = result.content.find((c) => c.type === 'text');
-      const text = textBlock?.type === 'text' ? textBlock.text : '';
-      const onCompleteContext = request.onComplete?.(text) ?? {};
-      return withLogContext(result, {
-        messageId: result.id,
+    return { model, params };
+  }
+
+  private logFields(result: Anthropic.Message, request: CompletionRequest): Record<string, unknown> {
+    const onCompleteContext = request.onComplete?.(this.textOf(result)) ?? {};
+    return {
+      messageId: result.id,
+      inputTokens: result.usage.input_tokens,
+      outputTokens: result.usage.output_tokens,
+      stopReason: result.stop_reason,
+      ...onCompleteContext,
+    };
+  }
+
+  private toResponse(result: Anthropic.Message): CompletionResponse {
+    return {
+      content: this.textOf(result),
+      usage: {
         inputTokens: result.usage.input_tokens,
         outputTokens: result.usage.output_tokens,
-        stopReason: result.stop_reason,
-        ...onCompleteContext,
+      },
+      stopReason: result.stop_reason ?? undefined,
+    };
+  }
+
+  private textOf(result: Anthropic.Message): string {
+    const textBlock = result.content.find((c) => c.type === 'text');
+    return textBlock?.type === 'text' ? textBlock.text : '';
+  }
+
+  /**
+   * Describe an image with Claude vision
+   */
+  async describeImage(request: ImageDescriptionRequest): Promise<ImageDescriptionResponse> {
+    const mediaType = IMAGE_MEDIA_TYPES.find((t) => t === request.mimeType);
+    if (!mediaType) {
+      throw new Error(`Unsupported image type for Claude vision: ${request.mimeType}`);
+    }
+
+    const model = this.model;
+    const result = await this.appLog('image_description', { model, ...(request.purpose && { purpose: request.purpose }) }, async () => {
+      const message = await this.client.messages.create({
+        model,
+        max_tokens: 300,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image',
+                source: { type: 'base64', media_type: mediaType, data: Buffer.from(request.image).toString('base64') },
+              },
+              { type: 'text', text: request.prompt || DEFAULT_IMAGE_PROMPT },
+            ],
+          },
+        ],
+      });
+      return withLogContext(message, {
+        messageId: message.id,
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
       });
     });
 
-    const textContent = response.content.find((c) => c.type === 'text');
-    const content = textContent?.type === 'text' ? textContent.text : '';
-
     return {
-      content,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-      },
-      stopReason: response.stop_reason ?? undefined,
+      description: this.textOf(result).trim(),
+      usage: { inputTokens: result.usage.input_tokens, outputTokens: result.usage.output_tokens },
     };
   }
 
@@ -233,6 +319,7 @@ export const manifest: AIAppManifest = {
     completion: true,
     embedding: false,
     streaming: true,
+    vision: true,
   },
   createProvider: (config, context) => createAnthropicProvider(config as unknown as AnthropicConfig, context),
 };
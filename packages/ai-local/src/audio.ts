@@ -0,0 +1,138 @@
+/**
+ * Audio decoding for local speech recognition.
+ *
+ * Whisper expects mono 32-bit float samples at 16 kHz. WAV (PCM) input is
+ * decoded in-process; every other container (Ogg/Opus voice notes, AMR,
+ * MP3, M4A) goes through an `ffmpeg` binary on the PATH (or the configured
+ * path).
+ *
+ * @module ai-local/audio
+ */
+
+import { spawn } from 'node:child_process';
+
+/** Sample rate Whisper models are trained on */
+export const SAMPLE_RATE = 16_000;
+
+/**
+ * Decode an encoded audio file to mono 16 kHz float samples
+ */
+export async function decodeAudio(audio: Uint8Array, mimeType: string, ffmpegPath = 'ffmpeg'): Promise<Float32Array> {
+  if (isWav(audio, mimeType)) {
+    return decodeWav(audio);
+  }
+  return decodeWithFfmpeg(audio, ffmpegPath);
+}
+
+function isWav(audio: Uint8Array, mimeType: string): boolean {
+  if (/^audio\/(x-)?wav/.test(mimeType)) return true;
+  // RIFF....WAVE
+  return (
+    audio.length > 12 &&
+    String.fromCharCode(...audio.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...audio.subarray(8, 12)) === 'WAVE'
+  );
+}
+
+/**
+ * Decode 16-bit PCM WAV, mixing down to mono and resampling to 16 kHz
+ */
+export function decodeWav(audio: Uint8Array): Float32Array {
+  const view = new DataView(audio.buffer, audio.byteOffset, audio.byteLength);
+  let offset = 12;
+  let channels = 1;
+  let sampleRate = SAMPLE_RATE;
+  let bitsPerSample = 16;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = String.fromCharCode(...audio.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample}-bit); only 16-bit PCM is supported`);
+      }
+    } else if (id === 'data') {
+      const frameCount = Math.floor(Math.min(size, view.byteLength - body) / (channels * 2));
+      const mono = new Float32Array(frameCount);
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let ch = 0; ch < channels; ch++) {
+          sum += view.getInt16(body + (frame * channels + ch) * 2, true) / 32768;
+        }
+        mono[frame] = sum / channels;
+      }
+      return resample(mono, sampleRate);
+    }
+
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Linear-interpolation resample to 16 kHz
+ */
+function resample(samples: Float32Array, fromRate: number): Float32Array {
+  if (fromRate === SAMPLE_RATE) return samples;
+
+  const ratio = fromRate / SAMPLE_RATE;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const left = Math.floor(pos);
+    const right = Math.min(left + 1, samples.length - 1);
+    const frac = pos - left;
+    out[i] = (samples[left] ?? 0) * (1 - frac) + (samples[right] ?? 0) * frac;
+  }
+  return out;
+}
+
+/**
+ * Decode any ffmpeg-supported format to raw f32le mono 16 kHz
+ */
+function decodeWithFfmpeg(audio: Uint8Array, ffmpegPath: string): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(ffmpegPath, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-f', 'f32le',
+      '-ac', '1',
+      '-ar', String(SAMPLE_RATE),
+      'pipe:1',
+    ]);
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    proc.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    proc.on('error', (err) => {
+      reject(new Error(`ffmpeg is required to decode this audio format: ${err.message}`));
+    });
+    proc.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        return;
+      }
+      const pcm = Buffer.concat(chunks);
+      // Copy into an aligned buffer for the Float32Array view
+      const aligned = new Uint8Array(pcm.length - (pcm.length % 4));
+      aligned.set(pcm.subarray(0, aligned.length));
+      resolve(new Float32Array(aligned.buffer));
+    });
+
+    // ffmpeg may exit before reading all input (e.g. unknown format)
+    proc.stdin.on('error', () => {});
+    proc.stdin.end(Buffer.from(audio));
+  });
+}
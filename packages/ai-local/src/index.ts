@@ -2,7 +2,8 @@
  * Local AI Provider
  *
  * Built-in AI provider using Transformers.js for local inference.
- * Provides semantic embeddings and basic completion without external APIs.
+ * Provides semantic embeddings, basic completion and speech-to-text
+ * without external APIs.
  *
  * Always bundled as a workspace dependency (not optional) so the
  * zero-config local fallback is available on every install.
@@ -22,8 +23,11 @@ import type {
   EmbeddingResponse,
   ModelDownloadProgress,
   PluginContext,
+  TranscriptionRequest,
+  TranscriptionResponse,
 } from '@jackthebutler/shared';
 import { withLogContext } from '@jackthebutler/shared';
+import { decodeAudio, SAMPLE_RATE } from './audio.js';
 
 /**
  * Embedding model - small and fast, produces 384-dimensional vectors
@@ -36,6 +40,11 @@ const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
  */
 const COMPLETION_MODEL = 'onnx-community/Llama-3.2-1B-Instruct-ONNX';
 
+/**
+ * Speech recognition model - multilingual Whisper, small enough for CPU
+ */
+const TRANSCRIPTION_MODEL = 'Xenova/whisper-base';
+
 /**
  * Local provider configuration
  */
@@ -43,6 +52,9 @@ export interface LocalConfig {
   embeddingModel?: string;
   completionModel?: string;
   utilityModel?: string;
+  transcriptionModel?: string;
+  /** ffmpeg binary used to decode non-WAV audio (voice notes) */
+  ffmpegPath?: string;
   cacheDir?: string;
 }
 
@@ -74,11 +86,19 @@ interface TextGenerationPipeline {
   ): Promise<Array<{ generated_text: string }>>;
 }
 
+interface SpeechRecognitionPipeline {
+  (
+    audio: Float32Array,
+    options?: { language?: string; task?: string; chunk_length_s?: number; stride_length_s?: number }
+  ): Promise<{ text: string }>;
+}
+
 /**
  * Local AI Provider implementation using Transformers.js v3
  *
  * Features:
  * - Semantic embeddings using all-MiniLM-L6-v2 (~80MB)
+ * - Speech-to-text using Whisper base (~150MB, multilingual)
  * - Multiple completion model options:
  *   - Llama 3.2 1B (~1.2GB, 128K context) - Default
  *   - Gemma 3 1B (~1GB, Google)
@@ -98,8 +118,11 @@ export class LocalAIProvider implements AIProvider, BaseProvider {
   private embeddingModel: string;
   private completionModel: string;
   private utilityModel: string;
+  private transcriptionModel: string;
+  private ffmpegPath: string;
   private embeddingPipeline: FeatureExtractionPipeline | null = null;
   private completionPipelines = new Map<string, TextGenerationPipeline>();
+  private transcriptionPipeline: Promise<SpeechRecognitionPipeline> | null = null;
   private loadingPipelines = new Set<string>();
   private isLoadingEmbedding = false;
 
@@ -109,6 +132,8 @@ export class LocalAIProvider implements AIProvider, BaseProvider {
     this.embeddingModel = config.embeddingModel || EMBEDDING_MODEL;
     this.completionModel = config.completionModel || COMPLETION_MODEL;
     this.utilityModel = config.utilityModel || this.completionModel;
+    this.transcriptionModel = config.transcriptionModel || TRANSCRIPTION_MODEL;
+    this.ffmpegPath = config.ffmpegPath || 'ffmpeg';
   }
 
   private readonly emitModelProgress: PluginContext['emitModelProgress'];
@@ -223,6 +248,55 @@ export class LocalAIProvider implements AIProvider, BaseProvider {
     }
   }
 
+  /**
+   * Get or create the speech recognition pipeline (lazy loaded, shared
+   * between concurrent callers)
+   */
+  private getTranscriptionPipeline(): Promise<SpeechRecognitionPipeline> {
+    if (!this.transcriptionPipeline) {
+      this.transcriptionPipeline = getTransformers()
+        .then(({ pipeline }) =>
+          pipeline('automatic-speech-recognition', this.transcriptionModel, {
+            progress_callback: this.progressCallbackFor(this.transcriptionModel),
+          })
+        )
+        .then((p) => p as unknown as SpeechRecognitionPipeline)
+        .catch((err: unknown) => {
+          // Allow a retry on the next call (e.g. after a failed download)
+          this.transcriptionPipeline = null;
+          throw err;
+        });
+    }
+    return this.transcriptionPipeline;
+  }
+
+  /**
+   * Transcribe speech (e.g. a guest voice note) with local Whisper
+   */
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    return this.appLog(
+      'transcription',
+      { model: this.transcriptionModel, mimeType: request.mimeType, ...(request.purpose && { purpose: request.purpose }) },
+      async () => {
+        const samples = await decodeAudio(request.audio, request.mimeType, this.ffmpegPath);
+        const transcriber = await this.getTranscriptionPipeline();
+
+        const output = await transcriber(samples, {
+          task: 'transcribe',
+          chunk_length_s: 30,
+          stride_length_s: 5,
+          ...(request.language && { language: request.language }),
+        });
+
+        const text = output.text.trim();
+        return withLogContext({ text }, {
+          durationSeconds: Math.round(samples.length / SAMPLE_RATE),
+          textLength: text.length,
+        });
+      }
+    );
+  }
+
   /**
    * Generate embeddings using local transformer model
    */
@@ -375,7 +449,7 @@ export const manifest: AIAppManifest = {
   name: 'Local AI',
   category: 'ai',
   version: '2.0.0',
-  description: 'Run AI locally with Transformers.js - embeddings and completion without external APIs',
+  description: 'Run AI locally with Transformers.js - embeddings, completion and voice transcription without external APIs',
   icon: 'brain',
   configSchema: [
     {
@@ -417,11 +491,32 @@ export const manifest: AIAppManifest = {
         { value: 'onnx-community/gemma-3-1b-it-ONNX', label: 'Gemma 3 1B (1GB, Google)' },
       ],
     },
+    {
+      key: 'transcriptionModel',
+      label: 'Transcription Model',
+      type: 'select',
+      required: false,
+      description: 'Speech-to-text model for guest voice notes',
+      default: TRANSCRIPTION_MODEL,
+      options: [
+        { value: 'Xenova/whisper-tiny', label: 'Whisper Tiny (75MB, Fastest)' },
+        { value: 'Xenova/whisper-base', label: 'Whisper Base (150MB, Recommended)' },
+        { value: 'Xenova/whisper-small', label: 'Whisper Small (480MB, Best Quality)' },
+      ],
+    },
+    {
+      key: 'ffmpegPath',
+      label: 'ffmpeg Path',
+      type: 'text',
+      required: false,
+      description: 'ffmpeg binary for decoding voice notes (Ogg/Opus, AMR, MP3). Defaults to ffmpeg on the PATH.',
+    },
   ],
   capabilities: {
     completion: true,
     embedding: true,
     streaming: false,
+    transcription: true,
   },
   createProvider: (config, context) => createLocalProvider(config as unknown as LocalConfig, context),
 };
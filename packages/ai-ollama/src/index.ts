@@ -169,6 +169,79 @@ export class OllamaProvider implements AIProvider, BaseProvider {
     };
   }
 
+  /**
+   * Generate a completion using Ollama, emitting text deltas as they arrive.
+   * Ollama streams newline-delimited JSON; the final line carries token counts.
+   */
+  async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse> {
+    const model = request.modelTier === 'utility' ? this.utilityModel : this.model;
+
+    const eventType = request.purpose ? `completion.${request.purpose}` : 'completion';
+    const data = await this.appLog(eventType, { model, streamed: true, ...(request.purpose && { purpose: request.purpose }) }, async () => {
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: request.messages.map(({ role, content }) => ({ role, content })),
+          stream: true,
+          options: {
+            num_predict: request.maxTokens || 1024,
+            temperature: request.temperature || 0.7,
+            stop: request.stopSequences,
+          },
+        }),
+      });
+      if (!response.ok || !response.body) {
+        throw new AppLogError(`Ollama API error: ${response.status} ${response.statusText}`, { httpStatus: response.status });
+      }
+
+      let content = '';
+      let last: OllamaChatResponse | undefined;
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const chunk = JSON.parse(line) as OllamaChatResponse;
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        last = chunk;
+      };
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffered + decoder.decode());
+
+      const text = content.trim();
+      const onCompleteContext = request.onComplete?.(text) ?? {};
+      const result = { text, done: last?.done ?? false, prompt_eval_count: last?.prompt_eval_count, eval_count: last?.eval_count };
+      return withLogContext(result, {
+        promptTokens: result.prompt_eval_count,
+        completionTokens: result.eval_count,
+        ...onCompleteContext,
+      });
+    });
+
+    return {
+      content: data.text,
+      usage: {
+        inputTokens: data.prompt_eval_count || 0,
+        outputTokens: data.eval_count || 0,
+      },
+      stopReason: data.done ? 'end_turn' : undefined,
+    };
+  }
+
   /**
    * Generate embeddings using Ollama
    */
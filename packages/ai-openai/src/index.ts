@@ -1,7 +1,7 @@
 /**
  * OpenAI Provider Extension
  *
- * OpenAI API integration for AI completions and embeddings.
+ * OpenAI API integration for AI completions, embeddings and image descriptions.
  *
  * @module extensions/ai/providers/openai
  */
@@ -17,6 +17,8 @@ import type {
   ConnectionTestResult,
   EmbeddingRequest,
   EmbeddingResponse,
+  ImageDescriptionRequest,
+  ImageDescriptionResponse,
   PluginContext,
 } from '@jackthebutler/shared';
 import { withLogContext } from '@jackthebutler/shared';
@@ -27,6 +29,11 @@ import { withLogContext } from '@jackthebutler/shared';
 const DEFAULT_MODEL = 'gpt-4o';
 const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
 
+/**
+ * Prompt used when an image description request doesn't supply one
+ */
+const DEFAULT_IMAGE_PROMPT = 'Describe this image in one or two plain sentences.';
+
 /**
  * OpenAI provider configuration
  */
@@ -109,27 +116,11 @@ export class OpenAIProvider implements AIProvider, BaseProvider {
    * Generate a completion using OpenAI
    */
   async complete(request: CompletionRequest): Promise<CompletionResponse> {
-    const model = request.modelTier === 'utility' ? this.utilityModel : this.model;
-
-    const createParams: OpenAI.ChatCompletionCreateParamsNonStreaming = {
-      model,
-      max_tokens: request.maxTokens || this.maxTokens,
-      messages: request.messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-    };
-
-    if (request.temperature !== undefined) {
-      createParams.temperature = request.temperature;
-    }
-    if (request.stopSequences && request.stopSequences.length > 0) {
-      createParams.stop = request.stopSequences;
-    }
+    const { model, params } = this.buildParams(request);
 
     const eventType = request.purpose ? `completion.${request.purpose}` : 'completion';
     const response = await this.appLog(eventType, { model, ...(request.purpose && { purpose: request.purpose }) }, async () => {
-      const result = await this.client.chat.completions.create(createParams);
+      const result = await this.client.chat.completions.create(params);
       const text = result.choices[0]?.message?.content || '';
       const onCompleteContext = request.onComplete?.(text) ?? {};
       return withLogContext(result, {
@@ -154,6 +145,118 @@ export class OpenAIProvider implements AIProvider, BaseProvider {
     };
   }
 
+  /**
+   * Describe an image with the completion model (must be vision-capable, e.g. gpt-4o)
+   */
+  async describeImage(request: ImageDescriptionRequest): Promise<ImageDescriptionResponse> {
+    const model = this.model;
+    const dataUrl = `data:${request.mimeType};base64,${Buffer.from(request.image).toString('base64')}`;
+
+    const result = await this.appLog('image_description', { model, ...(request.purpose && { purpose: request.purpose }) }, async () => {
+      const completion = await this.client.chat.completions.create({
+        model,
+        max_tokens: 300,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt || DEFAULT_IMAGE_PROMPT },
+              { type: 'image_url', image_url: { url: dataUrl } },
+            ],
+          },
+        ],
+      });
+      return withLogContext(completion, {
+        messageId: completion.id,
+        inputTokens: completion.usage?.prompt_tokens,
+        outputTokens: completion.usage?.completion_tokens,
+      });
+    });
+
+    return {
+      description: (result.choices[0]?.message?.content || '').trim(),
+      usage: {
+        inputTokens: result.usage?.prompt_tokens || 0,
+        outputTokens: result.usage?.completion_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Generate a completion using OpenAI, emitting text deltas as they arrive
+   */
+  async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse> {
+    const { model, params } = this.buildParams(request);
+
+    const eventType = request.purpose ? `completion.${request.purpose}` : 'completion';
+    return this.appLog(eventType, { model, streamed: true, ...(request.purpose && { purpose: request.purpose }) }, async () => {
+      const stream = await this.client.chat.completions.create({
+        ...params,
+        stream: true,
+        // Usage arrives in a final chunk with an empty `choices` array
+        stream_options: { include_usage: true },
+      });
+
+      let content = '';
+      let messageId: string | undefined;
+      let finishReason: string | undefined;
+      let usage: OpenAI.CompletionUsage | undefined;
+      for await (const chunk of stream) {
+        messageId ??= chunk.id;
+        const choice = chunk.choices[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        if (chunk.usage) usage = chunk.usage;
+      }
+
+      const onCompleteContext = request.onComplete?.(content) ?? {};
+      const result: CompletionResponse = {
+        content,
+        usage: {
+          inputTokens: usage?.prompt_tokens || 0,
+          outputTokens: usage?.completion_tokens || 0,
+        },
+        stopReason: finishReason,
+      };
+      return withLogContext(result, {
+        messageId,
+        inputTokens: usage?.prompt_tokens,
+        outputTokens: usage?.completion_tokens,
+        finishReason,
+        ...onCompleteContext,
+      });
+    });
+  }
+
+  /**
+   * Map a completion request onto Chat Completions params
+   */
+  private buildParams(request: CompletionRequest): { model: string; params: OpenAI.ChatCompletionCreateParamsNonStreaming } {
+    const model = request.modelTier === 'utility' ? this.utilityModel : this.model;
+
+    const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+      model,
+      max_tokens: request.maxTokens || this.maxTokens,
+      messages: request.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+    };
+
+    if (request.temperature !== undefined) {
+      params.temperature = request.temperature;
+    }
+    if (request.stopSequences && request.stopSequences.length > 0) {
+      params.stop = request.stopSequences;
+    }
+
+    return { model, params };
+  }
+
   /**
    * Generate embeddings using OpenAI
    */
@@ -264,6 +367,7 @@ export const manifest: AIAppManifest = {
     completion: true,
     embedding: true,
     streaming: true,
+    vision: true,
   },
   createProvider: (config, context) => createOpenAIProvider(config as unknown as OpenAIConfig, context),
 };
@@ -116,12 +116,16 @@ export class GmailSMTPProvider implements BaseProvider, ChannelAdapter {
   async send(message: OutboundMessage): Promise<SendResult> {
     const subject = (message.metadata?.subject as string) ?? '(no subject)';
     const html = message.metadata?.html as string | undefined;
+    const inReplyTo = message.metadata?.inReplyTo as string | undefined;
+    const references = message.metadata?.references as string[] | undefined;
     try {
       const result = await this.sendEmail({
         to: message.channelId,
         subject,
         text: message.content,
         ...(html !== undefined && { html }),
+        ...(inReplyTo !== undefined && { inReplyTo }),
+        ...(references !== undefined && { references }),
       });
       return { channelMessageId: result.messageId, status: 'sent' };
     } catch (error) {
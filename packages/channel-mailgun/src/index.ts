@@ -144,12 +144,16 @@ export class MailgunProvider implements BaseProvider, ChannelAdapter {
   async send(message: OutboundMessage): Promise<SendResult> {
     const subject = (message.metadata?.subject as string) ?? '(no subject)';
     const html = message.metadata?.html as string | undefined;
+    const inReplyTo = message.metadata?.inReplyTo as string | undefined;
+    const references = message.metadata?.references as string[] | undefined;
     try {
       const result = await this.sendEmail({
         to: message.channelId,
         subject,
         text: message.content,
         ...(html !== undefined && { html }),
+        ...(inReplyTo !== undefined && { inReplyTo }),
+        ...(references !== undefined && { references }),
       });
       return { channelMessageId: result.messageId, status: 'sent' };
     } catch (error) {
@@ -179,9 +183,9 @@ export const manifest: ChannelAppManifest = {
     { key: 'fromAddress', label: 'From Address', type: 'text', required: true, description: 'Email address to send from', placeholder: 'concierge@grandhotel.com' },
     { key: 'fromName', label: 'From Name', type: 'text', required: false, description: 'Display name for outgoing emails', default: 'Hotel Concierge' },
     { key: 'region', label: 'Region', type: 'select', required: false, description: 'Mailgun data center region', options: [{ value: 'us', label: 'US (default)' }, { value: 'eu', label: 'EU' }], default: 'us' },
-    { key: 'webhookSigningKey', label: 'Webhook Signing Key', type: 'password', required: false, description: 'Key for verifying inbound email webhooks (optional)' },
+    { key: 'webhookSigningKey', label: 'Webhook Signing Key', type: 'password', required: false, description: 'Key for verifying inbound email forwarded to /webhooks/email/mailgun (optional)' },
   ],
-  features: { inbound: false, outbound: true, templates: false },
+  features: { inbound: true, outbound: true, templates: false },
   createAdapter: (config, context) => createMailgunProvider(config as unknown as MailgunConfig, context),
 };
 
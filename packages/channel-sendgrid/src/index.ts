@@ -21,6 +21,7 @@ export interface SendGridConfig {
   apiKey: string;
   fromAddress: string;
   fromName?: string;
+  inboundToken?: string;
 }
 
 export interface SendGridSendOptions {
@@ -117,12 +118,16 @@ export class SendGridProvider implements BaseProvider, ChannelAdapter {
   async send(message: OutboundMessage): Promise<SendResult> {
     const subject = (message.metadata?.subject as string) ?? '(no subject)';
     const html = message.metadata?.html as string | undefined;
+    const inReplyTo = message.metadata?.inReplyTo as string | undefined;
+    const references = message.metadata?.references as string[] | undefined;
     try {
       const result = await this.sendEmail({
         to: message.channelId,
         subject,
         text: message.content,
         ...(html !== undefined && { html }),
+        ...(inReplyTo !== undefined && { inReplyTo }),
+        ...(references !== undefined && { references }),
       });
       return { channelMessageId: result.messageId, status: 'sent' };
     } catch (error) {
@@ -149,8 +154,9 @@ export const manifest: ChannelAppManifest = {
     { key: 'apiKey', label: 'API Key', type: 'password', required: true, description: 'SendGrid API key from your dashboard', placeholder: 'SG.xxxxxxxxxxxxxxxx' },
     { key: 'fromAddress', label: 'From Address', type: 'text', required: true, description: 'Email address to send from (must be verified)', placeholder: 'concierge@grandhotel.com' },
     { key: 'fromName', label: 'From Name', type: 'text', required: false, description: 'Display name for outgoing emails', default: 'Hotel Concierge' },
+    { key: 'inboundToken', label: 'Inbound Parse Token', type: 'password', required: false, description: 'Shared secret for the Inbound Parse webhook; append ?token=<value> to /webhooks/email/sendgrid (optional)' },
   ],
-  features: { inbound: false, outbound: true, templates: false },
+  features: { inbound: true, outbound: true, templates: false },
   createAdapter: (config, context) => createSendGridProvider(config as unknown as SendGridConfig, context),
 };
 
@@ -1,7 +1,8 @@
 /**
  * SMTP Email Provider Extension
  *
- * Direct SMTP email integration for guest communication.
+ * Direct SMTP email integration for guest communication. Inbound mail is
+ * read over IMAP (optional) and polled by the Butler scheduler.
  *
  * @module extensions/channels/email/smtp
  */
@@ -9,6 +10,8 @@
 import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
 import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import { ImapFlow } from 'imapflow';
+import { simpleParser, type AddressObject } from 'mailparser';
 import type {
   ChannelAdapter,
   ChannelAppManifest,
@@ -18,9 +21,13 @@ import type {
   PluginContext,
   OutboundMessage,
   SendResult,
+  InboundEmail,
 } from '@jackthebutler/shared';
 import { withLogContext } from '@jackthebutler/shared';
 
+/** Upper bound on messages pulled per IMAP poll */
+const IMAP_FETCH_LIMIT = 50;
+
 export interface SMTPConfig {
   smtpHost: string;
   smtpPort: number;
@@ -29,6 +36,21 @@ export interface SMTPConfig {
   smtpSecure?: boolean;
   fromAddress: string;
   fromName?: string;
+  imapHost?: string;
+  imapPort?: number;
+  imapSecure?: boolean;
+  imapUser?: string;
+  imapPass?: string;
+  imapMailbox?: string;
+}
+
+interface IMAPSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string | undefined;
+  mailbox: string;
 }
 
 export interface SendEmailOptions {
@@ -40,6 +62,12 @@ export interface SendEmailOptions {
   references?: string[];
 }
 
+/** A message read from the IMAP mailbox; its UID is passed to `markSeen` once handled */
+export interface IMAPInboundEmail {
+  uid: number;
+  email: InboundEmail;
+}
+
 export interface SendEmailResult {
   messageId: string;
   accepted: string[];
@@ -53,6 +81,7 @@ export class SMTPProvider implements BaseProvider, ChannelAdapter {
   private fromAddress: string;
   private fromName: string;
   private smtpHost: string;
+  private imap: IMAPSettings | null;
   readonly appLog: AppLogger;
 
   constructor(config: SMTPConfig, context: PluginContext) {
@@ -74,6 +103,18 @@ export class SMTPProvider implements BaseProvider, ChannelAdapter {
     this.fromName = config.fromName || 'Hotel Concierge';
     this.smtpHost = config.smtpHost;
 
+    const imapUser = config.imapUser || config.smtpUser;
+    this.imap = config.imapHost && imapUser
+      ? {
+          host: config.imapHost,
+          port: config.imapPort || 993,
+          secure: config.imapSecure ?? true,
+          user: imapUser,
+          pass: config.imapPass || config.smtpPass,
+          mailbox: config.imapMailbox || 'INBOX',
+        }
+      : null;
+
     console.info(`SMTP provider initialized: fromAddress=${this.fromAddress} smtpHost=${this.smtpHost}`);
   }
 
@@ -137,12 +178,16 @@ export class SMTPProvider implements BaseProvider, ChannelAdapter {
   async send(message: OutboundMessage): Promise<SendResult> {
     const subject = (message.metadata?.subject as string) ?? '(no subject)';
     const html = message.metadata?.html as string | undefined;
+    const inReplyTo = message.metadata?.inReplyTo as string | undefined;
+    const references = message.metadata?.references as string[] | undefined;
     try {
       const result = await this.sendEmail({
         to: message.channelId,
         subject,
         text: message.content,
         ...(html !== undefined && { html }),
+        ...(inReplyTo !== undefined && { inReplyTo }),
+        ...(references !== undefined && { references }),
       });
       return { channelMessageId: result.messageId, status: 'sent' };
     } catch (error) {
@@ -150,10 +195,105 @@ export class SMTPProvider implements BaseProvider, ChannelAdapter {
     }
   }
 
+  /**
+   * True when IMAP settings are configured and inbound polling is possible
+   */
+  hasInbound(): boolean { return this.imap !== null; }
+
+  /**
+   * Fetch unseen messages from the IMAP mailbox, normalized. Fetching does
+   * not mark them seen: the caller marks each one with `markSeen` after it
+   * has been processed, so a crash mid-poll leaves the rest for the next one.
+   */
+  async fetchInbound(): Promise<IMAPInboundEmail[]> {
+    const imap = this.imap;
+    if (!imap) return [];
+
+    return this.appLog('imap_fetch', { imapHost: imap.host, mailbox: imap.mailbox }, async () => {
+      const emails: IMAPInboundEmail[] = [];
+      await this.withMailbox(imap, async (client) => {
+        const found = await client.search({ seen: false }, { uid: true });
+        const uids = (found || []).slice(0, IMAP_FETCH_LIMIT);
+        if (uids.length === 0) return;
+
+        for await (const msg of client.fetch(uids, { source: true }, { uid: true })) {
+          if (!msg.source) continue;
+          emails.push({ uid: msg.uid, email: await parseRawEmail(msg.source) });
+        }
+      });
+      return withLogContext(emails, { fetched: emails.length });
+    });
+  }
+
+  /**
+   * Flag a fetched message \Seen so later polls skip it
+   */
+  async markSeen(uid: number): Promise<void> {
+    const imap = this.imap;
+    if (!imap) return;
+
+    await this.withMailbox(imap, async (client) => {
+      await client.messageFlagsAdd([uid], ['\\Seen'], { uid: true });
+    });
+  }
+
+  private async withMailbox(imap: IMAPSettings, fn: (client: ImapFlow) => Promise<void>): Promise<void> {
+    const client = new ImapFlow({
+      host: imap.host,
+      port: imap.port,
+      secure: imap.secure,
+      auth: { user: imap.user, ...(imap.pass !== undefined && { pass: imap.pass }) },
+      logger: false,
+    });
+
+    await client.connect();
+    try {
+      const lock = await client.getMailboxLock(imap.mailbox);
+      try {
+        await fn(client);
+      } finally {
+        lock.release();
+      }
+    } finally {
+      await client.logout().catch(() => undefined);
+    }
+  }
+
   getFromAddress(): string { return this.fromAddress; }
   close(): void { this.transporter.close(); }
 }
 
+function firstAddressText(value: AddressObject | AddressObject[] | undefined): string {
+  const obj = Array.isArray(value) ? value[0] : value;
+  return obj?.text ?? '';
+}
+
+/**
+ * Parse an RFC 822 message into the shared InboundEmail shape
+ */
+export async function parseRawEmail(source: Buffer | string): Promise<InboundEmail> {
+  const parsed = await simpleParser(source);
+  const headers: Record<string, string> = {};
+  for (const line of parsed.headerLines) {
+    if (!(line.key in headers)) {
+      headers[line.key] = line.line.slice(line.line.indexOf(':') + 1).trim();
+    }
+  }
+  const references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references;
+  return {
+    from: firstAddressText(parsed.from),
+    to: firstAddressText(parsed.to),
+    subject: parsed.subject ?? '',
+    text: parsed.text ?? '',
+    html: parsed.html || undefined,
+    messageId: parsed.messageId,
+    inReplyTo: parsed.inReplyTo,
+    references,
+    headers,
+    receivedAt: parsed.date,
+  };
+}
+
 export function createSMTPProvider(config: SMTPConfig, context: PluginContext): SMTPProvider {
   return new SMTPProvider(config, context);
 }
@@ -174,8 +314,14 @@ export const manifest: ChannelAppManifest = {
     { key: 'smtpPass', label: 'Password', type: 'password', required: false, description: 'SMTP authentication password' },
     { key: 'fromAddress', label: 'From Address', type: 'text', required: true, description: 'Email address to send from', placeholder: 'concierge@hotel.com' },
     { key: 'fromName', label: 'From Name', type: 'text', required: false, description: 'Display name for outgoing emails', default: 'Hotel Concierge' },
+    { key: 'imapHost', label: 'IMAP Host', type: 'text', required: false, description: 'IMAP server for receiving guest replies (leave empty to disable inbound)', placeholder: 'imap.example.com' },
+    { key: 'imapPort', label: 'IMAP Port', type: 'number', required: false, description: 'IMAP server port', default: 993 },
+    { key: 'imapSecure', label: 'IMAP TLS', type: 'boolean', required: false, description: 'Use implicit TLS for IMAP (port 993)', default: true },
+    { key: 'imapUser', label: 'IMAP Username', type: 'text', required: false, description: 'Defaults to the SMTP username' },
+    { key: 'imapPass', label: 'IMAP Password', type: 'password', required: false, description: 'Defaults to the SMTP password' },
+    { key: 'imapMailbox', label: 'IMAP Mailbox', type: 'text', required: false, description: 'Mailbox to poll for replies', default: 'INBOX' },
   ],
-  features: { inbound: false, outbound: true, templates: true },
+  features: { inbound: true, outbound: true, templates: true },
   createAdapter: (config, context) => createSMTPProvider(config as unknown as SMTPConfig, context),
 };
 
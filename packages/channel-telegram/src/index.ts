@@ -12,6 +12,7 @@ import type {
   AppLogger,
   BaseProvider,
   ConnectionTestResult,
+  DownloadedMedia,
   InboundMessage,
   OutboundMessage,
   PluginContext,
@@ -243,12 +244,36 @@ export class TelegramProvider implements BaseProvider {
     return result;
   }
 
+  /**
+   * Download a file sent to the bot (photo, voice note, audio).
+   * Telegram serves files as application/octet-stream, so the MIME type from
+   * the message (e.g. `voice.mime_type`) should be passed in when known.
+   */
+  async downloadFile(fileId: string, mimeType?: string): Promise<DownloadedMedia> {
+    return this.appLog('download_file', { fileId }, async () => {
+      const infoRes = await fetch(`${this.baseUrl}/getFile?file_id=${encodeURIComponent(fileId)}`);
+      const info = (await infoRes.json()) as { ok: true; result: { file_path?: string } } | APIError;
+      if (!infoRes.ok || !info.ok || !info.result.file_path) {
+        const description = info.ok ? 'no file path returned' : info.description;
+        throw new AppLogError(`Telegram getFile failed: ${description}`, { httpStatus: infoRes.status });
+      }
+
+      const res = await fetch(`${TELEGRAM_API_BASE}/file/bot${this.botToken}/${info.result.file_path}`);
+      if (!res.ok) {
+        throw new AppLogError(`Telegram file download failed: HTTP ${res.status}`, { httpStatus: res.status });
+      }
+      const data = new Uint8Array(await res.arrayBuffer());
+      const type = mimeType ?? res.headers.get('content-type') ?? 'application/octet-stream';
+      return withLogContext({ data, mimeType: type }, { httpStatus: res.status, mimeType: type, size: data.byteLength });
+    });
+  }
+
   /**
    * Send a message via the ChannelAdapter interface
    */
   async send(message: OutboundMessage): Promise<SendResult> {
-    await this.sendText(message.channelId, message.content);
-    return { status: 'sent' };
+    const result = await this.sendText(message.channelId, message.content);
+    return { status: 'sent', channelMessageId: String(result.result.message_id) };
   }
 
   /**
@@ -13,12 +13,13 @@ import type {
   AppLogger,
   BaseProvider,
   ConnectionTestResult,
+  DownloadedMedia,
   InboundMessage,
   OutboundMessage,
   PluginContext,
   SendResult,
 } from '@jackthebutler/shared';
-import { withLogContext } from '@jackthebutler/shared';
+import { withLogContext, AppLogError } from '@jackthebutler/shared';
 
 /**
  * Twilio provider configuration
@@ -38,6 +39,7 @@ export class TwilioProvider implements BaseProvider {
   private client: twilio.Twilio;
   private phoneNumber: string;
   private accountSid: string;
+  private authToken: string;
   readonly appLog: AppLogger;
 
   constructor(config: TwilioConfig, context: PluginContext) {
@@ -49,6 +51,7 @@ export class TwilioProvider implements BaseProvider {
     this.client = twilio(config.accountSid, config.authToken);
     this.phoneNumber = config.phoneNumber;
     this.accountSid = config.accountSid;
+    this.authToken = config.authToken;
 
     console.info(`Twilio provider initialized: from=${this.phoneNumber}`);
   }
@@ -120,12 +123,33 @@ export class TwilioProvider implements BaseProvider {
     return message;
   }
 
+  /**
+   * Download an MMS attachment (a `MediaUrlN` webhook field).
+   * Only Twilio API URLs are fetched, since the request carries the account credentials.
+   */
+  async downloadMedia(url: string): Promise<DownloadedMedia> {
+    if (new URL(url).hostname !== 'api.twilio.com') {
+      throw new Error(`Refusing to download media from non-Twilio URL: ${url}`);
+    }
+
+    return this.appLog('download_media', { url }, async () => {
+      const credentials = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64');
+      const res = await fetch(url, { headers: { Authorization: `Basic ${credentials}` } });
+      if (!res.ok) {
+        throw new AppLogError(`Twilio media download failed: HTTP ${res.status}`, { httpStatus: res.status });
+      }
+      const data = new Uint8Array(await res.arrayBuffer());
+      const mimeType = res.headers.get('content-type') ?? 'application/octet-stream';
+      return withLogContext({ data, mimeType }, { httpStatus: res.status, mimeType, size: data.byteLength });
+    });
+  }
+
   /**
    * Send a message via the ChannelAdapter interface
    */
   async send(message: OutboundMessage): Promise<SendResult> {
-    await this.sendMessage(message.channelId, message.content);
-    return { status: 'sent' };
+    const result = await this.sendMessage(message.channelId, message.content);
+    return { status: 'sent', channelMessageId: result.sid };
   }
 
   /**
@@ -12,10 +12,13 @@ import type {
   AppLogger,
   BaseProvider,
   ConnectionTestResult,
+  DownloadedMedia,
   InboundMessage,
+  MessageTemplate,
   OutboundMessage,
   PluginContext,
   SendResult,
+  TemplateMessage,
 } from '@jackthebutler/shared';
 import { withLogContext, AppLogError } from '@jackthebutler/shared';
 
@@ -30,6 +33,8 @@ export interface MetaWhatsAppConfig {
   phoneNumberId: string;
   verifyToken?: string;
   appSecret?: string;
+  /** WhatsApp Business Account ID, needed to list message templates */
+  businessAccountId?: string;
 }
 
 /**
@@ -65,6 +70,20 @@ export interface SendMessageResponse {
   }>;
 }
 
+/**
+ * Message template as returned by the Business Management API
+ */
+interface TemplateListResponse {
+  data: Array<{
+    name: string;
+    language: string;
+    status: string;
+    category: string;
+    components?: Array<{ type: string; text?: string }>;
+  }>;
+  paging?: { next?: string };
+}
+
 /**
  * API error response
  */
@@ -88,6 +107,7 @@ export class MetaWhatsAppProvider implements BaseProvider {
   private baseUrl: string;
   private verifyToken: string | undefined;
   private appSecret: string | undefined;
+  private businessAccountId: string | undefined;
   readonly appLog: AppLogger;
 
   constructor(config: MetaWhatsAppConfig, context: PluginContext) {
@@ -101,6 +121,7 @@ export class MetaWhatsAppProvider implements BaseProvider {
     this.baseUrl = `${GRAPH_API_BASE}/${GRAPH_API_VERSION}/${this.phoneNumberId}`;
     this.verifyToken = config.verifyToken;
     this.appSecret = config.appSecret;
+    this.businessAccountId = config.businessAccountId || undefined;
 
     console.info(`Meta WhatsApp provider initialized: phoneNumberId=${this.phoneNumberId}`);
   }
@@ -214,6 +235,72 @@ export class MetaWhatsAppProvider implements BaseProvider {
     });
   }
 
+  /**
+   * Send an approved template with its body variables filled in. Templates
+   * are the only messages Meta accepts outside the 24-hour customer service
+   * window.
+   */
+  async sendTemplate(to: string, template: TemplateMessage): Promise<SendMessageResponse> {
+    return this.sendMessage({
+      to,
+      type: 'template',
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components:
+          template.parameters.length > 0
+            ? [{ type: 'body', parameters: template.parameters.map((text) => ({ type: 'text', text })) }]
+            : [],
+      },
+    });
+  }
+
+  /**
+   * List the business account's message templates (all statuses)
+   */
+  async listTemplates(): Promise<MessageTemplate[]> {
+    if (!this.businessAccountId) {
+      throw new Error('Set the WhatsApp Business Account ID to sync message templates');
+    }
+
+    const templates: MessageTemplate[] = [];
+    let url: string | undefined =
+      `${GRAPH_API_BASE}/${GRAPH_API_VERSION}/${this.businessAccountId}/message_templates` +
+      '?fields=name,language,status,category,components&limit=100';
+
+    while (url) {
+      const page: TemplateListResponse = await this.appLog('list_templates', {}, async () => {
+        const res = await fetch(url!, { headers: { Authorization: `Bearer ${this.accessToken}` } });
+        const json = await res.json();
+        if (!res.ok) {
+          const error = json as APIError;
+          throw new AppLogError(`WhatsApp API error: ${error.error.message}`, {
+            httpStatus: res.status,
+            errorCode: error.error.code,
+          });
+        }
+        const typed = json as TemplateListResponse;
+        return withLogContext(typed, { httpStatus: res.status, count: typed.data.length });
+      });
+
+      for (const template of page.data) {
+        const body = template.components?.find((c) => c.type === 'BODY')?.text ?? '';
+        const placeholders = new Set(body.match(/\{\{\d+\}\}/g) ?? []);
+        templates.push({
+          name: template.name,
+          language: template.language,
+          category: template.category,
+          status: template.status,
+          body,
+          parameterCount: placeholders.size,
+        });
+      }
+      url = page.paging?.next;
+    }
+
+    return templates;
+  }
+
   /**
    * Mark a message as read
    */
@@ -237,11 +324,40 @@ export class MetaWhatsAppProvider implements BaseProvider {
   }
 
   /**
-   * Send a message via the ChannelAdapter interface
+   * Download an inbound media file (image, audio, voice note).
+   * The media ID resolves to a short-lived URL, which also requires the access token.
+   */
+  async downloadMedia(mediaId: string): Promise<DownloadedMedia> {
+    return this.appLog('download_media', { mediaId }, async () => {
+      const metaRes = await fetch(`${GRAPH_API_BASE}/${GRAPH_API_VERSION}/${mediaId}`, {
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+      });
+      const meta = (await metaRes.json()) as { url?: string; mime_type?: string } | APIError;
+      if (!metaRes.ok || !('url' in meta) || !meta.url) {
+        const message = 'error' in meta ? meta.error.message : 'no media URL returned';
+        throw new AppLogError(`WhatsApp media lookup failed: ${message}`, { httpStatus: metaRes.status });
+      }
+
+      const res = await fetch(meta.url, { headers: { Authorization: `Bearer ${this.accessToken}` } });
+      if (!res.ok) {
+        throw new AppLogError(`WhatsApp media download failed: HTTP ${res.status}`, { httpStatus: res.status });
+      }
+      const data = new Uint8Array(await res.arrayBuffer());
+      const mimeType = meta.mime_type ?? res.headers.get('content-type') ?? 'application/octet-stream';
+      return withLogContext({ data, mimeType }, { httpStatus: res.status, mimeType, size: data.byteLength });
+    });
+  }
+
+  /**
+   * Send a message via the ChannelAdapter interface. With `metadata.template`
+   * the approved template is sent instead of the text.
    */
   async send(message: OutboundMessage): Promise<SendResult> {
-    await this.sendText(message.channelId, message.content);
-    return { status: 'sent' };
+    const template = message.metadata?.template as TemplateMessage | undefined;
+    const result = template
+      ? await this.sendTemplate(message.channelId, template)
+      : await this.sendText(message.channelId, message.content);
+    return { status: 'sent', channelMessageId: result.messages?.[0]?.id };
   }
 
   /**
@@ -364,6 +480,14 @@ export const manifest: ChannelAppManifest = {
       required: false,
       description: 'App secret for signature verification',
     },
+    {
+      key: 'businessAccountId',
+      label: 'Business Account ID',
+      type: 'text',
+      required: false,
+      description: 'WhatsApp Business Account ID, used to sync approved message templates',
+      placeholder: '102290129340398',
+    },
   ],
   features: {
     inbound: true,
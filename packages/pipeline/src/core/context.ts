@@ -33,6 +33,14 @@ export interface MessageContext {
    */
   readonly startTime: number;
 
+  /**
+   * Receives partial response text while `generateResponse` streams, when
+   * the caller passed one to `pipeline.process()`. Only called when the
+   * reply goes out untranslated — a translated reply can't be shown
+   * before it's complete.
+   */
+  readonly onDelta?: (delta: string) => void;
+
   // Resolution
   /** The conversation/thread this message belongs to. */
   conversation?: Conversation;
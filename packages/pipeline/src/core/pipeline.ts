@@ -126,6 +126,18 @@ export interface PipelineConfig<TCtx extends MessageContext = MessageContext>
   readonly stages?: readonly Stage<TCtx>[];
 }
 
+/**
+ * Per-run options for `pipeline.process()`.
+ */
+export interface ProcessOptions {
+  /**
+   * Stream the response: called with each chunk of AI text as it is
+   * generated (see `MessageContext.onDelta`). The final outbound is still
+   * returned as usual.
+   */
+  readonly onDelta?: (delta: string) => void;
+}
+
 /**
  * The pipeline returned by `createPipeline`. Call `process` per inbound.
  *
@@ -159,7 +171,10 @@ export interface Pipeline<TCtx extends MessageContext = MessageContext> {
    * @throws {@link PipelineError} when a stage throws or the pipeline
    *   produces no outbound.
    */
-  process(inbound: InboundMessage): Promise<TCtx & { outbound: OutboundMessage }>;
+  process(
+    inbound: InboundMessage,
+    options?: ProcessOptions,
+  ): Promise<TCtx & { outbound: OutboundMessage }>;
 }
 
 /**
@@ -233,11 +248,18 @@ export function createPipeline<TCtx extends MessageContext = MessageContext>(
     config.stages ?? (defaultStages as readonly Stage<TCtx>[]);
 
   return {
-    async process(inbound: InboundMessage): Promise<TCtx & { outbound: OutboundMessage }> {
-      // The initial context sets `inbound` and `startTime`. Any `TCtx`
-      // extension fields must be optional, so this cast is sound at
-      // runtime.
-      const ctx = { inbound, startTime: Date.now() } as TCtx;
+    async process(
+      inbound: InboundMessage,
+      options?: ProcessOptions,
+    ): Promise<TCtx & { outbound: OutboundMessage }> {
+      // The initial context sets `inbound`, `startTime`, and the optional
+      // `onDelta`. Any `TCtx` extension fields must be optional, so this
+      // cast is sound at runtime.
+      const ctx = {
+        inbound,
+        startTime: Date.now(),
+        ...(options?.onDelta ? { onDelta: options.onDelta } : {}),
+      } as TCtx;
 
       try {
         for (const stage of stages) {
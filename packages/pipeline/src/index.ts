@@ -6,7 +6,7 @@
 
 // ─── Pipeline core ──────────────────────────────────────────────
 export type { MessageContext } from './core/context.js';
-export type { Env, Services, Stage, Pipeline, PipelineConfig } from './core/pipeline.js';
+export type { Env, Services, Stage, Pipeline, PipelineConfig, ProcessOptions } from './core/pipeline.js';
 export { createPipeline, PipelineError } from './core/pipeline.js';
 
 // ─── Data types ─────────────────────────────────────────────────
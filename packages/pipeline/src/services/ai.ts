@@ -8,6 +8,10 @@
  * Consumer implements this against their preferred provider — Anthropic,
  * OpenAI, Bedrock, Ollama, etc. — and passes the adapter to `createPipeline`.
  *
+ * `stream` is optional: when present, `generateResponse` uses it for runs
+ * started with an `onDelta` callback so channels can render the reply as
+ * it is produced.
+ *
  * @module services/ai
  */
 
@@ -23,5 +27,15 @@ export interface AIProvider {
   readonly name: string;
 
   complete(request: AICompletionRequest): Promise<AICompletionResult>;
+
+  /**
+   * Same as `complete`, but calls `onDelta` with each chunk of text as the
+   * model produces it. Resolves with the full result once the stream ends.
+   */
+  stream?(
+    request: AICompletionRequest,
+    onDelta: (delta: string) => void,
+  ): Promise<AICompletionResult>;
+
   embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResult>;
 }
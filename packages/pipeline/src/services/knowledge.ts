@@ -1,5 +1,6 @@
 /**
- * KnowledgeProvider — vector search over a domain knowledge base.
+ * KnowledgeProvider — vector (optionally hybrid keyword + vector) search
+ * over a domain knowledge base.
  *
  * Read-only contract: the pipeline only retrieves. Indexing, ingestion,
  * and chunking are the consumer's responsibility (typically done outside
@@ -11,14 +11,22 @@
  *
  * The domain owns the prompt; the pipeline owns the call.
  *
+ * Streams through `ai.stream` when the run has an `onDelta` callback, the
+ * provider supports streaming, and the reply won't be translated
+ * afterwards (same condition `translateOutbound` uses). Otherwise a single
+ * buffered `complete` call.
+ *
+ * Skips when `ctx.aiResponse` is already set — a domain stage earlier in
+ * the list (e.g. a response cache) answered the turn without the LLM.
+ *
  * @module stages/generate-response
  */
 
 import type { Stage } from '../core/pipeline.js';
-import type { AICompletionMessage } from '../types/ai.js';
+import type { AICompletionMessage, AICompletionRequest } from '../types/ai.js';
 
 export const generateResponse: Stage = async (ctx, env) => {
-  if (!ctx.conversation) return;
+  if (!ctx.conversation || ctx.aiResponse) return;
 
   // Build the responder prompt from the domain. May be async.
   const systemPrompt = await env.prompts.responder(ctx, env);
@@ -30,7 +38,7 @@ export const generateResponse: Stage = async (ctx, env) => {
     { role: 'user', content: ctx.inboundTranslation ?? ctx.inbound.content },
   ];
 
-  const result = await env.services.ai.complete({
+  const request: AICompletionRequest = {
     messages,
     modelTier: 'reasoning',
     purpose: 'response_generation',
@@ -39,7 +47,14 @@ export const generateResponse: Stage = async (ctx, env) => {
     logFields: (response) => ({
       response: response.length > 120 ? `${response.slice(0, 120)}…` : response,
     }),
-  });
+  };
+
+  const { ai } = env.services;
+  const translated = ctx.inboundLanguage !== undefined && ctx.inboundLanguage !== env.systemLanguage;
+  const result =
+    ctx.onDelta && ai.stream && !translated
+      ? await ai.stream(request, ctx.onDelta)
+      : await ai.complete(request);
 
   ctx.aiResponse = {
     content: result.content,
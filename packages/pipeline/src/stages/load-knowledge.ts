@@ -1,6 +1,8 @@
 /**
- * loadKnowledge — runs vector search over the domain knowledge base
- * using `ctx.inboundEmbedding`, writes results to `ctx.knowledgeHits`.
+ * loadKnowledge — searches the domain knowledge base using
+ * `ctx.inboundEmbedding`, writes results to `ctx.knowledgeHits`. The text
+ * that was embedded is passed along as `query` for providers that also
+ * match keywords.
  *
  * No-ops when the optional `knowledge` service isn't configured or when
  * `computeEmbedding` didn't produce an embedding.
@@ -21,6 +23,7 @@ export const loadKnowledge: Stage = async (ctx, env) => {
     ctx.knowledgeHits = await env.services.knowledge.search(ctx.inboundEmbedding, {
       limit: DEFAULT_LIMIT,
       minSimilarity: DEFAULT_MIN_SIMILARITY,
+      query: ctx.inboundTranslation ?? ctx.inbound.content,
     });
   } catch (err) {
     env.services.logger.warn({ err }, 'Knowledge search failed');
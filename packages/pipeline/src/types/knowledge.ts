@@ -25,4 +25,11 @@ export interface KnowledgeSearchOptions {
 
   /** Drop hits below this similarity threshold. */
   readonly minSimilarity?: number;
+
+  /**
+   * Text the embedding was computed from. Lets providers that support it
+   * add keyword matching on top of vector search; vector-only providers
+   * can ignore it.
+   */
+  readonly query?: string;
 }
@@ -44,6 +44,26 @@ describe('createPipeline — smoke', () => {
     expect(ctx.outbound.createdAt).toBeInstanceOf(Date);
   });
 
+  it('streams the response to the onDelta passed to process()', async () => {
+    const ai = createStubAI();
+    ai.stream = async (_req, onDelta) => {
+      onDelta('Hello');
+      onDelta(' there');
+      return { content: 'Hello there' };
+    };
+    const pipeline = createPipeline({
+      intents: createStubIntents(),
+      prompts: createStubPrompts(),
+      services: createStubServices({ ai }),
+    });
+
+    const deltas: string[] = [];
+    const ctx = await pipeline.process(makeInbound(), { onDelta: (d) => deltas.push(d) });
+
+    expect(deltas).toEqual(['Hello', ' there']);
+    expect(ctx.outbound.content).toBe('Hello there');
+  });
+
   it('defaults to systemLanguage="en" when not provided', async () => {
     const ai = createStubAI();
     const pipeline = createPipeline({
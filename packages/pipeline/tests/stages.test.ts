@@ -3,10 +3,12 @@
  * code extraction in detect-language, conditional skips.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   classifyIntent,
   detectLanguage,
+  generateResponse,
+  loadKnowledge,
   type Env,
   type MessageContext,
   type Intent,
@@ -16,6 +18,7 @@ import {
   createStubPrompts,
   createStubServices,
   createStubAI,
+  createStubKnowledge,
 } from './_helpers/stubs.js';
 
 function makeEnv(overrides: Partial<Env> = {}): Env {
@@ -198,3 +201,101 @@ describe('detectLanguage — code extraction', () => {
     expect(ctx.inboundLanguage).toBeUndefined();
   });
 });
+
+describe('loadKnowledge — search query', () => {
+  it('passes the embedded text along with the embedding', async () => {
+    const knowledge = createStubKnowledge();
+    const env = makeEnv({ services: createStubServices({ knowledge }) });
+    const ctx = makeCtx();
+    ctx.inboundEmbedding = [0.1, 0.2];
+    ctx.inboundTranslation = 'When does the SPA-OPEN offer end?';
+
+    await loadKnowledge(ctx, env);
+
+    expect(knowledge.search).toHaveBeenCalledWith([0.1, 0.2], expect.objectContaining({
+      query: 'When does the SPA-OPEN offer end?',
+    }));
+  });
+
+  it('skips when there is no embedding', async () => {
+    const knowledge = createStubKnowledge();
+    const env = makeEnv({ services: createStubServices({ knowledge }) });
+
+    await loadKnowledge(makeCtx(), env);
+
+    expect(knowledge.search).not.toHaveBeenCalled();
+  });
+});
+
+describe('generateResponse — conditional skip', () => {
+  it('calls the AI when no response exists yet', async () => {
+    const ai = createStubAI({ response_generation: 'Checkout is at 11am.' });
+    const env = makeEnv({ services: createStubServices({ ai }) });
+    const ctx = makeCtx();
+
+    await generateResponse(ctx, env);
+
+    expect(ctx.aiResponse?.content).toBe('Checkout is at 11am.');
+    expect(ai.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a response set by an earlier stage untouched', async () => {
+    const ai = createStubAI();
+    const env = makeEnv({ services: createStubServices({ ai }) });
+    const ctx = makeCtx();
+    ctx.aiResponse = { content: 'From cache' };
+
+    await generateResponse(ctx, env);
+
+    expect(ctx.aiResponse.content).toBe('From cache');
+    expect(ai.complete).not.toHaveBeenCalled();
+  });
+});
+
+describe('generateResponse — streaming', () => {
+  function createStreamingAI() {
+    const ai = createStubAI();
+    ai.stream = vi.fn(async (_req, onDelta: (delta: string) => void) => {
+      onDelta('Checkout ');
+      onDelta('is at 11am.');
+      return { content: 'Checkout is at 11am.' };
+    });
+    return ai;
+  }
+
+  it('streams deltas when the run has an onDelta callback', async () => {
+    const ai = createStreamingAI();
+    const env = makeEnv({ services: createStubServices({ ai }) });
+    const deltas: string[] = [];
+    const ctx: MessageContext = { ...makeCtx(), onDelta: (d) => deltas.push(d) };
+
+    await generateResponse(ctx, env);
+
+    expect(deltas).toEqual(['Checkout ', 'is at 11am.']);
+    expect(ctx.aiResponse?.content).toBe('Checkout is at 11am.');
+    expect(ai.complete).not.toHaveBeenCalled();
+  });
+
+  it('buffers when the reply will be translated afterwards', async () => {
+    const ai = createStreamingAI();
+    const env = makeEnv({ services: createStubServices({ ai }) });
+    const onDelta = vi.fn();
+    const ctx: MessageContext = { ...makeCtx(), onDelta, inboundLanguage: 'fr' };
+
+    await generateResponse(ctx, env);
+
+    expect(ai.stream).not.toHaveBeenCalled();
+    expect(ai.complete).toHaveBeenCalledTimes(1);
+    expect(onDelta).not.toHaveBeenCalled();
+  });
+
+  it('buffers when nobody is listening', async () => {
+    const ai = createStreamingAI();
+    const env = makeEnv({ services: createStubServices({ ai }) });
+
+    await generateResponse(makeCtx(), env);
+
+    expect(ai.stream).not.toHaveBeenCalled();
+    expect(ai.complete).toHaveBeenCalledTimes(1);
+  });
+});
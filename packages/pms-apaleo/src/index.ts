@@ -0,0 +1,911 @@
+/**
+ * Apaleo PMS Adapter Plugin
+ *
+ * Production PMS adapter for Apaleo (https://apaleo.com).
+ * Apaleo uses a REST API split into Booking, Inventory, Finance and
+ * Operations modules. Auth is OAuth 2.0 client credentials: the access token
+ * is fetched from the identity server and cached until shortly before it
+ * expires.
+ *
+ * Known limitations:
+ * - Apaleo has no guest profiles — the guest is the reservation's primary
+ *   guest, identified by the booking ID (shared by the booking's reservations)
+ * - getGuestByPhone()/getGuestByEmail()/searchGuests() use the reservation
+ *   text search, so only guests with a reservation are found
+ * - Units have no floor — NormalizedRoom.floor is always undefined
+ * - Unit conditions map to dirty/clean/inspected; "occupied" wins over
+ *   clean and inspected while a guest is in house
+ * - No updateDepartureTime(): moving a departure means amending the whole
+ *   stay with its rates, which a task cannot safely do
+ * - Folio charges are posted as service type "Other" at the normal VAT rate
+ *
+ * @module @jackthebutler/pms-apaleo
+ */
+
+import type {
+  PMSAdapter,
+  NormalizedGuest,
+  NormalizedReservation,
+  NormalizedRoom,
+  ReservationQuery,
+  ReservationStatus,
+  RoomStatus,
+  PMSEvent,
+  PMSEventType,
+  PMSAppManifest,
+  PMSWriteResult,
+  RoomOutOfOrderInput,
+  ServiceChargeInput,
+  AppLogger,
+  PluginContext,
+} from '@jackthebutler/shared';
+import { withLogContext, AppLogError } from '@jackthebutler/shared';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const APALEO_API_URL = 'https://api.apaleo.com';
+const APALEO_IDENTITY_URL = 'https://identity.apaleo.com';
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_RETRIES = 3;
+/** Refresh the access token this long before it expires */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// ==================
+// Config Interface
+// ==================
+
+/** Mirrors configSchema fields 1:1 */
+export interface ApaleoConfig {
+  clientId: string;
+  clientSecret: string;
+  propertyId: string;
+  apiUrl?: string;
+  identityUrl?: string;
+  webhookSecret?: string;
+  stalenessThreshold?: number;
+  syncInterval?: number;
+}
+
+// ==================
+// Apaleo API Types
+// ==================
+
+interface ApaleoEmbeddedEntity {
+  id: string;
+  code?: string;
+  name?: string;
+}
+
+interface ApaleoGuest {
+  firstName?: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+  nationalityCountryCode?: string;
+  preferredLanguage?: string;
+}
+
+interface ApaleoAmount {
+  amount: number;
+  currency: string;
+}
+
+interface ApaleoReservation {
+  id: string;
+  bookingId: string;
+  status: string;
+  property: ApaleoEmbeddedEntity;
+  ratePlan?: ApaleoEmbeddedEntity;
+  unitGroup: ApaleoEmbeddedEntity;
+  unit?: ApaleoEmbeddedEntity;
+  arrival: string;
+  departure: string;
+  adults: number;
+  childrenAges?: number[];
+  primaryGuest?: ApaleoGuest;
+  totalGrossAmount?: ApaleoAmount;
+  comment?: string;
+  guestComment?: string;
+  externalCode?: string;
+}
+
+interface ApaleoUnit {
+  id: string;
+  name: string;
+  unitGroup?: ApaleoEmbeddedEntity;
+  status: {
+    isOccupied: boolean;
+    condition: string;
+    maintenance?: { id: string; type: string };
+  };
+}
+
+interface ApaleoFolio {
+  id: string;
+  isMainFolio?: boolean;
+}
+
+interface ApaleoTokenResponse {
+  access_token: string;
+  expires_in: number;
+}
+
+interface ApaleoWebhookPayload {
+  topic: string;
+  type: string;
+  id: string;
+  propertyId?: string;
+  data?: { entityId?: string };
+}
+
+// ==================
+// Status Mapping
+// ==================
+
+function mapApaleoReservationStatus(status: string): ReservationStatus {
+  switch (status) {
+    case 'Confirmed':
+      return 'confirmed';
+    case 'InHouse':
+      return 'checked_in';
+    case 'CheckedOut':
+      return 'checked_out';
+    case 'Canceled':
+      return 'cancelled';
+    case 'NoShow':
+      return 'no_show';
+    default:
+      console.warn(`[pms-apaleo] Unknown Apaleo reservation status: ${status}, defaulting to confirmed`);
+      return 'confirmed';
+  }
+}
+
+function mapApaleoUnitStatus(status: ApaleoUnit['status']): RoomStatus {
+  if (status.maintenance && status.maintenance.type !== 'OutOfInventory') return 'out_of_order';
+
+  switch (status.condition) {
+    case 'Dirty':
+      return 'dirty';
+    case 'CleanToBeInspected':
+      return status.isOccupied ? 'occupied' : 'clean';
+    case 'Clean':
+      return status.isOccupied ? 'occupied' : 'inspected';
+    default:
+      console.warn(`[pms-apaleo] Unknown Apaleo unit condition: ${status.condition}, defaulting to clean`);
+      return 'clean';
+  }
+}
+
+// ==================
+// Normalization Helpers
+// ==================
+
+function mapApaleoGuest(bookingId: string, guest: ApaleoGuest): NormalizedGuest {
+  const normalized: NormalizedGuest = {
+    externalId: bookingId,
+    source: 'apaleo',
+    firstName: guest.firstName || '',
+    lastName: guest.lastName,
+  };
+
+  if (guest.email) normalized.email = guest.email;
+  if (guest.phone) normalized.phone = guest.phone;
+  if (guest.preferredLanguage) normalized.language = guest.preferredLanguage;
+  if (guest.nationalityCountryCode) normalized.nationality = guest.nationalityCountryCode;
+
+  return normalized;
+}
+
+function mapApaleoReservation(res: ApaleoReservation): NormalizedReservation {
+  const reservation: NormalizedReservation = {
+    externalId: res.id,
+    source: 'apaleo',
+    confirmationNumber: res.id,
+    guest: mapApaleoGuest(res.bookingId, res.primaryGuest ?? { lastName: '' }),
+    roomType: res.unitGroup.name || res.unitGroup.code || 'Unknown',
+    // Apaleo times carry the property's offset, so the date part is the local date
+    arrivalDate: res.arrival.slice(0, 10),
+    departureDate: res.departure.slice(0, 10),
+    status: mapApaleoReservationStatus(res.status),
+    adults: res.adults,
+    children: res.childrenAges?.length ?? 0,
+  };
+
+  if (res.unit?.name) reservation.roomNumber = res.unit.name;
+  if (res.ratePlan?.code) reservation.rateCode = res.ratePlan.code;
+  if (res.totalGrossAmount) {
+    reservation.totalRate = res.totalGrossAmount.amount;
+    reservation.currency = res.totalGrossAmount.currency;
+  }
+  if (res.guestComment) reservation.specialRequests = [res.guestComment];
+  if (res.comment) reservation.notes = [res.comment];
+
+  return reservation;
+}
+
+function mapApaleoUnit(unit: ApaleoUnit, inHouse?: ApaleoReservation): NormalizedRoom {
+  const room: NormalizedRoom = {
+    number: unit.name,
+    type: unit.unitGroup?.name || unit.unitGroup?.code || 'Unknown',
+    status: mapApaleoUnitStatus(unit.status),
+  };
+
+  if (inHouse) {
+    room.currentReservationId = inHouse.id;
+    room.currentGuestId = inHouse.bookingId;
+  }
+
+  return room;
+}
+
+// ==================
+// ApaleoPMSAdapter
+// ==================
+
+export class ApaleoPMSAdapter implements PMSAdapter {
+  readonly provider = 'apaleo' as const;
+  readonly appLog: AppLogger;
+
+  private readonly baseUrl: string;
+  private readonly identityUrl: string;
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly propertyId: string;
+  private webhookSecret?: string;
+  private token?: { value: string; expiresAt: number };
+
+  constructor(config: ApaleoConfig, context: PluginContext) {
+    this.appLog = context.appLog;
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.propertyId = config.propertyId;
+    this.baseUrl = (config.apiUrl || APALEO_API_URL).replace(/\/$/, '');
+    this.identityUrl = (config.identityUrl || APALEO_IDENTITY_URL).replace(/\/$/, '');
+    if (config.webhookSecret) this.webhookSecret = config.webhookSecret;
+  }
+
+  // ==================
+  // Connection
+  // ==================
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.appLog('connection_test', {}, async () => {
+        const property = await this.httpRequest<{ id: string; name: string }>(
+          'GET',
+          `/inventory/v1/properties/${encodeURIComponent(this.propertyId)}`
+        );
+        if (!property) throw new Error(`Property ${this.propertyId} not found in Apaleo`);
+      });
+      return true;
+    } catch (err) {
+      console.error('[pms-apaleo] Connection test failed:', err);
+      return false;
+    }
+  }
+
+  // ==================
+  // Reservations
+  // ==================
+
+  async getReservation(externalId: string): Promise<NormalizedReservation | null> {
+    return this.appLog('get_reservation', { externalId }, async () => {
+      const res = await this.fetchReservation(externalId);
+      return res ? mapApaleoReservation(res) : null;
+    });
+  }
+
+  async getReservationByConfirmation(
+    confirmationNumber: string
+  ): Promise<NormalizedReservation | null> {
+    return this.appLog('get_reservation_by_confirmation', { confirmationNumber }, async () => {
+      // Apaleo shows the reservation ID as the confirmation number
+      const res = await this.fetchReservation(confirmationNumber);
+      if (res) return mapApaleoReservation(res);
+
+      // Channel bookings can also be found by the external code they arrived with
+      const response = await this.httpRequest<{ reservations: ApaleoReservation[] }>(
+        'GET',
+        '/booking/v1/reservations',
+        { propertyIds: this.propertyId, externalCode: confirmationNumber, pageSize: 1 }
+      );
+      const match = response?.reservations[0];
+      return match ? mapApaleoReservation(match) : null;
+    });
+  }
+
+  async searchReservations(query: ReservationQuery): Promise<NormalizedReservation[]> {
+    return this.appLog('search_reservations', {}, async () => {
+      const params: Record<string, string | number> = { propertyIds: this.propertyId };
+
+      if (query.modifiedSince) {
+        params.dateFilter = 'Modification';
+        params.from = query.modifiedSince.toISOString();
+        params.to = new Date().toISOString();
+      } else if (query.departureFrom || query.departureTo) {
+        params.dateFilter = 'Departure';
+        if (query.departureFrom) params.from = toApaleoDateTime(query.departureFrom);
+        if (query.departureTo) params.to = toApaleoDateTime(query.departureTo);
+      } else if (query.arrivalFrom || query.arrivalTo) {
+        params.dateFilter = 'Arrival';
+        if (query.arrivalFrom) params.from = toApaleoDateTime(query.arrivalFrom);
+        if (query.arrivalTo) params.to = toApaleoDateTime(query.arrivalTo);
+      }
+
+      if (query.status) params.status = mapJackStatusToApaleo(query.status);
+      if (query.guestEmail) params.textSearch = query.guestEmail;
+      else if (query.guestPhone) params.textSearch = query.guestPhone;
+
+      const reservations = await this.httpRequestPaginated<ApaleoReservation>(
+        '/booking/v1/reservations',
+        params,
+        'reservations'
+      );
+
+      let results = reservations.map(mapApaleoReservation);
+
+      if (query.guestEmail) {
+        const email = query.guestEmail.toLowerCase();
+        results = results.filter((r) => r.guest.email?.toLowerCase() === email);
+      }
+      if (query.guestPhone) {
+        results = results.filter((r) => samePhone(r.guest.phone, query.guestPhone!));
+      }
+      if (query.roomNumber) {
+        results = results.filter((r) => r.roomNumber === query.roomNumber);
+      }
+      if (query.limit) {
+        results = results.slice(0, query.limit);
+      }
+
+      return results;
+    });
+  }
+
+  async getModifiedReservations(since: Date): Promise<NormalizedReservation[]> {
+    return this.appLog('get_modified_reservations', { since }, async () => {
+      const reservations = await this.httpRequestPaginated<ApaleoReservation>(
+        '/booking/v1/reservations',
+        {
+          propertyIds: this.propertyId,
+          dateFilter: 'Modification',
+          from: since.toISOString(),
+          to: new Date().toISOString(),
+        },
+        'reservations'
+      );
+
+      return reservations.map(mapApaleoReservation);
+    });
+  }
+
+  // ==================
+  // Guests
+  // ==================
+
+  async getGuest(externalId: string): Promise<NormalizedGuest | null> {
+    try {
+      return await this.appLog('get_guest', { externalId }, async () => {
+        const response = await this.httpRequest<{ reservations: ApaleoReservation[] }>(
+          'GET',
+          '/booking/v1/reservations',
+          { bookingId: externalId, pageSize: 1 }
+        );
+        const res = response?.reservations[0];
+        if (!res?.primaryGuest) return null;
+
+        return mapApaleoGuest(res.bookingId, res.primaryGuest);
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  async getGuestByPhone(phone: string): Promise<NormalizedGuest | null> {
+    return this.appLog('get_guest_by_phone', { phone }, async () => {
+      const guests = await this.findGuests(phone);
+      return guests.find((g) => samePhone(g.phone, phone)) ?? null;
+    });
+  }
+
+  async getGuestByEmail(email: string): Promise<NormalizedGuest | null> {
+    return this.appLog('get_guest_by_email', { email }, async () => {
+      const guests = await this.findGuests(email);
+      return guests.find((g) => g.email?.toLowerCase() === email.toLowerCase()) ?? null;
+    });
+  }
+
+  async searchGuests(query: string): Promise<NormalizedGuest[]> {
+    return this.appLog('search_guests', { query }, async () => {
+      return this.findGuests(query);
+    });
+  }
+
+  // ==================
+  // Rooms
+  // ==================
+
+  async getRoomStatus(roomNumber: string): Promise<NormalizedRoom | null> {
+    try {
+      return await this.appLog('get_room_status', { roomNumber }, async () => {
+        const rooms = await this.fetchAllRooms();
+        return rooms.find((r) => r.number === roomNumber) ?? null;
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  async getAllRooms(): Promise<NormalizedRoom[]> {
+    try {
+      return await this.appLog('get_all_rooms', {}, async () => {
+        return this.fetchAllRooms();
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  // ==================
+  // Write-back
+  // ==================
+
+  async addReservationNote(reservationId: string, note: string): Promise<PMSWriteResult> {
+    return this.appLog('add_reservation_note', { reservationId }, async () => {
+      // Apaleo keeps a single comment per reservation, so append rather than replace
+      const existing = await this.fetchReservation(reservationId);
+      if (!existing) throw new Error(`Reservation ${reservationId} not found in Apaleo`);
+
+      const comment = existing.comment ? `${existing.comment}\n${note}` : note;
+      await this.httpRequest(
+        'PATCH',
+        `/booking/v1/reservations/${encodeURIComponent(reservationId)}`,
+        undefined,
+        [{ op: 'add', path: '/comment', value: comment }],
+        'application/json-patch+json'
+      );
+      return {};
+    });
+  }
+
+  async setRoomOutOfOrder(roomNumber: string, input: RoomOutOfOrderInput): Promise<PMSWriteResult> {
+    return this.appLog('set_room_out_of_order', { roomNumber }, async () => {
+      const units = await this.fetchUnits();
+      const unit = units.find((u) => u.name === roomNumber);
+      if (!unit) throw new Error(`Room ${roomNumber} not found in Apaleo`);
+
+      const result = await this.httpRequest<{ id: string }>('POST', '/operations/v1/maintenances', undefined, {
+        unitId: unit.id,
+        from: new Date(input.from).toISOString(),
+        to: new Date(input.until).toISOString(),
+        type: 'OutOfOrder',
+        description: input.reason,
+      });
+
+      return result?.id ? { externalId: result.id } : {};
+    });
+  }
+
+  async postServiceCharge(reservationId: string, charge: ServiceChargeInput): Promise<PMSWriteResult> {
+    return this.appLog('post_service_charge', { reservationId, amount: charge.amount }, async () => {
+      if (!charge.currency) {
+        throw new Error('Apaleo charges need a currency');
+      }
+
+      const response = await this.httpRequest<{ folios: ApaleoFolio[] }>('GET', '/finance/v1/folios', {
+        reservationIds: reservationId,
+        type: 'Guest',
+      });
+      const folios = response?.folios ?? [];
+      const folio = folios.find((f) => f.isMainFolio) ?? folios[0];
+      if (!folio) throw new Error(`No guest folio found for reservation ${reservationId}`);
+
+      const result = await this.httpRequest<{ id: string }>(
+        'POST',
+        `/finance/v1/folios/${encodeURIComponent(folio.id)}/charges`,
+        undefined,
+        {
+          serviceType: 'Other',
+          vatType: 'Normal',
+          name: charge.description,
+          amount: { amount: charge.amount, currency: charge.currency },
+        }
+      );
+
+      return result?.id ? { externalId: result.id } : {};
+    });
+  }
+
+  // ==================
+  // Webhooks
+  // ==================
+
+  async parseWebhook(
+    payload: unknown,
+    _headers?: Record<string, string>
+  ): Promise<PMSEvent | null> {
+    return this.appLog('parse_webhook', {}, async () => {
+      const data = payload as ApaleoWebhookPayload;
+      const entityId = data?.data?.entityId;
+      if (!data?.topic || !entityId) return null;
+
+      if (data.propertyId && data.propertyId !== this.propertyId) {
+        console.warn(`[pms-apaleo] Ignoring webhook for property ${data.propertyId}`);
+        return null;
+      }
+
+      const topic = data.topic.toLowerCase();
+
+      if (topic === 'reservation') {
+        const reservation = await this.getReservation(entityId);
+        if (!reservation) {
+          console.warn(`[pms-apaleo] Could not fetch reservation for webhook event ${data.id}`);
+          return null;
+        }
+
+        return {
+          type: data.type === 'created' ? 'reservation.created' : mapReservationToEventType(reservation.status),
+          source: 'apaleo',
+          timestamp: new Date().toISOString(),
+          data: { reservation },
+        };
+      }
+
+      if (topic === 'unit') {
+        const unit = await this.httpRequest<ApaleoUnit>('GET', `/inventory/v1/units/${encodeURIComponent(entityId)}`);
+        if (!unit) return null;
+
+        const room = mapApaleoUnit(unit);
+        return {
+          type: 'room.status_changed',
+          source: 'apaleo',
+          timestamp: new Date().toISOString(),
+          data: { room, newStatus: room.status },
+        };
+      }
+
+      return null;
+    });
+  }
+
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    if (!this.webhookSecret) {
+      console.warn('[pms-apaleo] No webhook secret configured, skipping signature verification');
+      return true;
+    }
+
+    const computed = createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+    const computedBuf = Buffer.from(computed, 'hex');
+    const signatureBuf = Buffer.from(signature, 'hex');
+    if (computedBuf.length !== signatureBuf.length) return false;
+    return timingSafeEqual(computedBuf, signatureBuf);
+  }
+
+  // ==================
+  // HTTP (pure transport — no appLog here)
+  // ==================
+
+  private async getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return this.token.value;
+    }
+
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    const response = await fetch(`${this.identityUrl}/connect/token`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ grant_type: 'client_credentials' }).toString(),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new AppLogError(`Apaleo token request failed (${response.status}): ${text}`, {
+        httpStatus: response.status,
+        responseBody: text,
+      });
+    }
+
+    const json = (await response.json()) as ApaleoTokenResponse;
+    this.token = { value: json.access_token, expiresAt: Date.now() + json.expires_in * 1000 };
+    return this.token.value;
+  }
+
+  /**
+   * Send a request to the Apaleo API. Returns null for 204 No Content (Apaleo's
+   * answer to an empty list) and for 404 on single-entity GETs.
+   */
+  private async httpRequest<T>(
+    method: 'GET' | 'POST' | 'PATCH',
+    path: string,
+    query?: Record<string, string | number>,
+    body?: unknown,
+    contentType = 'application/json'
+  ): Promise<T | null> {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      url.searchParams.set(key, String(value));
+    }
+
+    let lastError: Error | undefined;
+    let refreshedToken = false;
+
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        Accept: 'application/json',
+      };
+      if (body !== undefined) headers['Content-Type'] = contentType;
+
+      const response = await fetch(url, {
+        method,
+        headers,
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+
+      // Token revoked or expired early — fetch a new one once
+      if (response.status === 401 && !refreshedToken) {
+        delete this.token;
+        refreshedToken = true;
+        attempt--;
+        continue;
+      }
+
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        const waitMs = retryAfter
+          ? parseInt(retryAfter, 10) * 1000
+          : Math.pow(2, attempt + 1) * 1000;
+        console.warn(`[pms-apaleo] Rate limited on ${path}, retrying in ${waitMs}ms`);
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        lastError = new Error(`Rate limited (429) on ${path}`);
+        continue;
+      }
+
+      if (response.status === 204) return null;
+      if (response.status === 404 && method === 'GET') return null;
+
+      if (!response.ok) {
+        const text = await response.text();
+        let responseBody: unknown = text;
+        try {
+          responseBody = JSON.parse(text);
+        } catch { /* keep as string */ }
+        throw new AppLogError(`Apaleo API error ${response.status} on ${method} ${path}: ${text}`, {
+          httpStatus: response.status,
+          responseBody,
+        });
+      }
+
+      const text = await response.text();
+      if (!text) return null;
+
+      const json = JSON.parse(text) as object;
+      const firstArray = Object.values(json).find(Array.isArray);
+      return withLogContext(json, {
+        httpStatus: response.status,
+        itemCount: firstArray?.length ?? undefined,
+      }) as T;
+    }
+
+    throw lastError ?? new Error(`Apaleo API request failed after ${MAX_RETRIES} retries`);
+  }
+
+  private async httpRequestPaginated<TItem>(
+    path: string,
+    query: Record<string, string | number>,
+    resultKey: string,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<TItem[]> {
+    const results: TItem[] = [];
+    let pageNumber = 1;
+
+    while (true) {
+      const response = await this.httpRequest<Record<string, unknown> & { count?: number }>('GET', path, {
+        ...query,
+        pageNumber,
+        pageSize,
+      });
+      if (!response) break;
+
+      const items = response[resultKey];
+      if (!Array.isArray(items) || items.length === 0) break;
+      results.push(...(items as TItem[]));
+
+      const done = typeof response.count === 'number' ? results.length >= response.count : items.length < pageSize;
+      if (done) break;
+      pageNumber++;
+    }
+
+    return results;
+  }
+
+  // ==================
+  // Internal Helpers
+  // ==================
+
+  private async fetchReservation(reservationId: string): Promise<ApaleoReservation | null> {
+    return this.httpRequest<ApaleoReservation>(
+      'GET',
+      `/booking/v1/reservations/${encodeURIComponent(reservationId)}`
+    );
+  }
+
+  /**
+   * Primary guests of reservations matching a text search, one per booking
+   */
+  private async findGuests(text: string): Promise<NormalizedGuest[]> {
+    const response = await this.httpRequest<{ reservations: ApaleoReservation[] }>(
+      'GET',
+      '/booking/v1/reservations',
+      { propertyIds: this.propertyId, textSearch: text, pageSize: DEFAULT_PAGE_SIZE }
+    );
+
+    const guests = new Map<string, NormalizedGuest>();
+    for (const res of response?.reservations ?? []) {
+      if (res.primaryGuest && !guests.has(res.bookingId)) {
+        guests.set(res.bookingId, mapApaleoGuest(res.bookingId, res.primaryGuest));
+      }
+    }
+    return [...guests.values()];
+  }
+
+  private async fetchUnits(): Promise<ApaleoUnit[]> {
+    return this.httpRequestPaginated<ApaleoUnit>(
+      '/inventory/v1/units',
+      { propertyId: this.propertyId },
+      'units'
+    );
+  }
+
+  private async fetchAllRooms(): Promise<NormalizedRoom[]> {
+    const units = await this.fetchUnits();
+
+    const inHouse = await this.httpRequestPaginated<ApaleoReservation>(
+      '/booking/v1/reservations',
+      { propertyIds: this.propertyId, status: 'InHouse' },
+      'reservations'
+    );
+    const reservationByUnit = new Map(
+      inHouse.filter((r) => r.unit).map((r) => [r.unit!.id, r])
+    );
+
+    return units.map((unit) => mapApaleoUnit(unit, reservationByUnit.get(unit.id)));
+  }
+}
+
+// ==================
+// Helpers
+// ==================
+
+function toApaleoDateTime(dateStr: string): string {
+  if (dateStr.includes('T')) return dateStr;
+  return `${dateStr}T00:00:00Z`;
+}
+
+function samePhone(a: string | undefined, b: string): boolean {
+  if (!a) return false;
+  const digits = (value: string) => value.replace(/\D/g, '');
+  return digits(a) === digits(b);
+}
+
+function mapJackStatusToApaleo(status: ReservationStatus): string {
+  switch (status) {
+    case 'confirmed':
+      return 'Confirmed';
+    case 'checked_in':
+      return 'InHouse';
+    case 'checked_out':
+      return 'CheckedOut';
+    case 'cancelled':
+      return 'Canceled';
+    case 'no_show':
+      return 'NoShow';
+    default:
+      return 'Confirmed';
+  }
+}
+
+function mapReservationToEventType(status: ReservationStatus): PMSEventType {
+  switch (status) {
+    case 'checked_in':
+      return 'guest.checked_in';
+    case 'checked_out':
+      return 'guest.checked_out';
+    case 'cancelled':
+      return 'reservation.cancelled';
+    default:
+      return 'reservation.updated';
+  }
+}
+
+// ==================
+// Factory & Manifest
+// ==================
+
+export function createApaleoPMSAdapter(config: ApaleoConfig, context: PluginContext): ApaleoPMSAdapter {
+  return new ApaleoPMSAdapter(config, context);
+}
+
+export const manifest: PMSAppManifest = {
+  id: 'pms-apaleo',
+  name: 'Apaleo',
+  category: 'pms',
+  version: '1.0.0',
+  description: 'Connect to Apaleo PMS for real-time reservation sync',
+  icon: '🏨',
+  docsUrl: 'https://api.apaleo.com/swagger/index.html',
+  configSchema: [
+    {
+      key: 'clientId',
+      label: 'Client ID',
+      type: 'text',
+      required: true,
+      description: 'Client ID of your Apaleo app (Apaleo → Apps → Connected apps, client credentials)',
+    },
+    {
+      key: 'clientSecret',
+      label: 'Client Secret',
+      type: 'password',
+      required: true,
+      description: 'Client secret of your Apaleo app',
+    },
+    {
+      key: 'propertyId',
+      label: 'Property ID',
+      type: 'text',
+      required: true,
+      description: 'Apaleo property code (e.g. MUC)',
+    },
+    {
+      key: 'apiUrl',
+      label: 'API URL',
+      type: 'text',
+      required: false,
+      description: 'API base URL (leave blank for production)',
+      default: APALEO_API_URL,
+    },
+    {
+      key: 'identityUrl',
+      label: 'Identity URL',
+      type: 'text',
+      required: false,
+      description: 'OAuth server URL (leave blank for production)',
+      default: APALEO_IDENTITY_URL,
+    },
+    {
+      key: 'webhookSecret',
+      label: 'Webhook Secret',
+      type: 'password',
+      required: false,
+      description: 'Secret for webhook signature verification (x-apaleo-signature header)',
+    },
+    {
+      key: 'stalenessThreshold',
+      label: 'Staleness Threshold (seconds)',
+      type: 'number',
+      required: false,
+      default: 180,
+      description: 'How old (in seconds) cached reservation data can be before refreshing from Apaleo. Default: 180 (3 min).',
+    },
+    {
+      key: 'syncInterval',
+      label: 'Sync Interval (seconds)',
+      type: 'number',
+      required: false,
+      default: 300,
+      description: 'How often to poll Apaleo for updated reservations. Default: 300 (5 min).',
+    },
+  ],
+  features: {
+    reservations: true,
+    guests: true,
+    rooms: true,
+    webhooks: true,
+    writeBack: true,
+  },
+  createAdapter: (config, context) => createApaleoPMSAdapter(config as unknown as ApaleoConfig, context),
+};
+
+export default { manifest };
@@ -14,6 +14,9 @@
  * - getReservationByConfirmation() delegates to getReservation()
  * - getModifiedReservations() may miss some changes (API documented limitation)
  * - No webhook HMAC verification; propertyID validation used as mitigation
+ * - No updateDepartureTime(): the API cannot move a departure time, only
+ *   re-date a room (checkout times follow the property policy)
+ * - Room blocks are whole days — setRoomOutOfOrder() drops the time of day
  *
  * @module @jackthebutler/pms-cloudbeds
  */
@@ -29,6 +32,9 @@ import type {
   PMSEvent,
   PMSEventType,
   PMSAppManifest,
+  PMSWriteResult,
+  RoomOutOfOrderInput,
+  ServiceChargeInput,
   AppLogger,
   PluginContext,
 } from '@jackthebutler/shared';
@@ -172,6 +178,14 @@ interface CloudbedsWebhookSubscription {
   subscriptionData?: { endpoint?: string };
 }
 
+interface CloudbedsWriteResponse {
+  success: boolean;
+  message?: string;
+  reservationNoteID?: string;
+  roomBlockID?: string;
+  data?: { reservationNoteID?: string; roomBlockID?: string };
+}
+
 interface CloudbedsResponse<T> {
   success: boolean;
   data: T;
@@ -523,6 +537,62 @@ export class CloudbedsPMSAdapter implements PMSAdapter {
     });
   }
 
+  // ==================
+  // Write-back
+  // ==================
+
+  async addReservationNote(reservationId: string, note: string): Promise<PMSWriteResult> {
+    return this.appLog('add_reservation_note', { reservationId }, async () => {
+      const response = await this.postWrite('postReservationNote', {
+        propertyID: this.propertyId,
+        reservationID: reservationId,
+        reservationNote: note,
+      });
+      const noteId = response.data?.reservationNoteID ?? response.reservationNoteID;
+      return noteId ? { externalId: String(noteId) } : {};
+    });
+  }
+
+  async setRoomOutOfOrder(roomNumber: string, input: RoomOutOfOrderInput): Promise<PMSWriteResult> {
+    return this.appLog('set_room_out_of_order', { roomNumber }, async () => {
+      const data = await this.fetchPaginated<CloudbedsRoomsData>(
+        'getRooms',
+        { propertyIDs: this.propertyId },
+        ROOMS_PAGE_SIZE
+      );
+      const room = data.flatMap((d) => d.rooms ?? []).find((r) => r.roomName === roomNumber);
+      if (!room) throw new Error(`Room ${roomNumber} not found in Cloudbeds`);
+
+      const response = await this.postWrite('postRoomBlock', {
+        propertyID: this.propertyId,
+        roomBlockName: `Out of order: ${roomNumber}`,
+        roomBlockType: 'out_of_service',
+        roomBlockReason: input.reason,
+        startDate: input.from.split('T')[0]!,
+        endDate: input.until.split('T')[0]!,
+        'rooms[0][roomID]': room.roomID,
+      });
+      const blockId = response.data?.roomBlockID ?? response.roomBlockID;
+      return blockId ? { externalId: String(blockId) } : {};
+    });
+  }
+
+  async postServiceCharge(reservationId: string, charge: ServiceChargeInput): Promise<PMSWriteResult> {
+    return this.appLog('post_service_charge', { reservationId, amount: charge.amount }, async () => {
+      const referenceId = `jack-${Date.now()}`;
+      await this.postWrite('postCustomItem', {
+        propertyID: this.propertyId,
+        reservationID: reservationId,
+        referenceID: referenceId,
+        'items[0][appItemID]': referenceId,
+        'items[0][itemName]': charge.description,
+        'items[0][itemQuantity]': '1',
+        'items[0][itemPrice]': charge.amount.toFixed(2),
+      });
+      return { externalId: referenceId };
+    });
+  }
+
   // ==================
   // Webhooks
   // ==================
@@ -673,6 +743,17 @@ export class CloudbedsPMSAdapter implements PMSAdapter {
     return (await response.json()) as T;
   }
 
+  /** Cloudbeds reports some write failures as 200 with `success: false` */
+  private async postWrite(endpoint: string, body: Record<string, string>): Promise<CloudbedsWriteResponse> {
+    const response = await this.httpPostForm<CloudbedsWriteResponse>(endpoint, body);
+    if (!response.success) {
+      throw new AppLogError(`Cloudbeds rejected ${endpoint}: ${response.message ?? 'unknown error'}`, {
+        responseBody: response,
+      });
+    }
+    return response;
+  }
+
   private async fetchPaginated<TItem>(
     endpoint: string,
     params: Record<string, string | number | boolean | undefined>,
@@ -898,6 +979,7 @@ export const manifest: PMSAppManifest = {
     guests: true,
     rooms: true,
     webhooks: true,
+    writeBack: true,
   },
   createAdapter: (config, context) =>
     createCloudbedsAdapter(config as unknown as CloudbedsConfig, context),
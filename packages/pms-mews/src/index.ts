@@ -19,6 +19,9 @@ import type {
   PMSEvent,
   PMSEventType,
   PMSAppManifest,
+  PMSWriteResult,
+  RoomOutOfOrderInput,
+  ServiceChargeInput,
   AppLogger,
   PluginContext,
 } from '@jackthebutler/shared';
@@ -43,6 +46,7 @@ export interface MewsConfig {
   webhookSecret?: string;
   stalenessThreshold?: number;
   syncInterval?: number;
+  chargeServiceId?: string;
 }
 
 // ==================
@@ -221,6 +225,7 @@ export class MewsPMSAdapter implements PMSAdapter {
   private readonly accessToken: string;
   private propertyId: string;
   private webhookSecret?: string;
+  private chargeServiceId?: string;
   private resourceCategoryCache?: MewsResourceCategory[];
   private serviceIdsCache?: string[];
 
@@ -231,6 +236,7 @@ export class MewsPMSAdapter implements PMSAdapter {
     this.baseUrl = config.apiUrl || MEWS_PRODUCTION_URL;
     this.propertyId = config.propertyId || '';
     if (config.webhookSecret) this.webhookSecret = config.webhookSecret;
+    if (config.chargeServiceId) this.chargeServiceId = config.chargeServiceId;
   }
 
   // ==================
@@ -460,6 +466,89 @@ export class MewsPMSAdapter implements PMSAdapter {
     }
   }
 
+  // ==================
+  // Write-back
+  // ==================
+
+  async addReservationNote(reservationId: string, note: string): Promise<PMSWriteResult> {
+    return this.appLog('add_reservation_note', { reservationId }, async () => {
+      // Mews keeps a single notes field per reservation, so append rather than replace
+      const existing = await this.fetchReservation(reservationId);
+      const notes = existing.Notes ? `${existing.Notes}\n${note}` : note;
+      await this.httpRequest('reservations/update', {
+        ReservationUpdates: [{ ReservationId: reservationId, Notes: { Value: notes } }],
+      });
+      return {};
+    });
+  }
+
+  async updateDepartureTime(reservationId: string, departure: string): Promise<PMSWriteResult> {
+    return this.appLog('update_departure_time', { reservationId, departure }, async () => {
+      await this.httpRequest('reservations/update', {
+        ReservationUpdates: [
+          { ReservationId: reservationId, EndUtc: { Value: toMewsUtc(new Date(departure)) } },
+        ],
+      });
+      return {};
+    });
+  }
+
+  async setRoomOutOfOrder(roomNumber: string, input: RoomOutOfOrderInput): Promise<PMSWriteResult> {
+    return this.appLog('set_room_out_of_order', { roomNumber }, async () => {
+      const response = await this.httpRequest<{ Resources: MewsResource[] }>('resources/getAll', {
+        EnterpriseIds: [this.propertyId],
+      });
+      const resource = response.Resources.find((r) => r.Number === roomNumber);
+      if (!resource) throw new Error(`Room ${roomNumber} not found in Mews`);
+
+      const result = await this.httpRequest<{ ResourceBlocks: Array<{ Id: string }> }>(
+        'resourceBlocks/add',
+        {
+          ResourceBlocks: [
+            {
+              AssignedResourceId: resource.Id,
+              StartUtc: toMewsUtc(new Date(input.from)),
+              EndUtc: toMewsUtc(new Date(input.until)),
+              Type: 'OutOfOrder',
+              Name: input.reason.slice(0, 255),
+              Notes: input.reason,
+            },
+          ],
+        }
+      );
+
+      const blockId = result.ResourceBlocks[0]?.Id;
+      return blockId ? { externalId: blockId } : {};
+    });
+  }
+
+  async postServiceCharge(reservationId: string, charge: ServiceChargeInput): Promise<PMSWriteResult> {
+    return this.appLog('post_service_charge', { reservationId, amount: charge.amount }, async () => {
+      if (!this.chargeServiceId) {
+        throw new Error('Set a Charge Service ID in the Mews app settings to post charges');
+      }
+      if (!charge.currency) {
+        throw new Error('Mews charges need a currency');
+      }
+
+      const reservation = await this.fetchReservation(reservationId);
+      const result = await this.httpRequest<{ OrderId: string }>('orders/add', {
+        ServiceId: this.chargeServiceId,
+        AccountId: reservation.CustomerId,
+        LinkedReservationId: reservationId,
+        Items: [
+          {
+            Name: charge.description,
+            UnitCount: 1,
+            UnitAmount: { Currency: charge.currency, GrossValue: charge.amount },
+          },
+        ],
+      });
+
+      return { externalId: result.OrderId };
+    });
+  }
+
   // ==================
   // Webhooks
   // ==================
@@ -629,6 +718,16 @@ export class MewsPMSAdapter implements PMSAdapter {
   // Internal Helpers
   // ==================
 
+  private async fetchReservation(reservationId: string): Promise<MewsReservation> {
+    const response = await this.httpRequest<{ Reservations: MewsReservation[] }>(
+      'reservations/getAll',
+      { ReservationIds: [reservationId] }
+    );
+    const res = response.Reservations[0];
+    if (!res) throw new Error(`Reservation ${reservationId} not found in Mews`);
+    return res;
+  }
+
   private async searchCustomersByEmail(email: string): Promise<MewsCustomer[]> {
     const response = await this.httpRequest<{ Results: MewsCustomer[] }>('customers/search', {
       Email: email,
@@ -887,12 +986,20 @@ export const manifest: PMSAppManifest = {
       default: 300,
       description: 'How often to poll Mews for updated reservations. Default: 300 (5 min).',
     },
+    {
+      key: 'chargeServiceId',
+      label: 'Charge Service ID',
+      type: 'text',
+      required: false,
+      description: 'Mews additional service that guest charges are posted to (e.g. Room Service). Leave blank to disable charges.',
+    },
   ],
   features: {
     reservations: true,
     guests: true,
     rooms: true,
     webhooks: true,
+    writeBack: true,
   },
   createAdapter: (config, context) => createMewsPMSAdapter(config as unknown as MewsConfig, context),
 };
@@ -16,6 +16,9 @@ import type {
   PMSEvent,
   PMSEventType,
   PMSAppManifest,
+  PMSWriteResult,
+  RoomOutOfOrderInput,
+  ServiceChargeInput,
   PluginContext,
 } from '@jackthebutler/shared';
 
@@ -34,6 +37,9 @@ export class MockPMSAdapter implements PMSAdapter {
   private guestByPhone = new Map<string, string>(); // phone -> guestId
   private guestByEmail = new Map<string, string>(); // email -> guestId
   private reservationByConfirmation = new Map<string, string>(); // confirmation -> reservationId
+  private departureTimes = new Map<string, string>(); // reservationId -> ISO datetime
+  private charges = new Map<string, Array<ServiceChargeInput & { id: string }>>(); // reservationId -> charges
+  private writeCount = 0;
 
   constructor(_config: MockPMSConfig, _context: PluginContext) {
     this.seedDefaultData();
@@ -134,6 +140,37 @@ export class MockPMSAdapter implements PMSAdapter {
     return Array.from(this.rooms.values());
   }
 
+  // ==================
+  // Write-back
+  // ==================
+
+  async addReservationNote(reservationId: string, note: string): Promise<PMSWriteResult> {
+    const reservation = this.requireReservation(reservationId);
+    reservation.notes = [...(reservation.notes ?? []), note];
+    return { externalId: this.nextWriteId('note') };
+  }
+
+  async updateDepartureTime(reservationId: string, departure: string): Promise<PMSWriteResult> {
+    const reservation = this.requireReservation(reservationId);
+    reservation.departureDate = departure.split('T')[0]!;
+    this.departureTimes.set(reservationId, departure);
+    return {};
+  }
+
+  async setRoomOutOfOrder(roomNumber: string, _input: RoomOutOfOrderInput): Promise<PMSWriteResult> {
+    const room = this.rooms.get(roomNumber);
+    if (!room) throw new Error(`Room not found: ${roomNumber}`);
+    room.status = 'out_of_order';
+    return { externalId: this.nextWriteId('block') };
+  }
+
+  async postServiceCharge(reservationId: string, charge: ServiceChargeInput): Promise<PMSWriteResult> {
+    this.requireReservation(reservationId);
+    const id = this.nextWriteId('charge');
+    this.charges.set(reservationId, [...(this.charges.get(reservationId) ?? []), { ...charge, id }]);
+    return { externalId: id };
+  }
+
   // ==================
   // Webhooks
   // ==================
@@ -203,7 +240,19 @@ export class MockPMSAdapter implements PMSAdapter {
     this.addGuest(reservation.guest);
   }
 
+  /** Departure time set by `updateDepartureTime`, if any */
+  getDepartureTime(reservationId: string): string | undefined {
+    return this.departureTimes.get(reservationId);
+  }
+
+  /** Charges posted by `postServiceCharge` */
+  getCharges(reservationId: string): Array<ServiceChargeInput & { id: string }> {
+    return this.charges.get(reservationId) ?? [];
+  }
+
   clear(): void {
+    this.departureTimes.clear();
+    this.charges.clear();
     this.reservations.clear();
     this.guests.clear();
     this.rooms.clear();
@@ -212,6 +261,16 @@ export class MockPMSAdapter implements PMSAdapter {
     this.reservationByConfirmation.clear();
   }
 
+  private requireReservation(reservationId: string): NormalizedReservation {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) throw new Error(`Reservation not found: ${reservationId}`);
+    return reservation;
+  }
+
+  private nextWriteId(kind: string): string {
+    return `mock-${kind}-${++this.writeCount}`;
+  }
+
   private seedDefaultData(): void {
     const today = new Date();
     const tomorrow = new Date(today);
@@ -355,6 +414,7 @@ export const manifest: PMSAppManifest = {
     guests: true,
     rooms: true,
     webhooks: true,
+    writeBack: true,
   },
   createAdapter: (config, context) => createMockPMSAdapter(config as unknown as MockPMSConfig, context),
 };
@@ -72,11 +72,67 @@ export interface EmbeddingResponse {
   usage?: TokenUsage | undefined;
 }
 
+/**
+ * Speech-to-text request (e.g. a guest voice note)
+ */
+export interface TranscriptionRequest {
+  /** Encoded audio file as received from the channel */
+  audio: Uint8Array;
+  /** MIME type of `audio`, e.g. `audio/ogg` */
+  mimeType: string;
+  /** Spoken language hint (BCP-47); detected when omitted */
+  language?: string | undefined;
+  purpose?: string | undefined;
+}
+
+/**
+ * Speech-to-text response
+ */
+export interface TranscriptionResponse {
+  text: string;
+}
+
+/**
+ * Image description request (e.g. a guest photo)
+ */
+export interface ImageDescriptionRequest {
+  /** Encoded image file as received from the channel */
+  image: Uint8Array;
+  /** MIME type of `image`, e.g. `image/jpeg` */
+  mimeType: string;
+  /** What to describe; providers use a generic description prompt when omitted */
+  prompt?: string | undefined;
+  purpose?: string | undefined;
+}
+
+/**
+ * Image description response
+ */
+export interface ImageDescriptionResponse {
+  description: string;
+  usage?: TokenUsage | undefined;
+}
+
 /**
  * AI Provider interface — implement this to build an AI provider plugin.
+ *
+ * `stream` is optional. Providers that implement it should also set
+ * `capabilities.streaming` in their manifest; callers fall back to
+ * `complete` when it is missing. The same holds for `transcribe`
+ * (`capabilities.transcription`) and `describeImage` (`capabilities.vision`).
  */
 export interface AIProvider {
   readonly name: string;
   complete(request: CompletionRequest): Promise<CompletionResponse>;
+  /**
+   * Generate a completion, calling `onDelta` with each text chunk as it
+   * arrives. Resolves with the full response (content + usage) once the
+   * stream ends.
+   */
+  stream?(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse>;
   embed(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+  /** Transcribe speech audio to text. */
+  transcribe?(request: TranscriptionRequest): Promise<TranscriptionResponse>;
+  /** Describe the contents of an image in plain text. */
+  describeImage?(request: ImageDescriptionRequest): Promise<ImageDescriptionResponse>;
 }
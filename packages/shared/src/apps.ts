@@ -180,6 +180,10 @@ export interface AIAppManifest extends AppManifest {
     completion: boolean;
     embedding: boolean;
     streaming?: boolean;
+    /** Implements `transcribe` (speech-to-text) */
+    transcription?: boolean;
+    /** Implements `describeImage` */
+    vision?: boolean;
   };
 }
 
@@ -209,6 +213,8 @@ export interface PMSAppManifest extends AppManifest {
     guests: boolean;
     rooms: boolean;
     webhooks?: boolean;
+    /** Implements one or more of the PMSAdapter write methods */
+    writeBack?: boolean;
   };
 }
 
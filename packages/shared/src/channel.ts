@@ -50,6 +50,43 @@ export interface OutboundMessage {
   metadata?: Record<string, unknown> | undefined;
 }
 
+/**
+ * A media file (photo, voice note) downloaded from a channel provider
+ */
+export interface DownloadedMedia {
+  data: Uint8Array;
+  /** MIME type as reported by the provider */
+  mimeType: string;
+}
+
+/**
+ * A pre-approved message template as listed by the provider (WhatsApp
+ * Business). Body variables are written `{{1}}`, `{{2}}`, ...
+ */
+export interface MessageTemplate {
+  name: string;
+  /** Provider language code, e.g. `en_US`, `fr` */
+  language: string;
+  category: string;
+  /** Provider review status, e.g. APPROVED, PENDING, REJECTED */
+  status: string;
+  /** Body text with its `{{n}}` placeholders */
+  body: string;
+  /** Number of body variables */
+  parameterCount: number;
+}
+
+/**
+ * Send a template instead of free-form text. Set as `metadata.template` on
+ * an OutboundMessage; adapters with `features.templates` honour it.
+ */
+export interface TemplateMessage {
+  name: string;
+  language: string;
+  /** Values for the body variables, in order */
+  parameters: string[];
+}
+
 /**
  * Channel Adapter interface — implement this to build a channel plugin.
  */
@@ -59,4 +96,23 @@ export interface ChannelAdapter {
   send(message: OutboundMessage): Promise<SendResult>;
   parseIncoming?(raw: unknown): Promise<InboundMessage>;
   verifySignature?(payload: unknown, signature: string): boolean;
+  /** Approved and pending templates (channels with `features.templates`) */
+  listTemplates?(): Promise<MessageTemplate[]>;
+}
+
+/**
+ * Inbound email, normalized from a provider parse webhook or an IMAP fetch.
+ * Header names in `headers` are lower-cased.
+ */
+export interface InboundEmail {
+  from: string;
+  to?: string | undefined;
+  subject: string;
+  text: string;
+  html?: string | undefined;
+  messageId?: string | undefined;
+  inReplyTo?: string | undefined;
+  references?: string[] | undefined;
+  headers?: Record<string, string> | undefined;
+  receivedAt?: Date | undefined;
 }
@@ -13,6 +13,10 @@ export type {
   InboundMessage,
   OutboundMessage,
   ChannelAdapter,
+  InboundEmail,
+  DownloadedMedia,
+  MessageTemplate,
+  TemplateMessage,
 } from './channel.js';
 
 // AI types
@@ -25,6 +29,10 @@ export type {
   CompletionResponse,
   EmbeddingRequest,
   EmbeddingResponse,
+  TranscriptionRequest,
+  TranscriptionResponse,
+  ImageDescriptionRequest,
+  ImageDescriptionResponse,
   AIProvider,
 } from './ai.js';
 
@@ -41,6 +49,9 @@ export type {
   PMSEvent,
   ReservationQuery,
   PMSAdapter,
+  RoomOutOfOrderInput,
+  ServiceChargeInput,
+  PMSWriteResult,
   SyncResult,
 } from './pms.js';
 
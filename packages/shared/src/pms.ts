@@ -139,8 +139,37 @@ export interface ReservationQuery {
   limit?: number;
 }
 
+/**
+ * Room taken out of order in the PMS (e.g. a broken AC reported by a guest)
+ */
+export interface RoomOutOfOrderInput {
+  reason: string;
+  from: string; // ISO datetime
+  until: string; // ISO datetime
+}
+
+/**
+ * Extra charged to a reservation's folio (e.g. a room service order)
+ */
+export interface ServiceChargeInput {
+  description: string;
+  amount: number;
+  currency?: string;
+}
+
+/**
+ * Outcome of a PMS write
+ */
+export interface PMSWriteResult {
+  /** ID the PMS gave the note, block or charge, when it returns one */
+  externalId?: string;
+}
+
 /**
  * PMS Adapter interface — implement this to build a PMS plugin.
+ *
+ * The write methods are optional: implement the ones the PMS API supports
+ * and set `features.writeBack` in the manifest. Writes throw on failure.
  */
 export interface PMSAdapter {
   readonly provider: IntegrationSource;
@@ -155,6 +184,11 @@ export interface PMSAdapter {
   searchGuests(query: string): Promise<NormalizedGuest[]>;
   getRoomStatus(roomNumber: string): Promise<NormalizedRoom | null>;
   getAllRooms(): Promise<NormalizedRoom[]>;
+  addReservationNote?(reservationId: string, note: string): Promise<PMSWriteResult>;
+  /** `departure` is an ISO datetime — a late checkout moves the time, not just the date */
+  updateDepartureTime?(reservationId: string, departure: string): Promise<PMSWriteResult>;
+  setRoomOutOfOrder?(roomNumber: string, input: RoomOutOfOrderInput): Promise<PMSWriteResult>;
+  postServiceCharge?(reservationId: string, charge: ServiceChargeInput): Promise<PMSWriteResult>;
   parseWebhook?(payload: unknown, headers?: Record<string, string>): Promise<PMSEvent | null>;
   verifyWebhookSignature?(payload: string, signature: string): boolean;
 }
@@ -7,6 +7,10 @@
  * Phase 2: Persistent sessions via token in localStorage.
  * Multiple tabs with the same token share a single session and conversation.
  *
+ * AI replies stream: `{ type: 'delta', streamId, content }` frames carry
+ * partial text while the response is generated, then the usual `message`
+ * frame with the same `streamId` replaces the draft with the final text.
+ *
  * @module apps/channels/webchat
  */
 
@@ -243,7 +247,7 @@ async function handleGuestConnectionAsync(ws: GuestSocket, req: IncomingMessage)
   // If restored and has a conversation, send history
   if (restored && session.conversationId) {
     try {
-      const messages = await conversationService.getMessages(session.conversationId, { limit: 50 });
+      const messages = await conversationService.getMessages(session.conversationId, { limit: 50, excludeInternal: true });
       ws.send(
         JSON.stringify({
           type: 'history',
@@ -376,7 +380,7 @@ async function handleGuestConnectionAsync(ws: GuestSocket, req: IncomingMessage)
  * The responder owns the prompt — we just pass the data.
  */
 async function buildChannelActions(verificationStatus?: string) {
-  const actions = webchatActionService.getActions();
+  const actions = await webchatActionService.getActions();
   return {
     actions: actions.map((a) => ({
       id: a.id,
@@ -429,8 +433,15 @@ async function handleGuestMessage(
     },
   };
 
-  // Process through the core message pipeline
-  const response = await processMessage(inbound);
+  // Process through the core message pipeline, streaming partial text to
+  // all tabs. The final message carries the same streamId so the widget
+  // swaps its draft for the authoritative content.
+  const streamId = inbound.id;
+  const response = await processMessage(inbound, {
+    onDelta: (delta) => {
+      webchatConnectionManager.send(sessionId, { type: 'delta', streamId, content: delta });
+    },
+  });
 
   // Link conversation to session (idempotent — cheap UPDATE on every message)
   await webchatSessionService.linkConversation(sessionId, response.conversationId);
@@ -441,7 +452,7 @@ async function handleGuestMessage(
   let actionMeta: { id: string } | undefined;
   if (suggestedAction) {
     // Validate the action exists before sending to client
-    const action = webchatActionService.getAction(suggestedAction);
+    const action = await webchatActionService.getAction(suggestedAction);
     if (action) {
       actionMeta = { id: suggestedAction };
     } else {
@@ -456,6 +467,7 @@ async function handleGuestMessage(
     senderType: 'ai',
     content: response.content,
     conversationId: response.conversationId,
+    streamId,
     timestamp: now(),
     ...(actionMeta ? { action: actionMeta } : {}),
     ...(quickReplies?.length ? { quickReplies } : {}),
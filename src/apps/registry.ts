@@ -423,6 +423,42 @@ export class AppRegistry {
     return undefined;
   }
 
+  /**
+   * Get a provider that can describe images
+   * Only cloud providers declare vision; there is no local fallback
+   */
+  getVisionProvider(): AIProvider | undefined {
+    for (const [id, ext] of this.apps) {
+      if (ext.manifest.category === 'ai' && ext.status === 'active') {
+        const manifest = ext.manifest as AIAppManifest;
+        if (manifest.capabilities?.vision) {
+          return this.aiProviders.get(id);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get a provider that can transcribe speech
+   * Priority: User-configured provider (non-local) > Local (Whisper, works offline)
+   */
+  getTranscriptionProvider(): AIProvider | undefined {
+    for (const [id, ext] of this.apps) {
+      if (ext.manifest.category === 'ai' && ext.status === 'active' && id !== 'local') {
+        const manifest = ext.manifest as AIAppManifest;
+        if (manifest.capabilities?.transcription) {
+          return this.aiProviders.get(id);
+        }
+      }
+    }
+    const localExt = this.apps.get('local');
+    if (localExt?.status === 'active' && (localExt.manifest as AIAppManifest).capabilities?.transcription) {
+      return this.aiProviders.get('local');
+    }
+    return undefined;
+  }
+
   /**
    * Get a channel adapter by app ID
    */
@@ -440,6 +476,20 @@ export class AppRegistry {
     return undefined;
   }
 
+  /**
+   * Get the active adapter for a channel type whose app manages message
+   * templates (`features.templates`)
+   */
+  getTemplateAdapter(channelType: ChannelType): ChannelAdapter | undefined {
+    for (const [id, ext] of this.apps) {
+      if (ext.manifest.category !== 'channel' || ext.status !== 'active') continue;
+      if (!(ext.manifest as ChannelAppManifest).features.templates) continue;
+      const adapter = this.channelAdapters.get(id);
+      if (adapter?.channel === channelType && adapter.listTemplates) return adapter;
+    }
+    return undefined;
+  }
+
   /**
    * Get all active channel adapters
    */
@@ -35,13 +35,24 @@ export interface DeduplicationResult {
   duplicates: DuplicatePair[];
 }
 
+/**
+ * Deduplication options
+ */
+export interface DeduplicationOptions {
+  /** Ignore existing entries from this source (e.g. the document being re-imported) */
+  excludeSourceUrl?: string | undefined;
+}
+
 const SIMILARITY_THRESHOLD = 0.90;
 
 /**
  * Deduplicate entries using semantic similarity.
  * Compares new-vs-new and new-vs-existing knowledge base entries.
  */
-export async function deduplicateEntries(entries: AIExtractedEntry[]): Promise<DeduplicationResult> {
+export async function deduplicateEntries(
+  entries: AIExtractedEntry[],
+  options: DeduplicationOptions = {}
+): Promise<DeduplicationResult> {
   const registry = getAppRegistry();
   const embeddingProvider = registry.getEmbeddingProvider();
 
@@ -51,7 +62,7 @@ export async function deduplicateEntries(entries: AIExtractedEntry[]): Promise<D
   }
 
   try {
-    return await semanticDedup(entries, embeddingProvider);
+    return await semanticDedup(entries, embeddingProvider, options);
   } catch (error) {
     logger.error({ error }, 'Semantic dedup failed, falling back to Levenshtein');
     return levenshteinDedup(entries);
@@ -64,7 +75,8 @@ export async function deduplicateEntries(entries: AIExtractedEntry[]): Promise<D
 async function semanticDedup(
   entries: AIExtractedEntry[],
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  embeddingProvider: any
+  embeddingProvider: any,
+  options: DeduplicationOptions
 ): Promise<DeduplicationResult> {
   const duplicates: DuplicatePair[] = [];
 
@@ -87,21 +99,24 @@ async function semanticDedup(
 
   // Build a map of existing KB titles
   const existingTitleMap = new Map<string, string>();
+  const excludedIds = new Set<string>();
   if (existingRows.length > 0) {
     const existingIds = existingRows.map((r) => r.id);
     for (const eid of existingIds) {
       const kbEntry = await db
-        .select({ title: knowledgeBase.title })
+        .select({ title: knowledgeBase.title, sourceUrl: knowledgeBase.sourceUrl })
         .from(knowledgeBase)
         .where(eq(knowledgeBase.id, eid))
         .get();
-      if (kbEntry) {
+      if (options.excludeSourceUrl && kbEntry?.sourceUrl === options.excludeSourceUrl) {
+        excludedIds.add(eid);
+      } else if (kbEntry) {
         existingTitleMap.set(eid, kbEntry.title);
       }
     }
   }
 
-  const existingEmbeddings = existingRows.map((r) => ({
+  const existingEmbeddings = existingRows.filter((r) => !excludedIds.has(r.id)).map((r) => ({
     id: r.id,
     embedding: Array.from(new Float32Array((r.embedding as Buffer).buffer)),
   }));
@@ -24,4 +24,9 @@ export {
 export { htmlToCleanText, type CleanTextResult } from './html-to-text.js';
 export { extractContentWithAI, type AIExtractedEntry, type AIExtractionContext } from './ai-parser.js';
 export { generateQAPairs, type GeneratedQA } from './qa-generator.js';
-export { deduplicateEntries, type DuplicatePair, type DeduplicationResult } from './deduplicator.js';
+export {
+  deduplicateEntries,
+  type DuplicatePair,
+  type DeduplicationResult,
+  type DeduplicationOptions,
+} from './deduplicator.js';
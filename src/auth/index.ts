@@ -11,6 +11,7 @@ import { db, staff, roles } from '@/db/index.js';
 import { loadConfig } from '@/config/index.js';
 import { UnauthorizedError, NotFoundError, ForbiddenError } from '@/errors/index.js';
 import { authSettingsService } from './settings.js';
+import { twoFactorService } from './two-factor.js';
 import { createLogger } from '@/utils/logger.js';
 import { WILDCARD_PERMISSION } from '@/permissions/index.js';
 import { now } from '@/utils/time.js';
@@ -23,6 +24,29 @@ export interface TokenPair {
   expiresIn: number;
 }
 
+/**
+ * Returned by login instead of tokens when a second factor is needed.
+ * `verify`: enter a TOTP or recovery code; `enroll`: the role requires 2FA
+ * and the user has not set it up yet.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  method: 'verify' | 'enroll';
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResult = TokenPair | TwoFactorChallenge;
+
+export interface ChallengeClaims {
+  userId: string;
+  method: TwoFactorChallenge['method'];
+  rememberMe: boolean;
+}
+
+/** Lifetime of a 2FA challenge token in seconds */
+const CHALLENGE_EXPIRES_IN = 5 * 60;
+
 export interface UserInfo {
   id: string;
   email: string;
@@ -32,6 +56,7 @@ export interface UserInfo {
   permissions: string[];
   emailVerified: boolean;
   emailVerificationDeadline: string | null;
+  twoFactorEnabled: boolean;
 }
 
 export class AuthService {
@@ -43,9 +68,11 @@ export class AuthService {
   }
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password.
+   * Returns a 2FA challenge instead of tokens when the user has 2FA enabled
+   * or their role requires it.
    */
-  async login(email: string, password: string, rememberMe = false): Promise<TokenPair> {
+  async login(email: string, password: string, rememberMe = false): Promise<LoginResult> {
     const [user] = await db.select().from(staff).where(eq(staff.email, email)).limit(1);
 
     if (!user) {
@@ -53,13 +80,14 @@ export class AuthService {
       throw new UnauthorizedError('Invalid credentials');
     }
 
-    // Verify password
-    if (user.passwordHash) {
-      const isValid = await this.verifyPassword(password, user.passwordHash);
-      if (!isValid) {
-        log.warn({ email }, 'Invalid password attempt');
-        throw new UnauthorizedError('Invalid credentials');
-      }
+    // Verify password (SSO-provisioned accounts have none)
+    if (!user.passwordHash || !(await this.verifyPassword(password, user.passwordHash))) {
+      log.warn({ email }, 'Invalid password attempt');
+      throw new UnauthorizedError('Invalid credentials');
+    }
+
+    if (await authSettingsService.isPasswordLoginDisabled(user.roleId)) {
+      throw new ForbiddenError('Password sign-in is disabled for your role. Use single sign-on.', { reason: 'SSO_REQUIRED' });
     }
 
     // Check approval status
@@ -95,8 +123,29 @@ export class AuthService {
       throw new UnauthorizedError('Account is not active');
     }
 
+    // Second factor
+    if (user.totpEnabledAt) {
+      return this.createChallenge(user.id, 'verify', rememberMe);
+    }
+    if (await twoFactorService.isRequiredForRole(user.roleId)) {
+      return this.createChallenge(user.id, 'enroll', rememberMe);
+    }
+
     log.info({ userId: user.id, email, rememberMe }, 'User logged in');
 
+    return this.completeLogin(user.id, rememberMe);
+  }
+
+  /**
+   * Issue tokens once every login factor has been checked.
+   * `sso` marks sessions started through the identity provider.
+   */
+  async completeLogin(userId: string, rememberMe = false, sso = false): Promise<TokenPair> {
+    const [user] = await db.select().from(staff).where(eq(staff.id, userId)).limit(1);
+    if (!user || user.status !== 'active') {
+      throw new UnauthorizedError('User not found or inactive');
+    }
+
     // Update last active time
     await db
       .update(staff)
@@ -106,7 +155,32 @@ export class AuthService {
     // Get user permissions from role
     const permissions = await this.getUserPermissions(user.id, user.roleId);
 
-    return this.generateTokens(user.id, user.roleId, permissions, rememberMe);
+    return this.generateTokens(user.id, user.roleId, permissions, rememberMe, sso);
+  }
+
+  /**
+   * Verify a 2FA challenge token issued by login
+   */
+  async verifyChallenge(challengeToken: string): Promise<ChallengeClaims> {
+    try {
+      const { payload } = await jwtVerify(challengeToken, this.secret);
+
+      if (payload.type !== '2fa_challenge') {
+        throw new UnauthorizedError('Invalid token type');
+      }
+
+      return {
+        userId: payload.sub as string,
+        method: payload.method as ChallengeClaims['method'],
+        rememberMe: payload.rememberMe === true,
+      };
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        throw error;
+      }
+      log.debug({ error }, 'Challenge token verification failed');
+      throw new UnauthorizedError('Invalid or expired two-factor challenge');
+    }
   }
 
   /**
@@ -127,10 +201,20 @@ export class AuthService {
         throw new UnauthorizedError('User not found or inactive');
       }
 
+      // Force a fresh login if the role now requires a sign-in method this
+      // session did not use (SSO sessions leave MFA to the identity provider)
+      const sso = payload.sso === true;
+      if (!sso && !user.totpEnabledAt && (await twoFactorService.isRequiredForRole(user.roleId))) {
+        throw new UnauthorizedError('Two-factor authentication is required');
+      }
+      if (!sso && (await authSettingsService.isPasswordLoginDisabled(user.roleId))) {
+        throw new UnauthorizedError('Single sign-on is required');
+      }
+
       // Re-fetch permissions on refresh (in case role changed)
       const permissions = await this.getUserPermissions(user.id, user.roleId);
 
-      return this.generateTokens(user.id, user.roleId, permissions);
+      return this.generateTokens(user.id, user.roleId, permissions, false, sso);
     } catch (error) {
       if (error instanceof UnauthorizedError) {
         throw error;
@@ -176,6 +260,7 @@ export class AuthService {
       permissions,
       emailVerified: user.emailVerified,
       emailVerificationDeadline,
+      twoFactorEnabled: !!user.totpEnabledAt,
     };
   }
 
@@ -186,7 +271,8 @@ export class AuthService {
     userId: string,
     roleId: string,
     permissions: string[],
-    rememberMe = false
+    rememberMe = false,
+    sso = false
   ): Promise<TokenPair> {
     const now = Math.floor(Date.now() / 1000);
     const accessExpiresIn = 15 * 60; // 15 minutes
@@ -199,7 +285,7 @@ export class AuthService {
       .setExpirationTime(now + accessExpiresIn)
       .sign(this.secret);
 
-    const refreshToken = await new SignJWT({ sub: userId, type: 'refresh' })
+    const refreshToken = await new SignJWT({ sub: userId, type: 'refresh', ...(sso && { sso }) })
       .setProtectedHeader({ alg: 'HS256' })
       .setIssuedAt(now)
       .setExpirationTime(now + refreshExpiresIn)
@@ -213,15 +299,49 @@ export class AuthService {
   }
 
   /**
-   * Generate tokens for a user by ID (used after email verification auto-login)
+   * Create a short-lived token that carries a half-finished login to the
+   * 2FA endpoints
+   */
+  private async createChallenge(
+    userId: string,
+    method: TwoFactorChallenge['method'],
+    rememberMe: boolean
+  ): Promise<TwoFactorChallenge> {
+    const now = Math.floor(Date.now() / 1000);
+
+    const challengeToken = await new SignJWT({ sub: userId, method, rememberMe, type: '2fa_challenge' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuedAt(now)
+      .setExpirationTime(now + CHALLENGE_EXPIRES_IN)
+      .sign(this.secret);
+
+    log.info({ userId, method }, 'Two-factor challenge issued');
+
+    return { twoFactorRequired: true, method, challengeToken, expiresIn: CHALLENGE_EXPIRES_IN };
+  }
+
+  /**
+   * Log a user in straight after registration or email verification, with
+   * the same SSO and second-factor checks as login. Returns null when the
+   * role must sign in through SSO.
    */
-  async generateTokensForUser(userId: string): Promise<TokenPair> {
+  async autoLogin(userId: string): Promise<LoginResult | null> {
     const [user] = await db.select().from(staff).where(eq(staff.id, userId)).limit(1);
     if (!user || user.status !== 'active') {
       throw new UnauthorizedError('User not found or inactive');
     }
-    const permissions = await this.getUserPermissions(user.id, user.roleId);
-    return this.generateTokens(user.id, user.roleId, permissions);
+
+    if (await authSettingsService.isPasswordLoginDisabled(user.roleId)) {
+      return null;
+    }
+    if (user.totpEnabledAt) {
+      return this.createChallenge(user.id, 'verify', false);
+    }
+    if (await twoFactorService.isRequiredForRole(user.roleId)) {
+      return this.createChallenge(user.id, 'enroll', false);
+    }
+
+    return this.completeLogin(user.id);
   }
 
   /**
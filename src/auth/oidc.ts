@@ -0,0 +1,364 @@
+/**
+ * OpenID Connect Single Sign-On
+ *
+ * Authorization code flow with PKCE against any OIDC provider (Google
+ * Workspace, Microsoft Entra ID, Okta, Keycloak...). Staff accounts are
+ * matched by OIDC subject, then by verified email, and can be created on
+ * first login. IdP groups map to roles through `roleMappings` and are
+ * re-applied on every SSO login.
+ *
+ * Multi-factor authentication is left to the IdP: SSO logins skip the
+ * local TOTP step.
+ *
+ * @module auth/oidc
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { SignJWT, jwtVerify, createRemoteJWKSet, type JWTPayload } from 'jose';
+import { eq } from 'drizzle-orm';
+import { db, staff } from '@/db/index.js';
+import { loadConfig, getAppUrl } from '@/config/index.js';
+import { AppError, ForbiddenError, NotFoundError, UnauthorizedError } from '@/errors/index.js';
+import { staffService } from '@/services/staff.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+import { authService, type TokenPair } from './index.js';
+import { authSettingsService, type OidcSettings } from './settings.js';
+
+const log = createLogger('oidc');
+
+/** Lifetime of the login state cookie in seconds */
+export const OIDC_STATE_EXPIRES_IN = 10 * 60;
+
+/** Lifetime of a one-time handoff code in milliseconds */
+const HANDOFF_TTL_MS = 60 * 1000;
+
+/** How long a discovery document is reused */
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+
+// ===================
+// Types
+// ===================
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcAuthorization {
+  /** IdP authorization URL to redirect the browser to */
+  url: string;
+  /** Signed state to keep in a cookie until the callback */
+  stateToken: string;
+}
+
+export interface OidcLoginResult {
+  staffId: string;
+  email: string;
+  /** The staff account was created by this login */
+  provisioned: boolean;
+  tokens: TokenPair;
+}
+
+// ===================
+// Service
+// ===================
+
+export class OidcService {
+  private secret = new TextEncoder().encode(loadConfig().jwt.secret);
+  private discovery = new Map<string, { doc: DiscoveryDocument; expiresAt: number }>();
+  private jwks = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+  private handoffs = new Map<string, { tokens: TokenPair; expiresAt: number }>();
+
+  /**
+   * Callback URL registered with the IdP
+   */
+  getRedirectUri(): string {
+    return `${getAppUrl()}/api/v1/auth/oidc/callback`;
+  }
+
+  /**
+   * Start a login: build the IdP authorization URL and the state that the
+   * callback must present
+   */
+  async createAuthorization(): Promise<OidcAuthorization> {
+    const settings = await this.getEnabledSettings();
+    const discovery = await this.getDiscovery(settings.issuer);
+
+    const state = randomBytes(16).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const verifier = randomBytes(32).toString('base64url');
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: settings.clientId,
+      redirect_uri: this.getRedirectUri(),
+      scope: settings.scopes,
+      state,
+      nonce,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    const iat = Math.floor(Date.now() / 1000);
+    const stateToken = await new SignJWT({ state, nonce, verifier, type: 'oidc_state' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuedAt(iat)
+      .setExpirationTime(iat + OIDC_STATE_EXPIRES_IN)
+      .sign(this.secret);
+
+    return { url: url.toString(), stateToken };
+  }
+
+  /**
+   * Finish a login: exchange the code, verify the ID token, then find,
+   * link or provision the staff account and issue tokens
+   */
+  async handleCallback(code: string, state: string, stateToken: string | undefined): Promise<OidcLoginResult> {
+    const settings = await this.getEnabledSettings();
+    const { nonce, verifier } = await this.verifyState(state, stateToken);
+    const discovery = await this.getDiscovery(settings.issuer);
+
+    const idToken = await this.exchangeCode(discovery, settings, code, verifier);
+    const claims = await this.verifyIdToken(discovery, settings, idToken, nonce);
+
+    return this.signIn(settings, claims);
+  }
+
+  /**
+   * Park tokens behind a one-time code so they never appear in a URL
+   */
+  createHandoff(tokens: TokenPair): string {
+    const nowMs = Date.now();
+    for (const [key, entry] of this.handoffs) {
+      if (entry.expiresAt <= nowMs) this.handoffs.delete(key);
+    }
+
+    const code = randomBytes(24).toString('base64url');
+    this.handoffs.set(code, { tokens, expiresAt: nowMs + HANDOFF_TTL_MS });
+    return code;
+  }
+
+  /**
+   * Redeem a handoff code (single use)
+   */
+  redeemHandoff(code: string): TokenPair {
+    const entry = this.handoffs.get(code);
+    this.handoffs.delete(code);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      throw new UnauthorizedError('Invalid or expired sign-in code');
+    }
+    return entry.tokens;
+  }
+
+  private async getEnabledSettings(): Promise<OidcSettings> {
+    const settings = await authSettingsService.getOidc();
+    if (!settings.enabled) {
+      throw new ForbiddenError('Single sign-on is not enabled');
+    }
+    return settings;
+  }
+
+  private async verifyState(state: string, stateToken: string | undefined): Promise<{ nonce: string; verifier: string }> {
+    if (!stateToken) {
+      throw new UnauthorizedError('Sign-in session expired. Please try again.');
+    }
+
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(stateToken, this.secret));
+    } catch {
+      throw new UnauthorizedError('Sign-in session expired. Please try again.');
+    }
+
+    if (payload.type !== 'oidc_state' || payload.state !== state) {
+      throw new UnauthorizedError('Invalid sign-in state');
+    }
+
+    return { nonce: payload.nonce as string, verifier: payload.verifier as string };
+  }
+
+  private async exchangeCode(
+    discovery: DiscoveryDocument,
+    settings: OidcSettings,
+    code: string,
+    verifier: string
+  ): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(),
+      code_verifier: verifier,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    // client_secret_basic is the spec default; fall back to post if the IdP only lists that
+    const methods = discovery.token_endpoint_auth_methods_supported;
+    if (methods && !methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+      body.set('client_id', settings.clientId);
+      body.set('client_secret', settings.clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      log.warn({ status: response.status, body: await response.text() }, 'OIDC token exchange failed');
+      throw new UnauthorizedError('Sign-in with your identity provider failed');
+    }
+
+    const data = (await response.json()) as { id_token?: string };
+    if (!data.id_token) {
+      throw new UnauthorizedError('Identity provider did not return an ID token');
+    }
+    return data.id_token;
+  }
+
+  private async verifyIdToken(
+    discovery: DiscoveryDocument,
+    settings: OidcSettings,
+    idToken: string,
+    nonce: string
+  ): Promise<JWTPayload> {
+    let jwks = this.jwks.get(discovery.jwks_uri);
+    if (!jwks) {
+      jwks = createRemoteJWKSet(new URL(discovery.jwks_uri));
+      this.jwks.set(discovery.jwks_uri, jwks);
+    }
+
+    try {
+      const { payload } = await jwtVerify(idToken, jwks, {
+        issuer: discovery.issuer,
+        audience: settings.clientId,
+      });
+      if (payload.nonce !== nonce) {
+        throw new Error('nonce mismatch');
+      }
+      return payload;
+    } catch (error) {
+      log.warn({ error }, 'OIDC ID token rejected');
+      throw new UnauthorizedError('Invalid ID token from identity provider');
+    }
+  }
+
+  private async signIn(settings: OidcSettings, claims: JWTPayload): Promise<OidcLoginResult> {
+    const subject = claims.sub;
+    const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined;
+    if (!subject || !email) {
+      throw new ForbiddenError('Your identity provider did not share an email address');
+    }
+    if (claims.email_verified === false) {
+      throw new ForbiddenError('Your email address is not verified with your identity provider');
+    }
+
+    const mappedRoleId = this.resolveRole(settings, claims[settings.groupsClaim]);
+
+    let [member] = await db.select().from(staff).where(eq(staff.ssoSubject, subject)).limit(1);
+    let provisioned = false;
+
+    if (!member) {
+      [member] = await db.select().from(staff).where(eq(staff.email, email)).limit(1);
+      if (member?.ssoSubject) {
+        // Email already linked to a different IdP identity
+        throw new ForbiddenError('This email is linked to another single sign-on account');
+      }
+      if (member && claims.email_verified !== true) {
+        // Linking hands the account to whoever holds this IdP identity, so the
+        // provider must vouch for the address; a missing claim is not enough
+        throw new ForbiddenError('Your identity provider has not verified your email address');
+      }
+    }
+
+    if (!member) {
+      if (!settings.autoProvision) {
+        throw new ForbiddenError('No staff account exists for this email');
+      }
+      const roleId = mappedRoleId ?? settings.defaultRoleId;
+      if (!roleId) {
+        throw new ForbiddenError('None of your groups grant access to this dashboard');
+      }
+
+      const staffId = await staffService.register({
+        email,
+        name: typeof claims.name === 'string' && claims.name ? claims.name : email,
+        passwordHash: null,
+        roleId,
+        status: 'active',
+        emailVerified: true,
+        approvalStatus: 'approved',
+        ssoSubject: subject,
+      });
+      [member] = await db.select().from(staff).where(eq(staff.id, staffId)).limit(1);
+      provisioned = true;
+      log.info({ staffId, email, roleId }, 'Staff provisioned from SSO');
+    }
+
+    if (!member) {
+      throw new NotFoundError('Staff');
+    }
+    if (member.approvalStatus !== 'approved' || member.status !== 'active') {
+      throw new ForbiddenError('Account is not active');
+    }
+
+    // Link on first SSO login, keep the role in step with IdP groups
+    const updates: Partial<typeof staff.$inferInsert> = {};
+    if (member.ssoSubject !== subject) updates.ssoSubject = subject;
+    if (mappedRoleId && mappedRoleId !== member.roleId) updates.roleId = mappedRoleId;
+    if (!member.emailVerified) updates.emailVerified = true;
+    if (Object.keys(updates).length > 0) {
+      await db.update(staff).set({ ...updates, updatedAt: now() }).where(eq(staff.id, member.id));
+      log.info({ staffId: member.id, changes: Object.keys(updates) }, 'Staff updated from SSO');
+    }
+
+    const tokens = await authService.completeLogin(member.id, false, true);
+
+    log.info({ staffId: member.id, email, provisioned }, 'User logged in with SSO');
+
+    return { staffId: member.id, email, provisioned, tokens };
+  }
+
+  /**
+   * First role mapping whose value appears in the groups claim
+   */
+  private resolveRole(settings: OidcSettings, claim: unknown): string | null {
+    const values = Array.isArray(claim) ? claim.map(String) : typeof claim === 'string' ? [claim] : [];
+    const mapping = settings.roleMappings.find((m) => values.includes(m.value));
+    return mapping?.roleId ?? null;
+  }
+
+  private async getDiscovery(issuer: string): Promise<DiscoveryDocument> {
+    const cached = this.discovery.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.doc;
+    }
+
+    const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    let doc: DiscoveryDocument;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      doc = (await response.json()) as DiscoveryDocument;
+    } catch (error) {
+      log.error({ error, url }, 'OIDC discovery failed');
+      throw new AppError('Could not reach the identity provider', 'SSO_PROVIDER_ERROR', 502);
+    }
+
+    if (doc.issuer.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+      throw new AppError('Identity provider issuer does not match configuration', 'SSO_PROVIDER_ERROR', 502);
+    }
+
+    this.discovery.set(issuer, { doc, expiresAt: Date.now() + DISCOVERY_TTL_MS });
+    return doc;
+  }
+}
+
+export const oidcService = new OidcService();
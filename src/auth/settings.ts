@@ -7,15 +7,17 @@
  * @module auth/settings
  */
 
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
 import { db, roles } from '@/db/index.js';
 import { createLogger } from '@/utils/logger.js';
 import { ValidationError } from '@/errors/index.js';
+import { encrypt, decrypt } from '@/utils/crypto.js';
 import { settingsService } from '../services/settings.js';
 
 const log = createLogger('auth-settings');
 
 const SETTINGS_KEY = 'auth_settings';
+const OIDC_SETTINGS_KEY = 'oidc_settings';
 
 // ===================
 // Types
@@ -27,14 +29,73 @@ export interface AuthSettings {
   emailVerificationGraceDays: number;
   defaultRoleId: string | null;
   requireAdminApproval: boolean;
+  /** Roles whose members must use two-factor authentication to sign in */
+  twoFactorRequiredRoleIds: string[];
 }
 
+/**
+ * Maps an IdP group (or other claim value) to a role
+ */
+export interface OidcRoleMapping {
+  value: string;
+  roleId: string;
+}
+
+/**
+ * OpenID Connect single sign-on configuration
+ */
+export interface OidcSettings {
+  enabled: boolean;
+  /** Issuer URL; discovery is read from `<issuer>/.well-known/openid-configuration` */
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Text on the login page button */
+  buttonLabel: string;
+  scopes: string;
+  /** ID token claim holding the user's groups (e.g. `groups`, `roles`) */
+  groupsClaim: string;
+  /** First mapping whose value appears in the groups claim decides the role */
+  roleMappings: OidcRoleMapping[];
+  /** Role for new users no mapping matches; null refuses them */
+  defaultRoleId: string | null;
+  /** Create staff accounts on first SSO login */
+  autoProvision: boolean;
+  /** Roles that must sign in with SSO (enforced only while SSO is enabled) */
+  passwordLoginDisabledRoleIds: string[];
+}
+
+/**
+ * OIDC settings as returned to the dashboard (the client secret never leaves the server)
+ */
+export type OidcSettingsView = Omit<OidcSettings, 'clientSecret'> & { clientSecretSet: boolean };
+
+/**
+ * OIDC settings as stored (client secret encrypted)
+ */
+type StoredOidcSettings = Omit<OidcSettings, 'clientSecret'> & { clientSecretEncrypted?: string };
+
+const DEFAULT_OIDC_SETTINGS: OidcSettings = {
+  enabled: false,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  buttonLabel: 'Sign in with SSO',
+  scopes: 'openid email profile',
+  groupsClaim: 'groups',
+  roleMappings: [],
+  defaultRoleId: null,
+  autoProvision: false,
+  passwordLoginDisabledRoleIds: [],
+};
+
 const DEFAULT_AUTH_SETTINGS: AuthSettings = {
   registrationEnabled: false,
   emailVerification: 'instant',
   emailVerificationGraceDays: 7,
   defaultRoleId: null,
   requireAdminApproval: false,
+  twoFactorRequiredRoleIds: [],
 };
 
 // ===================
@@ -99,6 +160,11 @@ export class AuthSettingsService {
       }
     }
 
+    // Validate twoFactorRequiredRoleIds reference existing roles
+    if (input.twoFactorRequiredRoleIds !== undefined) {
+      await this.assertRolesExist(input.twoFactorRequiredRoleIds, 'twoFactorRequiredRoleIds');
+    }
+
     // Get current settings and merge
     const current = await settingsService.get<Partial<AuthSettings>>(SETTINGS_KEY, {});
     const merged = { ...current, ...input };
@@ -108,6 +174,95 @@ export class AuthSettingsService {
 
     return this.get();
   }
+
+  /**
+   * Get OIDC single sign-on settings, including the decrypted client secret
+   */
+  async getOidc(): Promise<OidcSettings> {
+    const { clientSecretEncrypted, ...stored } = await settingsService.get<Partial<StoredOidcSettings>>(
+      OIDC_SETTINGS_KEY,
+      {}
+    );
+
+    let clientSecret = '';
+    if (clientSecretEncrypted) {
+      try {
+        clientSecret = decrypt(clientSecretEncrypted);
+      } catch {
+        log.error('Failed to decrypt OIDC client secret (was ENCRYPTION_KEY changed?)');
+      }
+    }
+
+    return { ...DEFAULT_OIDC_SETTINGS, ...stored, clientSecret };
+  }
+
+  /**
+   * Get OIDC settings for display, without the client secret
+   */
+  async getOidcView(): Promise<OidcSettingsView> {
+    const { clientSecret, ...rest } = await this.getOidc();
+    return { ...rest, clientSecretSet: clientSecret.length > 0 };
+  }
+
+  /**
+   * Update OIDC settings (partial update). An empty or missing client
+   * secret keeps the stored one.
+   */
+  async updateOidc(input: Partial<OidcSettings>): Promise<OidcSettingsView> {
+    const { clientSecret, ...rest } = input;
+    const current = await this.getOidc();
+    const next: OidcSettings = { ...current, ...rest, clientSecret: clientSecret || current.clientSecret };
+
+    if (next.enabled) {
+      if (!URL.canParse(next.issuer) || !/^https?:$/.test(new URL(next.issuer).protocol)) {
+        throw new ValidationError('issuer must be an http(s) URL');
+      }
+      if (!next.clientId || !next.clientSecret) {
+        throw new ValidationError('clientId and clientSecret are required to enable SSO');
+      }
+    }
+
+    if (input.roleMappings !== undefined) {
+      await this.assertRolesExist(input.roleMappings.map((m) => m.roleId), 'roleMappings');
+    }
+    if (input.passwordLoginDisabledRoleIds !== undefined) {
+      await this.assertRolesExist(input.passwordLoginDisabledRoleIds, 'passwordLoginDisabledRoleIds');
+    }
+    if (input.defaultRoleId) {
+      await this.assertRolesExist([input.defaultRoleId], 'defaultRoleId');
+    }
+
+    const { clientSecret: secret, ...stored } = next;
+    await settingsService.set(OIDC_SETTINGS_KEY, {
+      ...stored,
+      ...(secret && { clientSecretEncrypted: encrypt(secret) }),
+    } satisfies StoredOidcSettings);
+
+    log.info({ changes: Object.keys(input).filter((k) => k !== 'clientSecret'), enabled: next.enabled }, 'OIDC settings updated');
+
+    return this.getOidcView();
+  }
+
+  /**
+   * Whether a role must sign in with SSO instead of a password
+   */
+  async isPasswordLoginDisabled(roleId: string): Promise<boolean> {
+    const oidc = await this.getOidc();
+    return oidc.enabled && oidc.passwordLoginDisabledRoleIds.includes(roleId);
+  }
+
+  private async assertRolesExist(roleIds: string[], field: string): Promise<void> {
+    if (roleIds.length === 0) return;
+
+    const found = await db
+      .select({ id: roles.id })
+      .from(roles)
+      .where(inArray(roles.id, roleIds));
+
+    if (found.length !== new Set(roleIds).size) {
+      throw new ValidationError(`Invalid ${field}: role not found`);
+    }
+  }
 }
 
 export const authSettingsService = new AuthSettingsService();
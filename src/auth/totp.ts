@@ -0,0 +1,171 @@
+/**
+ * TOTP Primitives
+ *
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30-second
+ * steps) as produced by Google Authenticator, 1Password, Authy and friends,
+ * plus the recovery codes handed out at enrollment.
+ *
+ * @module auth/totp
+ */
+
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Seconds per TOTP time step */
+export const TOTP_PERIOD = 30;
+
+/** Digits per TOTP code */
+export const TOTP_DIGITS = 6;
+
+/** Number of recovery codes issued per enrollment */
+export const RECOVERY_CODE_COUNT = 10;
+
+// Recovery code alphabet without look-alikes (0/O, 1/I/L)
+const RECOVERY_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// ===================
+// Base32
+// ===================
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32
+ */
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode RFC 4648 base32 (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+// ===================
+// TOTP
+// ===================
+
+/**
+ * Generate a new 160-bit shared secret, base32-encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Time step number for a point in time
+ */
+export function totpStep(at: Date = new Date()): number {
+  return Math.floor(at.getTime() / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Compute the code for a secret at a given time step (RFC 4226 truncation)
+ */
+export function generateTotpCode(secret: string, step: number = totpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Check a code against the current step and `window` steps either side to
+ * allow for clock drift. Returns the matching step, or null.
+ */
+export function matchTotpCode(secret: string, code: string, at: Date = new Date(), window = 1): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const current = totpStep(at);
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    const expected = generateTotpCode(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps scan from the QR code
+ */
+export function buildOtpauthUri(issuer: string, account: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ===================
+// Recovery Codes
+// ===================
+
+/**
+ * Generate single-use recovery codes in XXXXX-XXXXX form
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const codes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let raw = '';
+    for (let j = 0; j < 10; j++) {
+      raw += RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)];
+    }
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return codes;
+}
+
+/**
+ * Hash a recovery code for storage (case and separators are ignored)
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,268 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * TOTP enrollment, code verification and recovery codes for staff accounts.
+ * Enrollment is two-step: `beginEnrollment` stores a pending secret and
+ * returns the QR code, `confirmEnrollment` turns 2FA on once the staff member
+ * proves their authenticator app produces matching codes.
+ *
+ * Which roles must use 2FA is an auth setting (`twoFactorRequiredRoleIds`).
+ *
+ * @module auth/two-factor
+ */
+
+import { eq } from 'drizzle-orm';
+import QRCode from 'qrcode';
+import { db, staff } from '@/db/index.js';
+import { createLogger } from '@/utils/logger.js';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '@/errors/index.js';
+import { now } from '@/utils/time.js';
+import { settingsService } from '@/services/settings.js';
+import { authSettingsService } from './settings.js';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  matchTotpCode,
+} from './totp.js';
+
+const log = createLogger('two-factor');
+
+// ===================
+// Types
+// ===================
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** The staff member's role requires 2FA */
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  /** Base32 secret for manual entry */
+  secret: string;
+  otpauthUrl: string;
+  /** PNG data URL of the otpauth QR code */
+  qrCode: string;
+}
+
+/** How a code was accepted */
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+// ===================
+// Service
+// ===================
+
+export class TwoFactorService {
+  /**
+   * Whether members of a role must use 2FA
+   */
+  async isRequiredForRole(roleId: string): Promise<boolean> {
+    const settings = await authSettingsService.get();
+    return settings.twoFactorRequiredRoleIds.includes(roleId);
+  }
+
+  /**
+   * Get 2FA status for a staff member
+   */
+  async getStatus(staffId: string): Promise<TwoFactorStatus> {
+    const member = await this.getMember(staffId);
+    return {
+      enabled: !!member.totpEnabledAt,
+      required: await this.isRequiredForRole(member.roleId),
+      enabledAt: member.totpEnabledAt,
+      recoveryCodesRemaining: member.totpEnabledAt ? this.parseCodes(member.totpRecoveryCodes).length : 0,
+    };
+  }
+
+  /**
+   * Start enrollment: store a new pending secret and return its QR code.
+   * Calling again before confirming replaces the pending secret.
+   */
+  async beginEnrollment(staffId: string): Promise<TwoFactorSetup> {
+    const member = await this.getMember(staffId);
+    if (member.totpEnabledAt) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await db
+      .update(staff)
+      .set({ totpSecret: secret, totpLastStep: null, updatedAt: now() })
+      .where(eq(staff.id, staffId));
+
+    const otpauthUrl = buildOtpauthUri(await this.getIssuer(), member.email, secret);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    log.info({ staffId }, 'Two-factor enrollment started');
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app.
+   * Returns the plaintext recovery codes, which are shown once.
+   */
+  async confirmEnrollment(staffId: string, code: string): Promise<string[]> {
+    const member = await this.getMember(staffId);
+    if (member.totpEnabledAt) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+    if (!member.totpSecret) {
+      throw new ValidationError('Two-factor enrollment has not been started');
+    }
+
+    const step = matchTotpCode(member.totpSecret, code);
+    if (step === null) {
+      throw new ValidationError('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+      .update(staff)
+      .set({
+        totpEnabledAt: now(),
+        totpLastStep: step,
+        totpRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+        updatedAt: now(),
+      })
+      .where(eq(staff.id, staffId));
+
+    log.info({ staffId }, 'Two-factor authentication enabled');
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code for a staff member with 2FA enabled.
+   * TOTP codes cannot be replayed; recovery codes are consumed.
+   * Returns how the code was accepted, or null if it was not.
+   */
+  async verifyCode(staffId: string, code: string): Promise<TwoFactorMethod | null> {
+    const member = await this.getMember(staffId);
+    if (!member.totpEnabledAt || !member.totpSecret) {
+      return null;
+    }
+
+    const step = matchTotpCode(member.totpSecret, code);
+    if (step !== null) {
+      if (member.totpLastStep !== null && step <= member.totpLastStep) {
+        log.warn({ staffId }, 'Replayed two-factor code rejected');
+        return null;
+      }
+      await db.update(staff).set({ totpLastStep: step }).where(eq(staff.id, staffId));
+      return 'totp';
+    }
+
+    const hash = hashRecoveryCode(code);
+    const codes = this.parseCodes(member.totpRecoveryCodes);
+    if (codes.includes(hash)) {
+      await db
+        .update(staff)
+        .set({ totpRecoveryCodes: JSON.stringify(codes.filter((c) => c !== hash)), updatedAt: now() })
+        .where(eq(staff.id, staffId));
+      log.info({ staffId, remaining: codes.length - 1 }, 'Recovery code used');
+      return 'recovery';
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace all recovery codes after confirming a current code
+   */
+  async regenerateRecoveryCodes(staffId: string, code: string): Promise<string[]> {
+    await this.requireValidCode(staffId, code);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+      .update(staff)
+      .set({ totpRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)), updatedAt: now() })
+      .where(eq(staff.id, staffId));
+
+    log.info({ staffId }, 'Recovery codes regenerated');
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off 2FA after confirming a current code. Not allowed when the
+   * staff member's role requires 2FA.
+   */
+  async disable(staffId: string, code: string): Promise<void> {
+    const member = await this.getMember(staffId);
+    if (await this.isRequiredForRole(member.roleId)) {
+      throw new ForbiddenError('Two-factor authentication is required for your role');
+    }
+
+    await this.requireValidCode(staffId, code);
+    await this.clear(staffId);
+
+    log.info({ staffId }, 'Two-factor authentication disabled');
+  }
+
+  /**
+   * Admin reset for a staff member who lost their device and recovery codes.
+   * If their role requires 2FA they will be asked to enroll at next login.
+   */
+  async reset(staffId: string, currentUserId?: string): Promise<void> {
+    await this.getMember(staffId);
+
+    // Own enrollment is managed with a code, not by reset
+    if (currentUserId && staffId === currentUserId) {
+      throw new ForbiddenError('Cannot reset your own two-factor authentication');
+    }
+
+    await this.clear(staffId);
+
+    log.warn({ staffId, resetBy: currentUserId }, 'Two-factor authentication reset by admin');
+  }
+
+  private async requireValidCode(staffId: string, code: string): Promise<void> {
+    const member = await this.getMember(staffId);
+    if (!member.totpEnabledAt) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(staffId, code))) {
+      throw new ValidationError('Invalid verification code');
+    }
+  }
+
+  private async clear(staffId: string): Promise<void> {
+    await db
+      .update(staff)
+      .set({
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        totpRecoveryCodes: '[]',
+        updatedAt: now(),
+      })
+      .where(eq(staff.id, staffId));
+  }
+
+  private async getMember(staffId: string) {
+    const [member] = await db.select().from(staff).where(eq(staff.id, staffId)).limit(1);
+    if (!member) {
+      throw new NotFoundError('Staff', staffId);
+    }
+    return member;
+  }
+
+  private parseCodes(json: string): string[] {
+    return JSON.parse(json) as string[];
+  }
+
+  /**
+   * Issuer label shown in authenticator apps (colons would break the label)
+   */
+  private async getIssuer(): Promise<string> {
+    const profile = await settingsService.get<{ name?: string } | null>('hotel_profile', null);
+    return (profile?.name || 'Jack The Butler').replace(/:/g, '');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
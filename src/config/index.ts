@@ -130,3 +130,10 @@ export function isTest(): boolean {
 export function isDemo(): boolean {
   return loadConfig().demoMode;
 }
+
+/**
+ * Public base URL of the dashboard, used for links in emails and SSO redirects
+ */
+export function getAppUrl(): string {
+  return (process.env.APP_URL || `http://localhost:${loadConfig().port}`).replace(/\/$/, '');
+}
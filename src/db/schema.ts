@@ -69,6 +69,13 @@ export const guests = sqliteTable(
     notes: text('notes'),
     tags: text('tags').default('[]'),
 
+    // Guest asked not to receive scheduled journey messages
+    journeyOptOut: integer('journey_opt_out', { mode: 'boolean' }).notNull().default(false),
+
+    // Block list: inbound messages from a blocked guest are dropped unread
+    blockedAt: text('blocked_at'),
+    blockedReason: text('blocked_reason'),
+
     createdAt: text('created_at')
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -187,6 +194,43 @@ export const reservations = sqliteTable(
   ]
 );
 
+// ===================
+// Rooms (synced from PMS)
+// ===================
+
+export const rooms = sqliteTable(
+  'rooms',
+  {
+    id: text('id').primaryKey(),
+    number: text('number').notNull().unique(),
+    type: text('type').notNull(),
+    floor: text('floor'),
+
+    // Status: vacant, occupied, dirty, clean, inspected, out_of_order
+    status: text('status').notNull(),
+    statusChangedAt: text('status_changed_at'),
+
+    // Reservation staying in the room, when the PMS reports one
+    currentReservationId: text('current_reservation_id').references(() => reservations.id),
+
+    // Sync tracking
+    syncedAt: text('synced_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index('idx_rooms_floor').on(table.floor),
+    index('idx_rooms_status').on(table.status),
+  ]
+);
+
 // ===================
 // Roles
 // ===================
@@ -257,6 +301,17 @@ export const staff = sqliteTable(
     // Approval status: pending, approved, rejected (default approved for admin-created accounts)
     approvalStatus: text('approval_status').notNull().default('approved'),
 
+    // Two-factor authentication (TOTP). Secret is set during enrollment and
+    // enabled once a first code is confirmed; recovery codes are a JSON array
+    // of SHA-256 hashes, each removed when used.
+    totpSecret: text('totp_secret'),
+    totpEnabledAt: text('totp_enabled_at'),
+    totpLastStep: integer('totp_last_step'),
+    totpRecoveryCodes: text('totp_recovery_codes').notNull().default('[]'),
+
+    // Single sign-on: OIDC subject (`sub`) linked on first SSO login
+    ssoSubject: text('sso_subject'),
+
     createdAt: text('created_at')
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -264,7 +319,10 @@ export const staff = sqliteTable(
       .notNull()
       .default(sql`(datetime('now'))`),
   },
-  (table) => [index('idx_staff_role_id').on(table.roleId)]
+  (table) => [
+    index('idx_staff_role_id').on(table.roleId),
+    uniqueIndex('idx_staff_sso_subject').on(table.ssoSubject),
+  ]
 );
 
 // ===================
@@ -305,6 +363,10 @@ export const conversations = sqliteTable(
     // Translation
     guestLanguage: text('guest_language').default('en'),
 
+    // Staff handoff note as JSON: { guestWants, promised, openTasks, trigger, updatedAt }
+    handoffSummary: text('handoff_summary'),
+    handoffSummaryAt: text('handoff_summary_at'),
+
     createdAt: text('created_at')
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -337,7 +399,7 @@ export const messages = sqliteTable(
       .notNull()
       .references(() => conversations.id),
 
-    // Direction: inbound, outbound
+    // Direction: inbound, outbound, internal (staff note)
     direction: text('direction').notNull(),
     // Sender: guest, ai, staff, system
     senderType: text('sender_type').notNull(),
@@ -413,10 +475,20 @@ export const tasks = sqliteTable(
     startedAt: text('started_at'),
     completedAt: text('completed_at'),
 
+    // SLA: set when the task was first found overdue; level = escalation steps applied
+    slaBreachedAt: text('sla_breached_at'),
+    escalationLevel: integer('escalation_level').notNull().default(0),
+
     // Notes
     notes: text('notes'),
     completionNotes: text('completion_notes'),
 
+    // PMS write-back on completion: action JSON, sync status (synced, failed)
+    pmsAction: text('pms_action'),
+    pmsSyncStatus: text('pms_sync_status'),
+    pmsSyncError: text('pms_sync_error'),
+    pmsSyncedAt: text('pms_synced_at'),
+
     createdAt: text('created_at')
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -434,6 +506,7 @@ export const tasks = sqliteTable(
     index('idx_tasks_priority').on(table.priority),
     index('idx_tasks_source').on(table.source),
     index('idx_tasks_created').on(table.createdAt),
+    index('idx_tasks_due').on(table.dueAt),
   ]
 );
 
@@ -468,6 +541,14 @@ export const knowledgeBase = sqliteTable(
     sourceUrl: text('source_url'),
     sourceEntryId: text('source_entry_id'),
 
+    // Validity window — hotel-local dates (YYYY-MM-DD), inclusive
+    validFrom: text('valid_from'),
+    validUntil: text('valid_until'),
+    // Recurring schedule (JSON KnowledgeSchedule: days of week, yearly season)
+    schedule: text('schedule'),
+    // Set by the validity job once the entry is about to expire
+    expiryFlaggedAt: text('expiry_flagged_at'),
+
     createdAt: text('created_at')
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -512,6 +593,9 @@ export type NewGuest = typeof guests.$inferInsert;
 export type Reservation = typeof reservations.$inferSelect;
 export type NewReservation = typeof reservations.$inferInsert;
 
+export type Room = typeof rooms.$inferSelect;
+export type NewRoom = typeof rooms.$inferInsert;
+
 export type Role = typeof roles.$inferSelect;
 export type NewRole = typeof roles.$inferInsert;
 
@@ -719,10 +803,17 @@ export const responseCache = sqliteTable(
     // Original query (for debugging)
     query: text('query').notNull(),
 
+    // Query embedding (binary float32) for semantic lookup via sqlite-vec
+    embedding: blob('embedding'),
+
     // Cached response
     response: text('response').notNull(),
     intent: text('intent'),
 
+    // Knowledge entries the response was grounded on (JSON array of ids) —
+    // editing or removing any of them invalidates the entry
+    knowledgeIds: text('knowledge_ids').notNull().default('[]'),
+
     // Usage tracking
     hitCount: integer('hit_count').notNull().default(0),
     lastHitAt: text('last_hit_at'),
@@ -737,6 +828,7 @@ export const responseCache = sqliteTable(
   (table) => [
     index('idx_response_cache_hash').on(table.queryHash),
     index('idx_response_cache_expires').on(table.expiresAt),
+    index('idx_response_cache_intent').on(table.intent),
   ]
 );
 
@@ -847,3 +939,406 @@ export const webchatSessions = sqliteTable(
 
 export type WebChatSession = typeof webchatSessions.$inferSelect;
 export type NewWebChatSession = typeof webchatSessions.$inferInsert;
+
+/**
+ * Staff-defined webchat form actions (e.g. spa booking), served to the
+ * widget alongside the built-in ones. The ID is the slug the widget and
+ * the AI's [ACTION:id] tag use.
+ */
+export const webchatActions = sqliteTable('webchat_actions', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  triggerHint: text('trigger_hint').notNull(),
+  requiresVerification: integer('requires_verification', { mode: 'boolean' }).notNull().default(true),
+
+  // Form fields (JSON array, same shape as the built-in actions)
+  fields: text('fields').notNull().default('[]'),
+  // Per-locale name, labels, placeholders, option labels (JSON object)
+  translations: text('translations').notNull().default('{}'),
+
+  // What happens on submit: create task, email, webhook (JSON array)
+  outcomes: text('outcomes').notNull().default('[]'),
+  // Message posted to the guest on success; {{fieldKey}} placeholders allowed
+  confirmationMessage: text('confirmation_message').notNull(),
+
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+export type WebChatActionRow = typeof webchatActions.$inferSelect;
+export type NewWebChatActionRow = typeof webchatActions.$inferInsert;
+
+// ===================
+// Guest Journey
+// ===================
+
+/**
+ * Scheduled messages sent around a stay (pre-arrival, in-stay, post-stay).
+ * A step fires `offsetDays` from the reservation's arrival or departure
+ * date, at `sendTime` in the hotel timezone.
+ */
+export const journeySteps = sqliteTable(
+  'journey_steps',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+
+    // Anchor: arrival, departure
+    anchor: text('anchor').notNull(),
+    // Days relative to the anchor date (negative = before)
+    offsetDays: integer('offset_days').notNull().default(0),
+    // Local send time (HH:MM, hotel timezone)
+    sendTime: text('send_time').notNull().default('10:00'),
+
+    // Channel: auto, whatsapp, sms, email
+    channel: text('channel').notNull().default('auto'),
+
+    // Message templates keyed by language code (JSON object)
+    templates: text('templates').notNull().default('{}'),
+    // Email subject (falls back to the step name)
+    subject: text('subject'),
+
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [index('idx_journey_steps_anchor').on(table.anchor, table.enabled)]
+);
+
+export type JourneyStep = typeof journeySteps.$inferSelect;
+export type NewJourneyStep = typeof journeySteps.$inferInsert;
+
+/**
+ * One row per step per reservation — the send log, and the guard that
+ * keeps a step from firing twice for the same stay
+ */
+export const journeySends = sqliteTable(
+  'journey_sends',
+  {
+    id: text('id').primaryKey(),
+    stepId: text('step_id')
+      .notNull()
+      .references(() => journeySteps.id, { onDelete: 'cascade' }),
+    reservationId: text('reservation_id')
+      .notNull()
+      .references(() => reservations.id, { onDelete: 'cascade' }),
+    guestId: text('guest_id')
+      .notNull()
+      .references(() => guests.id),
+
+    // Status: sent, skipped, failed
+    status: text('status').notNull(),
+    // Why the step was skipped or failed (opted_out, no_contact, ...)
+    reason: text('reason'),
+
+    channel: text('channel'),
+    conversationId: text('conversation_id').references(() => conversations.id),
+    messageId: text('message_id'),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('idx_journey_sends_step_reservation').on(table.stepId, table.reservationId),
+    index('idx_journey_sends_reservation').on(table.reservationId),
+  ]
+);
+
+export type JourneySend = typeof journeySends.$inferSelect;
+export type NewJourneySend = typeof journeySends.$inferInsert;
+
+// ===================
+// Outbound Webhooks
+// ===================
+
+/**
+ * Admin-managed subscriptions that push event bus events to external
+ * systems as signed JSON
+ */
+export const webhookSubscriptions = sqliteTable('webhook_subscriptions', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  url: text('url').notNull(),
+  // HMAC signing secret (encrypted)
+  secretEncrypted: text('secret_encrypted').notNull(),
+  // Subscribed event types (JSON array of EventType)
+  events: text('events').notNull().default('[]'),
+
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  // Failed attempts since the last success; reaching the limit disables the subscription
+  consecutiveFailures: integer('consecutive_failures').notNull().default(0),
+  disabledReason: text('disabled_reason'),
+  lastDeliveryAt: text('last_delivery_at'),
+
+  createdAt: text('created_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+  updatedAt: text('updated_at')
+    .notNull()
+    .default(sql`(datetime('now'))`),
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+
+/**
+ * One row per event per subscription — the delivery log and retry queue
+ */
+export const webhookDeliveries = sqliteTable(
+  'webhook_deliveries',
+  {
+    id: text('id').primaryKey(),
+    subscriptionId: text('subscription_id')
+      .notNull()
+      .references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+    eventType: text('event_type').notNull(),
+    // Signed request body (JSON), kept for redelivery
+    payload: text('payload').notNull(),
+
+    // Status: pending, sending, success, failed
+    status: text('status').notNull().default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+    nextAttemptAt: text('next_attempt_at'),
+    responseStatus: integer('response_status'),
+    error: text('error'),
+    durationMs: integer('duration_ms'),
+    deliveredAt: text('delivered_at'),
+    // Set on manual redeliveries
+    redeliveryOf: text('redelivery_of'),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index('idx_webhook_deliveries_subscription').on(table.subscriptionId, table.createdAt),
+    index('idx_webhook_deliveries_due').on(table.status, table.nextAttemptAt),
+  ]
+);
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// ===================
+// Knowledge Gaps
+// ===================
+
+/**
+ * Groups of similar guest questions the knowledge base could not answer
+ */
+export const knowledgeGapClusters = sqliteTable(
+  'knowledge_gap_clusters',
+  {
+    id: text('id').primaryKey(),
+    // Representative question (the first one seen, translated)
+    question: text('question').notNull(),
+    // Running mean of member embeddings (binary float32)
+    centroid: blob('centroid'),
+    // Most recent classified intent of a member question
+    intent: text('intent'),
+    gapCount: integer('gap_count').notNull().default(0),
+
+    // Status: open, resolved, dismissed
+    status: text('status').notNull().default('open'),
+    // Entry written to close the gap
+    knowledgeId: text('knowledge_id').references(() => knowledgeBase.id, { onDelete: 'set null' }),
+
+    firstSeenAt: text('first_seen_at').notNull(),
+    lastSeenAt: text('last_seen_at').notNull(),
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [index('idx_knowledge_gap_clusters_status').on(table.status, table.gapCount)]
+);
+
+export type KnowledgeGapCluster = typeof knowledgeGapClusters.$inferSelect;
+export type NewKnowledgeGapCluster = typeof knowledgeGapClusters.$inferInsert;
+
+/**
+ * One row per guest question that retrieval or the AI could not answer
+ */
+export const knowledgeGaps = sqliteTable(
+  'knowledge_gaps',
+  {
+    id: text('id').primaryKey(),
+    // Guest question in the property language
+    question: text('question').notNull(),
+    intent: text('intent'),
+    // Reason: no_match (nothing above the similarity floor), unanswered (AI said it doesn't know)
+    reason: text('reason').notNull(),
+    // Best knowledge similarity on this turn, if retrieval ran
+    topSimilarity: real('top_similarity'),
+    // Question embedding (binary float32); cleared once clustered
+    embedding: blob('embedding'),
+    conversationId: text('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+    // Set by the clustering job
+    clusterId: text('cluster_id').references(() => knowledgeGapClusters.id, { onDelete: 'cascade' }),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [index('idx_knowledge_gaps_cluster').on(table.clusterId, table.createdAt)]
+);
+
+export type KnowledgeGap = typeof knowledgeGaps.$inferSelect;
+export type NewKnowledgeGap = typeof knowledgeGaps.$inferInsert;
+
+// ===================
+// Outbound Queue
+// ===================
+
+/**
+ * Replies waiting to be sent to a guest's channel, retried with backoff
+ */
+export const outboundQueue = sqliteTable(
+  'outbound_queue',
+  {
+    id: text('id').primaryKey(),
+    // Message row the reply was saved as
+    messageId: text('message_id')
+      .notNull()
+      .references(() => messages.id, { onDelete: 'cascade' }),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    channel: text('channel').notNull(),
+    // Channel app that sends it; null = the active adapter for the channel
+    appId: text('app_id'),
+    // Recipient (phone number, email address, chat ID, session ID)
+    channelId: text('channel_id').notNull(),
+    content: text('content').notNull(),
+    contentType: text('content_type').notNull().default('text'),
+    // Channel-specific send options as JSON (email subject, threading headers)
+    metadata: text('metadata'),
+    // At most one queued send per key (e.g. per inbound message replied to)
+    idempotencyKey: text('idempotency_key').notNull().unique(),
+
+    // Status: pending, sending, sent, dead
+    status: text('status').notNull().default('pending'),
+    attempts: integer('attempts').notNull().default(0),
+    nextAttemptAt: text('next_attempt_at'),
+    lastError: text('last_error'),
+    channelMessageId: text('channel_message_id'),
+    sentAt: text('sent_at'),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index('idx_outbound_queue_due').on(table.status, table.nextAttemptAt),
+    index('idx_outbound_queue_message').on(table.messageId),
+  ]
+);
+
+export type OutboundQueueItem = typeof outboundQueue.$inferSelect;
+export type NewOutboundQueueItem = typeof outboundQueue.$inferInsert;
+
+// ===================
+// WhatsApp Templates
+// ===================
+
+/**
+ * Message templates synced from the WhatsApp Business account, with the
+ * guest/reservation field each body variable is filled from
+ */
+export const whatsappTemplates = sqliteTable(
+  'whatsapp_templates',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    // Meta language code (en_US, fr, ...)
+    language: text('language').notNull(),
+    // Category: MARKETING, UTILITY, AUTHENTICATION
+    category: text('category').notNull(),
+    // Meta review status: APPROVED, PENDING, REJECTED, PAUSED, DISABLED
+    status: text('status').notNull(),
+    body: text('body').notNull().default(''),
+    parameterCount: integer('parameter_count').notNull().default(0),
+
+    // Variable source per body placeholder, in order (JSON array, null = unmapped)
+    variables: text('variables').notNull().default('[]'),
+    // Sent instead of free-form text once the 24-hour window has closed
+    isFallback: integer('is_fallback', { mode: 'boolean' }).notNull().default(false),
+
+    syncedAt: text('synced_at').notNull(),
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    updatedAt: text('updated_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [uniqueIndex('idx_whatsapp_templates_name_language').on(table.name, table.language)]
+);
+
+export type WhatsAppTemplate = typeof whatsappTemplates.$inferSelect;
+export type NewWhatsAppTemplate = typeof whatsappTemplates.$inferInsert;
+
+// ===================
+// Reply Drafts
+// ===================
+
+/**
+ * Reply suggestions generated for staff in the inbox, and whether the one
+ * inserted into the composer was sent as is or edited first
+ */
+export const replyDrafts = sqliteTable(
+  'reply_drafts',
+  {
+    id: text('id').primaryKey(),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    // Guest message the suggestions reply to
+    messageId: text('message_id').references(() => messages.id, { onDelete: 'set null' }),
+    // Staff member who asked for the suggestions
+    staffId: text('staff_id').references(() => staff.id, { onDelete: 'set null' }),
+    // Guest language the suggestions were translated to
+    language: text('language').notNull(),
+    // Suggestions as JSON array of { tone, content, translation }; the first is the suggested reply
+    suggestions: text('suggestions').notNull().default('[]'),
+
+    // Outcome once sent: accepted (sent unchanged), edited
+    outcome: text('outcome'),
+    // Index of the suggestion inserted into the composer
+    chosenIndex: integer('chosen_index'),
+    // Staff message the suggestion was sent as
+    sentMessageId: text('sent_message_id').references(() => messages.id, { onDelete: 'set null' }),
+    usedAt: text('used_at'),
+
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index('idx_reply_drafts_conversation').on(table.conversationId),
+    index('idx_reply_drafts_created').on(table.createdAt),
+  ]
+);
+
+export type ReplyDraft = typeof replyDrafts.$inferSelect;
+export type NewReplyDraft = typeof replyDrafts.$inferInsert;
@@ -99,7 +99,7 @@ export async function loadDemoData(): Promise<DemoDataCounts> {
 }
 
 /** Guest-facing data tables cleared by resetDemoData — config/staff/roles are preserved. */
-const RESETTABLE_TABLES = ['messages', 'tasks', 'webchat_sessions', 'conversations', 'reservations', 'knowledge_base', 'guests'];
+const RESETTABLE_TABLES = ['messages', 'tasks', 'webchat_sessions', 'journey_sends', 'conversations', 'reservations', 'knowledge_base', 'guests'];
 
 /**
  * Delete all rows from guest-facing data tables, preserving config, staff, and roles.
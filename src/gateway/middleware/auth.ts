@@ -39,8 +39,8 @@ export const requireAuth: MiddlewareHandler = async (c, next) => {
     const secret = new TextEncoder().encode(config.jwt.secret);
     const { payload } = await jwtVerify(token, secret);
 
-    // Reject refresh tokens used as access tokens
-    if (payload.type === 'refresh') {
+    // Only access tokens authenticate requests (not refresh or 2FA challenge tokens)
+    if (payload.type !== 'access') {
       throw new UnauthorizedError('Invalid token type');
     }
 
@@ -71,7 +71,7 @@ export const optionalAuth: MiddlewareHandler = async (c, next) => {
       const secret = new TextEncoder().encode(config.jwt.secret);
       const { payload } = await jwtVerify(token, secret);
 
-      if (payload.type !== 'refresh') {
+      if (payload.type === 'access') {
         c.set('user', payload as unknown as JWTPayload);
         c.set('userId', payload.sub);
       }
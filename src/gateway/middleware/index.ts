@@ -19,6 +19,7 @@ export {
   authRateLimit,
   apiRateLimit,
   getClientIp,
+  auditContext,
   type RateLimitConfig,
 } from './security.js';
 export { webhookLogger } from './webhook-logger.js';
@@ -175,6 +175,16 @@ export function getClientIp(c: Context): string {
   return `local-${Math.abs(hash)}`;
 }
 
+/**
+ * Request IP and user agent for audit log entries (headers as sent)
+ */
+export function auditContext(c: Context): { ip: string | undefined; userAgent: string | undefined } {
+  return {
+    ip: c.req.header('x-forwarded-for') ?? c.req.header('x-real-ip') ?? undefined,
+    userAgent: c.req.header('user-agent') ?? undefined,
+  };
+}
+
 /**
  * Pre-configured rate limiter for auth endpoints
  * 20 requests per minute per IP
@@ -21,7 +21,10 @@ const log = createLogger('gateway:webhook-logger');
 function getWebhookIdentity(path: string): { appId: string; providerId: string } {
   if (path.startsWith('/webhooks/whatsapp')) return { appId: 'channel', providerId: 'whatsapp-meta' };
   if (path.startsWith('/webhooks/sms')) return { appId: 'channel', providerId: 'sms-twilio' };
+  if (path.startsWith('/webhooks/pms/apaleo')) return { appId: 'pms', providerId: 'pms-apaleo' };
   if (path.startsWith('/webhooks/pms')) return { appId: 'pms', providerId: 'pms-mews' };
+  if (path.startsWith('/webhooks/email/mailgun')) return { appId: 'channel', providerId: 'email-mailgun' };
+  if (path.startsWith('/webhooks/email/sendgrid')) return { appId: 'channel', providerId: 'email-sendgrid' };
   return { appId: 'channel', providerId: 'unknown' };
 }
 
@@ -9,7 +9,7 @@ import { Hono } from 'hono';
 import { z } from 'zod';
 import { validateQuery } from '../middleware/validator.js';
 import { requireAuth } from '../middleware/auth.js';
-import { getAnalyticsOverview } from '@/services/analytics.js';
+import { getAnalyticsOverview, getReplyDraftStats, getSlaCompliance } from '@/services/analytics.js';
 
 const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
 const MAX_RANGE_DAYS = 365;
@@ -88,4 +88,51 @@ analyticsRouter.get(
   }
 );
 
+/**
+ * GET /api/v1/analytics/sla
+ *
+ * Task SLA compliance for tasks due in the range. Same query params as /overview.
+ */
+analyticsRouter.get(
+  '/sla',
+  validateQuery(overviewQuerySchema),
+  async (c) => {
+    const q = c.get('validatedQuery') as z.infer<typeof overviewQuerySchema>;
+
+    const compliance = await getSlaCompliance({
+      range:            { from: q.from, to: q.to },
+      compareRange:     q.compareFrom && q.compareTo
+        ? { from: q.compareFrom, to: q.compareTo }
+        : undefined,
+      utcOffsetMinutes: q.utcOffset,
+    });
+
+    return c.json(compliance);
+  }
+);
+
+/**
+ * GET /api/v1/analytics/reply-drafts
+ *
+ * Usage of staff reply suggestions drafted in the range: how many were sent,
+ * unchanged or edited. Same query params as /overview.
+ */
+analyticsRouter.get(
+  '/reply-drafts',
+  validateQuery(overviewQuerySchema),
+  async (c) => {
+    const q = c.get('validatedQuery') as z.infer<typeof overviewQuerySchema>;
+
+    const stats = await getReplyDraftStats({
+      range:            { from: q.from, to: q.to },
+      compareRange:     q.compareFrom && q.compareTo
+        ? { from: q.compareFrom, to: q.compareTo }
+        : undefined,
+      utcOffsetMinutes: q.utcOffset,
+    });
+
+    return c.json(stats);
+  }
+);
+
 export { analyticsRouter };
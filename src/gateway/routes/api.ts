@@ -13,9 +13,16 @@ import { adminRouter } from './admin.js';
 import { appRoutes } from './apps.js';
 import { hotelProfileRoutes } from './hotel-profile.js';
 import { authSettingsRoutes } from './auth-settings.js';
+import { taskSlaRoutes } from './task-sla.js';
+import { inboundLimitRoutes } from './inbound-limits.js';
+import { webchatActionRoutes } from './webchat-actions.js';
+import { whatsappTemplateRoutes } from './whatsapp-templates.js';
+import { webhookSubscriptionRoutes } from './webhook-subscriptions.js';
 import { knowledgeRoutes } from './knowledge.js';
 import { guestRoutes } from './guests.js';
 import { reservationRoutes } from './reservations.js';
+import { roomRoutes } from './rooms.js';
+import { journeyRoutes } from './journeys.js';
 import { siteScraperRoutes } from './site-scraper.js';
 import { systemRoutes } from './system.js';
 import { analyticsRouter } from './analytics.js';
@@ -25,6 +32,7 @@ import { staffRouter } from './staff.js';
 import { webchatRouter } from './webchat.js';
 import { configRoutes } from './config.js';
 import { activitiesRouter } from './activities.js';
+import { mediaRoutes } from './media.js';
 
 const api = new Hono();
 
@@ -52,6 +60,19 @@ api.route('/settings/hotel', hotelProfileRoutes);
 // Auth settings routes
 api.route('/settings/auth', authSettingsRoutes);
 
+// Task SLA settings routes
+api.route('/settings/task-sla', taskSlaRoutes);
+api.route('/settings/inbound-limits', inboundLimitRoutes);
+
+// Custom webchat action routes
+api.route('/settings/webchat-actions', webchatActionRoutes);
+
+// WhatsApp message template routes
+api.route('/settings/whatsapp-templates', whatsappTemplateRoutes);
+
+// Outbound webhook subscription routes
+api.route('/settings/webhooks', webhookSubscriptionRoutes);
+
 // Knowledge base routes
 api.route('/knowledge', knowledgeRoutes);
 
@@ -61,6 +82,12 @@ api.route('/guests', guestRoutes);
 // Reservation routes
 api.route('/reservations', reservationRoutes);
 
+// Room routes (housekeeping board)
+api.route('/rooms', roomRoutes);
+
+// Guest journey routes
+api.route('/journeys', journeyRoutes);
+
 // Tool routes
 api.route('/tools/site-scraper', siteScraperRoutes);
 
@@ -85,6 +112,9 @@ api.route('/staff', staffRouter);
 // Activity feed routes
 api.route('/activities', activitiesRouter);
 
+// Guest photo / voice note routes
+api.route('/media', mediaRoutes);
+
 // WebChat routes (session-token auth, not JWT)
 api.route('/webchat', webchatRouter);
 
@@ -1,13 +1,14 @@
 /**
  * Auth Settings Routes
  *
- * API endpoints for managing authentication settings (registration, verification, approval)
- * and email templates.
+ * API endpoints for managing authentication settings (registration, verification, approval),
+ * OIDC single sign-on, and email templates.
  */
 
 import { Hono } from 'hono';
 import { z } from 'zod';
-import { authSettingsService, type AuthSettings } from '@/auth/settings.js';
+import { authSettingsService, type AuthSettings, type OidcSettings } from '@/auth/settings.js';
+import { oidcService } from '@/auth/oidc.js';
 import { settingsService } from '@/services/settings.js';
 import { TEMPLATES_SETTINGS_KEY, type EmailTemplates } from '@/services/email.js';
 import { validateBody } from '../middleware/validator.js';
@@ -21,6 +22,24 @@ const updateSchema = z.object({
   emailVerificationGraceDays: z.number().int().min(1).max(365).optional(),
   defaultRoleId: z.string().min(1).optional(),
   requireAdminApproval: z.boolean().optional(),
+  twoFactorRequiredRoleIds: z.array(z.string().min(1)).max(100).optional(),
+});
+
+const oidcSchema = z.object({
+  enabled: z.boolean().optional(),
+  issuer: z.string().max(500).optional(),
+  clientId: z.string().max(500).optional(),
+  clientSecret: z.string().max(2000).optional(),
+  buttonLabel: z.string().min(1).max(100).optional(),
+  scopes: z.string().min(1).max(500).optional(),
+  groupsClaim: z.string().min(1).max(100).optional(),
+  roleMappings: z
+    .array(z.object({ value: z.string().min(1).max(200), roleId: z.string().min(1) }))
+    .max(100)
+    .optional(),
+  defaultRoleId: z.string().min(1).nullable().optional(),
+  autoProvision: z.boolean().optional(),
+  passwordLoginDisabledRoleIds: z.array(z.string().min(1)).max(100).optional(),
 });
 
 const emailTemplateSchema = z.object({
@@ -72,6 +91,7 @@ authSettingsRoutes.put(
     if (body.emailVerificationGraceDays !== undefined) input.emailVerificationGraceDays = body.emailVerificationGraceDays;
     if (body.defaultRoleId !== undefined) input.defaultRoleId = body.defaultRoleId;
     if (body.requireAdminApproval !== undefined) input.requireAdminApproval = body.requireAdminApproval;
+    if (body.twoFactorRequiredRoleIds !== undefined) input.twoFactorRequiredRoleIds = [...new Set(body.twoFactorRequiredRoleIds)];
 
     const authSettings = await authSettingsService.update(input as Partial<AuthSettings>);
 
@@ -83,6 +103,52 @@ authSettingsRoutes.put(
   }
 );
 
+/**
+ * GET /api/v1/settings/auth/oidc
+ * Get single sign-on settings (client secret omitted) and the redirect URI to register
+ */
+authSettingsRoutes.get('/oidc', requirePermission(PERMISSIONS.ADMIN_VIEW), async (c) => {
+  const oidc = await authSettingsService.getOidcView();
+  return c.json({ settings: oidc, redirectUri: oidcService.getRedirectUri() });
+});
+
+/**
+ * PUT /api/v1/settings/auth/oidc
+ * Update single sign-on settings
+ */
+authSettingsRoutes.put(
+  '/oidc',
+  requirePermission(PERMISSIONS.ADMIN_MANAGE),
+  validateBody(oidcSchema),
+  async (c) => {
+    const body = c.get('validatedBody') as z.infer<typeof oidcSchema>;
+
+    // Drop undefined values for exactOptionalPropertyTypes compatibility
+    const input = Object.fromEntries(
+      Object.entries(body).filter(([, value]) => value !== undefined)
+    ) as Partial<OidcSettings>;
+    if (input.issuer !== undefined) input.issuer = input.issuer.trim();
+    if (input.passwordLoginDisabledRoleIds !== undefined) {
+      input.passwordLoginDisabledRoleIds = [...new Set(input.passwordLoginDisabledRoleIds)];
+    }
+
+    const oidc = await authSettingsService.updateOidc(input);
+
+    const userId = c.get('userId') as string;
+    const ip = c.req.header('x-forwarded-for') ?? c.req.header('x-real-ip') ?? undefined;
+    const { clientSecret, ...logged } = input;
+    logConfigChange(
+      userId,
+      'system',
+      'oidc-settings',
+      { ...logged, ...(clientSecret && { clientSecret: '[changed]' }) },
+      { ip, userAgent: c.req.header('user-agent') ?? undefined }
+    ).catch(() => {});
+
+    return c.json({ settings: oidc, redirectUri: oidcService.getRedirectUri() });
+  }
+);
+
 /**
  * GET /api/v1/settings/auth/email-templates
  * Get email templates (custom + defaults)
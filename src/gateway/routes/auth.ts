@@ -2,24 +2,32 @@
  * Authentication Routes
  *
  * Login, logout, token refresh, registration, password recovery,
- * and email verification endpoints.
+ * email verification, two-factor authentication, and OIDC single sign-on
+ * endpoints.
  */
 
 import { Hono } from 'hono';
+import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
 import { z } from 'zod';
-import { validateBody, requireAuth, getClientIp } from '../middleware/index.js';
-import { authService } from '@/auth/index.js';
+import { validateBody, requireAuth, getClientIp, authRateLimit } from '../middleware/index.js';
+import { authService, type LoginResult } from '@/auth/index.js';
+import { twoFactorService } from '@/auth/two-factor.js';
+import { oidcService, OIDC_STATE_EXPIRES_IN } from '@/auth/oidc.js';
 import { logAuthEvent } from '@/services/audit.js';
 import { authSettingsService } from '@/auth/settings.js';
 import { authTokenService } from '@/auth/tokens.js';
 import { emailService } from '@/services/email.js';
 import { staffService } from '@/services/staff.js';
 import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
-import { ForbiddenError, ValidationError, ConflictError } from '@/errors/index.js';
+import { ForbiddenError, ValidationError, ConflictError, UnauthorizedError } from '@/errors/index.js';
+import { getAppUrl } from '@/config/index.js';
 import { createLogger } from '@/utils/logger.js';
 
 const log = createLogger('routes:auth');
 
+const OIDC_STATE_COOKIE = 'jack_oidc_state';
+const OIDC_COOKIE_PATH = '/api/v1/auth/oidc';
+
 // Define custom variables type for Hono context
 type Variables = {
   validatedBody: unknown;
@@ -61,6 +69,32 @@ const verifyEmailSchema = z.object({
   token: z.string().min(1, 'Token is required'),
 });
 
+const challengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+
+const challengeCodeSchema = challengeSchema.extend({
+  code: z.string().min(1, 'Code is required').max(20),
+});
+
+const codeSchema = z.object({
+  code: z.string().min(1, 'Code is required').max(20),
+});
+
+const ssoExchangeSchema = z.object({
+  code: z.string().min(1, 'Code is required').max(100),
+});
+
+/**
+ * Response fields for an auto-login: `tokens`, a 2FA `challenge` to finish
+ * on the login page, or `requiresSso` when the role cannot use a password
+ */
+function autoLoginFields(attempted: boolean, login: LoginResult | null) {
+  if (!attempted) return {};
+  if (!login) return { requiresSso: true };
+  return 'twoFactorRequired' in login ? { challenge: login } : { tokens: login };
+}
+
 // ===================
 // Existing Routes
 // ===================
@@ -75,12 +109,17 @@ auth.post('/login', validateBody(loginSchema), async (c) => {
   const userAgent = c.req.header('user-agent');
 
   try {
-    const tokens = await authService.login(email, password, rememberMe);
+    const result = await authService.login(email, password, rememberMe);
+
+    // Password accepted but a second factor is needed; login is logged once it completes
+    if ('twoFactorRequired' in result) {
+      return c.json(result);
+    }
 
     // Log successful login (userId not available from TokenPair, so we log email)
     logAuthEvent('login', undefined, { email }, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
 
-    return c.json(tokens);
+    return c.json(result);
   } catch (error) {
     // Log failed login attempt
     logAuthEvent('login_failed', undefined, { email, reason: (error as Error).message }, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
@@ -191,14 +230,14 @@ auth.post('/register', validateBody(registerSchema), async (c) => {
 
   // Auto-login if account is immediately active (grace period, no approval needed)
   const canAutoLogin = status === 'active' && !needsApproval;
-  const tokens = canAutoLogin ? await authService.generateTokensForUser(staffId) : undefined;
+  const login = canAutoLogin ? await authService.autoLogin(staffId) : null;
 
   return c.json(
     {
       success: true,
       requiresVerification: isInstantVerification,
       requiresApproval: needsApproval,
-      tokens,
+      ...autoLoginFields(canAutoLogin, login),
     },
     201
   );
@@ -270,8 +309,8 @@ auth.post('/verify-email', validateBody(verifyEmailSchema), async (c) => {
   log.info({ staffId }, 'Email verified');
 
   if (canAutoLogin) {
-    const tokens = await authService.generateTokensForUser(staffId);
-    return c.json({ success: true, tokens });
+    const login = await authService.autoLogin(staffId);
+    return c.json({ success: true, ...autoLoginFields(true, login) });
   }
 
   return c.json({ success: true, requiresApproval });
@@ -325,4 +364,222 @@ auth.post('/resend-verification', requireAuth, async (c) => {
   return c.json({ success: true });
 });
 
+// ===================
+// Two-Factor Login
+// ===================
+
+/**
+ * POST /auth/2fa/challenge/verify
+ * Finish a login with a TOTP or recovery code (public, rate-limited)
+ */
+auth.post('/2fa/challenge/verify', authRateLimit, validateBody(challengeCodeSchema), async (c) => {
+  const { challengeToken, code } = c.get('validatedBody') as z.infer<typeof challengeCodeSchema>;
+  const ip = getClientIp(c);
+  const userAgent = c.req.header('user-agent');
+
+  const challenge = await authService.verifyChallenge(challengeToken);
+  if (challenge.method !== 'verify') {
+    throw new UnauthorizedError('Invalid two-factor challenge');
+  }
+
+  const method = await twoFactorService.verifyCode(challenge.userId, code);
+  if (!method) {
+    logAuthEvent('two_factor_failed', challenge.userId, {}, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+    throw new UnauthorizedError('Invalid verification code');
+  }
+
+  const tokens = await authService.completeLogin(challenge.userId, challenge.rememberMe);
+  logAuthEvent('login', challenge.userId, { twoFactor: method }, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+
+  return c.json(tokens);
+});
+
+/**
+ * POST /auth/2fa/challenge/setup
+ * Start the enrollment that a role policy requires before login can finish
+ */
+auth.post('/2fa/challenge/setup', authRateLimit, validateBody(challengeSchema), async (c) => {
+  const { challengeToken } = c.get('validatedBody') as z.infer<typeof challengeSchema>;
+
+  const challenge = await authService.verifyChallenge(challengeToken);
+  if (challenge.method !== 'enroll') {
+    throw new UnauthorizedError('Invalid two-factor challenge');
+  }
+
+  const setup = await twoFactorService.beginEnrollment(challenge.userId);
+
+  return c.json(setup);
+});
+
+/**
+ * POST /auth/2fa/challenge/enable
+ * Confirm a login-time enrollment; returns tokens and the recovery codes
+ */
+auth.post('/2fa/challenge/enable', authRateLimit, validateBody(challengeCodeSchema), async (c) => {
+  const { challengeToken, code } = c.get('validatedBody') as z.infer<typeof challengeCodeSchema>;
+  const ip = getClientIp(c);
+  const userAgent = c.req.header('user-agent');
+
+  const challenge = await authService.verifyChallenge(challengeToken);
+  if (challenge.method !== 'enroll') {
+    throw new UnauthorizedError('Invalid two-factor challenge');
+  }
+
+  const recoveryCodes = await twoFactorService.confirmEnrollment(challenge.userId, code);
+  const tokens = await authService.completeLogin(challenge.userId, challenge.rememberMe);
+
+  logAuthEvent('two_factor_enabled', challenge.userId, {}, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+  logAuthEvent('login', challenge.userId, { twoFactor: 'totp' }, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+
+  return c.json({ ...tokens, recoveryCodes });
+});
+
+// ===================
+// Two-Factor Management
+// ===================
+
+/**
+ * GET /auth/2fa
+ * Current user's 2FA status
+ */
+auth.get('/2fa', requireAuth, async (c) => {
+  const status = await twoFactorService.getStatus(c.get('userId'));
+  return c.json({ status });
+});
+
+/**
+ * POST /auth/2fa/setup
+ * Start enrollment for the current user
+ */
+auth.post('/2fa/setup', requireAuth, async (c) => {
+  const setup = await twoFactorService.beginEnrollment(c.get('userId'));
+  return c.json(setup);
+});
+
+/**
+ * POST /auth/2fa/enable
+ * Confirm enrollment with a code; returns the recovery codes
+ */
+auth.post('/2fa/enable', requireAuth, validateBody(codeSchema), async (c) => {
+  const userId = c.get('userId');
+  const { code } = c.get('validatedBody') as z.infer<typeof codeSchema>;
+
+  const recoveryCodes = await twoFactorService.confirmEnrollment(userId, code);
+
+  const ip = getClientIp(c);
+  const userAgent = c.req.header('user-agent');
+  logAuthEvent('two_factor_enabled', userId, {}, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+
+  return c.json({ recoveryCodes });
+});
+
+/**
+ * POST /auth/2fa/disable
+ * Turn off 2FA for the current user (not allowed if their role requires it)
+ */
+auth.post('/2fa/disable', requireAuth, validateBody(codeSchema), async (c) => {
+  const userId = c.get('userId');
+  const { code } = c.get('validatedBody') as z.infer<typeof codeSchema>;
+
+  await twoFactorService.disable(userId, code);
+
+  const ip = getClientIp(c);
+  const userAgent = c.req.header('user-agent');
+  logAuthEvent('two_factor_disabled', userId, {}, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+
+  return c.json({ success: true });
+});
+
+/**
+ * POST /auth/2fa/recovery-codes
+ * Replace the current user's recovery codes
+ */
+auth.post('/2fa/recovery-codes', requireAuth, validateBody(codeSchema), async (c) => {
+  const userId = c.get('userId');
+  const { code } = c.get('validatedBody') as z.infer<typeof codeSchema>;
+
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(userId, code);
+
+  const ip = getClientIp(c);
+  const userAgent = c.req.header('user-agent');
+  logAuthEvent('recovery_codes_regenerated', userId, {}, { ip, userAgent: userAgent ?? undefined }).catch(() => {});
+
+  return c.json({ recoveryCodes });
+});
+
+// ===================
+// Single Sign-On (OIDC)
+// ===================
+
+/**
+ * Send the browser back to the dashboard login page with a handoff code or error
+ */
+function loginRedirect(params: Record<string, string>): string {
+  return `${getAppUrl()}/login?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * GET /auth/oidc/login
+ * Redirect the browser to the identity provider (public)
+ */
+auth.get('/oidc/login', async (c) => {
+  try {
+    const { url, stateToken } = await oidcService.createAuthorization();
+
+    setCookie(c, OIDC_STATE_COOKIE, stateToken, {
+      path: OIDC_COOKIE_PATH,
+      httpOnly: true,
+      secure: getAppUrl().startsWith('https:'),
+      sameSite: 'Lax',
+      maxAge: OIDC_STATE_EXPIRES_IN,
+    });
+
+    return c.redirect(url);
+  } catch (error) {
+    return c.redirect(loginRedirect({ sso_error: (error as Error).message }));
+  }
+});
+
+/**
+ * GET /auth/oidc/callback
+ * Identity provider redirect target; finishes sign-in and hands off to the dashboard
+ */
+auth.get('/oidc/callback', async (c) => {
+  const { code, state, error: idpError, error_description } = c.req.query();
+  const stateToken = getCookie(c, OIDC_STATE_COOKIE);
+  deleteCookie(c, OIDC_STATE_COOKIE, { path: OIDC_COOKIE_PATH });
+
+  const ip = getClientIp(c);
+  const userAgent = c.req.header('user-agent') ?? undefined;
+
+  try {
+    if (idpError || !code || !state) {
+      throw new UnauthorizedError(error_description || idpError || 'Sign-in was cancelled');
+    }
+
+    const result = await oidcService.handleCallback(code, state, stateToken);
+
+    if (result.provisioned) {
+      logAuthEvent('register', result.staffId, { email: result.email, method: 'sso' }, { ip, userAgent }).catch(() => {});
+    }
+    logAuthEvent('login', result.staffId, { email: result.email, method: 'sso' }, { ip, userAgent }).catch(() => {});
+
+    return c.redirect(loginRedirect({ sso: oidcService.createHandoff(result.tokens) }));
+  } catch (error) {
+    const reason = (error as Error).message;
+    log.warn({ reason }, 'SSO login failed');
+    logAuthEvent('login_failed', undefined, { method: 'sso', reason }, { ip, userAgent }).catch(() => {});
+    return c.redirect(loginRedirect({ sso_error: reason }));
+  }
+});
+
+/**
+ * POST /auth/oidc/exchange
+ * Trade the one-time handoff code from the callback redirect for tokens
+ */
+auth.post('/oidc/exchange', authRateLimit, validateBody(ssoExchangeSchema), async (c) => {
+  const { code } = c.get('validatedBody') as z.infer<typeof ssoExchangeSchema>;
+  return c.json(oidcService.redeemHandoff(code));
+});
+
 export { auth as authRoutes };
@@ -18,10 +18,12 @@ const configRoutes = new Hono();
  */
 configRoutes.get('/public', async (c) => {
   const authSettings = await authSettingsService.get();
+  const oidc = await authSettingsService.getOidc();
 
   return c.json({
     demoMode: isDemo(),
     registrationEnabled: authSettings.registrationEnabled,
+    sso: oidc.enabled ? { buttonLabel: oidc.buttonLabel } : null,
     version: getVersion(),
   });
 });
@@ -7,13 +7,19 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { conversationService } from '@/services/conversation.js';
+import { conversationNoteService, findMentions } from '@/services/conversation-notes.js';
+import { parseMessageMedia } from '@/services/media.js';
 import { guestContextService } from '@/services/guest-context.js';
 import { validateBody, validateQuery } from '../middleware/validator.js';
 import { requireAuth, requirePermission } from '../middleware/auth.js';
 import { PERMISSIONS } from '@/permissions/index.js';
 import type { ContentType, ChannelType } from '@jackthebutler/shared';
-import { getAppRegistry } from '@/apps/index.js';
 import { translate, getPropertyLanguage } from '@/services/translation.js';
+import { emailInboundService } from '@/services/email-inbound.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
+import { whatsappTemplateService } from '@/services/whatsapp-templates.js';
+import { replyDraftService } from '@/services/reply-drafts.js';
+import { handoffSummaryService } from '@/services/handoff-summary.js';
 import { createLogger } from '@/utils/logger.js';
 
 const log = createLogger('api:conversations');
@@ -36,6 +42,17 @@ const updateBodySchema = z.object({
 const sendMessageBodySchema = z.object({
   content: z.string().min(1).max(4000),
   contentType: z.enum(['text', 'image']).default('text'),
+  // Reply suggestion inserted into the composer, if any
+  draft: z
+    .object({
+      id: z.string().min(1),
+      index: z.number().int().min(0),
+    })
+    .optional(),
+});
+
+const addNoteBodySchema = z.object({
+  content: z.string().trim().min(1).max(4000),
 });
 
 const messagesQuerySchema = z.object({
@@ -63,6 +80,15 @@ conversationsRouter.get('/stats', requirePermission(PERMISSIONS.CONVERSATIONS_VI
   return c.json(stats);
 });
 
+/**
+ * GET /api/v1/conversations/staff
+ * Staff who can be @mentioned in internal notes
+ */
+conversationsRouter.get('/staff', requirePermission(PERMISSIONS.CONVERSATIONS_VIEW), async (c) => {
+  const staff = await conversationNoteService.listMentionable();
+  return c.json({ staff });
+});
+
 /**
  * GET /api/v1/conversations
  * List conversations with optional filters
@@ -95,12 +121,20 @@ conversationsRouter.get('/', requirePermission(PERMISSIONS.CONVERSATIONS_VIEW),
 
 /**
  * GET /api/v1/conversations/:id
- * Get conversation details
+ * Get conversation details. WhatsApp conversations include the 24-hour
+ * messaging window, so staff know whether a free-form reply is possible.
  */
 conversationsRouter.get('/:id', requirePermission(PERMISSIONS.CONVERSATIONS_VIEW), async (c) => {
   const id = c.req.param('id');
   const conversation = await conversationService.getDetails(id);
-  return c.json({ conversation });
+  const messagingWindow =
+    conversation.channelType === 'whatsapp'
+      ? {
+          ...(await whatsappTemplateService.getWindow(id)),
+          hasFallbackTemplate: await whatsappTemplateService.hasFallback(),
+        }
+      : null;
+  return c.json({ conversation: { ...conversation, messagingWindow } });
 });
 
 /**
@@ -131,6 +165,24 @@ conversationsRouter.get('/:id/guest', requirePermission(PERMISSIONS.CONVERSATION
   return c.json({ guestContext });
 });
 
+/**
+ * POST /api/v1/conversations/:id/reply-drafts
+ * Suggest replies to the latest guest message for the staff member
+ */
+conversationsRouter.post('/:id/reply-drafts', requirePermission(PERMISSIONS.CONVERSATIONS_MANAGE), async (c) => {
+  const draft = await replyDraftService.generate(c.req.param('id'), c.get('userId'));
+  return c.json({ draft }, 201);
+});
+
+/**
+ * POST /api/v1/conversations/:id/handoff-summary
+ * Rewrite the handoff summary from the conversation so far
+ */
+conversationsRouter.post('/:id/handoff-summary', requirePermission(PERMISSIONS.CONVERSATIONS_MANAGE), async (c) => {
+  const summary = await handoffSummaryService.refresh(c.req.param('id'), 'manual');
+  return c.json({ summary });
+});
+
 /**
  * GET /api/v1/conversations/:id/messages
  * Get messages for a conversation
@@ -144,8 +196,17 @@ conversationsRouter.get('/:id/messages', requirePermission(PERMISSIONS.CONVERSAT
     before: query.before,
   });
 
+  // Internal notes carry their author and the staff they mention
+  const notes = messages.filter((m) => m.direction === 'internal');
+  const mentionable = notes.length > 0 ? await conversationNoteService.listMentionable() : [];
+  const staffNames = new Map(mentionable.map((s) => [s.id, s.name]));
+  const noteFields = (m: (typeof messages)[number]) =>
+    m.direction === 'internal'
+      ? { senderName: (m.senderId && staffNames.get(m.senderId)) ?? null, mentions: findMentions(m.content, mentionable) }
+      : {};
+
   return c.json({
-    messages,
+    messages: messages.map((m) => ({ ...m, media: parseMessageMedia(m.media), ...noteFields(m) })),
     pagination: {
       limit: query.limit,
       before: query.before,
@@ -187,27 +248,52 @@ conversationsRouter.post('/:id/messages', requirePermission(PERMISSIONS.CONVERSA
     contentType: body.contentType as ContentType,
   });
 
-  // Send through channel adapter (guest receives translated version)
-  try {
-    const registry = getAppRegistry();
-    const adapter = registry.getChannelAdapterByType(conversation.channelType as ChannelType);
-    if (adapter) {
-      await adapter.send({
-        conversationId: id,
-        channelId: conversation.channelId,
-        content: translatedContent ?? body.content,
-        contentType: body.contentType as ContentType,
-        metadata: { senderType: 'staff' },
-      });
-    } else {
-      log.warn({ channelType: conversation.channelType }, 'No adapter for channel, message saved but not delivered');
+  if (body.draft) {
+    // Tracking only — a stale or unknown draft must not fail the send
+    try {
+      await replyDraftService.recordUse(body.draft.id, id, body.draft.index, message.id, body.content);
+    } catch (err) {
+      log.warn({ err, draftId: body.draft.id }, 'Failed to record reply suggestion use');
     }
+  }
+
+  // Queue for delivery (guest receives translated version). Email replies carry
+  // Subject/In-Reply-To/References so they stay in the guest's thread.
+  let deliveryStatus = 'pending';
+  try {
+    const queued = await outboundQueueService.enqueue({
+      messageId: message.id,
+      conversationId: id,
+      channel: conversation.channelType as ChannelType,
+      channelId: conversation.channelId,
+      content: translatedContent ?? body.content,
+      contentType: body.contentType as ContentType,
+      metadata: {
+        senderType: 'staff',
+        ...(conversation.channelType === 'email' ? emailInboundService.getReplyHeaders(conversation) : {}),
+      },
+    });
+    deliveryStatus = queued.status === 'sent' ? 'sent' : queued.status === 'dead' ? 'failed' : 'pending';
   } catch (err) {
     // Log error but don't fail the request - message is saved
-    log.error({ err }, 'Failed to send to channel');
+    log.error({ err }, 'Failed to queue message for delivery');
   }
 
-  return c.json({ message }, 201);
+  return c.json({ message: { ...message, deliveryStatus } }, 201);
+});
+
+/**
+ * POST /api/v1/conversations/:id/notes
+ * Add an internal note; the guest never sees it
+ */
+conversationsRouter.post('/:id/notes', requirePermission(PERMISSIONS.CONVERSATIONS_MANAGE), validateBody(addNoteBodySchema), async (c) => {
+  const id = c.req.param('id');
+  const userId = c.get('userId');
+  const body = c.get('validatedBody') as z.infer<typeof addNoteBodySchema>;
+
+  const { message, mentions } = await conversationNoteService.add(id, userId, body.content);
+
+  return c.json({ message: { ...message, mentions } }, 201);
 });
 
 export { conversationsRouter };
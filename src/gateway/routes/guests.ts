@@ -1,7 +1,7 @@
 /**
  * Guest Routes
  *
- * CRUD operations for guest profiles.
+ * CRUD operations for guest profiles, and duplicate review and merging.
  *
  * @module gateway/routes/guests
  */
@@ -13,6 +13,7 @@ import { MemoryService, memoryService } from '@/services/memory.js';
 import { createLogger } from '@/utils/logger.js';
 import { validateBody, requireAuth, requirePermission } from '@/gateway/middleware/index.js';
 import { guestService } from '@/services/guest.js';
+import { guestMergeService } from '@/services/guest-merge.js';
 import { PERMISSIONS } from '@/permissions/index.js';
 import { getAppRegistry } from '@/apps/index.js';
 import { NotFoundError } from '@/errors/index.js';
@@ -70,6 +71,9 @@ const updateGuestSchema = z.object({
   preferences: z.array(z.string()).optional(),
   notes: z.string().optional().nullable(),
   tags: z.array(z.string()).optional(),
+  journeyOptOut: z.boolean().optional(),
+  blocked: z.boolean().optional(),
+  blockedReason: z.string().max(500).optional().nullable(),
 });
 
 /**
@@ -81,6 +85,42 @@ guestRoutes.get('/stats', requirePermission(PERMISSIONS.GUESTS_VIEW), async (c)
   return c.json(stats);
 });
 
+/**
+ * Schema for merging a duplicate into a guest
+ */
+const mergeGuestSchema = z.object({
+  sourceId: z.string().min(1),
+});
+
+/**
+ * GET /api/v1/guests/duplicates
+ * List pairs of guests that look like the same person
+ */
+guestRoutes.get('/duplicates', requirePermission(PERMISSIONS.GUESTS_VIEW), async (c) => {
+  const candidates = await guestMergeService.findCandidates();
+  return c.json({ candidates });
+});
+
+/**
+ * GET /api/v1/guests/merges
+ * List recent guest merges
+ */
+guestRoutes.get('/merges', requirePermission(PERMISSIONS.GUESTS_VIEW), async (c) => {
+  const limit = Math.min(parseInt(c.req.query('limit') || '20', 10), 100);
+  const merges = await guestMergeService.listMerges(limit);
+  return c.json({ merges });
+});
+
+/**
+ * POST /api/v1/guests/merges/:mergeId/undo
+ * Undo a merge, recreating the merged-away guest
+ */
+guestRoutes.post('/merges/:mergeId/undo', requirePermission(PERMISSIONS.GUESTS_MANAGE), async (c) => {
+  const mergeId = c.req.param('mergeId');
+  const guest = await guestMergeService.undo(mergeId, c.get('userId'));
+  return c.json({ guest });
+});
+
 /**
  * GET /api/v1/guests
  * List all guests with optional filtering
@@ -267,6 +307,17 @@ guestRoutes.post('/:id/memories/:memoryId/embed', requirePermission(PERMISSIONS.
   return c.json({ success: true });
 });
 
+/**
+ * POST /api/v1/guests/:id/merge
+ * Merge another guest into this one and delete the other profile
+ */
+guestRoutes.post('/:id/merge', requirePermission(PERMISSIONS.GUESTS_MANAGE), validateBody(mergeGuestSchema), async (c) => {
+  const id = c.req.param('id');
+  const { sourceId } = c.get('validatedBody') as z.infer<typeof mergeGuestSchema>;
+  const result = await guestMergeService.merge(id, sourceId, c.get('userId'));
+  return c.json(result);
+});
+
 /**
  * POST /api/v1/guests
  * Create a new guest
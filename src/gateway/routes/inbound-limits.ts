@@ -0,0 +1,74 @@
+/**
+ * Inbound Limit Settings Routes
+ *
+ * API endpoints for the rate limits, flood detection and per-sender AI
+ * budget applied to WhatsApp, SMS and Telegram messages before they reach
+ * the AI pipeline. Guests are blocked from their profile (`PUT /guests/:id`).
+ *
+ * @module gateway/routes/inbound-limits
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { inboundGuardService, type InboundLimitSettings } from '@/services/inbound-guard.js';
+import { validateBody } from '../middleware/validator.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { auditContext } from '../middleware/security.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+import { logConfigChange } from '@/services/audit.js';
+
+const limitSchema = z.number().int().min(0).max(10000);
+
+const updateSchema = z.object({
+  enabled: z.boolean().optional(),
+  perSenderPerMinute: limitSchema.optional(),
+  perSenderPerHour: limitSchema.optional(),
+  perChannelPerMinute: limitSchema.optional(),
+  floodRepeats: limitSchema.optional(),
+  dailyAiRepliesPerSender: limitSchema.optional(),
+});
+
+type Variables = {
+  validatedBody: unknown;
+  userId: string;
+};
+
+const inboundLimitRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+inboundLimitRoutes.use('/*', requireAuth);
+
+/**
+ * GET /api/v1/settings/inbound-limits
+ * Get inbound limit settings
+ */
+inboundLimitRoutes.get('/', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const settings = await inboundGuardService.getSettings();
+  return c.json({ settings });
+});
+
+/**
+ * PUT /api/v1/settings/inbound-limits
+ * Update inbound limit settings
+ */
+inboundLimitRoutes.put('/', requirePermission(PERMISSIONS.SETTINGS_MANAGE), validateBody(updateSchema), async (c) => {
+  const body = c.get('validatedBody') as z.infer<typeof updateSchema>;
+
+  // Filter out undefined values for exactOptionalPropertyTypes compatibility
+  const input: Partial<InboundLimitSettings> = {};
+  if (body.enabled !== undefined) input.enabled = body.enabled;
+  if (body.perSenderPerMinute !== undefined) input.perSenderPerMinute = body.perSenderPerMinute;
+  if (body.perSenderPerHour !== undefined) input.perSenderPerHour = body.perSenderPerHour;
+  if (body.perChannelPerMinute !== undefined) input.perChannelPerMinute = body.perChannelPerMinute;
+  if (body.floodRepeats !== undefined) input.floodRepeats = body.floodRepeats;
+  if (body.dailyAiRepliesPerSender !== undefined) input.dailyAiRepliesPerSender = body.dailyAiRepliesPerSender;
+
+  const settings = await inboundGuardService.updateSettings(input);
+
+  const userId = c.get('userId') as string;
+  logConfigChange(userId, 'system', 'inbound-limits', { changes: Object.keys(input) }, auditContext(c)).catch(() => {});
+
+  return c.json({ settings });
+});
+
+export { inboundLimitRoutes };
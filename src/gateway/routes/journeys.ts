@@ -0,0 +1,97 @@
+/**
+ * Guest Journey Routes
+ *
+ * CRUD for scheduled guest journey steps (pre-arrival, in-stay, post-stay
+ * messages). Sending is driven by the scheduler; the per-reservation send
+ * log is returned with the reservation detail.
+ *
+ * @module gateway/routes/journeys
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { validateBody, requireAuth, requirePermission } from '@/gateway/middleware/index.js';
+import { guestJourneyService } from '@/services/guest-journey.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+
+// Define custom variables type for Hono context
+type Variables = {
+  validatedBody: unknown;
+  userId: string;
+};
+
+const journeyRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+journeyRoutes.use('/*', requireAuth);
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)');
+
+/**
+ * Templates keyed by language code; at least one language is required
+ */
+const templatesSchema = z
+  .record(z.string().min(2).max(10), z.string().min(1).max(2000))
+  .refine((t) => Object.keys(t).length > 0, 'At least one template is required');
+
+const createStepSchema = z.object({
+  name: z.string().min(1).max(100),
+  anchor: z.enum(['arrival', 'departure']),
+  offsetDays: z.number().int().min(-60).max(60),
+  sendTime: timeSchema.default('10:00'),
+  channel: z.enum(['auto', 'whatsapp', 'sms', 'email']).default('auto'),
+  templates: templatesSchema,
+  subject: z.string().max(200).optional().nullable(),
+  enabled: z.boolean().optional(),
+});
+
+const updateStepSchema = createStepSchema.partial();
+
+/**
+ * GET /api/v1/journeys/steps
+ * List journey steps
+ */
+journeyRoutes.get('/steps', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const steps = await guestJourneyService.listSteps();
+  return c.json({ steps });
+});
+
+/**
+ * GET /api/v1/journeys/steps/:id
+ * Get a single journey step
+ */
+journeyRoutes.get('/steps/:id', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const step = await guestJourneyService.getStep(c.req.param('id'));
+  return c.json(step);
+});
+
+/**
+ * POST /api/v1/journeys/steps
+ * Create a journey step
+ */
+journeyRoutes.post('/steps', requirePermission(PERMISSIONS.SETTINGS_MANAGE), validateBody(createStepSchema), async (c) => {
+  const data = c.get('validatedBody') as z.infer<typeof createStepSchema>;
+  const step = await guestJourneyService.createStep(data);
+  return c.json(step, 201);
+});
+
+/**
+ * PUT /api/v1/journeys/steps/:id
+ * Update a journey step
+ */
+journeyRoutes.put('/steps/:id', requirePermission(PERMISSIONS.SETTINGS_MANAGE), validateBody(updateStepSchema), async (c) => {
+  const data = c.get('validatedBody') as z.infer<typeof updateStepSchema>;
+  const step = await guestJourneyService.updateStep(c.req.param('id'), data);
+  return c.json(step);
+});
+
+/**
+ * DELETE /api/v1/journeys/steps/:id
+ * Delete a journey step and its send log
+ */
+journeyRoutes.delete('/steps/:id', requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (c) => {
+  await guestJourneyService.deleteStep(c.req.param('id'));
+  return c.json({ success: true });
+});
+
+export { journeyRoutes };
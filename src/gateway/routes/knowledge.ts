@@ -12,8 +12,13 @@ import { createLogger } from '@/utils/logger.js';
 import { validateBody, requireAuth, requirePermission } from '@/gateway/middleware/index.js';
 import { getAppRegistry } from '@/apps/index.js';
 import { PERMISSIONS } from '@/permissions/index.js';
-import { KnowledgeService } from '@/services/knowledge.js';
-import { NotFoundError } from '@/errors/index.js';
+import { KnowledgeService, type HybridSearchResult, type KnowledgeRetrievalSettings } from '@/services/knowledge.js';
+import { NotFoundError, ValidationError } from '@/errors/index.js';
+import { logConfigChange } from '@/services/audit.js';
+import { knowledgeDocumentService, MAX_DOCUMENT_BYTES } from '@/services/knowledge-documents.js';
+import { knowledgeGapService, type KnowledgeGapStatus } from '@/services/knowledge-gaps.js';
+import { hotelToday, parseSchedule, validityState } from '@/services/knowledge-validity.js';
+import type { KnowledgeItem } from '@/db/schema.js';
 
 const log = createLogger('routes:knowledge');
 
@@ -43,6 +48,25 @@ const CATEGORIES = [
   'other',
 ] as const;
 
+/**
+ * Hotel-local date (YYYY-MM-DD); null clears it
+ */
+const localDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+  .nullable();
+
+/**
+ * Recurring schedule; null clears it. Finer checks live in the service.
+ */
+const scheduleSchema = z
+  .object({
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+    seasonStart: z.string().optional(),
+    seasonEnd: z.string().optional(),
+  })
+  .nullable();
+
 /**
  * Schema for creating knowledge base entries
  */
@@ -53,6 +77,11 @@ const createEntrySchema = z.object({
   keywords: z.array(z.string()).optional().default([]),
   priority: z.number().int().min(0).max(10).optional().default(5),
   sourceUrl: z.string().url().optional(),
+  validFrom: localDateSchema.optional(),
+  validUntil: localDateSchema.optional(),
+  schedule: scheduleSchema.optional(),
+  // Knowledge gap the entry answers; marks it resolved
+  gapId: z.string().optional(),
 });
 
 /**
@@ -64,8 +93,24 @@ const updateEntrySchema = z.object({
   content: z.string().min(1).optional(),
   keywords: z.array(z.string()).optional(),
   priority: z.number().int().min(0).max(10).optional(),
+  validFrom: localDateSchema.optional(),
+  validUntil: localDateSchema.optional(),
+  schedule: scheduleSchema.optional(),
 });
 
+/**
+ * Shape an entry for the API: parsed keywords and schedule, and where the
+ * entry stands on the hotel's current date
+ */
+function toEntryResponse(entry: KnowledgeItem, today: string) {
+  return {
+    ...entry,
+    keywords: JSON.parse(entry.keywords || '[]'),
+    schedule: parseSchedule(entry.schedule),
+    validity: validityState(entry, today),
+  };
+}
+
 /**
  * GET /api/v1/knowledge
  * List all knowledge base entries with optional filtering
@@ -85,17 +130,15 @@ knowledgeRoutes.get('/', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), async (c
   const { entries, total } = await knowledgeService.listFiltered({
     category,
     search,
-    source: source === 'scraped' || source === 'manual' ? source : undefined,
+    source: source === 'scraped' || source === 'manual' || source === 'document' ? source : undefined,
     status,
     limit,
     offset,
   });
 
+  const today = await hotelToday();
   return c.json({
-    entries: entries.map((e) => ({
-      ...e,
-      keywords: JSON.parse(e.keywords || '[]'),
-    })),
+    entries: entries.map((e) => toEntryResponse(e, today)),
     total,
     limit,
     offset,
@@ -126,9 +169,36 @@ const querySchema = z.object({
   query: z.string().min(1).max(1000),
 });
 
+/**
+ * Schema for hybrid retrieval weights
+ */
+const retrievalSettingsSchema = z
+  .object({
+    vectorWeight: z.number().min(0).max(10),
+    keywordWeight: z.number().min(0).max(10),
+    rrfK: z.number().int().min(1).max(1000),
+  })
+  .partial();
+
+/**
+ * Search match with the score breakdown shown by the dashboard test tool
+ */
+function toMatch(m: HybridSearchResult) {
+  return {
+    id: m.id,
+    title: m.title,
+    category: m.category,
+    similarity: Math.round(m.similarity * 100),
+    score: Number(m.score.toFixed(4)),
+    vectorRank: m.vectorRank,
+    keywordRank: m.keywordRank,
+    keywordScore: m.keywordScore === null ? null : Number(m.keywordScore.toFixed(2)),
+  };
+}
+
 /**
  * POST /api/v1/knowledge/search
- * Semantic search against the knowledge base - returns matches without AI response
+ * Hybrid (keyword + semantic) search against the knowledge base - returns matches without AI response
  */
 knowledgeRoutes.post('/search', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), validateBody(querySchema), async (c) => {
   const { query } = c.get('validatedBody') as z.infer<typeof querySchema>;
@@ -156,12 +226,7 @@ knowledgeRoutes.post('/search', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), v
   log.info({ query: query.substring(0, 50), matchCount: matches.length }, 'Knowledge search completed');
 
   return c.json({
-    matches: matches.map((m) => ({
-      id: m.id,
-      title: m.title,
-      category: m.category,
-      similarity: Math.round(m.similarity * 100),
-    })),
+    matches: matches.map(toMatch),
   });
 });
 
@@ -228,12 +293,7 @@ knowledgeRoutes.post('/ask', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), vali
 
   return c.json({
     response: result.content,
-    matches: matches.map((m) => ({
-      id: m.id,
-      title: m.title,
-      category: m.category,
-      similarity: Math.round(m.similarity * 100),
-    })),
+    matches: matches.map(toMatch),
   });
 });
 
@@ -264,6 +324,176 @@ knowledgeRoutes.post('/reindex', requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE)
   });
 });
 
+/**
+ * GET /api/v1/knowledge/retrieval-settings
+ * Get hybrid retrieval weights
+ */
+knowledgeRoutes.get('/retrieval-settings', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), async (c) => {
+  const knowledgeService = new KnowledgeService();
+  return c.json(await knowledgeService.getRetrievalSettings());
+});
+
+/**
+ * PUT /api/v1/knowledge/retrieval-settings
+ * Update hybrid retrieval weights
+ */
+knowledgeRoutes.put(
+  '/retrieval-settings',
+  requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE),
+  validateBody(retrievalSettingsSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as z.infer<typeof retrievalSettingsSchema>;
+    const input: Partial<KnowledgeRetrievalSettings> = {};
+    if (data.vectorWeight !== undefined) input.vectorWeight = data.vectorWeight;
+    if (data.keywordWeight !== undefined) input.keywordWeight = data.keywordWeight;
+    if (data.rrfK !== undefined) input.rrfK = data.rrfK;
+
+    const knowledgeService = new KnowledgeService();
+    const updated = await knowledgeService.updateRetrievalSettings(input);
+    logConfigChange(c.get('userId'), 'system', 'knowledge_retrieval', { changes: data }, {
+      ip: c.req.header('x-forwarded-for') ?? c.req.header('x-real-ip') ?? undefined,
+      userAgent: c.req.header('user-agent') ?? undefined,
+    }).catch(() => {});
+    return c.json(updated);
+  }
+);
+
+/**
+ * Schema for importing reviewed document entries
+ */
+const documentImportSchema = z.object({
+  sourceRef: z.string().startsWith('document:'),
+  entries: z
+    .array(
+      z.object({
+        category: z.enum(CATEGORIES),
+        title: z.string().min(1).max(500),
+        content: z.string().min(1),
+        keywords: z.array(z.string()).default([]),
+        priority: z.number().int().min(0).max(10).default(5),
+      })
+    )
+    .min(1),
+  qaPairs: z
+    .array(
+      z.object({
+        question: z.string().min(1),
+        answer: z.string().min(1),
+        entryIndex: z.number().int(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * GET /api/v1/knowledge/documents
+ * List documents imported into the knowledge base
+ */
+knowledgeRoutes.get('/documents', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), async (c) => {
+  const documents = await knowledgeDocumentService.listDocuments();
+  return c.json({ documents });
+});
+
+/**
+ * POST /api/v1/knowledge/documents/parse
+ * Upload a document (multipart `file`) and get proposed entries for review.
+ * Optional fields: `category`, `generateQa` ("true").
+ */
+knowledgeRoutes.post('/documents/parse', requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE), async (c) => {
+  const body = await c.req.parseBody();
+  const file = body['file'];
+  if (!(file instanceof File)) {
+    throw new ValidationError('A document file is required');
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new ValidationError(`Document exceeds the ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB limit`);
+  }
+
+  const category = typeof body['category'] === 'string' ? body['category'] : undefined;
+  if (category && !CATEGORIES.includes(category as (typeof CATEGORIES)[number])) {
+    throw new ValidationError(`Invalid category: ${category}`);
+  }
+
+  const result = await knowledgeDocumentService.parse(
+    { filename: file.name, mimeType: file.type, data: new Uint8Array(await file.arrayBuffer()) },
+    {
+      category: category as (typeof CATEGORIES)[number] | undefined,
+      generateQa: body['generateQa'] === 'true',
+    }
+  );
+
+  return c.json(result);
+});
+
+/**
+ * POST /api/v1/knowledge/documents/import
+ * Store reviewed document entries, replacing those from a previous upload
+ */
+knowledgeRoutes.post(
+  '/documents/import',
+  requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE),
+  validateBody(documentImportSchema),
+  async (c) => {
+    const embeddingProvider = getAppRegistry().getEmbeddingProvider();
+    if (!embeddingProvider) {
+      return c.json(
+        { error: 'No embedding provider available. Please enable Local AI or configure OpenAI in Engine > Apps.' },
+        400
+      );
+    }
+
+    const data = c.get('validatedBody') as z.infer<typeof documentImportSchema>;
+    const result = await knowledgeDocumentService.importEntries(data, embeddingProvider);
+    return c.json(result);
+  }
+);
+
+const GAP_STATUSES = ['open', 'resolved', 'dismissed'] as const;
+
+/**
+ * Schema for changing a knowledge gap's status
+ */
+const gapStatusSchema = z.object({
+  status: z.enum(GAP_STATUSES),
+});
+
+/**
+ * GET /api/v1/knowledge/gaps
+ * List clusters of guest questions the knowledge base could not answer, most asked first
+ */
+knowledgeRoutes.get('/gaps', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), async (c) => {
+  const statusParam = c.req.query('status');
+  const status = GAP_STATUSES.includes(statusParam as KnowledgeGapStatus) ? (statusParam as KnowledgeGapStatus) : 'open';
+  const limit = Math.min(parseInt(c.req.query('limit') || '20', 10), 100);
+
+  const gaps = await knowledgeGapService.listClusters({ status, limit });
+  return c.json({ gaps });
+});
+
+/**
+ * GET /api/v1/knowledge/gaps/:id/draft
+ * Pre-filled knowledge base entry for a gap
+ */
+knowledgeRoutes.get('/gaps/:id/draft', requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE), async (c) => {
+  const draft = await knowledgeGapService.draftEntry(c.req.param('id'));
+  return c.json(draft);
+});
+
+/**
+ * PUT /api/v1/knowledge/gaps/:id
+ * Dismiss, resolve or reopen a knowledge gap
+ */
+knowledgeRoutes.put(
+  '/gaps/:id',
+  requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE),
+  validateBody(gapStatusSchema),
+  async (c) => {
+    const { status } = c.get('validatedBody') as z.infer<typeof gapStatusSchema>;
+    const gap = await knowledgeGapService.setStatus(c.req.param('id'), status);
+    return c.json(gap);
+  }
+);
+
 /**
  * GET /api/v1/knowledge/:id
  * Get a single knowledge base entry
@@ -278,10 +508,7 @@ knowledgeRoutes.get('/:id', requirePermission(PERMISSIONS.KNOWLEDGE_VIEW), async
     throw new NotFoundError('KnowledgeItem', id);
   }
 
-  return c.json({
-    ...entry,
-    keywords: JSON.parse(entry.keywords || '[]'),
-  });
+  return c.json(toEntryResponse(entry, await hotelToday()));
 });
 
 /**
@@ -301,17 +528,21 @@ knowledgeRoutes.post('/', requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE), valid
     content: data.content,
     keywords: JSON.stringify(data.keywords),
     priority: data.priority,
+    validFrom: data.validFrom ?? null,
+    validUntil: data.validUntil ?? null,
+    schedule: data.schedule ? JSON.stringify(data.schedule) : null,
   });
 
   log.info({ id: entry.id, category: data.category, title: data.title }, 'Knowledge entry created');
 
-  return c.json(
-    {
-      ...entry,
-      keywords: JSON.parse(entry.keywords || '[]'),
-    },
-    201
-  );
+  // The entry is already saved; a stale gap id shouldn't fail the request
+  if (data.gapId) {
+    await knowledgeGapService
+      .resolve(data.gapId, entry.id)
+      .catch((err) => log.warn({ err, gapId: data.gapId }, 'Failed to resolve knowledge gap'));
+  }
+
+  return c.json(toEntryResponse(entry, await hotelToday()), 201);
 });
 
 /**
@@ -332,12 +563,12 @@ knowledgeRoutes.put('/:id', requirePermission(PERMISSIONS.KNOWLEDGE_MANAGE), val
     ...(data.content && { content: data.content }),
     ...(data.keywords && { keywords: JSON.stringify(data.keywords) }),
     ...(data.priority !== undefined && { priority: data.priority }),
+    ...(data.validFrom !== undefined && { validFrom: data.validFrom }),
+    ...(data.validUntil !== undefined && { validUntil: data.validUntil }),
+    ...(data.schedule !== undefined && { schedule: data.schedule ? JSON.stringify(data.schedule) : null }),
   });
 
-  return c.json({
-    ...entry,
-    keywords: JSON.parse(entry.keywords || '[]'),
-  });
+  return c.json(toEntryResponse(entry, await hotelToday()));
 });
 
 /**
@@ -0,0 +1,37 @@
+/**
+ * Media Routes
+ *
+ * Serves guest photos and voice notes stored by the channel webhooks.
+ * They are shown with conversation messages and on the tasks created from
+ * them, so either permission grants access.
+ *
+ * @module gateway/routes/media
+ */
+
+import { Hono } from 'hono';
+import { mediaService } from '@/services/media.js';
+import { requireAuth, requireAnyPermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+
+const mediaRoutes = new Hono();
+
+mediaRoutes.use('*', requireAuth);
+
+/**
+ * GET /api/v1/media/:file
+ * Download a stored media file
+ */
+mediaRoutes.get(
+  '/:file',
+  requireAnyPermission(PERMISSIONS.CONVERSATIONS_VIEW, PERMISSIONS.TASKS_VIEW),
+  async (c) => {
+    const { data, mimeType } = await mediaService.read(c.req.param('file'));
+    return c.body(new Uint8Array(data), 200, {
+      'Content-Type': mimeType,
+      'Content-Length': String(data.byteLength),
+      'Cache-Control': 'private, max-age=86400',
+    });
+  }
+);
+
+export { mediaRoutes };
@@ -0,0 +1,47 @@
+/**
+ * Room Routes
+ *
+ * Housekeeping board and manual room sync from the PMS.
+ *
+ * @module gateway/routes/rooms
+ */
+
+import { Hono } from 'hono';
+import { roomService } from '@/services/room.js';
+import { pmsSyncService } from '@/services/pms-sync.js';
+import { requireAuth, requirePermission } from '@/gateway/middleware/index.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+import { createLogger } from '@/utils/logger.js';
+
+const log = createLogger('routes:rooms');
+
+// Define custom variables type for Hono context
+type Variables = {
+  userId: string;
+};
+
+const roomRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+roomRoutes.use('/*', requireAuth);
+
+/**
+ * GET /api/v1/rooms
+ * Every room with its status, current guest and open tasks
+ */
+roomRoutes.get('/', requirePermission(PERMISSIONS.TASKS_VIEW), async (c) => {
+  const rooms = await roomService.listBoard();
+  return c.json({ rooms });
+});
+
+/**
+ * POST /api/v1/rooms/sync
+ * Pull rooms and their status from the PMS now
+ */
+roomRoutes.post('/sync', requirePermission(PERMISSIONS.TASKS_MANAGE), async (c) => {
+  log.info('Manual room sync triggered via API');
+  const result = await pmsSyncService.syncRooms();
+  return c.json({ result });
+});
+
+export { roomRoutes };
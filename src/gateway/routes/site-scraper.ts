@@ -23,6 +23,7 @@ import { db, knowledgeBase, knowledgeEmbeddings } from '@/db/index.js';
 import { now } from '@/utils/time.js';
 import { generateId } from '@/utils/id.js';
 import { getAppRegistry } from '@/apps/index.js';
+import { responseCacheService } from '@/services/response-cache.js';
 import type { AIProvider } from '@jackthebutler/shared';
 
 // Define custom variables type for Hono context
@@ -296,7 +297,7 @@ router.get('/sources', async (c) => {
     })
     .from(knowledgeBase)
     .where(
-      sql`${knowledgeBase.sourceUrl} IS NOT NULL AND ${knowledgeBase.status} = 'active'`
+      sql`${knowledgeBase.sourceUrl} IS NOT NULL AND ${knowledgeBase.sourceUrl} NOT LIKE 'document:%' AND ${knowledgeBase.status} = 'active'`
     )
     .groupBy(knowledgeBase.sourceUrl)
     .orderBy(sql`max(${knowledgeBase.createdAt}) DESC`)
@@ -371,6 +372,7 @@ async function importToKnowledgeBase(
 
           // Regenerate embedding for updated content
           await generateAndStoreEmbedding(existing.id, entry.content, embeddingProvider);
+          responseCacheService.invalidateByKnowledgeId(existing.id);
 
           updated++;
           continue;
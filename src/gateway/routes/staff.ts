@@ -13,6 +13,7 @@ import { requireAuth, requirePermission } from '../middleware/auth.js';
 import { PERMISSIONS } from '@/permissions/index.js';
 import { createLogger } from '@/utils/logger.js';
 import { getAuditService } from '@/services/audit.js';
+import { twoFactorService } from '@/auth/two-factor.js';
 
 const log = createLogger('routes:staff');
 
@@ -268,4 +269,21 @@ staffRouter.post('/:id/reject', requirePermission(PERMISSIONS.ADMIN_MANAGE), asy
   return c.json({ staff: member });
 });
 
+/**
+ * POST /api/v1/staff/:id/2fa/reset
+ * Clear a staff member's two-factor enrollment (lost device and recovery codes)
+ */
+staffRouter.post('/:id/2fa/reset', requirePermission(PERMISSIONS.ADMIN_MANAGE), async (c) => {
+  const id = c.req.param('id');
+  const actorId = c.get('userId') as string;
+
+  await twoFactorService.reset(id, actorId);
+
+  // Awaited rather than fire-and-forget: a 2FA reset must always leave an audit record
+  await getAuditService().log({ actorType: 'user', actorId, action: 'two_factor_reset', resourceType: 'staff', resourceId: id, ipAddress: c.req.header('x-forwarded-for') ?? c.req.header('x-real-ip') ?? undefined, userAgent: c.req.header('user-agent') ?? undefined });
+
+  const member = await staffService.getById(id);
+  return c.json({ staff: member });
+});
+
 export { staffRouter };
@@ -13,6 +13,7 @@ import { getAppRegistry } from '@/apps/index.js';
 import { getVersion } from '@/config/version.js';
 import type { AIAppManifest } from '@/apps/types.js';
 import { systemService, describeError } from '@/services/system.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
 
 // describeError is a pure formatter re-exported here for backward compatibility —
 // tests/gateway/system-logs.test.ts imports it directly from this module.
@@ -289,4 +290,22 @@ systemRoutes.get('/logs', requirePermission(PERMISSIONS.HEALTH_VIEW), (c) => {
   return c.json(result);
 });
 
+/**
+ * GET /api/v1/system/outbound/dead
+ * Guest replies that could not be delivered after all retries.
+ */
+systemRoutes.get('/outbound/dead', requirePermission(PERMISSIONS.HEALTH_VIEW), async (c) => {
+  const items = await outboundQueueService.listDead();
+  return c.json({ items });
+});
+
+/**
+ * POST /api/v1/system/outbound/:id/resend
+ * Put an undelivered reply back in the queue and try it now.
+ */
+systemRoutes.post('/outbound/:id/resend', requirePermission(PERMISSIONS.CONVERSATIONS_MANAGE), async (c) => {
+  const item = await outboundQueueService.resend(c.req.param('id'));
+  return c.json({ item });
+});
+
 export { systemRoutes };
@@ -0,0 +1,81 @@
+/**
+ * Task SLA Settings Routes
+ *
+ * API endpoints for per-department, per-priority task SLA policies and their
+ * escalation ladders. Escalations run from the scheduler.
+ *
+ * @module gateway/routes/task-sla
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { taskSlaService, type TaskSlaSettings } from '@/services/task-sla.js';
+import { validateBody } from '../middleware/validator.js';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+import { logConfigChange } from '@/services/audit.js';
+
+const escalationStepSchema = z
+  .object({
+    afterMinutes: z.number().int().min(0).max(10080),
+    bumpPriority: z.boolean().optional(),
+    notifyRoleId: z.string().min(1).optional(),
+    reassignToRoleId: z.string().min(1).optional(),
+  })
+  .refine((s) => s.bumpPriority || s.notifyRoleId || s.reassignToRoleId, {
+    message: 'Escalation step must bump priority, notify a role, or reassign',
+  });
+
+const policySchema = z.object({
+  department: z.string().min(1).max(50),
+  priority: z.enum(['urgent', 'high', 'standard', 'low']),
+  targetMinutes: z.number().int().min(1).max(10080),
+  escalation: z.array(escalationStepSchema).max(10).default([]),
+});
+
+const updateSchema = z.object({
+  enabled: z.boolean().optional(),
+  policies: z.array(policySchema).max(100).optional(),
+});
+
+type Variables = {
+  validatedBody: unknown;
+  userId: string;
+};
+
+const taskSlaRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+taskSlaRoutes.use('/*', requireAuth);
+
+/**
+ * GET /api/v1/settings/task-sla
+ * Get task SLA policies
+ */
+taskSlaRoutes.get('/', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const settings = await taskSlaService.getSettings();
+  return c.json({ settings });
+});
+
+/**
+ * PUT /api/v1/settings/task-sla
+ * Update task SLA policies
+ */
+taskSlaRoutes.put('/', requirePermission(PERMISSIONS.SETTINGS_MANAGE), validateBody(updateSchema), async (c) => {
+  const body = c.get('validatedBody') as z.infer<typeof updateSchema>;
+
+  // Filter out undefined values for exactOptionalPropertyTypes compatibility
+  const input: Partial<TaskSlaSettings> = {};
+  if (body.enabled !== undefined) input.enabled = body.enabled;
+  if (body.policies !== undefined) input.policies = body.policies;
+
+  const settings = await taskSlaService.updateSettings(input);
+
+  const userId = c.get('userId') as string;
+  const ip = c.req.header('x-forwarded-for') ?? c.req.header('x-real-ip') ?? undefined;
+  logConfigChange(userId, 'system', 'task-sla', { changes: Object.keys(input) }, { ip, userAgent: c.req.header('user-agent') ?? undefined }).catch(() => {});
+
+  return c.json({ settings });
+});
+
+export { taskSlaRoutes };
@@ -7,6 +7,7 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { taskService } from '@/services/task.js';
+import { mediaService } from '@/services/media.js';
 import { validateBody, validateQuery } from '../middleware/validator.js';
 import { requireAuth, requirePermission } from '../middleware/auth.js';
 import { PERMISSIONS } from '@/permissions/index.js';
@@ -21,6 +22,22 @@ const listQuerySchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 });
 
+const pmsActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('reservation_note'), note: z.string().min(1).max(2000).optional() }),
+  z.object({ type: z.literal('departure_time'), departureTime: z.iso.datetime({ offset: true }) }),
+  z.object({
+    type: z.literal('room_out_of_order'),
+    until: z.iso.datetime({ offset: true }),
+    reason: z.string().min(1).max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('service_charge'),
+    amount: z.number().positive(),
+    currency: z.string().length(3).optional(),
+    description: z.string().min(1).max(200).optional(),
+  }),
+]);
+
 const createBodySchema = z.object({
   conversationId: z.string().optional(),
   messageId: z.string().optional(),
@@ -30,6 +47,7 @@ const createBodySchema = z.object({
   description: z.string().min(1),
   priority: z.enum(['urgent', 'high', 'standard', 'low']).default('standard'),
   dueAt: z.string().optional(),
+  pmsAction: pmsActionSchema.optional(),
 });
 
 const updateBodySchema = z.object({
@@ -38,6 +56,7 @@ const updateBodySchema = z.object({
   priority: z.enum(['urgent', 'high', 'standard', 'low']).optional(),
   notes: z.string().optional(),
   completionNotes: z.string().optional(),
+  pmsAction: pmsActionSchema.nullable().optional(),
 });
 
 const completeBodySchema = z.object({
@@ -97,7 +116,7 @@ tasksRouter.get('/', requirePermission(PERMISSIONS.TASKS_VIEW), validateQuery(li
 tasksRouter.post('/', requirePermission(PERMISSIONS.TASKS_MANAGE), validateBody(createBodySchema), async (c) => {
   const body = c.get('validatedBody') as z.infer<typeof createBodySchema>;
 
-  const task = await taskService.create(body);
+  const task = await taskService.create({ ...body, validateRoom: true });
 
   return c.json({ task }, 201);
 });
@@ -109,7 +128,9 @@ tasksRouter.post('/', requirePermission(PERMISSIONS.TASKS_MANAGE), validateBody(
 tasksRouter.get('/:id', requirePermission(PERMISSIONS.TASKS_VIEW), async (c) => {
   const id = c.req.param('id');
   const task = await taskService.getById(id);
-  return c.json({ task });
+  // Photos / voice notes from the guest message the task was created from
+  const attachments = task.messageId ? await mediaService.forMessage(task.messageId) : [];
+  return c.json({ task, attachments });
 });
 
 /**
@@ -151,6 +172,18 @@ tasksRouter.post('/:id/complete', requirePermission(PERMISSIONS.TASKS_MANAGE), v
   return c.json({ task });
 });
 
+/**
+ * POST /api/v1/tasks/:id/pms-sync
+ * Retry pushing a completed task's PMS action
+ */
+tasksRouter.post('/:id/pms-sync', requirePermission(PERMISSIONS.TASKS_MANAGE), async (c) => {
+  const id = c.req.param('id');
+
+  const task = await taskService.retryPmsSync(id);
+
+  return c.json({ task });
+});
+
 /**
  * POST /api/v1/tasks/:id/reopen
  * Reopen a completed or cancelled task
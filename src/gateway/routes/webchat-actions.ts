@@ -0,0 +1,186 @@
+/**
+ * WebChat Action Settings Routes
+ *
+ * CRUD for staff-defined webchat actions: form fields, per-locale labels,
+ * and the outcomes run when a guest submits the form. Built-in actions are
+ * listed for reference but can't be edited.
+ *
+ * @module gateway/routes/webchat-actions
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { validateBody, requireAuth, requirePermission, auditContext } from '@/gateway/middleware/index.js';
+import {
+  webchatCustomActionService,
+  type CreateWebChatActionInput,
+  type UpdateWebChatActionInput,
+} from '@/services/webchat-custom-actions.js';
+import { webchatActionService } from '@/services/webchat-actions.js';
+import { SUPPORTED_LOCALES } from '@/locales/webchat/index.js';
+import { ConflictError } from '@/errors/index.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+import { logConfigChange } from '@/services/audit.js';
+
+// Define custom variables type for Hono context
+type Variables = {
+  validatedBody: unknown;
+  userId: string;
+};
+
+const webchatActionRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+webchatActionRoutes.use('/*', requireAuth);
+
+/** Lowercase slug, as the AI tags actions with `[ACTION:<id>]` */
+const slugSchema = z
+  .string()
+  .min(2)
+  .max(50)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes');
+
+const fieldKeySchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Field keys must start with a letter and use letters, numbers or _');
+
+const fieldSchema = z.object({
+  key: fieldKeySchema,
+  label: z.string().min(1).max(100),
+  type: z.enum(['text', 'date', 'time', 'number', 'select', 'email', 'tel']),
+  required: z.boolean(),
+  options: z.array(z.string().min(1).max(50)).max(30).optional(),
+  optionLabels: z.array(z.string().min(1).max(100)).max(30).optional(),
+  placeholder: z.string().max(100).optional(),
+  showWhen: z
+    .object({
+      field: fieldKeySchema,
+      values: z.array(z.string().min(1)).min(1),
+    })
+    .optional(),
+});
+
+const translationSchema = z.object({
+  name: z.string().max(100).optional(),
+  fields: z
+    .record(
+      z.string(),
+      z.object({
+        label: z.string().max(100).optional(),
+        placeholder: z.string().max(100).optional(),
+        options: z.record(z.string(), z.string().max(100)).optional(),
+      })
+    )
+    .optional(),
+  confirmationMessage: z.string().max(1000).optional(),
+});
+
+const outcomeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('task'),
+    department: z.string().min(1).max(50),
+    taskType: z.enum(['housekeeping', 'maintenance', 'concierge', 'room_service', 'other']),
+    priority: z.enum(['urgent', 'high', 'standard', 'low']).default('standard'),
+  }),
+  z.object({
+    type: z.literal('email'),
+    to: z.string().email(),
+  }),
+  z.object({
+    type: z.literal('webhook'),
+    url: z.string().url().regex(/^https?:\/\//, 'Webhook URL must be http(s)'),
+    secret: z.string().min(8).max(200).nullable().optional(),
+  }),
+]);
+
+const createActionSchema = z.object({
+  id: slugSchema,
+  name: z.string().min(1).max(100),
+  triggerHint: z.string().min(1).max(300),
+  requiresVerification: z.boolean().optional(),
+  fields: z.array(fieldSchema).min(1).max(20),
+  translations: z.record(z.enum(SUPPORTED_LOCALES), translationSchema).optional(),
+  outcomes: z.array(outcomeSchema).min(1).max(5),
+  confirmationMessage: z.string().min(1).max(1000),
+  enabled: z.boolean().optional(),
+});
+
+const updateActionSchema = createActionSchema.omit({ id: true }).partial();
+
+/**
+ * GET /api/v1/settings/webchat-actions
+ * List custom actions, plus the built-in ones for reference
+ */
+webchatActionRoutes.get('/', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const actions = await webchatCustomActionService.list();
+  const builtIn = (await webchatActionService.getActions())
+    .filter((a) => webchatActionService.isBuiltIn(a.id))
+    .map(({ id, name }) => ({ id, name }));
+  return c.json({ actions, builtIn, locales: SUPPORTED_LOCALES });
+});
+
+/**
+ * GET /api/v1/settings/webchat-actions/:id
+ * Get a single custom action
+ */
+webchatActionRoutes.get('/:id', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const action = await webchatCustomActionService.get(c.req.param('id'));
+  return c.json(action);
+});
+
+/**
+ * POST /api/v1/settings/webchat-actions
+ * Create a custom action
+ */
+webchatActionRoutes.post(
+  '/',
+  requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+  validateBody(createActionSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as CreateWebChatActionInput;
+    if (webchatActionService.isBuiltIn(data.id)) {
+      throw new ConflictError(`"${data.id}" is a built-in action`);
+    }
+
+    const action = await webchatCustomActionService.create(data);
+    logConfigChange(c.get('userId'), 'system', 'webchat-actions', { created: action.id }, auditContext(c)).catch(() => {});
+    return c.json(action, 201);
+  }
+);
+
+/**
+ * PUT /api/v1/settings/webchat-actions/:id
+ * Update a custom action
+ */
+webchatActionRoutes.put(
+  '/:id',
+  requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+  validateBody(updateActionSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as UpdateWebChatActionInput;
+    const action = await webchatCustomActionService.update(c.req.param('id'), data);
+    logConfigChange(
+      c.get('userId'),
+      'system',
+      'webchat-actions',
+      { updated: action.id, changes: Object.keys(data) },
+      auditContext(c)
+    ).catch(() => {});
+    return c.json(action);
+  }
+);
+
+/**
+ * DELETE /api/v1/settings/webchat-actions/:id
+ * Delete a custom action
+ */
+webchatActionRoutes.delete('/:id', requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (c) => {
+  const id = c.req.param('id');
+  await webchatCustomActionService.delete(id);
+  logConfigChange(c.get('userId'), 'system', 'webchat-actions', { deleted: id }, auditContext(c)).catch(() => {});
+  return c.json({ success: true });
+});
+
+export { webchatActionRoutes };
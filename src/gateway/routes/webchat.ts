@@ -144,12 +144,22 @@ webchatRouter.get('/config', async (c) => {
  * Returns action definitions for the widget.
  * No session required — widget needs this on first load.
  */
-webchatRouter.get('/actions', (c) => {
+webchatRouter.get('/actions', async (c) => {
   const locale = resolveLocale(c.req.query('locale') ?? undefined);
-  const actions = webchatActionService.getActions(locale);
+  const actions = await webchatActionService.getActions(locale);
   return c.json({ actions });
 });
 
+/**
+ * GET /api/v1/webchat/actions/:actionId/prefill
+ * Read-only field values from the session's verified reservation.
+ * Requires valid session token in Authorization header.
+ */
+webchatRouter.get('/actions/:actionId/prefill', requireSession, async (c) => {
+  const values = await webchatActionService.getPrefill(c.req.param('actionId'), c.get('sessionToken'));
+  return c.json({ values });
+});
+
 /**
  * POST /api/v1/webchat/actions/:actionId
  * Execute an action (form submission).
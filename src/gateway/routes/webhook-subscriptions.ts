@@ -0,0 +1,154 @@
+/**
+ * Outbound Webhook Routes
+ *
+ * Admin management of outbound webhook subscriptions: which URLs receive
+ * which events, signing secrets, and the per-subscription delivery log with
+ * manual redelivery.
+ *
+ * @module gateway/routes/webhook-subscriptions
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { validateBody, requireAuth, requirePermission, auditContext } from '@/gateway/middleware/index.js';
+import {
+  outboundWebhookService,
+  WEBHOOK_EVENT_TYPES,
+  type CreateWebhookSubscriptionInput,
+  type UpdateWebhookSubscriptionInput,
+} from '@/services/outbound-webhooks.js';
+import type { EventType } from '@/types/events.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+import { logConfigChange } from '@/services/audit.js';
+
+// Define custom variables type for Hono context
+type Variables = {
+  validatedBody: unknown;
+  userId: string;
+};
+
+const webhookSubscriptionRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+webhookSubscriptionRoutes.use('/*', requireAuth);
+
+const createSubscriptionSchema = z.object({
+  name: z.string().min(1).max(100),
+  url: z.string().url().regex(/^https?:\/\//, 'Webhook URL must be http(s)'),
+  events: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES as [EventType, ...EventType[]]))
+    .min(1)
+    .transform((types) => [...new Set(types)]),
+  enabled: z.boolean().optional(),
+});
+
+const updateSubscriptionSchema = createSubscriptionSchema.partial();
+
+/**
+ * GET /api/v1/settings/webhooks
+ * List subscriptions and the event types that can be subscribed to
+ */
+webhookSubscriptionRoutes.get('/', requirePermission(PERMISSIONS.ADMIN_VIEW), async (c) => {
+  const subscriptions = await outboundWebhookService.list();
+  return c.json({ subscriptions, eventTypes: WEBHOOK_EVENT_TYPES });
+});
+
+/**
+ * GET /api/v1/settings/webhooks/:id
+ * Get a single subscription
+ */
+webhookSubscriptionRoutes.get('/:id', requirePermission(PERMISSIONS.ADMIN_VIEW), async (c) => {
+  const subscription = await outboundWebhookService.get(c.req.param('id'));
+  return c.json(subscription);
+});
+
+/**
+ * POST /api/v1/settings/webhooks
+ * Create a subscription. The signing secret is only returned here.
+ */
+webhookSubscriptionRoutes.post(
+  '/',
+  requirePermission(PERMISSIONS.ADMIN_MANAGE),
+  validateBody(createSubscriptionSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as CreateWebhookSubscriptionInput;
+    const { subscription, secret } = await outboundWebhookService.create(data);
+    logConfigChange(
+      c.get('userId'),
+      'system',
+      'webhooks',
+      { created: subscription.id, url: subscription.url, events: subscription.events },
+      auditContext(c)
+    ).catch(() => {});
+    return c.json({ subscription, secret }, 201);
+  }
+);
+
+/**
+ * PUT /api/v1/settings/webhooks/:id
+ * Update a subscription (re-enabling clears the failure count)
+ */
+webhookSubscriptionRoutes.put(
+  '/:id',
+  requirePermission(PERMISSIONS.ADMIN_MANAGE),
+  validateBody(updateSubscriptionSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as UpdateWebhookSubscriptionInput;
+    const subscription = await outboundWebhookService.update(c.req.param('id'), data);
+    logConfigChange(
+      c.get('userId'),
+      'system',
+      'webhooks',
+      { updated: subscription.id, changes: Object.keys(data) },
+      auditContext(c)
+    ).catch(() => {});
+    return c.json(subscription);
+  }
+);
+
+/**
+ * DELETE /api/v1/settings/webhooks/:id
+ * Delete a subscription and its delivery log
+ */
+webhookSubscriptionRoutes.delete('/:id', requirePermission(PERMISSIONS.ADMIN_MANAGE), async (c) => {
+  const id = c.req.param('id');
+  await outboundWebhookService.delete(id);
+  logConfigChange(c.get('userId'), 'system', 'webhooks', { deleted: id }, auditContext(c)).catch(() => {});
+  return c.json({ success: true });
+});
+
+/**
+ * POST /api/v1/settings/webhooks/:id/rotate-secret
+ * Replace the signing secret; the new one is only returned here
+ */
+webhookSubscriptionRoutes.post('/:id/rotate-secret', requirePermission(PERMISSIONS.ADMIN_MANAGE), async (c) => {
+  const id = c.req.param('id');
+  const { secret } = await outboundWebhookService.rotateSecret(id);
+  logConfigChange(c.get('userId'), 'system', 'webhooks', { rotatedSecret: id }, auditContext(c)).catch(() => {});
+  return c.json({ secret });
+});
+
+/**
+ * GET /api/v1/settings/webhooks/:id/deliveries
+ * Recent deliveries, newest first
+ */
+webhookSubscriptionRoutes.get('/:id/deliveries', requirePermission(PERMISSIONS.ADMIN_VIEW), async (c) => {
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50', 10) || 50, 1), 200);
+  const deliveries = await outboundWebhookService.listDeliveries(c.req.param('id'), limit);
+  return c.json({ deliveries });
+});
+
+/**
+ * POST /api/v1/settings/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Send a past delivery again
+ */
+webhookSubscriptionRoutes.post(
+  '/:id/deliveries/:deliveryId/redeliver',
+  requirePermission(PERMISSIONS.ADMIN_MANAGE),
+  async (c) => {
+    const delivery = await outboundWebhookService.redeliver(c.req.param('id'), c.req.param('deliveryId'));
+    return c.json(delivery);
+  }
+);
+
+export { webhookSubscriptionRoutes };
@@ -0,0 +1,192 @@
+/**
+ * Email Webhook Routes
+ *
+ * Handles inbound email parse webhooks from Mailgun (Routes → forward) and
+ * SendGrid (Inbound Parse). Both are normalized to an `InboundEmail` and
+ * handed to the inbound email service, which threads and replies.
+ * Configuration is loaded from the app registry (configured via dashboard UI).
+ */
+
+import { Hono } from 'hono';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { InboundEmail } from '@jackthebutler/shared';
+import { createLogger } from '@/utils/logger.js';
+import { appConfigService } from '@/apps/config.js';
+import { emailInboundService } from '@/services/email-inbound.js';
+import { parseMessageIds, parseRawHeaders } from '@/utils/email.js';
+
+const log = createLogger('webhook:email');
+
+export const emailWebhook = new Hono();
+
+/** Mailgun signatures older than this are rejected as replays */
+const MAILGUN_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Mailgun inbound route body (multipart/form-data)
+ */
+interface MailgunInboundBody {
+  sender?: string;
+  from?: string;
+  recipient?: string;
+  subject?: string;
+  'body-plain'?: string;
+  'body-html'?: string;
+  'stripped-text'?: string;
+  'Message-Id'?: string;
+  'In-Reply-To'?: string;
+  References?: string;
+  'message-headers'?: string;
+  timestamp?: string;
+  token?: string;
+  signature?: string;
+}
+
+/**
+ * SendGrid Inbound Parse body (multipart/form-data)
+ */
+interface SendGridInboundBody {
+  from?: string;
+  to?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  headers?: string;
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  try {
+    return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a Mailgun webhook signature: HMAC-SHA256(timestamp + token)
+ */
+function verifyMailgunSignature(
+  body: MailgunInboundBody,
+  signingKey: string | undefined
+): boolean {
+  if (!signingKey) {
+    log.warn('Mailgun webhook signing key not configured, skipping signature verification');
+    return true; // Allow in development without signing key
+  }
+
+  const { timestamp, token, signature } = body;
+  if (!timestamp || !token || !signature) {
+    log.warn('Missing Mailgun signature fields');
+    return false;
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAILGUN_MAX_AGE_SECONDS) {
+    log.warn({ timestamp }, 'Stale Mailgun webhook timestamp');
+    return false;
+  }
+
+  const expected = createHmac('sha256', signingKey).update(timestamp + token).digest('hex');
+  return safeEqual(signature, expected);
+}
+
+/**
+ * Mailgun sends headers as a JSON array of [name, value] pairs
+ */
+function parseMailgunHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!raw) return headers;
+  try {
+    const pairs = JSON.parse(raw) as Array<[string, string]>;
+    for (const [name, value] of pairs) {
+      const key = name.toLowerCase();
+      if (!(key in headers)) headers[key] = value;
+    }
+  } catch {
+    log.debug('Unparseable Mailgun message-headers');
+  }
+  return headers;
+}
+
+/**
+ * POST /webhooks/email/mailgun
+ * Receive inbound email forwarded by a Mailgun route
+ */
+emailWebhook.post('/mailgun', async (c) => {
+  const body = (await c.req.parseBody()) as unknown as MailgunInboundBody;
+
+  const appConfig = await appConfigService.getAppConfig('email-mailgun');
+  const signingKey = (appConfig?.config as { webhookSigningKey?: string } | undefined)?.webhookSigningKey;
+
+  if (!verifyMailgunSignature(body, signingKey)) {
+    log.warn('Invalid Mailgun signature');
+    return c.text('Invalid signature', 401);
+  }
+
+  const headers = parseMailgunHeaders(body['message-headers']);
+  const email: InboundEmail = {
+    from: body.from ?? body.sender ?? '',
+    to: body.recipient,
+    subject: body.subject ?? '',
+    text: body['stripped-text'] ?? body['body-plain'] ?? '',
+    html: body['body-html'],
+    messageId: body['Message-Id'] ?? headers['message-id'],
+    inReplyTo: body['In-Reply-To'] ?? headers['in-reply-to'],
+    references: parseMessageIds(body.References ?? headers['references']),
+    headers,
+  };
+
+  log.info({ from: email.from, messageId: email.messageId }, 'Received Mailgun inbound email');
+
+  // Process asynchronously to respond quickly
+  emailInboundService.receive(email, 'email-mailgun').catch((err) => {
+    log.error({ err }, 'Error processing Mailgun inbound email');
+  });
+
+  return c.text('OK', 200);
+});
+
+/**
+ * POST /webhooks/email/sendgrid
+ * Receive inbound email from SendGrid Inbound Parse.
+ *
+ * SendGrid does not sign parse webhooks; if an inbound token is configured
+ * it must be appended to the parse URL as `?token=...`.
+ */
+emailWebhook.post('/sendgrid', async (c) => {
+  const appConfig = await appConfigService.getAppConfig('email-sendgrid');
+  const inboundToken = (appConfig?.config as { inboundToken?: string } | undefined)?.inboundToken;
+
+  if (inboundToken && !safeEqual(c.req.query('token') ?? '', inboundToken)) {
+    log.warn('Invalid SendGrid inbound token');
+    return c.text('Invalid token', 401);
+  }
+
+  const body = (await c.req.parseBody()) as unknown as SendGridInboundBody;
+  const headers = parseRawHeaders(body.headers);
+  const email: InboundEmail = {
+    from: body.from ?? headers['from'] ?? '',
+    to: body.to,
+    subject: body.subject ?? headers['subject'] ?? '',
+    text: body.text ?? '',
+    html: body.html,
+    messageId: headers['message-id'],
+    inReplyTo: headers['in-reply-to'],
+    references: parseMessageIds(headers['references']),
+    headers,
+  };
+
+  log.info({ from: email.from, messageId: email.messageId }, 'Received SendGrid inbound email');
+
+  // Process asynchronously to respond quickly
+  emailInboundService.receive(email, 'email-sendgrid').catch((err) => {
+    log.error({ err }, 'Error processing SendGrid inbound email');
+  });
+
+  return c.text('OK', 200);
+});
+
+export type { MailgunInboundBody, SendGridInboundBody };
@@ -9,6 +9,7 @@ import { whatsappWebhook } from './whatsapp.js';
 import { smsWebhook } from './sms.js';
 import { pmsWebhooks } from './pms.js';
 import { telegramWebhook } from './telegram.js';
+import { emailWebhook } from './email.js';
 
 export const webhookRoutes = new Hono();
 
@@ -24,4 +25,7 @@ webhookRoutes.route('/pms', pmsWebhooks);
 // Telegram webhook
 webhookRoutes.route('/telegram', telegramWebhook);
 
-export { whatsappWebhook, smsWebhook, pmsWebhooks, telegramWebhook };
+// Inbound email (Mailgun / SendGrid parse)
+webhookRoutes.route('/email', emailWebhook);
+
+export { whatsappWebhook, smsWebhook, pmsWebhooks, telegramWebhook, emailWebhook };
@@ -280,6 +280,44 @@ pmsWebhooks.post('/cloudbeds', async (c) => {
   return c.json({ received: true });
 });
 
+/**
+ * POST /webhooks/pms/apaleo
+ * Apaleo-specific webhook endpoint
+ */
+pmsWebhooks.post('/apaleo', async (c) => {
+  const signature = c.req.header('x-apaleo-signature');
+  const body = await c.req.text();
+
+  const adapter = getAppRegistry().getActivePMSAdapter();
+  if (!adapter) {
+    log.warn('No PMS adapter configured');
+    return c.json({ error: 'PMS not configured' }, 400);
+  }
+  if (adapter.provider !== 'apaleo') {
+    log.warn('Received Apaleo webhook but adapter is not Apaleo');
+    return c.json({ error: 'PMS mismatch' }, 400);
+  }
+
+  if (adapter.verifyWebhookSignature) {
+    if (!adapter.verifyWebhookSignature(body, signature || '')) {
+      log.warn('Invalid or missing Apaleo webhook signature');
+      return c.json({ error: 'Invalid signature' }, 401);
+    }
+  }
+
+  // Apaleo sends one event per request; the adapter fetches the entity it names
+  if (adapter.parseWebhook) {
+    const event = await adapter.parseWebhook(JSON.parse(body), { 'x-apaleo-signature': signature || '' });
+    if (event) {
+      processEventWebhook(event).catch((err) => {
+        log.error({ err, eventType: event.type }, 'Error processing Apaleo webhook');
+      });
+    }
+  }
+
+  return c.json({ received: true });
+});
+
 // ==================
 // Processing Functions
 // ==================
@@ -305,7 +343,7 @@ async function processReservationWebhook(reservation: NormalizedReservation): Pr
  * Process event webhook - handle various event types
  */
 async function processEventWebhook(event: PMSEvent): Promise<void> {
-  const { pmsSyncService } = await import('@/services/pms-sync.js');
+  const { pmsSyncService, isRoomStatus } = await import('@/services/pms-sync.js');
 
   switch (event.type) {
     case 'reservation.created':
@@ -348,9 +386,19 @@ async function processEventWebhook(event: PMSEvent): Promise<void> {
       }
       break;
 
-    case 'room.status_changed':
-      // Could update room status cache here
-      log.info({ room: event.data.room, newStatus: event.data.newStatus }, 'Room status changed');
+    case 'room.status_changed': {
+      // PMS-specific endpoints send the whole room; the generic endpoint sends roomNumber + newStatus
+      if (event.data.room) {
+        await pmsSyncService.upsertRoom(event.data.room);
+        break;
+      }
+      const { roomNumber, newStatus } = event.data as PMSEvent['data'] & { roomNumber?: string };
+      if (roomNumber && newStatus && isRoomStatus(newStatus)) {
+        await pmsSyncService.updateRoomStatus(roomNumber, newStatus);
+      } else {
+        log.warn({ roomNumber, newStatus }, 'Ignoring room status change without a room or valid status');
+      }
       break;
+    }
   }
 }
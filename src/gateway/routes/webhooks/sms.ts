@@ -10,6 +10,8 @@ import { createHmac, timingSafeEqual } from 'node:crypto';
 import { createLogger } from '@/utils/logger.js';
 import { getAppRegistry } from '@/apps/index.js';
 import { appConfigService } from '@/apps/config.js';
+import type { DownloadedMedia } from '@jackthebutler/shared';
+import type { MessageMedia } from '@/types/message.js';
 
 const log = createLogger('webhook:sms');
 
@@ -27,8 +29,8 @@ interface TwilioWebhookBody {
   NumMedia: string;
   NumSegments: string;
   SmsStatus?: string;
-  MediaUrl0?: string;
-  MediaContentType0?: string;
+  /** MMS attachments come as MediaUrl0..N / MediaContentType0..N */
+  [media: `MediaUrl${number}` | `MediaContentType${number}`]: string | undefined;
 }
 
 /**
@@ -186,19 +188,9 @@ async function processIncomingSmsAsync(body: TwilioWebhookBody): Promise<void> {
 
   const provider = ext.instance as {
     sendMessage: (to: string, body: string) => Promise<unknown>;
+    downloadMedia: (url: string) => Promise<DownloadedMedia>;
   };
 
-  // Only process text messages
-  if (parseInt(body.NumMedia, 10) > 0) {
-    log.info({ numMedia: body.NumMedia }, 'SMS contains media, sending fallback');
-    await provider.sendMessage(
-      body.From,
-      "I can only process text messages at the moment. Please send your request as text."
-    );
-    return;
-  }
-
-  // Process through message processor
   const { processMessage } = await import('@/pipeline/index.js');
   const { generateId } = await import('@/utils/id.js');
 
@@ -206,14 +198,44 @@ async function processIncomingSmsAsync(body: TwilioWebhookBody): Promise<void> {
     id: generateId('message'),
     channel: 'sms' as const,
     channelId: body.From,
-    content: body.Body,
+    content: body.Body ?? '',
     contentType: 'text' as const,
     timestamp: new Date(),
   };
 
+  // Blocked senders, floods and messages over a rate limit or the AI budget skip
+  // the AI; they get no fallback reply and their media is not fetched
+  const { inboundGuardService } = await import('@/services/inbound-guard.js');
+  if ((await inboundGuardService.admit(inbound)).action !== 'process') return;
+
+  // Text, photos and audio are processed; other attachments (video, vCards) are not
+  const media = await downloadMmsMedia(provider, body);
+  if (parseInt(body.NumMedia, 10) > 0 && media.length === 0 && !body.Body?.trim()) {
+    log.info({ numMedia: body.NumMedia }, 'MMS has no usable media, sending fallback');
+    await provider.sendMessage(
+      body.From,
+      "I can only process text, photos and voice messages at the moment. Please send your request as text."
+    );
+    return;
+  }
+
   try {
-    const response = await processMessage(inbound);
-    await provider.sendMessage(body.From, response.content);
+    const response = await processMessage({
+      ...inbound,
+      contentType: media[0]?.kind ?? 'text',
+      ...(media.length > 0 ? { media } : {}),
+    });
+    // Keyed on the MessageSid: a retried webhook doesn't send a second reply
+    const { outboundQueueService } = await import('@/services/outbound-queue.js');
+    await outboundQueueService.enqueue({
+      messageId: response.messageId,
+      conversationId: response.conversationId,
+      channel: 'sms',
+      appId: 'sms-twilio',
+      channelId: body.From,
+      content: response.content,
+      idempotencyKey: `sms:${body.MessageSid}`,
+    });
     log.info({ messageSid: body.MessageSid }, 'SMS processed successfully');
   } catch (error) {
     log.error({ err: error, messageSid: body.MessageSid }, 'Failed to process SMS');
@@ -224,6 +246,38 @@ async function processIncomingSmsAsync(body: TwilioWebhookBody): Promise<void> {
   }
 }
 
+/**
+ * Download and store the photos and audio attached to an MMS.
+ * Unsupported types and failed downloads are skipped.
+ */
+async function downloadMmsMedia(
+  provider: { downloadMedia: (url: string) => Promise<DownloadedMedia> },
+  body: TwilioWebhookBody
+): Promise<MessageMedia[]> {
+  const numMedia = parseInt(body.NumMedia, 10) || 0;
+  if (numMedia === 0) return [];
+
+  const { mediaService, mediaKind } = await import('@/services/media.js');
+  const media: MessageMedia[] = [];
+
+  for (let i = 0; i < numMedia; i++) {
+    const url = body[`MediaUrl${i}`];
+    const contentType = body[`MediaContentType${i}`] ?? '';
+    if (!url || !mediaKind(contentType)) {
+      log.debug({ messageSid: body.MessageSid, contentType }, 'Skipping unsupported MMS attachment');
+      continue;
+    }
+    try {
+      const file = await provider.downloadMedia(url);
+      media.push(await mediaService.store(file.data, contentType));
+    } catch (error) {
+      log.warn({ err: error, messageSid: body.MessageSid }, 'Failed to download MMS media');
+    }
+  }
+
+  return media;
+}
+
 /**
  * Handle a status update for a sent message
  */
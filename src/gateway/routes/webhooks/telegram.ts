@@ -9,6 +9,8 @@ import { Hono } from 'hono';
 import { createLogger } from '@/utils/logger.js';
 import { getAppRegistry } from '@/apps/index.js';
 import { appConfigService } from '@/apps/config.js';
+import type { DownloadedMedia } from '@jackthebutler/shared';
+import type { MessageMedia } from '@/types/message.js';
 
 const log = createLogger('webhook:telegram');
 
@@ -48,6 +50,18 @@ interface TelegramMessage {
   };
   date: number;
   text?: string;
+  caption?: string;
+  /** Available sizes of a photo, smallest first */
+  photo?: Array<{ file_id: string; width: number; height: number; file_size?: number }>;
+  voice?: TelegramFile;
+  audio?: TelegramFile;
+}
+
+interface TelegramFile {
+  file_id: string;
+  duration?: number;
+  mime_type?: string;
+  file_size?: number;
 }
 
 /**
@@ -126,36 +140,87 @@ async function handleIncomingMessage(message: TelegramMessage): Promise<void> {
 
   const provider = ext.instance as {
     sendText: (chatId: string, text: string) => Promise<unknown>;
+    downloadFile: (fileId: string, mimeType?: string) => Promise<DownloadedMedia>;
   };
 
   const chatId = String(message.chat.id);
 
-  // Only process text messages
-  if (!message.text) {
-    await provider.sendText(chatId, "I can only process text messages at the moment. Please send your request as text.");
-    return;
-  }
-
-  // Process through message processor
   const { processMessage } = await import('@/pipeline/index.js');
   const { generateId } = await import('@/utils/id.js');
 
+  const content = message.text ?? message.caption;
   const inbound = {
     id: generateId('message'),
     channel: 'telegram' as const,
     channelId: chatId,
-    content: message.text,
+    content: content ?? '',
     contentType: 'text' as const,
     timestamp: new Date(message.date * 1000),
   };
 
+  // Blocked senders, floods and messages over a rate limit or the AI budget skip
+  // the AI; they get no fallback reply and their media is not fetched
+  const { inboundGuardService } = await import('@/services/inbound-guard.js');
+  if ((await inboundGuardService.admit(inbound)).action !== 'process') return;
+
+  // Text, photos and voice notes / audio are processed
+  const media = await downloadMessageMedia(provider, message);
+  if (!content && !media) {
+    await provider.sendText(
+      chatId,
+      "I can only process text, photos and voice messages at the moment. Please send your request as text."
+    );
+    return;
+  }
+
   try {
-    const response = await processMessage(inbound);
-    await provider.sendText(chatId, response.content);
+    const response = await processMessage({
+      ...inbound,
+      contentType: media?.kind ?? 'text',
+      ...(media ? { media: [media] } : {}),
+    });
+    // Message IDs are unique per chat: a redelivered update doesn't send a second reply
+    const { outboundQueueService } = await import('@/services/outbound-queue.js');
+    await outboundQueueService.enqueue({
+      messageId: response.messageId,
+      conversationId: response.conversationId,
+      channel: 'telegram',
+      appId: 'telegram',
+      channelId: chatId,
+      content: response.content,
+      idempotencyKey: `telegram:${chatId}:${message.message_id}`,
+    });
   } catch (error) {
     log.error({ err: error, messageId: message.message_id }, 'Failed to process Telegram message');
     await provider.sendText(chatId, "I'm sorry, I encountered an error processing your request. Please try again.");
   }
 }
 
+/**
+ * Download and store a message's photo (largest size) or voice note / audio.
+ * Returns undefined when there is none or the download fails.
+ */
+async function downloadMessageMedia(
+  provider: { downloadFile: (fileId: string, mimeType?: string) => Promise<DownloadedMedia> },
+  message: TelegramMessage
+): Promise<MessageMedia | undefined> {
+  const photo = message.photo?.at(-1);
+  const audio = message.voice ?? message.audio;
+  const ref = photo
+    ? { fileId: photo.file_id, mimeType: 'image/jpeg' }
+    : audio
+      ? { fileId: audio.file_id, mimeType: audio.mime_type ?? 'audio/ogg' }
+      : undefined;
+  if (!ref) return undefined;
+
+  try {
+    const { mediaService } = await import('@/services/media.js');
+    const file = await provider.downloadFile(ref.fileId, ref.mimeType);
+    return await mediaService.store(file.data, ref.mimeType);
+  } catch (error) {
+    log.warn({ err: error, messageId: message.message_id }, 'Failed to download Telegram media');
+    return undefined;
+  }
+}
+
 export type { TelegramUpdate, TelegramMessage };
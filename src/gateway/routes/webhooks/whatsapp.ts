@@ -10,6 +10,8 @@ import { createLogger } from '@/utils/logger.js';
 import { getAppRegistry } from '@/apps/index.js';
 import { appConfigService } from '@/apps/config.js';
 import { createHmac } from 'node:crypto';
+import type { DownloadedMedia } from '@jackthebutler/shared';
+import type { MessageMedia } from '@/types/message.js';
 
 const log = createLogger('webhook:whatsapp');
 
@@ -171,14 +173,22 @@ interface WebhookMessage {
   text?: {
     body: string;
   };
-  image?: {
-    id: string;
-    mime_type: string;
-    sha256: string;
+  image?: WebhookMedia & {
+    caption?: string;
+  };
+  audio?: WebhookMedia & {
+    /** True for voice notes recorded in WhatsApp */
+    voice?: boolean;
   };
   // Add more message types as needed
 }
 
+interface WebhookMedia {
+  id: string;
+  mime_type: string;
+  sha256: string;
+}
+
 interface WebhookStatus {
   id: string;
   status: 'sent' | 'delivered' | 'read' | 'failed';
@@ -251,39 +261,71 @@ async function handleIncomingMessage(
     const provider = ext.instance as {
       sendText: (to: string, text: string) => Promise<unknown>;
       markAsRead: (messageId: string) => Promise<void>;
+      downloadMedia: (mediaId: string) => Promise<DownloadedMedia>;
     };
 
     // WhatsApp sends phone numbers without + prefix, add it for E.164 format
     const phoneNumber = message.from.startsWith('+') ? message.from : `+${message.from}`;
 
-    // Mark as read
-    await provider.markAsRead(message.id);
-
-    // Only process text messages
-    if (message.type !== 'text' || !message.text?.body) {
-      await provider.sendText(
-        phoneNumber,
-        "I can only process text messages at the moment. Please send your request as text."
-      );
-      return;
-    }
-
-    // Process through message processor
     const { processMessage } = await import('@/pipeline/index.js');
     const { generateId } = await import('@/utils/id.js');
 
+    // Text, photos and audio (voice notes) are processed
+    const mediaRef = message.type === 'image' ? message.image : message.type === 'audio' ? message.audio : undefined;
+    const content = message.type === 'text' ? message.text?.body : message.image?.caption;
     const inbound = {
       id: generateId('message'),
       channel: 'whatsapp' as const,
       channelId: phoneNumber,
-      content: message.text.body,
+      content: content ?? '',
       contentType: 'text' as const,
       timestamp: new Date(),
     };
 
+    // Blocked senders, floods and messages over a rate limit or the AI budget skip
+    // the AI; they get no read receipt or fallback reply and their media is not fetched
+    const { inboundGuardService } = await import('@/services/inbound-guard.js');
+    if ((await inboundGuardService.admit(inbound)).action !== 'process') return;
+
+    // Mark as read
+    await provider.markAsRead(message.id);
+
+    let media: MessageMedia | undefined;
+    if (mediaRef) {
+      try {
+        const { mediaService } = await import('@/services/media.js');
+        const file = await provider.downloadMedia(mediaRef.id);
+        media = await mediaService.store(file.data, mediaRef.mime_type || file.mimeType);
+      } catch (error) {
+        log.warn({ err: error, messageId: message.id, type: message.type }, 'Failed to download WhatsApp media');
+      }
+    }
+
+    if (!content && !media) {
+      await provider.sendText(
+        phoneNumber,
+        "I can only process text, photos and voice messages at the moment. Please send your request as text."
+      );
+      return;
+    }
+
     try {
-      const response = await processMessage(inbound);
-      await provider.sendText(phoneNumber, response.content);
+      const response = await processMessage({
+        ...inbound,
+        contentType: media?.kind ?? 'text',
+        ...(media ? { media: [media] } : {}),
+      });
+      // Keyed on the WhatsApp message ID: a redelivered webhook doesn't send a second reply
+      const { outboundQueueService } = await import('@/services/outbound-queue.js');
+      await outboundQueueService.enqueue({
+        messageId: response.messageId,
+        conversationId: response.conversationId,
+        channel: 'whatsapp',
+        appId: 'whatsapp-meta',
+        channelId: phoneNumber,
+        content: response.content,
+        idempotencyKey: `whatsapp:${message.id}`,
+      });
     } catch (error) {
       log.error({ err: error, messageId: message.id }, 'Failed to process message');
       await provider.sendText(
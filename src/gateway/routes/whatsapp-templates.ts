@@ -0,0 +1,80 @@
+/**
+ * WhatsApp Template Settings Routes
+ *
+ * Templates synced from the WhatsApp Business account: which guest or
+ * reservation field fills each variable, and which template is sent when a
+ * conversation's 24-hour window has closed.
+ *
+ * @module gateway/routes/whatsapp-templates
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { validateBody, requireAuth, requirePermission, auditContext } from '@/gateway/middleware/index.js';
+import {
+  whatsappTemplateService,
+  TEMPLATE_VARIABLE_SOURCES,
+  type UpdateWhatsAppTemplateInput,
+} from '@/services/whatsapp-templates.js';
+import { PERMISSIONS } from '@/permissions/index.js';
+import { logConfigChange } from '@/services/audit.js';
+
+// Define custom variables type for Hono context
+type Variables = {
+  validatedBody: unknown;
+  userId: string;
+};
+
+const whatsappTemplateRoutes = new Hono<{ Variables: Variables }>();
+
+// Apply auth to all routes
+whatsappTemplateRoutes.use('/*', requireAuth);
+
+const updateTemplateSchema = z.object({
+  variables: z.array(z.enum(TEMPLATE_VARIABLE_SOURCES).nullable()).max(20).optional(),
+  isFallback: z.boolean().optional(),
+});
+
+/**
+ * GET /api/v1/settings/whatsapp-templates
+ * List synced templates and the fields variables can be mapped to
+ */
+whatsappTemplateRoutes.get('/', requirePermission(PERMISSIONS.SETTINGS_VIEW), async (c) => {
+  const templates = await whatsappTemplateService.list();
+  return c.json({ templates, variableSources: TEMPLATE_VARIABLE_SOURCES });
+});
+
+/**
+ * POST /api/v1/settings/whatsapp-templates/sync
+ * Pull templates from the WhatsApp Business account
+ */
+whatsappTemplateRoutes.post('/sync', requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (c) => {
+  const result = await whatsappTemplateService.sync();
+  logConfigChange(c.get('userId'), 'system', 'whatsapp-templates', { synced: result }, auditContext(c)).catch(() => {});
+  const templates = await whatsappTemplateService.list();
+  return c.json({ result, templates });
+});
+
+/**
+ * PUT /api/v1/settings/whatsapp-templates/:id
+ * Map variables and choose the fallback template
+ */
+whatsappTemplateRoutes.put(
+  '/:id',
+  requirePermission(PERMISSIONS.SETTINGS_MANAGE),
+  validateBody(updateTemplateSchema),
+  async (c) => {
+    const data = c.get('validatedBody') as UpdateWhatsAppTemplateInput;
+    const template = await whatsappTemplateService.update(c.req.param('id'), data);
+    logConfigChange(
+      c.get('userId'),
+      'system',
+      'whatsapp-templates',
+      { updated: template.id, changes: Object.keys(data) },
+      auditContext(c)
+    ).catch(() => {});
+    return c.json(template);
+  }
+);
+
+export { whatsappTemplateRoutes };
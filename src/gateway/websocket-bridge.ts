@@ -8,11 +8,11 @@
  */
 
 import { events, EventTypes } from '@/events/index.js';
-import type { AppEvent, ModelDownloadProgressEvent, TaskCreatedEvent, ConversationEscalatedEvent, ConversationUpdatedEvent, ReservationCheckedInEvent, ReservationCheckedOutEvent, MessageSentEvent } from '@/types/events.js';
+import type { AppEvent, ModelDownloadProgressEvent, TaskCreatedEvent, TaskSlaBreachedEvent, ConversationEscalatedEvent, ConversationNoteAddedEvent, ConversationUpdatedEvent, ReservationCheckedInEvent, ReservationCheckedOutEvent, MessageSentEvent, RoomStatusChangedEvent } from '@/types/events.js';
 import { db, tasks, conversations, reservations, guests } from '@/db/index.js';
 import { eq } from 'drizzle-orm';
 import type { ActivityItem } from './routes/activities.js';
-import { broadcast } from './websocket.js';
+import { broadcast, sendToUser } from './websocket.js';
 import { taskService } from '@/services/task.js';
 import { conversationService } from '@/services/conversation.js';
 import { createLogger } from '@/utils/logger.js';
@@ -44,6 +44,21 @@ export function setupWebSocketBridge() {
   events.on(EventTypes.TASK_CREATED, broadcastTaskStats);
   events.on(EventTypes.TASK_ASSIGNED, broadcastTaskStats);
   events.on(EventTypes.TASK_COMPLETED, broadcastTaskStats);
+  events.on(EventTypes.TASK_SLA_BREACHED, broadcastTaskStats);
+
+  // Notify the supervisors named by the escalation step
+  events.on<TaskSlaBreachedEvent>(EventTypes.TASK_SLA_BREACHED, (event) => {
+    const payload = {
+      taskId: event.taskId,
+      department: event.department,
+      priority: event.priority,
+      overdueMinutes: event.overdueMinutes,
+      level: event.level,
+    };
+    for (const staffId of event.notifyStaffIds) {
+      sendToUser(staffId, { type: 'task:sla_breached', payload });
+    }
+  });
 
   // ─────────────────────────────────────────────────────────────
   // Conversation Events
@@ -72,6 +87,28 @@ export function setupWebSocketBridge() {
 
   events.on(EventTypes.MESSAGE_RECEIVED, broadcastNewMessage);
   events.on(EventTypes.MESSAGE_SENT, broadcastNewMessage);
+  events.on(EventTypes.CONVERSATION_NOTE_ADDED, broadcastNewMessage);
+
+  // Tell staff they were @mentioned in an internal note
+  events.on<ConversationNoteAddedEvent>(EventTypes.CONVERSATION_NOTE_ADDED, (event) => {
+    const payload = {
+      conversationId: event.conversationId,
+      messageId: event.messageId,
+      authorName: event.authorName,
+      snippet: event.content.length > 120 ? event.content.slice(0, 120) + '…' : event.content,
+    };
+    for (const staffId of event.mentionedStaffIds) {
+      sendToUser(staffId, { type: 'conversation:mention', payload });
+    }
+  });
+
+  // ─────────────────────────────────────────────────────────────
+  // Room Events
+  // ─────────────────────────────────────────────────────────────
+
+  events.on<RoomStatusChangedEvent>(EventTypes.ROOM_STATUS_CHANGED, (event) => {
+    broadcast({ type: 'rooms:updated', payload: { roomNumber: event.roomNumber, status: event.status } });
+  });
 
   // ─────────────────────────────────────────────────────────────
   // Model Download Events
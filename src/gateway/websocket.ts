@@ -94,7 +94,7 @@ export function setupWebSocket(server: Server): WebSocketServer {
     if (token) {
       try {
         const { payload } = await jwtVerify(token, secret);
-        if (payload.type !== 'refresh') {
+        if (payload.type === 'access') {
           ws.userId = payload.sub as string;
           ws.roleId = payload.roleId as string;
 
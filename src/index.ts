@@ -14,7 +14,9 @@ import { setupWebSocketBridge } from '@/gateway/websocket-bridge.js';
 import { scheduler } from '@/scheduler/index.js';
 import { appConfigService } from '@/apps/config.js';
 import { subscribeActivityLogToEvents } from '@/services/activity-log.js';
+import { subscribeHandoffSummariesToEvents } from '@/services/handoff-summary.js';
 import { subscribeMemoryExtractionToEvents } from '@/services/memory-events.js';
+import { subscribeOutboundWebhooksToEvents } from '@/services/outbound-webhooks.js';
 import { getAppRegistry } from '@/apps/index.js';
 
 const APP_NAME = 'Jack The Butler';
@@ -147,8 +149,14 @@ async function main(): Promise<void> {
       getEmbeddingProvider: () => getAppRegistry().getEmbeddingProvider(),
     });
 
+    // Summarize conversations for staff as they are escalated
+    subscribeHandoffSummariesToEvents();
+
+    // Forward events to admin-configured outbound webhooks
+    subscribeOutboundWebhooksToEvents();
+
     // Note: Email is now handled via extensions (Mailgun, SendGrid, Gmail SMTP)
-    // Inbound email uses webhooks instead of IMAP polling
+    // Inbound email arrives by provider webhook, or by the scheduler's IMAP poll for SMTP
 
     startupLog.info('Ready!');
   });
@@ -25,6 +25,12 @@ type TranslationData = typeof en;
 /** Flat widget strings sent to the client via config endpoint */
 export type WidgetStrings = TranslationData['widget'];
 
+/** Display strings for one action (`actions.<key>`) */
+export interface ActionStrings {
+  name?: string;
+  fields?: Record<string, { label?: string; placeholder?: string; options?: Record<string, string> }>;
+}
+
 // ============================================
 // Locale map
 // ============================================
@@ -70,6 +76,13 @@ export function getWidgetStrings(locale: SupportedLocale): WidgetStrings {
   return locales[locale]?.widget ?? locales.en.widget;
 }
 
+/**
+ * Get the display strings for a built-in action in one locale (no English fallback).
+ */
+export function getActionTranslation(locale: SupportedLocale, key: string): ActionStrings | undefined {
+  return (locales[locale]?.actions as Record<string, ActionStrings> | undefined)?.[key];
+}
+
 // ============================================
 // Helpers
 // ============================================
@@ -7,6 +7,8 @@
  * @module pipeline/adapters
  */
 import type {
+  AICompletionRequest,
+  AICompletionResult,
   AIProvider,
   ConversationProvider,
   KnowledgeProvider,
@@ -28,7 +30,8 @@ import { KnowledgeService } from '@/services/knowledge.js';
 import { conversationService } from '@/services/conversation.js';
 import type { Conversation as PkgConversation } from '@thebutler/pipeline';
 import type { Conversation as ButlerConversation } from '@/db/schema.js';
-import type { ChannelType } from '@jackthebutler/shared';
+import type { ChannelType, CompletionRequest, CompletionResponse, ContentType } from '@jackthebutler/shared';
+import type { MessageMedia } from '@/types/message.js';
 
 // Singleton — KnowledgeService is stateless aside from its DB queries, so
 // one instance is fine for the whole process.
@@ -99,11 +102,14 @@ export const conversationProvider: ConversationProvider = {
   addMessage: async (conversationId, message) => {
     const direction = message.role === 'user' ? 'inbound' : 'outbound';
     const senderType = message.role === 'user' ? 'guest' : 'ai';
+    // Inbound photos / voice notes arrive in metadata (see `toPkgInbound`)
+    const media = message.role === 'user' ? (message.metadata?.media as MessageMedia[] | undefined) : undefined;
     const saved = await conversationService.addMessage(conversationId, {
       direction,
       senderType,
       content: message.content,
-      contentType: 'text',
+      contentType: media?.length ? ((message.metadata?.contentType as ContentType | undefined) ?? media[0]!.kind) : 'text',
+      ...(media?.length ? { media } : {}),
       ...(message.language ? { detectedLanguage: message.language } : {}),
       ...(message.translation ? { translatedContent: message.translation } : {}),
     });
@@ -112,11 +118,13 @@ export const conversationProvider: ConversationProvider = {
 
   // For history that feeds the LLM, prefer the translated content on
   // inbound rows so the conversation reads in one language (the system's).
+  // Internal staff notes are not turns; the responder gets them as a
+  // prompt section when the hotel opts in (see `contextSections`).
   // Swallows errors to a empty array — history isn't load-bearing; a DB
   // hiccup shouldn't fail the whole reply.
   getRecentMessages: async (conversationId, limit) => {
     try {
-      const rows = await conversationService.getMessages(conversationId, { limit });
+      const rows = await conversationService.getMessages(conversationId, { limit, excludeInternal: true });
       return rows.map((r) => {
         const role: 'user' | 'assistant' = r.direction === 'inbound' ? 'user' : 'assistant';
         const content =
@@ -147,15 +155,20 @@ export const loggerProvider: Logger = createLogger('core:pipeline');
 
 // Projects Butler's `KnowledgeSearchResult` rows down to the package's
 // `KnowledgeHit` shape ({id, title, content, similarity}). Butler may
-// return extra fields (`category`, etc.); they're dropped at the boundary.
+// return extra fields (`category`, score breakdown, etc.); they're dropped
+// at the boundary. With the query text available the search is hybrid
+// (keyword + vector); without it, vector-only.
 export const knowledgeProvider: KnowledgeProvider = {
   search: async (embedding, options) => {
-    const rows = await knowledgeService.searchByEmbedding([...embedding], {
+    const searchOptions = {
       ...(options?.limit !== undefined ? { limit: options.limit } : {}),
       ...(options?.minSimilarity !== undefined
         ? { minSimilarity: options.minSimilarity }
         : {}),
-    });
+    };
+    const rows = options?.query
+      ? await knowledgeService.hybridSearch(options.query, [...embedding], searchOptions)
+      : await knowledgeService.searchByEmbedding([...embedding], searchOptions);
     return rows.map((r) => ({
       id: r.id,
       title: r.title,
@@ -183,10 +196,53 @@ export const memoryProvider: MemoryProvider = {
 
 // ─── Registry-dependent AI adapter ─────────────────────────────
 
+// Package request → Butler plugin request. Maps the package's
+// `modelTier: 'reasoning'` onto Butler's `'completion'`.
+function toButlerCompletionRequest(request: AICompletionRequest): CompletionRequest {
+  const butlerTier =
+    request.modelTier === 'reasoning' ? 'completion' : request.modelTier;
+
+  return {
+    messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxTokens !== undefined ? { maxTokens: request.maxTokens } : {}),
+    ...(butlerTier !== undefined ? { modelTier: butlerTier } : {}),
+    ...(request.purpose !== undefined ? { purpose: request.purpose } : {}),
+    // The package's `logFields` maps directly onto Butler's existing
+    // plugin-level `onComplete` hook — same signature, different name.
+    // The plugin merges the returned fields into the app_log row.
+    ...(request.logFields !== undefined
+      ? { onComplete: request.logFields }
+      : {}),
+  };
+}
+
+function toPkgCompletionResult(response: CompletionResponse): AICompletionResult {
+  return {
+    content: response.content,
+    ...(response.usage
+      ? {
+          usage: {
+            inputTokens: response.usage.inputTokens,
+            outputTokens: response.usage.outputTokens,
+          },
+        }
+      : {}),
+  };
+}
+
+function requireCompletionProvider() {
+  const provider = getAppRegistry().getActiveAIProvider();
+  if (!provider) throw new Error('No active AI provider configured');
+  return provider;
+}
+
 // Routes `complete` to the user-configured active AI provider and `embed`
 // to whichever provider is currently embedding-capable (Butler's registry
 // can return a different provider for embeddings — e.g. local fallback).
-// Maps the package's `modelTier: 'reasoning'` onto Butler's `'completion'`.
+// `stream` uses the active provider's `stream` when it has one; otherwise
+// it degrades to a buffered `complete` with no deltas, and the caller
+// still gets the final message.
 // `name` is a getter so System Health logs see the active provider's id.
 export const aiProvider: AIProvider = {
   get name() {
@@ -194,37 +250,18 @@ export const aiProvider: AIProvider = {
   },
 
   complete: async (request) => {
-    const provider = getAppRegistry().getActiveAIProvider();
-    if (!provider) throw new Error('No active AI provider configured');
-
-    const butlerTier =
-      request.modelTier === 'reasoning' ? 'completion' : request.modelTier;
-
-    const response = await provider.complete({
-      messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
-      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
-      ...(request.maxTokens !== undefined ? { maxTokens: request.maxTokens } : {}),
-      ...(butlerTier !== undefined ? { modelTier: butlerTier } : {}),
-      ...(request.purpose !== undefined ? { purpose: request.purpose } : {}),
-      // The package's `logFields` maps directly onto Butler's existing
-      // plugin-level `onComplete` hook — same signature, different name.
-      // The plugin merges the returned fields into the app_log row.
-      ...(request.logFields !== undefined
-        ? { onComplete: request.logFields }
-        : {}),
-    });
+    const provider = requireCompletionProvider();
+    const response = await provider.complete(toButlerCompletionRequest(request));
+    return toPkgCompletionResult(response);
+  },
 
-    return {
-      content: response.content,
-      ...(response.usage
-        ? {
-            usage: {
-              inputTokens: response.usage.inputTokens,
-              outputTokens: response.usage.outputTokens,
-            },
-          }
-        : {}),
-    };
+  stream: async (request, onDelta) => {
+    const provider = requireCompletionProvider();
+    const butlerRequest = toButlerCompletionRequest(request);
+    const response = provider.stream
+      ? await provider.stream(butlerRequest, onDelta)
+      : await provider.complete(butlerRequest);
+    return toPkgCompletionResult(response);
   },
 
   embed: async (request) => {
@@ -10,6 +10,7 @@
 
 import type { MessageContext } from '@thebutler/pipeline';
 import type { VerificationState } from '@/services/verification.js';
+import type { KnowledgeGapReason } from '@/services/knowledge-gaps.js';
 
 /**
  * Butler-specific extensions to `MessageContext`.
@@ -36,4 +37,17 @@ export interface ButlerContext extends MessageContext {
    * Id of the task row inserted by `routeTask`, if any.
    */
   taskId?: string;
+
+  /**
+   * Set by `lookupResponseCache` when the answer was served from the
+   * semantic response cache instead of the LLM. `similarity` is 1 for an
+   * exact repeat.
+   */
+  responseCacheHit?: { id: string; similarity: number };
+
+  /**
+   * Set by `recordKnowledgeGap` when the knowledge base could not answer
+   * this turn's question.
+   */
+  knowledgeGap?: KnowledgeGapReason;
 }
@@ -32,7 +32,9 @@ import {
   generateResponse,
   translateOutbound,
   saveOutboundMessage,
+  type Env,
   type Pipeline,
+  type ProcessOptions,
   type Stage,
   type InboundMessage as PkgInboundMessage,
   type OutboundMessage as PkgOutboundMessage,
@@ -41,6 +43,7 @@ import type { InboundMessage, OutboundMessage } from '@/types/message.js';
 import { getPropertyLanguage } from '@/services/translation.js';
 import { events, EventTypes } from '@/events/index.js';
 import { writeActivityLog } from '@/services/activity-log.js';
+import { mediaService } from '@/services/media.js';
 import type { ButlerContext } from './context.js';
 import {
   aiProvider,
@@ -53,7 +56,10 @@ import {
   promptProvider,
 } from './adapters.js';
 import { checkVerification } from './stages/check-verification.js';
-import { extractResponseTags } from './stages/extract-response-tags.js';
+import {
+  extractResponseTags,
+  createTagStreamFilter,
+} from './stages/extract-response-tags.js';
 import { emitMessageReceived } from './stages/emit-message-received.js';
 import { emitMessageSent } from './stages/emit-message-sent.js';
 import {
@@ -61,6 +67,9 @@ import {
   buildOutcomeDetails,
 } from './stages/write-processor-outcome.js';
 import { routeTask } from './stages/route-task.js';
+import { lookupResponseCache } from './stages/lookup-response-cache.js';
+import { storeResponseCache } from './stages/store-response-cache.js';
+import { recordKnowledgeGap } from './stages/record-knowledge-gap.js';
 
 export type { ButlerContext } from './context.js';
 
@@ -83,10 +92,18 @@ let cached: { pipeline: Pipeline<ButlerContext>; lang: string } | null = null;
 //     verification (last name + confirmation number lookup).
 //   - `routeTask` after `checkVerification` — creates a row in `tasks`
 //     when the classified intent calls for staff action.
-//   - `extractResponseTags` after `generateResponse` — pulls `[ACTION:...]`
+//   - `lookupResponseCache` before `generateResponse` — serves repeated
+//     non-personal FAQ answers from the semantic response cache; the
+//     package's `generateResponse` skips when `aiResponse` is already set.
+//   - `storeResponseCache` after `generateResponse` — caches fresh answers
+//     to cacheable intents, tags included.
+//   - `extractResponseTags` after `storeResponseCache` — pulls `[ACTION:...]`
 //     and `[QUICK_REPLIES:...]` tags out of `aiResponse.content` into
 //     `aiResponse.metadata` for the webchat UI; runs before translation so
 //     `translateOutbound` operates on tag-free text.
+//   - `recordKnowledgeGap` after `extractResponseTags` — records questions
+//     the knowledge base couldn't answer (no retrieval match, or the AI
+//     tagged `[NO_ANSWER]`) for the knowledge-gap report.
 //   - `emitMessageSent` after `saveOutboundMessage` — fires `MESSAGE_SENT`
 //     once the outbound is durable.
 //   - `writeProcessorOutcome` at the end — writes the success-path
@@ -107,16 +124,19 @@ const stages: readonly Stage<ButlerContext>[] = [
   computeEmbedding,
   loadKnowledge,
   loadMemories,
+  lookupResponseCache,
   generateResponse,
+  storeResponseCache,
   extractResponseTags,
+  recordKnowledgeGap,
   translateOutbound,
   saveOutboundMessage,
   emitMessageSent,
   writeProcessorOutcome,
 ];
 
-function buildPipeline(systemLanguage: string): Pipeline<ButlerContext> {
-  return createPipeline<ButlerContext>({
+function buildEnv(systemLanguage: string): Env<ButlerContext> {
+  return {
     intents: intentProvider,
     prompts: promptProvider,
     services: {
@@ -128,8 +148,74 @@ function buildPipeline(systemLanguage: string): Pipeline<ButlerContext> {
       memory: memoryProvider,
     },
     systemLanguage,
-    stages,
-  });
+  };
+}
+
+function buildPipeline(systemLanguage: string): Pipeline<ButlerContext> {
+  return createPipeline<ButlerContext>({ ...buildEnv(systemLanguage), stages });
+}
+
+// The retrieval half of `stages`, for a guest message that is already
+// stored. Nothing is saved, classified or generated.
+const replyContextStages: readonly Stage<ButlerContext>[] = [
+  resolveConversation,
+  loadHistory,
+  computeEmbedding,
+  loadKnowledge,
+  loadMemories,
+];
+
+/**
+ * Load what the responder would see when answering a stored guest message:
+ * conversation, entity, history, knowledge hits and memories. Used by the
+ * staff reply drafting assistant (`services/reply-drafts`), which renders
+ * its own prompt from the returned ctx and env.
+ *
+ * `translation` is the message in the property language, when the guest
+ * wrote in another one; retrieval runs on it like `translateInbound`'s.
+ */
+export async function loadReplyContext(
+  inbound: InboundMessage,
+  translation?: string,
+): Promise<{ ctx: ButlerContext; env: Env<ButlerContext> }> {
+  const env = buildEnv(await getPropertyLanguage());
+  const ctx: ButlerContext = {
+    inbound: toPkgInbound(inbound),
+    startTime: Date.now(),
+    ...(translation ? { inboundTranslation: translation } : {}),
+  };
+  for (const stage of replyContextStages) {
+    await stage(ctx, env);
+  }
+  return { ctx, env };
+}
+
+// The storage half of `stages`: the inbound reaches the inbox, nothing
+// is translated, classified or generated.
+const recordStages: readonly Stage<ButlerContext>[] = [
+  resolveConversation,
+  saveInboundMessage,
+  emitMessageReceived,
+];
+
+/**
+ * Store an inbound message without answering it — no AI call is made.
+ * Used by the inbound guard (`services/inbound-guard`) for messages held
+ * back by a rate limit or the AI budget, so staff can still read and
+ * answer them from the inbox.
+ */
+export async function recordInbound(
+  inbound: InboundMessage,
+): Promise<{ conversationId: string; messageId: string }> {
+  const env = buildEnv(await getPropertyLanguage());
+  const ctx: ButlerContext = { inbound: toPkgInbound(inbound), startTime: Date.now() };
+  for (const stage of recordStages) {
+    await stage(ctx, env);
+  }
+  if (!ctx.conversation || !ctx.savedInboundId) {
+    throw new Error(`Inbound message was not stored: ${inbound.id}`);
+  }
+  return { conversationId: ctx.conversation.id, messageId: ctx.savedInboundId };
 }
 
 async function getPipeline(): Promise<Pipeline<ButlerContext>> {
@@ -144,6 +230,14 @@ async function getPipeline(): Promise<Pipeline<ButlerContext>> {
  * baked into `getPipeline()` (hospitality, for Butler); each call site
  * simply hands over the inbound message and receives the outbound reply.
  *
+ * Channels that can render partial text (webchat) pass `onDelta` to
+ * receive the reply as it is generated; response tags are filtered out of
+ * the stream. The returned outbound is still the final, authoritative
+ * message — deltas are a preview of it.
+ *
+ * Photos and voice notes are described / transcribed first (see
+ * `services/media`), so every stage sees them as text.
+ *
  * On failure, emits `MESSAGE_FAILED` and a failure-path
  * `processor.outcome` activity-log row using the `ctx` carried by the
  * thrown `PipelineError`, then re-throws so the caller can decide what
@@ -151,10 +245,15 @@ async function getPipeline(): Promise<Pipeline<ButlerContext>> {
  */
 export async function processMessage(
   inbound: InboundMessage,
+  options: ProcessOptions = {},
 ): Promise<OutboundMessage> {
   const pipeline = await getPipeline();
+  const prepared = await mediaService.prepareInbound(inbound);
   try {
-    const ctx = await pipeline.process(toPkgInbound(inbound));
+    const ctx = await pipeline.process(
+      toPkgInbound(prepared),
+      options.onDelta ? { onDelta: createTagStreamFilter(options.onDelta) } : {},
+    );
     return toButlerOutbound(ctx.outbound);
   } catch (err) {
     if (err instanceof PipelineError) {
@@ -208,8 +307,12 @@ function emitFailureSignals(
 // the package's wire type uses `createdAt` and is text-only. These shape
 // mappers bridge the two. Revisit when reviewing save-inbound /
 // save-outbound stages — at that point we may align the underlying types
-// instead of mapping at the edge.
+// instead of mapping at the edge. Media travels in metadata so the
+// conversation adapter can persist it with the inbound row.
 function toPkgInbound(inbound: InboundMessage): PkgInboundMessage {
+  const metadata = inbound.media?.length
+    ? { ...inbound.metadata, contentType: inbound.contentType, media: inbound.media }
+    : inbound.metadata;
   return {
     id: inbound.id,
     channel: inbound.channel,
@@ -217,13 +320,14 @@ function toPkgInbound(inbound: InboundMessage): PkgInboundMessage {
     content: inbound.content,
     createdAt: inbound.timestamp,
     ...(inbound.conversationId ? { conversationId: inbound.conversationId } : {}),
-    ...(inbound.metadata ? { metadata: inbound.metadata } : {}),
+    ...(metadata ? { metadata } : {}),
   };
 }
 
 function toButlerOutbound(out: PkgOutboundMessage): OutboundMessage {
   return {
     conversationId: out.conversationId,
+    messageId: out.id,
     content: out.content,
     contentType: 'text',
     ...(out.metadata ? { metadata: out.metadata } : {}),
@@ -29,6 +29,11 @@ export interface IntentDefinition {
   /** Whether the guest must be identified before this intent can be acted on */
   requiresIdentity: boolean;
   priority: 'low' | 'standard' | 'high' | 'urgent';
+  /**
+   * Whether answers are generic enough to be served from the response
+   * cache. Only non-personal FAQ-style inquiries should set this.
+   */
+  cacheable?: boolean;
 }
 
 /**
@@ -273,6 +278,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'inquiry.accessibility': {
     description: 'Questions about accessibility features or disability accommodations',
@@ -286,6 +292,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'inquiry.pet_policy': {
     description: 'Questions about pet policies and fees',
@@ -299,6 +306,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'request.reservation.cancel': {
     description: 'Request to cancel a reservation',
@@ -326,6 +334,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'request.checkout.late': {
     description: 'Request for late checkout',
@@ -350,6 +359,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'request.checkin.early': {
     description: 'Request for early check-in',
@@ -375,6 +385,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'request.maintenance.wifi': {
     description: 'WiFi or internet not working, needs technical fix',
@@ -401,6 +412,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'inquiry.dining': {
     description: 'Questions about dining options',
@@ -414,6 +426,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'inquiry.location': {
     description: 'Questions about locations (hotel facilities, nearby places)',
@@ -427,6 +440,7 @@ export const IntentDefinitions: Record<string, IntentDefinition> = {
     requiresAction: false,
     requiresIdentity: false,
     priority: 'low',
+    cacheable: true,
   },
   'inquiry.billing': {
     description: 'Questions about charges, bills, or payments',
@@ -572,7 +586,7 @@ export function getIntentDefinition(intent: string): IntentDefinition | undefine
 /**
  * Projects an `IntentDefinition` into the package's `Intent` shape with
  * routing metadata (department, requiresAction, requiresIdentity,
- * priority) folded onto `intent.metadata` so downstream stages and the
+ * priority, cacheable) folded onto `intent.metadata` so downstream stages and the
  * responder can read them without knowing the hospitality flavour.
  */
 function toIntent(name: string, def: IntentDefinition): Intent {
@@ -585,6 +599,7 @@ function toIntent(name: string, def: IntentDefinition): Intent {
       requiresAction: def.requiresAction,
       requiresIdentity: def.requiresIdentity,
       priority: def.priority,
+      cacheable: def.cacheable ?? false,
     },
   };
 }
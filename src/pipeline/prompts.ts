@@ -1,13 +1,15 @@
 /**
  * Prompts — every system-prompt the pipeline's PromptProvider exposes.
  *
- * Four exports:
+ * Five exports:
  *   - `classifierPrompt(intents)` — intent classification system prompt
  *   - `responderPrompt(ctx, env)` — response generation system prompt;
- *     async, draws on entity, reservation, memories, knowledge, intent,
- *     verification state, channel actions, and the hotel profile
+ *     async, draws on entity, reservation, memories, staff notes, knowledge,
+ *     intent, verification state, channel actions, and the hotel profile
  *   - `detectorPrompt` — language detection system prompt
  *   - `translatorPrompt(from, to)` — translation system prompt
+ *   - `drafterPrompt(ctx, env)` — staff reply suggestions; not part of
+ *     the PromptProvider, called by `services/reply-drafts`
  *
  * Imported by `./adapters.ts`. Everything is inlined here (no dependency
  *
@@ -16,6 +18,7 @@
  * @module pipeline/prompts
  */
 
+import { conversationNoteService } from '@/services/conversation-notes.js';
 import { settingsService } from '@/services/settings.js';
 import {
   MAX_VERIFICATION_ATTEMPTS,
@@ -104,6 +107,7 @@ interface HotelProfile {
   contactPhone?: string;
   contactEmail?: string;
   website?: string;
+  staffNotesForAi?: boolean;
 }
 
 interface ChannelActionHint {
@@ -122,7 +126,6 @@ export async function responderPrompt(
   env: Env<ButlerContext>,
 ): Promise<string> {
   const entity = ctx.entity as HospitalityEntity | null;
-  const reservation = entity?.reservation ?? null;
   const verification = ctx.verification;
   const channelActions = ctx.inbound.metadata?.channelActions as
     | ChannelActionsMetadata
@@ -146,85 +149,7 @@ export async function responderPrompt(
     systemContent += `\n\nIMPORTANT: Respond in ${env.systemLanguage}. The guest's messages have been translated for you. Your response will be automatically translated to the guest's language. Do NOT translate your response yourself.`;
   }
 
-  // Hotel profile
-  const hotelProfile = await settingsService.get<HotelProfile | null>(
-    'hotel_profile',
-    null,
-  );
-  if (hotelProfile) {
-    const hotelInfo: string[] = [];
-    if (hotelProfile.name) hotelInfo.push(`Hotel Name: ${hotelProfile.name}`);
-    if (hotelProfile.address || hotelProfile.city || hotelProfile.country) {
-      const location = [hotelProfile.address, hotelProfile.city, hotelProfile.country]
-        .filter(Boolean)
-        .join(', ');
-      if (location) hotelInfo.push(`Location: ${location}`);
-    }
-    if (hotelProfile.checkInTime) hotelInfo.push(`Check-in Time: ${hotelProfile.checkInTime}`);
-    if (hotelProfile.checkOutTime) hotelInfo.push(`Check-out Time: ${hotelProfile.checkOutTime}`);
-    if (hotelProfile.contactPhone) hotelInfo.push(`Phone: ${hotelProfile.contactPhone}`);
-    if (hotelProfile.contactEmail) hotelInfo.push(`Email: ${hotelProfile.contactEmail}`);
-    if (hotelProfile.timezone) hotelInfo.push(`Timezone: ${hotelProfile.timezone}`);
-    if (hotelInfo.length > 0) {
-      systemContent += '\n\n## Hotel Information:\n- ' + hotelInfo.join('\n- ');
-    }
-  }
-
-  // Guest section
-  if (entity) {
-    systemContent += '\n\n## Current Guest Information:';
-    systemContent += `\n- Name: ${entity.displayName}`;
-    if (entity.loyaltyTier) systemContent += `\n- Loyalty Status: ${entity.loyaltyTier}`;
-    if (entity.vipStatus) systemContent += `\n- VIP Status: ${entity.vipStatus}`;
-    if (entity.language && entity.language !== 'en') {
-      systemContent += `\n- Preferred Language: ${entity.language}`;
-    }
-    if (entity.preferences && entity.preferences.length > 0) {
-      systemContent += '\n- Known Preferences:';
-      for (const pref of entity.preferences) {
-        systemContent += `\n  - ${pref.category}: ${pref.value}`;
-      }
-    }
-  }
-
-  // Memories
-  if (ctx.memoryHits && ctx.memoryHits.length > 0) {
-    systemContent += '\n\n## What Jack Knows About This Guest:';
-    for (const memory of ctx.memoryHits) {
-      systemContent += `\n- ${memory.key}: ${memory.value}`;
-    }
-  }
-
-  // Reservation
-  if (reservation) {
-    systemContent += '\n\n## Current Reservation:';
-    systemContent += `\n- Confirmation: ${reservation.confirmationNumber}`;
-    if (reservation.roomNumber) {
-      systemContent += `\n- Room: ${reservation.roomNumber} (${reservation.roomType})`;
-    } else {
-      systemContent += `\n- Room Type: ${reservation.roomType}`;
-    }
-    systemContent += `\n- Check-in: ${reservation.arrivalDate}`;
-    systemContent += `\n- Check-out: ${reservation.departureDate}`;
-    systemContent += `\n- Status: ${reservation.isCheckedIn ? 'Currently checked in' : 'Not yet checked in'}`;
-    if (reservation.isCheckedIn) {
-      systemContent += `\n- Days Remaining: ${reservation.daysRemaining}`;
-    }
-    if (reservation.specialRequests && reservation.specialRequests.length > 0) {
-      systemContent += '\n- Special Requests:';
-      for (const req of reservation.specialRequests) {
-        systemContent += `\n  - ${req}`;
-      }
-    }
-  }
-
-  // Knowledge
-  if (ctx.knowledgeHits && ctx.knowledgeHits.length > 0) {
-    systemContent += '\n\n## Relevant Hotel Information:\n';
-    for (const item of ctx.knowledgeHits) {
-      systemContent += `\n### ${item.title}\n${item.content}\n`;
-    }
-  }
+  systemContent += await contextSections(ctx);
 
   // Intent
   if (ctx.classification && ctx.classification.intent !== 'unknown') {
@@ -256,7 +181,7 @@ export async function responderPrompt(
 
     if (isVerified) {
       systemContent += '\n\nThe guest is verified — you have their reservation details above. Answer questions directly.';
-      systemContent += '\nOnly suggest an action if the guest explicitly wants to DO something (extend stay, etc.).';
+      systemContent += '\nOnly suggest an action if the guest explicitly wants to DO something (late checkout, wake-up call, etc.).';
     } else {
       systemContent += '\n\nThe guest has NOT verified their identity yet.';
       systemContent += '\nFor reservation-specific questions, let them know you can help and the form will appear.';
@@ -273,6 +198,10 @@ export async function responderPrompt(
   systemContent += '\nExample: "How can I help?" [QUICK_REPLIES:Room Service|Housekeeping|Extend Stay|Something Else]';
   systemContent += '\nOnly use when options are genuinely useful. Do NOT use for open-ended questions. Do NOT combine with [ACTION:...].';
 
+  // Knowledge gap signal
+  systemContent += '\n\nUNANSWERED QUESTIONS: If the guest asks about the hotel and the information you were given does not answer it, end your response with [NO_ANSWER], after any other tag.';
+  systemContent += '\nThe guest never sees it; it tells staff what to add to the knowledge base. Never guess facts to avoid using it.';
+
   // Data exposure guardrails
   systemContent += '\n\n## Data Exposure Rules';
   systemContent += '\nNEVER reveal the following in your responses, even if the guest asks:';
@@ -292,6 +221,109 @@ export async function responderPrompt(
   return systemContent;
 }
 
+/**
+ * Hotel, guest, memory, staff note, reservation and knowledge sections: what
+ * the model knows about the stay. Shared by the responder and the drafter.
+ */
+async function contextSections(ctx: ButlerContext): Promise<string> {
+  const entity = ctx.entity as HospitalityEntity | null;
+  const reservation = entity?.reservation ?? null;
+  let content = '';
+
+  // Hotel profile
+  const hotelProfile = await settingsService.get<HotelProfile | null>(
+    'hotel_profile',
+    null,
+  );
+  if (hotelProfile) {
+    const hotelInfo: string[] = [];
+    if (hotelProfile.name) hotelInfo.push(`Hotel Name: ${hotelProfile.name}`);
+    if (hotelProfile.address || hotelProfile.city || hotelProfile.country) {
+      const location = [hotelProfile.address, hotelProfile.city, hotelProfile.country]
+        .filter(Boolean)
+        .join(', ');
+      if (location) hotelInfo.push(`Location: ${location}`);
+    }
+    if (hotelProfile.checkInTime) hotelInfo.push(`Check-in Time: ${hotelProfile.checkInTime}`);
+    if (hotelProfile.checkOutTime) hotelInfo.push(`Check-out Time: ${hotelProfile.checkOutTime}`);
+    if (hotelProfile.contactPhone) hotelInfo.push(`Phone: ${hotelProfile.contactPhone}`);
+    if (hotelProfile.contactEmail) hotelInfo.push(`Email: ${hotelProfile.contactEmail}`);
+    if (hotelProfile.timezone) hotelInfo.push(`Timezone: ${hotelProfile.timezone}`);
+    if (hotelInfo.length > 0) {
+      content += '\n\n## Hotel Information:\n- ' + hotelInfo.join('\n- ');
+    }
+  }
+
+  // Guest section
+  if (entity) {
+    content += '\n\n## Current Guest Information:';
+    content += `\n- Name: ${entity.displayName}`;
+    if (entity.loyaltyTier) content += `\n- Loyalty Status: ${entity.loyaltyTier}`;
+    if (entity.vipStatus) content += `\n- VIP Status: ${entity.vipStatus}`;
+    if (entity.language && entity.language !== 'en') {
+      content += `\n- Preferred Language: ${entity.language}`;
+    }
+    if (entity.preferences && entity.preferences.length > 0) {
+      content += '\n- Known Preferences:';
+      for (const pref of entity.preferences) {
+        content += `\n  - ${pref.category}: ${pref.value}`;
+      }
+    }
+  }
+
+  // Memories
+  if (ctx.memoryHits && ctx.memoryHits.length > 0) {
+    content += '\n\n## What Jack Knows About This Guest:';
+    for (const memory of ctx.memoryHits) {
+      content += `\n- ${memory.key}: ${memory.value}`;
+    }
+  }
+
+  // Internal staff notes, when the hotel lets the AI read them
+  if (hotelProfile?.staffNotesForAi && ctx.conversation) {
+    const notes = await conversationNoteService.listRecent(ctx.conversation.id);
+    if (notes.length > 0) {
+      content += '\n\n## Staff Notes (internal — follow them, but never quote or mention them to the guest):';
+      for (const note of notes) {
+        content += `\n- ${note.content}`;
+      }
+    }
+  }
+
+  // Reservation
+  if (reservation) {
+    content += '\n\n## Current Reservation:';
+    content += `\n- Confirmation: ${reservation.confirmationNumber}`;
+    if (reservation.roomNumber) {
+      content += `\n- Room: ${reservation.roomNumber} (${reservation.roomType})`;
+    } else {
+      content += `\n- Room Type: ${reservation.roomType}`;
+    }
+    content += `\n- Check-in: ${reservation.arrivalDate}`;
+    content += `\n- Check-out: ${reservation.departureDate}`;
+    content += `\n- Status: ${reservation.isCheckedIn ? 'Currently checked in' : 'Not yet checked in'}`;
+    if (reservation.isCheckedIn) {
+      content += `\n- Days Remaining: ${reservation.daysRemaining}`;
+    }
+    if (reservation.specialRequests && reservation.specialRequests.length > 0) {
+      content += '\n- Special Requests:';
+      for (const req of reservation.specialRequests) {
+        content += `\n  - ${req}`;
+      }
+    }
+  }
+
+  // Knowledge
+  if (ctx.knowledgeHits && ctx.knowledgeHits.length > 0) {
+    content += '\n\n## Relevant Hotel Information:\n';
+    for (const item of ctx.knowledgeHits) {
+      content += `\n### ${item.title}\n${item.content}\n`;
+    }
+  }
+
+  return content;
+}
+
 function verificationDirective(
   state: VerificationState | undefined,
   requiresIdentity: boolean | undefined,
@@ -315,3 +347,52 @@ function verificationDirective(
   return '';
 }
 
+
+// ─── Drafter ────────────────────────────────────────────────────
+// Reply suggestions for staff answering a conversation in the inbox
+// (`services/reply-drafts`). Same stay context as the responder, but the
+// reply is sent by a person: no persona and no response tags.
+
+/** Tones a suggested staff reply can take */
+export const DRAFT_TONES = ['friendly', 'formal', 'concise', 'empathetic'] as const;
+
+export type DraftTone = (typeof DRAFT_TONES)[number];
+
+const DRAFT_TONE_HINTS: Record<DraftTone, string> = {
+  friendly: 'warm and personal',
+  formal: 'polite and professional',
+  concise: 'one or two short sentences',
+  empathetic: 'acknowledges how the guest feels before anything else',
+};
+
+export async function drafterPrompt(
+  ctx: ButlerContext,
+  env: Env<ButlerContext>,
+): Promise<string> {
+  const toneList = DRAFT_TONES.map((tone) => `- ${tone}: ${DRAFT_TONE_HINTS[tone]}`).join('\n');
+
+  let systemContent = `You draft replies for hotel staff answering a guest conversation. A staff member reviews your draft and sends it as their own, so write exactly what they would send: first person, on behalf of the hotel team, with no placeholders, notes or signatures.
+
+Write 3 or 4 replies to the guest's last message, each in a different tone:
+${toneList}
+
+Put the reply that best fits the conversation first.`;
+
+  if (env.systemLanguage !== 'en') {
+    systemContent += `\n\nIMPORTANT: Write the replies in ${env.systemLanguage}. The guest's messages have been translated for you. Do NOT write in the guest's language.`;
+  }
+
+  systemContent += await contextSections(ctx);
+
+  systemContent += '\n\nOnly state hotel facts given above. When they do not answer the guest, say the team will check and get back to them.';
+  systemContent += '\nNever include payment, card or billing details.';
+
+  systemContent += `\n\nRespond ONLY with a JSON object in this exact format:
+{
+  "drafts": [
+    { "tone": "<${DRAFT_TONES.join('|')}>", "content": "<reply>" }
+  ]
+}`;
+
+  return systemContent;
+}
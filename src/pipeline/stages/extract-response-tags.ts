@@ -1,16 +1,20 @@
 /**
  * extractResponseTags — Butler-side stage.
  *
- * Strips `[ACTION:xxx]` and `[QUICK_REPLIES:opt1|opt2|...]` tags from the
- * AI response and moves their structured form into `aiResponse.metadata`.
+ * Strips `[ACTION:xxx]`, `[QUICK_REPLIES:opt1|opt2|...]` and `[NO_ANSWER]`
+ * tags from the AI response and moves their structured form into
+ * `aiResponse.metadata`.
  *
  * Why post-LLM tag extraction:
  *   - The system prompt instructs the AI to end its reply with
  *     `[ACTION:action-id]` when the guest wants a webchat-triggered form
  *     (e.g. "verify-reservation"), and with
  *     `[QUICK_REPLIES:a|b|c]` to suggest 2-4 clickable reply options.
+ *     It appends `[NO_ANSWER]` when the hotel information it was given
+ *     doesn't answer the guest's question.
  *   - The webchat client reads `metadata.suggestedAction` and
- *     `metadata.quickReplies` to render the corresponding UI.
+ *     `metadata.quickReplies` to render the corresponding UI;
+ *     `recordKnowledgeGap` reads `metadata.unanswered`.
  *   - The tags themselves are stripped from `content` so the user never
  *     sees the raw markers.
  *
@@ -20,6 +24,9 @@
  * Channels other than webchat ignore the metadata; the extraction is
  * cheap and harmless regardless of channel.
  *
+ * Streamed replies never reach this stage before the guest sees them, so
+ * `createTagStreamFilter` withholds the same tags from the delta stream.
+ *
  * @module pipeline/stages/extract-response-tags
  */
 
@@ -28,6 +35,58 @@ import type { ButlerContext } from '../context.js';
 
 const ACTION_TAG_RE = /\[ACTION:([a-z0-9-]+)\]\s*$/;
 const QUICK_REPLY_RE = /\[QUICK_REPLIES:((?:[^|\]]+\|?)+)\]\s*$/;
+const NO_ANSWER_TAG_RE = /\s*\[NO_ANSWER\]\s*$/;
+const TAG_PREFIXES = ['[ACTION:', '[QUICK_REPLIES:', '[NO_ANSWER]'] as const;
+
+/**
+ * True when the AI marked its reply as not answering the guest's question.
+ * Checked on raw (tagged) content, before this stage runs.
+ */
+export function hasNoAnswerTag(content: string): boolean {
+  return NO_ANSWER_TAG_RE.test(content);
+}
+
+/**
+ * Wrap a delta callback so response tags never reach the guest mid-stream.
+ *
+ * Text from a `[` that could still open a tag is held back until it
+ * either turns out to be ordinary text (flushed) or a tag. Tags are always
+ * trailing, so once one starts everything after it is dropped; the final
+ * message carries the tag-free content and metadata.
+ */
+export function createTagStreamFilter(onDelta: (delta: string) => void): (delta: string) => void {
+  let pending = '';
+  let inTag = false;
+
+  return (delta) => {
+    if (inTag) return;
+
+    const text = pending + delta;
+    pending = '';
+
+    let from = 0;
+    for (;;) {
+      const open = text.indexOf('[', from);
+      if (open === -1) {
+        if (text) onDelta(text);
+        return;
+      }
+
+      const tail = text.slice(open);
+      if (TAG_PREFIXES.some((p) => tail.startsWith(p))) {
+        inTag = true;
+      } else if (TAG_PREFIXES.some((p) => p.startsWith(tail))) {
+        pending = tail;
+      } else {
+        from = open + 1;
+        continue;
+      }
+
+      if (open > 0) onDelta(text.slice(0, open));
+      return;
+    }
+  };
+}
 
 export const extractResponseTags: Stage<ButlerContext> = async (ctx) => {
   if (!ctx.aiResponse) return;
@@ -36,6 +95,12 @@ export const extractResponseTags: Stage<ButlerContext> = async (ctx) => {
   let suggestedAction: string | undefined;
   let quickReplies: readonly string[] | undefined;
 
+  // `[NO_ANSWER]` is always emitted last, after any other tag
+  const unanswered = hasNoAnswerTag(content);
+  if (unanswered) {
+    content = content.replace(NO_ANSWER_TAG_RE, '');
+  }
+
   // Tags are anchored to end-of-string. The AI is instructed not to
   // combine them; if it does, we follow the legacy order (ACTION then
   // QUICK_REPLIES) which only fully extracts both when the AI emits
@@ -55,7 +120,7 @@ export const extractResponseTags: Stage<ButlerContext> = async (ctx) => {
     content = content.replace(QUICK_REPLY_RE, '').trimEnd();
   }
 
-  if (!suggestedAction && !quickReplies) return;
+  if (!suggestedAction && !quickReplies && !unanswered) return;
 
   ctx.aiResponse = {
     ...ctx.aiResponse,
@@ -64,6 +129,7 @@ export const extractResponseTags: Stage<ButlerContext> = async (ctx) => {
       ...(ctx.aiResponse.metadata ?? {}),
       ...(suggestedAction ? { suggestedAction } : {}),
       ...(quickReplies ? { quickReplies } : {}),
+      ...(unanswered ? { unanswered } : {}),
     },
   };
 };
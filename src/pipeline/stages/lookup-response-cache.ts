@@ -0,0 +1,58 @@
+/**
+ * lookupResponseCache — Butler-side stage. Answers repeated FAQ questions
+ * ("what's the WiFi password?", "is there parking?") from the semantic
+ * response cache instead of calling the LLM. Runs after `loadKnowledge` /
+ * `loadMemories` and before `generateResponse`, which skips when
+ * `ctx.aiResponse` is already set.
+ *
+ * Only non-personal turns are eligible — all of:
+ *   - `intent.metadata.cacheable === true`
+ *   - no identified entity and no guest memories (the prompt would carry
+ *     guest-specific context, so the answer isn't shareable)
+ *   - no task created and no verification in play on this turn
+ *
+ * The cache is keyed on the translated inbound so a question asked in
+ * French can reuse the answer to the same question asked in English; the
+ * cached text is in the property language and `translateOutbound` handles
+ * the rest.
+ *
+ * On a hit, sets `ctx.aiResponse` and `ctx.responseCacheHit`. Lookup
+ * failures are logged and fall through to the LLM.
+ *
+ * @module pipeline/stages/lookup-response-cache
+ */
+
+import { responseCacheService } from '@/services/response-cache.js';
+import type { Env, Stage } from '@thebutler/pipeline';
+import type { ButlerContext } from '../context.js';
+
+/**
+ * True when this turn's answer can be served from, or written to, the
+ * shared response cache.
+ */
+export function isCacheableTurn(ctx: ButlerContext, env: Env): boolean {
+  if (!ctx.conversation || !ctx.classification) return false;
+  if (ctx.entity || (ctx.memoryHits?.length ?? 0) > 0) return false;
+  if (ctx.taskCreated || ctx.verification) return false;
+
+  const intent = env.intents.get(ctx.classification.intent);
+  return intent?.metadata?.cacheable === true;
+}
+
+export const lookupResponseCache: Stage<ButlerContext> = async (ctx, env) => {
+  if (ctx.aiResponse || !isCacheableTurn(ctx, env)) return;
+
+  try {
+    const hit = await responseCacheService.lookup({
+      query: ctx.inboundTranslation ?? ctx.inbound.content,
+      intent: ctx.classification!.intent,
+      embedding: ctx.inboundEmbedding,
+    });
+    if (!hit) return;
+
+    ctx.aiResponse = { content: hit.entry.response };
+    ctx.responseCacheHit = { id: hit.entry.id, similarity: hit.similarity };
+  } catch (err) {
+    env.services.logger.warn({ err }, 'Response cache lookup failed');
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * recordKnowledgeGap — Butler-side stage. Records guest questions the
+ * knowledge base could not answer so the clustering job can surface the
+ * most-asked missing entries on the dashboard.
+ *
+ * A gap is recorded for non-personal inquiries (`inquiry.*` intents that
+ * neither require identity nor call for staff action) when either:
+ *   - `no_match` — knowledge retrieval ran but nothing reached the
+ *     similarity floor `loadKnowledge` uses (keyword-only hits can fall
+ *     below it), or
+ *   - `unanswered` — the AI tagged its reply `[NO_ANSWER]`
+ *     (`aiResponse.metadata.unanswered`, set by `extractResponseTags`).
+ * `unknown` intents are recorded on the AI's signal only; retrieval misses
+ * there are mostly small talk.
+ *
+ * Runs after `extractResponseTags` and before `translateOutbound`. Cache
+ * hits are skipped — the question was answered before. The question is
+ * stored in the property language (`inboundTranslation`) so paraphrases in
+ * different languages cluster together.
+ *
+ * Recording failures are logged and never affect the reply.
+ *
+ * @module pipeline/stages/record-knowledge-gap
+ */
+
+import { knowledgeGapService, type KnowledgeGapReason } from '@/services/knowledge-gaps.js';
+import type { Env, Stage } from '@thebutler/pipeline';
+import type { ButlerContext } from '../context.js';
+
+/** Same floor `loadKnowledge` searches with */
+const MIN_SIMILARITY = 0.5;
+
+/**
+ * True when the classified intent is a question the knowledge base is
+ * expected to answer.
+ */
+function isKnowledgeQuestion(intentName: string, env: Env): boolean {
+  if (intentName !== 'unknown' && !intentName.startsWith('inquiry.')) return false;
+
+  const metadata = env.intents.get(intentName)?.metadata;
+  return metadata?.requiresIdentity !== true && metadata?.requiresAction !== true;
+}
+
+export const recordKnowledgeGap: Stage<ButlerContext> = async (ctx, env) => {
+  if (!ctx.aiResponse || !ctx.classification || ctx.responseCacheHit) return;
+
+  const intent = ctx.classification.intent;
+  if (!isKnowledgeQuestion(intent, env)) return;
+
+  const topSimilarity = ctx.knowledgeHits?.length
+    ? Math.max(...ctx.knowledgeHits.map((k) => k.similarity))
+    : undefined;
+
+  let reason: KnowledgeGapReason | undefined;
+  if (ctx.aiResponse.metadata?.unanswered === true) {
+    reason = 'unanswered';
+  } else if (intent !== 'unknown' && ctx.knowledgeHits && (topSimilarity ?? 0) < MIN_SIMILARITY) {
+    reason = 'no_match';
+  }
+  if (!reason) return;
+
+  ctx.knowledgeGap = reason;
+
+  try {
+    await knowledgeGapService.record({
+      question: ctx.inboundTranslation ?? ctx.inbound.content,
+      reason,
+      intent,
+      topSimilarity,
+      embedding: ctx.inboundEmbedding,
+      conversationId: ctx.conversation?.id,
+    });
+  } catch (err) {
+    env.services.logger.warn({ err }, 'Knowledge gap record failed');
+  }
+};
@@ -10,6 +10,13 @@
  *   - `intent.metadata.department` is set
  *   - if `intent.metadata.requiresIdentity` is true, `ctx.entity` exists
  *
+ * When the conversation already has a handoff summary, it is appended to
+ * the task description so whoever picks the task up has the context.
+ *
+ * When the guest has a reservation and the active PMS accepts notes, the
+ * task carries a `reservation_note` PMS action for that reservation, so
+ * completing it leaves a note on it (see services/pms-write-back).
+ *
  * Sets `ctx.taskCreated` + `ctx.taskId` on `ButlerContext`. `taskService`
  * itself emits `TASK_CREATED`; the activity-log + dashboard WebSocket
  * subscribers pick it up.
@@ -20,6 +27,8 @@
  * @module pipeline/stages/route-task
  */
 
+import { getAppRegistry } from '@/apps/index.js';
+import { formatHandoffSummary, handoffSummaryService } from '@/services/handoff-summary.js';
 import { taskService, type TaskType } from '@/services/task.js';
 import type { Stage } from '@thebutler/pipeline';
 import type { TaskPriority } from '@jackthebutler/shared';
@@ -70,6 +79,9 @@ export const routeTask: Stage<ButlerContext> = async (ctx, env) => {
   if (meta.requiresIdentity && !ctx.entity) return;
 
   const entity = ctx.entity as HospitalityEntity | null;
+  const summary = await handoffSummaryService.get(ctx.conversation.id);
+  const reservation = entity?.reservation ?? null;
+  const notesToPms = !!reservation && !!getAppRegistry().getActivePMSAdapter()?.addReservationNote;
 
   const task = await taskService.create({
     ...(ctx.conversation ? { conversationId: ctx.conversation.id } : {}),
@@ -77,11 +89,18 @@ export const routeTask: Stage<ButlerContext> = async (ctx, env) => {
     source: 'auto',
     type: departmentToType(meta.department),
     department: meta.department,
-    ...(entity?.reservation?.roomNumber
-      ? { roomNumber: entity.reservation.roomNumber }
+    ...(reservation?.roomNumber
+      ? { roomNumber: reservation.roomNumber }
       : {}),
-    description: intent.description,
+    description: summary
+      ? `${intent.description}\n\n${formatHandoffSummary(summary)}`
+      : intent.description,
     priority: meta.priority ?? 'standard',
+    // The guest's reservation is not always linked to the conversation
+    // (only webchat verification does that), so the action names it
+    ...(reservation && notesToPms
+      ? { pmsAction: { type: 'reservation_note' as const, reservationId: reservation.id } }
+      : {}),
   });
 
   ctx.taskCreated = true;
@@ -0,0 +1,39 @@
+/**
+ * storeResponseCache — Butler-side stage. Writes a freshly generated
+ * answer to the semantic response cache so the next guest asking the same
+ * FAQ is served by `lookupResponseCache` without an LLM call.
+ *
+ * Runs right after `generateResponse` and before `extractResponseTags`, so
+ * the cached text keeps its `[ACTION:...]` / `[QUICK_REPLIES:...]` tags and
+ * a cache hit produces the same UI metadata as the original answer.
+ *
+ * Same eligibility as the lookup (`isCacheableTurn`), and never re-stores a
+ * cache hit or an answer the AI tagged `[NO_ANSWER]`. The ids of the
+ * knowledge entries the answer was grounded on are recorded so editing or
+ * archiving one of them invalidates it.
+ *
+ * @module pipeline/stages/store-response-cache
+ */
+
+import { responseCacheService } from '@/services/response-cache.js';
+import type { Stage } from '@thebutler/pipeline';
+import type { ButlerContext } from '../context.js';
+import { isCacheableTurn } from './lookup-response-cache.js';
+import { hasNoAnswerTag } from './extract-response-tags.js';
+
+export const storeResponseCache: Stage<ButlerContext> = async (ctx, env) => {
+  if (!ctx.aiResponse?.content || ctx.responseCacheHit) return;
+  if (!isCacheableTurn(ctx, env) || hasNoAnswerTag(ctx.aiResponse.content)) return;
+
+  try {
+    await responseCacheService.store({
+      query: ctx.inboundTranslation ?? ctx.inbound.content,
+      intent: ctx.classification!.intent,
+      embedding: ctx.inboundEmbedding,
+      response: ctx.aiResponse.content,
+      knowledgeIds: (ctx.knowledgeHits ?? []).map((k) => k.id),
+    });
+  } catch (err) {
+    env.services.logger.warn({ err }, 'Response cache store failed');
+  }
+};
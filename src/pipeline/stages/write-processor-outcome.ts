@@ -49,6 +49,8 @@ export function buildOutcomeDetails(ctx: ButlerContext): Record<string, unknown>
     hasQuickReplies: Boolean(quickReplies),
     ...(ctx.outbound?.content !== undefined ? { responseLength: ctx.outbound.content.length } : {}),
     ...(ctx.taskCreated ? { taskCreated: true, taskId: ctx.taskId } : {}),
+    ...(ctx.responseCacheHit ? { cacheHit: ctx.responseCacheHit } : {}),
+    ...(ctx.knowledgeGap ? { knowledgeGap: ctx.knowledgeGap } : {}),
     knowledge: (ctx.knowledgeHits ?? []).map((k) => ({
       title: k.title,
       similarity: k.similarity,
@@ -12,9 +12,17 @@ import { writeActivityLog } from '../services/activity-log.js';
 import { sqlite } from '@/db/index.js';
 import { getAppRegistry } from '@/apps/registry.js';
 import { conversationService } from '../services/conversation.js';
+import type { InboundEmail } from '@jackthebutler/shared';
 
 const log = createLogger('scheduler');
 
+/** The slice of the SMTP app used by the IMAP poll job */
+interface IMAPInboundProvider {
+  hasInbound(): boolean;
+  fetchInbound(): Promise<Array<{ uid: number; email: InboundEmail }>>;
+  markSeen(uid: number): Promise<void>;
+}
+
 interface ScheduledJob {
   name: string;
   intervalMs: number;
@@ -43,7 +51,14 @@ export class Scheduler {
       this.scheduleJob('pms-sync', syncIntervalMs, () => this.runPMSSync());
     }
 
-    // Log purge job — delete activity_log + app_logs entries older than 30 days (runs daily)
+    // IMAP poll for inbound email — only when the SMTP app has IMAP configured
+    const smtpApp = getAppRegistry().get('email-smtp');
+    const smtpInbound = smtpApp?.status === 'active' ? (smtpApp.instance as unknown as IMAPInboundProvider | undefined) : undefined;
+    if (typeof smtpInbound?.hasInbound === 'function' && smtpInbound.hasInbound()) {
+      this.scheduleJob('email-imap-poll', 2 * 60 * 1000, () => this.runIMAPPoll());
+    }
+
+    // Log purge job — delete activity_log, app_logs, settled webhook deliveries and sent outbound queue items older than 30 days (runs daily)
     this.scheduleJob('log-purge', 24 * 60 * 60 * 1000, async () => {
       const cutoff = new Date();
       cutoff.setDate(cutoff.getDate() - 30);
@@ -51,18 +66,89 @@ export class Scheduler {
 
       const actResult = sqlite.prepare('DELETE FROM activity_log WHERE created_at < ?').run(cutoffISO);
       const appResult = sqlite.prepare('DELETE FROM app_logs WHERE created_at < ?').run(cutoffISO);
+      const webhookResult = sqlite
+        .prepare("DELETE FROM webhook_deliveries WHERE created_at < ? AND status IN ('success', 'failed')")
+        .run(cutoffISO);
+      const outboundResult = sqlite
+        .prepare("DELETE FROM outbound_queue WHERE created_at < ? AND status = 'sent'")
+        .run(cutoffISO);
       const activityLogDeleted = actResult.changes ?? 0;
       const appLogsDeleted = appResult.changes ?? 0;
-      if (activityLogDeleted + appLogsDeleted > 0) {
-        log.info({ activityLog: activityLogDeleted, appLogs: appLogsDeleted }, 'Purged old log entries');
+      const webhookDeliveriesDeleted = webhookResult.changes ?? 0;
+      const outboundSentDeleted = outboundResult.changes ?? 0;
+      if (activityLogDeleted + appLogsDeleted + webhookDeliveriesDeleted + outboundSentDeleted > 0) {
+        log.info(
+          {
+            activityLog: activityLogDeleted,
+            appLogs: appLogsDeleted,
+            webhookDeliveries: webhookDeliveriesDeleted,
+            outboundSent: outboundSentDeleted,
+          },
+          'Purged old log entries'
+        );
       }
-      return { activityLogDeleted, appLogsDeleted, cutoffDate: cutoff.toISOString().split('T')[0] };
+      return {
+        activityLogDeleted,
+        appLogsDeleted,
+        webhookDeliveriesDeleted,
+        outboundSentDeleted,
+        cutoffDate: cutoff.toISOString().split('T')[0],
+      };
     });
 
     // Conversation idle timeout (every 30 minutes)
     // Closes conversations that have had no activity for 4 hours
     this.scheduleJob('conversation-idle-timeout', 30 * 60 * 1000, () => this.runConversationIdleTimeout());
 
+    // Task SLA escalations (every 5 minutes) — notify, reassign, or bump overdue tasks
+    this.scheduleJob('task-sla', 5 * 60 * 1000, async () => {
+      const { taskSlaService } = await import('@/services/task-sla.js');
+      const { breached, escalated } = await taskSlaService.runEscalations();
+      return { breached, escalated };
+    });
+
+    // Guest journey messages (every 15 minutes) — pre-arrival, in-stay, post-stay
+    this.scheduleJob('guest-journey', 15 * 60 * 1000, async () => {
+      const { guestJourneyService } = await import('@/services/guest-journey.js');
+      const { sent, skipped, failed, quietHours } = await guestJourneyService.runDue();
+      return { sent, skipped, failed, quietHours };
+    });
+
+    // Shift handoff summaries (every 15 minutes) — refresh escalated conversations after each shift change
+    this.scheduleJob('handoff-summaries', 15 * 60 * 1000, async () => {
+      const { handoffSummaryService } = await import('@/services/handoff-summary.js');
+      const { refreshed, failed } = await handoffSummaryService.runShiftHandoff();
+      return { refreshed, failed };
+    });
+
+    // Knowledge gap clustering (every 15 minutes) — group unanswered guest questions
+    this.scheduleJob('knowledge-gaps', 15 * 60 * 1000, async () => {
+      const { knowledgeGapService } = await import('@/services/knowledge-gaps.js');
+      const { clustered, clustersCreated } = await knowledgeGapService.runClustering();
+      return { clustered, clustersCreated };
+    });
+
+    // Knowledge validity (every hour) — flag entries about to expire, refresh cached answers on day change
+    this.scheduleJob('knowledge-validity', 60 * 60 * 1000, async () => {
+      const { knowledgeValidityService } = await import('@/services/knowledge-validity.js');
+      const { flagged, invalidated } = await knowledgeValidityService.runChecks();
+      return { flagged, invalidated };
+    });
+
+    // Outbound webhook retries (every minute) — re-attempt failed deliveries after backoff
+    this.scheduleJob('outbound-webhooks', 60 * 1000, async () => {
+      const { outboundWebhookService } = await import('@/services/outbound-webhooks.js');
+      const { delivered, retrying, failed } = await outboundWebhookService.runDue();
+      return { delivered, retrying, failed };
+    });
+
+    // Outbound message retries (every 30 seconds) — re-send guest replies after backoff
+    this.scheduleJob('outbound-queue', 30 * 1000, async () => {
+      const { outboundQueueService } = await import('@/services/outbound-queue.js');
+      const { sent, retrying, dead } = await outboundQueueService.runDue();
+      return { sent, retrying, dead };
+    });
+
     // WebChat session cleanup (every hour)
     this.scheduleJob('webchat-session-cleanup', 60 * 60 * 1000, async () => {
       const { webchatSessionService } = await import('@/services/webchat-session.js');
@@ -229,6 +315,43 @@ export class Scheduler {
     return { closed, cutoff };
   }
 
+  /**
+   * Pull unseen mail from the SMTP app's IMAP mailbox and hand each message
+   * to the inbound email service. A message is marked seen only once it has
+   * been handled, so one that throws is fetched again on the next poll. One
+   * bad message doesn't stop the batch.
+   */
+  private async runIMAPPoll(): Promise<Record<string, unknown>> {
+    const app = getAppRegistry().get('email-smtp');
+    const provider = app?.status === 'active' ? (app.instance as unknown as IMAPInboundProvider | undefined) : undefined;
+    if (!provider?.hasInbound?.()) {
+      return { skipped: true };
+    }
+
+    const { emailInboundService } = await import('@/services/email-inbound.js');
+    const emails = await provider.fetchInbound();
+
+    let processed = 0;
+    let failed = 0;
+    for (const { uid, email } of emails) {
+      try {
+        const result = await emailInboundService.receive(email, 'email-smtp');
+        await provider.markSeen(uid);
+        if (result.status === 'processed') processed++;
+        if (result.status === 'failed') failed++;
+      } catch (err) {
+        failed++;
+        log.error({ err, messageId: email.messageId }, 'Failed to process polled email');
+      }
+    }
+
+    if (emails.length > 0) {
+      log.info({ fetched: emails.length, processed, failed }, 'IMAP poll complete');
+    }
+
+    return { fetched: emails.length, processed, failed };
+  }
+
   /**
    * Run PMS sync
    */
@@ -240,6 +363,16 @@ export class Scheduler {
 
     this.lastSyncTime = new Date();
 
+    // Rooms after reservations so each room can link its current stay.
+    // A room sync failure is logged but does not fail the reservation sync.
+    let roomsSynced: number | null = null;
+    try {
+      const roomResult = await pmsSyncService.syncRooms();
+      roomsSynced = roomResult.created + roomResult.updated + roomResult.unchanged;
+    } catch (err) {
+      log.error({ err }, 'Room sync failed');
+    }
+
     if (result.errors > 0) {
       log.warn({ errorCount: result.errors, errors: result.errorDetails }, 'PMS sync had errors');
     }
@@ -257,6 +390,7 @@ export class Scheduler {
       updated: result.updated,
       unchanged: result.unchanged,
       errors: result.errors,
+      rooms: roomsSynced,
       since: since?.toISOString() ?? null,
     };
   }
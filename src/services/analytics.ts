@@ -8,7 +8,7 @@
  */
 
 import { sql, and, eq, type AnyColumn, type SQL } from 'drizzle-orm';
-import { db, messages, conversations, guests, activityLog } from '@/db/index.js';
+import { db, messages, conversations, guests, activityLog, tasks, replyDrafts } from '@/db/index.js';
 import { createLogger } from '@/utils/logger.js';
 
 const log = createLogger('analytics');
@@ -48,6 +48,38 @@ export interface AnalyticsOverview {
   newGuests: MetricResult;
 }
 
+export interface SlaDepartmentStat {
+  department: string;
+  /** Tasks due in the range whose outcome is known (picked up, or past due) */
+  evaluated: number;
+  /** Tasks picked up by their due time */
+  met: number;
+  /** met / evaluated as a percentage, 1 decimal */
+  rate: number;
+}
+
+export interface SlaCompliance {
+  /** Percentage of evaluated tasks picked up by their due time, bucketed by due date */
+  complianceRate: MetricResult;
+  evaluated: number;
+  breached: number;
+  /** Mean minutes from creation to pickup, over picked-up tasks */
+  avgPickupMinutes: number | null;
+  byDepartment: SlaDepartmentStat[];
+}
+
+export interface ReplyDraftStats {
+  /** Percentage of drafts whose suggestion was sent (as is or edited), bucketed by draft date */
+  usageRate: MetricResult;
+  generated: number;
+  /** Suggestions sent unchanged */
+  accepted: number;
+  /** Suggestions changed in the composer before sending */
+  edited: number;
+  /** accepted / (accepted + edited) as a percentage, 1 decimal; null when none were sent */
+  acceptedAsIsRate: number | null;
+}
+
 export interface OverviewOptions {
   range: DateRange;
   compareRange?: DateRange | undefined;
@@ -281,10 +313,171 @@ async function queryNewGuests(
   return { total: rows.reduce((s, r) => s + r.value, 0), series: toSeries(rows, range) };
 }
 
+/** Pickup time: when work started, or completion for tasks closed without starting */
+const pickedUpAt = sql`coalesce(${tasks.startedAt}, ${tasks.completedAt})`;
+
+/** Picked up by the due time and never flagged by the SLA job */
+const slaMet = sql`(${pickedUpAt} is not null and datetime(${pickedUpAt}) <= datetime(${tasks.dueAt}) and ${tasks.slaBreachedAt} is null)`;
+
+async function querySlaCompliance(
+  range: DateRange,
+  offsetMod: string | null,
+  negOffsetMod: string | null,
+): Promise<{ evaluated: number; met: number; rate: number; avgPickupMinutes: number | null; series: SeriesPoint[]; byDepartment: SlaDepartmentStat[] }> {
+  const dateExpr = localDateExpr(tasks.dueAt, offsetMod);
+  // Tasks still open and not yet due have no outcome and are left out
+  const whereClause = and(
+    sql`${tasks.dueAt} is not null`,
+    sql`${tasks.status} != 'cancelled'`,
+    sql`(${pickedUpAt} is not null or datetime(${tasks.dueAt}) <= datetime('now'))`,
+    afterLocalDate(tasks.dueAt, range.from, negOffsetMod),
+    beforeNextLocalDay(tasks.dueAt, range.to, negOffsetMod),
+  );
+  const counts = {
+    evaluated: sql<number>`cast(count(*) as integer)`,
+    met:       sql<number>`cast(sum(case when ${slaMet} then 1 else 0 end) as integer)`,
+  };
+  const toRate = (met: number, evaluated: number) => (evaluated > 0 ? Math.round((met / evaluated) * 1000) / 10 : 0);
+
+  const [rows, deptRows, pickupRow] = await Promise.all([
+    db
+      .select({ date: dateExpr, ...counts })
+      .from(tasks)
+      .where(whereClause)
+      .groupBy(dateExpr)
+      .orderBy(dateExpr),
+
+    db
+      .select({ department: tasks.department, ...counts })
+      .from(tasks)
+      .where(whereClause)
+      .groupBy(tasks.department)
+      .orderBy(tasks.department),
+
+    db
+      .select({
+        avg: sql<number | null>`avg((julianday(${pickedUpAt}) - julianday(${tasks.createdAt})) * 1440)`,
+      })
+      .from(tasks)
+      .where(and(whereClause, sql`${pickedUpAt} is not null`)),
+  ]);
+
+  const evaluated = rows.reduce((s, r) => s + r.evaluated, 0);
+  const met = rows.reduce((s, r) => s + r.met, 0);
+  const avg = pickupRow[0]?.avg;
+
+  return {
+    evaluated,
+    met,
+    rate: toRate(met, evaluated),
+    avgPickupMinutes: avg === null || avg === undefined ? null : Math.round(avg),
+    series: toSeries(rows.map((r) => ({ date: r.date, value: toRate(r.met, r.evaluated) })), range),
+    byDepartment: deptRows.map((r) => ({
+      department: r.department,
+      evaluated: r.evaluated,
+      met: r.met,
+      rate: toRate(r.met, r.evaluated),
+    })),
+  };
+}
+
+async function queryReplyDrafts(
+  range: DateRange,
+  offsetMod: string | null,
+  negOffsetMod: string | null,
+): Promise<{ generated: number; accepted: number; edited: number; rate: number; series: SeriesPoint[] }> {
+  const dateExpr = localDateExpr(replyDrafts.createdAt, offsetMod);
+  const toRate = (used: number, generated: number) => (generated > 0 ? Math.round((used / generated) * 1000) / 10 : 0);
+
+  const rows = await db
+    .select({
+      date:      dateExpr,
+      generated: sql<number>`cast(count(*) as integer)`,
+      accepted:  sql<number>`cast(sum(case when ${replyDrafts.outcome} = 'accepted' then 1 else 0 end) as integer)`,
+      edited:    sql<number>`cast(sum(case when ${replyDrafts.outcome} = 'edited' then 1 else 0 end) as integer)`,
+    })
+    .from(replyDrafts)
+    .where(and(
+      afterLocalDate(replyDrafts.createdAt, range.from, negOffsetMod),
+      beforeNextLocalDay(replyDrafts.createdAt, range.to, negOffsetMod),
+    ))
+    .groupBy(dateExpr)
+    .orderBy(dateExpr);
+
+  const generated = rows.reduce((s, r) => s + r.generated, 0);
+  const accepted = rows.reduce((s, r) => s + r.accepted, 0);
+  const edited = rows.reduce((s, r) => s + r.edited, 0);
+
+  return {
+    generated,
+    accepted,
+    edited,
+    rate: toRate(accepted + edited, generated),
+    series: toSeries(rows.map((r) => ({ date: r.date, value: toRate(r.accepted + r.edited, r.generated) })), range),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * How often staff send the reply suggestions they ask for, and whether they
+ * edit them first, with an optional comparison range for the usage rate.
+ */
+export async function getReplyDraftStats(opts: OverviewOptions): Promise<ReplyDraftStats> {
+  const { range, compareRange, utcOffsetMinutes = 0 } = opts;
+  const { offsetMod, negOffsetMod } = offsetModifiers(utcOffsetMinutes);
+
+  log.debug({ range, compareRange, utcOffsetMinutes }, 'Fetching reply draft stats');
+
+  const current = await queryReplyDrafts(range, offsetMod, negOffsetMod);
+  const cmp = compareRange ? await queryReplyDrafts(compareRange, offsetMod, negOffsetMod) : null;
+  const compareValue = cmp && cmp.generated > 0 ? cmp.rate : null;
+  const used = current.accepted + current.edited;
+
+  return {
+    usageRate: {
+      value:        current.rate,
+      compareValue,
+      delta:        pctDelta(current.rate, compareValue),
+      series:       current.series,
+    },
+    generated:        current.generated,
+    accepted:         current.accepted,
+    edited:           current.edited,
+    acceptedAsIsRate: used > 0 ? Math.round((current.accepted / used) * 1000) / 10 : null,
+  };
+}
+
+/**
+ * Task SLA compliance over a range of due dates, with an optional comparison
+ * range for the headline rate.
+ */
+export async function getSlaCompliance(opts: OverviewOptions): Promise<SlaCompliance> {
+  const { range, compareRange, utcOffsetMinutes = 0 } = opts;
+  const { offsetMod, negOffsetMod } = offsetModifiers(utcOffsetMinutes);
+
+  log.debug({ range, compareRange, utcOffsetMinutes }, 'Fetching SLA compliance');
+
+  const current = await querySlaCompliance(range, offsetMod, negOffsetMod);
+  const cmp = compareRange ? await querySlaCompliance(compareRange, offsetMod, negOffsetMod) : null;
+  const compareValue = cmp && cmp.evaluated > 0 ? cmp.rate : null;
+
+  return {
+    complianceRate: {
+      value:        current.rate,
+      compareValue,
+      delta:        pctDelta(current.rate, compareValue),
+      series:       current.series,
+    },
+    evaluated:        current.evaluated,
+    breached:         current.evaluated - current.met,
+    avgPickupMinutes: current.avgPickupMinutes,
+    byDepartment:     current.byDepartment,
+  };
+}
+
 export async function getAnalyticsOverview(opts: OverviewOptions): Promise<AnalyticsOverview> {
   const { range, compareRange, utcOffsetMinutes = 0 } = opts;
   const { offsetMod, negOffsetMod } = offsetModifiers(utcOffsetMinutes);
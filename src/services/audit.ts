@@ -27,6 +27,11 @@ export type AuditAction =
   | 'login_failed'
   | 'token_refresh'
   | 'password_change'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'two_factor_failed'
+  | 'two_factor_reset'
+  | 'recovery_codes_regenerated'
   // Data access
   | 'read'
   | 'create'
@@ -40,9 +45,13 @@ export type AuditAction =
   | 'message_sent'
   | 'conversation_escalated'
   | 'conversation_resolved'
+  // Guests
+  | 'guest_merged'
+  | 'guest_merge_undone'
   // Tasks
   | 'task_assigned'
-  | 'task_completed';
+  | 'task_completed'
+  | 'pms_write_back';
 
 /**
  * Resource types for audit events
@@ -126,6 +135,14 @@ export class AuditService {
     return result;
   }
 
+  /**
+   * Get a single audit event by ID
+   */
+  async findById(id: string): Promise<AuditLogEntry | null> {
+    const [entry] = await db.select().from(auditLog).where(eq(auditLog.id, id)).limit(1);
+    return entry ?? null;
+  }
+
   /**
    * Query audit events
    */
@@ -187,7 +204,17 @@ export class AuditService {
    * Get recent security events (login failures, etc.)
    */
   async getSecurityEvents(since: Date, limit = 100): Promise<AuditLogEntry[]> {
-    const securityActions = ['login', 'logout', 'login_failed', 'password_change', 'config_change'];
+    const securityActions = [
+      'login',
+      'logout',
+      'login_failed',
+      'password_change',
+      'config_change',
+      'two_factor_enabled',
+      'two_factor_disabled',
+      'two_factor_failed',
+      'two_factor_reset',
+    ];
 
     const results = await db
       .select()
@@ -223,7 +250,17 @@ export function getAuditService(): AuditService {
  * Helper to log authentication events
  */
 export async function logAuthEvent(
-  action: 'login' | 'logout' | 'login_failed' | 'token_refresh' | 'register' | 'password_reset',
+  action:
+    | 'login'
+    | 'logout'
+    | 'login_failed'
+    | 'token_refresh'
+    | 'register'
+    | 'password_reset'
+    | 'two_factor_enabled'
+    | 'two_factor_disabled'
+    | 'two_factor_failed'
+    | 'recovery_codes_regenerated',
   staffId: string | undefined,
   details?: Record<string, unknown> | undefined,
   context?: { ip?: string | undefined; userAgent?: string | undefined } | undefined
@@ -0,0 +1,130 @@
+/**
+ * Conversation Notes Service
+ *
+ * Internal staff notes on a conversation. Notes are stored as messages with
+ * direction `internal`: they show in the dashboard thread but are never
+ * queued for delivery, and are left out of the history the AI and the
+ * webchat widget see. Staff can @mention colleagues by name; mentioned staff
+ * are notified over the dashboard socket.
+ *
+ * @module services/conversation-notes
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import { db, messages, roles, staff } from '@/db/index.js';
+import type { Message } from '@/db/schema.js';
+import { NotFoundError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { PERMISSIONS, hasPermission } from '@/permissions/index.js';
+import { conversationService } from '@/services/conversation.js';
+import type { ConversationNoteAddedEvent } from '@/types/events.js';
+import { createLogger } from '@/utils/logger.js';
+
+const log = createLogger('conversation-notes');
+
+export interface MentionableStaff {
+  id: string;
+  name: string;
+}
+
+export interface AddNoteResult {
+  message: Message;
+  mentions: MentionableStaff[];
+}
+
+/**
+ * Staff named in `content` as `@Name`, matched case-insensitively. Longer
+ * names are tried first so "@Ana Lopez" is not read as "@Ana".
+ */
+export function findMentions(content: string, candidates: MentionableStaff[]): MentionableStaff[] {
+  const text = content.toLowerCase();
+  const found: MentionableStaff[] = [];
+  const taken: Array<[number, number]> = [];
+
+  for (const person of [...candidates].sort((a, b) => b.name.length - a.name.length)) {
+    const token = `@${person.name.toLowerCase()}`;
+    for (let at = text.indexOf(token); at !== -1; at = text.indexOf(token, at + 1)) {
+      const end = at + token.length;
+      const boundary = end === text.length || !/[\p{L}\p{N}_]/u.test(text[end]!);
+      const overlaps = taken.some(([start, stop]) => at < stop && start < end);
+      if (boundary && !overlaps) {
+        taken.push([at, end]);
+        if (!found.some((f) => f.id === person.id)) found.push(person);
+      }
+    }
+  }
+  return found;
+}
+
+export class ConversationNoteService {
+  /**
+   * Active staff who can view conversations, sorted by name
+   */
+  async listMentionable(): Promise<MentionableStaff[]> {
+    const rows = await db
+      .select({ id: staff.id, name: staff.name, permissions: roles.permissions })
+      .from(staff)
+      .innerJoin(roles, eq(staff.roleId, roles.id))
+      .where(eq(staff.status, 'active'));
+
+    return rows
+      .filter((row) => hasPermission(JSON.parse(row.permissions) as string[], PERMISSIONS.CONVERSATIONS_VIEW))
+      .map(({ id, name }) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add a note to a conversation and notify the staff it mentions
+   */
+  async add(conversationId: string, authorId: string, content: string): Promise<AddNoteResult> {
+    const [author] = await db.select({ name: staff.name }).from(staff).where(eq(staff.id, authorId)).limit(1);
+    if (!author) {
+      throw new NotFoundError('Staff', authorId);
+    }
+
+    const message = await conversationService.addMessage(conversationId, {
+      direction: 'internal',
+      senderType: 'staff',
+      senderId: authorId,
+      content,
+      contentType: 'text',
+    });
+
+    const mentions = findMentions(content, await this.listMentionable());
+    const mentionedStaffIds = mentions.map((m) => m.id).filter((id) => id !== authorId);
+
+    log.info({ conversationId, messageId: message.id, mentioned: mentionedStaffIds.length }, 'Internal note added');
+
+    const event: ConversationNoteAddedEvent = {
+      type: EventTypes.CONVERSATION_NOTE_ADDED,
+      conversationId,
+      messageId: message.id,
+      authorId,
+      authorName: author.name,
+      content,
+      mentionedStaffIds,
+      timestamp: new Date(),
+    };
+    events.emit(event);
+
+    return { message, mentions };
+  }
+
+  /**
+   * Most recent notes on a conversation, oldest first
+   */
+  async listRecent(conversationId: string, limit = 5): Promise<Message[]> {
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.direction, 'internal')))
+      .orderBy(desc(messages.createdAt))
+      .limit(limit);
+    return rows.reverse();
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const conversationNoteService = new ConversationNoteService();
@@ -4,7 +4,7 @@
  * Manages conversations and messages between guests and the system.
  */
 
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, ne, sql } from 'drizzle-orm';
 import { db, conversations, messages, guests, staff, tasks } from '@/db/index.js';
 import type { Conversation, Message } from '@/db/schema.js';
 import { generateId } from '@/utils/id.js';
@@ -38,6 +38,8 @@ export interface ListConversationsOptions {
 export interface GetMessagesOptions {
   limit?: number | undefined;
   before?: string | undefined;
+  /** Leave out internal staff notes (for history the guest or the AI sees) */
+  excludeInternal?: boolean | undefined;
 }
 
 export class ConversationService {
@@ -286,6 +288,7 @@ export class ConversationService {
       metadata: JSON.parse(conversation.metadata || '{}'),
       lastMessageAt: conversation.lastMessageAt,
       resolvedAt: conversation.resolvedAt,
+      handoffSummary: conversation.handoffSummary ? JSON.parse(conversation.handoffSummary) : null,
       messageCount,
       taskCount,
       guestLanguage: conversation.guestLanguage,
@@ -383,6 +386,17 @@ export class ConversationService {
       });
     }
 
+    // Same for CONVERSATION_ESCALATED — re-escalating is not a new escalation
+    if (input.state === 'escalated' && conversation.state !== 'escalated') {
+      events.emit({
+        type: EventTypes.CONVERSATION_ESCALATED,
+        conversationId: id,
+        reasons: input._escalation?.reasons ?? ['staff'],
+        priority: input._escalation?.priority ?? 'standard',
+        timestamp: new Date(),
+      });
+    }
+
     return this.getById(id);
   }
 
@@ -403,6 +417,7 @@ export class ConversationService {
       senderId: input.senderId ?? null,
       content: input.content,
       contentType: input.contentType,
+      media: input.media?.length ? JSON.stringify(input.media) : null,
       channelMessageId: input.channelMessageId ?? null,
       intent: input.intent ?? null,
       confidence: input.confidence ?? null,
@@ -437,10 +452,12 @@ export class ConversationService {
     // Verify conversation exists
     await this.getById(conversationId);
 
+    const visible = options.excludeInternal ? ne(messages.direction, 'internal') : undefined;
+
     let query = db
       .select()
       .from(messages)
-      .where(eq(messages.conversationId, conversationId))
+      .where(and(eq(messages.conversationId, conversationId), visible))
       .orderBy(desc(messages.createdAt))
       .limit(limit);
 
@@ -451,7 +468,7 @@ export class ConversationService {
         query = db
           .select()
           .from(messages)
-          .where(and(eq(messages.conversationId, conversationId), sql`${messages.createdAt} < ${beforeMsg.createdAt}`))
+          .where(and(eq(messages.conversationId, conversationId), visible, sql`${messages.createdAt} < ${beforeMsg.createdAt}`))
           .orderBy(desc(messages.createdAt))
           .limit(limit);
       }
@@ -0,0 +1,270 @@
+/**
+ * Inbound Email Service
+ *
+ * Turns a normalized inbound email — from a Mailgun/SendGrid parse webhook
+ * or the IMAP poller — into a pipeline message, threads it into the guest's
+ * existing email conversation, and sends the reply with threading headers.
+ *
+ * Threading: every Message-ID seen on a conversation (guest mail and our
+ * replies) is kept in `conversations.metadata.email.messageIds`. An inbound
+ * whose `In-Reply-To`/`References` hits one of those ids joins that
+ * conversation; otherwise the pipeline falls back to the most recent email
+ * conversation for the sender's address.
+ *
+ * @module services/email-inbound
+ */
+
+import { and, desc, eq, sql } from 'drizzle-orm';
+import type { InboundEmail } from '@jackthebutler/shared';
+import { db, conversations } from '@/db/index.js';
+import type { Conversation } from '@/db/schema.js';
+import { getAppRegistry } from '@/apps/index.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import {
+  htmlToText,
+  isAutoGenerated,
+  parseEmailAddress,
+  parseMessageIds,
+  replySubject,
+  stripQuotedReply,
+} from '@/utils/email.js';
+import type { InboundMessage } from '@/types/message.js';
+
+const log = createLogger('email-inbound');
+
+// ===================
+// Types
+// ===================
+
+/** Thread state stored under `conversations.metadata.email` */
+export interface EmailThreadState {
+  subject: string;
+  messageIds: string[];
+}
+
+/** Headers to put on an outbound email so it lands in the guest's thread */
+export interface EmailReplyHeaders {
+  subject: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+export interface EmailReceiveResult {
+  status: 'processed' | 'duplicate' | 'ignored' | 'failed';
+  conversationId?: string;
+  reason?: string;
+}
+
+/** Minimal interface for the email apps' send capability */
+interface EmailReplySender {
+  sendEmail(options: {
+    to: string;
+    subject: string;
+    text?: string;
+    inReplyTo?: string;
+    references?: string[];
+  }): Promise<{ messageId: string }>;
+  getFromAddress?(): string;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** Cap on remembered ids per conversation; oldest are dropped first */
+const MAX_THREAD_IDS = 50;
+
+// ===================
+// Service
+// ===================
+
+export class EmailInboundService {
+  /**
+   * Find the email conversation that already contains any of the given
+   * Message-IDs. Most recently updated wins if several match.
+   */
+  async findThreadConversation(messageIds: string[]): Promise<Conversation | null> {
+    if (messageIds.length === 0) return null;
+
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.channelType, 'email'),
+          sql`exists (select 1 from json_each(${conversations.metadata}, '$.email.messageIds') where value in ${messageIds})`
+        )
+      )
+      .orderBy(desc(conversations.updatedAt))
+      .limit(1);
+
+    return conversation ?? null;
+  }
+
+  /**
+   * Read the thread state from a conversation's metadata
+   */
+  getThread(conversation: Pick<Conversation, 'metadata'>): EmailThreadState | null {
+    const metadata = JSON.parse(conversation.metadata || '{}') as { email?: Partial<EmailThreadState> };
+    if (!metadata.email) return null;
+    return {
+      subject: metadata.email.subject ?? '',
+      messageIds: metadata.email.messageIds ?? [],
+    };
+  }
+
+  /**
+   * Threading headers for a reply on this conversation (staff or AI)
+   */
+  getReplyHeaders(conversation: Pick<Conversation, 'metadata'>): EmailReplyHeaders {
+    const thread = this.getThread(conversation);
+    const last = thread?.messageIds.at(-1);
+    return {
+      subject: replySubject(thread?.subject),
+      ...(last ? { inReplyTo: last, references: thread!.messageIds } : {}),
+    };
+  }
+
+  /**
+   * Append Message-IDs to a conversation's thread. Writes metadata directly
+   * rather than through conversationService.update() — this is bookkeeping,
+   * not a state change the dashboard needs to hear about.
+   */
+  async recordMessageIds(conversationId: string, messageIds: string[], subject?: string): Promise<void> {
+    const [row] = await db.select().from(conversations).where(eq(conversations.id, conversationId)).limit(1);
+    if (!row) return;
+
+    const metadata = JSON.parse(row.metadata || '{}') as Record<string, unknown>;
+    const thread = this.getThread(row) ?? { subject: '', messageIds: [] };
+    const merged = [...thread.messageIds];
+    for (const id of messageIds) {
+      if (!merged.includes(id)) merged.push(id);
+    }
+
+    metadata.email = {
+      subject: thread.subject || subject || '',
+      messageIds: merged.slice(-MAX_THREAD_IDS),
+    };
+
+    await db
+      .update(conversations)
+      .set({ metadata: JSON.stringify(metadata) })
+      .where(eq(conversations.id, conversationId));
+  }
+
+  /**
+   * Process one inbound email received through the given email app
+   * (`email-mailgun`, `email-sendgrid`, `email-smtp`, ...).
+   */
+  async receive(email: InboundEmail, appId: string): Promise<EmailReceiveResult> {
+    const sender = this.getSender(appId);
+    if (!sender) {
+      log.warn({ appId }, 'Email app not active, ignoring inbound email');
+      return { status: 'ignored', reason: 'app_inactive' };
+    }
+
+    const from = parseEmailAddress(email.from);
+    if (!from) {
+      return { status: 'ignored', reason: 'no_sender' };
+    }
+    if (from === sender.getFromAddress?.().toLowerCase()) {
+      return { status: 'ignored', reason: 'own_address' };
+    }
+    if (isAutoGenerated(email.headers)) {
+      log.info({ from, messageId: email.messageId }, 'Ignoring auto-generated email');
+      return { status: 'ignored', reason: 'auto_generated' };
+    }
+
+    // Providers retry on slow responses — a Message-ID we already stored is a redelivery
+    const messageId = parseMessageIds(email.messageId)[0];
+    if (messageId) {
+      const existing = await this.findThreadConversation([messageId]);
+      if (existing) {
+        log.debug({ messageId, conversationId: existing.id }, 'Duplicate inbound email');
+        return { status: 'duplicate', conversationId: existing.id };
+      }
+    }
+
+    const body = email.text.trim() ? email.text : htmlToText(email.html ?? '');
+    const content = stripQuotedReply(body) || email.subject.trim();
+    if (!content) {
+      return { status: 'ignored', reason: 'empty' };
+    }
+
+    const references = email.references ?? [];
+    const threadIds = [...parseMessageIds(email.inReplyTo), ...references];
+    const threaded = await this.findThreadConversation(threadIds);
+    if (threaded && (threaded.state === 'resolved' || threaded.state === 'closed')) {
+      const { conversationService } = await import('./conversation.js');
+      await conversationService.update(threaded.id, { state: 'active' });
+    }
+
+    const inbound: InboundMessage = {
+      id: generateId('message'),
+      conversationId: threaded?.id,
+      channel: 'email',
+      channelId: from,
+      channelMessageId: messageId,
+      content,
+      contentType: 'text',
+      timestamp: email.receivedAt ?? new Date(),
+      metadata: { subject: email.subject },
+    };
+
+    const replyReferences = messageId ? [...references, messageId] : references;
+    const baseReply = {
+      to: from,
+      subject: replySubject(email.subject),
+      ...(messageId ? { inReplyTo: messageId } : {}),
+      ...(replyReferences.length > 0 ? { references: replyReferences } : {}),
+    };
+
+    const { processMessage } = await import('@/pipeline/index.js');
+
+    let response;
+    try {
+      response = await processMessage(inbound);
+    } catch (error) {
+      log.error({ err: error, from, messageId }, 'Failed to process inbound email');
+      await sender
+        .sendEmail({
+          ...baseReply,
+          text: "I'm sorry, I encountered an error processing your request. Please try again.",
+        })
+        .catch((err) => log.error({ err, from }, 'Failed to send error fallback email'));
+      return { status: 'failed', reason: 'pipeline_error' };
+    }
+
+    await this.recordMessageIds(response.conversationId, messageId ? [messageId] : [], email.subject);
+
+    // Our Message-ID is added to the thread once the queue has sent the reply
+    const { to, ...headers } = baseReply;
+    const { outboundQueueService } = await import('./outbound-queue.js');
+    await outboundQueueService.enqueue({
+      messageId: response.messageId,
+      conversationId: response.conversationId,
+      channel: 'email',
+      appId,
+      channelId: to,
+      content: response.content,
+      metadata: headers,
+      ...(messageId ? { idempotencyKey: `email:${messageId}` } : {}),
+    });
+
+    log.info({ from, conversationId: response.conversationId, threaded: !!threaded }, 'Inbound email processed');
+    return { status: 'processed', conversationId: response.conversationId };
+  }
+
+  /**
+   * Resolve an active email app instance that can send replies
+   */
+  private getSender(appId: string): EmailReplySender | null {
+    const ext = getAppRegistry().get(appId);
+    if (ext?.status !== 'active' || !ext.instance) return null;
+    const instance = ext.instance as unknown as EmailReplySender;
+    return typeof instance.sendEmail === 'function' ? instance : null;
+  }
+}
+
+export const emailInboundService = new EmailInboundService();
@@ -9,7 +9,7 @@
 
 import { settingsService } from './settings.js';
 import { getAppRegistry } from '@/apps/index.js';
-import { loadConfig } from '@/config/index.js';
+import { getAppUrl } from '@/config/index.js';
 import { createLogger } from '@/utils/logger.js';
 
 const log = createLogger('email');
@@ -77,8 +77,7 @@ export class EmailService {
    * Get the base URL for links in emails
    */
   private getBaseUrl(): string {
-    const config = loadConfig();
-    return process.env.APP_URL || `http://localhost:${config.port}`;
+    return getAppUrl();
   }
 
   /**
@@ -244,6 +243,27 @@ export class EmailService {
       log.error({ error, to }, 'Failed to send approval result email');
     }
   }
+
+  /**
+   * Send a plain-text notification to a staff address (e.g. a webchat form
+   * submission). Returns false when no provider is configured or sending fails.
+   */
+  async sendNotificationEmail(to: string, subject: string, text: string): Promise<boolean> {
+    const provider = this.getEmailProvider();
+    if (!provider) {
+      log.warn({ to }, 'No email provider configured, skipping notification email');
+      return false;
+    }
+
+    try {
+      await provider.sendEmail({ to, subject, text });
+      log.info({ to }, 'Notification email sent');
+      return true;
+    } catch (error) {
+      log.error({ error, to }, 'Failed to send notification email');
+      return false;
+    }
+  }
 }
 
 export const emailService = new EmailService();
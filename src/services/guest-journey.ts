@@ -0,0 +1,400 @@
+/**
+ * Guest Journey Service
+ *
+ * Scheduled messages around a stay: pre-arrival ("2 days before arrival"),
+ * in-stay ("morning after check-in"), and post-stay ("1 day after checkout").
+ * Staff define journey steps; the scheduler calls `runDue()` which sends
+ * each step once per reservation, in the guest's language, over a channel
+ * the guest can be reached on.
+ *
+ * Send times and quiet hours are evaluated in the hotel timezone from the
+ * hotel profile. Every decision (sent, skipped, failed) is recorded in
+ * `journey_sends`, which also keeps a step from firing twice for a stay.
+ *
+ * @module services/guest-journey
+ */
+
+import { and, desc, eq, inArray, notInArray } from 'drizzle-orm';
+import { db, journeySteps, journeySends, messages, reservations, guests } from '@/db/index.js';
+import type { Guest, JourneySend, JourneyStep, Reservation } from '@/db/schema.js';
+import type { ChannelType } from '@jackthebutler/shared';
+import { getAppRegistry } from '@/apps/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { hotelProfileService, type HotelProfile } from '@/services/hotel-profile.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
+import { NotFoundError } from '@/errors/index.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { addDays, localDateTime, now } from '@/utils/time.js';
+
+const log = createLogger('guest-journey');
+
+// ===================
+// Types
+// ===================
+
+export type JourneyAnchor = 'arrival' | 'departure';
+export type JourneyChannel = 'auto' | 'whatsapp' | 'sms' | 'email';
+export type JourneySendStatus = 'sent' | 'skipped' | 'failed';
+
+export interface JourneyStepDTO extends Omit<JourneyStep, 'templates'> {
+  /** Message body per language code */
+  templates: Record<string, string>;
+}
+
+export interface CreateJourneyStepInput {
+  name: string;
+  anchor: JourneyAnchor;
+  offsetDays: number;
+  sendTime: string;
+  channel: JourneyChannel;
+  templates: Record<string, string>;
+  subject?: string | null | undefined;
+  enabled?: boolean | undefined;
+}
+
+export type UpdateJourneyStepInput = {
+  [K in keyof CreateJourneyStepInput]?: CreateJourneyStepInput[K] | undefined;
+};
+
+export interface JourneySendEntry extends JourneySend {
+  stepName: string;
+}
+
+export interface JourneyRunResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+  /** True when the run fell inside quiet hours and nothing was attempted */
+  quietHours: boolean;
+}
+
+// ===================
+// Constants
+// ===================
+
+const DEFAULT_QUIET_HOURS = { start: '21:00', end: '08:00' };
+
+/** Channels tried, in order, when a step targets 'auto' */
+const AUTO_CHANNEL_ORDER: Exclude<JourneyChannel, 'auto'>[] = ['whatsapp', 'sms', 'email'];
+
+/** Reservations in these states never receive journey messages */
+const INACTIVE_STATUSES = ['cancelled', 'no_show'];
+
+// ===================
+// Helpers
+// ===================
+
+function toStepDTO(step: JourneyStep): JourneyStepDTO {
+  return { ...step, templates: JSON.parse(step.templates || '{}') };
+}
+
+/**
+ * Whether a local HH:MM time falls in the quiet window. The window may wrap
+ * past midnight (21:00–08:00); equal start and end means no quiet hours.
+ */
+export function isQuietHours(time: string, start: string, end: string): boolean {
+  if (start === end) return false;
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * Replace `{{placeholder}}` tokens; unknown placeholders render empty
+ */
+export function renderTemplate(template: string, vars: Record<string, string | null | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => vars[key] ?? '').trim();
+}
+
+/**
+ * Whether the reservation is in the right state for a message sent on `today`:
+ * before arrival the stay must still be confirmed, after departure the guest
+ * must have checked out, and during the stay they must have checked in.
+ * A guest who has not checked in yet stays pending so a later run can pick
+ * them up the same day.
+ */
+function isEligible(reservation: Reservation, today: string): boolean {
+  if (today < reservation.arrivalDate) return reservation.status === 'confirmed';
+  if (today > reservation.departureDate) return reservation.status === 'checked_out';
+  return reservation.status === 'checked_in' || reservation.status === 'checked_out';
+}
+
+// ===================
+// Service
+// ===================
+
+export class GuestJourneyService {
+  // ----- Steps -----
+
+  async listSteps(): Promise<JourneyStepDTO[]> {
+    const rows = await db.select().from(journeySteps).orderBy(journeySteps.anchor, journeySteps.offsetDays);
+    return rows.map(toStepDTO);
+  }
+
+  async getStep(id: string): Promise<JourneyStepDTO> {
+    const [step] = await db.select().from(journeySteps).where(eq(journeySteps.id, id)).limit(1);
+    if (!step) {
+      throw new NotFoundError('Journey step', id);
+    }
+    return toStepDTO(step);
+  }
+
+  async createStep(input: CreateJourneyStepInput): Promise<JourneyStepDTO> {
+    const id = generateId('journeyStep');
+    const timestamp = now();
+
+    await db.insert(journeySteps).values({
+      id,
+      name: input.name,
+      anchor: input.anchor,
+      offsetDays: input.offsetDays,
+      sendTime: input.sendTime,
+      channel: input.channel,
+      templates: JSON.stringify(input.templates),
+      subject: input.subject ?? null,
+      enabled: input.enabled ?? true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    log.info({ id, name: input.name }, 'Journey step created');
+    return this.getStep(id);
+  }
+
+  async updateStep(id: string, input: UpdateJourneyStepInput): Promise<JourneyStepDTO> {
+    await this.getStep(id);
+
+    await db
+      .update(journeySteps)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.anchor !== undefined && { anchor: input.anchor }),
+        ...(input.offsetDays !== undefined && { offsetDays: input.offsetDays }),
+        ...(input.sendTime !== undefined && { sendTime: input.sendTime }),
+        ...(input.channel !== undefined && { channel: input.channel }),
+        ...(input.templates !== undefined && { templates: JSON.stringify(input.templates) }),
+        ...(input.subject !== undefined && { subject: input.subject }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+        updatedAt: now(),
+      })
+      .where(eq(journeySteps.id, id));
+
+    log.info({ id }, 'Journey step updated');
+    return this.getStep(id);
+  }
+
+  /**
+   * Delete a step. Its send log goes with it.
+   */
+  async deleteStep(id: string): Promise<void> {
+    await this.getStep(id);
+    await db.delete(journeySteps).where(eq(journeySteps.id, id));
+    log.info({ id }, 'Journey step deleted');
+  }
+
+  // ----- Send log -----
+
+  /**
+   * Everything the journey did for one reservation, newest first
+   */
+  async getSendsForReservation(reservationId: string): Promise<JourneySendEntry[]> {
+    const rows = await db
+      .select({ send: journeySends, stepName: journeySteps.name })
+      .from(journeySends)
+      .innerJoin(journeySteps, eq(journeySends.stepId, journeySteps.id))
+      .where(eq(journeySends.reservationId, reservationId))
+      .orderBy(desc(journeySends.createdAt));
+
+    return rows.map((r) => ({ ...r.send, stepName: r.stepName }));
+  }
+
+  // ----- Runner -----
+
+  /**
+   * Send every step that is due now. Called by the scheduler.
+   *
+   * A step is due for a reservation when today (hotel time) is `offsetDays`
+   * from its anchor date and the local time has reached `sendTime`. Nothing
+   * is sent during quiet hours; due steps are picked up by the first run
+   * after the window ends, as long as it is still the same day.
+   */
+  async runDue(at: Date = new Date()): Promise<JourneyRunResult> {
+    const result: JourneyRunResult = { sent: 0, skipped: 0, failed: 0, quietHours: false };
+
+    const { profile } = await hotelProfileService.getProfile();
+    const { date: today, time } = localDateTime(profile.timezone, at);
+
+    const quietStart = profile.quietHoursStart ?? DEFAULT_QUIET_HOURS.start;
+    const quietEnd = profile.quietHoursEnd ?? DEFAULT_QUIET_HOURS.end;
+    if (isQuietHours(time, quietStart, quietEnd)) {
+      result.quietHours = true;
+      return result;
+    }
+
+    const steps = await db.select().from(journeySteps).where(eq(journeySteps.enabled, true));
+
+    for (const step of steps) {
+      if (step.sendTime > time) continue;
+
+      const anchorDate = addDays(today, -step.offsetDays);
+      const anchorColumn = step.anchor === 'departure' ? reservations.departureDate : reservations.arrivalDate;
+
+      const candidates = await db
+        .select({ reservation: reservations, guest: guests })
+        .from(reservations)
+        .innerJoin(guests, eq(reservations.guestId, guests.id))
+        .where(and(eq(anchorColumn, anchorDate), notInArray(reservations.status, INACTIVE_STATUSES)));
+      if (candidates.length === 0) continue;
+
+      const logged = await db
+        .select({ reservationId: journeySends.reservationId })
+        .from(journeySends)
+        .where(
+          and(
+            eq(journeySends.stepId, step.id),
+            inArray(
+              journeySends.reservationId,
+              candidates.map((c) => c.reservation.id)
+            )
+          )
+        );
+      const done = new Set(logged.map((l) => l.reservationId));
+
+      for (const { reservation, guest } of candidates) {
+        if (done.has(reservation.id) || !isEligible(reservation, today)) continue;
+
+        const status = await this.deliver(step, reservation, guest, profile);
+        result[status]++;
+      }
+    }
+
+    if (result.sent + result.skipped + result.failed > 0) {
+      log.info({ ...result }, 'Guest journey run complete');
+    }
+    return result;
+  }
+
+  /**
+   * Send one step to one guest and record the outcome
+   */
+  private async deliver(
+    step: JourneyStep,
+    reservation: Reservation,
+    guest: Guest,
+    profile: HotelProfile
+  ): Promise<JourneySendStatus> {
+    const record = async (status: JourneySendStatus, fields: Partial<JourneySend> = {}) => {
+      await db
+        .insert(journeySends)
+        .values({
+          id: generateId('journeySend'),
+          stepId: step.id,
+          reservationId: reservation.id,
+          guestId: guest.id,
+          status,
+          createdAt: now(),
+          ...fields,
+        })
+        .onConflictDoNothing();
+      return status;
+    };
+
+    if (guest.journeyOptOut) {
+      return record('skipped', { reason: 'opted_out' });
+    }
+
+    const target = this.selectChannel(step.channel as JourneyChannel, guest);
+    if (!target) {
+      return record('skipped', { reason: 'no_contact' });
+    }
+
+    const templates: Record<string, string> = JSON.parse(step.templates || '{}');
+    const language = guest.language ?? profile.propertyLanguage;
+    const template = templates[language] ?? templates[profile.propertyLanguage] ?? Object.values(templates)[0];
+    if (!template) {
+      return record('skipped', { reason: 'no_template', channel: target.channel });
+    }
+
+    const vars = {
+      firstName: guest.firstName,
+      lastName: guest.lastName,
+      hotelName: profile.name,
+      confirmationNumber: reservation.confirmationNumber,
+      roomNumber: reservation.roomNumber,
+      arrivalDate: reservation.arrivalDate,
+      departureDate: reservation.departureDate,
+      checkInTime: profile.checkInTime,
+      checkOutTime: profile.checkOutTime,
+    };
+    const content = renderTemplate(template, vars);
+
+    let ids: { conversationId: string; messageId?: string } | undefined;
+    try {
+      const conversation = await conversationService.findOrCreate(target.channel, target.address, guest.id);
+      if (!conversation.reservationId) {
+        await conversationService.update(conversation.id, { reservationId: reservation.id });
+      }
+      ids = { conversationId: conversation.id };
+
+      const message = await conversationService.addMessage(conversation.id, {
+        direction: 'outbound',
+        senderType: 'system',
+        content,
+        contentType: 'text',
+      });
+      ids.messageId = message.id;
+
+      const subject = target.channel === 'email' ? renderTemplate(step.subject || step.name, vars) : undefined;
+      // Retries and dead-lettering are the queue's; WhatsApp goes out as the
+      // fallback template since journey messages usually open the conversation
+      const item = await outboundQueueService.enqueue({
+        conversationId: conversation.id,
+        messageId: message.id,
+        channel: target.channel,
+        channelId: target.address,
+        content,
+        metadata: { senderType: 'system', journeyStepId: step.id, ...(subject ? { subject } : {}) },
+        idempotencyKey: `journey:${step.id}:${reservation.id}`,
+      });
+
+      if (item.status === 'dead') {
+        log.warn({ stepId: step.id, reservationId: reservation.id, error: item.lastError }, 'Journey message failed');
+        return record('failed', { reason: item.lastError ?? 'send_failed', channel: target.channel, ...ids });
+      }
+
+      log.info(
+        { stepId: step.id, reservationId: reservation.id, channel: target.channel, status: item.status },
+        'Journey message sent'
+      );
+      // A first attempt that failed is retried by the queue; keep its error for staff
+      return record('sent', { reason: item.lastError, channel: target.channel, ...ids });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'send_failed';
+      log.error({ err, stepId: step.id, reservationId: reservation.id }, 'Journey message failed');
+      if (ids?.messageId) {
+        await db
+          .update(messages)
+          .set({ deliveryStatus: 'failed', deliveryError: reason })
+          .where(eq(messages.id, ids.messageId));
+      }
+      return record('failed', { reason, channel: target.channel, ...ids });
+    }
+  }
+
+  /**
+   * Pick a channel the guest is reachable on and that has an active adapter
+   */
+  private selectChannel(channel: JourneyChannel, guest: Guest) {
+    const registry = getAppRegistry();
+    const candidates = channel === 'auto' ? AUTO_CHANNEL_ORDER : [channel];
+
+    for (const type of candidates) {
+      const address = type === 'email' ? guest.email : guest.phone;
+      if (!address) continue;
+      const adapter = registry.getChannelAdapterByType(type as ChannelType);
+      if (adapter) return { channel: type as ChannelType, address, adapter };
+    }
+    return null;
+  }
+}
+
+export const guestJourneyService = new GuestJourneyService();
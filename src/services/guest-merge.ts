@@ -0,0 +1,508 @@
+/**
+ * Guest Merge Service
+ *
+ * Finds guest profiles that are probably the same person and merges them.
+ * Guests are created from phone numbers, email, webchat verification and
+ * PMS sync, so one person can end up with several rows.
+ *
+ * A merge moves everything that points at the duplicate (conversations and
+ * their tasks, reservations, webchat sessions, journey sends, memories) to
+ * the kept profile. It fills the kept profile's gaps from the duplicate and
+ * then deletes the duplicate. Memories the kept guest already has are dropped
+ * and the kept copy reinforced. The audit log stores the full record, so a
+ * merge can be undone later.
+ *
+ * @module services/guest-merge
+ */
+
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { getAppRegistry } from '@/apps/index.js';
+import {
+  db,
+  conversations,
+  guestMemories,
+  guests,
+  journeySends,
+  reservations,
+  tasks,
+  webchatSessions,
+} from '@/db/index.js';
+import type { Guest, GuestMemory } from '@/db/schema.js';
+import { ConflictError, NotFoundError, ValidationError } from '@/errors/index.js';
+import { getAuditService } from '@/services/audit.js';
+import { guestService, normalizePhone, toGuestDTO, type GuestDTO, type GuestWithCounts } from '@/services/guest.js';
+import { MemoryService } from '@/services/memory.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+
+const log = createLogger('guest-merge');
+
+/** Strongest evidence first — candidates are sorted by it */
+const REASON_ORDER = ['external_id', 'email', 'phone', 'name_and_stay'] as const;
+
+/** Guest columns a merge may change on the kept profile */
+const PROFILE_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'loyaltyTier',
+  'vipStatus',
+  'externalIds',
+  'preferences',
+  'notes',
+  'tags',
+  'stayCount',
+  'totalRevenue',
+  'lastStayDate',
+  'journeyOptOut',
+  'blockedAt',
+  'blockedReason',
+] as const;
+
+// ===================
+// Types
+// ===================
+
+export type DuplicateReason = (typeof REASON_ORDER)[number];
+
+export interface DuplicateCandidate {
+  /** Suggested profile to keep first */
+  guests: [GuestWithCounts, GuestWithCounts];
+  reasons: DuplicateReason[];
+}
+
+type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+type StoredMemory = Omit<GuestMemory, 'embedding'>;
+
+/**
+ * Everything needed to undo a merge, stored as the audit entry's details
+ */
+export interface GuestMergeRecord {
+  targetId: string;
+  /** The deleted duplicate, as it was */
+  source: Guest;
+  profileChanges: Partial<Record<ProfileField, { before: unknown; after: unknown }>>;
+  moved: {
+    conversations: string[];
+    reservations: string[];
+    webchatSessions: string[];
+    journeySends: string[];
+    memories: string[];
+  };
+  taskCount: number;
+  /** Duplicate memories removed, with the kept copy's values before it was reinforced */
+  droppedMemories: Array<{
+    memory: StoredMemory;
+    keptId: string;
+    keptBefore: { confidence: number; lastReinforcedAt: string };
+  }>;
+}
+
+export interface GuestMergeSummary {
+  id: string;
+  targetId: string;
+  targetName: string;
+  sourceId: string;
+  sourceName: string;
+  mergedAt: string;
+  mergedBy: string | null;
+  counts: {
+    conversations: number;
+    reservations: number;
+    tasks: number;
+    memories: number;
+  };
+  undoneAt: string | null;
+}
+
+export interface GuestMergeResult {
+  guest: GuestDTO;
+  merge: GuestMergeSummary;
+}
+
+// ===================
+// Helpers
+// ===================
+
+/** Placeholder profile created by findOrCreateByPhone */
+function isPlaceholder(guest: Guest): boolean {
+  return guest.firstName === 'Guest' && /^\d{1,4}$/.test(guest.lastName);
+}
+
+function nameKey(guest: Guest): string | null {
+  if (isPlaceholder(guest)) return null;
+  const name = `${guest.firstName} ${guest.lastName}`.toLowerCase().replace(/\s+/g, ' ').trim();
+  return name || null;
+}
+
+/** Last 9 digits, the same loose match GuestService.findByPhone uses */
+function phoneKey(phone: string | null): string | null {
+  if (!phone) return null;
+  const digits = (normalizePhone(phone) ?? phone).replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-9) : null;
+}
+
+function parseList(raw: string | null): string[] {
+  return JSON.parse(raw || '[]');
+}
+
+function union(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+/**
+ * The kept profile with gaps filled from the duplicate: the kept guest's
+ * values win, lists are combined and stay totals added up.
+ */
+function mergedProfile(target: Guest, source: Guest): Partial<Pick<Guest, ProfileField>> {
+  const useSourceName = isPlaceholder(target) && !isPlaceholder(source);
+  const notes = [target.notes, source.notes].filter(Boolean).join('\n\n') || null;
+  const takeBlock = !target.blockedAt && !!source.blockedAt;
+
+  const merged: Pick<Guest, ProfileField> = {
+    firstName: useSourceName ? source.firstName : target.firstName,
+    lastName: useSourceName ? source.lastName : target.lastName,
+    email: target.email || source.email,
+    phone: target.phone || source.phone,
+    loyaltyTier: target.loyaltyTier && target.loyaltyTier !== 'none' ? target.loyaltyTier : source.loyaltyTier ?? target.loyaltyTier,
+    vipStatus: target.vipStatus && target.vipStatus !== 'none' ? target.vipStatus : source.vipStatus ?? target.vipStatus,
+    externalIds: JSON.stringify({ ...JSON.parse(source.externalIds || '{}'), ...JSON.parse(target.externalIds || '{}') }),
+    preferences: JSON.stringify(union(parseList(target.preferences), parseList(source.preferences))),
+    notes,
+    tags: JSON.stringify(union(parseList(target.tags), parseList(source.tags))),
+    stayCount: target.stayCount + source.stayCount,
+    totalRevenue: target.totalRevenue + source.totalRevenue,
+    lastStayDate: [target.lastStayDate, source.lastStayDate].filter(Boolean).sort().pop() ?? null,
+    journeyOptOut: target.journeyOptOut || source.journeyOptOut,
+    blockedAt: takeBlock ? source.blockedAt : target.blockedAt,
+    blockedReason: takeBlock ? source.blockedReason : target.blockedReason,
+  };
+
+  const changes: Partial<Pick<Guest, ProfileField>> = {};
+  for (const field of PROFILE_FIELDS) {
+    if (merged[field] !== target[field]) {
+      (changes as Record<string, unknown>)[field] = merged[field];
+    }
+  }
+  return changes;
+}
+
+function overlaps(a: { arrivalDate: string; departureDate: string }, b: { arrivalDate: string; departureDate: string }) {
+  return a.arrivalDate < b.departureDate && b.arrivalDate < a.departureDate;
+}
+
+// ===================
+// Service
+// ===================
+
+export class GuestMergeService {
+  /**
+   * Pairs of guests that look like the same person: same phone number
+   * (ignoring format), same email (ignoring case), same PMS ID, or same
+   * name with overlapping stays. Anonymized guests are skipped.
+   */
+  async findCandidates(): Promise<DuplicateCandidate[]> {
+    const all = (await db.select().from(guests)).filter((g) => !parseList(g.tags).includes('deleted'));
+    const pairs = new Map<string, Set<DuplicateReason>>();
+
+    const addBuckets = (reason: DuplicateReason, keysOf: (guest: Guest) => Array<string | null>) => {
+      const buckets = new Map<string, string[]>();
+      for (const guest of all) {
+        for (const key of keysOf(guest)) {
+          if (!key) continue;
+          buckets.set(key, [...(buckets.get(key) ?? []), guest.id]);
+        }
+      }
+      for (const ids of buckets.values()) {
+        for (let i = 0; i < ids.length; i++) {
+          for (let j = i + 1; j < ids.length; j++) {
+            if (ids[i] === ids[j]) continue;
+            const pairKey = [ids[i], ids[j]].sort().join('|');
+            pairs.set(pairKey, (pairs.get(pairKey) ?? new Set()).add(reason));
+          }
+        }
+      }
+    };
+
+    addBuckets('phone', (g) => [phoneKey(g.phone)]);
+    addBuckets('email', (g) => [g.email ? g.email.toLowerCase().trim() : null]);
+    addBuckets('external_id', (g) =>
+      Object.entries(JSON.parse(g.externalIds || '{}') as Record<string, unknown>).map(([source, id]) =>
+        id ? `${source}:${String(id)}` : null
+      )
+    );
+
+    // Same name alone is too weak — also require stays that overlap
+    const stays = await db
+      .select({ guestId: reservations.guestId, arrivalDate: reservations.arrivalDate, departureDate: reservations.departureDate })
+      .from(reservations);
+    const staysByGuest = new Map<string, typeof stays>();
+    for (const stay of stays) {
+      staysByGuest.set(stay.guestId, [...(staysByGuest.get(stay.guestId) ?? []), stay]);
+    }
+    const byName = new Map<string, Guest[]>();
+    for (const guest of all) {
+      const key = nameKey(guest);
+      if (key) byName.set(key, [...(byName.get(key) ?? []), guest]);
+    }
+    for (const group of byName.values()) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const a = staysByGuest.get(group[i]!.id) ?? [];
+          const b = staysByGuest.get(group[j]!.id) ?? [];
+          if (a.some((x) => b.some((y) => overlaps(x, y)))) {
+            const pairKey = [group[i]!.id, group[j]!.id].sort().join('|');
+            pairs.set(pairKey, (pairs.get(pairKey) ?? new Set()).add('name_and_stay'));
+          }
+        }
+      }
+    }
+
+    const candidates: DuplicateCandidate[] = [];
+    for (const [pairKey, reasons] of pairs) {
+      const [a, b] = await Promise.all(pairKey.split('|').map((id) => guestService.getWithCounts(id)));
+      // Keep the profile with more history, then the older one
+      const keepA =
+        b!._counts.reservations !== a!._counts.reservations
+          ? a!._counts.reservations > b!._counts.reservations
+          : a!.createdAt <= b!.createdAt;
+      candidates.push({
+        guests: keepA ? [a!, b!] : [b!, a!],
+        reasons: REASON_ORDER.filter((r) => reasons.has(r)),
+      });
+    }
+
+    const strength = (c: DuplicateCandidate) => REASON_ORDER.indexOf(c.reasons[0]!);
+    return candidates.sort((x, y) => y.reasons.length - x.reasons.length || strength(x) - strength(y));
+  }
+
+  /**
+   * Merge `sourceId` into `targetId` and delete the source profile.
+   * Throws NotFoundError for an unknown guest.
+   */
+  async merge(targetId: string, sourceId: string, actorId?: string): Promise<GuestMergeResult> {
+    if (targetId === sourceId) {
+      throw new ValidationError('Cannot merge a guest into itself');
+    }
+    const target = await guestService.findById(targetId);
+    if (!target) throw new NotFoundError('Guest', targetId);
+    const source = await guestService.findById(sourceId);
+    if (!source) throw new NotFoundError('Guest', sourceId);
+
+    const registry = getAppRegistry();
+    const memories = new MemoryService(registry.getActiveAIProvider(), registry.getEmbeddingProvider() ?? undefined);
+    const duplicates = await memories.findDuplicatesAcross(sourceId, targetId);
+
+    const idsOf = async (table: typeof conversations | typeof reservations | typeof webchatSessions | typeof journeySends | typeof guestMemories) =>
+      (await db.select({ id: table.id }).from(table).where(eq(table.guestId, sourceId))).map((r) => r.id);
+
+    const conversationIds = await idsOf(conversations);
+    const droppedIds = new Set(duplicates.map((d) => d.memory.id));
+    const [taskRow] = conversationIds.length
+      ? await db.select({ count: sql<number>`count(*)` }).from(tasks).where(inArray(tasks.conversationId, conversationIds))
+      : [];
+
+    const changes = mergedProfile(target, source);
+    const record: GuestMergeRecord = {
+      targetId,
+      source,
+      profileChanges: Object.fromEntries(
+        Object.entries(changes).map(([field, after]) => [field, { before: target[field as ProfileField], after }])
+      ),
+      moved: {
+        conversations: conversationIds,
+        reservations: await idsOf(reservations),
+        webchatSessions: await idsOf(webchatSessions),
+        journeySends: await idsOf(journeySends),
+        memories: (await idsOf(guestMemories)).filter((id) => !droppedIds.has(id)),
+      },
+      taskCount: taskRow?.count ?? 0,
+      droppedMemories: duplicates.map(({ memory: { embedding: _embedding, ...memory }, duplicateOf }) => ({
+        memory,
+        keptId: duplicateOf.id,
+        keptBefore: { confidence: duplicateOf.confidence, lastReinforcedAt: duplicateOf.lastReinforcedAt },
+      })),
+    };
+
+    db.transaction((tx) => {
+      for (const table of [conversations, reservations, webchatSessions, journeySends] as const) {
+        tx.update(table).set({ guestId: targetId }).where(eq(table.guestId, sourceId)).run();
+      }
+      for (const { memory, duplicateOf } of duplicates) {
+        tx.update(guestMemories)
+          .set({
+            confidence: Math.max(memory.confidence, duplicateOf.confidence),
+            lastReinforcedAt: [memory.lastReinforcedAt, duplicateOf.lastReinforcedAt].sort().pop()!,
+          })
+          .where(eq(guestMemories.id, duplicateOf.id))
+          .run();
+      }
+      if (droppedIds.size) {
+        tx.delete(guestMemories).where(inArray(guestMemories.id, [...droppedIds])).run();
+      }
+      if (record.moved.memories.length) {
+        tx.update(guestMemories).set({ guestId: targetId }).where(inArray(guestMemories.id, record.moved.memories)).run();
+      }
+      tx.delete(guests).where(eq(guests.id, sourceId)).run();
+      tx.update(guests).set({ ...changes, updatedAt: now() }).where(eq(guests.id, targetId)).run();
+    });
+
+    const entry = await getAuditService().log({
+      actorType: actorId ? 'user' : 'system',
+      actorId,
+      action: 'guest_merged',
+      resourceType: 'guest',
+      resourceId: targetId,
+      details: record as unknown as Record<string, unknown>,
+    });
+
+    log.info(
+      { targetId, sourceId, mergeId: entry.id, conversations: conversationIds.length, memoriesDropped: duplicates.length },
+      'Guests merged'
+    );
+
+    const merged = await guestService.findById(targetId);
+    return {
+      guest: toGuestDTO(merged!),
+      merge: this.toSummary(entry.id, entry.createdAt, entry.actorId, record, merged!, null),
+    };
+  }
+
+  /**
+   * Recent merges, newest first
+   */
+  async listMerges(limit = 20): Promise<GuestMergeSummary[]> {
+    const audit = getAuditService();
+    const entries = await audit.query({ action: 'guest_merged', resourceType: 'guest', limit });
+    const undone = await this.undoneMerges();
+
+    const summaries: GuestMergeSummary[] = [];
+    for (const entry of entries) {
+      const record = JSON.parse(entry.details || '{}') as GuestMergeRecord;
+      const target = await guestService.findById(record.targetId);
+      summaries.push(this.toSummary(entry.id, entry.createdAt, entry.actorId, record, target, undone.get(entry.id) ?? null));
+    }
+    return summaries;
+  }
+
+  /**
+   * Undo a merge: recreate the deleted profile and move back what the merge
+   * moved. Fields of the kept profile are only restored if nobody has
+   * changed them since. Returns the recreated guest.
+   */
+  async undo(mergeId: string, actorId?: string): Promise<GuestDTO> {
+    const entry = await getAuditService().findById(mergeId);
+    if (!entry || entry.action !== 'guest_merged') {
+      throw new NotFoundError('Guest merge', mergeId);
+    }
+    if ((await this.undoneMerges()).has(mergeId)) {
+      throw new ConflictError('This merge has already been undone');
+    }
+
+    const record = JSON.parse(entry.details || '{}') as GuestMergeRecord;
+    const { source, targetId } = record;
+
+    const target = await guestService.findById(targetId);
+    if (!target) {
+      throw new ConflictError('The merged guest no longer exists');
+    }
+    if (await guestService.findById(source.id)) {
+      throw new ConflictError('The original guest already exists');
+    }
+
+    const restore: Partial<Record<ProfileField, unknown>> = {};
+    for (const [field, change] of Object.entries(record.profileChanges)) {
+      if (target[field as ProfileField] === change.after) restore[field as ProfileField] = change.before;
+    }
+
+    // Email and phone are unique — another profile may have taken them since
+    for (const field of ['email', 'phone'] as const) {
+      const value = source[field];
+      if (!value) continue;
+      const [holder] = await db.select({ id: guests.id }).from(guests).where(eq(guests[field], value)).limit(1);
+      if (holder && !(holder.id === targetId && restore[field] !== undefined)) {
+        throw new ConflictError(`Another guest now has the ${field} ${value}`, { field });
+      }
+    }
+
+    db.transaction((tx) => {
+      tx.update(guests).set({ ...(restore as Partial<Guest>), updatedAt: now() }).where(eq(guests.id, targetId)).run();
+      tx.insert(guests).values(source).run();
+
+      const moveBack = [
+        [conversations, record.moved.conversations],
+        [reservations, record.moved.reservations],
+        [webchatSessions, record.moved.webchatSessions],
+        [journeySends, record.moved.journeySends],
+        [guestMemories, record.moved.memories],
+      ] as const;
+      for (const [table, ids] of moveBack) {
+        if (!ids.length) continue;
+        tx.update(table)
+          .set({ guestId: source.id })
+          .where(and(eq(table.guestId, targetId), inArray(table.id, ids)))
+          .run();
+      }
+
+      // Restored memories come back without an embedding; the backfill regenerates it
+      for (const { memory, keptId, keptBefore } of record.droppedMemories) {
+        tx.insert(guestMemories).values({ ...memory, embedding: null }).run();
+        tx.update(guestMemories).set(keptBefore).where(eq(guestMemories.id, keptId)).run();
+      }
+    });
+
+    await getAuditService().log({
+      actorType: actorId ? 'user' : 'system',
+      actorId,
+      action: 'guest_merge_undone',
+      resourceType: 'guest',
+      resourceId: source.id,
+      details: { mergeId, targetId },
+    });
+
+    log.info({ mergeId, targetId, sourceId: source.id }, 'Guest merge undone');
+
+    const restored = await guestService.findById(source.id);
+    return toGuestDTO(restored!);
+  }
+
+  /**
+   * Merge IDs that have been undone, with when
+   */
+  private async undoneMerges(): Promise<Map<string, string>> {
+    const entries = await getAuditService().query({ action: 'guest_merge_undone', resourceType: 'guest', limit: 1000 });
+    return new Map(
+      entries.map((e) => [(JSON.parse(e.details || '{}') as { mergeId: string }).mergeId, e.createdAt])
+    );
+  }
+
+  private toSummary(
+    id: string,
+    mergedAt: string,
+    mergedBy: string | null,
+    record: GuestMergeRecord,
+    target: Guest | null,
+    undoneAt: string | null
+  ): GuestMergeSummary {
+    return {
+      id,
+      targetId: record.targetId,
+      targetName: target ? `${target.firstName} ${target.lastName}` : '',
+      sourceId: record.source.id,
+      sourceName: `${record.source.firstName} ${record.source.lastName}`,
+      mergedAt,
+      mergedBy,
+      counts: {
+        conversations: record.moved.conversations.length,
+        reservations: record.moved.reservations.length,
+        tasks: record.taskCount,
+        memories: record.moved.memories.length + record.droppedMemories.length,
+      },
+      undoneAt,
+    };
+  }
+}
+
+export const guestMergeService = new GuestMergeService();
@@ -121,6 +121,10 @@ export interface UpdateGuestInput {
   preferences?: string[] | undefined;
   notes?: string | null | undefined;
   tags?: string[] | undefined;
+  journeyOptOut?: boolean | undefined;
+  /** Block or unblock inbound messages from this guest */
+  blocked?: boolean | undefined;
+  blockedReason?: string | null | undefined;
 }
 
 export interface DeleteGuestOptions {
@@ -130,7 +134,7 @@ export interface DeleteGuestOptions {
 /**
  * Parse a guest's JSON text columns into their native shapes
  */
-function toGuestDTO(guest: Guest): GuestDTO {
+export function toGuestDTO(guest: Guest): GuestDTO {
   return {
     ...guest,
     preferences: JSON.parse(guest.preferences || '[]'),
@@ -563,12 +567,20 @@ export class GuestService {
         ...(data.preferences && { preferences: JSON.stringify(data.preferences) }),
         ...(data.notes !== undefined && { notes: data.notes }),
         ...(data.tags && { tags: JSON.stringify(data.tags) }),
+        ...(data.journeyOptOut !== undefined && { journeyOptOut: data.journeyOptOut }),
+        ...(data.blockedReason !== undefined && { blockedReason: data.blockedReason }),
+        // Keep the original block time when an already-blocked guest is saved again
+        ...(data.blocked === true && { blockedAt: existing.blockedAt ?? now() }),
+        ...(data.blocked === false && { blockedAt: null, blockedReason: null }),
         updatedAt: now(),
       })
       .where(eq(guests.id, id))
       .run();
 
     log.info({ id }, 'Guest updated');
+    if (data.blocked !== undefined && data.blocked !== !!existing.blockedAt) {
+      log.info({ id, blocked: data.blocked }, data.blocked ? 'Guest blocked' : 'Guest unblocked');
+    }
 
     const guest = await this.findById(id);
     if (!guest) {
@@ -0,0 +1,281 @@
+/**
+ * Handoff Summary Service
+ *
+ * Keeps a short AI-written note on a conversation for the staff member
+ * picking it up: what the guest wants, what was promised, and the tasks
+ * still open. Refreshed when the conversation is escalated, at each shift
+ * change in the hotel profile (escalated conversations with new messages
+ * only), and on demand from the inbox. `routeTask` appends the note to
+ * the tasks it creates.
+ *
+ * @module services/handoff-summary
+ */
+
+import { and, asc, desc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { getAppRegistry } from '@/apps/index.js';
+import { db, conversations, messages, tasks } from '@/db/index.js';
+import type { Message, Task } from '@/db/schema.js';
+import { AppError, ValidationError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { hotelProfileService } from '@/services/hotel-profile.js';
+import type { HandoffSummary, HandoffSummaryTrigger } from '@/types/conversation.js';
+import type { ConversationEscalatedEvent } from '@/types/events.js';
+import { createLogger } from '@/utils/logger.js';
+import { addDays, localDateTime, now, zonedDateTimeToUtc } from '@/utils/time.js';
+
+const log = createLogger('handoff-summary');
+
+// ===================
+// Types
+// ===================
+
+export interface HandoffRunResult {
+  /** Most recent shift change at or before the run, null when none are configured */
+  shiftChange: string | null;
+  refreshed: number;
+  failed: number;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** Used when the hotel profile does not set shift change times */
+const DEFAULT_SHIFT_CHANGE_TIMES = ['07:00', '15:00', '23:00'];
+
+/** Most recent messages the summary is written from */
+const TRANSCRIPT_LIMIT = 60;
+
+const OPEN_TASK_STATUSES = ['pending', 'assigned', 'in_progress'];
+
+const SUMMARY_SYSTEM_PROMPT = `You write handoff notes for hotel staff taking over a guest conversation from a colleague or the AI assistant.
+
+Read the conversation and return:
+- "guestWants": one or two sentences on what the guest currently wants or is unhappy about
+- "promised": each commitment made to the guest (by staff or by Jack, the AI assistant) that staff must honour — times, compensation, callbacks, items to deliver. Short phrases, empty if none.
+
+Lines marked "Staff note" are internal notes between staff; the guest never saw them, so they are context, not promises.
+
+Tasks already logged for staff are listed separately; do not repeat them as promises.
+
+Return ONLY a JSON object: {"guestWants": "...", "promised": ["..."]} — no explanation, no markdown, no code fences.`;
+
+// ===================
+// Helpers
+// ===================
+
+/**
+ * Strips markdown code fences the AI sometimes wraps around JSON output.
+ */
+function stripCodeFences(raw: string): string {
+  return raw
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/i, '')
+    .trim();
+}
+
+function parseSummary(raw: string): { guestWants: string; promised: string[] } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFences(raw));
+  } catch {
+    return null;
+  }
+  const { guestWants, promised } = (parsed ?? {}) as Record<string, unknown>;
+  if (typeof guestWants !== 'string' || !guestWants.trim()) return null;
+  return {
+    guestWants: guestWants.trim(),
+    promised: Array.isArray(promised)
+      ? promised.filter((p): p is string => typeof p === 'string' && p.trim() !== '').map((p) => p.trim())
+      : [],
+  };
+}
+
+/** Transcript in the property language; inbound turns use their translation */
+function formatTranscript(history: Message[]): string {
+  const speakers: Record<string, string> = { guest: 'Guest', ai: 'Jack', staff: 'Staff' };
+  return history
+    .filter((m) => m.senderType !== 'system')
+    .map((m) => {
+      const speaker = m.direction === 'internal' ? 'Staff note' : speakers[m.senderType] ?? 'Hotel';
+      return `${speaker}: ${m.translatedContent ?? m.content}`;
+    })
+    .join('\n');
+}
+
+function formatTask(task: Task): string {
+  const where = task.roomNumber ? `${task.department}, room ${task.roomNumber}` : task.department;
+  return `${task.description} (${where}, ${task.status.replace('_', ' ')})`;
+}
+
+/**
+ * Plain-text rendering of a summary, as appended to task descriptions
+ */
+export function formatHandoffSummary(summary: HandoffSummary): string {
+  const lines = ['Handoff summary:', `Guest wants: ${summary.guestWants}`];
+  if (summary.promised.length > 0) lines.push(`Promised: ${summary.promised.join('; ')}`);
+  if (summary.openTasks.length > 0) lines.push(`Open tasks: ${summary.openTasks.join('; ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * The latest shift change at or before `at`, as a UTC ISO string
+ */
+function lastShiftChange(times: string[], timeZone: string, at: Date): string | null {
+  const { date: today } = localDateTime(timeZone, at);
+  let latest: string | null = null;
+  for (const date of [addDays(today, -1), today]) {
+    for (const time of times) {
+      const change = zonedDateTimeToUtc(date, time, timeZone);
+      if (Date.parse(change) <= at.getTime() && (!latest || change > latest)) {
+        latest = change;
+      }
+    }
+  }
+  return latest;
+}
+
+// ===================
+// Service
+// ===================
+
+export class HandoffSummaryService {
+  /**
+   * The stored summary for a conversation, if one has been written
+   */
+  async get(conversationId: string): Promise<HandoffSummary | null> {
+    const [row] = await db
+      .select({ handoffSummary: conversations.handoffSummary })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+    return row?.handoffSummary ? JSON.parse(row.handoffSummary) : null;
+  }
+
+  /**
+   * Rewrite the summary from the conversation's messages and open tasks
+   */
+  async refresh(conversationId: string, trigger: HandoffSummaryTrigger): Promise<HandoffSummary> {
+    await conversationService.getById(conversationId);
+
+    const provider = getAppRegistry().getActiveAIProvider();
+    if (!provider) {
+      throw new ValidationError('No active AI provider configured');
+    }
+
+    const history = (
+      await db
+        .select()
+        .from(messages)
+        .where(eq(messages.conversationId, conversationId))
+        .orderBy(desc(messages.createdAt))
+        .limit(TRANSCRIPT_LIMIT)
+    ).reverse();
+    const transcript = formatTranscript(history);
+    if (!transcript) {
+      throw new ValidationError('Conversation has no messages to summarize');
+    }
+
+    const openTasks = (
+      await db
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.conversationId, conversationId), inArray(tasks.status, OPEN_TASK_STATUSES)))
+        .orderBy(asc(tasks.createdAt))
+    ).map(formatTask);
+
+    const response = await provider.complete({
+      messages: [
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content:
+            `Here is the conversation:\n\n${transcript}\n\n` +
+            `Tasks already logged: ${openTasks.length > 0 ? openTasks.join('; ') : 'none'}\n\n` +
+            'Write the handoff note as JSON.',
+        },
+      ],
+      modelTier: 'utility',
+      temperature: 0.2,
+      maxTokens: 800,
+      purpose: 'handoff_summary',
+    });
+
+    const parsed = parseSummary(response.content);
+    if (!parsed) {
+      log.warn({ conversationId, raw: response.content }, 'Handoff summary response was not usable');
+      throw new AppError('The AI provider did not return a usable summary', 'AI_PROVIDER_ERROR', 502);
+    }
+
+    const summary: HandoffSummary = { ...parsed, openTasks, trigger, updatedAt: now() };
+    await db
+      .update(conversations)
+      .set({ handoffSummary: JSON.stringify(summary), handoffSummaryAt: summary.updatedAt })
+      .where(eq(conversations.id, conversationId));
+
+    log.info({ conversationId, trigger, promised: summary.promised.length, openTasks: openTasks.length }, 'Handoff summary refreshed');
+    return summary;
+  }
+
+  /**
+   * Refresh escalated conversations whose summary predates the latest
+   * shift change and that have had messages since
+   */
+  async runShiftHandoff(at: Date = new Date()): Promise<HandoffRunResult> {
+    const { profile } = await hotelProfileService.getProfile();
+    const times = profile.shiftChangeTimes ?? DEFAULT_SHIFT_CHANGE_TIMES;
+    const shiftChange = lastShiftChange(times, profile.timezone, at);
+    const result: HandoffRunResult = { shiftChange, refreshed: 0, failed: 0 };
+    if (!shiftChange || !getAppRegistry().getActiveAIProvider()) return result;
+
+    const stale = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.state, 'escalated'),
+          or(
+            isNull(conversations.handoffSummaryAt),
+            and(
+              lt(conversations.handoffSummaryAt, shiftChange),
+              sql`${conversations.lastMessageAt} > ${conversations.handoffSummaryAt}`
+            )
+          )
+        )
+      );
+
+    for (const { id } of stale) {
+      try {
+        await this.refresh(id, 'shift_change');
+        result.refreshed++;
+      } catch (err) {
+        result.failed++;
+        log.error({ err, conversationId: id }, 'Failed to refresh handoff summary');
+      }
+    }
+
+    if (result.refreshed + result.failed > 0) {
+      log.info({ ...result }, 'Shift handoff summaries refreshed');
+    }
+    return result;
+  }
+}
+
+export const handoffSummaryService = new HandoffSummaryService();
+
+/**
+ * Summarize conversations as they are escalated.
+ * Call once during server startup after the database is ready.
+ */
+export function subscribeHandoffSummariesToEvents(): void {
+  events.on(EventTypes.CONVERSATION_ESCALATED, (event: ConversationEscalatedEvent) => {
+    if (!getAppRegistry().getActiveAIProvider()) return;
+    // Fire-and-forget — the escalation itself must not wait on the AI
+    handoffSummaryService.refresh(event.conversationId, 'escalation').catch((err) => {
+      log.error({ err, conversationId: event.conversationId }, 'Failed to summarize escalated conversation');
+    });
+  });
+
+  log.info('Handoff summaries subscribed to CONVERSATION_ESCALATED');
+}
@@ -9,6 +9,7 @@
  */
 
 import { settingsService } from '@/services/settings.js';
+import { responseCacheService } from '@/services/response-cache.js';
 import { createLogger } from '@/utils/logger.js';
 
 const log = createLogger('hotel-profile');
@@ -33,6 +34,13 @@ export interface HotelProfile {
   currency: string;
   checkInTime: string;
   checkOutTime: string;
+  /** Scheduled guest messages are held back between these local times (HH:MM) */
+  quietHoursStart?: string | undefined;
+  quietHoursEnd?: string | undefined;
+  /** Local times (HH:MM) staff shifts change; escalated conversations get a fresh handoff summary */
+  shiftChangeTimes?: string[] | undefined;
+  /** The AI reads a conversation's internal staff notes as guidance */
+  staffNotesForAi?: boolean | undefined;
   totalRooms?: number | undefined;
   propertyLanguage: string;
   contactPhone?: string | undefined;
@@ -522,6 +530,8 @@ export class HotelProfileService {
     await settingsService.set(SETTINGS_KEY, profile);
     // Dual-write property_language as standalone setting for translation service
     await settingsService.set('property_language', profile.propertyLanguage);
+    // Cached answers may quote profile facts (check-in times, address)
+    responseCacheService.clear();
 
     log.info({ hotelName: profile.name }, 'Hotel profile updated');
 
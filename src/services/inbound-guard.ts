@@ -0,0 +1,267 @@
+/**
+ * Inbound Guard Service
+ *
+ * Decides whether an inbound WhatsApp, SMS or Telegram message goes through
+ * the AI pipeline. Messages from blocked guests are dropped. Repeats of the
+ * same text (flooding), messages over a per-sender or per-channel rate
+ * limit, and messages from a sender who has used up their daily AI reply
+ * budget are held: stored in the conversation without an AI call so staff
+ * can still read and answer them.
+ *
+ * Counts come from the messages table, so limits hold across restarts and
+ * held messages count towards the sender's rate. Limits are stored in the
+ * settings table under `inbound_limits`, following the same key-value
+ * pattern as task_sla and hotel_profile.
+ *
+ * @module services/inbound-guard
+ */
+
+import { and, eq, gte, inArray, sql } from 'drizzle-orm';
+import { db, conversations, guests, messages } from '@/db/index.js';
+import type { Guest } from '@/db/schema.js';
+import { recordInbound } from '@/pipeline/index.js';
+import { writeActivityLog } from '@/services/activity-log.js';
+import { conversationService } from '@/services/conversation.js';
+import { guestService } from '@/services/guest.js';
+import type { InboundMessage } from '@/types/message.js';
+import { createLogger } from '@/utils/logger.js';
+import { settingsService } from './settings.js';
+
+const log = createLogger('inbound-guard');
+
+const SETTINGS_KEY = 'inbound_limits';
+
+/** Window in which identical messages count as a flood */
+const FLOOD_WINDOW_MS = 10 * 60_000;
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// ===================
+// Types
+// ===================
+
+/** Each limit is a maximum; 0 turns that check off */
+export interface InboundLimitSettings {
+  enabled: boolean;
+  /** Messages one sender may send per minute before being held */
+  perSenderPerMinute: number;
+  /** Messages one sender may send per hour before being held */
+  perSenderPerHour: number;
+  /** Messages one channel may receive per minute, across all senders */
+  perChannelPerMinute: number;
+  /** Identical messages allowed within 10 minutes; further repeats are held */
+  floodRepeats: number;
+  /** AI replies per sender in the last 24 hours before messages go to staff only */
+  dailyAiRepliesPerSender: number;
+}
+
+export type InboundHoldReason = 'flood' | 'sender_rate' | 'channel_rate' | 'ai_budget';
+export type InboundDropReason = 'blocked';
+
+export type InboundAdmission =
+  | { action: 'process' }
+  | { action: 'hold'; reason: InboundHoldReason; conversationId: string; messageId: string }
+  | { action: 'drop'; reason: InboundDropReason };
+
+const DEFAULT_INBOUND_LIMIT_SETTINGS: InboundLimitSettings = {
+  enabled: true,
+  perSenderPerMinute: 6,
+  perSenderPerHour: 40,
+  perChannelPerMinute: 60,
+  floodRepeats: 3,
+  dailyAiRepliesPerSender: 50,
+};
+
+// ===================
+// Service
+// ===================
+
+export class InboundGuardService {
+  /**
+   * Get limit settings (merged with defaults)
+   */
+  async getSettings(): Promise<InboundLimitSettings> {
+    const stored = await settingsService.get<Partial<InboundLimitSettings>>(SETTINGS_KEY, {});
+    return { ...DEFAULT_INBOUND_LIMIT_SETTINGS, ...stored };
+  }
+
+  /**
+   * Update limit settings (partial update)
+   */
+  async updateSettings(input: Partial<InboundLimitSettings>): Promise<InboundLimitSettings> {
+    const current = await settingsService.get<Partial<InboundLimitSettings>>(SETTINGS_KEY, {});
+    await settingsService.set(SETTINGS_KEY, { ...current, ...input });
+
+    log.info({ changes: Object.keys(input) }, 'Inbound limit settings updated');
+
+    return this.getSettings();
+  }
+
+  /**
+   * Check an inbound message before it reaches the pipeline. Held messages
+   * are stored here; the caller only runs `processMessage` on `process`.
+   * The block list applies even when limits are turned off.
+   */
+  async admit(inbound: InboundMessage, at: Date = new Date()): Promise<InboundAdmission> {
+    const conversationIds = await this.senderConversationIds(inbound);
+
+    const guest = await this.findSender(inbound, conversationIds);
+    if (guest?.blockedAt) {
+      return this.drop(inbound, 'blocked', { guestId: guest.id });
+    }
+
+    const settings = await this.getSettings();
+    if (!settings.enabled) return { action: 'process' };
+
+    const since = (ms: number) => new Date(at.getTime() - ms).toISOString();
+
+    if (settings.floodRepeats > 0 && inbound.content.trim()) {
+      const repeats = await this.countSenderMessages(conversationIds, since(FLOOD_WINDOW_MS), inbound.content);
+      if (repeats >= settings.floodRepeats) {
+        return this.hold(inbound, 'flood', { repeats });
+      }
+    }
+
+    if (settings.perSenderPerMinute > 0) {
+      const count = await this.countSenderMessages(conversationIds, since(MINUTE_MS));
+      if (count >= settings.perSenderPerMinute) {
+        return this.hold(inbound, 'sender_rate', { count, window: 'minute' });
+      }
+    }
+
+    if (settings.perSenderPerHour > 0) {
+      const count = await this.countSenderMessages(conversationIds, since(HOUR_MS));
+      if (count >= settings.perSenderPerHour) {
+        return this.hold(inbound, 'sender_rate', { count, window: 'hour' });
+      }
+    }
+
+    if (settings.perChannelPerMinute > 0) {
+      const [row] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(
+          and(
+            eq(conversations.channelType, inbound.channel),
+            eq(messages.direction, 'inbound'),
+            gte(messages.createdAt, since(MINUTE_MS))
+          )
+        );
+      const count = row?.count ?? 0;
+      if (count >= settings.perChannelPerMinute) {
+        return this.hold(inbound, 'channel_rate', { count });
+      }
+    }
+
+    if (settings.dailyAiRepliesPerSender > 0 && conversationIds.length > 0) {
+      const [row] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(messages)
+        .where(
+          and(
+            inArray(messages.conversationId, conversationIds),
+            eq(messages.senderType, 'ai'),
+            gte(messages.createdAt, since(DAY_MS))
+          )
+        );
+      const aiReplies = row?.count ?? 0;
+      if (aiReplies >= settings.dailyAiRepliesPerSender) {
+        const held = await this.hold(inbound, 'ai_budget', { aiReplies });
+        await this.escalateForStaff(held.conversationId);
+        return held;
+      }
+    }
+
+    return { action: 'process' };
+  }
+
+  private async senderConversationIds(inbound: InboundMessage): Promise<string[]> {
+    const rows = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(eq(conversations.channelType, inbound.channel), eq(conversations.channelId, inbound.channelId)));
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * The guest behind the sender: by phone number on phone channels,
+   * otherwise the guest linked to one of the sender's conversations
+   */
+  private async findSender(inbound: InboundMessage, conversationIds: string[]): Promise<Guest | null> {
+    if (inbound.channel === 'whatsapp' || inbound.channel === 'sms') {
+      const guest = await guestService.findByPhone(inbound.channelId);
+      if (guest) return guest;
+    }
+    if (conversationIds.length === 0) return null;
+
+    const [row] = await db
+      .select({ guest: guests })
+      .from(conversations)
+      .innerJoin(guests, eq(conversations.guestId, guests.id))
+      .where(inArray(conversations.id, conversationIds))
+      .limit(1);
+    return row?.guest ?? null;
+  }
+
+  private async countSenderMessages(conversationIds: string[], since: string, content?: string): Promise<number> {
+    if (conversationIds.length === 0) return 0;
+    const [row] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(messages)
+      .where(
+        and(
+          inArray(messages.conversationId, conversationIds),
+          eq(messages.direction, 'inbound'),
+          gte(messages.createdAt, since),
+          content !== undefined ? eq(messages.content, content) : undefined
+        )
+      );
+    return row?.count ?? 0;
+  }
+
+  private drop(
+    inbound: InboundMessage,
+    reason: InboundDropReason,
+    details: Record<string, unknown>
+  ): InboundAdmission {
+    log.warn({ channel: inbound.channel, channelId: inbound.channelId, reason, ...details }, 'Inbound message dropped');
+    writeActivityLog(inbound.channel, 'inbound.dropped', 'success', undefined, undefined, undefined, {
+      reason,
+      channelId: inbound.channelId,
+      ...details,
+    });
+    return { action: 'drop', reason };
+  }
+
+  private async hold(
+    inbound: InboundMessage,
+    reason: InboundHoldReason,
+    details: Record<string, unknown>
+  ): Promise<{ action: 'hold'; reason: InboundHoldReason; conversationId: string; messageId: string }> {
+    const { conversationId, messageId } = await recordInbound(inbound);
+    log.warn({ channel: inbound.channel, conversationId, reason, ...details }, 'Inbound message held for staff');
+    writeActivityLog(inbound.channel, 'inbound.held', 'success', conversationId, undefined, undefined, {
+      reason,
+      messageId,
+      ...details,
+    });
+    return { action: 'hold', reason, conversationId, messageId };
+  }
+
+  /**
+   * Put a conversation in front of staff once the AI stops answering it
+   */
+  private async escalateForStaff(conversationId: string): Promise<void> {
+    const conversation = await conversationService.getById(conversationId);
+    if (conversation.state === 'escalated') return;
+    await conversationService.update(conversationId, {
+      state: 'escalated',
+      _escalation: { reasons: ['ai_budget'], priority: 'standard' },
+    });
+  }
+}
+
+export const inboundGuardService = new InboundGuardService();
@@ -0,0 +1,546 @@
+/**
+ * Knowledge Document Service
+ *
+ * Bulk-imports uploaded documents (PDF, DOCX, Markdown, CSV) into the
+ * knowledge base. Import is two-step, like the site scraper: `parse` extracts
+ * text, splits it into heading-aware chunks and flags duplicates for staff to
+ * review; `importEntries` stores the reviewed entries.
+ *
+ * Entries keep a `document:<filename>` reference in `source_url`, so importing
+ * a new version of a document replaces the chunks of the previous one.
+ */
+
+import { and, eq, like, sql } from 'drizzle-orm';
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import { extractText } from 'unpdf';
+import { db, knowledgeBase } from '@/db/index.js';
+import { ValidationError } from '@/errors/index.js';
+import type { AIProvider as LLMProvider } from '@jackthebutler/shared';
+import type { AIExtractedEntry, KnowledgeCategory } from '@/apps/tools/site-scraper/index.js';
+import { deduplicateEntries, type DuplicatePair } from '@/apps/tools/site-scraper/deduplicator.js';
+import { generateQAPairs, type GeneratedQA } from '@/apps/tools/site-scraper/qa-generator.js';
+import { createLogger } from '@/utils/logger.js';
+import { KnowledgeService } from './knowledge.js';
+
+const log = createLogger('knowledge-documents');
+
+// ===================
+// Types
+// ===================
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'csv';
+
+/**
+ * A run of document text under one heading trail
+ */
+export interface DocumentSection {
+  /** Enclosing headings, outermost first */
+  headings: string[];
+  text: string;
+}
+
+/**
+ * An uploaded file
+ */
+export interface DocumentUpload {
+  filename: string;
+  mimeType?: string | undefined;
+  data: Uint8Array;
+}
+
+export interface ParseDocumentOptions {
+  /** Category assigned to every proposed entry (editable during review) */
+  category?: KnowledgeCategory | undefined;
+  /** Also generate guest Q&A pairs for the proposed entries */
+  generateQa?: boolean | undefined;
+}
+
+export interface ParsedDocument {
+  document: {
+    filename: string;
+    format: DocumentFormat;
+    sourceRef: string;
+  };
+  entries: AIExtractedEntry[];
+  duplicates: DuplicatePair[];
+  qaPairs: GeneratedQA[];
+  /** Entries from a previous upload of the same document, replaced on import */
+  existingEntryCount: number;
+}
+
+export interface DocumentImportInput {
+  sourceRef: string;
+  entries: Array<{
+    category: string;
+    title: string;
+    content: string;
+    keywords: string[];
+    priority: number;
+  }>;
+  qaPairs?: Array<{ question: string; answer: string; entryIndex: number }> | undefined;
+}
+
+export interface DocumentImportResult {
+  imported: number;
+  replaced: number;
+}
+
+export interface KnowledgeDocument {
+  sourceRef: string;
+  filename: string;
+  entryCount: number;
+  lastImportedAt: string;
+}
+
+// ===================
+// Constants
+// ===================
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+/** Soft limit for a chunk; paragraphs are packed up to this size */
+const MAX_CHUNK_CHARS = 1500;
+
+const SOURCE_PREFIX = 'document:';
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/csv': 'csv',
+};
+
+// ===================
+// Service
+// ===================
+
+export class KnowledgeDocumentService {
+  /**
+   * Extract, chunk and de-duplicate a document into proposed entries.
+   * Nothing is written to the knowledge base.
+   */
+  async parse(upload: DocumentUpload, options: ParseDocumentOptions = {}): Promise<ParsedDocument> {
+    const format = detectDocumentFormat(upload.filename, upload.mimeType);
+    if (!format) {
+      throw new ValidationError('Unsupported document type. Upload a PDF, DOCX, Markdown or CSV file.');
+    }
+    if (upload.data.byteLength > MAX_DOCUMENT_BYTES) {
+      throw new ValidationError(`Document exceeds the ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB limit`);
+    }
+
+    const sections = await extractDocumentSections(upload.data, format);
+    const title = documentTitle(upload.filename);
+    const category = options.category ?? 'other';
+
+    const entries: AIExtractedEntry[] = chunkDocumentSections(sections, title).map((chunk) => ({
+      title: chunk.title,
+      content: chunk.content,
+      category,
+      keywords: chunk.keywords,
+      confidence: 1,
+    }));
+
+    if (entries.length === 0) {
+      throw new ValidationError('No text could be extracted from this document');
+    }
+
+    const sourceRef = documentSourceRef(upload.filename);
+    const { duplicates } = await deduplicateEntries(entries, { excludeSourceUrl: sourceRef });
+    const qaPairs = options.generateQa ? await generateQAPairs(entries) : [];
+
+    log.info({ filename: upload.filename, format, entryCount: entries.length }, 'Document parsed');
+
+    return {
+      document: { filename: upload.filename, format, sourceRef },
+      entries,
+      duplicates,
+      qaPairs,
+      existingEntryCount: await this.countEntries(sourceRef),
+    };
+  }
+
+  /**
+   * Store reviewed entries, then remove whatever the previous version of the
+   * document left behind. New entries go in first so a failed import never
+   * leaves the document missing from the knowledge base.
+   */
+  async importEntries(input: DocumentImportInput, embeddingProvider?: LLMProvider): Promise<DocumentImportResult> {
+    if (!input.sourceRef.startsWith(SOURCE_PREFIX)) {
+      throw new ValidationError('Invalid document reference');
+    }
+
+    const previous = await db
+      .select({ id: knowledgeBase.id })
+      .from(knowledgeBase)
+      .where(eq(knowledgeBase.sourceUrl, input.sourceRef))
+      .all();
+
+    const knowledgeService = new KnowledgeService(embeddingProvider);
+    const qaEntries = (input.qaPairs ?? []).map((qa) => ({
+      category: 'faq',
+      title: qa.question,
+      content: `Q: ${qa.question}\nA: ${qa.answer}`,
+      keywords: [],
+      priority: 8,
+    }));
+
+    for (const entry of [...input.entries, ...qaEntries]) {
+      await knowledgeService.add({
+        category: entry.category,
+        title: entry.title,
+        content: entry.content,
+        keywords: JSON.stringify(entry.keywords),
+        priority: entry.priority,
+        status: 'active',
+        sourceUrl: input.sourceRef,
+      });
+    }
+
+    for (const { id } of previous) {
+      await knowledgeService.delete(id);
+    }
+
+    const imported = input.entries.length + qaEntries.length;
+    log.info({ sourceRef: input.sourceRef, imported, replaced: previous.length }, 'Document imported');
+    return { imported, replaced: previous.length };
+  }
+
+  /**
+   * List imported documents with their active entry counts
+   */
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    const rows = await db
+      .select({
+        sourceRef: knowledgeBase.sourceUrl,
+        entryCount: sql<number>`count(*)`,
+        lastImportedAt: sql<string>`max(${knowledgeBase.createdAt})`,
+      })
+      .from(knowledgeBase)
+      .where(and(like(knowledgeBase.sourceUrl, `${SOURCE_PREFIX}%`), eq(knowledgeBase.status, 'active')))
+      .groupBy(knowledgeBase.sourceUrl)
+      .orderBy(sql`max(${knowledgeBase.createdAt}) DESC`)
+      .all();
+
+    return rows.map((row) => ({
+      sourceRef: row.sourceRef!,
+      filename: row.sourceRef!.slice(SOURCE_PREFIX.length),
+      entryCount: row.entryCount,
+      lastImportedAt: row.lastImportedAt,
+    }));
+  }
+
+  private async countEntries(sourceRef: string): Promise<number> {
+    const row = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(knowledgeBase)
+      .where(eq(knowledgeBase.sourceUrl, sourceRef))
+      .get();
+    return row?.count ?? 0;
+  }
+}
+
+export const knowledgeDocumentService = new KnowledgeDocumentService();
+
+// ===================
+// Extraction
+// ===================
+
+/**
+ * Work out the document format from its extension, falling back to MIME type
+ */
+export function detectDocumentFormat(filename: string, mimeType?: string): DocumentFormat | null {
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+  return EXTENSIONS[extension] ?? (mimeType ? MIME_TYPES[mimeType.split(';')[0]!.trim()] : undefined) ?? null;
+}
+
+/**
+ * Source reference stored on entries imported from a document. Keyed on the
+ * filename so re-uploading the same file replaces its entries.
+ */
+export function documentSourceRef(filename: string): string {
+  return `${SOURCE_PREFIX}${filename.trim().toLowerCase()}`;
+}
+
+/**
+ * Extract text from a document as sections under their heading trail
+ */
+export async function extractDocumentSections(data: Uint8Array, format: DocumentFormat): Promise<DocumentSection[]> {
+  switch (format) {
+    case 'pdf': {
+      // pdf.js detaches the buffer it is given, so hand it a copy
+      const { text } = await extractText(new Uint8Array(data), { mergePages: false });
+      return textSections(text.join('\n\n'));
+    }
+    case 'docx': {
+      const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+      return htmlSections(value);
+    }
+    case 'markdown':
+      return markdownSections(new TextDecoder().decode(data));
+    case 'csv':
+      return csvSections(new TextDecoder().decode(data));
+  }
+}
+
+/**
+ * Markdown: ATX headings (`#`..`######`) open a new section
+ */
+function markdownSections(markdown: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let headings: string[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) sections.push({ headings, text });
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      headings = [...headings.slice(0, heading[1]!.length - 1), heading[2]!];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * HTML (from DOCX): h1-h6 open a new section; tables become one row per line
+ */
+function htmlSections(html: string): DocumentSection[] {
+  const $ = cheerio.load(html);
+  const sections: DocumentSection[] = [];
+  let headings: string[] = [];
+  let blocks: string[] = [];
+
+  const flush = () => {
+    const text = blocks.join('\n\n').trim();
+    if (text) sections.push({ headings, text });
+    blocks = [];
+  };
+
+  $('body')
+    .children()
+    .each((_, el) => {
+      const node = $(el);
+      const tag = el.tagName.toLowerCase();
+      const level = /^h([1-6])$/.exec(tag)?.[1];
+
+      if (level) {
+        flush();
+        const text = node.text().trim();
+        if (text) headings = [...headings.slice(0, Number(level) - 1), text];
+      } else if (tag === 'table') {
+        const rows = node
+          .find('tr')
+          .map((_, tr) =>
+            $(tr)
+              .find('th, td')
+              .map((_, cell) => $(cell).text().trim())
+              .get()
+              .join(' | ')
+          )
+          .get();
+        blocks.push(rows.join('\n'));
+      } else if (tag === 'ul' || tag === 'ol') {
+        blocks.push(
+          node
+            .find('li')
+            .map((_, li) => `- ${$(li).text().trim()}`)
+            .get()
+            .join('\n')
+        );
+      } else {
+        const text = node.text().trim();
+        if (text) blocks.push(text);
+      }
+    });
+  flush();
+
+  return sections;
+}
+
+/**
+ * Plain text (from PDF): PDFs carry no heading markup, so only short
+ * all-caps lines ("BREAKFAST", "HOUSE RULES") are treated as headings
+ */
+function textSections(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let headings: string[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const body = lines.join('\n').trim();
+    if (body) sections.push({ headings, text: body });
+    lines = [];
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (isCapsHeading(line)) {
+      flush();
+      headings = [line];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+function isCapsHeading(line: string): boolean {
+  return line.length >= 3 && line.length <= 60 && /\p{Lu}/u.test(line) && line === line.toUpperCase() && !/[.,;]$/.test(line);
+}
+
+/**
+ * CSV: one "Column: value" line per row, so each row stays readable on its own
+ */
+function csvSections(csv: string): DocumentSection[] {
+  const [header, ...rows] = parseCsv(csv).filter((row) => row.some((cell) => cell.trim()));
+  if (!header) return [];
+
+  const lines = rows.map((row) =>
+    header
+      .map((column, i) => [column.trim(), row[i]?.trim() ?? ''] as const)
+      .filter(([, value]) => value)
+      .map(([column, value]) => (column ? `${column}: ${value}` : value))
+      .join('; ')
+  );
+
+  // Rows are separate paragraphs so chunking packs whole rows
+  return lines.length > 0 ? [{ headings: [], text: lines.join('\n\n') }] : [];
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]!;
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ===================
+// Chunking
+// ===================
+
+/**
+ * Split sections into entry-sized chunks. Paragraphs are packed up to
+ * MAX_CHUNK_CHARS; the heading trail becomes the title, numbered when a
+ * section spans several chunks.
+ */
+export function chunkDocumentSections(
+  sections: DocumentSection[],
+  documentTitle: string
+): Array<{ title: string; content: string; keywords: string[] }> {
+  const chunks: Array<{ title: string; content: string; keywords: string[] }> = [];
+
+  for (const section of sections) {
+    const paragraphs = section.text
+      .split(/\n\s*\n/)
+      .map((p) => p.trim())
+      .filter(Boolean)
+      .flatMap(splitLongParagraph);
+
+    const packed: string[] = [];
+    let current = '';
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+        packed.push(current);
+        current = paragraph;
+      } else {
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      }
+    }
+    if (current) packed.push(current);
+
+    const baseTitle = section.headings.length > 0 ? section.headings.join(' › ') : documentTitle;
+    const keywords = [...new Set(section.headings.map((h) => h.toLowerCase()))];
+    packed.forEach((content, i) => {
+      chunks.push({
+        title: packed.length > 1 ? `${baseTitle} (${i + 1}/${packed.length})` : baseTitle,
+        content,
+        keywords,
+      });
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Break an oversized paragraph on sentence boundaries
+ */
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_CHUNK_CHARS) return [paragraph];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [paragraph]) {
+    if (current && current.length + sentence.length > MAX_CHUNK_CHARS) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Human-readable title from a filename: "house-rules_2026.docx" -> "House rules 2026"
+ */
+function documentTitle(filename: string): string {
+  const base = filename.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+  return base ? base.charAt(0).toUpperCase() + base.slice(1) : filename;
+}
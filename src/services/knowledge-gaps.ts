@@ -0,0 +1,399 @@
+/**
+ * Knowledge Gap Service
+ *
+ * Collects guest questions the knowledge base could not answer — retrieval
+ * found nothing above the similarity floor, or the AI tagged its reply as
+ * unanswered — and groups similar ones so staff can see which missing
+ * entries matter most.
+ *
+ * The pipeline only records gaps; a scheduled job clusters them by
+ * embedding similarity (exact normalized text when no embedding is
+ * available). A question landing in a resolved cluster reopens it, since
+ * the entry written for it evidently didn't cover the question.
+ *
+ * @module services/knowledge-gaps
+ */
+
+import { desc, eq, inArray, isNull } from 'drizzle-orm';
+import { db, knowledgeGaps, knowledgeGapClusters } from '@/db/index.js';
+import type { KnowledgeGapCluster } from '@/db/schema.js';
+import { NotFoundError } from '@/errors/index.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+import { searchTerms } from './knowledge.js';
+
+const log = createLogger('knowledge-gaps');
+
+// ===================
+// Types
+// ===================
+
+export type KnowledgeGapReason = 'no_match' | 'unanswered';
+
+export type KnowledgeGapStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface RecordGapInput {
+  /** Guest question in the property language */
+  question: string;
+  reason: KnowledgeGapReason;
+  intent?: string | undefined;
+  topSimilarity?: number | undefined;
+  embedding?: readonly number[] | undefined;
+  conversationId?: string | undefined;
+}
+
+export interface KnowledgeGapSummary {
+  id: string;
+  question: string;
+  intent: string | null;
+  gapCount: number;
+  status: KnowledgeGapStatus;
+  knowledgeId: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Most recent distinct member questions */
+  sampleQuestions: string[];
+}
+
+/** Pre-filled values for a new knowledge base entry closing a gap */
+export interface KnowledgeGapDraft {
+  category: string;
+  title: string;
+  content: string;
+  keywords: string[];
+  priority: number;
+}
+
+export interface ClusteringResult {
+  clustered: number;
+  clustersCreated: number;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** Questions this close to a cluster's centroid join it */
+const CLUSTER_SIMILARITY = 0.8;
+
+/** Unclustered gaps processed per job run */
+const CLUSTER_BATCH_SIZE = 500;
+
+const SAMPLE_QUESTIONS = 3;
+
+/** Knowledge base category suggested for a gap's intent */
+const CATEGORY_BY_INTENT: Record<string, string> = {
+  'inquiry.amenity': 'amenity',
+  'inquiry.wifi': 'amenity',
+  'inquiry.parking': 'amenity',
+  'inquiry.dining': 'dining',
+  'inquiry.location': 'local_info',
+  'inquiry.transport': 'local_info',
+  'inquiry.concierge': 'local_info',
+  'inquiry.accessibility': 'policy',
+  'inquiry.pet_policy': 'policy',
+  'inquiry.checkin': 'policy',
+  'inquiry.checkout': 'policy',
+};
+
+// ===================
+// Helpers
+// ===================
+
+function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toVector(blob: unknown): Float32Array | null {
+  if (!blob) return null;
+  // Copy — the driver's buffer may not start on a 4-byte boundary
+  return new Float32Array(new Uint8Array(blob as Buffer).buffer);
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Cluster state held in memory for the duration of one clustering run */
+interface WorkingCluster {
+  id: string;
+  normalized: string;
+  centroid: Float32Array | null;
+  gapCount: number;
+  status: string;
+  isNew: boolean;
+  changed: boolean;
+  intent: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  question: string;
+}
+
+// ===================
+// Service
+// ===================
+
+export class KnowledgeGapService {
+  /**
+   * Record a question the knowledge base could not answer. Clustering
+   * happens later, in the scheduled job.
+   */
+  async record(input: RecordGapInput): Promise<void> {
+    const question = input.question.trim();
+    if (!question) return;
+
+    await db.insert(knowledgeGaps).values({
+      id: generateId('knowledgeGap'),
+      question,
+      reason: input.reason,
+      intent: input.intent ?? null,
+      topSimilarity: input.topSimilarity ?? null,
+      embedding: input.embedding?.length ? Buffer.from(new Float32Array(input.embedding).buffer) : null,
+      conversationId: input.conversationId ?? null,
+      createdAt: now(),
+    });
+  }
+
+  /**
+   * Assign unclustered gaps to the nearest cluster, creating new clusters
+   * for questions unlike any seen before. Member embeddings are folded into
+   * the cluster centroid and then dropped from the gap row.
+   */
+  async runClustering(): Promise<ClusteringResult> {
+    const pending = await db
+      .select()
+      .from(knowledgeGaps)
+      .where(isNull(knowledgeGaps.clusterId))
+      .orderBy(knowledgeGaps.createdAt)
+      .limit(CLUSTER_BATCH_SIZE);
+    if (pending.length === 0) return { clustered: 0, clustersCreated: 0 };
+
+    const clusters: WorkingCluster[] = (await db.select().from(knowledgeGapClusters)).map((c) => ({
+      id: c.id,
+      normalized: normalizeQuestion(c.question),
+      centroid: toVector(c.centroid),
+      gapCount: c.gapCount,
+      status: c.status,
+      isNew: false,
+      changed: false,
+      intent: c.intent,
+      firstSeenAt: c.firstSeenAt,
+      lastSeenAt: c.lastSeenAt,
+      question: c.question,
+    }));
+
+    const assignments = new Map<string, string[]>();
+    let clustersCreated = 0;
+
+    for (const gap of pending) {
+      const embedding = toVector(gap.embedding);
+      const normalized = normalizeQuestion(gap.question);
+      const cluster = this.nearestCluster(clusters, embedding, normalized);
+
+      if (cluster) {
+        if (embedding) {
+          cluster.centroid =
+            cluster.centroid && cluster.centroid.length === embedding.length
+              ? cluster.centroid.map((v, i) => (v * cluster.gapCount + embedding[i]!) / (cluster.gapCount + 1))
+              : Float32Array.from(embedding);
+        }
+        cluster.gapCount += 1;
+        cluster.lastSeenAt = gap.createdAt;
+        cluster.intent = gap.intent ?? cluster.intent;
+        if (cluster.status === 'resolved') cluster.status = 'open';
+        cluster.changed = true;
+        assignments.set(cluster.id, [...(assignments.get(cluster.id) ?? []), gap.id]);
+      } else {
+        const created: WorkingCluster = {
+          id: generateId('knowledgeGapCluster'),
+          normalized,
+          centroid: embedding ? Float32Array.from(embedding) : null,
+          gapCount: 1,
+          status: 'open',
+          isNew: true,
+          changed: true,
+          intent: gap.intent,
+          firstSeenAt: gap.createdAt,
+          lastSeenAt: gap.createdAt,
+          question: gap.question,
+        };
+        clusters.push(created);
+        assignments.set(created.id, [gap.id]);
+        clustersCreated++;
+      }
+    }
+
+    const timestamp = now();
+    db.transaction((tx) => {
+      for (const cluster of clusters.filter((c) => c.changed)) {
+        const values = {
+          centroid: cluster.centroid ? Buffer.from(cluster.centroid.buffer, cluster.centroid.byteOffset, cluster.centroid.byteLength) : null,
+          intent: cluster.intent,
+          gapCount: cluster.gapCount,
+          status: cluster.status,
+          lastSeenAt: cluster.lastSeenAt,
+          updatedAt: timestamp,
+        };
+        if (cluster.isNew) {
+          tx.insert(knowledgeGapClusters)
+            .values({ id: cluster.id, question: cluster.question, firstSeenAt: cluster.firstSeenAt, ...values })
+            .run();
+        } else {
+          tx.update(knowledgeGapClusters).set(values).where(eq(knowledgeGapClusters.id, cluster.id)).run();
+        }
+      }
+      for (const [clusterId, gapIds] of assignments) {
+        tx.update(knowledgeGaps)
+          .set({ clusterId, embedding: null })
+          .where(inArray(knowledgeGaps.id, gapIds))
+          .run();
+      }
+    });
+
+    log.info({ clustered: pending.length, clustersCreated }, 'Clustered knowledge gaps');
+    return { clustered: pending.length, clustersCreated };
+  }
+
+  /**
+   * List clusters by how often they were asked, most frequent first
+   */
+  async listClusters(options: { status?: KnowledgeGapStatus; limit?: number } = {}): Promise<KnowledgeGapSummary[]> {
+    const { status = 'open', limit = 20 } = options;
+
+    const clusters = await db
+      .select()
+      .from(knowledgeGapClusters)
+      .where(eq(knowledgeGapClusters.status, status))
+      .orderBy(desc(knowledgeGapClusters.gapCount), desc(knowledgeGapClusters.lastSeenAt))
+      .limit(limit);
+    if (clusters.length === 0) return [];
+
+    const members = await db
+      .select({ clusterId: knowledgeGaps.clusterId, question: knowledgeGaps.question })
+      .from(knowledgeGaps)
+      .where(
+        inArray(
+          knowledgeGaps.clusterId,
+          clusters.map((c) => c.id)
+        )
+      )
+      .orderBy(desc(knowledgeGaps.createdAt));
+
+    const samples = new Map<string, string[]>();
+    for (const member of members) {
+      const list = samples.get(member.clusterId!) ?? [];
+      if (list.length < SAMPLE_QUESTIONS && !list.some((q) => normalizeQuestion(q) === normalizeQuestion(member.question))) {
+        list.push(member.question);
+      }
+      samples.set(member.clusterId!, list);
+    }
+
+    return clusters.map((c) => this.toSummary(c, samples.get(c.id) ?? []));
+  }
+
+  /**
+   * Pre-fill a knowledge base entry for a gap: the representative question
+   * as title, a category guessed from the intent, and its key terms. The
+   * answer itself is left for staff to write.
+   */
+  async draftEntry(clusterId: string): Promise<KnowledgeGapDraft> {
+    const cluster = await this.getCluster(clusterId);
+
+    return {
+      category: (cluster.intent && CATEGORY_BY_INTENT[cluster.intent]) || 'faq',
+      title: cluster.question,
+      content: '',
+      keywords: searchTerms(cluster.question),
+      priority: 5,
+    };
+  }
+
+  /**
+   * Mark a gap as answered by a knowledge base entry
+   */
+  async resolve(clusterId: string, knowledgeId: string | null = null): Promise<KnowledgeGapSummary> {
+    return this.setStatus(clusterId, 'resolved', knowledgeId);
+  }
+
+  /**
+   * Dismiss or reopen a gap
+   */
+  async setStatus(
+    clusterId: string,
+    status: KnowledgeGapStatus,
+    knowledgeId: string | null = null
+  ): Promise<KnowledgeGapSummary> {
+    await this.getCluster(clusterId);
+
+    const [updated] = await db
+      .update(knowledgeGapClusters)
+      .set({ status, knowledgeId: status === 'resolved' ? knowledgeId : null, updatedAt: now() })
+      .where(eq(knowledgeGapClusters.id, clusterId))
+      .returning();
+
+    log.info({ clusterId, status, knowledgeId }, 'Knowledge gap status changed');
+    return this.toSummary(updated!, []);
+  }
+
+  private async getCluster(clusterId: string): Promise<KnowledgeGapCluster> {
+    const [cluster] = await db
+      .select()
+      .from(knowledgeGapClusters)
+      .where(eq(knowledgeGapClusters.id, clusterId))
+      .limit(1);
+    if (!cluster) {
+      throw new NotFoundError('KnowledgeGap', clusterId);
+    }
+    return cluster;
+  }
+
+  private nearestCluster(
+    clusters: WorkingCluster[],
+    embedding: Float32Array | null,
+    normalized: string
+  ): WorkingCluster | null {
+    let best: WorkingCluster | null = null;
+    let bestSimilarity = CLUSTER_SIMILARITY;
+
+    for (const cluster of clusters) {
+      if (cluster.normalized === normalized) return cluster;
+      if (!embedding || !cluster.centroid || cluster.centroid.length !== embedding.length) continue;
+
+      const similarity = cosineSimilarity(embedding, cluster.centroid);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+    return best;
+  }
+
+  private toSummary(cluster: KnowledgeGapCluster, sampleQuestions: string[]): KnowledgeGapSummary {
+    return {
+      id: cluster.id,
+      question: cluster.question,
+      intent: cluster.intent,
+      gapCount: cluster.gapCount,
+      status: cluster.status as KnowledgeGapStatus,
+      knowledgeId: cluster.knowledgeId,
+      firstSeenAt: cluster.firstSeenAt,
+      lastSeenAt: cluster.lastSeenAt,
+      sampleQuestions,
+    };
+  }
+}
+
+export const knowledgeGapService = new KnowledgeGapService();
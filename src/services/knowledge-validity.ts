@@ -0,0 +1,249 @@
+/**
+ * Knowledge Validity Service
+ *
+ * Time-bound knowledge entries: a validity window (`validFrom` /
+ * `validUntil`, hotel-local dates, inclusive) for one-off changes such as
+ * "pool closed for renovation until June", and a recurring schedule (days
+ * of the week, a yearly season) for things like a weekend brunch or the
+ * summer terrace. Entries outside their window or schedule stay `active`
+ * but are left out of retrieval.
+ *
+ * Dates are evaluated in the hotel timezone from the hotel profile. The
+ * scheduled check flags entries about to expire (`expiry_flagged_at`,
+ * `knowledge.expiring` event) and, when the local date changes, drops cached
+ * answers that an entry starting or stopping to apply may have made stale.
+ *
+ * @module services/knowledge-validity
+ */
+
+import { and, eq, gte, isNotNull, isNull, lte, or } from 'drizzle-orm';
+import { db, knowledgeBase } from '@/db/index.js';
+import type { KnowledgeItem } from '@/db/schema.js';
+import { ValidationError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { createLogger } from '@/utils/logger.js';
+import { addDays, localDateTime, now } from '@/utils/time.js';
+import { hotelProfileService } from './hotel-profile.js';
+import { responseCacheService } from './response-cache.js';
+
+const log = createLogger('knowledge-validity');
+
+// ===================
+// Types
+// ===================
+
+/**
+ * Recurring schedule for a knowledge entry. All set parts must match.
+ */
+export interface KnowledgeSchedule {
+  /** Days the entry applies, 0 = Sunday … 6 = Saturday */
+  daysOfWeek?: number[] | undefined;
+  /** Yearly season start (MM-DD, inclusive) */
+  seasonStart?: string | undefined;
+  /** Yearly season end (MM-DD, inclusive); before the start when the season spans new year */
+  seasonEnd?: string | undefined;
+}
+
+/**
+ * Where an entry stands today:
+ * - `in_effect` — retrievable
+ * - `scheduled` — `validFrom` is in the future
+ * - `expired` — `validUntil` has passed
+ * - `off_schedule` — inside its window but not on a scheduled day or season
+ */
+export type KnowledgeValidityState = 'in_effect' | 'scheduled' | 'expired' | 'off_schedule';
+
+type ValidityFields = Pick<KnowledgeItem, 'validFrom' | 'validUntil' | 'schedule'>;
+
+export interface ValidityCheckResult {
+  flagged: number;
+  invalidated: number;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** Entries expiring within this many days are flagged */
+export const EXPIRY_WARNING_DAYS = 7;
+
+const MONTH_DAY_RE = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// ===================
+// Helpers
+// ===================
+
+/**
+ * Parse a stored schedule; null when unset or unreadable
+ */
+export function parseSchedule(raw: string | null): KnowledgeSchedule | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as KnowledgeSchedule;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reject schedules and windows that could never apply
+ */
+export function validateValidity(
+  validFrom: string | null | undefined,
+  validUntil: string | null | undefined,
+  schedule: KnowledgeSchedule | null | undefined
+): void {
+  if (validFrom && validUntil && validFrom > validUntil) {
+    throw new ValidationError('validFrom must be on or before validUntil');
+  }
+  if (!schedule) return;
+
+  if (schedule.daysOfWeek && (schedule.daysOfWeek.length === 0 || schedule.daysOfWeek.some((d) => d < 0 || d > 6))) {
+    throw new ValidationError('daysOfWeek must list days from 0 (Sunday) to 6 (Saturday)');
+  }
+  if (Boolean(schedule.seasonStart) !== Boolean(schedule.seasonEnd)) {
+    throw new ValidationError('A season needs both seasonStart and seasonEnd');
+  }
+  for (const value of [schedule.seasonStart, schedule.seasonEnd]) {
+    if (value && !MONTH_DAY_RE.test(value)) {
+      throw new ValidationError(`Invalid season date: ${value} (expected MM-DD)`);
+    }
+  }
+}
+
+function matchesSchedule(schedule: KnowledgeSchedule, date: string): boolean {
+  if (schedule.daysOfWeek?.length) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (!schedule.daysOfWeek.includes(weekday)) return false;
+  }
+
+  const { seasonStart, seasonEnd } = schedule;
+  if (seasonStart && seasonEnd) {
+    const monthDay = date.slice(5);
+    const inSeason =
+      seasonStart <= seasonEnd
+        ? monthDay >= seasonStart && monthDay <= seasonEnd
+        : monthDay >= seasonStart || monthDay <= seasonEnd;
+    if (!inSeason) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Where an entry stands on a hotel-local date (YYYY-MM-DD)
+ */
+export function validityState(entry: ValidityFields, date: string): KnowledgeValidityState {
+  if (entry.validFrom && date < entry.validFrom) return 'scheduled';
+  if (entry.validUntil && date > entry.validUntil) return 'expired';
+
+  const schedule = parseSchedule(entry.schedule);
+  if (schedule && !matchesSchedule(schedule, date)) return 'off_schedule';
+
+  return 'in_effect';
+}
+
+/**
+ * Whether an entry applies on a hotel-local date (YYYY-MM-DD)
+ */
+export function isInEffect(entry: ValidityFields, date: string): boolean {
+  return validityState(entry, date) === 'in_effect';
+}
+
+/**
+ * Today's date in the hotel timezone
+ */
+export async function hotelToday(at: Date = new Date()): Promise<string> {
+  const { profile } = await hotelProfileService.getProfile();
+  return localDateTime(profile.timezone, at).date;
+}
+
+// ===================
+// Service
+// ===================
+
+export class KnowledgeValidityService {
+  /** Hotel-local date of the previous check, to spot day changes */
+  private lastCheckedDate: string | null = null;
+
+  /**
+   * Flag entries about to expire and, on a new local day, drop cached
+   * answers affected by entries starting or stopping to apply. Called by
+   * the scheduler.
+   */
+  async runChecks(at: Date = new Date()): Promise<ValidityCheckResult> {
+    const today = await hotelToday(at);
+
+    const expiring = await db
+      .select()
+      .from(knowledgeBase)
+      .where(
+        and(
+          eq(knowledgeBase.status, 'active'),
+          isNull(knowledgeBase.expiryFlaggedAt),
+          gte(knowledgeBase.validUntil, today),
+          lte(knowledgeBase.validUntil, addDays(today, EXPIRY_WARNING_DAYS))
+        )
+      );
+
+    const timestamp = now();
+    for (const entry of expiring) {
+      await db.update(knowledgeBase).set({ expiryFlaggedAt: timestamp }).where(eq(knowledgeBase.id, entry.id));
+      events.emit({
+        type: EventTypes.KNOWLEDGE_EXPIRING,
+        knowledgeId: entry.id,
+        title: entry.title,
+        validUntil: entry.validUntil!,
+        timestamp: new Date(),
+      });
+    }
+    if (expiring.length > 0) {
+      log.info({ count: expiring.length }, 'Flagged knowledge entries about to expire');
+    }
+
+    const invalidated = await this.invalidateOnDayChange(today);
+    this.lastCheckedDate = today;
+
+    return { flagged: expiring.length, invalidated };
+  }
+
+  /**
+   * Cached answers are grounded on the entries that applied when they were
+   * generated. When one stops applying, its answers are dropped; when one
+   * starts applying, any cached answer may now be incomplete, so the cache
+   * is cleared.
+   */
+  private async invalidateOnDayChange(today: string): Promise<number> {
+    const previous = this.lastCheckedDate ?? addDays(today, -1);
+    if (previous === today) return 0;
+
+    const timeBound = await db
+      .select()
+      .from(knowledgeBase)
+      .where(
+        and(
+          eq(knowledgeBase.status, 'active'),
+          or(isNotNull(knowledgeBase.validFrom), isNotNull(knowledgeBase.validUntil), isNotNull(knowledgeBase.schedule))
+        )
+      );
+
+    let invalidated = 0;
+    let started = false;
+    for (const entry of timeBound) {
+      const before = isInEffect(entry, previous);
+      const after = isInEffect(entry, today);
+      if (before && !after) {
+        invalidated += responseCacheService.invalidateByKnowledgeId(entry.id);
+      } else if (!before && after) {
+        started = true;
+      }
+    }
+    if (started) {
+      invalidated += responseCacheService.clear();
+    }
+
+    return invalidated;
+  }
+}
+
+export const knowledgeValidityService = new KnowledgeValidityService();
@@ -3,20 +3,41 @@
  *
  * Manages the hotel knowledge base for RAG (Retrieval-Augmented Generation).
  * Stores FAQ, policies, amenities, and other information with vector embeddings.
+ *
+ * Retrieval is hybrid: an SQLite FTS5 index over title/content/keywords
+ * (`knowledge_fts`, kept in sync by triggers) catches exact terms such as room
+ * types or offer codes that embeddings blur, and is fused with vector results
+ * by weighted reciprocal rank fusion. Weights are stored in the settings
+ * table under `knowledge_retrieval`.
  */
 
-import { eq, and, desc, sql, isNull, isNotNull } from 'drizzle-orm';
+import { eq, and, desc, sql, isNull, isNotNull, like, notLike } from 'drizzle-orm';
 import { db, sqlite } from '@/db/index.js';
-import { NotFoundError, AppError } from '@/errors/index.js';
+import { NotFoundError, AppError, ValidationError } from '@/errors/index.js';
 import { knowledgeBase, knowledgeEmbeddings } from '@/db/schema.js';
 import type { KnowledgeItem, NewKnowledgeItem } from '@/db/schema.js';
 import type { AIProvider as LLMProvider } from '@jackthebutler/shared';
 import { generateId } from '@/utils/id.js';
 import { createLogger } from '@/utils/logger.js';
 import { now } from '@/utils/time.js';
+import { hotelToday, isInEffect, parseSchedule, validateValidity } from './knowledge-validity.js';
+import { responseCacheService } from './response-cache.js';
+import { settingsService } from './settings.js';
 
 const log = createLogger('ai:knowledge');
 
+const RETRIEVAL_SETTINGS_KEY = 'knowledge_retrieval';
+
+/** Candidates taken from each ranking before fusion */
+const CANDIDATE_POOL = 20;
+
+/** Words too common to be worth a keyword match */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'can', 'do', 'does', 'for', 'from', 'have', 'how', 'i', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'the', 'there', 'to', 'we', 'what', 'when', 'where',
+  'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
 /**
  * Knowledge search result with similarity score
  */
@@ -33,6 +54,44 @@ export interface SearchOptions {
   minSimilarity?: number | undefined;
 }
 
+/**
+ * Tunable weights for hybrid retrieval
+ */
+export interface KnowledgeRetrievalSettings {
+  /** Weight of the vector (semantic) ranking in the fused score; 0 disables it */
+  vectorWeight: number;
+  /** Weight of the keyword (FTS5/BM25) ranking in the fused score; 0 disables it */
+  keywordWeight: number;
+  /** RRF constant; larger values flatten the gap between top and lower ranks */
+  rrfK: number;
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: KnowledgeRetrievalSettings = {
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+};
+
+/**
+ * Hybrid search result with the score breakdown of both rankings.
+ * `similarity` is the cosine similarity to the query (0 without an embedding).
+ */
+export interface HybridSearchResult extends KnowledgeSearchResult {
+  /** Fused RRF score used for ordering */
+  score: number;
+  /** 1-based position in the vector ranking, null if not a vector candidate */
+  vectorRank: number | null;
+  /** 1-based position in the keyword ranking, null if no keyword match */
+  keywordRank: number | null;
+  /** BM25 relevance (higher is better), null if no keyword match */
+  keywordScore: number | null;
+}
+
+/** Per-entry scores collected while fusing the two rankings */
+type RankBreakdown = Pick<HybridSearchResult, 'score' | 'vectorRank' | 'keywordRank' | 'keywordScore'> & {
+  similarity?: number | undefined;
+};
+
 /**
  * Options for listing/filtering knowledge base entries (dashboard table view)
  */
@@ -41,7 +100,8 @@ export interface ListFilteredOptions {
   category?: string | undefined;
   /** Case-insensitive substring match against title/content/keywords, applied in JS. */
   search?: string | undefined;
-  source?: 'scraped' | 'manual' | undefined;
+  /** `document` = imported from an uploaded file (source_url `document:...`) */
+  source?: 'scraped' | 'manual' | 'document' | undefined;
   status?: string | undefined;
   limit?: number | undefined;
   offset?: number | undefined;
@@ -71,6 +131,7 @@ export class KnowledgeService {
    * Add a new knowledge item with embedding
    */
   async add(item: Omit<NewKnowledgeItem, 'id'>): Promise<KnowledgeItem> {
+    validateValidity(item.validFrom, item.validUntil, parseSchedule(item.schedule ?? null));
     const id = generateId('knowledge');
 
     // Insert knowledge item
@@ -129,10 +190,22 @@ export class KnowledgeService {
       throw new NotFoundError('KnowledgeItem', id);
     }
 
+    validateValidity(
+      updates.validFrom !== undefined ? updates.validFrom : existing.validFrom,
+      updates.validUntil !== undefined ? updates.validUntil : existing.validUntil,
+      parseSchedule(updates.schedule !== undefined ? updates.schedule : existing.schedule)
+    );
+
+    const changes = { ...updates };
+    // A moved end date gets a fresh expiry warning
+    if (updates.validUntil !== undefined && updates.validUntil !== existing.validUntil) {
+      changes.expiryFlaggedAt = null;
+    }
+
     await db
       .update(knowledgeBase)
       .set({
-        ...updates,
+        ...changes,
         updatedAt: now(),
       })
       .where(eq(knowledgeBase.id, id));
@@ -151,6 +224,7 @@ export class KnowledgeService {
       throw new AppError('Failed to update knowledge item', 'INTERNAL_ERROR', 500);
     }
 
+    responseCacheService.invalidateByKnowledgeId(id);
     log.info({ id }, 'Knowledge item updated');
     return updated;
   }
@@ -166,6 +240,7 @@ export class KnowledgeService {
 
     // Embedding is deleted automatically via cascade
     await db.delete(knowledgeBase).where(eq(knowledgeBase.id, id));
+    responseCacheService.invalidateByKnowledgeId(id);
     log.info({ id }, 'Knowledge item deleted');
   }
 
@@ -182,6 +257,7 @@ export class KnowledgeService {
       .update(knowledgeBase)
       .set({ status: 'archived', updatedAt: now() })
       .where(eq(knowledgeBase.id, id));
+    responseCacheService.invalidateByKnowledgeId(id);
     log.info({ id }, 'Knowledge item archived');
   }
 
@@ -201,7 +277,9 @@ export class KnowledgeService {
     }
 
     if (source === 'scraped') {
-      conditions.push(isNotNull(knowledgeBase.sourceUrl));
+      conditions.push(isNotNull(knowledgeBase.sourceUrl), notLike(knowledgeBase.sourceUrl, 'document:%'));
+    } else if (source === 'document') {
+      conditions.push(like(knowledgeBase.sourceUrl, 'document:%'));
     } else if (source === 'manual') {
       conditions.push(isNull(knowledgeBase.sourceUrl));
     }
@@ -302,40 +380,111 @@ export class KnowledgeService {
   }
 
   /**
-   * Search knowledge base using vector similarity.
-   * Computes the embedding from the query text then delegates to searchByEmbedding.
+   * Search knowledge base with hybrid keyword + vector retrieval.
+   * Computes the embedding from the query text then delegates to hybridSearch.
    */
-  async search(query: string, options: SearchOptions = {}): Promise<KnowledgeSearchResult[]> {
+  async search(query: string, options: SearchOptions = {}): Promise<HybridSearchResult[]> {
     log.debug({ query, limit: options.limit }, 'Searching knowledge base');
     const queryEmbedding = await this.requireProvider().embed({ text: query, purpose: 'query' });
-    return this.searchByEmbedding(queryEmbedding.embedding, options);
+    return this.hybridSearch(query, queryEmbedding.embedding, options);
+  }
+
+  /**
+   * Fuse keyword (FTS5) and vector rankings with weighted reciprocal rank
+   * fusion: score = Σ weight / (rrfK + rank). A keyword hit on every query
+   * term can surface even when its embedding is below `minSimilarity`; hits
+   * on only some terms must meet it like the vector candidates do. Pass no
+   * embedding for keyword-only search.
+   * Entries outside their validity window or schedule (hotel time) are skipped.
+   */
+  async hybridSearch(
+    query: string,
+    embedding: number[] | undefined,
+    options: SearchOptions = {}
+  ): Promise<HybridSearchResult[]> {
+    const { limit = 5, category, minSimilarity = 0.5 } = options;
+    const { vectorWeight, keywordWeight, rrfK } = await this.getRetrievalSettings();
+
+    const vector =
+      embedding && vectorWeight > 0
+        ? this.rankByEmbedding(embedding, CANDIDATE_POOL).filter((r) => r.similarity >= minSimilarity)
+        : [];
+    const { hits: keyword, matchedAll } =
+      keywordWeight > 0 ? this.rankByKeywords(query, CANDIDATE_POOL) : { hits: [], matchedAll: false };
+
+    const fused = new Map<string, RankBreakdown>();
+    vector.forEach((r, i) => {
+      fused.set(r.id, {
+        score: vectorWeight / (rrfK + i + 1),
+        similarity: r.similarity,
+        vectorRank: i + 1,
+        keywordRank: null,
+        keywordScore: null,
+      });
+    });
+    keyword.forEach((r, i) => {
+      const entry = fused.get(r.id) ?? { score: 0, vectorRank: null, keywordRank: null, keywordScore: null };
+      entry.score += keywordWeight / (rrfK + i + 1);
+      entry.keywordRank = i + 1;
+      entry.keywordScore = r.score;
+      fused.set(r.id, entry);
+    });
+    if (fused.size === 0) return [];
+
+    const ids = [...fused.keys()];
+    const today = await hotelToday();
+    const items = (
+      await db
+        .select()
+        .from(knowledgeBase)
+        .where(
+          and(
+            sql`${knowledgeBase.id} IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)})`,
+            eq(knowledgeBase.status, 'active'),
+            category ? eq(knowledgeBase.category, category) : sql`1=1`
+          )
+        )
+    ).filter((item) => isInEffect(item, today));
+
+    // Keyword-only hits still report their real cosine similarity
+    const missing = items.filter((item) => fused.get(item.id)!.similarity === undefined).map((item) => item.id);
+    const similarities = embedding && missing.length > 0 ? this.similarityFor(embedding, missing) : new Map<string, number>();
+
+    const results: HybridSearchResult[] = items
+      .map((item) => {
+        const { similarity, ...breakdown } = fused.get(item.id)!;
+        return { ...item, ...breakdown, similarity: similarity ?? similarities.get(item.id) ?? 0 };
+      })
+      // A partial keyword match alone is too weak to stand in for relevance
+      .filter((r) => r.vectorRank !== null || matchedAll || !embedding || r.similarity >= minSimilarity);
+
+    results.sort((a, b) => b.score - a.score);
+    log.debug(
+      { vectorCandidates: vector.length, keywordCandidates: keyword.length, resultCount: Math.min(results.length, limit) },
+      'Hybrid knowledge search complete'
+    );
+    return results.slice(0, limit);
   }
 
   /**
    * Search knowledge base using a pre-computed embedding.
    * Does not call the embedding provider — accepts the vector directly.
-   * Used by the pipeline when ctx.queryEmbedding has already been computed upstream.
+   * Vector-only; the pipeline uses hybridSearch when it has the query text.
+   * Entries outside their validity window or schedule (hotel time) are skipped.
    */
   async searchByEmbedding(embedding: number[], options: SearchOptions = {}): Promise<KnowledgeSearchResult[]> {
     const { limit = 5, category, minSimilarity = 0.5 } = options;
 
-    // Use sqlite-vec for cosine similarity ranking — runs in C, no JS loop
-    const queryBuf = Buffer.from(new Float32Array(embedding).buffer);
-    const ranked = sqlite
-      .prepare(
-        `SELECT ke.id, (1.0 - vec_distance_cosine(ke.embedding, vec_f32(?))) AS similarity
-         FROM knowledge_embeddings ke
-         ORDER BY similarity DESC
-         LIMIT ?`
-      )
-      .all(queryBuf, limit * 3) as Array<{ id: string; similarity: number }>;
+    const ranked = this.rankByEmbedding(embedding, limit * 3);
 
-    const qualified = ranked.filter((r) => r.similarity >= minSimilarity).slice(0, limit);
+    // Limit after filtering, so entries out of effect don't crowd out the rest
+    const qualified = ranked.filter((r) => r.similarity >= minSimilarity);
     if (qualified.length === 0) return [];
 
     const topIds = qualified.map((r) => r.id);
     const similarityMap = new Map(qualified.map((r) => [r.id, r.similarity]));
 
+    const today = await hotelToday();
     const items = await db
       .select()
       .from(knowledgeBase)
@@ -347,14 +496,99 @@ export class KnowledgeService {
         )
       );
 
-    const results: KnowledgeSearchResult[] = items.map((item) => ({
-      ...item,
-      similarity: similarityMap.get(item.id) ?? 0,
-    }));
+    const results: KnowledgeSearchResult[] = items
+      .filter((item) => isInEffect(item, today))
+      .map((item) => ({
+        ...item,
+        similarity: similarityMap.get(item.id) ?? 0,
+      }));
 
     results.sort((a, b) => b.similarity - a.similarity);
-    log.debug({ resultCount: results.length }, 'Knowledge search by embedding complete');
-    return results;
+    log.debug({ resultCount: Math.min(results.length, limit) }, 'Knowledge search by embedding complete');
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Get hybrid retrieval weights with defaults
+   */
+  async getRetrievalSettings(): Promise<KnowledgeRetrievalSettings> {
+    const stored = await settingsService.get<Partial<KnowledgeRetrievalSettings>>(RETRIEVAL_SETTINGS_KEY, {});
+    return { ...DEFAULT_RETRIEVAL_SETTINGS, ...stored };
+  }
+
+  /**
+   * Update hybrid retrieval weights (partial update)
+   */
+  async updateRetrievalSettings(input: Partial<KnowledgeRetrievalSettings>): Promise<KnowledgeRetrievalSettings> {
+    const current = await settingsService.get<Partial<KnowledgeRetrievalSettings>>(RETRIEVAL_SETTINGS_KEY, {});
+    const merged = { ...DEFAULT_RETRIEVAL_SETTINGS, ...current, ...input };
+    if (merged.vectorWeight <= 0 && merged.keywordWeight <= 0) {
+      throw new ValidationError('At least one retrieval weight must be above 0');
+    }
+
+    await settingsService.set(RETRIEVAL_SETTINGS_KEY, { ...current, ...input });
+    log.info({ changes: Object.keys(input) }, 'Knowledge retrieval settings updated');
+    return this.getRetrievalSettings();
+  }
+
+  /**
+   * Rank embeddings by cosine similarity using sqlite-vec — runs in C, no JS loop
+   */
+  private rankByEmbedding(embedding: number[], limit: number): Array<{ id: string; similarity: number }> {
+    const queryBuf = Buffer.from(new Float32Array(embedding).buffer);
+    return sqlite
+      .prepare(
+        `SELECT ke.id, (1.0 - vec_distance_cosine(ke.embedding, vec_f32(?))) AS similarity
+         FROM knowledge_embeddings ke
+         ORDER BY similarity DESC
+         LIMIT ?`
+      )
+      .all(queryBuf, limit) as Array<{ id: string; similarity: number }>;
+  }
+
+  /**
+   * Cosine similarity of specific entries to the query embedding
+   */
+  private similarityFor(embedding: number[], ids: string[]): Map<string, number> {
+    const queryBuf = Buffer.from(new Float32Array(embedding).buffer);
+    const rows = sqlite
+      .prepare(
+        `SELECT id, (1.0 - vec_distance_cosine(embedding, vec_f32(?))) AS similarity
+         FROM knowledge_embeddings
+         WHERE id IN (${ids.map(() => '?').join(', ')})`
+      )
+      .all(queryBuf, ...ids) as Array<{ id: string; similarity: number }>;
+    return new Map(rows.map((r) => [r.id, r.similarity]));
+  }
+
+  /**
+   * Rank entries by BM25 over the FTS5 index. Title matches count double.
+   * Entries matching every query term come first; only when there are none
+   * does it fall back to entries matching any term.
+   */
+  private rankByKeywords(
+    query: string,
+    limit: number
+  ): { hits: Array<{ id: string; score: number }>; matchedAll: boolean } {
+    const all = toFtsQuery(query, 'AND');
+    if (!all) return { hits: [], matchedAll: false };
+
+    const statement = sqlite.prepare(
+      `SELECT kb.id, bm25(knowledge_fts, 2.0, 1.0, 1.0) AS rank
+       FROM knowledge_fts
+       JOIN knowledge_base kb ON kb.rowid = knowledge_fts.rowid
+       WHERE knowledge_fts MATCH ? AND kb.status = 'active'
+       ORDER BY rank
+       LIMIT ?`
+    );
+    let rows = statement.all(all, limit) as Array<{ id: string; rank: number }>;
+    const matchedAll = rows.length > 0;
+    if (!matchedAll) {
+      rows = statement.all(toFtsQuery(query, 'OR'), limit) as Array<{ id: string; rank: number }>;
+    }
+
+    // FTS5's bm25() is negative, lower = better; flip it for display
+    return { hits: rows.map((r) => ({ id: r.id, score: -r.rank })), matchedAll };
   }
 
   /**
@@ -399,4 +633,28 @@ export class KnowledgeService {
   }
 }
 
+/**
+ * Distinct lowercase non-stopword terms of free text, edge punctuation trimmed
+ */
+export function searchTerms(text: string): string[] {
+  const terms = text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+
+  return [...new Set(terms)];
+}
+
+/**
+ * Build an FTS5 MATCH expression from free text: every non-stopword term,
+ * quoted so punctuation like "SPA-OPEN" is matched as a phrase, joined with
+ * the operator.
+ */
+export function toFtsQuery(text: string, operator: 'AND' | 'OR' = 'OR'): string | null {
+  const terms = searchTerms(text);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(` ${operator} `);
+}
+
 export { KnowledgeService as default };
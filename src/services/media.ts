@@ -0,0 +1,235 @@
+/**
+ * Media Service
+ *
+ * Photos and voice notes guests send over WhatsApp, SMS (MMS) and Telegram.
+ * Channel webhooks download the file and hand it to `store()`, which keeps
+ * it in a `media/` directory next to the database. Before the message enters
+ * the pipeline, `prepareInbound()` turns the media into text:
+ *
+ * - voice notes are transcribed by the transcription provider — local
+ *   Whisper (ai-local) unless a cloud provider offers it, so it works
+ *   offline;
+ * - photos are described by a vision-capable AI provider.
+ *
+ * The text is merged into the message content, so intent classification,
+ * task routing and the reply all see "[Photo: water pooling under the
+ * bathroom sink]" rather than an empty message. Processing is best-effort:
+ * without a provider, or when it fails, a placeholder such as "[Photo]" is
+ * used and the file stays attached for staff to look at.
+ *
+ * @module services/media
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { eq } from 'drizzle-orm';
+import { loadConfig } from '@/config/index.js';
+import { db, messages } from '@/db/index.js';
+import { getAppRegistry } from '@/apps/index.js';
+import { NotFoundError, ValidationError } from '@/errors/index.js';
+import type { InboundMessage, MessageMedia } from '@/types/message.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+
+const log = createLogger('media');
+
+// ===================
+// Types
+// ===================
+
+export type MediaKind = MessageMedia['kind'];
+
+// ===================
+// Constants
+// ===================
+
+/** Largest file accepted (WhatsApp's limit for audio) */
+export const MAX_MEDIA_BYTES = 16 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/amr': 'amr',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime])
+);
+
+/** Stored file names are generated; anything else is rejected (no path traversal) */
+const FILE_NAME_RE = /^med_[a-z0-9]+_[a-f0-9]+\.[a-z0-9]+$/;
+
+const IMAGE_PROMPT =
+  'A hotel guest sent this photo in a chat with the hotel. Describe what it shows in one or two plain sentences, ' +
+  'focusing on anything staff may need to act on (damage, leaks, broken or missing items, cleanliness, where it is). ' +
+  'Do not speculate beyond what is visible.';
+
+const PLACEHOLDERS: Record<MediaKind, string> = {
+  image: '[Photo]',
+  audio: '[Voice message]',
+};
+
+// ===================
+// Helpers
+// ===================
+
+/**
+ * Strip parameters from a MIME type (`audio/ogg; codecs=opus` → `audio/ogg`)
+ */
+function baseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0]!.trim().toLowerCase();
+}
+
+/**
+ * Media kind for a MIME type; null for types the pipeline can't use
+ */
+export function mediaKind(mimeType: string): MediaKind | null {
+  const base = baseMimeType(mimeType);
+  if (!(base in EXTENSIONS)) return null;
+  return base.startsWith('image/') ? 'image' : 'audio';
+}
+
+/**
+ * Parse a message's stored `media` column
+ */
+export function parseMessageMedia(raw: string | null): MessageMedia[] {
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as MessageMedia[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Text standing in for one media item in the message content
+ */
+function mediaText(media: MessageMedia): string {
+  if (media.kind === 'audio' && media.transcript) return media.transcript;
+  if (media.kind === 'image' && media.description) return `[Photo: ${media.description}]`;
+  return PLACEHOLDERS[media.kind];
+}
+
+// ===================
+// Service
+// ===================
+
+export class MediaService {
+  /**
+   * Directory media files are stored in (next to the database)
+   */
+  getMediaDir(): string {
+    return join(dirname(loadConfig().database.path), 'media');
+  }
+
+  /**
+   * Store a downloaded media file
+   */
+  async store(data: Uint8Array, mimeType: string): Promise<MessageMedia> {
+    const base = baseMimeType(mimeType);
+    const kind = mediaKind(base);
+    if (!kind) {
+      throw new ValidationError(`Unsupported media type: ${mimeType}`);
+    }
+    if (data.byteLength > MAX_MEDIA_BYTES) {
+      throw new ValidationError(`Media file too large (${data.byteLength} bytes, max ${MAX_MEDIA_BYTES})`);
+    }
+
+    const id = generateId('media');
+    const file = `${id}.${EXTENSIONS[base]}`;
+    const dir = this.getMediaDir();
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, file), data);
+
+    log.debug({ id, kind, mimeType: base, size: data.byteLength }, 'Media stored');
+    return { id, kind, mimeType: base, size: data.byteLength, file };
+  }
+
+  /**
+   * Read a stored media file by name
+   */
+  async read(file: string): Promise<{ data: Buffer; mimeType: string }> {
+    if (!FILE_NAME_RE.test(file)) {
+      throw new NotFoundError('Media', file);
+    }
+
+    try {
+      const data = await readFile(join(this.getMediaDir(), file));
+      const ext = file.slice(file.lastIndexOf('.') + 1);
+      return { data, mimeType: MIME_TYPES[ext] ?? 'application/octet-stream' };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError('Media', file);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Media attached to a message (e.g. the one a task was created from)
+   */
+  async forMessage(messageId: string): Promise<MessageMedia[]> {
+    const [row] = await db.select({ media: messages.media }).from(messages).where(eq(messages.id, messageId)).limit(1);
+    return parseMessageMedia(row?.media ?? null);
+  }
+
+  /**
+   * Transcribe a voice note or describe a photo. Returns the media
+   * unchanged when no provider is available or processing fails.
+   */
+  async describe(media: MessageMedia): Promise<MessageMedia> {
+    const registry = getAppRegistry();
+    const provider = media.kind === 'audio' ? registry.getTranscriptionProvider() : registry.getVisionProvider();
+
+    try {
+      if (media.kind === 'audio' && provider?.transcribe) {
+        const { data } = await this.read(media.file);
+        const { text } = await provider.transcribe({ audio: data, mimeType: media.mimeType, purpose: 'guest_voice_note' });
+        return text ? { ...media, transcript: text } : media;
+      }
+      if (media.kind === 'image' && provider?.describeImage) {
+        const { data } = await this.read(media.file);
+        const { description } = await provider.describeImage({
+          image: data,
+          mimeType: media.mimeType,
+          prompt: IMAGE_PROMPT,
+          purpose: 'guest_photo',
+        });
+        return description ? { ...media, description } : media;
+      }
+      log.debug({ id: media.id, kind: media.kind }, 'No AI provider can process this media');
+    } catch (err) {
+      log.warn({ err, id: media.id, kind: media.kind }, 'Media processing failed');
+    }
+    return media;
+  }
+
+  /**
+   * Process an inbound message's media and merge the resulting text into
+   * its content (caption first, then one line per media item)
+   */
+  async prepareInbound(inbound: InboundMessage): Promise<InboundMessage> {
+    if (!inbound.media?.length) return inbound;
+
+    const media: MessageMedia[] = [];
+    for (const item of inbound.media) {
+      media.push(await this.describe(item));
+    }
+
+    const content = [inbound.content.trim(), ...media.map(mediaText)].filter(Boolean).join('\n');
+    return { ...inbound, content, media };
+  }
+}
+
+export const mediaService = new MediaService();
@@ -67,7 +67,8 @@ export async function runExtraction(
 
   const embeddingProvider = deps.getEmbeddingProvider();
 
-  const messages = await conversationService.getMessages(conversationId, { limit: 500 });
+  // Staff notes stay out: they reach the AI only through the opt-in prompt section
+  const messages = await conversationService.getMessages(conversationId, { limit: 500, excludeInternal: true });
 
   // Skip extraction if the guest barely spoke — no durable facts can be inferred
   const guestMessageCount = messages.filter((m) => m.senderType === 'guest').length;
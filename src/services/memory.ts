@@ -238,6 +238,43 @@ export class MemoryService {
     return memory;
   }
 
+  /**
+   * Pair each memory of one guest with the other guest's memory it repeats,
+   * for merging two guest profiles. Identical text (ignoring case and spacing)
+   * in the same category always counts; with a completion provider, embedded
+   * near-matches the AI classifies as CONFIRMS count too. Memories without a
+   * match are left out.
+   */
+  async findDuplicatesAcross(
+    fromGuestId: string,
+    intoGuestId: string,
+  ): Promise<Array<{ memory: GuestMemory; duplicateOf: GuestMemory }>> {
+    const incoming = await this.listForGuest(fromGuestId);
+    const existing = await this.listForGuest(intoGuestId);
+    if (incoming.length === 0 || existing.length === 0) return [];
+
+    const normalize = (content: string) => content.toLowerCase().replace(/\s+/g, ' ').trim();
+    const pairs: Array<{ memory: GuestMemory; duplicateOf: GuestMemory }> = [];
+
+    for (const memory of incoming) {
+      const identical = existing.find(
+        (m) => m.category === memory.category && normalize(m.content) === normalize(memory.content),
+      );
+      if (identical) {
+        pairs.push({ memory, duplicateOf: identical });
+        continue;
+      }
+
+      if (!memory.embedding || !this.completionProvider) continue;
+      const match = this.findNearMatch(intoGuestId, memory.embedding as Buffer);
+      if (match && (await this.classify(match.content, memory.content)) === 'CONFIRMS') {
+        pairs.push({ memory, duplicateOf: existing.find((m) => m.id === match.id)! });
+      }
+    }
+
+    return pairs;
+  }
+
   // ---------------------------------------------------------------------------
   // Update
   // ---------------------------------------------------------------------------
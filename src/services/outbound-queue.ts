@@ -0,0 +1,359 @@
+/**
+ * Outbound Message Queue
+ *
+ * Durable delivery of replies to guests. Instead of calling a channel
+ * adapter's `send()` once, callers save the message and `enqueue()` it; the
+ * queue makes the first attempt straight away and, if the provider is down
+ * (Twilio, WhatsApp Cloud API, SMTP, ...), retries with the channel's
+ * backoff policy from the scheduler (`runDue()`).
+ *
+ * Each item carries an idempotency key (by default one per message row), so
+ * a webhook redelivery or a double-submitted reply is queued — and sent —
+ * only once. When a channel's attempts run out the item is dead-lettered:
+ * the message is marked `failed`, `MESSAGE_FAILED` is emitted, and it is
+ * listed on the dashboard Health page until someone resends it.
+ *
+ * WhatsApp replies sent after the guest's 24-hour window has closed go out
+ * as the fallback template (see `services/whatsapp-templates`).
+ *
+ * @module services/outbound-queue
+ */
+
+import { and, desc, eq, lte } from 'drizzle-orm';
+import type { ChannelAdapter, ChannelType, ContentType, OutboundMessage } from '@jackthebutler/shared';
+import { getAppRegistry } from '@/apps/index.js';
+import { db, messages, outboundQueue } from '@/db/index.js';
+import type { OutboundQueueItem } from '@/db/schema.js';
+import { ValidationError, NotFoundError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { whatsappTemplateService } from '@/services/whatsapp-templates.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+
+const log = createLogger('outbound-queue');
+
+// ===================
+// Types
+// ===================
+
+export type OutboundQueueStatus = 'pending' | 'sending' | 'sent' | 'dead';
+
+export interface RetryPolicy {
+  /** Attempts (including the first) before the item is dead-lettered */
+  maxAttempts: number;
+  /** Delay after the first failed attempt; doubles per attempt */
+  baseDelayMs: number;
+  /** Upper bound on a single delay */
+  maxDelayMs: number;
+}
+
+export interface EnqueueOutboundInput {
+  /** Saved message row being delivered */
+  messageId: string;
+  conversationId: string;
+  channel: ChannelType;
+  /** Recipient (phone number, email address, chat ID, session ID) */
+  channelId: string;
+  content: string;
+  contentType?: ContentType | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  /** Send through this channel app; defaults to the active adapter for the channel */
+  appId?: string | undefined;
+  /** Defaults to `message:<messageId>` */
+  idempotencyKey?: string | undefined;
+}
+
+export interface OutboundQueueRunResult {
+  sent: number;
+  retrying: number;
+  dead: number;
+}
+
+// ===================
+// Constants
+// ===================
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Retry policy per channel. Messaging APIs get a few quick retries (guests
+ * expect a reply within minutes); email tolerates longer outages. Webchat
+ * pushes to a live socket and history is reloaded on reconnect, so a failed
+ * push is not worth retrying.
+ */
+export const RETRY_POLICIES: Record<ChannelType, RetryPolicy> = {
+  whatsapp: { maxAttempts: 6, baseDelayMs: 30 * 1000, maxDelayMs: 15 * MINUTE },
+  sms: { maxAttempts: 6, baseDelayMs: 30 * 1000, maxDelayMs: 15 * MINUTE },
+  telegram: { maxAttempts: 6, baseDelayMs: 30 * 1000, maxDelayMs: 15 * MINUTE },
+  email: { maxAttempts: 8, baseDelayMs: MINUTE, maxDelayMs: 60 * MINUTE },
+  webchat: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+};
+
+/** An item left in `sending` this long is assumed lost (e.g. process restart) */
+const STALE_SENDING_MS = 5 * MINUTE;
+
+const MAX_ERROR_LENGTH = 500;
+const DUE_BATCH_SIZE = 100;
+
+// ===================
+// Helpers
+// ===================
+
+/** Delay before the next attempt after `attempts` failed ones */
+export function retryDelayMs(channel: ChannelType, attempts: number): number {
+  const policy = RETRY_POLICIES[channel];
+  return Math.min(policy.baseDelayMs * 2 ** (attempts - 1), policy.maxDelayMs);
+}
+
+function errorMessage(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+}
+
+// ===================
+// Service
+// ===================
+
+export class OutboundQueueService {
+  /**
+   * Queue a reply and make the first attempt. If the idempotency key was
+   * already queued, the existing item is returned and nothing is sent.
+   * Internal staff notes are rejected.
+   */
+  async enqueue(input: EnqueueOutboundInput): Promise<OutboundQueueItem> {
+    const [message] = await db
+      .select({ direction: messages.direction })
+      .from(messages)
+      .where(eq(messages.id, input.messageId))
+      .limit(1);
+    if (message?.direction === 'internal') {
+      throw new ValidationError('Internal notes are never sent to the guest');
+    }
+
+    const idempotencyKey = input.idempotencyKey ?? `message:${input.messageId}`;
+    const timestamp = now();
+
+    const [item] = await db
+      .insert(outboundQueue)
+      .values({
+        id: generateId('outbound'),
+        messageId: input.messageId,
+        conversationId: input.conversationId,
+        channel: input.channel,
+        appId: input.appId ?? null,
+        channelId: input.channelId,
+        content: input.content,
+        contentType: input.contentType ?? 'text',
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+        idempotencyKey,
+        status: 'pending',
+        nextAttemptAt: timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .onConflictDoNothing({ target: outboundQueue.idempotencyKey })
+      .returning();
+
+    if (!item) {
+      const [existing] = await db
+        .select()
+        .from(outboundQueue)
+        .where(eq(outboundQueue.idempotencyKey, idempotencyKey))
+        .limit(1);
+      log.info({ idempotencyKey, id: existing?.id }, 'Outbound message already queued, not sending again');
+      return existing!;
+    }
+
+    await this.setMessageStatus(item.messageId, 'pending');
+    return this.attempt(item);
+  }
+
+  /**
+   * Retry items whose backoff has elapsed (called by the scheduler). Items
+   * stuck in `sending` after a crash are put back in the queue first.
+   */
+  async runDue(): Promise<OutboundQueueRunResult> {
+    const timestamp = now();
+    await db
+      .update(outboundQueue)
+      .set({ status: 'pending', nextAttemptAt: timestamp, updatedAt: timestamp })
+      .where(
+        and(
+          eq(outboundQueue.status, 'sending'),
+          lte(outboundQueue.updatedAt, new Date(Date.now() - STALE_SENDING_MS).toISOString())
+        )
+      );
+
+    const due = await db
+      .select()
+      .from(outboundQueue)
+      .where(and(eq(outboundQueue.status, 'pending'), lte(outboundQueue.nextAttemptAt, timestamp)))
+      .orderBy(outboundQueue.nextAttemptAt)
+      .limit(DUE_BATCH_SIZE);
+
+    const result: OutboundQueueRunResult = { sent: 0, retrying: 0, dead: 0 };
+    for (const item of due) {
+      const attempted = await this.attempt(item);
+      if (attempted.status === 'sent') result.sent++;
+      else if (attempted.status === 'dead') result.dead++;
+      else if (attempted.status === 'pending') result.retrying++;
+    }
+
+    if (due.length > 0) {
+      log.info({ ...result }, 'Outbound retries processed');
+    }
+    return result;
+  }
+
+  /**
+   * Dead-lettered items, most recent first
+   */
+  async listDead(limit = 50): Promise<OutboundQueueItem[]> {
+    return db
+      .select()
+      .from(outboundQueue)
+      .where(eq(outboundQueue.status, 'dead'))
+      .orderBy(desc(outboundQueue.updatedAt), desc(outboundQueue.id))
+      .limit(limit);
+  }
+
+  /**
+   * Put a dead-lettered item back in the queue with a fresh set of attempts
+   * and try it now.
+   */
+  async resend(id: string): Promise<OutboundQueueItem> {
+    const [item] = await db.select().from(outboundQueue).where(eq(outboundQueue.id, id)).limit(1);
+    if (!item) {
+      throw new NotFoundError('Outbound message', id);
+    }
+    if (item.status !== 'dead') {
+      throw new ValidationError(`Only undelivered messages can be resent (status: ${item.status})`);
+    }
+
+    const timestamp = now();
+    const [reset] = await db
+      .update(outboundQueue)
+      .set({ status: 'pending', attempts: 0, nextAttemptAt: timestamp, updatedAt: timestamp })
+      .where(eq(outboundQueue.id, id))
+      .returning();
+    await this.setMessageStatus(item.messageId, 'pending');
+
+    log.info({ id, messageId: item.messageId }, 'Outbound message resend requested');
+    return this.attempt(reset!);
+  }
+
+  // ----- Internals -----
+
+  /**
+   * Send an item once and record the outcome: sent, another attempt after
+   * backoff, or dead once the channel's attempts run out.
+   */
+  private async attempt(item: OutboundQueueItem): Promise<OutboundQueueItem> {
+    // Claim the item so an overlapping scheduler run can't send it twice
+    const [claimed] = await db
+      .update(outboundQueue)
+      .set({ status: 'sending', updatedAt: now() })
+      .where(and(eq(outboundQueue.id, item.id), eq(outboundQueue.status, 'pending')))
+      .returning();
+    if (!claimed) return item;
+
+    const channel = claimed.channel as ChannelType;
+    const attempts = claimed.attempts + 1;
+    let channelMessageId: string | undefined;
+    let error: string | null = null;
+
+    try {
+      const adapter = this.resolveAdapter(claimed);
+      if (!adapter) {
+        throw new Error(`No active ${claimed.appId ?? channel} channel adapter`);
+      }
+      let outbound: OutboundMessage = {
+        conversationId: claimed.conversationId,
+        channelId: claimed.channelId,
+        content: claimed.content,
+        contentType: claimed.contentType as ContentType,
+        ...(claimed.metadata ? { metadata: JSON.parse(claimed.metadata) as Record<string, unknown> } : {}),
+      };
+      // Outside the 24-hour window WhatsApp only accepts templates; a retry
+      // after the guest writes again goes out as plain text
+      if (channel === 'whatsapp') {
+        outbound = await whatsappTemplateService.prepareOutbound(outbound);
+      }
+      const result = await adapter.send(outbound);
+      if (result.status === 'failed') {
+        throw new Error(result.error ?? 'Send failed');
+      }
+      channelMessageId = result.channelMessageId;
+    } catch (err) {
+      error = errorMessage(err);
+    }
+
+    const timestamp = now();
+    const succeeded = error === null;
+    const exhausted = !succeeded && attempts >= RETRY_POLICIES[channel].maxAttempts;
+
+    const [updated] = await db
+      .update(outboundQueue)
+      .set({
+        status: succeeded ? 'sent' : exhausted ? 'dead' : 'pending',
+        attempts,
+        nextAttemptAt:
+          succeeded || exhausted ? null : new Date(Date.now() + retryDelayMs(channel, attempts)).toISOString(),
+        lastError: error,
+        channelMessageId: channelMessageId ?? null,
+        sentAt: succeeded ? timestamp : null,
+        updatedAt: timestamp,
+      })
+      .where(eq(outboundQueue.id, claimed.id))
+      .returning();
+
+    if (succeeded) {
+      await this.setMessageStatus(claimed.messageId, 'sent', { channelMessageId });
+      // Our Message-ID joins the guest's email thread so their reply finds the conversation
+      if (channel === 'email' && channelMessageId?.includes('@')) {
+        const { emailInboundService } = await import('./email-inbound.js');
+        const { subject } = (claimed.metadata ? JSON.parse(claimed.metadata) : {}) as { subject?: string };
+        await emailInboundService.recordMessageIds(claimed.conversationId, [channelMessageId], subject);
+      }
+    } else if (exhausted) {
+      log.error({ id: claimed.id, messageId: claimed.messageId, channel, attempts, error }, 'Outbound message dead-lettered');
+      await this.setMessageStatus(claimed.messageId, 'failed', { error: error! });
+      events.emit({
+        type: EventTypes.MESSAGE_FAILED,
+        conversationId: claimed.conversationId,
+        messageId: claimed.messageId,
+        channel,
+        error: error!,
+        timestamp: new Date(),
+      });
+    } else {
+      log.warn({ id: claimed.id, messageId: claimed.messageId, channel, attempts, error }, 'Outbound send attempt failed');
+    }
+
+    return updated!;
+  }
+
+  private resolveAdapter(item: OutboundQueueItem): ChannelAdapter | undefined {
+    const registry = getAppRegistry();
+    return item.appId
+      ? registry.getActiveChannelAdapters().get(item.appId)
+      : registry.getChannelAdapterByType(item.channel as ChannelType);
+  }
+
+  private async setMessageStatus(
+    messageId: string,
+    status: 'pending' | 'sent' | 'failed',
+    details: { channelMessageId?: string | undefined; error?: string } = {}
+  ): Promise<void> {
+    await db
+      .update(messages)
+      .set({
+        deliveryStatus: status,
+        deliveryError: details.error ?? null,
+        ...(details.channelMessageId && { channelMessageId: details.channelMessageId }),
+      })
+      .where(eq(messages.id, messageId));
+  }
+}
+
+export const outboundQueueService = new OutboundQueueService();
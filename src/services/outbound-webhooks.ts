@@ -0,0 +1,462 @@
+/**
+ * Outbound Webhook Service
+ *
+ * Pushes event bus events to external systems (housekeeping, CRM, ...).
+ * Admins subscribe a URL to event types; each matching event becomes a
+ * delivery, POSTed as JSON and signed with the subscription's secret
+ * (`X-Jack-Signature: sha256=<hex HMAC of the body>`).
+ *
+ * Failed deliveries are retried with exponential backoff by the scheduler
+ * (`runDue()`). A subscription whose deliveries keep failing is disabled
+ * until an admin re-enables it. Every attempt is kept in `webhook_deliveries`,
+ * which doubles as the delivery log and the retry queue.
+ *
+ * @module services/outbound-webhooks
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { and, desc, eq, lte, sql } from 'drizzle-orm';
+import { db, webhookSubscriptions, webhookDeliveries } from '@/db/index.js';
+import type { WebhookDelivery, WebhookSubscription } from '@/db/schema.js';
+import { events, EventTypes } from '@/events/index.js';
+import type { AppEvent, EventType } from '@/types/events.js';
+import { NotFoundError } from '@/errors/index.js';
+import { encrypt, decrypt } from '@/utils/crypto.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+
+const log = createLogger('outbound-webhooks');
+
+// ===================
+// Types
+// ===================
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'success' | 'failed';
+
+export interface WebhookSubscriptionDTO extends Omit<WebhookSubscription, 'secretEncrypted' | 'events'> {
+  events: EventType[];
+}
+
+export interface CreateWebhookSubscriptionInput {
+  name: string;
+  url: string;
+  events: EventType[];
+  enabled?: boolean | undefined;
+}
+
+export type UpdateWebhookSubscriptionInput = {
+  [K in keyof CreateWebhookSubscriptionInput]?: CreateWebhookSubscriptionInput[K] | undefined;
+};
+
+/** Body POSTed to subscribers */
+export interface WebhookPayload {
+  /** Event ID, shared by every subscription that receives the event */
+  id: string;
+  type: EventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookRunResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** Events that can be subscribed to (model download progress is internal) */
+export const WEBHOOK_EVENT_TYPES: EventType[] = Object.values(EventTypes).filter(
+  (type) => type !== EventTypes.MODEL_DOWNLOAD_PROGRESS
+);
+
+/** Attempts per delivery before it is marked failed */
+export const MAX_ATTEMPTS = 6;
+
+/** First retry delay; doubles per attempt (1, 2, 4, 8, 16 minutes) */
+const RETRY_BASE_MS = 60 * 1000;
+
+/** Failed attempts in a row (across deliveries) before a subscription is disabled */
+export const AUTO_DISABLE_AFTER = 15;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ERROR_LENGTH = 500;
+const DUE_BATCH_SIZE = 100;
+
+/** A delivery left in `sending` this long (process crashed mid-attempt) is retried */
+const STALE_SENDING_MS = 5 * 60 * 1000;
+
+// ===================
+// Helpers
+// ===================
+
+function toDTO({ secretEncrypted: _, ...row }: WebhookSubscription): WebhookSubscriptionDTO {
+  return { ...row, events: JSON.parse(row.events || '[]') as EventType[] };
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/** Request body for an event: everything but the type and timestamp goes in `data` */
+function buildPayload(event: AppEvent): WebhookPayload {
+  const { type, timestamp, ...rest } = event;
+  const data: Record<string, unknown> = { ...rest };
+  // TaskCreatedEvent carries the task type as `type_` (`type` is the event type)
+  if ('type_' in data) {
+    data.taskType = data.type_;
+    delete data.type_;
+  }
+  return { id: generateId('event'), type, createdAt: timestamp.toISOString(), data };
+}
+
+/** Delay before the next attempt after `attempts` failed ones */
+function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+// ===================
+// Service
+// ===================
+
+export class OutboundWebhookService {
+  // ----- Subscriptions -----
+
+  async list(): Promise<WebhookSubscriptionDTO[]> {
+    const rows = await db.select().from(webhookSubscriptions).orderBy(webhookSubscriptions.name);
+    return rows.map(toDTO);
+  }
+
+  async get(id: string): Promise<WebhookSubscriptionDTO> {
+    return toDTO(await this.getRow(id));
+  }
+
+  /**
+   * Create a subscription. The generated signing secret is returned only here
+   * and from `rotateSecret()`.
+   */
+  async create(input: CreateWebhookSubscriptionInput): Promise<{ subscription: WebhookSubscriptionDTO; secret: string }> {
+    const id = generateId('webhook');
+    const secret = generateSecret();
+    const timestamp = now();
+
+    await db.insert(webhookSubscriptions).values({
+      id,
+      name: input.name,
+      url: input.url,
+      secretEncrypted: encrypt(secret),
+      events: JSON.stringify(input.events),
+      enabled: input.enabled ?? true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    log.info({ id, name: input.name, events: input.events }, 'Webhook subscription created');
+    return { subscription: await this.get(id), secret };
+  }
+
+  /**
+   * Update a subscription. Re-enabling one clears its failure count.
+   */
+  async update(id: string, input: UpdateWebhookSubscriptionInput): Promise<WebhookSubscriptionDTO> {
+    const row = await this.getRow(id);
+    const reenabled = input.enabled === true && !row.enabled;
+
+    await db
+      .update(webhookSubscriptions)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.url !== undefined && { url: input.url }),
+        ...(input.events !== undefined && { events: JSON.stringify(input.events) }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+        ...(reenabled && { consecutiveFailures: 0, disabledReason: null }),
+        updatedAt: now(),
+      })
+      .where(eq(webhookSubscriptions.id, id));
+
+    log.info({ id }, 'Webhook subscription updated');
+    return this.get(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.getRow(id);
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    log.info({ id }, 'Webhook subscription deleted');
+  }
+
+  async rotateSecret(id: string): Promise<{ secret: string }> {
+    await this.getRow(id);
+    const secret = generateSecret();
+    await db
+      .update(webhookSubscriptions)
+      .set({ secretEncrypted: encrypt(secret), updatedAt: now() })
+      .where(eq(webhookSubscriptions.id, id));
+    log.info({ id }, 'Webhook secret rotated');
+    return { secret };
+  }
+
+  // ----- Deliveries -----
+
+  async listDeliveries(subscriptionId: string, limit = 50): Promise<WebhookDelivery[]> {
+    await this.getRow(subscriptionId);
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  /**
+   * Send a past delivery's payload again as a new delivery (same event ID,
+   * so receivers can de-duplicate). Works on disabled subscriptions too.
+   */
+  async redeliver(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const subscription = await this.getRow(subscriptionId);
+    const [original] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.subscriptionId, subscriptionId)))
+      .limit(1);
+    if (!original) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+
+    const delivery = await this.enqueue(subscription, original.eventType, original.payload, original.id);
+    log.info({ subscriptionId, deliveryId, redeliveryId: delivery.id }, 'Webhook redelivery requested');
+    return this.attempt(delivery, subscription);
+  }
+
+  /**
+   * Queue an event for every enabled subscription to its type and make the
+   * first attempt. Returns the number of deliveries created.
+   */
+  async dispatch(event: AppEvent): Promise<number> {
+    if (!WEBHOOK_EVENT_TYPES.includes(event.type)) return 0;
+
+    const subscriptions = (
+      await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.enabled, true))
+    ).filter((s) => toDTO(s).events.includes(event.type));
+    if (subscriptions.length === 0) return 0;
+
+    const payload = JSON.stringify(buildPayload(event));
+    for (const subscription of subscriptions) {
+      const delivery = await this.enqueue(subscription, event.type, payload);
+      await this.attempt(delivery, subscription);
+    }
+    return subscriptions.length;
+  }
+
+  /**
+   * Retry pending deliveries whose backoff has elapsed (called by the
+   * scheduler). Deliveries stuck in `sending` after a crash are put back in
+   * the queue first.
+   */
+  async runDue(): Promise<WebhookRunResult> {
+    const timestamp = now();
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'pending', nextAttemptAt: timestamp, updatedAt: timestamp })
+      .where(
+        and(
+          eq(webhookDeliveries.status, 'sending'),
+          lte(webhookDeliveries.updatedAt, new Date(Date.now() - STALE_SENDING_MS).toISOString())
+        )
+      );
+
+    const due = await db
+      .select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .where(
+        and(
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, timestamp),
+          eq(webhookSubscriptions.enabled, true)
+        )
+      )
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(DUE_BATCH_SIZE);
+
+    const result: WebhookRunResult = { delivered: 0, retrying: 0, failed: 0 };
+    for (const { delivery } of due) {
+      // Re-read: an earlier failure in this batch may have disabled the subscription
+      const subscription = await this.getRow(delivery.subscriptionId);
+      if (!subscription.enabled) continue;
+
+      const attempted = await this.attempt(delivery, subscription);
+      if (attempted.status === 'success') result.delivered++;
+      else if (attempted.status === 'failed') result.failed++;
+      else if (attempted.status === 'pending') result.retrying++;
+    }
+
+    if (due.length > 0) {
+      log.info({ ...result }, 'Webhook retries processed');
+    }
+    return result;
+  }
+
+  // ----- Internals -----
+
+  private async getRow(id: string): Promise<WebhookSubscription> {
+    const [row] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).limit(1);
+    if (!row) {
+      throw new NotFoundError('Webhook subscription', id);
+    }
+    return row;
+  }
+
+  private async enqueue(
+    subscription: WebhookSubscription,
+    eventType: string,
+    payload: string,
+    redeliveryOf?: string
+  ): Promise<WebhookDelivery> {
+    const timestamp = now();
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        id: generateId('webhookDelivery'),
+        subscriptionId: subscription.id,
+        eventType,
+        payload,
+        status: 'pending',
+        nextAttemptAt: timestamp,
+        redeliveryOf: redeliveryOf ?? null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .returning();
+    return delivery!;
+  }
+
+  /**
+   * POST a delivery once and record the outcome: success, another attempt
+   * after backoff, or failed once attempts run out.
+   */
+  private async attempt(pending: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    // Claim the delivery so an overlapping scheduler run can't POST it twice
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ status: 'sending', updatedAt: now() })
+      .where(and(eq(webhookDeliveries.id, pending.id), eq(webhookDeliveries.status, 'pending')))
+      .returning();
+    if (!delivery) return pending;
+
+    const signature = createHmac('sha256', decrypt(subscription.secretEncrypted)).update(delivery.payload).digest('hex');
+    const attempts = delivery.attempts + 1;
+    const started = Date.now();
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'JackTheButler-Webhooks/1.0',
+          'X-Jack-Event': delivery.eventType,
+          'X-Jack-Delivery': delivery.id,
+          'X-Jack-Signature': `sha256=${signature}`,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+    }
+
+    const timestamp = now();
+    const succeeded = error === null;
+    const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({
+        status: succeeded ? 'success' : exhausted ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt:
+          succeeded || exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+        responseStatus,
+        error,
+        durationMs: Date.now() - started,
+        deliveredAt: succeeded ? timestamp : null,
+        updatedAt: timestamp,
+      })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning();
+
+    if (succeeded) {
+      await db
+        .update(webhookSubscriptions)
+        .set({ consecutiveFailures: 0, lastDeliveryAt: timestamp })
+        .where(eq(webhookSubscriptions.id, subscription.id));
+    } else {
+      log.warn(
+        { subscriptionId: subscription.id, deliveryId: delivery.id, attempts, error },
+        'Webhook delivery attempt failed'
+      );
+      await this.recordFailure(subscription.id);
+    }
+
+    return updated!;
+  }
+
+  /**
+   * Count a failed attempt; too many in a row disables the subscription and
+   * gives up on its queued deliveries.
+   */
+  private async recordFailure(subscriptionId: string): Promise<void> {
+    const [row] = await db
+      .update(webhookSubscriptions)
+      .set({ consecutiveFailures: sql`${webhookSubscriptions.consecutiveFailures} + 1` })
+      .where(eq(webhookSubscriptions.id, subscriptionId))
+      .returning();
+    if (!row || !row.enabled || row.consecutiveFailures < AUTO_DISABLE_AFTER) return;
+
+    const timestamp = now();
+    await db
+      .update(webhookSubscriptions)
+      .set({
+        enabled: false,
+        disabledReason: `Disabled after ${row.consecutiveFailures} failed delivery attempts in a row`,
+        updatedAt: timestamp,
+      })
+      .where(eq(webhookSubscriptions.id, subscriptionId));
+    await db
+      .update(webhookDeliveries)
+      .set({ status: 'failed', nextAttemptAt: null, error: 'Subscription disabled', updatedAt: timestamp })
+      .where(and(eq(webhookDeliveries.subscriptionId, subscriptionId), eq(webhookDeliveries.status, 'pending')));
+
+    log.warn({ subscriptionId, failures: row.consecutiveFailures }, 'Webhook subscription auto-disabled');
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const outboundWebhookService = new OutboundWebhookService();
+
+/**
+ * Forward subscribable events to outbound webhooks.
+ * Call once during server startup after the database is ready.
+ */
+export function subscribeOutboundWebhooksToEvents(): void {
+  for (const type of WEBHOOK_EVENT_TYPES) {
+    events.on(type, (event: AppEvent) => {
+      // Fire-and-forget — delivery must never block or break the emitter
+      outboundWebhookService.dispatch(event).catch((err) => {
+        log.error({ err, type }, 'Failed to dispatch outbound webhooks');
+      });
+    });
+  }
+
+  log.info({ events: WEBHOOK_EVENT_TYPES.length }, 'Outbound webhooks subscribed to events');
+}
@@ -6,13 +6,13 @@
  */
 
 import { eq, and, or, sql } from 'drizzle-orm';
-import { db, guests, reservations } from '@/db/index.js';
+import { db, guests, reservations, rooms } from '@/db/index.js';
 import { generateId } from '@/utils/id.js';
 import { createLogger } from '@/utils/logger.js';
 import { normalizePhone } from '@/services/guest.js';
 import { getAppRegistry } from '@/apps/index.js';
-import type { NormalizedGuest, NormalizedReservation, SyncResult } from '@jackthebutler/shared';
-import type { Guest, Reservation } from '@/db/schema.js';
+import type { NormalizedGuest, NormalizedReservation, NormalizedRoom, RoomStatus, SyncResult } from '@jackthebutler/shared';
+import type { Guest, Reservation, Room } from '@/db/schema.js';
 import { now } from '@/utils/time.js';
 import { events, EventTypes } from '@/events/index.js';
 
@@ -23,6 +23,19 @@ const DEFAULT_STALENESS_THRESHOLD_MS = 5 * 60 * 1000;
 /** Default sync interval: 15 minutes */
 const DEFAULT_SYNC_INTERVAL_S = 900;
 
+const ROOM_STATUSES: ReadonlySet<string> = new Set<RoomStatus>([
+  'vacant',
+  'occupied',
+  'dirty',
+  'clean',
+  'inspected',
+  'out_of_order',
+]);
+
+export function isRoomStatus(value: string): value is RoomStatus {
+  return ROOM_STATUSES.has(value);
+}
+
 export class PMSSyncService {
   private pendingRefreshes = new Map<string, Promise<Reservation | null>>();
 
@@ -250,6 +263,150 @@ export class PMSSyncService {
     return 'created';
   }
 
+  /**
+   * Sync every room from the PMS. Rooms the PMS stops reporting are kept.
+   */
+  async syncRooms(): Promise<SyncResult> {
+    const adapter = getAppRegistry().getActivePMSAdapter();
+    const result: SyncResult = { created: 0, updated: 0, unchanged: 0, errors: 0, errorDetails: [] };
+
+    if (!adapter) {
+      log.warn('No PMS adapter configured, skipping room sync');
+      return result;
+    }
+
+    const pmsRooms = await adapter.getAllRooms();
+
+    for (const pmsRoom of pmsRooms) {
+      try {
+        const action = await this.upsertRoom(pmsRoom);
+        result[action]++;
+      } catch (err) {
+        result.errors++;
+        result.errorDetails?.push({
+          id: pmsRoom.number,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+        log.error({ err, roomNumber: pmsRoom.number }, 'Error syncing room');
+      }
+    }
+
+    log.info(
+      { created: result.created, updated: result.updated, unchanged: result.unchanged, errors: result.errors },
+      'Room sync complete'
+    );
+    return result;
+  }
+
+  /**
+   * Upsert a room from PMS data
+   */
+  async upsertRoom(pmsRoom: NormalizedRoom): Promise<'created' | 'updated' | 'unchanged'> {
+    const currentReservationId = await this.findCurrentReservationId(pmsRoom);
+    const [existing] = await db.select().from(rooms).where(eq(rooms.number, pmsRoom.number)).limit(1);
+
+    if (existing) {
+      const hasChanges =
+        existing.status !== pmsRoom.status ||
+        existing.type !== pmsRoom.type ||
+        existing.floor !== (pmsRoom.floor ?? null) ||
+        existing.currentReservationId !== currentReservationId;
+
+      if (!hasChanges) {
+        await db.update(rooms).set({ syncedAt: now() }).where(eq(rooms.id, existing.id));
+        return 'unchanged';
+      }
+
+      await db
+        .update(rooms)
+        .set({
+          type: pmsRoom.type,
+          floor: pmsRoom.floor ?? null,
+          status: pmsRoom.status,
+          ...(existing.status !== pmsRoom.status && { statusChangedAt: now() }),
+          currentReservationId,
+          syncedAt: now(),
+          updatedAt: now(),
+        })
+        .where(eq(rooms.id, existing.id));
+
+      if (existing.status !== pmsRoom.status) {
+        this.emitRoomStatusChanged(pmsRoom.number, existing.status, pmsRoom.status);
+      }
+      return 'updated';
+    }
+
+    await db.insert(rooms).values({
+      id: generateId('room'),
+      number: pmsRoom.number,
+      type: pmsRoom.type,
+      floor: pmsRoom.floor ?? null,
+      status: pmsRoom.status,
+      statusChangedAt: now(),
+      currentReservationId,
+      syncedAt: now(),
+      createdAt: now(),
+      updatedAt: now(),
+    });
+
+    log.debug({ roomNumber: pmsRoom.number }, 'Created room');
+    return 'created';
+  }
+
+  /**
+   * Apply a room status pushed by a PMS webhook. Unknown rooms are left
+   * for the next room sync, which also brings in their type and floor.
+   */
+  async updateRoomStatus(roomNumber: string, status: RoomStatus): Promise<Room | null> {
+    const [existing] = await db.select().from(rooms).where(eq(rooms.number, roomNumber)).limit(1);
+    if (!existing) {
+      log.warn({ roomNumber, status }, 'Status change for unknown room, waiting for next room sync');
+      return null;
+    }
+    if (existing.status === status) return existing;
+
+    await db
+      .update(rooms)
+      .set({ status, statusChangedAt: now(), syncedAt: now(), updatedAt: now() })
+      .where(eq(rooms.id, existing.id));
+
+    this.emitRoomStatusChanged(roomNumber, existing.status, status);
+    return { ...existing, status };
+  }
+
+  /**
+   * Internal ID of the reservation in the room: the one the PMS names,
+   * otherwise the checked-in reservation assigned to the room
+   */
+  private async findCurrentReservationId(pmsRoom: NormalizedRoom): Promise<string | null> {
+    if (pmsRoom.currentReservationId) {
+      const [byExternalId] = await db
+        .select({ id: reservations.id })
+        .from(reservations)
+        .where(eq(reservations.externalId, pmsRoom.currentReservationId))
+        .limit(1);
+      if (byExternalId) return byExternalId.id;
+    }
+
+    const [checkedIn] = await db
+      .select({ id: reservations.id })
+      .from(reservations)
+      .where(and(eq(reservations.roomNumber, pmsRoom.number), eq(reservations.status, 'checked_in')))
+      .limit(1);
+    return checkedIn?.id ?? null;
+  }
+
+  private emitRoomStatusChanged(roomNumber: string, previousStatus: string, status: string): void {
+    log.info({ roomNumber, previousStatus, status }, 'Room status changed');
+    events.emit({
+      type: EventTypes.ROOM_STATUS_CHANGED,
+      timestamp: new Date(),
+      roomNumber,
+      previousStatus,
+      status,
+    });
+  }
+
   /**
    * Find active/upcoming reservation for a guest
    */
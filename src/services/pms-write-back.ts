@@ -0,0 +1,218 @@
+/**
+ * PMS Write-back Service
+ *
+ * Pushes a completed task back to the PMS: a note on the guest's
+ * reservation, a new departure time for a late checkout, an out-of-order
+ * block on a room, or a charge on the folio. The action is stored on the
+ * task (`pms_action`) when it is created; `TaskService.complete` calls
+ * `push` and staff can retry a failed push from the task list.
+ *
+ * Every attempt is written to the audit log. The outcome is kept on the
+ * task (`pms_sync_status`, `pms_sync_error`) so failures stay visible.
+ *
+ * @module services/pms-write-back
+ */
+
+import { eq } from 'drizzle-orm';
+import { getAppRegistry } from '@/apps/index.js';
+import { db, conversations, reservations, tasks } from '@/db/index.js';
+import type { Task } from '@/db/schema.js';
+import { getAuditService } from '@/services/audit.js';
+import { hotelProfileService } from '@/services/hotel-profile.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+import type { PMSAdapter, PMSWriteResult } from '@jackthebutler/shared';
+
+const log = createLogger('pms-write-back');
+
+// ===================
+// Types
+// ===================
+
+/**
+ * `reservationId` is the local reservation the action applies to. Without
+ * it, the reservation linked to the task's conversation is used.
+ */
+export type PMSTaskAction =
+  | { type: 'reservation_note'; note?: string | undefined; reservationId?: string | undefined }
+  | { type: 'departure_time'; departureTime: string; reservationId?: string | undefined }
+  | { type: 'room_out_of_order'; until: string; reason?: string | undefined }
+  | {
+      type: 'service_charge';
+      amount: number;
+      currency?: string | undefined;
+      description?: string | undefined;
+      reservationId?: string | undefined;
+    };
+
+export type PMSSyncStatus = 'synced' | 'failed';
+
+export interface PMSWriteBackResult {
+  status: PMSSyncStatus;
+  externalId?: string;
+  error?: string;
+}
+
+/** Failure with a message fit to show staff on the task */
+class WriteBackError extends Error {}
+
+// ===================
+// Helpers
+// ===================
+
+/**
+ * Parse the stored action; null when the task has none
+ */
+export function parsePMSAction(raw: string | null): PMSTaskAction | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PMSTaskAction;
+  } catch {
+    return null;
+  }
+}
+
+function noteFor(task: Task, action: { note?: string | undefined }): string {
+  const lines = [action.note ?? task.description];
+  if (task.completionNotes) lines.push(`Completed: ${task.completionNotes}`);
+  return lines.join('\n');
+}
+
+// ===================
+// Service
+// ===================
+
+export class PMSWriteBackService {
+  /**
+   * Push the task's PMS action and record the outcome. Never throws —
+   * a failed push is stored on the task for staff to see and retry.
+   */
+  async push(task: Task): Promise<PMSWriteBackResult> {
+    const action = parsePMSAction(task.pmsAction);
+    if (!action) {
+      return this.record(task, null, { status: 'failed', error: 'Task has no valid PMS action' });
+    }
+
+    let result: PMSWriteBackResult;
+    try {
+      const written = await this.write(task, action);
+      result = { status: 'synced', ...(written.externalId && { externalId: written.externalId }) };
+    } catch (err) {
+      const error = err instanceof WriteBackError ? err.message : `PMS rejected the update: ${(err as Error).message}`;
+      log.warn({ taskId: task.id, action: action.type, error }, 'PMS write-back failed');
+      result = { status: 'failed', error };
+    }
+
+    return this.record(task, action, result);
+  }
+
+  private async write(task: Task, action: PMSTaskAction): Promise<PMSWriteResult> {
+    const adapter = getAppRegistry().getActivePMSAdapter();
+    if (!adapter) throw new WriteBackError('No PMS is connected');
+
+    switch (action.type) {
+      case 'reservation_note': {
+        const method = this.require(adapter, 'addReservationNote');
+        const reservation = await this.reservationFor(task, action.reservationId);
+        return method.call(adapter, reservation.externalId, noteFor(task, action));
+      }
+      case 'departure_time': {
+        const method = this.require(adapter, 'updateDepartureTime');
+        const reservation = await this.reservationFor(task, action.reservationId);
+        return method.call(adapter, reservation.externalId, action.departureTime);
+      }
+      case 'room_out_of_order': {
+        const method = this.require(adapter, 'setRoomOutOfOrder');
+        const roomNumber = task.roomNumber ?? (await this.reservationFor(task)).roomNumber;
+        if (!roomNumber) throw new WriteBackError('Task has no room number');
+        return method.call(adapter, roomNumber, {
+          reason: action.reason ?? task.description,
+          from: now(),
+          until: action.until,
+        });
+      }
+      case 'service_charge': {
+        const method = this.require(adapter, 'postServiceCharge');
+        const reservation = await this.reservationFor(task, action.reservationId);
+        const currency = action.currency ?? (await hotelProfileService.getProfile()).profile.currency;
+        return method.call(adapter, reservation.externalId, {
+          description: action.description ?? task.description,
+          amount: action.amount,
+          currency,
+        });
+      }
+    }
+  }
+
+  private require<K extends 'addReservationNote' | 'updateDepartureTime' | 'setRoomOutOfOrder' | 'postServiceCharge'>(
+    adapter: PMSAdapter,
+    method: K
+  ): NonNullable<PMSAdapter[K]> {
+    const fn = adapter[method];
+    if (!fn) throw new WriteBackError(`The connected PMS (${adapter.provider}) does not support ${method}`);
+    return fn as NonNullable<PMSAdapter[K]>;
+  }
+
+  /**
+   * The PMS reservation named by the action, else the one behind the
+   * task's conversation
+   */
+  private async reservationFor(
+    task: Task,
+    reservationId?: string | undefined
+  ): Promise<{ externalId: string; roomNumber: string | null }> {
+    const columns = { externalId: reservations.externalId, roomNumber: reservations.roomNumber };
+    let row: { externalId: string | null; roomNumber: string | null } | undefined;
+
+    if (reservationId) {
+      [row] = await db.select(columns).from(reservations).where(eq(reservations.id, reservationId)).limit(1);
+      if (!row) throw new WriteBackError('The task\'s reservation no longer exists');
+    } else {
+      if (!task.conversationId) throw new WriteBackError('Task is not linked to a conversation');
+      [row] = await db
+        .select(columns)
+        .from(conversations)
+        .innerJoin(reservations, eq(conversations.reservationId, reservations.id))
+        .where(eq(conversations.id, task.conversationId))
+        .limit(1);
+      if (!row) throw new WriteBackError('No reservation is linked to the conversation');
+    }
+
+    if (!row.externalId) throw new WriteBackError('Reservation has no PMS ID');
+    return { externalId: row.externalId, roomNumber: row.roomNumber };
+  }
+
+  private async record(
+    task: Task,
+    action: PMSTaskAction | null,
+    result: PMSWriteBackResult
+  ): Promise<PMSWriteBackResult> {
+    const timestamp = now();
+    await db
+      .update(tasks)
+      .set({
+        pmsSyncStatus: result.status,
+        pmsSyncError: result.error ?? null,
+        pmsSyncedAt: result.status === 'synced' ? timestamp : null,
+        updatedAt: timestamp,
+      })
+      .where(eq(tasks.id, task.id));
+
+    getAuditService()
+      .log({
+        actorType: 'system',
+        action: 'pms_write_back',
+        resourceType: 'task',
+        resourceId: task.id,
+        details: { action, ...result },
+      })
+      .catch(() => {});
+
+    if (result.status === 'synced') {
+      log.info({ taskId: task.id, action: action?.type, externalId: result.externalId }, 'Task pushed to PMS');
+    }
+    return result;
+  }
+}
+
+export const pmsWriteBackService = new PMSWriteBackService();
@@ -0,0 +1,243 @@
+/**
+ * Reply Draft Service
+ *
+ * Suggested replies for staff answering a conversation in the inbox: a
+ * suggested reply plus alternates in other tones, written from the same
+ * guest context, memories and knowledge the AI responder draws on. Each
+ * suggestion is written in the property language (what staff type in) and
+ * translated to the guest's language for review. Records whether the
+ * suggestion inserted into the composer was sent unchanged or edited.
+ *
+ * @module services/reply-drafts
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import type { Message as PkgMessage } from '@thebutler/pipeline';
+import type { ChannelType, ContentType } from '@jackthebutler/shared';
+import { getAppRegistry } from '@/apps/index.js';
+import { db, messages, replyDrafts } from '@/db/index.js';
+import type { ReplyDraft } from '@/db/schema.js';
+import { AppError, NotFoundError, ValidationError } from '@/errors/index.js';
+import { aiProvider } from '@/pipeline/adapters.js';
+import { loadReplyContext } from '@/pipeline/index.js';
+import { DRAFT_TONES, drafterPrompt, type DraftTone } from '@/pipeline/prompts.js';
+import { conversationService } from '@/services/conversation.js';
+import { translate } from '@/services/translation.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+
+const log = createLogger('reply-drafts');
+
+// ===================
+// Types
+// ===================
+
+export interface DraftSuggestion {
+  tone: DraftTone;
+  /** Reply in the property language, as inserted into the composer */
+  content: string;
+  /** What the guest would receive; null when they share the property language */
+  translation: string | null;
+}
+
+export interface ReplyDraftDTO extends Omit<ReplyDraft, 'suggestions'> {
+  /** The suggested reply first, then the alternates */
+  suggestions: DraftSuggestion[];
+}
+
+/** accepted = sent unchanged, edited = changed in the composer before sending */
+export type ReplyDraftOutcome = 'accepted' | 'edited';
+
+// ===================
+// Constants
+// ===================
+
+/** Suggested reply plus up to three alternates */
+const MAX_SUGGESTIONS = 4;
+
+// ===================
+// Helpers
+// ===================
+
+function toDTO(row: ReplyDraft): ReplyDraftDTO {
+  return { ...row, suggestions: JSON.parse(row.suggestions || '[]') };
+}
+
+/**
+ * Strips markdown code fences the AI sometimes wraps around JSON output.
+ */
+function stripCodeFences(raw: string): string {
+  return raw
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/i, '')
+    .trim();
+}
+
+/**
+ * Pull `{ tone, content }` pairs out of the drafter's JSON, one per tone,
+ * dropping anything malformed
+ */
+function parseDrafts(raw: string): Array<{ tone: DraftTone; content: string }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFences(raw));
+  } catch {
+    return [];
+  }
+  const drafts = (parsed as { drafts?: unknown } | null)?.drafts;
+  if (!Array.isArray(drafts)) return [];
+
+  const result: Array<{ tone: DraftTone; content: string }> = [];
+  for (const draft of drafts) {
+    const { tone, content } = (draft ?? {}) as Record<string, unknown>;
+    if (typeof tone !== 'string' || !(DRAFT_TONES as readonly string[]).includes(tone)) continue;
+    if (typeof content !== 'string' || !content.trim()) continue;
+    if (result.some((d) => d.tone === tone)) continue;
+    result.push({ tone: tone as DraftTone, content: content.trim() });
+  }
+  return result.slice(0, MAX_SUGGESTIONS);
+}
+
+/** History as the drafter reads it; inbound turns are already in the property language */
+function formatTranscript(history: readonly PkgMessage[]): string {
+  return history.map((m) => `${m.role === 'user' ? 'Guest' : 'Hotel'}: ${m.content}`).join('\n');
+}
+
+/** Whitespace-insensitive comparison of a sent message with a suggestion */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// ===================
+// Service
+// ===================
+
+export class ReplyDraftService {
+  /**
+   * Draft replies to the latest guest message in a conversation
+   */
+  async generate(conversationId: string, staffId: string | null): Promise<ReplyDraftDTO> {
+    const conversation = await conversationService.getById(conversationId);
+
+    const [inbound] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.direction, 'inbound')))
+      .orderBy(desc(messages.createdAt))
+      .limit(1);
+    if (!inbound) {
+      throw new ValidationError('Conversation has no guest message to reply to');
+    }
+    if (!getAppRegistry().getActiveAIProvider()) {
+      throw new ValidationError('No active AI provider configured');
+    }
+
+    const { ctx, env } = await loadReplyContext(
+      {
+        id: inbound.id,
+        conversationId,
+        channel: conversation.channelType as ChannelType,
+        channelId: conversation.channelId,
+        content: inbound.content,
+        contentType: inbound.contentType as ContentType,
+        timestamp: new Date(inbound.createdAt),
+      },
+      inbound.translatedContent ?? undefined
+    );
+
+    const response = await aiProvider.complete({
+      messages: [
+        { role: 'system', content: await drafterPrompt(ctx, env) },
+        {
+          role: 'user',
+          content: `Here is the conversation so far:\n\n${formatTranscript(ctx.history ?? [])}\n\nDraft the replies as JSON.`,
+        },
+      ],
+      modelTier: 'reasoning',
+      temperature: 0.7,
+      maxTokens: 1500,
+      purpose: 'reply_draft',
+    });
+
+    const drafts = parseDrafts(response.content);
+    if (drafts.length === 0) {
+      log.warn({ conversationId, raw: response.content }, 'Drafter returned no usable replies');
+      throw new AppError('The AI provider did not return any usable reply suggestions', 'AI_PROVIDER_ERROR', 502);
+    }
+
+    // Same language pair the staff message endpoint translates with
+    const guestLanguage = conversation.guestLanguage ?? 'en';
+    const suggestions: DraftSuggestion[] = [];
+    for (const draft of drafts) {
+      let translation: string | null = null;
+      if (guestLanguage !== env.systemLanguage) {
+        try {
+          translation = await translate(draft.content, guestLanguage, env.systemLanguage);
+        } catch (err) {
+          log.warn({ err, conversationId }, 'Reply suggestion translation failed');
+        }
+      }
+      suggestions.push({ ...draft, translation });
+    }
+
+    const [row] = await db
+      .insert(replyDrafts)
+      .values({
+        id: generateId('replyDraft'),
+        conversationId,
+        messageId: inbound.id,
+        staffId,
+        language: guestLanguage,
+        suggestions: JSON.stringify(suggestions),
+        createdAt: now(),
+      })
+      .returning();
+
+    log.info(
+      { conversationId, draftId: row!.id, suggestions: suggestions.length, knowledgeHits: ctx.knowledgeHits?.length ?? 0 },
+      'Reply suggestions drafted'
+    );
+    return toDTO(row!);
+  }
+
+  /**
+   * Record that a suggestion was inserted into the composer and sent as
+   * `messageId`. Only the first send counts.
+   */
+  async recordUse(
+    draftId: string,
+    conversationId: string,
+    index: number,
+    messageId: string,
+    sentContent: string
+  ): Promise<ReplyDraftOutcome> {
+    const [row] = await db
+      .select()
+      .from(replyDrafts)
+      .where(and(eq(replyDrafts.id, draftId), eq(replyDrafts.conversationId, conversationId)))
+      .limit(1);
+    if (!row) {
+      throw new NotFoundError('Reply draft', draftId);
+    }
+    if (row.outcome) {
+      return row.outcome as ReplyDraftOutcome;
+    }
+
+    const suggestion = toDTO(row).suggestions[index];
+    if (!suggestion) {
+      throw new ValidationError(`Reply draft has no suggestion ${index}`);
+    }
+
+    const outcome: ReplyDraftOutcome = normalize(sentContent) === normalize(suggestion.content) ? 'accepted' : 'edited';
+    await db
+      .update(replyDrafts)
+      .set({ outcome, chosenIndex: index, sentMessageId: messageId, usedAt: now() })
+      .where(eq(replyDrafts.id, draftId));
+
+    log.info({ conversationId, draftId, tone: suggestion.tone, outcome }, 'Reply suggestion sent');
+    return outcome;
+  }
+}
+
+export const replyDraftService = new ReplyDraftService();
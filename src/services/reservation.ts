@@ -8,6 +8,7 @@ import { eq, and, desc, gte, inArray, sql } from 'drizzle-orm';
 import { db, reservations, guests, conversations, tasks } from '@/db/index.js';
 import type { Guest, Reservation } from '@/db/schema.js';
 import { settingsService } from '@/services/settings.js';
+import { guestJourneyService, type JourneySendEntry } from '@/services/guest-journey.js';
 import { NotFoundError } from '@/errors/index.js';
 import { now } from '@/utils/time.js';
 
@@ -69,6 +70,7 @@ export interface ReservationDetail extends Omit<Reservation, 'specialRequests' |
   _related: {
     conversations: { id: string; channelType: string; state: string; lastMessageAt: string | null }[];
     tasks: { id: string; type: string; description: string; status: string; priority: string }[];
+    journeySends: JourneySendEntry[];
   };
 }
 
@@ -241,7 +243,8 @@ export class ReservationService {
   }
 
   /**
-   * A single reservation with full guest details and related conversations/tasks.
+   * A single reservation with full guest details, related conversations/tasks,
+   * and the guest journey send log.
    * Throws NotFoundError if the reservation does not exist.
    */
   async getById(id: string): Promise<ReservationDetail> {
@@ -285,6 +288,8 @@ export class ReservationService {
             .all()
         : [];
 
+    const journeySends = await guestJourneyService.getSendsForReservation(id);
+
     return {
       ...result.reservation,
       specialRequests: JSON.parse(result.reservation.specialRequests || '[]'),
@@ -315,6 +320,7 @@ export class ReservationService {
           status: t.status,
           priority: t.priority,
         })),
+        journeySends,
       },
     };
   }
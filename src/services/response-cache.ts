@@ -0,0 +1,201 @@
+/**
+ * Response Cache Service
+ *
+ * Semantic cache for AI answers to repeated, non-personal FAQ questions
+ * ("what's the WiFi password?", "is there parking?"). Entries are keyed by
+ * a hash of the normalized question for exact repeats and by the question's
+ * embedding for paraphrases, always scoped to the classified intent.
+ *
+ * Each entry remembers which knowledge-base entries it was grounded on so
+ * editing, archiving, or deleting one of them drops the stale answers.
+ *
+ * @module services/response-cache
+ */
+
+import { createHash } from 'node:crypto';
+import { eq, sql } from 'drizzle-orm';
+import { db, sqlite, responseCache } from '@/db/index.js';
+import type { ResponseCacheEntry } from '@/db/schema.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+
+const log = createLogger('response-cache');
+
+// ===================
+// Types
+// ===================
+
+export interface CacheLookupInput {
+  query: string;
+  intent: string;
+  embedding?: readonly number[] | undefined;
+}
+
+export interface CacheStoreInput extends CacheLookupInput {
+  response: string;
+  knowledgeIds: string[];
+}
+
+export interface CacheHit {
+  entry: ResponseCacheEntry;
+  /** 1 for an exact (hash) match, otherwise cosine similarity */
+  similarity: number;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** How long an answer is served before it is regenerated */
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Paraphrases must be this close to a cached question to reuse its answer */
+const MIN_SIMILARITY = 0.92;
+
+/** Least-recently-used entries beyond this are evicted on write */
+const MAX_ENTRIES = 500;
+
+// ===================
+// Service
+// ===================
+
+export class ResponseCacheService {
+  /**
+   * Normalize a question so trivial differences (case, punctuation,
+   * spacing) hash to the same key
+   */
+  normalizeQuery(query: string): string {
+    return query
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  hashQuery(query: string): string {
+    return createHash('sha256').update(this.normalizeQuery(query)).digest('hex');
+  }
+
+  /**
+   * Find a live cached answer for this question and intent. Records the hit.
+   */
+  async lookup(input: CacheLookupInput): Promise<CacheHit | null> {
+    const timestamp = now();
+
+    let hit: CacheHit | null = null;
+
+    const [exact] = await db
+      .select()
+      .from(responseCache)
+      .where(eq(responseCache.queryHash, this.hashQuery(input.query)))
+      .limit(1);
+    if (exact && exact.intent === input.intent && exact.expiresAt > timestamp) {
+      hit = { entry: exact, similarity: 1 };
+    }
+
+    if (!hit && input.embedding && input.embedding.length > 0) {
+      const queryBuf = Buffer.from(new Float32Array(input.embedding).buffer);
+      // length() guard skips rows embedded by a model with different dimensions
+      const [best] = sqlite
+        .prepare(
+          `SELECT id, (1.0 - vec_distance_cosine(embedding, vec_f32(?))) AS similarity
+           FROM response_cache
+           WHERE intent = ? AND expires_at > ? AND embedding IS NOT NULL AND length(embedding) = ?
+           ORDER BY similarity DESC
+           LIMIT 1`
+        )
+        .all(queryBuf, input.intent, timestamp, queryBuf.length) as Array<{ id: string; similarity: number }>;
+
+      if (best && best.similarity >= MIN_SIMILARITY) {
+        const [entry] = await db.select().from(responseCache).where(eq(responseCache.id, best.id)).limit(1);
+        if (entry) hit = { entry, similarity: best.similarity };
+      }
+    }
+
+    if (!hit) return null;
+
+    await db
+      .update(responseCache)
+      .set({ hitCount: sql`${responseCache.hitCount} + 1`, lastHitAt: timestamp })
+      .where(eq(responseCache.id, hit.entry.id));
+
+    log.debug({ id: hit.entry.id, intent: input.intent, similarity: hit.similarity }, 'Response cache hit');
+    return hit;
+  }
+
+  /**
+   * Store (or refresh) the answer for a question, then prune expired and
+   * least-recently-used entries.
+   */
+  async store(input: CacheStoreInput): Promise<void> {
+    const timestamp = now();
+    const values = {
+      query: input.query,
+      response: input.response,
+      intent: input.intent,
+      embedding: input.embedding?.length ? Buffer.from(new Float32Array(input.embedding).buffer) : null,
+      knowledgeIds: JSON.stringify(input.knowledgeIds),
+      expiresAt: new Date(Date.now() + TTL_MS).toISOString(),
+    };
+
+    await db
+      .insert(responseCache)
+      .values({ id: generateId('responseCache'), queryHash: this.hashQuery(input.query), ...values, createdAt: timestamp })
+      .onConflictDoUpdate({
+        target: responseCache.queryHash,
+        set: { ...values, hitCount: 0, lastHitAt: null, createdAt: timestamp },
+      });
+
+    this.prune(timestamp);
+  }
+
+  /**
+   * Drop every entry grounded on the given knowledge entry.
+   * Returns the number of entries removed.
+   */
+  invalidateByKnowledgeId(knowledgeId: string): number {
+    const result = sqlite
+      .prepare(
+        `DELETE FROM response_cache
+         WHERE EXISTS (SELECT 1 FROM json_each(response_cache.knowledge_ids) WHERE value = ?)`
+      )
+      .run(knowledgeId);
+    const removed = result.changes ?? 0;
+    if (removed > 0) {
+      log.info({ knowledgeId, removed }, 'Invalidated cached responses');
+    }
+    return removed;
+  }
+
+  /**
+   * Drop everything — used when context shared by all answers changes
+   * (hotel profile, full knowledge reset)
+   */
+  clear(): number {
+    const removed = sqlite.prepare('DELETE FROM response_cache').run().changes ?? 0;
+    if (removed > 0) {
+      log.info({ removed }, 'Response cache cleared');
+    }
+    return removed;
+  }
+
+  /**
+   * Remove expired entries and keep at most MAX_ENTRIES, evicting the
+   * least recently used
+   */
+  private prune(timestamp: string): void {
+    sqlite.prepare('DELETE FROM response_cache WHERE expires_at <= ?').run(timestamp);
+    sqlite
+      .prepare(
+        `DELETE FROM response_cache WHERE id IN (
+           SELECT id FROM response_cache
+           ORDER BY COALESCE(last_hit_at, created_at) DESC
+           LIMIT -1 OFFSET ?
+         )`
+      )
+      .run(MAX_ENTRIES);
+  }
+}
+
+export const responseCacheService = new ResponseCacheService();
@@ -0,0 +1,118 @@
+/**
+ * Room Service
+ *
+ * Read side of the rooms table kept in sync with the PMS: the housekeeping
+ * board (rooms with their guest and open tasks) and room number checks for
+ * new tasks. Writes happen in PMSSyncService.
+ *
+ * @module services/room
+ */
+
+import { asc, eq, inArray, sql } from 'drizzle-orm';
+import { db, guests, reservations, rooms, tasks } from '@/db/index.js';
+import type { Room } from '@/db/schema.js';
+import { ValidationError } from '@/errors/index.js';
+
+/** Task statuses shown on the board */
+const OPEN_TASK_STATUSES = ['pending', 'assigned', 'in_progress'];
+
+// ===================
+// Types
+// ===================
+
+export interface RoomBoardTask {
+  id: string;
+  type: string;
+  department: string;
+  description: string;
+  priority: string;
+  status: string;
+  dueAt: string | null;
+}
+
+export interface RoomBoardEntry extends Room {
+  guestName: string | null;
+  openTasks: RoomBoardTask[];
+}
+
+// ===================
+// Service
+// ===================
+
+export class RoomService {
+  /**
+   * Every room ordered by floor and number, with the current guest and the
+   * room's open tasks
+   */
+  async listBoard(): Promise<RoomBoardEntry[]> {
+    const rows = await db
+      .select({
+        room: rooms,
+        firstName: guests.firstName,
+        lastName: guests.lastName,
+      })
+      .from(rooms)
+      .leftJoin(reservations, eq(rooms.currentReservationId, reservations.id))
+      .leftJoin(guests, eq(reservations.guestId, guests.id))
+      .orderBy(asc(rooms.floor), asc(sql`length(${rooms.number})`), asc(rooms.number));
+
+    const openTasks = await db
+      .select({
+        id: tasks.id,
+        roomNumber: tasks.roomNumber,
+        type: tasks.type,
+        department: tasks.department,
+        description: tasks.description,
+        priority: tasks.priority,
+        status: tasks.status,
+        dueAt: tasks.dueAt,
+      })
+      .from(tasks)
+      .where(inArray(tasks.status, OPEN_TASK_STATUSES))
+      .orderBy(asc(tasks.createdAt));
+
+    const tasksByRoom = new Map<string, RoomBoardTask[]>();
+    for (const { roomNumber, ...task } of openTasks) {
+      if (!roomNumber) continue;
+      const list = tasksByRoom.get(roomNumber) ?? [];
+      list.push(task);
+      tasksByRoom.set(roomNumber, list);
+    }
+
+    return rows.map(({ room, firstName, lastName }) => ({
+      ...room,
+      guestName: firstName || lastName ? [firstName, lastName].filter(Boolean).join(' ') : null,
+      openTasks: tasksByRoom.get(room.number) ?? [],
+    }));
+  }
+
+  /**
+   * Get a room by its number
+   */
+  async findByNumber(roomNumber: string): Promise<Room | null> {
+    const [room] = await db.select().from(rooms).where(eq(rooms.number, roomNumber)).limit(1);
+    return room ?? null;
+  }
+
+  /**
+   * Whether the PMS knows the room. Until the first room sync the table is
+   * empty and any number is accepted.
+   */
+  async isKnownRoom(roomNumber: string): Promise<boolean> {
+    if (await this.findByNumber(roomNumber)) return true;
+
+    const [row] = await db.select({ count: sql<number>`count(*)` }).from(rooms);
+    return (row?.count ?? 0) === 0;
+  }
+
+  /**
+   * Throw a ValidationError for a room the PMS does not know
+   */
+  async assertKnownRoom(roomNumber: string): Promise<void> {
+    if (!(await this.isKnownRoom(roomNumber))) {
+      throw new ValidationError(`Unknown room number: ${roomNumber}`);
+    }
+  }
+}
+
+export const roomService = new RoomService();
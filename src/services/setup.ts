@@ -10,6 +10,7 @@
 import { eq } from 'drizzle-orm';
 import { db, setupState, knowledgeBase, staff } from '@/db/index.js';
 import { settingsService } from './settings.js';
+import { responseCacheService } from './response-cache.js';
 import { createLogger } from '@/utils/logger.js';
 import { appConfigService } from '@/apps/config.js';
 import { getAppRegistry, getManifest } from '@/apps/index.js';
@@ -800,8 +801,9 @@ export class SetupService {
     // Clear hotel profile from settings
     await settingsService.delete(HOTEL_PROFILE_KEY);
 
-    // Clear knowledge base
+    // Clear knowledge base (and the answers grounded on it)
     await db.delete(knowledgeBase).run();
+    responseCacheService.clear();
 
     log.info('Setup state, settings, and knowledge base reset');
 
@@ -29,6 +29,7 @@ export interface StaffWithRole {
   permissions: string[];
   status: 'active' | 'inactive';
   approvalStatus: 'pending' | 'approved' | 'rejected';
+  twoFactorEnabled: boolean;
   lastActiveAt: string | null;
   createdAt: string;
   updatedAt: string;
@@ -53,11 +54,13 @@ export interface UpdateStaffInput {
 export interface RegisterStaffInput {
   email: string;
   name: string;
-  passwordHash: string;
+  /** Null for accounts provisioned by single sign-on */
+  passwordHash: string | null;
   roleId: string;
   status: StaffStatus;
   emailVerified: boolean;
   approvalStatus: 'pending' | 'approved';
+  ssoSubject?: string;
 }
 
 export interface ListStaffOptions {
@@ -110,6 +113,7 @@ export class StaffService {
         permissions: staff.permissions,
         status: staff.status,
         approvalStatus: staff.approvalStatus,
+        totpEnabledAt: staff.totpEnabledAt,
         lastActiveAt: staff.lastActiveAt,
         createdAt: staff.createdAt,
         updatedAt: staff.updatedAt,
@@ -121,12 +125,13 @@ export class StaffService {
       .limit(limit)
       .offset(offset);
 
-    const mapped = results.map((r) => ({
+    const mapped = results.map(({ totpEnabledAt, ...r }) => ({
       ...r,
       roleName: r.roleName || 'Unknown',
       permissions: JSON.parse(r.permissions) as string[],
       status: r.status as StaffWithRole['status'],
       approvalStatus: r.approvalStatus as StaffWithRole['approvalStatus'],
+      twoFactorEnabled: !!totpEnabledAt,
     }));
 
     // Compute isDeletable for each staff member
@@ -167,6 +172,7 @@ export class StaffService {
         permissions: staff.permissions,
         status: staff.status,
         approvalStatus: staff.approvalStatus,
+        totpEnabledAt: staff.totpEnabledAt,
         lastActiveAt: staff.lastActiveAt,
         createdAt: staff.createdAt,
         updatedAt: staff.updatedAt,
@@ -180,12 +186,14 @@ export class StaffService {
       throw new NotFoundError('Staff', id);
     }
 
+    const { totpEnabledAt, ...rest } = result;
     return {
-      ...result,
-      roleName: result.roleName || 'Unknown',
-      permissions: JSON.parse(result.permissions) as string[],
-      status: result.status as StaffWithRole['status'],
-      approvalStatus: result.approvalStatus as StaffWithRole['approvalStatus'],
+      ...rest,
+      roleName: rest.roleName || 'Unknown',
+      permissions: JSON.parse(rest.permissions) as string[],
+      status: rest.status as StaffWithRole['status'],
+      approvalStatus: rest.approvalStatus as StaffWithRole['approvalStatus'],
+      twoFactorEnabled: !!totpEnabledAt,
     };
   }
 
@@ -204,6 +212,7 @@ export class StaffService {
         permissions: staff.permissions,
         status: staff.status,
         approvalStatus: staff.approvalStatus,
+        totpEnabledAt: staff.totpEnabledAt,
         lastActiveAt: staff.lastActiveAt,
         createdAt: staff.createdAt,
         updatedAt: staff.updatedAt,
@@ -217,12 +226,14 @@ export class StaffService {
       return null;
     }
 
+    const { totpEnabledAt, ...rest } = result;
     return {
-      ...result,
-      roleName: result.roleName || 'Unknown',
-      permissions: JSON.parse(result.permissions) as string[],
-      status: result.status as StaffWithRole['status'],
-      approvalStatus: result.approvalStatus as StaffWithRole['approvalStatus'],
+      ...rest,
+      roleName: rest.roleName || 'Unknown',
+      permissions: JSON.parse(rest.permissions) as string[],
+      status: rest.status as StaffWithRole['status'],
+      approvalStatus: rest.approvalStatus as StaffWithRole['approvalStatus'],
+      twoFactorEnabled: !!totpEnabledAt,
     };
   }
 
@@ -269,9 +280,9 @@ export class StaffService {
   }
 
   /**
-   * Create a staff member from self-service registration (pre-hashed password,
-   * caller-decided status/approval/verification — see auth settings for how
-   * those are derived).
+   * Create a staff member from self-service registration or SSO provisioning
+   * (pre-hashed password, caller-decided status/approval/verification — see
+   * auth settings for how those are derived).
    */
   async register(input: RegisterStaffInput): Promise<string> {
     const id = generateId('staff');
@@ -285,6 +296,7 @@ export class StaffService {
       passwordHash: input.passwordHash,
       emailVerified: input.emailVerified,
       approvalStatus: input.approvalStatus,
+      ssoSubject: input.ssoSubject ?? null,
     });
 
     log.info({ staffId: id, email: input.email }, 'Staff registered');
@@ -0,0 +1,354 @@
+/**
+ * Task SLA Service
+ *
+ * Per-department, per-priority SLA policies for tasks. A policy sets the
+ * respond-by time (`tasks.due_at`) when a task is created, and an escalation
+ * ladder that the scheduler walks once a task is still waiting for pickup
+ * (`pending` or `assigned`) past that time: notify a supervisor role, reassign
+ * to a role, or bump the priority.
+ *
+ * Policies are stored in the settings table under `task_sla`, following the
+ * same key-value pattern as hotel_profile and auth_settings.
+ *
+ * @module services/task-sla
+ */
+
+import { and, eq, inArray, isNotNull, lte, sql } from 'drizzle-orm';
+import { db, tasks, staff } from '@/db/index.js';
+import type { Task } from '@/db/schema.js';
+import { createLogger } from '@/utils/logger.js';
+import { ValidationError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import type { TaskSlaBreachedEvent } from '@/types/events.js';
+import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
+import type { TaskPriority } from '@jackthebutler/shared';
+import { now } from '@/utils/time.js';
+import { settingsService } from './settings.js';
+
+const log = createLogger('task-sla');
+
+const SETTINGS_KEY = 'task_sla';
+
+/** Matches any department when no department-specific policy exists */
+export const ANY_DEPARTMENT = '*';
+
+/** Statuses in which a task is still waiting to be picked up */
+const AWAITING_PICKUP = ['pending', 'assigned'];
+
+const PRIORITY_ORDER: TaskPriority[] = ['low', 'standard', 'high', 'urgent'];
+
+// ===================
+// Types
+// ===================
+
+export interface SlaEscalationStep {
+  /** Minutes past the due time before this step fires (0 = on breach) */
+  afterMinutes: number;
+  /** Raise the priority one level (low → standard → high → urgent) */
+  bumpPriority?: boolean | undefined;
+  /** Notify active staff holding this role */
+  notifyRoleId?: string | undefined;
+  /** Reassign to the least-loaded active staff member holding this role */
+  reassignToRoleId?: string | undefined;
+}
+
+export interface SlaPolicy {
+  /** Department name, or `*` for the fallback policy */
+  department: string;
+  priority: TaskPriority;
+  /** Minutes from creation until the task must be picked up */
+  targetMinutes: number;
+  /** Steps ordered by afterMinutes */
+  escalation: SlaEscalationStep[];
+}
+
+export interface TaskSlaSettings {
+  enabled: boolean;
+  policies: SlaPolicy[];
+}
+
+export interface SlaRunResult {
+  /** Tasks newly found past their due time */
+  breached: number;
+  /** Escalation steps applied across all tasks */
+  escalated: number;
+}
+
+const DEFAULT_TASK_SLA_SETTINGS: TaskSlaSettings = {
+  enabled: true,
+  policies: [
+    {
+      department: ANY_DEPARTMENT,
+      priority: 'urgent',
+      targetMinutes: 15,
+      escalation: [
+        { afterMinutes: 0, notifyRoleId: SYSTEM_ROLE_IDS.MANAGER },
+        { afterMinutes: 15, reassignToRoleId: SYSTEM_ROLE_IDS.MANAGER, notifyRoleId: SYSTEM_ROLE_IDS.ADMIN },
+      ],
+    },
+    {
+      department: ANY_DEPARTMENT,
+      priority: 'high',
+      targetMinutes: 30,
+      escalation: [
+        { afterMinutes: 0, notifyRoleId: SYSTEM_ROLE_IDS.MANAGER },
+        { afterMinutes: 30, bumpPriority: true },
+      ],
+    },
+    {
+      department: ANY_DEPARTMENT,
+      priority: 'standard',
+      targetMinutes: 60,
+      escalation: [
+        { afterMinutes: 0, bumpPriority: true },
+      ],
+    },
+    {
+      department: ANY_DEPARTMENT,
+      priority: 'low',
+      targetMinutes: 240,
+      escalation: [
+        { afterMinutes: 0, bumpPriority: true },
+      ],
+    },
+  ],
+};
+
+/**
+ * Next priority up, or the same priority when already urgent
+ */
+export function bumpPriority(priority: string): TaskPriority {
+  const index = PRIORITY_ORDER.indexOf(priority as TaskPriority);
+  if (index === -1) return 'high';
+  return PRIORITY_ORDER[Math.min(index + 1, PRIORITY_ORDER.length - 1)]!;
+}
+
+// ===================
+// Service
+// ===================
+
+export class TaskSlaService {
+  /**
+   * Get SLA settings with defaults
+   */
+  async getSettings(): Promise<TaskSlaSettings> {
+    const stored = await settingsService.get<Partial<TaskSlaSettings>>(SETTINGS_KEY, {});
+    return { ...DEFAULT_TASK_SLA_SETTINGS, ...stored };
+  }
+
+  /**
+   * Update SLA settings (partial update; `policies` replaces the whole list)
+   */
+  async updateSettings(input: Partial<TaskSlaSettings>): Promise<TaskSlaSettings> {
+    if (input.policies) {
+      const seen = new Set<string>();
+      for (const policy of input.policies) {
+        const key = `${policy.department}:${policy.priority}`;
+        if (seen.has(key)) {
+          throw new ValidationError(`Duplicate SLA policy for ${policy.department} / ${policy.priority}`);
+        }
+        seen.add(key);
+      }
+      input.policies = input.policies.map((policy) => ({
+        ...policy,
+        escalation: [...policy.escalation].sort((a, b) => a.afterMinutes - b.afterMinutes),
+      }));
+    }
+
+    const current = await settingsService.get<Partial<TaskSlaSettings>>(SETTINGS_KEY, {});
+    await settingsService.set(SETTINGS_KEY, { ...current, ...input });
+
+    log.info({ changes: Object.keys(input) }, 'Task SLA settings updated');
+
+    return this.getSettings();
+  }
+
+  /**
+   * Find the policy for a department and priority, falling back to `*`
+   */
+  resolvePolicy(settings: TaskSlaSettings, department: string, priority: string): SlaPolicy | undefined {
+    return (
+      settings.policies.find((p) => p.department === department && p.priority === priority) ??
+      settings.policies.find((p) => p.department === ANY_DEPARTMENT && p.priority === priority)
+    );
+  }
+
+  /**
+   * Compute the respond-by time for a new task, or null when SLAs are off
+   * or no policy applies
+   */
+  async computeDueAt(department: string, priority: string, from: Date = new Date()): Promise<string | null> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) return null;
+
+    const policy = this.resolvePolicy(settings, department, priority);
+    if (!policy) return null;
+
+    return new Date(from.getTime() + policy.targetMinutes * 60_000).toISOString();
+  }
+
+  /**
+   * Find overdue tasks still awaiting pickup and apply any escalation steps
+   * that have come due. Called by the scheduler.
+   *
+   * Ladders are looked up from the task's current priority, so a priority
+   * bump hands the task on to the next priority's ladder at the same level.
+   */
+  async runEscalations(at: Date = new Date()): Promise<SlaRunResult> {
+    const result: SlaRunResult = { breached: 0, escalated: 0 };
+
+    const settings = await this.getSettings();
+    if (!settings.enabled) return result;
+
+    const overdue = await db
+      .select()
+      .from(tasks)
+      .where(and(
+        inArray(tasks.status, AWAITING_PICKUP),
+        isNotNull(tasks.dueAt),
+        lte(tasks.dueAt, at.toISOString()),
+      ));
+
+    for (const task of overdue) {
+      try {
+        const outcome = await this.escalate(task, settings, at);
+        if (outcome.breached) result.breached++;
+        result.escalated += outcome.steps;
+      } catch (err) {
+        log.error({ err, taskId: task.id }, 'Failed to escalate overdue task');
+      }
+    }
+
+    if (result.breached + result.escalated > 0) {
+      log.info({ ...result }, 'Task SLA escalations applied');
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply the due escalation steps for one overdue task
+   */
+  private async escalate(
+    task: Task,
+    settings: TaskSlaSettings,
+    at: Date,
+  ): Promise<{ breached: boolean; steps: number }> {
+    const breached = !task.slaBreachedAt;
+    const overdueMinutes = Math.floor((at.getTime() - new Date(task.dueAt!).getTime()) / 60_000);
+
+    const policy = this.resolvePolicy(settings, task.department, task.priority);
+    const pending = (policy?.escalation ?? [])
+      .slice(task.escalationLevel)
+      .filter((step) => step.afterMinutes <= overdueMinutes);
+
+    if (!breached && pending.length === 0) {
+      return { breached: false, steps: 0 };
+    }
+
+    let priority = task.priority;
+    let assignedTo = task.assignedTo;
+    let status = task.status;
+    let reassignedTo: string | undefined;
+    const notifyRoleIds = new Set<string>();
+
+    for (const step of pending) {
+      if (step.bumpPriority) {
+        priority = bumpPriority(priority);
+      }
+      if (step.notifyRoleId) {
+        notifyRoleIds.add(step.notifyRoleId);
+      }
+      if (step.reassignToRoleId) {
+        const assignee = await this.pickAssignee(step.reassignToRoleId, assignedTo);
+        if (assignee) {
+          assignedTo = assignee;
+          reassignedTo = assignee;
+          status = 'assigned';
+        }
+      }
+    }
+
+    const level = task.escalationLevel + pending.length;
+
+    await db
+      .update(tasks)
+      .set({
+        priority,
+        assignedTo,
+        status,
+        escalationLevel: level,
+        slaBreachedAt: task.slaBreachedAt ?? at.toISOString(),
+        updatedAt: now(),
+      })
+      .where(eq(tasks.id, task.id));
+
+    const notifyStaffIds = notifyRoleIds.size > 0
+      ? (
+          await db
+            .select({ id: staff.id })
+            .from(staff)
+            .where(and(inArray(staff.roleId, [...notifyRoleIds]), eq(staff.status, 'active')))
+        ).map((s) => s.id)
+      : [];
+
+    log.warn(
+      { taskId: task.id, department: task.department, overdueMinutes, level, priority, reassignedTo },
+      'Task SLA breached'
+    );
+
+    const event: TaskSlaBreachedEvent = {
+      type: EventTypes.TASK_SLA_BREACHED,
+      taskId: task.id,
+      department: task.department,
+      priority,
+      dueAt: task.dueAt!,
+      overdueMinutes,
+      level,
+      ...(priority !== task.priority && { previousPriority: task.priority }),
+      ...(reassignedTo && { reassignedTo }),
+      notifyStaffIds,
+      timestamp: at,
+    };
+    events.emit(event);
+
+    if (reassignedTo) {
+      events.emit({
+        type: EventTypes.TASK_ASSIGNED,
+        taskId: task.id,
+        assignedTo: reassignedTo,
+        timestamp: at,
+      });
+    }
+
+    return { breached, steps: pending.length };
+  }
+
+  /**
+   * Least-loaded active staff member in a role, excluding the current assignee
+   */
+  private async pickAssignee(roleId: string, currentAssignee: string | null): Promise<string | null> {
+    const candidates = await db
+      .select({ id: staff.id })
+      .from(staff)
+      .where(and(eq(staff.roleId, roleId), eq(staff.status, 'active')));
+    const eligible = candidates.filter((c) => c.id !== currentAssignee);
+    if (eligible.length === 0) return null;
+
+    const load = await db
+      .select({ assignedTo: tasks.assignedTo, count: sql<number>`count(*)` })
+      .from(tasks)
+      .where(and(
+        inArray(tasks.assignedTo, eligible.map((c) => c.id)),
+        inArray(tasks.status, ['assigned', 'in_progress']),
+      ))
+      .groupBy(tasks.assignedTo);
+    const openTasks = new Map(load.map((row) => [row.assignedTo, row.count]));
+
+    const ranked = eligible.sort((a, b) => (openTasks.get(a.id) ?? 0) - (openTasks.get(b.id) ?? 0));
+
+    return ranked[0]?.id ?? null;
+  }
+}
+
+export const taskSlaService = new TaskSlaService();
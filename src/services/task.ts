@@ -14,6 +14,9 @@ import { events, EventTypes } from '@/events/index.js';
 import type { TaskStatus, TaskPriority } from '@jackthebutler/shared';
 export type { TaskStatus, TaskPriority } from '@jackthebutler/shared';
 import { now } from '@/utils/time.js';
+import { taskSlaService } from './task-sla.js';
+import { parsePMSAction, pmsWriteBackService, type PMSTaskAction } from './pms-write-back.js';
+import { roomService } from './room.js';
 
 const log = createLogger('task');
 
@@ -31,6 +34,13 @@ export interface CreateTaskInput {
   description: string;
   priority?: TaskPriority | undefined;
   dueAt?: string | undefined;
+  /** Pushed to the PMS when the task is completed */
+  pmsAction?: PMSTaskAction | undefined;
+  /**
+   * Reject a room number the PMS does not know (staff-entered tasks).
+   * Otherwise an unknown room is logged and kept as entered.
+   */
+  validateRoom?: boolean | undefined;
 }
 
 export interface UpdateTaskInput {
@@ -39,6 +49,7 @@ export interface UpdateTaskInput {
   priority?: TaskPriority | undefined;
   notes?: string | undefined;
   completionNotes?: string | undefined;
+  pmsAction?: PMSTaskAction | null | undefined;
 }
 
 export interface ListTasksOptions {
@@ -65,6 +76,11 @@ export interface TaskSummary {
   assignedTo: string | null;
   assignedName?: string | undefined;
   dueAt: string | null;
+  slaBreachedAt: string | null;
+  escalationLevel: number;
+  pmsAction: string | null;
+  pmsSyncStatus: string | null;
+  pmsSyncError: string | null;
   createdAt: string;
 }
 
@@ -74,6 +90,17 @@ export class TaskService {
    */
   async create(input: CreateTaskInput): Promise<Task> {
     const id = generateId('task');
+    const priority = input.priority ?? 'standard';
+    const roomNumber = input.roomNumber?.trim() || null;
+    if (roomNumber && !(await roomService.isKnownRoom(roomNumber))) {
+      if (input.validateRoom) {
+        await roomService.assertKnownRoom(roomNumber);
+      }
+      log.warn({ roomNumber, source: input.source ?? 'manual' }, 'Task room number is not a synced room');
+    }
+
+    // Explicit due times win; otherwise the department/priority SLA policy sets one
+    const dueAt = input.dueAt ?? (await taskSlaService.computeDueAt(input.department, priority));
 
     await db.insert(tasks).values({
       id,
@@ -82,11 +109,12 @@ export class TaskService {
       source: input.source ?? 'manual',
       type: input.type,
       department: input.department,
-      roomNumber: input.roomNumber ?? null,
+      roomNumber,
       description: input.description,
-      priority: input.priority ?? 'standard',
+      priority,
       status: 'pending',
-      dueAt: input.dueAt ?? null,
+      dueAt,
+      pmsAction: input.pmsAction ? JSON.stringify(input.pmsAction) : null,
       createdAt: now(),
       updatedAt: now(),
     });
@@ -101,7 +129,7 @@ export class TaskService {
       ...(input.conversationId && { conversationId: input.conversationId }),
       type_: input.type,
       department: input.department,
-      priority: input.priority ?? 'standard',
+      priority,
       timestamp: new Date(),
     });
 
@@ -157,6 +185,11 @@ export class TaskService {
         status: tasks.status,
         assignedTo: tasks.assignedTo,
         dueAt: tasks.dueAt,
+        slaBreachedAt: tasks.slaBreachedAt,
+        escalationLevel: tasks.escalationLevel,
+        pmsAction: tasks.pmsAction,
+        pmsSyncStatus: tasks.pmsSyncStatus,
+        pmsSyncError: tasks.pmsSyncError,
         createdAt: tasks.createdAt,
       })
       .from(tasks)
@@ -195,7 +228,7 @@ export class TaskService {
    * Update a task
    */
   async update(id: string, input: UpdateTaskInput): Promise<Task> {
-    await this.getById(id); // Verify exists
+    const existing = await this.getById(id);
 
     const updates: Record<string, unknown> = {
       updatedAt: now(),
@@ -230,6 +263,17 @@ export class TaskService {
       updates.completionNotes = input.completionNotes;
     }
 
+    if (input.pmsAction !== undefined) {
+      // An edited action keeps the reservation the task was created for
+      const previous = parsePMSAction(existing.pmsAction);
+      const reservationId = previous && 'reservationId' in previous ? previous.reservationId : undefined;
+      const action =
+        input.pmsAction && input.pmsAction.type !== 'room_out_of_order' && !input.pmsAction.reservationId && reservationId
+          ? { ...input.pmsAction, reservationId }
+          : input.pmsAction;
+      updates.pmsAction = action ? JSON.stringify(action) : null;
+    }
+
     await db.update(tasks).set(updates).where(eq(tasks.id, id));
 
     log.info({ taskId: id, updates }, 'Task updated');
@@ -267,14 +311,39 @@ export class TaskService {
   }
 
   /**
-   * Complete a task
+   * Complete a task, pushing its PMS action (if any) to the PMS.
+   * A task that was synced, reopened and completed again is not pushed twice.
    */
   async complete(id: string, notes?: string): Promise<Task> {
     const input: UpdateTaskInput = { status: 'completed' };
     if (notes !== undefined) {
       input.completionNotes = notes;
     }
-    return this.update(id, input);
+    const task = await this.update(id, input);
+    if (!task.pmsAction || task.pmsSyncStatus === 'synced') return task;
+
+    await pmsWriteBackService.push(task);
+    return this.getById(id);
+  }
+
+  /**
+   * Retry the PMS push of a completed task
+   */
+  async retryPmsSync(id: string): Promise<Task> {
+    const task = await this.getById(id);
+
+    if (!task.pmsAction) {
+      throw new ConflictError('Task has no PMS action');
+    }
+    if (task.status !== 'completed') {
+      throw new ConflictError('Only completed tasks are pushed to the PMS');
+    }
+    if (task.pmsSyncStatus === 'synced') {
+      throw new ConflictError('Task is already synced to the PMS');
+    }
+
+    await pmsWriteBackService.push(task);
+    return this.getById(id);
   }
 
   /**
@@ -4,7 +4,8 @@
  * Server-side registry of structured form actions for the webchat widget.
  * Actions are triggered by the AI (via metadata) and rendered as forms
  * by the widget. Form submissions go directly to REST endpoints — not
- * through the AI.
+ * through the AI. Staff-defined actions (webchat-custom-actions) are
+ * listed after the built-ins.
  *
  * @module apps/channels/webchat/actions
  */
@@ -13,9 +14,17 @@ import { createLogger } from '@/utils/logger.js';
 import { webchatSessionService } from '@/services/webchat-session.js';
 import { conversationService } from '@/services/conversation.js';
 import { webchatConnectionManager, getSessionLocale } from '@/apps/channels/webchat/connections.js';
-import { t } from '@/locales/webchat/index.js';
+import { t, getActionTranslation } from '@/locales/webchat/index.js';
 import type { SupportedLocale } from '@/locales/webchat/index.js';
 import { verifyReservation } from './webchat-verification.js';
+import {
+  submitGuestRequest,
+  getGuestRequestPrefill,
+  isGuestRequestAction,
+  prettifyOption,
+} from './webchat-guest-requests.js';
+import { webchatCustomActionService } from './webchat-custom-actions.js';
+import type { WebChatActionTranslation, WebChatCustomActionDTO } from './webchat-custom-actions.js';
 import { now } from '@/utils/time.js';
 
 // Re-export so scheduler.ts import path stays unchanged
@@ -39,12 +48,14 @@ export interface WebChatAction {
 export interface WebChatActionField {
   key: string;
   label: string;
-  type: 'text' | 'date' | 'number' | 'select' | 'email' | 'tel';
+  type: 'text' | 'date' | 'time' | 'number' | 'select' | 'email' | 'tel';
   required: boolean;
   options?: string[];
   optionLabels?: string[];
   placeholder?: string;
   validation?: string;
+  /** Filled from the verified reservation (see getPrefill) and shown read-only */
+  prefill?: 'roomNumber';
   showWhen?: {
     field: string;
     values: string[];
@@ -107,6 +118,117 @@ const actions: WebChatAction[] = [
     ],
     endpoint: '/api/v1/webchat/actions/verify-reservation',
   },
+  {
+    id: 'late-checkout',
+    name: 'Request Late Checkout',
+    triggerHint: 'guest wants to check out later than the standard checkout time',
+    requiresVerification: true,
+    fields: [
+      {
+        key: 'checkoutTime',
+        label: 'Preferred Checkout Time',
+        type: 'select',
+        required: true,
+        options: ['12:00', '13:00', '14:00', '15:00', '16:00'],
+      },
+      {
+        key: 'notes',
+        label: 'Notes',
+        type: 'text',
+        required: false,
+        placeholder: 'Anything we should know?',
+      },
+    ],
+    endpoint: '/api/v1/webchat/actions/late-checkout',
+  },
+  {
+    id: 'wake-up-call',
+    name: 'Book a Wake-up Call',
+    triggerHint: 'guest wants a wake-up call',
+    requiresVerification: true,
+    fields: [
+      { key: 'date', label: 'Date', type: 'date', required: true },
+      { key: 'time', label: 'Time', type: 'time', required: true },
+    ],
+    endpoint: '/api/v1/webchat/actions/wake-up-call',
+  },
+  {
+    id: 'order-amenities',
+    name: 'Order Amenities',
+    triggerHint: 'guest wants extra towels, pillows, toiletries or other in-room amenities',
+    requiresVerification: true,
+    fields: [
+      {
+        key: 'item',
+        label: 'Item',
+        type: 'select',
+        required: true,
+        options: ['towels', 'pillows', 'blanket', 'toiletries', 'bathrobe', 'slippers', 'iron', 'baby-cot'],
+        optionLabels: ['Towels', 'Pillows', 'Blanket', 'Toiletries', 'Bathrobe', 'Slippers', 'Iron', 'Baby Cot'],
+      },
+      { key: 'quantity', label: 'Quantity', type: 'number', required: true, placeholder: '1' },
+      {
+        key: 'notes',
+        label: 'Notes',
+        type: 'text',
+        required: false,
+        placeholder: 'Anything we should know?',
+      },
+    ],
+    endpoint: '/api/v1/webchat/actions/order-amenities',
+  },
+  {
+    id: 'report-maintenance',
+    name: 'Report an Issue',
+    triggerHint: 'guest reports something broken or not working in their room',
+    requiresVerification: true,
+    fields: [
+      { key: 'roomNumber', label: 'Room Number', type: 'text', required: true, prefill: 'roomNumber' },
+      {
+        key: 'category',
+        label: 'Issue Type',
+        type: 'select',
+        required: true,
+        options: ['air-conditioning', 'heating', 'plumbing', 'electrical', 'tv-internet', 'door-lock', 'other'],
+        optionLabels: ['Air Conditioning', 'Heating', 'Plumbing', 'Electrical', 'TV / Internet', 'Door Lock', 'Other'],
+      },
+      {
+        key: 'description',
+        label: 'What is the problem?',
+        type: 'text',
+        required: true,
+        placeholder: 'e.g. The shower has no hot water',
+      },
+    ],
+    endpoint: '/api/v1/webchat/actions/report-maintenance',
+  },
+  {
+    id: 'airport-transfer',
+    name: 'Request an Airport Transfer',
+    triggerHint: 'guest wants transport to or from the airport',
+    requiresVerification: true,
+    fields: [
+      {
+        key: 'direction',
+        label: 'Transfer',
+        type: 'select',
+        required: true,
+        options: ['to-airport', 'from-airport'],
+        optionLabels: ['Hotel to Airport', 'Airport to Hotel'],
+      },
+      { key: 'date', label: 'Date', type: 'date', required: true },
+      { key: 'time', label: 'Pickup Time', type: 'time', required: true },
+      { key: 'passengers', label: 'Passengers', type: 'number', required: true, placeholder: '1' },
+      {
+        key: 'flightNumber',
+        label: 'Flight Number',
+        type: 'text',
+        required: false,
+        placeholder: 'e.g. BA117',
+      },
+    ],
+    endpoint: '/api/v1/webchat/actions/airport-transfer',
+  },
 ];
 
 // ============================================
@@ -115,44 +237,47 @@ const actions: WebChatAction[] = [
 
 const actionTranslationKeys: Record<string, string> = {
   'verify-reservation': 'verifyReservation',
+  'late-checkout': 'lateCheckout',
+  'wake-up-call': 'wakeUpCall',
+  'order-amenities': 'orderAmenities',
+  'report-maintenance': 'reportMaintenance',
+  'airport-transfer': 'airportTransfer',
 };
 
 /**
  * Localize an action's display strings (name, field labels, placeholders, option labels).
  * Machine identifiers (field.key, field.options values, triggerHint) stay in English.
+ * Built-in actions read their strings from the webchat locale files; custom
+ * actions carry their own translations in the same shape.
  */
 function localizeAction(
   action: Omit<WebChatAction, 'endpoint'>,
-  locale: SupportedLocale,
+  translation: WebChatActionTranslation | undefined,
 ): Omit<WebChatAction, 'endpoint'> {
-  if (locale === 'en') return action;
-
-  const actionKey = actionTranslationKeys[action.id];
-  if (!actionKey) return action;
-
-  const prefix = `actions.${actionKey}`;
+  if (!translation) return action;
 
   return {
     ...action,
-    name: t(locale, `${prefix}.name`) || action.name,
+    name: translation.name || action.name,
     fields: action.fields.map((field) => {
-      const fieldPrefix = `${prefix}.fields.${field.key}`;
+      const strings = translation.fields?.[field.key];
       const localized: WebChatActionField = {
         ...field,
-        label: t(locale, `${fieldPrefix}.label`) || field.label,
+        label: strings?.label || field.label,
       };
 
-      const placeholder = t(locale, `${fieldPrefix}.placeholder`);
-      if (placeholder && placeholder !== `${fieldPrefix}.placeholder`) {
-        localized.placeholder = placeholder;
+      if (strings?.placeholder) {
+        localized.placeholder = strings.placeholder;
       }
 
       // Translate option display labels (values stay English)
       if (field.options?.length) {
-        localized.optionLabels = field.options.map((opt) => {
-          const translated = t(locale, `${fieldPrefix}.options.${opt}`);
-          return translated !== `${fieldPrefix}.options.${opt}` ? translated : opt.replace(/-/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
-        });
+        localized.optionLabels = field.options.map(
+          (opt, i) =>
+            strings?.options?.[opt] ??
+            field.optionLabels?.[i] ??
+            prettifyOption(opt),
+        );
       }
 
       return localized;
@@ -160,6 +285,25 @@ function localizeAction(
   };
 }
 
+function builtInTranslation(actionId: string, locale: SupportedLocale): WebChatActionTranslation | undefined {
+  const key = actionTranslationKeys[actionId];
+  if (locale === 'en' || !key) return undefined;
+  return getActionTranslation(locale, key);
+}
+
+function customTranslation(
+  action: WebChatCustomActionDTO,
+  locale: SupportedLocale,
+): WebChatActionTranslation {
+  // Always localized, so select options get display labels in English too
+  return action.translations[locale] ?? {};
+}
+
+/** A custom action in the registry's shape */
+function toAction({ id, name, triggerHint, requiresVerification, fields }: WebChatCustomActionDTO): WebChatAction {
+  return { id, name, triggerHint, requiresVerification, fields, endpoint: `/api/v1/webchat/actions/${id}` };
+}
+
 // ============================================
 // Service
 // ============================================
@@ -168,20 +312,36 @@ const MAX_INPUT_FIELD_LENGTH = 500;
 
 export class WebChatActionService {
   /**
-   * Get all registered actions (sent to widget on connect).
+   * Get all registered actions (sent to widget on connect): the built-ins,
+   * then enabled staff-defined actions.
    * Endpoint URLs are stripped — the widget doesn't need them.
    */
-  getActions(locale?: SupportedLocale): Omit<WebChatAction, 'endpoint'>[] {
-    const stripped = actions.map(({ endpoint: _, ...rest }) => rest);
-    if (!locale || locale === 'en') return stripped;
-    return stripped.map((a) => localizeAction(a, locale));
+  async getActions(locale: SupportedLocale = 'en'): Promise<Omit<WebChatAction, 'endpoint'>[]> {
+    const custom = await webchatCustomActionService.listEnabled();
+    return [
+      ...actions.map(({ endpoint: _, ...rest }) => localizeAction(rest, builtInTranslation(rest.id, locale))),
+      ...custom.map((a) => {
+        const { endpoint: _, ...rest } = toAction(a);
+        return localizeAction(rest, customTranslation(a, locale));
+      }),
+    ];
   }
 
   /**
-   * Get a single action by ID.
+   * Get a single action by ID (built-in or enabled custom action).
    */
-  getAction(id: string): WebChatAction | undefined {
-    return actions.find((a) => a.id === id);
+  async getAction(id: string): Promise<WebChatAction | undefined> {
+    const builtIn = actions.find((a) => a.id === id);
+    if (builtIn) return builtIn;
+    const custom = (await webchatCustomActionService.listEnabled()).find((a) => a.id === id);
+    return custom && toAction(custom);
+  }
+
+  /**
+   * Whether an ID belongs to a built-in action (custom actions can't reuse it).
+   */
+  isBuiltIn(id: string): boolean {
+    return actions.some((a) => a.id === id);
   }
 
   /**
@@ -202,7 +362,7 @@ export class WebChatActionService {
     // Get locale from the WS session
     const locale = getSessionLocale(session.id);
 
-    const action = this.getAction(actionId);
+    const action = await this.getAction(actionId);
     if (!action) {
       return { success: false, message: t(locale, 'messages.unknownAction'), error: 'unknown_action' };
     }
@@ -234,7 +394,16 @@ export class WebChatActionService {
         result = await verifyReservation(session.id, input, locale);
         break;
       default:
-        result = { success: false, message: t(locale, 'messages.actionNotImplemented'), error: 'not_implemented' };
+        if (isGuestRequestAction(actionId)) {
+          const localized = localizeAction(action, builtInTranslation(actionId, locale));
+          result = await submitGuestRequest(session, action, localized, input, locale);
+        } else if (!this.isBuiltIn(actionId)) {
+          const custom = await webchatCustomActionService.get(actionId);
+          const localized = localizeAction(action, customTranslation(custom, locale));
+          result = await webchatCustomActionService.submit(session, actionId, localized, input, locale);
+        } else {
+          result = { success: false, message: t(locale, 'messages.actionNotImplemented'), error: 'not_implemented' };
+        }
     }
 
     // Persist result as system message and broadcast (if session has a conversation)
@@ -262,6 +431,16 @@ export class WebChatActionService {
     return result;
   }
 
+  /**
+   * Values to pre-fill (read-only) when the widget shows an action form,
+   * e.g. the room number from the verified reservation.
+   */
+  async getPrefill(actionId: string, sessionToken: string): Promise<Record<string, string>> {
+    const session = await webchatSessionService.validate(sessionToken);
+    const action = actions.find((a) => a.id === actionId);
+    if (!session || !action) return {};
+    return getGuestRequestPrefill(session, action);
+  }
 }
 
 /**
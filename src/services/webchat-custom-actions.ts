@@ -0,0 +1,458 @@
+/**
+ * WebChat Custom Action Service
+ *
+ * Staff-defined webchat form actions (spa booking, restaurant reservation,
+ * ...) that sit alongside the built-in ones without a code change. Each
+ * action has form fields, optional per-locale labels in the same shape as
+ * `src/locales/webchat`, and one or more outcomes run on submit: create a
+ * task, email an address, or POST to a webhook.
+ *
+ * @module services/webchat-custom-actions
+ */
+
+import { createHmac } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import { db, webchatActions, guests } from '@/db/index.js';
+import type { WebChatActionRow, WebChatSession } from '@/db/schema.js';
+import { taskService, type TaskType, type TaskPriority } from '@/services/task.js';
+import { emailService } from '@/services/email.js';
+import { NotFoundError, ConflictError, ValidationError } from '@/errors/index.js';
+import { encrypt, decrypt } from '@/utils/crypto.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+import { t } from '@/locales/webchat/index.js';
+import type { SupportedLocale } from '@/locales/webchat/index.js';
+import type { ActionResult, WebChatAction, WebChatActionField } from './webchat-actions.js';
+import { findSessionReservation, optionLabel, validateActionFields } from './webchat-guest-requests.js';
+
+const log = createLogger('webchat-custom-actions');
+
+// ===================
+// Types
+// ===================
+
+type ActionDefinition = Omit<WebChatAction, 'endpoint'>;
+
+/** Custom fields can't use server-side prefill */
+export type CustomActionField = Omit<WebChatActionField, 'prefill'>;
+
+/**
+ * Display strings for one locale, mirroring `actions.<key>` in the
+ * webchat locale files
+ */
+export interface WebChatActionTranslation {
+  name?: string | undefined;
+  fields?:
+    | Record<
+        string,
+        {
+          label?: string | undefined;
+          placeholder?: string | undefined;
+          options?: Record<string, string> | undefined;
+        }
+      >
+    | undefined;
+  confirmationMessage?: string | undefined;
+}
+
+export interface TaskOutcome {
+  type: 'task';
+  department: string;
+  taskType: TaskType;
+  priority: TaskPriority;
+}
+
+export interface EmailOutcome {
+  type: 'email';
+  to: string;
+}
+
+/** Webhook outcome as returned by the API — the signing secret is never exposed */
+export interface WebhookOutcomeView {
+  type: 'webhook';
+  url: string;
+  secretSet: boolean;
+}
+
+export interface WebhookOutcomeInput {
+  type: 'webhook';
+  url: string;
+  /** New signing secret; `null` removes it, omitted keeps the current one for the same URL */
+  secret?: string | null | undefined;
+}
+
+interface StoredWebhookOutcome {
+  type: 'webhook';
+  url: string;
+  secretEncrypted?: string;
+}
+
+export type WebChatActionOutcome = TaskOutcome | EmailOutcome | WebhookOutcomeView;
+export type WebChatActionOutcomeInput = TaskOutcome | EmailOutcome | WebhookOutcomeInput;
+type StoredOutcome = TaskOutcome | EmailOutcome | StoredWebhookOutcome;
+
+export interface WebChatCustomActionDTO {
+  id: string;
+  name: string;
+  triggerHint: string;
+  requiresVerification: boolean;
+  fields: CustomActionField[];
+  translations: Partial<Record<SupportedLocale, WebChatActionTranslation>>;
+  outcomes: WebChatActionOutcome[];
+  confirmationMessage: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebChatActionInput {
+  id: string;
+  name: string;
+  triggerHint: string;
+  requiresVerification?: boolean | undefined;
+  fields: CustomActionField[];
+  translations?: Partial<Record<SupportedLocale, WebChatActionTranslation>> | undefined;
+  outcomes: WebChatActionOutcomeInput[];
+  confirmationMessage: string;
+  enabled?: boolean | undefined;
+}
+
+export type UpdateWebChatActionInput = {
+  [K in Exclude<keyof CreateWebChatActionInput, 'id'>]?: CreateWebChatActionInput[K] | undefined;
+};
+
+// ===================
+// Constants
+// ===================
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// ===================
+// Helpers
+// ===================
+
+function parseOutcomes(row: WebChatActionRow): StoredOutcome[] {
+  return JSON.parse(row.outcomes || '[]') as StoredOutcome[];
+}
+
+function toDTO(row: WebChatActionRow): WebChatCustomActionDTO {
+  return {
+    ...row,
+    fields: JSON.parse(row.fields || '[]'),
+    translations: JSON.parse(row.translations || '{}'),
+    outcomes: parseOutcomes(row).map((outcome) =>
+      outcome.type === 'webhook'
+        ? { type: 'webhook', url: outcome.url, secretSet: !!outcome.secretEncrypted }
+        : outcome,
+    ),
+  };
+}
+
+/**
+ * Encrypt new webhook secrets. An omitted secret keeps the one already
+ * stored for the same URL, so editing an action doesn't require re-entering it.
+ */
+function storeOutcomes(outcomes: WebChatActionOutcomeInput[], previous: StoredOutcome[] = []): StoredOutcome[] {
+  return outcomes.map((outcome) => {
+    if (outcome.type !== 'webhook') return outcome;
+
+    const stored: StoredWebhookOutcome = { type: 'webhook', url: outcome.url };
+    if (outcome.secret) {
+      stored.secretEncrypted = encrypt(outcome.secret);
+    } else if (outcome.secret === undefined) {
+      const kept = previous.find(
+        (p): p is StoredWebhookOutcome => p.type === 'webhook' && p.url === outcome.url && !!p.secretEncrypted,
+      );
+      if (kept?.secretEncrypted) stored.secretEncrypted = kept.secretEncrypted;
+    }
+    return stored;
+  });
+}
+
+/**
+ * Field keys must be unique, select fields need options, and `showWhen`
+ * must point at an earlier select field using its option values.
+ */
+function validateFields(fields: CustomActionField[]): void {
+  const seen = new Map<string, CustomActionField>();
+  for (const field of fields) {
+    if (seen.has(field.key)) {
+      throw new ValidationError(`Duplicate field key: ${field.key}`);
+    }
+    if (field.type === 'select' && !field.options?.length) {
+      throw new ValidationError(`Select field "${field.key}" needs at least one option`);
+    }
+    if (field.showWhen) {
+      const dependency = seen.get(field.showWhen.field);
+      if (!dependency?.options) {
+        throw new ValidationError(`Field "${field.key}" can only depend on an earlier select field`);
+      }
+      const unknown = field.showWhen.values.filter((v) => !dependency.options!.includes(v));
+      if (unknown.length > 0) {
+        throw new ValidationError(`Field "${field.key}" depends on unknown options: ${unknown.join(', ')}`);
+      }
+    }
+    seen.set(field.key, field);
+  }
+}
+
+/** Replace `{{fieldKey}}` placeholders with submitted values */
+function renderMessage(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? '').trim();
+}
+
+// ===================
+// Service
+// ===================
+
+export class WebChatCustomActionService {
+  // ----- CRUD -----
+
+  async list(): Promise<WebChatCustomActionDTO[]> {
+    const rows = await db.select().from(webchatActions).orderBy(webchatActions.name);
+    return rows.map(toDTO);
+  }
+
+  /**
+   * Enabled actions, for the widget and the responder prompt
+   */
+  async listEnabled(): Promise<WebChatCustomActionDTO[]> {
+    const rows = await db
+      .select()
+      .from(webchatActions)
+      .where(eq(webchatActions.enabled, true))
+      .orderBy(webchatActions.name);
+    return rows.map(toDTO);
+  }
+
+  async get(id: string): Promise<WebChatCustomActionDTO> {
+    return toDTO(await this.getRow(id));
+  }
+
+  async create(input: CreateWebChatActionInput): Promise<WebChatCustomActionDTO> {
+    const [existing] = await db.select().from(webchatActions).where(eq(webchatActions.id, input.id)).limit(1);
+    if (existing) {
+      throw new ConflictError(`A webchat action with ID "${input.id}" already exists`);
+    }
+    validateFields(input.fields);
+
+    const timestamp = now();
+    await db.insert(webchatActions).values({
+      id: input.id,
+      name: input.name,
+      triggerHint: input.triggerHint,
+      requiresVerification: input.requiresVerification ?? true,
+      fields: JSON.stringify(input.fields),
+      translations: JSON.stringify(input.translations ?? {}),
+      outcomes: JSON.stringify(storeOutcomes(input.outcomes)),
+      confirmationMessage: input.confirmationMessage,
+      enabled: input.enabled ?? true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+
+    log.info({ id: input.id, name: input.name }, 'Webchat action created');
+    return this.get(input.id);
+  }
+
+  async update(id: string, input: UpdateWebChatActionInput): Promise<WebChatCustomActionDTO> {
+    const row = await this.getRow(id);
+    if (input.fields !== undefined) validateFields(input.fields);
+
+    await db
+      .update(webchatActions)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.triggerHint !== undefined && { triggerHint: input.triggerHint }),
+        ...(input.requiresVerification !== undefined && { requiresVerification: input.requiresVerification }),
+        ...(input.fields !== undefined && { fields: JSON.stringify(input.fields) }),
+        ...(input.translations !== undefined && { translations: JSON.stringify(input.translations) }),
+        ...(input.outcomes !== undefined && {
+          outcomes: JSON.stringify(storeOutcomes(input.outcomes, parseOutcomes(row))),
+        }),
+        ...(input.confirmationMessage !== undefined && { confirmationMessage: input.confirmationMessage }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+        updatedAt: now(),
+      })
+      .where(eq(webchatActions.id, id));
+
+    log.info({ id }, 'Webchat action updated');
+    return this.get(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.getRow(id);
+    await db.delete(webchatActions).where(eq(webchatActions.id, id));
+    log.info({ id }, 'Webchat action deleted');
+  }
+
+  // ----- Submission -----
+
+  /**
+   * Validate a submitted form and run the action's outcomes. Succeeds when
+   * at least one outcome did; failures are logged for staff to follow up.
+   * `localized` is the action in the guest's locale (validation and
+   * confirmation messages); staff see the stored, untranslated text.
+   */
+  async submit(
+    session: WebChatSession,
+    actionId: string,
+    localized: ActionDefinition,
+    input: Record<string, string>,
+    locale: SupportedLocale,
+  ): Promise<ActionResult> {
+    const row = await this.getRow(actionId);
+    const action = toDTO(row);
+
+    const invalid = validateActionFields(localized, input, locale);
+    if (invalid) return invalid;
+
+    // Only declared, visible fields are passed on
+    const values: Record<string, string> = {};
+    for (const field of action.fields) {
+      if (field.showWhen && !field.showWhen.values.includes(input[field.showWhen.field] ?? '')) continue;
+      const value = input[field.key]?.trim();
+      if (value) values[field.key] = value;
+    }
+
+    const submission = await this.describeSubmission(session, action, values);
+
+    let succeeded = 0;
+    let taskId: string | undefined;
+    for (const outcome of parseOutcomes(row)) {
+      try {
+        switch (outcome.type) {
+          case 'task': {
+            const task = await taskService.create({
+              conversationId: session.conversationId ?? undefined,
+              source: 'auto',
+              type: outcome.taskType,
+              department: outcome.department,
+              priority: outcome.priority,
+              roomNumber: submission.roomNumber ?? undefined,
+              description: submission.summary,
+            });
+            taskId = task.id;
+            break;
+          }
+          case 'email': {
+            const sent = await emailService.sendNotificationEmail(
+              outcome.to,
+              `Webchat request: ${action.name}`,
+              submission.text,
+            );
+            if (!sent) throw new Error('Email not sent');
+            break;
+          }
+          case 'webhook':
+            await this.postWebhook(outcome, submission.payload);
+            break;
+        }
+        succeeded++;
+      } catch (error) {
+        log.error({ error, actionId: action.id, outcome: outcome.type }, 'Webchat action outcome failed');
+      }
+    }
+
+    if (succeeded === 0) {
+      return { success: false, message: t(locale, 'messages.requestFailed'), error: 'outcome_failed' };
+    }
+
+    log.info({ sessionId: session.id, actionId: action.id, succeeded, taskId }, 'Webchat action submitted');
+
+    const template = action.translations[locale]?.confirmationMessage || action.confirmationMessage;
+    const displayValues = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, optionLabel(localized, key, value)]),
+    );
+    return {
+      success: true,
+      message: renderMessage(template, displayValues),
+      ...(taskId && { data: { taskId } }),
+    };
+  }
+
+  // ----- Internals -----
+
+  private async getRow(id: string): Promise<WebChatActionRow> {
+    const [row] = await db.select().from(webchatActions).where(eq(webchatActions.id, id)).limit(1);
+    if (!row) {
+      throw new NotFoundError('Webchat action', id);
+    }
+    return row;
+  }
+
+  /**
+   * Staff-facing summary, email body, and webhook payload for a submission
+   */
+  private async describeSubmission(
+    session: WebChatSession,
+    action: WebChatCustomActionDTO,
+    values: Record<string, string>,
+  ) {
+    const reservation = session.verificationStatus === 'verified' ? await findSessionReservation(session) : null;
+    const [guest] = session.guestId
+      ? await db.select().from(guests).where(eq(guests.id, session.guestId)).limit(1)
+      : [];
+
+    const lines = action.fields
+      .filter((f) => values[f.key] !== undefined)
+      .map((f) => `${f.label}: ${optionLabel(action, f.key, values[f.key]!)}`);
+
+    const guestName = guest ? `${guest.firstName} ${guest.lastName}` : null;
+    const context = [
+      guestName && `Guest: ${guestName}`,
+      reservation?.roomNumber && `Room: ${reservation.roomNumber}`,
+      reservation && `Booking: ${reservation.confirmationNumber}`,
+    ].filter(Boolean);
+
+    return {
+      roomNumber: reservation?.roomNumber ?? null,
+      summary: `${action.name} — ${lines.join('; ')}`,
+      text: [...context, '', ...lines].join('\n').trim(),
+      payload: {
+        event: 'webchat.action.submitted',
+        action: { id: action.id, name: action.name },
+        fields: values,
+        guest: guest ? { id: guest.id, firstName: guest.firstName, lastName: guest.lastName } : null,
+        reservation: reservation
+          ? {
+              confirmationNumber: reservation.confirmationNumber,
+              roomNumber: reservation.roomNumber,
+              arrivalDate: reservation.arrivalDate,
+              departureDate: reservation.departureDate,
+            }
+          : null,
+        conversationId: session.conversationId,
+        submittedAt: now(),
+      },
+    };
+  }
+
+  /**
+   * POST the submission as JSON. With a secret, the body is signed
+   * (`X-Jack-Signature: sha256=<hex HMAC>`) so the receiver can verify it.
+   */
+  private async postWebhook(outcome: StoredWebhookOutcome, payload: Record<string, unknown>): Promise<void> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (outcome.secretEncrypted) {
+      const signature = createHmac('sha256', decrypt(outcome.secretEncrypted)).update(body).digest('hex');
+      headers['X-Jack-Signature'] = `sha256=${signature}`;
+    }
+
+    const response = await fetch(outcome.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const webchatCustomActionService = new WebChatCustomActionService();
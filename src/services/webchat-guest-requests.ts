@@ -0,0 +1,347 @@
+/**
+ * WebChat Guest Requests
+ *
+ * Handlers for the self-service request actions: late checkout, wake-up
+ * call, amenities, maintenance and airport transfer. Each validates the
+ * form against the verified reservation, creates a task for the right
+ * department, and returns a confirmation for the conversation.
+ *
+ * The room number always comes from the reservation when the PMS has
+ * assigned one — guest input is only used when it hasn't.
+ *
+ * @module apps/channels/webchat/guest-requests
+ */
+
+import { and, eq, or } from 'drizzle-orm';
+import { db, reservations } from '@/db/index.js';
+import type { Reservation, WebChatSession } from '@/db/schema.js';
+import { createLogger } from '@/utils/logger.js';
+import { localDateTime, zonedDateTimeToUtc } from '@/utils/time.js';
+import { taskService, type TaskType, type TaskPriority } from '@/services/task.js';
+import { hotelProfileService } from '@/services/hotel-profile.js';
+import { roomService } from '@/services/room.js';
+import { t } from '@/locales/webchat/index.js';
+import type { SupportedLocale } from '@/locales/webchat/index.js';
+import type { ActionResult, WebChatAction, WebChatActionField } from './webchat-actions.js';
+
+const log = createLogger('webchat-guest-requests');
+
+// ============================================
+// Types
+// ============================================
+
+type ActionDefinition = Omit<WebChatAction, 'endpoint'>;
+
+/** A validated request, ready to become a task */
+interface GuestRequest {
+  type: TaskType;
+  department: string;
+  priority?: TaskPriority;
+  roomNumber?: string | undefined;
+  /** Staff-facing, always English */
+  description: string;
+  dueAt?: string;
+  /** Guest-facing confirmation */
+  message: string;
+}
+
+interface RequestContext {
+  action: ActionDefinition;
+  localized: ActionDefinition;
+  reservation: Reservation;
+  input: Record<string, string>;
+  locale: SupportedLocale;
+  timezone: string;
+}
+
+type RequestBuilder = (ctx: RequestContext) => GuestRequest | ActionResult;
+
+// ============================================
+// Constants
+// ============================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_QUANTITY = 10;
+const MAX_PASSENGERS = 8;
+
+// ============================================
+// Request builders
+// ============================================
+
+const builders: Record<string, RequestBuilder> = {
+  'late-checkout': ({ reservation, input, locale }) => {
+    const time = input.checkoutTime!;
+    return {
+      type: 'other',
+      department: 'front_desk',
+      roomNumber: reservation.roomNumber ?? undefined,
+      description: withNotes(`Late checkout requested until ${time} on ${reservation.departureDate}`, input.notes),
+      message: t(locale, 'messages.lateCheckoutRequested', { time }),
+    };
+  },
+
+  'wake-up-call': (ctx) => {
+    const { reservation, input, locale } = ctx;
+    const when = validateStayDateTime(ctx, reservation.arrivalDate);
+    if ('success' in when) return when;
+    return {
+      type: 'other',
+      department: 'front_desk',
+      roomNumber: reservation.roomNumber ?? undefined,
+      description: `Wake-up call at ${input.time} on ${input.date}`,
+      dueAt: when.dueAt,
+      message: t(locale, 'messages.wakeUpCallBooked', { date: input.date!, time: input.time! }),
+    };
+  },
+
+  'order-amenities': (ctx) => {
+    const { action, localized, reservation, input, locale } = ctx;
+    const quantity = parseBoundedInt(input.quantity, MAX_QUANTITY);
+    if (quantity === null) return invalidField(ctx, 'quantity');
+    const item = input.item!;
+    return {
+      type: 'housekeeping',
+      department: 'housekeeping',
+      roomNumber: reservation.roomNumber ?? undefined,
+      description: withNotes(`Amenities: ${quantity} × ${optionLabel(action, 'item', item)}`, input.notes),
+      message: t(locale, 'messages.amenitiesRequested', {
+        quantity: String(quantity),
+        item: optionLabel(localized, 'item', item),
+      }),
+    };
+  },
+
+  'report-maintenance': ({ action, reservation, input, locale }) => {
+    const roomNumber = reservation.roomNumber ?? input.roomNumber!.trim();
+    return {
+      type: 'maintenance',
+      department: 'maintenance',
+      priority: 'high',
+      roomNumber,
+      description: `${optionLabel(action, 'category', input.category!)}: ${input.description!.trim()}`,
+      message: t(locale, 'messages.maintenanceReported', { roomNumber }),
+    };
+  },
+
+  'airport-transfer': (ctx) => {
+    const { action, reservation, input, locale } = ctx;
+    const passengers = parseBoundedInt(input.passengers, MAX_PASSENGERS);
+    if (passengers === null) return invalidField(ctx, 'passengers');
+    const when = validateStayDateTime(ctx);
+    if ('success' in when) return when;
+    const direction = optionLabel(action, 'direction', input.direction!).toLowerCase();
+    const flight = input.flightNumber?.trim() ? `, flight ${input.flightNumber.trim()}` : '';
+    return {
+      type: 'concierge',
+      department: 'concierge',
+      roomNumber: reservation.roomNumber ?? undefined,
+      description: `Airport transfer (${direction}) on ${input.date} at ${input.time} for ${passengers} passenger(s)${flight}`,
+      dueAt: when.dueAt,
+      message: t(locale, 'messages.transferRequested', { date: input.date!, time: input.time! }),
+    };
+  },
+};
+
+/**
+ * Whether an action ID is one of the guest request actions handled here.
+ */
+export function isGuestRequestAction(actionId: string): boolean {
+  return actionId in builders;
+}
+
+// ============================================
+// Entry points
+// ============================================
+
+/**
+ * Validate a guest request form and create the matching task.
+ * `action` is the English definition (staff-facing task text);
+ * `localized` is the guest's locale (validation and confirmation messages).
+ */
+export async function submitGuestRequest(
+  session: WebChatSession,
+  action: ActionDefinition,
+  localized: ActionDefinition,
+  input: Record<string, string>,
+  locale: SupportedLocale,
+): Promise<ActionResult> {
+  const build = builders[action.id];
+  if (!build) {
+    return { success: false, message: t(locale, 'messages.actionNotImplemented'), error: 'not_implemented' };
+  }
+
+  const reservation = await findSessionReservation(session);
+  if (!reservation) {
+    return { success: false, message: t(locale, 'messages.noReservationLinked'), error: 'no_reservation' };
+  }
+
+  // A prefilled room number isn't required from the guest once the PMS has assigned one
+  const prefilled = reservation.roomNumber
+    ? localized.fields.filter((f) => f.prefill === 'roomNumber').map((f) => f.key)
+    : [];
+  const invalid = validateActionFields(localized, input, locale, prefilled);
+  if (invalid) return invalid;
+
+  const { profile } = await hotelProfileService.getProfile();
+  const request = build({ action, localized, reservation, input, locale, timezone: profile.timezone });
+  if ('success' in request) return request;
+
+  // A typed room number must be one the PMS knows
+  if (!reservation.roomNumber && request.roomNumber && !(await roomService.isKnownRoom(request.roomNumber))) {
+    const field = localized.fields.find((f) => f.prefill === 'roomNumber');
+    if (field) return fieldError(field, locale);
+  }
+
+  const task = await taskService.create({
+    conversationId: session.conversationId ?? undefined,
+    source: 'auto',
+    type: request.type,
+    department: request.department,
+    roomNumber: request.roomNumber,
+    description: request.description,
+    priority: request.priority,
+    dueAt: request.dueAt,
+  });
+
+  log.info(
+    { sessionId: session.id, actionId: action.id, taskId: task.id, department: task.department },
+    'Guest request created task',
+  );
+
+  return { success: true, message: request.message, data: { taskId: task.id } };
+}
+
+/**
+ * Values for fields marked `prefill`, taken from the session's verified
+ * reservation. Fields with nothing to prefill are omitted.
+ */
+export async function getGuestRequestPrefill(
+  session: WebChatSession,
+  action: ActionDefinition,
+): Promise<Record<string, string>> {
+  const prefilled = action.fields.filter((f) => f.prefill);
+  if (prefilled.length === 0 || session.verificationStatus !== 'verified') return {};
+
+  const reservation = await findSessionReservation(session);
+  const values: Record<string, string> = {};
+  for (const field of prefilled) {
+    if (field.prefill === 'roomNumber' && reservation?.roomNumber) {
+      values[field.key] = reservation.roomNumber;
+    }
+  }
+  return values;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * The local reservation a verified session is linked to. Sessions store
+ * the PMS external ID, or the confirmation number when there is none.
+ */
+export async function findSessionReservation(session: WebChatSession): Promise<Reservation | null> {
+  if (!session.guestId || !session.reservationId) return null;
+
+  const [reservation] = await db
+    .select()
+    .from(reservations)
+    .where(
+      and(
+        eq(reservations.guestId, session.guestId),
+        or(
+          eq(reservations.externalId, session.reservationId),
+          eq(reservations.confirmationNumber, session.reservationId),
+        ),
+      ),
+    )
+    .limit(1);
+
+  return reservation ?? null;
+}
+
+/**
+ * Required fields and select values, skipping fields hidden by `showWhen`.
+ * Keys in `optionalKeys` are not required even when the field says so.
+ */
+export function validateActionFields(
+  action: ActionDefinition,
+  input: Record<string, string>,
+  locale: SupportedLocale,
+  optionalKeys: readonly string[] = [],
+): ActionResult | null {
+  for (const field of action.fields) {
+    if (field.showWhen && !field.showWhen.values.includes(input[field.showWhen.field] ?? '')) continue;
+
+    const value = input[field.key]?.trim();
+    if (field.required && !value && !optionalKeys.includes(field.key)) {
+      return { success: false, message: t(locale, 'messages.fieldRequired', { field: field.label }), error: 'missing_fields' };
+    }
+    if (value && field.options && !field.options.includes(value)) {
+      return fieldError(field, locale);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check `input.date`/`input.time` fall between `earliestDate` (or today)
+ * and checkout, and are still in the future. Returns the UTC due time.
+ */
+function validateStayDateTime(
+  ctx: RequestContext,
+  earliestDate?: string,
+): { dueAt: string } | ActionResult {
+  const { input, reservation, timezone } = ctx;
+  const date = input.date!;
+  const time = input.time!;
+
+  if (!DATE_PATTERN.test(date)) return invalidField(ctx, 'date');
+  if (!TIME_PATTERN.test(time)) return invalidField(ctx, 'time');
+
+  const today = localDateTime(timezone).date;
+  const from = earliestDate && earliestDate > today ? earliestDate : today;
+  if (date < from || date > reservation.departureDate) {
+    return { success: false, message: t(ctx.locale, 'messages.dateOutsideStay'), error: 'invalid_date' };
+  }
+
+  const dueAt = zonedDateTimeToUtc(date, time, timezone);
+  if (Date.parse(dueAt) <= Date.now()) {
+    return { success: false, message: t(ctx.locale, 'messages.timeInPast'), error: 'invalid_date' };
+  }
+
+  return { dueAt };
+}
+
+function invalidField(ctx: RequestContext, key: string): ActionResult {
+  const field = ctx.localized.fields.find((f) => f.key === key);
+  return fieldError(field ?? { key, label: key, type: 'text', required: true }, ctx.locale);
+}
+
+function fieldError(field: WebChatActionField, locale: SupportedLocale): ActionResult {
+  return { success: false, message: t(locale, 'messages.invalidField', { field: field.label }), error: 'invalid_field' };
+}
+
+/** Positive integer no larger than `max`, or null */
+function parseBoundedInt(value: string | undefined, max: number): number | null {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 && n <= max ? n : null;
+}
+
+/** Display label for a select value, falling back to the prettified value */
+export function optionLabel(action: ActionDefinition, key: string, value: string): string {
+  const field = action.fields.find((f) => f.key === key);
+  const index = field?.options?.indexOf(value) ?? -1;
+  if (index < 0) return value;
+  return field?.optionLabels?.[index] ?? prettifyOption(value);
+}
+
+/** 'baby-cot' → 'Baby Cot' */
+export function prettifyOption(value: string): string {
+  return value.replace(/-/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function withNotes(description: string, notes: string | undefined): string {
+  return notes?.trim() ? `${description}. Notes: ${notes.trim()}` : description;
+}
@@ -299,7 +299,7 @@ async function completeVerification(
 
     // Send merged history (old + current messages, chronological)
     try {
-      const history = await conversationService.getMessages(previousConv.id, { limit: 50 });
+      const history = await conversationService.getMessages(previousConv.id, { limit: 50, excludeInternal: true });
       webchatConnectionManager.send(sessionId, {
         type: 'history',
         messages: history.map((m) => ({
@@ -0,0 +1,343 @@
+/**
+ * WhatsApp Template Service
+ *
+ * Meta only accepts free-form WhatsApp messages within 24 hours of the
+ * guest's last message (the customer service window); after that, only
+ * pre-approved templates get through. This service syncs the business
+ * account's templates, stores which guest or reservation field fills each
+ * body variable, and swaps a reply for the fallback template when the
+ * window has closed.
+ *
+ * @module services/whatsapp-templates
+ */
+
+import { and, desc, eq, ne, notInArray } from 'drizzle-orm';
+import type { MessageTemplate, OutboundMessage, TemplateMessage } from '@jackthebutler/shared';
+import { getAppRegistry } from '@/apps/index.js';
+import { db, conversations, guests, messages, reservations, whatsappTemplates } from '@/db/index.js';
+import type { Guest, Reservation, WhatsAppTemplate } from '@/db/schema.js';
+import { NotFoundError, ValidationError } from '@/errors/index.js';
+import { hotelProfileService } from '@/services/hotel-profile.js';
+import { generateId } from '@/utils/id.js';
+import { createLogger } from '@/utils/logger.js';
+import { now } from '@/utils/time.js';
+
+const log = createLogger('whatsapp-templates');
+
+// ===================
+// Types
+// ===================
+
+/** Fields a template body variable can be filled from */
+export const TEMPLATE_VARIABLE_SOURCES = [
+  'guest.firstName',
+  'guest.lastName',
+  'guest.fullName',
+  'reservation.confirmationNumber',
+  'reservation.roomNumber',
+  'reservation.arrivalDate',
+  'reservation.departureDate',
+  'hotel.name',
+  'message.content',
+] as const;
+
+export type TemplateVariableSource = (typeof TEMPLATE_VARIABLE_SOURCES)[number];
+
+export interface WhatsAppTemplateDTO extends Omit<WhatsAppTemplate, 'variables'> {
+  /** Source per body variable (`{{1}}` first); null = not mapped yet */
+  variables: Array<TemplateVariableSource | null>;
+}
+
+export interface UpdateWhatsAppTemplateInput {
+  variables?: Array<TemplateVariableSource | null> | undefined;
+  isFallback?: boolean | undefined;
+}
+
+export interface TemplateSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+/** Whether a free-form WhatsApp message can be sent in a conversation */
+export interface MessagingWindow {
+  open: boolean;
+  lastInboundAt: string | null;
+  closesAt: string | null;
+}
+
+// ===================
+// Constants
+// ===================
+
+/** Meta's customer service window */
+export const MESSAGING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Meta's limit on a single body parameter */
+const MAX_PARAMETER_LENGTH = 1024;
+
+/** Meta rejects empty parameters */
+const EMPTY_VALUE = '-';
+
+// ===================
+// Helpers
+// ===================
+
+function toDTO(row: WhatsAppTemplate): WhatsAppTemplateDTO {
+  return { ...row, variables: JSON.parse(row.variables || '[]') };
+}
+
+/** `en_US` → `en` */
+function baseLanguage(code: string): string {
+  return code.toLowerCase().split(/[_-]/)[0] ?? code;
+}
+
+/**
+ * Parameters may not contain newlines, tabs or runs of more than four
+ * spaces, so message text is flattened to one line.
+ */
+export function toTemplateParameter(value: string | null | undefined): string {
+  const flat = (value ?? '').replace(/\s+/g, ' ').trim();
+  if (!flat) return EMPTY_VALUE;
+  return flat.length > MAX_PARAMETER_LENGTH ? `${flat.slice(0, MAX_PARAMETER_LENGTH - 1)}…` : flat;
+}
+
+/** Keep existing mappings when a template's variable count changes */
+function resizeVariables(variables: Array<TemplateVariableSource | null>, count: number) {
+  return Array.from({ length: count }, (_, i) => variables[i] ?? null);
+}
+
+// ===================
+// Service
+// ===================
+
+export class WhatsAppTemplateService {
+  async list(): Promise<WhatsAppTemplateDTO[]> {
+    const rows = await db.select().from(whatsappTemplates).orderBy(whatsappTemplates.name, whatsappTemplates.language);
+    return rows.map(toDTO);
+  }
+
+  /**
+   * Pull templates from the WhatsApp Business account. Variable mappings and
+   * the fallback choice survive a re-sync; templates deleted in Meta are
+   * removed.
+   */
+  async sync(): Promise<TemplateSyncResult> {
+    const adapter = getAppRegistry().getTemplateAdapter('whatsapp');
+    if (!adapter?.listTemplates) {
+      throw new ValidationError('No active WhatsApp app with message template support');
+    }
+
+    const templates: MessageTemplate[] = await adapter.listTemplates();
+    const existing = new Map((await this.list()).map((t) => [`${t.name}:${t.language}`, t]));
+    const timestamp = now();
+    const result: TemplateSyncResult = { added: 0, updated: 0, removed: 0 };
+    const keptIds: string[] = [];
+
+    for (const template of templates) {
+      const fields = {
+        category: template.category,
+        status: template.status,
+        body: template.body,
+        parameterCount: template.parameterCount,
+        syncedAt: timestamp,
+        updatedAt: timestamp,
+      };
+      const current = existing.get(`${template.name}:${template.language}`);
+
+      if (current) {
+        const variables = resizeVariables(current.variables, template.parameterCount);
+        await db
+          .update(whatsappTemplates)
+          .set({
+            ...fields,
+            variables: JSON.stringify(variables),
+            // Stop using a fallback that was unapproved or gained unmapped variables
+            ...((template.status !== 'APPROVED' || variables.includes(null)) && { isFallback: false }),
+          })
+          .where(eq(whatsappTemplates.id, current.id));
+        keptIds.push(current.id);
+        result.updated++;
+      } else {
+        const id = generateId('whatsappTemplate');
+        await db.insert(whatsappTemplates).values({
+          id,
+          name: template.name,
+          language: template.language,
+          variables: JSON.stringify(resizeVariables([], template.parameterCount)),
+          createdAt: timestamp,
+          ...fields,
+        });
+        keptIds.push(id);
+        result.added++;
+      }
+    }
+
+    const removed = await db
+      .delete(whatsappTemplates)
+      .where(keptIds.length > 0 ? notInArray(whatsappTemplates.id, keptIds) : undefined)
+      .returning({ id: whatsappTemplates.id });
+    result.removed = removed.length;
+
+    log.info({ ...result }, 'WhatsApp templates synced');
+    return result;
+  }
+
+  /**
+   * Map body variables and/or mark the template as the fallback for its
+   * language (replacing any other fallback in that language)
+   */
+  async update(id: string, input: UpdateWhatsAppTemplateInput): Promise<WhatsAppTemplateDTO> {
+    const template = toDTO(await this.getRow(id));
+    const variables = input.variables ?? template.variables;
+
+    if (variables.length !== template.parameterCount) {
+      throw new ValidationError(
+        `Template "${template.name}" has ${template.parameterCount} variable(s), got ${variables.length}`
+      );
+    }
+    const isFallback = input.isFallback ?? template.isFallback;
+    if (isFallback && template.status !== 'APPROVED') {
+      throw new ValidationError('Only approved templates can be used as the fallback');
+    }
+    if (isFallback && variables.some((v) => v === null)) {
+      throw new ValidationError('Map every variable before using the template as the fallback');
+    }
+
+    if (input.isFallback) {
+      await db
+        .update(whatsappTemplates)
+        .set({ isFallback: false, updatedAt: now() })
+        .where(and(eq(whatsappTemplates.language, template.language), ne(whatsappTemplates.id, id)));
+    }
+
+    const [updated] = await db
+      .update(whatsappTemplates)
+      .set({ variables: JSON.stringify(variables), isFallback, updatedAt: now() })
+      .where(eq(whatsappTemplates.id, id))
+      .returning();
+    return toDTO(updated!);
+  }
+
+  /**
+   * The 24-hour window opened by the guest's last message
+   */
+  async getWindow(conversationId: string): Promise<MessagingWindow> {
+    const [last] = await db
+      .select({ createdAt: messages.createdAt })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.direction, 'inbound')))
+      .orderBy(desc(messages.createdAt))
+      .limit(1);
+
+    if (!last) {
+      return { open: false, lastInboundAt: null, closesAt: null };
+    }
+    const closesAt = new Date(new Date(last.createdAt).getTime() + MESSAGING_WINDOW_MS);
+    return { open: closesAt.getTime() > Date.now(), lastInboundAt: last.createdAt, closesAt: closesAt.toISOString() };
+  }
+
+  /**
+   * Whether replies can still be delivered once a window has closed
+   */
+  async hasFallback(): Promise<boolean> {
+    const [row] = await db
+      .select({ id: whatsappTemplates.id })
+      .from(whatsappTemplates)
+      .where(eq(whatsappTemplates.isFallback, true))
+      .limit(1);
+    return !!row;
+  }
+
+  /**
+   * Make a WhatsApp message sendable: inside the window it goes out as is;
+   * once the window has closed it is sent as the fallback template, with the
+   * message text available to the template as `message.content`.
+   */
+  async prepareOutbound(message: OutboundMessage): Promise<OutboundMessage> {
+    if (message.metadata?.template) return message;
+
+    const window = await this.getWindow(message.conversationId);
+    if (window.open) return message;
+
+    const template = await this.renderFallback(message.conversationId, message.content);
+    if (!template) {
+      throw new Error('WhatsApp 24-hour window has closed and no fallback template is set');
+    }
+
+    log.info({ conversationId: message.conversationId, template: template.name }, 'Window closed, sending fallback template');
+    return { ...message, metadata: { ...message.metadata, template } };
+  }
+
+  // ----- Internals -----
+
+  /**
+   * Pick the fallback template in the guest's language (then the property
+   * language, then any) and fill in its variables
+   */
+  private async renderFallback(conversationId: string, content: string): Promise<TemplateMessage | null> {
+    const fallbacks = (
+      await db.select().from(whatsappTemplates).where(eq(whatsappTemplates.isFallback, true))
+    ).map(toDTO);
+    if (fallbacks.length === 0) return null;
+
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, conversationId)).limit(1);
+    let guest: Guest | undefined;
+    if (conversation?.guestId) {
+      [guest] = await db.select().from(guests).where(eq(guests.id, conversation.guestId)).limit(1);
+    }
+    const reservation = await this.findReservation(conversation?.reservationId ?? null, guest?.id);
+    const { profile } = await hotelProfileService.getProfile();
+
+    const preferred = [guest?.language, conversation?.guestLanguage, profile.propertyLanguage]
+      .filter((lang): lang is string => !!lang)
+      .map(baseLanguage);
+    const template =
+      preferred.map((lang) => fallbacks.find((t) => baseLanguage(t.language) === lang)).find(Boolean) ??
+      fallbacks[0]!;
+
+    const values: Record<TemplateVariableSource, string | null | undefined> = {
+      'guest.firstName': guest?.firstName,
+      'guest.lastName': guest?.lastName,
+      'guest.fullName': guest ? `${guest.firstName} ${guest.lastName}`.trim() : null,
+      'reservation.confirmationNumber': reservation?.confirmationNumber,
+      'reservation.roomNumber': reservation?.roomNumber,
+      'reservation.arrivalDate': reservation?.arrivalDate,
+      'reservation.departureDate': reservation?.departureDate,
+      'hotel.name': profile.name,
+      'message.content': content,
+    };
+
+    return {
+      name: template.name,
+      language: template.language,
+      parameters: template.variables.map((source) => toTemplateParameter(source ? values[source] : null)),
+    };
+  }
+
+  /** The conversation's reservation, else the guest's latest */
+  private async findReservation(reservationId: string | null, guestId: string | undefined) {
+    if (reservationId) {
+      const [reservation] = await db.select().from(reservations).where(eq(reservations.id, reservationId)).limit(1);
+      if (reservation) return reservation;
+    }
+    if (!guestId) return undefined;
+    const [latest]: Reservation[] = await db
+      .select()
+      .from(reservations)
+      .where(eq(reservations.guestId, guestId))
+      .orderBy(desc(reservations.arrivalDate))
+      .limit(1);
+    return latest;
+  }
+
+  private async getRow(id: string): Promise<WhatsAppTemplate> {
+    const [row] = await db.select().from(whatsappTemplates).where(eq(whatsappTemplates.id, id)).limit(1);
+    if (!row) {
+      throw new NotFoundError('WhatsApp template', id);
+    }
+    return row;
+  }
+}
+
+export const whatsappTemplateService = new WhatsAppTemplateService();
@@ -31,6 +31,25 @@ export interface ConversationSummary {
   createdAt: string;
 }
 
+/**
+ * What triggered a handoff summary refresh
+ */
+export type HandoffSummaryTrigger = 'escalation' | 'shift_change' | 'manual';
+
+/**
+ * AI-written note for the staff member picking up a conversation
+ */
+export interface HandoffSummary {
+  /** What the guest wants, in a sentence or two */
+  guestWants: string;
+  /** Commitments made to the guest by staff or the AI */
+  promised: string[];
+  /** Tasks on the conversation still waiting on staff */
+  openTasks: string[];
+  trigger: HandoffSummaryTrigger;
+  updatedAt: string;
+}
+
 /**
  * Full conversation details
  */
@@ -38,6 +57,7 @@ export interface ConversationDetails extends ConversationSummary {
   reservationId?: string | null;
   metadata: Record<string, unknown>;
   resolvedAt?: string | null;
+  handoffSummary: HandoffSummary | null;
   updatedAt: string;
 }
 
@@ -54,4 +74,6 @@ export interface UpdateConversationInput {
   guestLanguage?: string | undefined;
   /** Only used when state === 'closed' to populate the CONVERSATION_CLOSED event reason */
   _closeReason?: 'timeout' | 'staff_resolved' | 'guest_satisfied' | undefined;
+  /** Only used when state === 'escalated' to populate the CONVERSATION_ESCALATED event */
+  _escalation?: { reasons: string[]; priority: 'urgent' | 'high' | 'standard' } | undefined;
 }
@@ -24,16 +24,21 @@ export const EventTypes = {
   CONVERSATION_ESCALATED: 'conversation.escalated',
   CONVERSATION_RESOLVED: 'conversation.resolved',
   CONVERSATION_CLOSED: 'conversation.closed',
+  CONVERSATION_NOTE_ADDED: 'conversation.note_added',
 
   // Task events
   TASK_CREATED: 'task.created',
   TASK_ASSIGNED: 'task.assigned',
   TASK_COMPLETED: 'task.completed',
+  TASK_SLA_BREACHED: 'task.sla_breached',
 
   // Guest events
   GUEST_CREATED: 'guest.created',
   GUEST_UPDATED: 'guest.updated',
 
+  // Knowledge events
+  KNOWLEDGE_EXPIRING: 'knowledge.expiring',
+
   // Model events
   MODEL_DOWNLOAD_PROGRESS: 'model.download.progress',
 
@@ -44,6 +49,9 @@ export const EventTypes = {
   RESERVATION_CHECKED_OUT: 'reservation.checked_out',
   RESERVATION_CANCELLED: 'reservation.cancelled',
 
+  // Room events
+  ROOM_STATUS_CHANGED: 'room.status_changed',
+
   // WebChat lifecycle events
   WEBCHAT_CONNECTED: 'webchat.connected',
   WEBCHAT_DISCONNECTED: 'webchat.disconnected',
@@ -107,6 +115,20 @@ export interface ConversationCreatedEvent extends BaseEvent {
   guestId?: string;
 }
 
+/**
+ * Internal staff note added to a conversation
+ */
+export interface ConversationNoteAddedEvent extends BaseEvent {
+  type: typeof EventTypes.CONVERSATION_NOTE_ADDED;
+  conversationId: string;
+  messageId: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  /** Staff @mentioned in the note, excluding the author */
+  mentionedStaffIds: string[];
+}
+
 /**
  * Conversation updated event
  */
@@ -169,6 +191,44 @@ export interface TaskCompletedEvent extends BaseEvent {
   taskId: string;
 }
 
+/**
+ * Task SLA breached event
+ *
+ * Emitted when an open task is first found past its due time (level 0 when
+ * no escalation step applies yet) and again each time further escalation
+ * steps fire.
+ */
+export interface TaskSlaBreachedEvent extends BaseEvent {
+  type: typeof EventTypes.TASK_SLA_BREACHED;
+  taskId: string;
+  department: string;
+  priority: string;
+  dueAt: string;
+  overdueMinutes: number;
+  /** Escalation level reached (number of ladder steps applied) */
+  level: number;
+  /** Set when an escalation step raised the priority */
+  previousPriority?: string;
+  /** Set when an escalation step reassigned the task */
+  reassignedTo?: string;
+  /** Active staff to notify (holders of the step's notify role) */
+  notifyStaffIds: string[];
+}
+
+/**
+ * Knowledge entry about to expire event
+ *
+ * Emitted once per entry when its `validUntil` date comes within the
+ * warning period.
+ */
+export interface KnowledgeExpiringEvent extends BaseEvent {
+  type: typeof EventTypes.KNOWLEDGE_EXPIRING;
+  knowledgeId: string;
+  title: string;
+  /** Last day the entry applies (YYYY-MM-DD, hotel time) */
+  validUntil: string;
+}
+
 /**
  * Model download progress event
  */
@@ -266,6 +326,16 @@ export interface WebchatErrorEvent extends BaseEvent {
   error: string;
 }
 
+/**
+ * Room status changed event (PMS sync or webhook)
+ */
+export interface RoomStatusChangedEvent extends BaseEvent {
+  type: typeof EventTypes.ROOM_STATUS_CHANGED;
+  roomNumber: string;
+  previousStatus: string;
+  status: string;
+}
+
 /**
  * Union of all event types
  */
@@ -275,17 +345,21 @@ export type AppEvent =
   | MessageFailedEvent
   | ConversationCreatedEvent
   | ConversationUpdatedEvent
+  | ConversationNoteAddedEvent
   | ConversationEscalatedEvent
   | ConversationClosedEvent
   | TaskCreatedEvent
   | TaskAssignedEvent
   | TaskCompletedEvent
+  | TaskSlaBreachedEvent
+  | KnowledgeExpiringEvent
   | ModelDownloadProgressEvent
   | ReservationCreatedEvent
   | ReservationUpdatedEvent
   | ReservationCheckedInEvent
   | ReservationCheckedOutEvent
   | ReservationCancelledEvent
+  | RoomStatusChangedEvent
   | WebchatConnectedEvent
   | WebchatDisconnectedEvent
   | WebchatErrorEvent;
@@ -6,6 +6,25 @@
 
 import type { ChannelType, ContentType } from '@jackthebutler/shared';
 
+/**
+ * Media attached to a message (a guest photo or voice note). The file lives
+ * in the media directory next to the database; see `services/media`.
+ */
+export interface MessageMedia {
+  /** Media ID (also the stored file's base name) */
+  id: string;
+  kind: 'image' | 'audio';
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** Stored file name, e.g. `med_lxyz123_a1b2c3d4.jpg` */
+  file: string;
+  /** What the image shows, from a vision-capable AI provider */
+  description?: string | undefined;
+  /** Speech-to-text transcript of a voice note */
+  transcript?: string | undefined;
+}
+
 /**
  * Inbound message from a channel
  */
@@ -20,10 +39,12 @@ export interface InboundMessage {
   channelId: string;
   /** Channel's message ID (e.g., WhatsApp message ID) */
   channelMessageId?: string | undefined;
-  /** Message content */
+  /** Message content (for media, the caption if any) */
   content: string;
   /** Content type */
   contentType: ContentType;
+  /** Downloaded photos / voice notes; turned into text before the pipeline runs */
+  media?: MessageMedia[] | undefined;
   /** When the message was sent */
   timestamp: Date;
   /** Additional metadata */
@@ -38,6 +59,8 @@ export interface InboundMessage {
 export interface OutboundMessage {
   /** Target conversation */
   conversationId: string;
+  /** Saved message row */
+  messageId: string;
   /** Message content */
   content: string;
   /** Content type */
@@ -47,9 +70,9 @@ export interface OutboundMessage {
 }
 
 /**
- * Message direction
+ * Message direction. `internal` is a staff note: never sent to the guest.
  */
-export type MessageDirection = 'inbound' | 'outbound';
+export type MessageDirection = 'inbound' | 'outbound' | 'internal';
 
 /**
  * Message sender type
@@ -70,6 +93,7 @@ export interface CreateMessageInput {
   senderId?: string | undefined;
   content: string;
   contentType: ContentType;
+  media?: MessageMedia[] | undefined;
   channelMessageId?: string | undefined;
   intent?: string | undefined;
   confidence?: number | undefined;
@@ -0,0 +1,145 @@
+/**
+ * Email Utilities
+ *
+ * Parsing helpers for inbound email: addresses, Message-ID lists, raw
+ * header blocks, and reply-body cleanup (quoted history and signatures).
+ */
+
+/**
+ * Extract the bare, lower-cased address from a header value such as
+ * `"Jane Doe" <Jane@Example.com>`. Returns null if no address is found.
+ */
+export function parseEmailAddress(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const angle = value.match(/<([^<>\s]+@[^<>\s]+)>/);
+  const bare = angle?.[1] ?? value.match(/[^\s<>"',;:]+@[^\s<>"',;:]+/)?.[0];
+  return bare ? bare.toLowerCase() : null;
+}
+
+/**
+ * Split a `Message-ID`, `In-Reply-To` or `References` header into its
+ * individual ids, keeping the angle brackets.
+ */
+export function parseMessageIds(value: string | undefined | null): string[] {
+  if (!value) return [];
+  const ids = value.match(/<[^<>\s]+>/g);
+  if (ids) return ids;
+  // Some providers strip the brackets; treat whitespace-separated tokens as ids
+  return value
+    .split(/\s+/)
+    .filter((token) => token.includes('@'))
+    .map((token) => `<${token}>`);
+}
+
+/**
+ * Parse a raw RFC 5322 header block into a map with lower-cased names.
+ * Folded continuation lines are joined; the first occurrence of a header wins.
+ */
+export function parseRawHeaders(raw: string | undefined | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!raw) return headers;
+
+  const unfolded = raw.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ');
+  for (const line of unfolded.split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(idx + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * True when headers mark the message as machine-generated (vacation
+ * responders, bounces, bulk mail). Replying to these risks mail loops.
+ */
+export function isAutoGenerated(headers: Record<string, string> | undefined): boolean {
+  if (!headers) return false;
+  const autoSubmitted = headers['auto-submitted']?.toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  const precedence = headers['precedence']?.toLowerCase();
+  if (precedence === 'bulk' || precedence === 'junk' || precedence === 'list' || precedence === 'auto_reply') return true;
+  return 'x-autoreply' in headers || 'x-autorespond' in headers;
+}
+
+/**
+ * Reduce an HTML body to plain text. Only used when a message has no
+ * text part — good enough for the pipeline, not for display.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Lines that start the quoted history of a reply */
+const QUOTE_HEADER_PATTERNS = [
+  /^On\b.+wrote:$/i,
+  /^Le\b.+a écrit\s?:$/i,
+  /^Am\b.+schrieb.*:$/i,
+  /^El\b.+escribió:$/i,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^-{2,}\s*Forwarded message\s*-{2,}$/i,
+  /^_{10,}$/,
+  /^From:\s.+$/i,
+];
+
+/** Lines that start a signature block */
+const SIGNATURE_PATTERNS = [
+  /^-- ?$/,
+  /^Sent from my \w+/i,
+  /^Sent from (Outlook|Mail|Yahoo Mail)/i,
+  /^Get Outlook for \w+/i,
+];
+
+/**
+ * Strip quoted history and signatures from a plain-text reply, leaving
+ * only what the guest actually wrote in this message.
+ *
+ * Handles `> ` quoting, "On <date>, <name> wrote:" headers (including ones
+ * wrapped over two lines), Outlook "-----Original Message-----" / "From:"
+ * blocks, the `-- ` signature delimiter and common mobile footers.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trimEnd();
+    const trimmed = line.trim();
+
+    if (QUOTE_HEADER_PATTERNS.some((p) => p.test(trimmed))) break;
+    // Gmail wraps long attribution lines: "On Mon, ... <a@b.com>\nwrote:"
+    const next = lines[i + 1]?.trim();
+    if (/^On\b/i.test(trimmed) && next !== undefined && /^.*wrote:$/i.test(next)) break;
+    if (SIGNATURE_PATTERNS.some((p) => p.test(line))) break;
+    if (trimmed.startsWith('>')) continue;
+
+    kept.push(line);
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Build a reply subject, avoiding "Re: Re: Re:" chains.
+ */
+export function replySubject(subject: string | undefined | null): string {
+  const base = (subject ?? '').trim();
+  if (!base) return 'Re: Your message';
+  return /^re:/i.test(base) ? base : `Re: ${base}`;
+}
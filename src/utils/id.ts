@@ -13,6 +13,7 @@ import { randomBytes } from 'node:crypto';
 export const ID_PREFIXES = {
   guest: 'gst',
   reservation: 'res',
+  room: 'room',
   conversation: 'conv',
   message: 'msg',
   task: 'tsk',
@@ -28,6 +29,26 @@ export const ID_PREFIXES = {
   authToken: 'atok',
   // Guest memory
   memory: 'mem',
+  // AI response cache
+  responseCache: 'rc',
+  // Guest journey
+  journeyStep: 'jstep',
+  journeySend: 'jsend',
+  // Outbound webhooks
+  webhook: 'whk',
+  webhookDelivery: 'whd',
+  event: 'evt',
+  // Knowledge gaps
+  knowledgeGap: 'kgap',
+  knowledgeGapCluster: 'kgc',
+  // Inbound media (guest photos, voice notes)
+  media: 'med',
+  // Outbound message queue
+  outbound: 'obq',
+  // WhatsApp message templates
+  whatsappTemplate: 'wtpl',
+  // Staff reply suggestions
+  replyDraft: 'rdft',
 } as const;
 
 export type IdPrefix = keyof typeof ID_PREFIXES;
@@ -12,3 +12,50 @@
 export function now(): string {
   return new Date().toISOString();
 }
+
+/**
+ * Wall-clock date (YYYY-MM-DD) and time (HH:MM) in an IANA timezone.
+ * Falls back to UTC when the timezone is not recognised.
+ */
+export function localDateTime(timeZone: string, at: Date = new Date()): { date: string; time: string } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+  } catch {
+    return localDateTime('UTC', at);
+  }
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '00';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+}
+
+/**
+ * Shift a calendar date (YYYY-MM-DD) by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0]!;
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in an IANA
+ * timezone to a UTC ISO-8601 string.
+ */
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): string {
+  const target = Date.parse(`${date}T${time}:00Z`);
+  // Guess, then correct by the zone's offset at the guess (twice for DST edges)
+  let utc = target;
+  for (let i = 0; i < 2; i++) {
+    const local = localDateTime(timeZone, new Date(utc));
+    utc += target - Date.parse(`${local.date}T${local.time}:00Z`);
+  }
+  return new Date(utc).toISOString();
+}
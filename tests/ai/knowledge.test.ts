@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { KnowledgeService } from '@/services/knowledge.js';
+import { KnowledgeService, DEFAULT_RETRIEVAL_SETTINGS, toFtsQuery } from '@/services/knowledge.js';
 import { db, knowledgeBase, knowledgeEmbeddings } from '@/db/index.js';
 import { eq } from 'drizzle-orm';
 import type { AIProvider as LLMProvider } from '@jackthebutler/shared';
@@ -255,6 +255,94 @@ describe('KnowledgeService', () => {
     });
   });
 
+  describe('hybridSearch', () => {
+    afterEach(async () => {
+      await service.updateRetrievalSettings(DEFAULT_RETRIEVAL_SETTINGS);
+    });
+
+    it('should surface an exact keyword hit the vector search filtered out', async () => {
+      const item = await service.add({
+        category: 'amenity',
+        title: `${testPrefix} Zephyrine Lounge`,
+        content: 'Rooftop bar open from 5pm.',
+        keywords: JSON.stringify(['bar', 'rooftop']),
+      });
+
+      const results = await service.hybridSearch('zephyrine', new Array(1536).fill(0.1), { minSimilarity: 0.99 });
+
+      const hit = results.find((r) => r.id === item.id);
+      expect(hit).toBeDefined();
+      expect(hit?.keywordRank).toBe(1);
+      expect(hit?.vectorRank).toBeNull();
+      expect(hit?.keywordScore).toBeGreaterThan(0);
+    });
+
+    it('should only surface a partial keyword hit that is also semantically close', async () => {
+      const item = await service.add({
+        category: 'amenity',
+        title: `${testPrefix} Okapi Pool`,
+        content: 'Heated pool on the ground floor.',
+      });
+
+      const hybrid = await service.hybridSearch('okapi towels', new Array(1536).fill(0.1), { minSimilarity: 0.99 });
+      expect(hybrid.map((r) => r.id)).not.toContain(item.id);
+
+      // Without an embedding there is nothing else to go on
+      const keywordOnly = await service.hybridSearch('okapi towels', undefined);
+      expect(keywordOnly.map((r) => r.id)).toContain(item.id);
+    });
+
+    it('should keep the keyword index in sync with updates and deletes', async () => {
+      const item = await service.add({
+        category: 'faq',
+        title: `${testPrefix} Shuttle`,
+        content: 'The quokkabus leaves every hour.',
+      });
+
+      expect((await service.hybridSearch('quokkabus', undefined)).map((r) => r.id)).toContain(item.id);
+
+      await service.update(item.id, { content: 'The wallabybus leaves every hour.' });
+      expect((await service.hybridSearch('quokkabus', undefined)).map((r) => r.id)).not.toContain(item.id);
+      expect((await service.hybridSearch('wallabybus', undefined)).map((r) => r.id)).toContain(item.id);
+
+      await service.delete(item.id);
+      expect(await service.hybridSearch('wallabybus', undefined)).toHaveLength(0);
+    });
+
+    it('should ignore keyword matches when the keyword weight is 0', async () => {
+      await service.add({
+        category: 'faq',
+        title: `${testPrefix} Marmoset Suite`,
+        content: 'Our largest suite.',
+      });
+      await service.updateRetrievalSettings({ keywordWeight: 0 });
+
+      const results = await service.hybridSearch('marmoset', undefined);
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should reject settings that disable both signals', async () => {
+      await expect(service.updateRetrievalSettings({ vectorWeight: 0, keywordWeight: 0 })).rejects.toThrow(
+        'At least one retrieval weight must be above 0'
+      );
+    });
+  });
+
+  describe('toFtsQuery', () => {
+    it('should quote terms and drop stopwords', () => {
+      expect(toFtsQuery('What time is the SPA-OPEN?')).toBe('"time" OR "spa-open"');
+    });
+
+    it('should join terms with the given operator', () => {
+      expect(toFtsQuery('late checkout fee', 'AND')).toBe('"late" AND "checkout" AND "fee"');
+    });
+
+    it('should return null when nothing searchable is left', () => {
+      expect(toFtsQuery('is it a ?')).toBeNull();
+    });
+  });
+
   describe('searchByEmbedding', () => {
     it('should return results using a pre-computed embedding', async () => {
       await service.add({
@@ -0,0 +1,103 @@
+/**
+ * Response Streaming Tests
+ *
+ * Covers the Butler side of streamed replies:
+ * - `createTagStreamFilter` (src/pipeline/stages/extract-response-tags.ts)
+ *   keeps `[ACTION:...]` / `[QUICK_REPLIES:...]` / `[NO_ANSWER]` tags out of the delta
+ *   stream, including tags split across deltas.
+ * - `aiProvider.stream` (src/pipeline/adapters.ts) uses the active
+ *   provider's `stream` when present and falls back to `complete`.
+ *
+ * The package-level streaming path (`generateResponse`) is covered in
+ * packages/pipeline/tests.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockGetActiveAIProvider = vi.fn();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getActiveAIProvider: mockGetActiveAIProvider,
+    getEmbeddingProvider: vi.fn(),
+  }),
+}));
+
+import { createTagStreamFilter } from '@/pipeline/stages/extract-response-tags.js';
+import { aiProvider } from '@/pipeline/adapters.js';
+
+function run(deltas: string[]): string[] {
+  const out: string[] = [];
+  const filter = createTagStreamFilter((d) => out.push(d));
+  for (const d of deltas) filter(d);
+  return out;
+}
+
+describe('createTagStreamFilter', () => {
+  it('passes plain text straight through', () => {
+    expect(run(['Checkout ', 'is at 11am.'])).toEqual(['Checkout ', 'is at 11am.']);
+  });
+
+  it('drops a trailing tag and everything after it', () => {
+    expect(run(['Sure! ', '[ACTION:verify-reservation]'])).toEqual(['Sure! ']);
+    expect(run(['Anything else?\n[QUICK_REPLIES:Yes|No]'])).toEqual(['Anything else?\n']);
+    expect(run(['I\'m not sure, let me ask the team. [NO_', 'ANSWER]'])).toEqual(["I'm not sure, let me ask the team. "]);
+  });
+
+  it('holds back a tag split across deltas', () => {
+    expect(run(['Happy to help. [QUICK', '_REPL', 'IES:Spa|Pool]'])).toEqual(['Happy to help. ']);
+  });
+
+  it('releases held-back text once it is clearly not a tag', () => {
+    expect(run(['Rooms [A', 'B] are ready'])).toEqual(['Rooms ', '[AB] are ready']);
+    expect(run(['See [note] ', 'below'])).toEqual(['See [note] ', 'below']);
+  });
+});
+
+describe('aiProvider.stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('streams through the active provider and maps the request', async () => {
+    const provider = {
+      name: 'claude',
+      complete: vi.fn(),
+      stream: vi.fn(async (_req, onDelta: (d: string) => void) => {
+        onDelta('Hi');
+        return { content: 'Hi', usage: { inputTokens: 3, outputTokens: 1 } };
+      }),
+      embed: vi.fn(),
+    };
+    mockGetActiveAIProvider.mockReturnValue(provider);
+    const onDelta = vi.fn();
+
+    const result = await aiProvider.stream!(
+      { messages: [{ role: 'user', content: 'Hello' }], modelTier: 'reasoning', purpose: 'response_generation' },
+      onDelta
+    );
+
+    expect(result).toEqual({ content: 'Hi', usage: { inputTokens: 3, outputTokens: 1 } });
+    expect(onDelta).toHaveBeenCalledWith('Hi');
+    expect(provider.stream).toHaveBeenCalledWith(
+      expect.objectContaining({ modelTier: 'completion', purpose: 'response_generation' }),
+      onDelta
+    );
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a buffered completion when the provider cannot stream', async () => {
+    const provider = {
+      name: 'local',
+      complete: vi.fn(async () => ({ content: 'Hi', usage: { inputTokens: 3, outputTokens: 1 } })),
+      embed: vi.fn(),
+    };
+    mockGetActiveAIProvider.mockReturnValue(provider);
+    const onDelta = vi.fn();
+
+    const result = await aiProvider.stream!({ messages: [{ role: 'user', content: 'Hello' }] }, onDelta);
+
+    expect(result.content).toBe('Hi');
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+    expect(onDelta).not.toHaveBeenCalled();
+  });
+});
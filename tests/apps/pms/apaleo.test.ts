@@ -0,0 +1,449 @@
+/**
+ * Apaleo PMS Adapter Tests
+ *
+ * Runs the adapter against a local HTTP stand-in for the Apaleo identity
+ * server and API, answering with responses recorded in fixtures/apaleo.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createHmac } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import type { PluginContext } from '@/apps/types.js';
+import { ApaleoPMSAdapter, createApaleoPMSAdapter, manifest, type ApaleoConfig } from '@jackthebutler/pms-apaleo';
+
+const mockContext: PluginContext = {
+  appLog: vi.fn().mockImplementation((_e: string, _d: unknown, fn: () => Promise<unknown>) => fn()),
+};
+
+function fixture(name: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(new URL(`./fixtures/apaleo/${name}.json`, import.meta.url), 'utf-8'));
+}
+
+// ==================
+// Apaleo stand-in
+// ==================
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+type Reply = { status: number; body?: unknown };
+
+let server: Server;
+let baseUrl = '';
+let requests: RecordedRequest[] = [];
+let routes = new Map<string, Reply | ((req: RecordedRequest) => Reply)>();
+
+/** Answer `METHOD /path` (query ignored) with the given reply */
+function route(key: string, reply: Reply | ((req: RecordedRequest) => Reply)) {
+  routes.set(key, reply);
+}
+
+function requestsTo(key: string): RecordedRequest[] {
+  return requests.filter((r) => `${r.method} ${r.path}` === key);
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', baseUrl);
+      const recorded = { method: req.method ?? 'GET', path: url.pathname, query: url.searchParams, headers: req.headers, body };
+      requests.push(recorded);
+
+      const handler = routes.get(`${recorded.method} ${recorded.path}`);
+      const reply = typeof handler === 'function' ? handler(recorded) : handler ?? { status: 404, body: { message: 'Not found' } };
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function createConfig(overrides: Partial<ApaleoConfig> = {}): ApaleoConfig {
+  return {
+    clientId: 'JACK-AC',
+    clientSecret: 'client-secret',
+    propertyId: 'MUC',
+    apiUrl: baseUrl,
+    identityUrl: baseUrl,
+    webhookSecret: 'test-secret',
+    ...overrides,
+  };
+}
+
+function createAdapter(overrides: Partial<ApaleoConfig> = {}): ApaleoPMSAdapter {
+  return new ApaleoPMSAdapter(createConfig(overrides), mockContext);
+}
+
+beforeEach(() => {
+  requests = [];
+  routes = new Map();
+  route('POST /connect/token', { status: 200, body: fixture('token') });
+});
+
+// ==================
+// Tests
+// ==================
+
+describe('ApaleoPMSAdapter', () => {
+  describe('authentication', () => {
+    it('fetches a client-credentials token and reuses it', async () => {
+      route('GET /booking/v1/reservations/ABCDEFGH-1', { status: 200, body: fixture('reservation') });
+      const adapter = createAdapter();
+
+      await adapter.getReservation('ABCDEFGH-1');
+      await adapter.getReservation('ABCDEFGH-1');
+
+      const tokenRequests = requestsTo('POST /connect/token');
+      expect(tokenRequests).toHaveLength(1);
+      expect(tokenRequests[0]!.headers.authorization).toBe(
+        `Basic ${Buffer.from('JACK-AC:client-secret').toString('base64')}`
+      );
+      expect(new URLSearchParams(tokenRequests[0]!.body).get('grant_type')).toBe('client_credentials');
+
+      const apiRequests = requestsTo('GET /booking/v1/reservations/ABCDEFGH-1');
+      expect(apiRequests).toHaveLength(2);
+      expect(apiRequests[1]!.headers.authorization).toBe(`Bearer ${fixture('token').access_token}`);
+    });
+
+    it('fetches a new token once when the API answers 401', async () => {
+      let calls = 0;
+      route('GET /booking/v1/reservations/ABCDEFGH-1', () =>
+        ++calls === 1 ? { status: 401 } : { status: 200, body: fixture('reservation') }
+      );
+      const adapter = createAdapter();
+
+      const reservation = await adapter.getReservation('ABCDEFGH-1');
+
+      expect(reservation?.externalId).toBe('ABCDEFGH-1');
+      expect(requestsTo('POST /connect/token')).toHaveLength(2);
+    });
+
+    it('reports a failed connection when the credentials are rejected', async () => {
+      route('POST /connect/token', { status: 400, body: { error: 'invalid_client' } });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await createAdapter().testConnection()).toBe(false);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('connects when the property exists', async () => {
+      route('GET /inventory/v1/properties/MUC', { status: 200, body: { id: 'MUC', name: 'Hotel Munich' } });
+
+      expect(await createAdapter().testConnection()).toBe(true);
+    });
+  });
+
+  describe('reservations', () => {
+    it('maps a reservation with its primary guest', async () => {
+      route('GET /booking/v1/reservations/ABCDEFGH-1', { status: 200, body: fixture('reservation') });
+
+      const reservation = await createAdapter().getReservation('ABCDEFGH-1');
+
+      expect(reservation).toEqual({
+        externalId: 'ABCDEFGH-1',
+        source: 'apaleo',
+        confirmationNumber: 'ABCDEFGH-1',
+        guest: {
+          externalId: 'ABCDEFGH',
+          source: 'apaleo',
+          firstName: 'John',
+          lastName: 'Smith',
+          email: 'john@example.com',
+          phone: '+49 171 5551234',
+          language: 'en',
+          nationality: 'GB',
+        },
+        roomNumber: '101',
+        roomType: 'Double Room',
+        arrivalDate: '2026-02-15',
+        departureDate: '2026-02-18',
+        status: 'checked_in',
+        adults: 2,
+        children: 1,
+        rateCode: 'FLEX',
+        totalRate: 536.5,
+        currency: 'EUR',
+        specialRequests: ['Quiet room please'],
+        notes: ['VIP - returning guest'],
+      });
+    });
+
+    it('returns null for an unknown reservation', async () => {
+      expect(await createAdapter().getReservation('NOPE-1')).toBeNull();
+    });
+
+    it('finds a reservation by its external code when the ID does not match', async () => {
+      route('GET /booking/v1/reservations', { status: 200, body: fixture('reservations') });
+
+      const reservation = await createAdapter().getReservationByConfirmation('BDC-998877');
+
+      expect(reservation?.externalId).toBe('ABCDEFGH-1');
+      expect(requestsTo('GET /booking/v1/reservations')[0]!.query.get('externalCode')).toBe('BDC-998877');
+    });
+
+    it('searches arrivals with a date filter and filters rooms locally', async () => {
+      route('GET /booking/v1/reservations', { status: 200, body: fixture('reservations') });
+
+      const results = await createAdapter().searchReservations({
+        arrivalFrom: '2026-02-15',
+        arrivalTo: '2026-02-20',
+        roomNumber: '101',
+      });
+
+      expect(results.map((r) => r.externalId)).toEqual(['ABCDEFGH-1']);
+      const query = requestsTo('GET /booking/v1/reservations')[0]!.query;
+      expect(query.get('propertyIds')).toBe('MUC');
+      expect(query.get('dateFilter')).toBe('Arrival');
+      expect(query.get('from')).toBe('2026-02-15T00:00:00Z');
+      expect(query.get('to')).toBe('2026-02-20T00:00:00Z');
+    });
+
+    it('pages through modified reservations', async () => {
+      const [first, second] = fixture('reservations').reservations as unknown[];
+      route('GET /booking/v1/reservations', (req) => ({
+        status: 200,
+        body: { reservations: req.query.get('pageNumber') === '1' ? [first] : [second], count: 2 },
+      }));
+
+      const results = await createAdapter().getModifiedReservations(new Date('2026-02-15T00:00:00Z'));
+
+      expect(results.map((r) => [r.externalId, r.status])).toEqual([
+        ['ABCDEFGH-1', 'checked_in'],
+        ['KLMNOPQR-1', 'confirmed'],
+      ]);
+      const pages = requestsTo('GET /booking/v1/reservations');
+      expect(pages.map((r) => r.query.get('pageNumber'))).toEqual(['1', '2']);
+      expect(pages[0]!.query.get('dateFilter')).toBe('Modification');
+    });
+
+    it('treats 204 No Content as an empty list', async () => {
+      route('GET /booking/v1/reservations', { status: 204 });
+
+      expect(await createAdapter().getModifiedReservations(new Date())).toEqual([]);
+    });
+  });
+
+  describe('guests', () => {
+    it('finds a guest by email through the reservation text search', async () => {
+      route('GET /booking/v1/reservations', { status: 200, body: fixture('reservations') });
+
+      const guest = await createAdapter().getGuestByEmail('MARIA@example.com');
+
+      expect(guest).toMatchObject({ externalId: 'KLMNOPQR', firstName: 'Maria', lastName: 'Garcia' });
+      expect(requestsTo('GET /booking/v1/reservations')[0]!.query.get('textSearch')).toBe('MARIA@example.com');
+    });
+
+    it('matches phone numbers regardless of formatting', async () => {
+      route('GET /booking/v1/reservations', { status: 200, body: fixture('reservations') });
+
+      const guest = await createAdapter().getGuestByPhone('+491715551234');
+
+      expect(guest?.externalId).toBe('ABCDEFGH');
+    });
+
+    it('gets the primary guest of a booking', async () => {
+      route('GET /booking/v1/reservations', { status: 200, body: fixture('reservations') });
+
+      const guest = await createAdapter().getGuest('ABCDEFGH');
+
+      expect(guest?.email).toBe('john@example.com');
+      expect(requestsTo('GET /booking/v1/reservations')[0]!.query.get('bookingId')).toBe('ABCDEFGH');
+    });
+  });
+
+  describe('rooms', () => {
+    beforeEach(() => {
+      route('GET /inventory/v1/units', { status: 200, body: fixture('units') });
+      route('GET /booking/v1/reservations', { status: 200, body: fixture('reservations') });
+    });
+
+    it('maps units to rooms with their status and current stay', async () => {
+      const rooms = await createAdapter().getAllRooms();
+
+      expect(rooms).toEqual([
+        { number: '101', type: 'Double Room', status: 'occupied', currentReservationId: 'ABCDEFGH-1', currentGuestId: 'ABCDEFGH' },
+        { number: '102', type: 'Double Room', status: 'dirty' },
+        { number: '103', type: 'Single Room', status: 'clean' },
+        { number: '104', type: 'Single Room', status: 'out_of_order' },
+      ]);
+      expect(requestsTo('GET /inventory/v1/units')[0]!.query.get('propertyId')).toBe('MUC');
+      expect(requestsTo('GET /booking/v1/reservations')[0]!.query.get('status')).toBe('InHouse');
+    });
+
+    it('gets a single room status', async () => {
+      expect(await createAdapter().getRoomStatus('102')).toMatchObject({ number: '102', status: 'dirty' });
+      expect(await createAdapter().getRoomStatus('999')).toBeNull();
+    });
+  });
+
+  describe('write-back', () => {
+    it('appends a note to the reservation comment', async () => {
+      route('GET /booking/v1/reservations/ABCDEFGH-1', { status: 200, body: fixture('reservation') });
+      route('PATCH /booking/v1/reservations/ABCDEFGH-1', { status: 204 });
+
+      await createAdapter().addReservationNote('ABCDEFGH-1', 'Extra pillows delivered');
+
+      const patch = requestsTo('PATCH /booking/v1/reservations/ABCDEFGH-1')[0]!;
+      expect(patch.headers['content-type']).toBe('application/json-patch+json');
+      expect(JSON.parse(patch.body)).toEqual([
+        { op: 'add', path: '/comment', value: 'VIP - returning guest\nExtra pillows delivered' },
+      ]);
+    });
+
+    it('creates an out-of-order maintenance for the unit', async () => {
+      route('GET /inventory/v1/units', { status: 200, body: fixture('units') });
+      route('POST /operations/v1/maintenances', { status: 201, body: { id: 'MNT-2' } });
+
+      const result = await createAdapter().setRoomOutOfOrder('103', {
+        reason: 'Leaking shower',
+        from: '2026-02-15T10:00:00.000Z',
+        until: '2026-02-17T10:00:00.000Z',
+      });
+
+      expect(result).toEqual({ externalId: 'MNT-2' });
+      expect(JSON.parse(requestsTo('POST /operations/v1/maintenances')[0]!.body)).toEqual({
+        unitId: 'MUC-103',
+        from: '2026-02-15T10:00:00.000Z',
+        to: '2026-02-17T10:00:00.000Z',
+        type: 'OutOfOrder',
+        description: 'Leaking shower',
+      });
+    });
+
+    it('rejects an out-of-order block for an unknown room', async () => {
+      route('GET /inventory/v1/units', { status: 200, body: fixture('units') });
+
+      await expect(
+        createAdapter().setRoomOutOfOrder('999', { reason: 'Broken', from: '2026-02-15T10:00:00Z', until: '2026-02-16T10:00:00Z' })
+      ).rejects.toThrow('Room 999 not found');
+    });
+
+    it('posts a charge to the main guest folio', async () => {
+      route('GET /finance/v1/folios', { status: 200, body: fixture('folios') });
+      route('POST /finance/v1/folios/ABCDEFGH-1-1/charges', { status: 201, body: { id: 'ABCDEFGH-1-1-C7' } });
+
+      const result = await createAdapter().postServiceCharge('ABCDEFGH-1', {
+        description: 'Room service',
+        amount: 42.5,
+        currency: 'EUR',
+      });
+
+      expect(result).toEqual({ externalId: 'ABCDEFGH-1-1-C7' });
+      expect(requestsTo('GET /finance/v1/folios')[0]!.query.get('reservationIds')).toBe('ABCDEFGH-1');
+      expect(JSON.parse(requestsTo('POST /finance/v1/folios/ABCDEFGH-1-1/charges')[0]!.body)).toEqual({
+        serviceType: 'Other',
+        vatType: 'Normal',
+        name: 'Room service',
+        amount: { amount: 42.5, currency: 'EUR' },
+      });
+    });
+
+    it('surfaces API errors with the HTTP status', async () => {
+      route('GET /finance/v1/folios', { status: 200, body: fixture('folios') });
+      route('POST /finance/v1/folios/ABCDEFGH-1-1/charges', { status: 422, body: { messages: ['Folio is closed'] } });
+
+      await expect(
+        createAdapter().postServiceCharge('ABCDEFGH-1', { description: 'Minibar', amount: 8, currency: 'EUR' })
+      ).rejects.toMatchObject({ logDetails: { httpStatus: 422 } });
+    });
+  });
+
+  describe('webhooks', () => {
+    it('turns a reservation change into an event for its current status', async () => {
+      route('GET /booking/v1/reservations/ABCDEFGH-1', { status: 200, body: fixture('reservation') });
+
+      const event = await createAdapter().parseWebhook(fixture('webhook-reservation-changed'));
+
+      expect(event).toMatchObject({
+        type: 'guest.checked_in',
+        source: 'apaleo',
+        data: { reservation: { externalId: 'ABCDEFGH-1', roomNumber: '101' } },
+      });
+    });
+
+    it('reports newly created reservations as created', async () => {
+      route('GET /booking/v1/reservations/ABCDEFGH-1', { status: 200, body: fixture('reservation') });
+
+      const event = await createAdapter().parseWebhook({ ...fixture('webhook-reservation-changed'), type: 'created' });
+
+      expect(event?.type).toBe('reservation.created');
+    });
+
+    it('turns a unit change into a room status event', async () => {
+      const units = fixture('units').units as Array<{ id: string }>;
+      route('GET /inventory/v1/units/MUC-102', { status: 200, body: units.find((u) => u.id === 'MUC-102') });
+
+      const event = await createAdapter().parseWebhook(fixture('webhook-unit-changed'));
+
+      expect(event).toMatchObject({
+        type: 'room.status_changed',
+        data: { room: { number: '102', status: 'dirty' }, newStatus: 'dirty' },
+      });
+    });
+
+    it('ignores events for other properties and unknown topics', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const adapter = createAdapter();
+
+      expect(await adapter.parseWebhook({ ...fixture('webhook-reservation-changed'), propertyId: 'BER' })).toBeNull();
+      expect(await adapter.parseWebhook({ ...fixture('webhook-unit-changed'), topic: 'Folio' })).toBeNull();
+      expect(requests).toHaveLength(0);
+
+      warnSpy.mockRestore();
+    });
+
+    it('verifies HMAC-SHA256 signatures', () => {
+      const adapter = createAdapter();
+      const payload = JSON.stringify(fixture('webhook-unit-changed'));
+      const signature = createHmac('sha256', 'test-secret').update(payload).digest('hex');
+
+      expect(adapter.verifyWebhookSignature(payload, signature)).toBe(true);
+      expect(adapter.verifyWebhookSignature(payload, 'deadbeef')).toBe(false);
+      expect(adapter.verifyWebhookSignature(payload, '')).toBe(false);
+    });
+
+    it('skips verification when no secret is configured', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { webhookSecret: _secret, ...config } = createConfig();
+
+      expect(new ApaleoPMSAdapter(config, mockContext).verifyWebhookSignature('{}', '')).toBe(true);
+
+      warnSpy.mockRestore();
+    });
+  });
+});
+
+describe('manifest', () => {
+  it('describes the Apaleo PMS app', () => {
+    expect(manifest.id).toBe('pms-apaleo');
+    expect(manifest.category).toBe('pms');
+    expect(manifest.features).toEqual({ reservations: true, guests: true, rooms: true, webhooks: true, writeBack: true });
+    expect(manifest.configSchema.filter((f) => f.required).map((f) => f.key)).toEqual([
+      'clientId',
+      'clientSecret',
+      'propertyId',
+    ]);
+  });
+
+  it('creates an adapter from the flat config', () => {
+    const adapter = manifest.createAdapter(createConfig() as unknown as Record<string, unknown>, mockContext);
+
+    expect(adapter).toBeInstanceOf(ApaleoPMSAdapter);
+    expect(createApaleoPMSAdapter(createConfig(), mockContext).provider).toBe('apaleo');
+  });
+});
@@ -732,6 +732,89 @@ describe('MewsPMSAdapter', () => {
     });
   });
 
+  describe('write-back', () => {
+    function requestBody(endpoint: string) {
+      const call = mockFetch.mock.calls.find(([url]) => (url as string).endsWith(endpoint));
+      return JSON.parse((call![1] as { body: string }).body);
+    }
+
+    it('appends a note to the existing reservation notes', async () => {
+      setupFetchMock({
+        'reservations/getAll': { Reservations: [MOCK_RESERVATION] },
+        'reservations/update': { Reservations: [] },
+      });
+
+      await adapter.addReservationNote('res-001', 'Extra towels delivered');
+
+      expect(requestBody('reservations/update').ReservationUpdates).toEqual([
+        { ReservationId: 'res-001', Notes: { Value: 'Late checkout requested\nExtra towels delivered' } },
+      ]);
+    });
+
+    it('moves the departure time', async () => {
+      setupFetchMock({ 'reservations/update': { Reservations: [] } });
+
+      await adapter.updateDepartureTime('res-001', '2026-02-20T14:00:00.000Z');
+
+      expect(requestBody('reservations/update').ReservationUpdates).toEqual([
+        { ReservationId: 'res-001', EndUtc: { Value: '2026-02-20T14:00:00Z' } },
+      ]);
+    });
+
+    it('blocks a room by number as out of order', async () => {
+      setupFetchMock({
+        'resources/getAll': { Resources: [MOCK_RESOURCE] },
+        'resourceBlocks/add': { ResourceBlocks: [{ Id: 'block-001' }] },
+      });
+
+      const result = await adapter.setRoomOutOfOrder('415', {
+        reason: 'AC broken',
+        from: '2026-02-16T10:00:00.000Z',
+        until: '2026-02-17T10:00:00.000Z',
+      });
+
+      expect(result).toEqual({ externalId: 'block-001' });
+      expect(requestBody('resourceBlocks/add').ResourceBlocks[0]).toMatchObject({
+        AssignedResourceId: 'room-415',
+        Type: 'OutOfOrder',
+        StartUtc: '2026-02-16T10:00:00Z',
+        EndUtc: '2026-02-17T10:00:00Z',
+      });
+    });
+
+    it('throws when the room is unknown', async () => {
+      setupFetchMock({ 'resources/getAll': { Resources: [MOCK_RESOURCE] } });
+
+      await expect(
+        adapter.setRoomOutOfOrder('999', { reason: 'Leak', from: '2026-02-16T10:00:00Z', until: '2026-02-17T10:00:00Z' })
+      ).rejects.toThrow('Room 999 not found');
+    });
+
+    it('posts a charge as an order on the configured service', async () => {
+      adapter = new MewsPMSAdapter(createFlatConfig({ chargeServiceId: 'svc-room-service' }), mockContext);
+      setupFetchMock({
+        'reservations/getAll': { Reservations: [MOCK_RESERVATION] },
+        'orders/add': { OrderId: 'order-001' },
+      });
+
+      const result = await adapter.postServiceCharge('res-001', { description: 'Club sandwich', amount: 18.5, currency: 'EUR' });
+
+      expect(result).toEqual({ externalId: 'order-001' });
+      expect(requestBody('orders/add')).toMatchObject({
+        ServiceId: 'svc-room-service',
+        AccountId: 'cust-001',
+        Items: [{ Name: 'Club sandwich', UnitCount: 1, UnitAmount: { Currency: 'EUR', GrossValue: 18.5 } }],
+      });
+    });
+
+    it('refuses charges without a charge service', async () => {
+      await expect(
+        adapter.postServiceCharge('res-001', { description: 'Club sandwich', amount: 18.5, currency: 'EUR' })
+      ).rejects.toThrow('Charge Service ID');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('enrichReservations (chunked batch fetch)', () => {
     it('should chunk customer fetches for large result sets', async () => {
       // Create 150 reservations with unique customer IDs to force chunking (batch size = 100)
@@ -855,6 +938,7 @@ describe('Mews Manifest', () => {
     expect(manifest.features.guests).toBe(true);
     expect(manifest.features.rooms).toBe(true);
     expect(manifest.features.webhooks).toBe(true);
+    expect(manifest.features.writeBack).toBe(true);
   });
 
   it('should have required config fields', () => {
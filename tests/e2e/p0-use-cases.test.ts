@@ -52,6 +52,9 @@ function createTestDb() {
       last_stay_date TEXT,
       notes TEXT,
       tags TEXT DEFAULT '[]',
+      journey_opt_out INTEGER NOT NULL DEFAULT 0,
+      blocked_at TEXT,
+      blocked_reason TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
@@ -106,6 +109,11 @@ function createTestDb() {
       password_hash TEXT,
       email_verified INTEGER NOT NULL DEFAULT 1,
       approval_status TEXT NOT NULL DEFAULT 'approved',
+      totp_secret TEXT,
+      totp_enabled_at TEXT,
+      totp_last_step INTEGER,
+      totp_recovery_codes TEXT NOT NULL DEFAULT '[]',
+      sso_subject TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
@@ -124,6 +132,8 @@ function createTestDb() {
       resolved_at TEXT,
       idle_warned_at TEXT,
       guest_language TEXT DEFAULT 'en',
+      handoff_summary TEXT,
+      handoff_summary_at TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
@@ -166,8 +176,14 @@ function createTestDb() {
       due_at TEXT,
       started_at TEXT,
       completed_at TEXT,
+      sla_breached_at TEXT,
+      escalation_level INTEGER NOT NULL DEFAULT 0,
       notes TEXT,
       completion_notes TEXT,
+      pms_action TEXT,
+      pms_sync_status TEXT,
+      pms_sync_error TEXT,
+      pms_synced_at TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
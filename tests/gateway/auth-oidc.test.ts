@@ -0,0 +1,334 @@
+/**
+ * OIDC Single Sign-On Tests
+ *
+ * Runs the full authorization code + PKCE flow against a local mock issuer:
+ * discovery, JWKS, token exchange, ID token checks, just-in-time
+ * provisioning, group-to-role mapping, and per-role password sign-in policy.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { SignJWT, exportJWK, generateKeyPair, type JWTPayload } from 'jose';
+import { app } from '@/gateway/server.js';
+import { db, staff, settings, auditLog } from '@/db/index.js';
+import { and, eq, inArray } from 'drizzle-orm';
+import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
+import { authService } from '@/auth/index.js';
+import { authSettingsService } from '@/auth/settings.js';
+
+const CLIENT_ID = 'jack-dashboard';
+const CLIENT_SECRET = 'mock-client-secret';
+const PASSWORD = 'test12345';
+
+/**
+ * Minimal OIDC provider: discovery, JWKS and a token endpoint.
+ * Tests "log in" at the IdP by calling `authorize` with the claims to issue.
+ */
+async function startMockIssuer() {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'test-key', alg: 'RS256', use: 'sig' };
+  const codes = new Map<string, { claims: JWTPayload; nonce: string; challenge: string }>();
+  let issuer = '';
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [jwk] });
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', async () => {
+        const form = new URLSearchParams(raw);
+        const expectedAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`;
+        const grant = codes.get(form.get('code') ?? '');
+        codes.delete(form.get('code') ?? '');
+
+        const verifier = form.get('code_verifier') ?? '';
+        const challenge = createHash('sha256').update(verifier).digest('base64url');
+        if (req.headers.authorization !== expectedAuth || !grant || grant.challenge !== challenge) {
+          return json(400, { error: 'invalid_grant' });
+        }
+
+        const idToken = await new SignJWT({ nonce: grant.nonce, ...grant.claims })
+          .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+          .setIssuer(issuer)
+          .setAudience(CLIENT_ID)
+          .setIssuedAt()
+          .setExpirationTime('5m')
+          .sign(privateKey);
+        json(200, { access_token: 'at', token_type: 'Bearer', id_token: idToken });
+      });
+      return;
+    }
+    json(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    /** Simulate the user approving the login at the IdP; returns the authorization code */
+    authorize(authorizeUrl: URL, claims: JWTPayload): string {
+      const code = randomBytes(8).toString('hex');
+      codes.set(code, {
+        claims,
+        nonce: authorizeUrl.searchParams.get('nonce') ?? '',
+        challenge: authorizeUrl.searchParams.get('code_challenge') ?? '',
+      });
+      return code;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+type MockIssuer = Awaited<ReturnType<typeof startMockIssuer>>;
+
+/**
+ * Browser round trip: start login, approve at the IdP, follow the callback.
+ * Returns the dashboard URL the callback redirected to.
+ */
+async function ssoLogin(issuer: MockIssuer, claims: JWTPayload, options: { tamperState?: boolean } = {}) {
+  const start = await app.request('/api/v1/auth/oidc/login');
+  expect(start.status).toBe(302);
+  const authorizeUrl = new URL(start.headers.get('location')!);
+  const cookie = start.headers.get('set-cookie')!.split(';')[0]!;
+
+  const code = issuer.authorize(authorizeUrl, claims);
+  const state = options.tamperState ? 'tampered' : authorizeUrl.searchParams.get('state')!;
+
+  const callback = await app.request(`/api/v1/auth/oidc/callback?code=${code}&state=${state}`, {
+    headers: { Cookie: cookie },
+  });
+  expect(callback.status).toBe(302);
+  return new URL(callback.headers.get('location')!);
+}
+
+async function exchange(redirect: URL) {
+  return app.request('/api/v1/auth/oidc/exchange', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code: redirect.searchParams.get('sso') }),
+  });
+}
+
+describe('OIDC Single Sign-On', () => {
+  const adminId = 'oidc-admin';
+  const existingId = 'oidc-existing';
+  let issuer: MockIssuer;
+  let adminToken: string;
+
+  beforeAll(async () => {
+    issuer = await startMockIssuer();
+
+    await db.delete(staff).where(inArray(staff.id, [adminId, existingId]));
+    const passwordHash = await authService.hashPassword(PASSWORD);
+    await db.insert(staff).values([
+      { id: adminId, email: 'oidc-admin@test.com', name: 'OIDC Admin', roleId: SYSTEM_ROLE_IDS.ADMIN, status: 'active', passwordHash },
+      { id: existingId, email: 'oidc-existing@test.com', name: 'Existing', roleId: SYSTEM_ROLE_IDS.STAFF, status: 'active', passwordHash },
+    ]);
+
+    const res = await app.request('/api/v1/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'oidc-admin@test.com', password: PASSWORD }),
+    });
+    adminToken = (await res.json()).accessToken;
+  });
+
+  afterEach(async () => {
+    await db.delete(settings).where(eq(settings.key, 'oidc_settings'));
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+    await db.delete(staff).where(inArray(staff.email, ['oidc-new@test.com']));
+    await db.delete(staff).where(inArray(staff.id, [adminId, existingId]));
+  });
+
+  function configure(overrides: Record<string, unknown> = {}) {
+    return app.request('/api/v1/settings/auth/oidc', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify({
+        enabled: true,
+        issuer: issuer.issuer,
+        clientId: CLIENT_ID,
+        clientSecret: CLIENT_SECRET,
+        buttonLabel: 'Sign in with Mock',
+        roleMappings: [{ value: 'hotel-managers', roleId: SYSTEM_ROLE_IDS.MANAGER }],
+        autoProvision: true,
+        ...overrides,
+      }),
+    });
+  }
+
+  describe('settings', () => {
+    it('stores the client secret without returning it and exposes the button publicly', async () => {
+      const res = await configure();
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.settings.clientSecret).toBeUndefined();
+      expect(body.settings.clientSecretSet).toBe(true);
+      expect(body.redirectUri).toMatch(/\/api\/v1\/auth\/oidc\/callback$/);
+
+      const [row] = await db.select().from(settings).where(eq(settings.key, 'oidc_settings'));
+      expect(row!.value).not.toContain(CLIENT_SECRET);
+
+      const config = await (await app.request('/api/v1/config/public')).json();
+      expect(config.sso).toEqual({ buttonLabel: 'Sign in with Mock' });
+    });
+
+    it('refuses to enable SSO without client credentials', async () => {
+      const res = await configure({ clientId: '', clientSecret: '' });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('login flow', () => {
+    it('provisions a new staff member with the role mapped from their groups', async () => {
+      await configure();
+
+      const redirect = await ssoLogin(issuer, {
+        sub: 'idp-user-1',
+        email: 'OIDC-New@test.com',
+        email_verified: true,
+        name: 'New Person',
+        groups: ['everyone', 'hotel-managers'],
+      });
+      expect(redirect.pathname).toBe('/login');
+
+      const tokensRes = await exchange(redirect);
+      expect(tokensRes.status).toBe(200);
+      const { accessToken } = await tokensRes.json();
+
+      const me = await (await app.request('/api/v1/auth/me', { headers: { Authorization: `Bearer ${accessToken}` } })).json();
+      expect(me.user).toMatchObject({ email: 'oidc-new@test.com', name: 'New Person', roleId: SYSTEM_ROLE_IDS.MANAGER });
+
+      // The handoff code works once
+      expect((await exchange(redirect)).status).toBe(401);
+
+      const registered = await db
+        .select()
+        .from(auditLog)
+        .where(and(eq(auditLog.action, 'register'), eq(auditLog.actorId, me.user.id)));
+      expect(registered).toHaveLength(1);
+
+      // No local password, so password login is impossible
+      const pwLogin = await app.request('/api/v1/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'oidc-new@test.com', password: 'anything' }),
+      });
+      expect(pwLogin.status).toBe(401);
+    });
+
+    it('does not link an existing account when the provider has not verified the email', async () => {
+      await configure();
+
+      for (const claims of [{}, { email_verified: false }]) {
+        const redirect = await ssoLogin(issuer, { sub: 'idp-intruder', email: 'oidc-existing@test.com', ...claims });
+        expect(redirect.searchParams.get('sso')).toBeNull();
+        expect(redirect.searchParams.get('sso_error')).toMatch(/not verified/);
+      }
+
+      const [member] = await db.select().from(staff).where(eq(staff.id, existingId));
+      expect(member!.ssoSubject).toBeNull();
+    });
+
+    it('links an existing account by email and syncs its role', async () => {
+      await configure();
+
+      const redirect = await ssoLogin(issuer, {
+        sub: 'idp-user-2',
+        email: 'oidc-existing@test.com',
+        email_verified: true,
+        groups: 'hotel-managers',
+      });
+      expect((await exchange(redirect)).status).toBe(200);
+
+      const [member] = await db.select().from(staff).where(eq(staff.id, existingId));
+      expect(member).toMatchObject({ ssoSubject: 'idp-user-2', roleId: SYSTEM_ROLE_IDS.MANAGER });
+    });
+
+    it('refuses unknown users when provisioning is off', async () => {
+      await configure({ autoProvision: false });
+
+      const redirect = await ssoLogin(issuer, { sub: 'idp-user-3', email: 'stranger@test.com' });
+      expect(redirect.searchParams.get('sso')).toBeNull();
+      expect(redirect.searchParams.get('sso_error')).toBe('No staff account exists for this email');
+    });
+
+    it('refuses new users no group maps to when there is no default role', async () => {
+      await configure();
+
+      const redirect = await ssoLogin(issuer, { sub: 'idp-user-4', email: 'nogroups@test.com', groups: ['guests'] });
+      expect(redirect.searchParams.get('sso_error')).toBe('None of your groups grant access to this dashboard');
+    });
+
+    it('rejects a callback whose state does not match the cookie', async () => {
+      await configure();
+
+      const redirect = await ssoLogin(issuer, { sub: 'idp-user-1', email: 'oidc-new@test.com' }, { tamperState: true });
+      expect(redirect.searchParams.get('sso_error')).toBe('Invalid sign-in state');
+    });
+
+    it('redirects with an error when SSO is disabled', async () => {
+      const res = await app.request('/api/v1/auth/oidc/login');
+      expect(res.status).toBe(302);
+      expect(new URL(res.headers.get('location')!).searchParams.get('sso_error')).toBe('Single sign-on is not enabled');
+    });
+  });
+
+  describe('password sign-in policy', () => {
+    it('blocks password login for roles that must use SSO', async () => {
+      await configure({ passwordLoginDisabledRoleIds: [SYSTEM_ROLE_IDS.MANAGER] });
+
+      const res = await app.request('/api/v1/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'oidc-existing@test.com', password: PASSWORD }),
+      });
+      expect(res.status).toBe(403);
+      expect((await res.json()).error.details).toEqual({ reason: 'SSO_REQUIRED' });
+
+      // SSO sessions still refresh
+      const redirect = await ssoLogin(issuer, { sub: 'idp-user-2', email: 'oidc-existing@test.com' });
+      const { refreshToken } = await (await exchange(redirect)).json();
+      const refresh = await app.request('/api/v1/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      expect(refresh.status).toBe(200);
+    });
+
+    it('is not enforced while SSO is disabled', async () => {
+      await configure({ passwordLoginDisabledRoleIds: [SYSTEM_ROLE_IDS.MANAGER] });
+      await authSettingsService.updateOidc({ enabled: false });
+
+      const res = await app.request('/api/v1/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'oidc-existing@test.com', password: PASSWORD }),
+      });
+      expect(res.status).toBe(200);
+    });
+  });
+});
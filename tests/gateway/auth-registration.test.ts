@@ -96,6 +96,7 @@ describe('Auth Registration & Recovery', () => {
       expect(json.success).toBe(true);
       expect(json.requiresVerification).toBe(false); // grace period = no immediate verification required
       expect(json.requiresApproval).toBe(false);
+      expect(json.tokens.accessToken).toEqual(expect.any(String));
 
       // Verify user was created with correct fields
       const [user] = await db.select().from(staff).where(eq(staff.email, 'newuser@test.com'));
@@ -105,6 +106,29 @@ describe('Auth Registration & Recovery', () => {
       expect(user.approvalStatus).toBe('approved');
     });
 
+    it('asks a new account in a role that requires 2FA to enroll instead of issuing tokens', async () => {
+      await authSettingsService.update({
+        registrationEnabled: true,
+        emailVerification: 'grace',
+        twoFactorRequiredRoleIds: [SYSTEM_ROLE_IDS.STAFF],
+      });
+
+      const res = await app.request('/api/v1/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: 'New User',
+          email: 'newuser@test.com',
+          password: 'password123',
+        }),
+      });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.tokens).toBeUndefined();
+      expect(json.challenge).toMatchObject({ twoFactorRequired: true, method: 'enroll', challengeToken: expect.any(String) });
+    });
+
     it('should register with instant verification (inactive status)', async () => {
       await authSettingsService.update({
         registrationEnabled: true,
@@ -356,6 +380,46 @@ describe('Auth Registration & Recovery', () => {
       await db.delete(staff).where(eq(staff.id, testId));
     });
 
+    it('does not log in a role that must use SSO', async () => {
+      const testId = 'staff-verify-sso';
+      const passwordHash = await authService.hashPassword('test12345');
+      await db.delete(staff).where(eq(staff.id, testId));
+      await db.insert(staff).values({
+        id: testId,
+        email: 'verify-sso@test.com',
+        name: 'Verify SSO',
+        roleId: SYSTEM_ROLE_IDS.STAFF,
+        status: 'inactive',
+        passwordHash,
+        emailVerified: false,
+        approvalStatus: 'approved',
+      });
+      await authSettingsService.updateOidc({
+        enabled: true,
+        issuer: 'https://idp.example.com',
+        clientId: 'jack',
+        clientSecret: 'secret',
+        passwordLoginDisabledRoleIds: [SYSTEM_ROLE_IDS.STAFF],
+      });
+
+      const token = await authTokenService.createToken(testId, 'email_verification');
+      const res = await app.request('/api/v1/auth/verify-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json).toMatchObject({ success: true, requiresSso: true });
+      expect(json.tokens).toBeUndefined();
+
+      // Cleanup
+      await db.delete(settings).where(eq(settings.key, 'oidc_settings'));
+      await db.delete(authTokens).where(eq(authTokens.staffId, testId));
+      await db.delete(staff).where(eq(staff.id, testId));
+    });
+
     it('should verify email but NOT activate when approval pending', async () => {
       const testId = 'staff-verify-pending';
       const passwordHash = await authService.hashPassword('test12345');
@@ -0,0 +1,234 @@
+/**
+ * Two-Factor Authentication Tests
+ *
+ * Covers TOTP primitives (RFC 6238 vectors), self-service enrollment,
+ * two-step login with TOTP and recovery codes, the per-role "2FA required"
+ * policy, and the audited admin reset.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { app } from '@/gateway/server.js';
+import { db, staff, settings, auditLog } from '@/db/index.js';
+import { and, eq, inArray } from 'drizzle-orm';
+import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
+import { authService } from '@/auth/index.js';
+import { authSettingsService } from '@/auth/settings.js';
+import { base32Encode, generateTotpCode, matchTotpCode, totpStep } from '@/auth/totp.js';
+
+const PASSWORD = 'test12345';
+
+function post(path: string, body: unknown, token?: string) {
+  return app.request(`/api/v1${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function login(email: string) {
+  return post('/auth/login', { email, password: PASSWORD });
+}
+
+describe('TOTP', () => {
+  // RFC 6238 Appendix B, SHA-1 seed, truncated to 6 digits
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateTotpCode(secret, totpStep(new Date(59_000)))).toBe('287082');
+    expect(generateTotpCode(secret, totpStep(new Date(1111111109_000)))).toBe('081804');
+    expect(generateTotpCode(secret, totpStep(new Date(2000000000_000)))).toBe('279037');
+  });
+
+  it('accepts one step of clock drift either way', () => {
+    const at = new Date(1111111109_000);
+    const step = totpStep(at);
+    expect(matchTotpCode(secret, generateTotpCode(secret, step - 1), at)).toBe(step - 1);
+    expect(matchTotpCode(secret, generateTotpCode(secret, step + 1), at)).toBe(step + 1);
+    expect(matchTotpCode(secret, generateTotpCode(secret, step + 2), at)).toBeNull();
+    expect(matchTotpCode(secret, 'abcdef', at)).toBeNull();
+  });
+});
+
+describe('Two-Factor Authentication API', () => {
+  const adminId = '2fa-admin';
+  const userId = '2fa-user';
+  const policyUserId = '2fa-policy-user';
+  const ids = [adminId, userId, policyUserId];
+  let adminToken: string;
+  let userToken: string;
+  let userSecret: string;
+  let userRecoveryCodes: string[];
+
+  beforeAll(async () => {
+    await db.delete(staff).where(inArray(staff.id, ids));
+
+    const passwordHash = await authService.hashPassword(PASSWORD);
+    await db.insert(staff).values([
+      { id: adminId, email: '2fa-admin@test.com', name: '2FA Admin', roleId: SYSTEM_ROLE_IDS.ADMIN, status: 'active', passwordHash },
+      { id: userId, email: '2fa-user@test.com', name: '2FA User', roleId: SYSTEM_ROLE_IDS.MANAGER, status: 'active', passwordHash },
+      { id: policyUserId, email: '2fa-policy@test.com', name: '2FA Policy', roleId: SYSTEM_ROLE_IDS.STAFF, status: 'active', passwordHash },
+    ]);
+
+    adminToken = (await (await login('2fa-admin@test.com')).json()).accessToken;
+    userToken = (await (await login('2fa-user@test.com')).json()).accessToken;
+  });
+
+  afterEach(async () => {
+    await db.delete(settings).where(eq(settings.key, 'auth_settings'));
+  });
+
+  afterAll(async () => {
+    await db.delete(staff).where(inArray(staff.id, ids));
+  });
+
+  describe('self-service enrollment', () => {
+    it('returns a QR code and enables 2FA once a code is confirmed', async () => {
+      const setupRes = await post('/auth/2fa/setup', {}, userToken);
+      expect(setupRes.status).toBe(200);
+      const setup = await setupRes.json();
+      expect(setup.qrCode).toMatch(/^data:image\/png;base64,/);
+      expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`);
+      userSecret = setup.secret;
+
+      const wrong = await post('/auth/2fa/enable', { code: '000000' }, userToken);
+      expect(wrong.status).toBe(400);
+
+      const enableRes = await post('/auth/2fa/enable', { code: generateTotpCode(userSecret) }, userToken);
+      expect(enableRes.status).toBe(200);
+      userRecoveryCodes = (await enableRes.json()).recoveryCodes;
+      expect(userRecoveryCodes).toHaveLength(10);
+
+      const statusRes = await app.request('/api/v1/auth/2fa', { headers: { Authorization: `Bearer ${userToken}` } });
+      const { status } = await statusRes.json();
+      expect(status).toMatchObject({ enabled: true, required: false, recoveryCodesRemaining: 10 });
+    });
+  });
+
+  describe('two-step login', () => {
+    it('returns a challenge instead of tokens and finishes with a TOTP code', async () => {
+      const res = await login('2fa-user@test.com');
+      const challenge = await res.json();
+      expect(res.status).toBe(200);
+      expect(challenge).toMatchObject({ twoFactorRequired: true, method: 'verify' });
+      expect(challenge.accessToken).toBeUndefined();
+
+      // The challenge token does not authenticate API requests
+      const me = await app.request('/api/v1/auth/me', { headers: { Authorization: `Bearer ${challenge.challengeToken}` } });
+      expect(me.status).toBe(401);
+
+      const code = generateTotpCode(userSecret, totpStep() + 1);
+      const verify = await post('/auth/2fa/challenge/verify', { challengeToken: challenge.challengeToken, code });
+      expect(verify.status).toBe(200);
+      expect((await verify.json()).accessToken).toBeDefined();
+
+      // The same code cannot be replayed
+      const replay = await post('/auth/2fa/challenge/verify', { challengeToken: challenge.challengeToken, code });
+      expect(replay.status).toBe(401);
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { challengeToken } = await (await login('2fa-user@test.com')).json();
+
+      const first = await post('/auth/2fa/challenge/verify', { challengeToken, code: userRecoveryCodes[0]!.toLowerCase() });
+      expect(first.status).toBe(200);
+      const again = await post('/auth/2fa/challenge/verify', { challengeToken, code: userRecoveryCodes[0] });
+      expect(again.status).toBe(401);
+
+      const failures = await db
+        .select()
+        .from(auditLog)
+        .where(and(eq(auditLog.action, 'two_factor_failed'), eq(auditLog.actorId, userId)));
+      expect(failures.length).toBeGreaterThan(0);
+    });
+
+    it('regenerates recovery codes and retires the old ones', async () => {
+      const bad = await post('/auth/2fa/recovery-codes', { code: '000000' }, userToken);
+      expect(bad.status).toBe(400);
+
+      const res = await post('/auth/2fa/recovery-codes', { code: userRecoveryCodes[1] }, userToken);
+      expect(res.status).toBe(200);
+      expect((await res.json()).recoveryCodes).toHaveLength(10);
+
+      const { challengeToken } = await (await login('2fa-user@test.com')).json();
+      const old = await post('/auth/2fa/challenge/verify', { challengeToken, code: userRecoveryCodes[2] });
+      expect(old.status).toBe(401);
+    });
+  });
+
+  describe('role policy', () => {
+    it('makes users of a required role enroll before login completes', async () => {
+      await authSettingsService.update({ twoFactorRequiredRoleIds: [SYSTEM_ROLE_IDS.STAFF] });
+
+      const challenge = await (await login('2fa-policy@test.com')).json();
+      expect(challenge).toMatchObject({ twoFactorRequired: true, method: 'enroll' });
+
+      // An enroll challenge cannot be used to skip straight to verification
+      const skip = await post('/auth/2fa/challenge/verify', { challengeToken: challenge.challengeToken, code: '123456' });
+      expect(skip.status).toBe(401);
+
+      const setup = await (await post('/auth/2fa/challenge/setup', { challengeToken: challenge.challengeToken })).json();
+      const enableRes = await post('/auth/2fa/challenge/enable', {
+        challengeToken: challenge.challengeToken,
+        code: generateTotpCode(setup.secret),
+      });
+      expect(enableRes.status).toBe(200);
+      const enabled = await enableRes.json();
+      expect(enabled.accessToken).toBeDefined();
+      expect(enabled.recoveryCodes).toHaveLength(10);
+
+      // Disabling is not allowed while the role requires 2FA
+      const disable = await post('/auth/2fa/disable', { code: generateTotpCode(setup.secret, totpStep() + 1) }, enabled.accessToken);
+      expect(disable.status).toBe(403);
+    });
+
+    it('rejects token refresh once the role requires 2FA the user lacks', async () => {
+      await db.update(staff).set({ totpEnabledAt: null, totpSecret: null }).where(eq(staff.id, policyUserId));
+      const { refreshToken } = await (await login('2fa-policy@test.com')).json();
+
+      await authSettingsService.update({ twoFactorRequiredRoleIds: [SYSTEM_ROLE_IDS.STAFF] });
+
+      const res = await post('/auth/refresh', { refreshToken });
+      expect(res.status).toBe(401);
+    });
+
+    it('rejects unknown roles in the policy', async () => {
+      const res = await app.request('/api/v1/settings/auth', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+        body: JSON.stringify({ twoFactorRequiredRoleIds: ['role-does-not-exist'] }),
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('admin reset', () => {
+    it('clears enrollment and records it in the audit log', async () => {
+      const res = await post(`/staff/${userId}/2fa/reset`, {}, adminToken);
+      expect(res.status).toBe(200);
+      expect((await res.json()).staff.twoFactorEnabled).toBe(false);
+
+      const loginRes = await (await login('2fa-user@test.com')).json();
+      expect(loginRes.accessToken).toBeDefined();
+
+      const entries = await db
+        .select()
+        .from(auditLog)
+        .where(and(eq(auditLog.action, 'two_factor_reset'), eq(auditLog.resourceId, userId)));
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ actorType: 'user', actorId: adminId, resourceType: 'staff' });
+    });
+
+    it('does not let admins reset their own 2FA', async () => {
+      const res = await post(`/staff/${adminId}/2fa/reset`, {}, adminToken);
+      expect(res.status).toBe(403);
+    });
+
+    it('requires admin:manage', async () => {
+      const res = await post(`/staff/${policyUserId}/2fa/reset`, {}, userToken);
+      expect(res.status).toBe(403);
+    });
+  });
+});
@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
 import { app } from '@/gateway/server.js';
-import { db, staff, conversations, messages, tasks, webchatSessions } from '@/db/index.js';
+import { db, staff, conversations, messages, outboundQueue, replyDrafts, tasks, webchatSessions } from '@/db/index.js';
 import { eq } from 'drizzle-orm';
 import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
 import { authService } from '@/auth/index.js';
@@ -41,6 +41,7 @@ describe('Conversation Routes', () => {
   // tasks references messages, so delete tasks first
   beforeEach(async () => {
     await db.delete(tasks);
+    await db.delete(outboundQueue);
     await db.delete(messages);
     await db.delete(webchatSessions);
     await db.delete(conversations);
@@ -51,6 +52,7 @@ describe('Conversation Routes', () => {
     // Must delete from child tables first due to foreign key constraints
     // tasks references messages, so delete tasks first
     await db.delete(tasks);
+    await db.delete(outboundQueue);
     await db.delete(messages);
     await db.delete(webchatSessions);
     await db.delete(conversations);
@@ -113,6 +115,32 @@ describe('Conversation Routes', () => {
       expect(json.conversation.channelType).toBe('webchat');
     });
 
+    it('includes the 24-hour window for WhatsApp conversations', async () => {
+      await db.insert(conversations).values({
+        id: 'conv-test-wa',
+        channelType: 'whatsapp',
+        channelId: '+15550009999',
+        state: 'active',
+        metadata: '{}',
+      });
+      await db.insert(messages).values({
+        id: 'msg-test-wa',
+        conversationId: 'conv-test-wa',
+        direction: 'inbound',
+        senderType: 'guest',
+        content: 'Hello',
+        contentType: 'text',
+        createdAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      });
+
+      const res = await app.request('/api/v1/conversations/conv-test-wa', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const json = await res.json();
+
+      expect(json.conversation.messagingWindow).toMatchObject({ open: true, hasFallbackTemplate: false });
+    });
+
     it('should return 404 for non-existent conversation', async () => {
       const res = await app.request('/api/v1/conversations/non-existent', {
         headers: { Authorization: `Bearer ${accessToken}` },
@@ -213,5 +241,166 @@ describe('Conversation Routes', () => {
       expect(json.message.content).toBe('How can I help you?');
       expect(json.message.senderType).toBe('staff');
     });
+
+    it('queues the reply and reports it undelivered when the channel has no adapter', async () => {
+      await db.insert(conversations).values({
+        id: 'conv-test-006',
+        channelType: 'webchat',
+        channelId: 'session-test-6',
+        state: 'active',
+        metadata: '{}',
+      });
+
+      const res = await app.request('/api/v1/conversations/conv-test-006/messages', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: 'Your room is ready.', contentType: 'text' }),
+      });
+      const json = await res.json();
+
+      expect(res.status).toBe(201);
+      // Webchat is not retried, so a failed first attempt is dead-lettered straight away
+      expect(json.message.deliveryStatus).toBe('failed');
+      const [queued] = await db.select().from(outboundQueue).where(eq(outboundQueue.messageId, json.message.id));
+      expect(queued).toMatchObject({ status: 'dead', channelId: 'session-test-6', content: 'Your room is ready.' });
+    });
+
+    it('records whether the reply suggestion it was sent from was edited', async () => {
+      await db.insert(conversations).values({
+        id: 'conv-test-007',
+        channelType: 'webchat',
+        channelId: 'session-test-7',
+        state: 'active',
+        metadata: '{}',
+      });
+      await db.insert(replyDrafts).values({
+        id: 'rdft-test-001',
+        conversationId: 'conv-test-007',
+        language: 'en',
+        suggestions: JSON.stringify([
+          { tone: 'friendly', content: 'Happy to help!', translation: null },
+          { tone: 'formal', content: 'Certainly, we will arrange it.', translation: null },
+        ]),
+      });
+
+      const send = (body: Record<string, unknown>) =>
+        app.request('/api/v1/conversations/conv-test-007/messages', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ contentType: 'text', ...body }),
+        });
+
+      const res = await send({ content: 'Certainly, we will arrange it by 6pm.', draft: { id: 'rdft-test-001', index: 1 } });
+      const json = await res.json();
+
+      expect(res.status).toBe(201);
+      const [draft] = await db.select().from(replyDrafts).where(eq(replyDrafts.id, 'rdft-test-001'));
+      expect(draft).toMatchObject({ outcome: 'edited', chosenIndex: 1, sentMessageId: json.message.id });
+
+      // An unknown draft is only a tracking miss
+      expect((await send({ content: 'Hello', draft: { id: 'rdft-missing', index: 0 } })).status).toBe(201);
+    });
+  });
+
+  describe('POST /api/v1/conversations/:id/notes', () => {
+    const addNote = (conversationId: string, content: string) =>
+      app.request(`/api/v1/conversations/${conversationId}/notes`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content }),
+      });
+
+    it('adds an internal note that is never queued for the guest', async () => {
+      await db.insert(conversations).values({
+        id: 'conv-test-009',
+        channelType: 'webchat',
+        channelId: 'session-test-9',
+        state: 'active',
+        metadata: '{}',
+      });
+
+      const res = await addNote('conv-test-009', 'Guest asked twice already, @Test User please call');
+      const json = await res.json();
+
+      expect(res.status).toBe(201);
+      expect(json.message).toMatchObject({ direction: 'internal', senderType: 'staff', senderId: 'staff-test-001' });
+      expect(json.message.mentions).toEqual([{ id: 'staff-test-001', name: 'Test User' }]);
+      expect(await db.select().from(outboundQueue)).toEqual([]);
+
+      const list = await app.request('/api/v1/conversations/conv-test-009/messages', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const { messages: listed } = await list.json();
+      expect(listed).toHaveLength(1);
+      expect(listed[0]).toMatchObject({ direction: 'internal', senderName: 'Test User' });
+      expect(listed[0].mentions).toEqual([{ id: 'staff-test-001', name: 'Test User' }]);
+    });
+
+    it('rejects an empty note', async () => {
+      await db.insert(conversations).values({
+        id: 'conv-test-010',
+        channelType: 'webchat',
+        channelId: 'session-test-10',
+        state: 'active',
+        metadata: '{}',
+      });
+
+      expect((await addNote('conv-test-010', '   ')).status).toBe(400);
+    });
+
+    it('returns 404 for an unknown conversation', async () => {
+      expect((await addNote('conv-missing', 'Hello')).status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/conversations/staff', () => {
+    it('lists staff who can be mentioned', async () => {
+      const res = await app.request('/api/v1/conversations/staff', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const json = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(json.staff).toContainEqual({ id: 'staff-test-001', name: 'Test User' });
+    });
+  });
+
+  describe('POST /api/v1/conversations/:id/reply-drafts', () => {
+    it('needs a guest message to reply to', async () => {
+      await db.insert(conversations).values({
+        id: 'conv-test-008',
+        channelType: 'webchat',
+        channelId: 'session-test-8',
+        state: 'active',
+        metadata: '{}',
+      });
+
+      const res = await app.request('/api/v1/conversations/conv-test-008/reply-drafts', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/conversations/:id/handoff-summary', () => {
+    it('returns 404 for an unknown conversation', async () => {
+      const res = await app.request('/api/v1/conversations/conv-missing/handoff-summary', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(res.status).toBe(404);
+    });
   });
 });
@@ -953,4 +953,101 @@ describe('Guests API', () => {
       expect(res.status).toBe(403);
     });
   });
+
+  describe('guest merging', () => {
+    const noProviders = () =>
+      mockGetAppRegistry.mockReturnValue({
+        getActiveAIProvider: () => undefined,
+        getEmbeddingProvider: () => undefined,
+      } as unknown as ReturnType<typeof getAppRegistry>);
+
+    it('GET /duplicates should list guests sharing an email', async () => {
+      const keepId = await insertGuest({ email: 'merge-dup@test.com' });
+      const dupId = await insertGuest({ email: 'MERGE-DUP@test.com' });
+
+      const res = await app.request('/api/v1/guests/duplicates', {
+        headers: { Authorization: `Bearer ${staffToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      const pair = json.candidates.find((c: { guests: Array<{ id: string }> }) => c.guests.some((g) => g.id === dupId));
+      expect(pair.guests.map((g: { id: string }) => g.id).sort()).toEqual([keepId, dupId].sort());
+      expect(pair.reasons).toEqual(['email']);
+    });
+
+    it('POST /:id/merge should fold the duplicate into the kept guest', async () => {
+      noProviders();
+      const keepId = await insertGuest({ email: 'merge-keep@test.com' });
+      const dupId = await insertGuest({ phone: '+15550001111' });
+
+      const res = await app.request(`/api/v1/guests/${keepId}/merge`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: dupId }),
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json.guest).toMatchObject({ id: keepId, email: 'merge-keep@test.com', phone: '+15550001111' });
+      expect(json.merge).toMatchObject({ targetId: keepId, sourceId: dupId, mergedBy: adminUserId });
+
+      const row = await db.select().from(guests).where(eq(guests.id, dupId)).get();
+      expect(row).toBeUndefined();
+    });
+
+    it('POST /merges/:mergeId/undo should restore the merged guest', async () => {
+      noProviders();
+      const keepId = await insertGuest();
+      const dupId = await insertGuest({ email: 'merge-undo@test.com' });
+      const mergeRes = await app.request(`/api/v1/guests/${keepId}/merge`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: dupId }),
+      });
+      const { merge } = await mergeRes.json();
+
+      const res = await app.request(`/api/v1/guests/merges/${merge.id}/undo`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      const json = await res.json();
+      expect(json.guest).toMatchObject({ id: dupId, email: 'merge-undo@test.com' });
+
+      const listRes = await app.request('/api/v1/guests/merges', {
+        headers: { Authorization: `Bearer ${staffToken}` },
+      });
+      const { merges } = await listRes.json();
+      expect(merges.find((m: { id: string }) => m.id === merge.id).undoneAt).toEqual(expect.any(String));
+
+      const again = await app.request(`/api/v1/guests/merges/${merge.id}/undo`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}` },
+      });
+      expect(again.status).toBe(409);
+    });
+
+    it('POST /:id/merge should return 400 when merging a guest into itself', async () => {
+      const id = await insertGuest();
+      const res = await app.request(`/api/v1/guests/${id}/merge`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: id }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it('POST /:id/merge should require GUESTS_MANAGE (staff denied)', async () => {
+      const keepId = await insertGuest();
+      const dupId = await insertGuest();
+      const res = await app.request(`/api/v1/guests/${keepId}/merge`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${staffToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: dupId }),
+      });
+      expect(res.status).toBe(403);
+    });
+  });
 });
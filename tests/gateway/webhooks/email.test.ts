@@ -0,0 +1,189 @@
+/**
+ * Email Webhook Tests
+ *
+ * Covers src/gateway/routes/webhooks/email.ts:
+ * - POST /webhooks/email/mailgun — signature verification (HMAC + replay
+ *   window) and normalization of Mailgun's route-forward fields
+ * - POST /webhooks/email/sendgrid — inbound token check and normalization
+ *   of SendGrid Inbound Parse's raw header block
+ *
+ * The inbound email service is mocked; threading and replies are covered in
+ * tests/services/email-inbound.test.ts.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHmac } from 'node:crypto';
+
+vi.mock('@/apps/config.js', () => ({
+  appConfigService: {
+    getAppConfig: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/email-inbound.js', () => ({
+  emailInboundService: {
+    receive: vi.fn().mockResolvedValue({ status: 'processed' }),
+  },
+}));
+
+import { app } from '@/gateway/server.js';
+import { appConfigService } from '@/apps/config.js';
+import { emailInboundService } from '@/services/email-inbound.js';
+
+const mockGetAppConfig = appConfigService.getAppConfig as ReturnType<typeof vi.fn>;
+const mockReceive = emailInboundService.receive as ReturnType<typeof vi.fn>;
+
+const SIGNING_KEY = 'mg-signing-key';
+
+function mailgunSignature(timestamp: string, token: string, key = SIGNING_KEY): string {
+  return createHmac('sha256', key).update(timestamp + token).digest('hex');
+}
+
+function postForm(path: string, fields: Record<string, string>) {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  return app.request(path, { method: 'POST', body: form });
+}
+
+const mailgunPayload = {
+  sender: 'jane@example.com',
+  from: 'Jane Doe <jane@example.com>',
+  recipient: 'concierge@hotel.com',
+  subject: 'Re: Your stay',
+  'body-plain': 'Can I get a late checkout?\n\nOn Mon, Jan 1, 2024 at 9:00 AM Hotel <concierge@hotel.com> wrote:\n> Welcome!',
+  'stripped-text': 'Can I get a late checkout?',
+  'Message-Id': '<guest-2@example.com>',
+  'In-Reply-To': '<reply-1@hotel.com>',
+  References: '<guest-1@example.com> <reply-1@hotel.com>',
+  'message-headers': JSON.stringify([['Auto-Submitted', 'no'], ['Message-Id', '<guest-2@example.com>']]),
+};
+
+describe('Email Webhooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReceive.mockResolvedValue({ status: 'processed' });
+  });
+
+  describe('POST /webhooks/email/mailgun', () => {
+    it('rejects when a signing key is configured and signature fields are missing', async () => {
+      mockGetAppConfig.mockResolvedValue({ config: { webhookSigningKey: SIGNING_KEY } });
+
+      const res = await postForm('/webhooks/email/mailgun', mailgunPayload);
+
+      expect(res.status).toBe(401);
+      expect(mockReceive).not.toHaveBeenCalled();
+    });
+
+    it('rejects an incorrect signature', async () => {
+      mockGetAppConfig.mockResolvedValue({ config: { webhookSigningKey: SIGNING_KEY } });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      const res = await postForm('/webhooks/email/mailgun', {
+        ...mailgunPayload,
+        timestamp,
+        token: 'tok',
+        signature: mailgunSignature(timestamp, 'tok', 'wrong-key'),
+      });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('rejects a correctly signed but stale request (replay)', async () => {
+      mockGetAppConfig.mockResolvedValue({ config: { webhookSigningKey: SIGNING_KEY } });
+      const timestamp = String(Math.floor(Date.now() / 1000) - 60 * 60);
+
+      const res = await postForm('/webhooks/email/mailgun', {
+        ...mailgunPayload,
+        timestamp,
+        token: 'tok',
+        signature: mailgunSignature(timestamp, 'tok'),
+      });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('accepts a valid signature and hands a normalized email to the service', async () => {
+      mockGetAppConfig.mockResolvedValue({ config: { webhookSigningKey: SIGNING_KEY } });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      const res = await postForm('/webhooks/email/mailgun', {
+        ...mailgunPayload,
+        timestamp,
+        token: 'tok',
+        signature: mailgunSignature(timestamp, 'tok'),
+      });
+
+      expect(res.status).toBe(200);
+      await vi.waitFor(() => expect(mockReceive).toHaveBeenCalled());
+      expect(mockReceive).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: 'Jane Doe <jane@example.com>',
+          subject: 'Re: Your stay',
+          text: 'Can I get a late checkout?',
+          messageId: '<guest-2@example.com>',
+          inReplyTo: '<reply-1@hotel.com>',
+          references: ['<guest-1@example.com>', '<reply-1@hotel.com>'],
+          headers: expect.objectContaining({ 'auto-submitted': 'no' }),
+        }),
+        'email-mailgun'
+      );
+    });
+
+    it('skips signature verification when no signing key is configured', async () => {
+      mockGetAppConfig.mockResolvedValue(null);
+
+      const res = await postForm('/webhooks/email/mailgun', mailgunPayload);
+
+      expect(res.status).toBe(200);
+      await vi.waitFor(() => expect(mockReceive).toHaveBeenCalledTimes(1));
+    });
+  });
+
+  describe('POST /webhooks/email/sendgrid', () => {
+    const sendgridPayload = {
+      from: 'Jane Doe <jane@example.com>',
+      to: 'concierge@hotel.com',
+      subject: 'Parking',
+      text: 'Do you have parking?',
+      headers: [
+        'Message-ID: <sg-guest-1@example.com>',
+        'In-Reply-To: <reply-1@hotel.com>',
+        'References: <guest-1@example.com>',
+        ' <reply-1@hotel.com>',
+        'Subject: Parking',
+      ].join('\r\n'),
+    };
+
+    it('rejects a missing or wrong token when an inbound token is configured', async () => {
+      mockGetAppConfig.mockResolvedValue({ config: { inboundToken: 'sg-secret' } });
+
+      const missing = await postForm('/webhooks/email/sendgrid', sendgridPayload);
+      const wrong = await postForm('/webhooks/email/sendgrid?token=nope', sendgridPayload);
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+      expect(mockReceive).not.toHaveBeenCalled();
+    });
+
+    it('parses the raw header block, including folded References', async () => {
+      mockGetAppConfig.mockResolvedValue({ config: { inboundToken: 'sg-secret' } });
+
+      const res = await postForm('/webhooks/email/sendgrid?token=sg-secret', sendgridPayload);
+
+      expect(res.status).toBe(200);
+      await vi.waitFor(() => expect(mockReceive).toHaveBeenCalled());
+      expect(mockReceive).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: 'Jane Doe <jane@example.com>',
+          text: 'Do you have parking?',
+          messageId: '<sg-guest-1@example.com>',
+          inReplyTo: '<reply-1@hotel.com>',
+          references: ['<guest-1@example.com>', '<reply-1@hotel.com>'],
+        }),
+        'email-sendgrid'
+      );
+    });
+  });
+});
@@ -5,7 +5,7 @@
  * - Generic /guests, /reservations, /events endpoints (secret header/bearer
  *   auth, payload validation, dispatch to pmsSyncService)
  * - PMS-specific /mews (adapter-provided signature check, batch event
- *   handling) and /cloudbeds endpoints
+ *   handling), /cloudbeds and /apaleo endpoints
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -25,10 +25,15 @@ vi.mock('@/apps/index.js', () => ({
 
 const mockUpsertGuest = vi.fn();
 const mockUpsertReservation = vi.fn();
-vi.mock('@/services/pms-sync.js', () => ({
+const mockUpsertRoom = vi.fn();
+const mockUpdateRoomStatus = vi.fn();
+vi.mock('@/services/pms-sync.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/pms-sync.js')>()),
   pmsSyncService: {
     upsertGuest: (...args: unknown[]) => mockUpsertGuest(...args),
     upsertReservation: (...args: unknown[]) => mockUpsertReservation(...args),
+    upsertRoom: (...args: unknown[]) => mockUpsertRoom(...args),
+    updateRoomStatus: (...args: unknown[]) => mockUpdateRoomStatus(...args),
   },
 }));
 
@@ -228,7 +233,7 @@ describe('PMS Webhooks', () => {
       );
     });
 
-    it('handles room.status_changed events without calling the sync service', async () => {
+    it('applies room.status_changed events to the room', async () => {
       const res = await postJson('/webhooks/pms/events', {
         type: 'room.status_changed',
         source: 'mews',
@@ -236,11 +241,23 @@ describe('PMS Webhooks', () => {
       });
 
       expect(res.status).toBe(200);
-      await new Promise((resolve) => setImmediate(resolve));
+      await vi.waitFor(() => expect(mockUpdateRoomStatus).toHaveBeenCalledWith('101', 'clean'));
       expect(mockUpsertGuest).not.toHaveBeenCalled();
       expect(mockUpsertReservation).not.toHaveBeenCalled();
     });
 
+    it('ignores room.status_changed events with an unknown status', async () => {
+      const res = await postJson('/webhooks/pms/events', {
+        type: 'room.status_changed',
+        source: 'mews',
+        data: { roomNumber: '101', newStatus: 'sparkling' },
+      });
+
+      expect(res.status).toBe(200);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockUpdateRoomStatus).not.toHaveBeenCalled();
+    });
+
     it('returns 400 for an unknown event type', async () => {
       const res = await postJson('/webhooks/pms/events', {
         type: 'not.a.real.type',
@@ -371,4 +388,45 @@ describe('PMS Webhooks', () => {
       await vi.waitFor(() => expect(mockUpsertGuest).toHaveBeenCalled());
     });
   });
+
+  describe('POST /webhooks/pms/apaleo', () => {
+    it('returns 400 when the active adapter is not Apaleo', async () => {
+      mockGetActivePMSAdapter.mockReturnValue({ provider: 'mews' });
+
+      const res = await postJson('/webhooks/pms/apaleo', {});
+
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: 'PMS mismatch' });
+    });
+
+    it('returns 401 when the adapter rejects the signature', async () => {
+      const verifyWebhookSignature = vi.fn().mockReturnValue(false);
+      const parseWebhook = vi.fn();
+      mockGetActivePMSAdapter.mockReturnValue({ provider: 'apaleo', verifyWebhookSignature, parseWebhook });
+
+      const res = await postJson('/webhooks/pms/apaleo', { topic: 'Unit' }, { 'x-apaleo-signature': 'bad-sig' });
+
+      expect(res.status).toBe(401);
+      expect(verifyWebhookSignature).toHaveBeenCalledWith(JSON.stringify({ topic: 'Unit' }), 'bad-sig');
+      expect(parseWebhook).not.toHaveBeenCalled();
+    });
+
+    it('parses and processes an Apaleo unit event', async () => {
+      const verifyWebhookSignature = vi.fn().mockReturnValue(true);
+      const parseWebhook = vi.fn().mockResolvedValue({
+        type: 'room.status_changed',
+        source: 'apaleo',
+        timestamp: '2026-01-01T00:00:00Z',
+        data: { room: { number: '102', type: 'Double Room', status: 'dirty' }, newStatus: 'dirty' },
+      });
+      mockGetActivePMSAdapter.mockReturnValue({ provider: 'apaleo', verifyWebhookSignature, parseWebhook });
+      const payload = { topic: 'Unit', type: 'changed', id: 'e1', propertyId: 'MUC', data: { entityId: 'MUC-102' } };
+
+      const res = await postJson('/webhooks/pms/apaleo', payload, { 'x-apaleo-signature': 'good-sig' });
+
+      expect(res.status).toBe(200);
+      expect(parseWebhook).toHaveBeenCalledWith(payload, { 'x-apaleo-signature': 'good-sig' });
+      await vi.waitFor(() => expect(mockUpsertRoom).toHaveBeenCalledWith({ number: '102', type: 'Double Room', status: 'dirty' }));
+    });
+  });
 });
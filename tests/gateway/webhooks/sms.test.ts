@@ -3,7 +3,8 @@
  *
  * Covers src/gateway/routes/webhooks/sms.ts:
  * - POST /webhooks/sms — inbound message webhook (signature verification,
- *   media fallback, AI pipeline dispatch, error fallback)
+ *   MMS media download, unsupported-media fallback, AI pipeline dispatch,
+ *   error fallback)
  * - POST /webhooks/sms/status — delivery status callback (signature
  *   verification, DB status mapping)
  *
@@ -32,15 +33,23 @@ vi.mock('@/pipeline/index.js', () => ({
   processMessage: vi.fn(),
 }));
 
+vi.mock('@/services/outbound-queue.js', () => ({
+  outboundQueueService: {
+    enqueue: vi.fn(),
+  },
+}));
+
 import { app } from '@/gateway/server.js';
 import { appConfigService } from '@/apps/config.js';
 import { processMessage } from '@/pipeline/index.js';
-import { db, messages, conversations } from '@/db/index.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
+import { db, messages, conversations, guests, activityLog } from '@/db/index.js';
 import { generateId } from '@/utils/id.js';
 import { now } from '@/utils/time.js';
 
 const mockGetAppConfig = appConfigService.getAppConfig as ReturnType<typeof vi.fn>;
 const mockProcessMessage = processMessage as ReturnType<typeof vi.fn>;
+const mockEnqueue = outboundQueueService.enqueue as ReturnType<typeof vi.fn>;
 
 /**
  * Compute a valid Twilio signature exactly as sms.ts does: HMAC-SHA1 over
@@ -144,32 +153,78 @@ describe('SMS (Twilio) Webhook', () => {
       expect(await res.text()).toContain('<Response></Response>');
     });
 
-    it('sends a text-only fallback and skips the AI pipeline when the message contains media', async () => {
+    it('sends a fallback and skips the AI pipeline when the message only has unsupported media', async () => {
       mockGetAppConfig.mockResolvedValue(null);
       const sendMessage = vi.fn().mockResolvedValue(undefined);
-      mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendMessage } });
-
-      const res = await postSms({ ...basePayload, NumMedia: '1', MediaUrl0: 'https://example.com/img.png' });
+      const downloadMedia = vi.fn();
+      mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendMessage, downloadMedia } });
+
+      const res = await postSms({
+        ...basePayload,
+        Body: '',
+        NumMedia: '1',
+        MediaUrl0: 'https://api.twilio.com/2010-04-01/Accounts/AC1/Messages/MM1/Media/ME1',
+        MediaContentType0: 'video/mp4',
+      });
 
       expect(res.status).toBe(200);
       await vi.waitFor(() => expect(sendMessage).toHaveBeenCalled());
       expect(sendMessage).toHaveBeenCalledWith(
         basePayload.From,
-        expect.stringContaining('only process text messages')
+        expect.stringContaining('only process text, photos and voice messages')
       );
+      expect(downloadMedia).not.toHaveBeenCalled();
       expect(mockProcessMessage).not.toHaveBeenCalled();
     });
 
-    it('processes a text message through the pipeline and replies with the AI response', async () => {
+    it('downloads MMS photos and passes them to the pipeline with the caption', async () => {
+      mockGetAppConfig.mockResolvedValue(null);
+      const sendMessage = vi.fn().mockResolvedValue(undefined);
+      const downloadMedia = vi.fn().mockResolvedValue({ data: new Uint8Array([0xff, 0xd8, 0xff]), mimeType: 'image/jpeg' });
+      mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendMessage, downloadMedia } });
+      mockProcessMessage.mockResolvedValue({ content: 'Sorry about that, maintenance is on the way.' });
+
+      const mediaUrl = 'https://api.twilio.com/2010-04-01/Accounts/AC1/Messages/MM1/Media/ME1';
+      await postSms({
+        ...basePayload,
+        Body: 'The sink is leaking',
+        NumMedia: '1',
+        MediaUrl0: mediaUrl,
+        MediaContentType0: 'image/jpeg',
+      });
+
+      await vi.waitFor(() => expect(mockProcessMessage).toHaveBeenCalled());
+      expect(downloadMedia).toHaveBeenCalledWith(mediaUrl);
+      expect(mockProcessMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'The sink is leaking',
+          contentType: 'image',
+          media: [expect.objectContaining({ kind: 'image', mimeType: 'image/jpeg', size: 3 })],
+        })
+      );
+    });
+
+    it('processes a text message through the pipeline and queues the AI response keyed on the MessageSid', async () => {
       mockGetAppConfig.mockResolvedValue(null);
       const sendMessage = vi.fn().mockResolvedValue(undefined);
       mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendMessage } });
-      mockProcessMessage.mockResolvedValue({ content: 'Checkout is at 11am.' });
+      mockProcessMessage.mockResolvedValue({ conversationId: 'conv_1', messageId: 'msg_1', content: 'Checkout is at 11am.' });
 
       const res = await postSms(basePayload);
 
       expect(res.status).toBe(200);
-      await vi.waitFor(() => expect(sendMessage).toHaveBeenCalledWith(basePayload.From, 'Checkout is at 11am.'));
+      await vi.waitFor(() =>
+        expect(mockEnqueue).toHaveBeenCalledWith({
+          messageId: 'msg_1',
+          conversationId: 'conv_1',
+          channel: 'sms',
+          appId: 'sms-twilio',
+          channelId: basePayload.From,
+          content: 'Checkout is at 11am.',
+          idempotencyKey: `sms:${basePayload.MessageSid}`,
+        })
+      );
+      expect(sendMessage).not.toHaveBeenCalled();
       expect(mockProcessMessage).toHaveBeenCalledWith(
         expect.objectContaining({
           channel: 'sms',
@@ -194,6 +249,42 @@ describe('SMS (Twilio) Webhook', () => {
       );
     });
 
+    it('drops messages from a blocked guest without fetching media, calling the pipeline or replying', async () => {
+      mockGetAppConfig.mockResolvedValue(null);
+      const sendMessage = vi.fn().mockResolvedValue(undefined);
+      const downloadMedia = vi.fn();
+      mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendMessage, downloadMedia } });
+      const from = '+14155552671';
+      await db.insert(guests).values({
+        id: generateId('guest'),
+        firstName: 'Blocked',
+        lastName: 'Sender',
+        phone: from,
+        blockedAt: now(),
+        createdAt: now(),
+        updatedAt: now(),
+      });
+
+      const res = await postSms({
+        ...basePayload,
+        From: from,
+        MessageSid: 'SM_blocked_1',
+        Body: '',
+        NumMedia: '1',
+        MediaUrl0: 'https://api.twilio.com/2010-04-01/Accounts/AC1/Messages/MM2/Media/ME2',
+        MediaContentType0: 'image/jpeg',
+      });
+
+      expect(res.status).toBe(200);
+      await vi.waitFor(async () => {
+        const rows = await db.select().from(activityLog).where(eq(activityLog.eventType, 'inbound.dropped'));
+        expect(rows.some((row) => row.details?.includes(from))).toBe(true);
+      });
+      expect(downloadMedia).not.toHaveBeenCalled();
+      expect(mockProcessMessage).not.toHaveBeenCalled();
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
     it('does not process the message when the SMS app is not active in the registry', async () => {
       mockGetAppConfig.mockResolvedValue(null);
       mockRegistryGet.mockReturnValue(undefined);
@@ -27,12 +27,20 @@ vi.mock('@/pipeline/index.js', () => ({
   processMessage: vi.fn(),
 }));
 
+vi.mock('@/services/outbound-queue.js', () => ({
+  outboundQueueService: {
+    enqueue: vi.fn(),
+  },
+}));
+
 import { app } from '@/gateway/server.js';
 import { appConfigService } from '@/apps/config.js';
 import { processMessage } from '@/pipeline/index.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
 
 const mockGetAppConfig = appConfigService.getAppConfig as ReturnType<typeof vi.fn>;
 const mockProcessMessage = processMessage as ReturnType<typeof vi.fn>;
+const mockEnqueue = outboundQueueService.enqueue as ReturnType<typeof vi.fn>;
 
 function postTelegram(body: unknown, headers: Record<string, string> = {}) {
   return app.request('/webhooks/telegram', {
@@ -157,7 +165,7 @@ describe('Telegram Webhook', () => {
       expect(mockProcessMessage).not.toHaveBeenCalled();
     });
 
-    it('sends a text-only fallback for non-text messages', async () => {
+    it('sends a fallback for unsupported message types', async () => {
       mockGetAppConfig.mockResolvedValue(null);
       const sendText = vi.fn().mockResolvedValue(undefined);
       mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText } });
@@ -168,26 +176,71 @@ describe('Telegram Webhook', () => {
           message_id: 2,
           chat: { id: 777 },
           date: 1_700_000_200,
-          // no `text` field — e.g. a photo/sticker update
+          // no `text`, photo or voice — e.g. a sticker update
         },
       });
 
       expect(res.status).toBe(200);
       await vi.waitFor(() => expect(sendText).toHaveBeenCalled());
-      expect(sendText).toHaveBeenCalledWith('777', expect.stringContaining('only process text messages'));
+      expect(sendText).toHaveBeenCalledWith('777', expect.stringContaining('only process text, photos and voice messages'));
       expect(mockProcessMessage).not.toHaveBeenCalled();
     });
 
-    it('processes a text message through the pipeline and replies with the AI response', async () => {
+    it('downloads the largest photo size and passes it to the pipeline with the caption', async () => {
+      mockGetAppConfig.mockResolvedValue(null);
+      const sendText = vi.fn().mockResolvedValue(undefined);
+      const downloadFile = vi.fn().mockResolvedValue({ data: new Uint8Array([0xff, 0xd8]), mimeType: 'image/jpeg' });
+      mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText, downloadFile } });
+      mockProcessMessage.mockResolvedValue({ content: 'Housekeeping will take a look.' });
+
+      await postTelegram({
+        update_id: 5,
+        message: {
+          message_id: 3,
+          chat: { id: 777 },
+          date: 1_700_000_300,
+          caption: 'Stain on the carpet',
+          photo: [
+            { file_id: 'small', width: 90, height: 90 },
+            { file_id: 'large', width: 1280, height: 1280 },
+          ],
+        },
+      });
+
+      await vi.waitFor(() =>
+        expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({ channelId: '777', content: 'Housekeeping will take a look.' }))
+      );
+      expect(downloadFile).toHaveBeenCalledWith('large', 'image/jpeg');
+      expect(mockProcessMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'Stain on the carpet',
+          contentType: 'image',
+          media: [expect.objectContaining({ kind: 'image', mimeType: 'image/jpeg' })],
+        })
+      );
+    });
+
+    it('processes a text message through the pipeline and queues the AI response', async () => {
       mockGetAppConfig.mockResolvedValue(null);
       const sendText = vi.fn().mockResolvedValue(undefined);
       mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText } });
-      mockProcessMessage.mockResolvedValue({ content: 'Checkout is at 11am.' });
+      mockProcessMessage.mockResolvedValue({ conversationId: 'conv_1', messageId: 'msg_1', content: 'Checkout is at 11am.' });
 
       const res = await postTelegram(textUpdate);
 
       expect(res.status).toBe(200);
-      await vi.waitFor(() => expect(sendText).toHaveBeenCalledWith('555', 'Checkout is at 11am.'));
+      await vi.waitFor(() =>
+        expect(mockEnqueue).toHaveBeenCalledWith({
+          messageId: 'msg_1',
+          conversationId: 'conv_1',
+          channel: 'telegram',
+          appId: 'telegram',
+          channelId: '555',
+          content: 'Checkout is at 11am.',
+          idempotencyKey: 'telegram:555:42',
+        })
+      );
+      expect(sendText).not.toHaveBeenCalled();
       expect(mockProcessMessage).toHaveBeenCalledWith(
         expect.objectContaining({
           channel: 'telegram',
@@ -7,7 +7,8 @@
  * `handleIncomingMessage` / `handleStatusUpdate` (the bulk of
  * src/gateway/routes/webhooks/whatsapp.ts) are never exercised. This file
  * fills that gap: an active provider, AI pipeline dispatch, media/error
- * fallbacks, batched messages, and delivery-status DB updates.
+ * fallbacks, the inbound guard, batched messages, and delivery-status DB
+ * updates.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -30,15 +31,23 @@ vi.mock('@/pipeline/index.js', () => ({
   processMessage: vi.fn(),
 }));
 
+vi.mock('@/services/outbound-queue.js', () => ({
+  outboundQueueService: {
+    enqueue: vi.fn(),
+  },
+}));
+
 import { app } from '@/gateway/server.js';
 import { appConfigService } from '@/apps/config.js';
 import { processMessage } from '@/pipeline/index.js';
-import { db, messages, conversations } from '@/db/index.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
+import { db, messages, conversations, guests, activityLog } from '@/db/index.js';
 import { generateId } from '@/utils/id.js';
 import { now } from '@/utils/time.js';
 
 const mockGetAppConfig = appConfigService.getAppConfig as ReturnType<typeof vi.fn>;
 const mockProcessMessage = processMessage as ReturnType<typeof vi.fn>;
+const mockEnqueue = outboundQueueService.enqueue as ReturnType<typeof vi.fn>;
 
 function postWebhook(payload: unknown) {
   return app.request('/webhooks/whatsapp', {
@@ -87,33 +96,121 @@ describe('WhatsApp Webhook — active provider processing', () => {
     expect(mockProcessMessage).not.toHaveBeenCalled();
   });
 
-  it('marks the message read and sends a text-only fallback for non-text messages', async () => {
+  it('marks the message read and sends a fallback for unsupported message types', async () => {
     const sendText = vi.fn().mockResolvedValue(undefined);
     const markAsRead = vi.fn().mockResolvedValue(undefined);
     mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText, markAsRead } });
 
     const res = await postWebhook(
-      makePayload([{ from: '15559876543', id: 'wamid.2', timestamp: '1', type: 'image', image: { id: 'img1', mime_type: 'image/png', sha256: 'x' } }])
+      makePayload([{ from: '15559876543', id: 'wamid.2', timestamp: '1', type: 'sticker' }])
     );
 
     expect(res.status).toBe(200);
     await vi.waitFor(() => expect(markAsRead).toHaveBeenCalledWith('wamid.2'));
-    await vi.waitFor(() => expect(sendText).toHaveBeenCalledWith('+15559876543', expect.stringContaining('only process text messages')));
+    await vi.waitFor(() =>
+      expect(sendText).toHaveBeenCalledWith('+15559876543', expect.stringContaining('only process text, photos and voice messages'))
+    );
     expect(mockProcessMessage).not.toHaveBeenCalled();
   });
 
-  it('adds a + prefix to numbers that lack it and processes text messages through the pipeline', async () => {
+  it('downloads voice notes and passes them to the pipeline', async () => {
+    const sendText = vi.fn().mockResolvedValue(undefined);
+    const markAsRead = vi.fn().mockResolvedValue(undefined);
+    const downloadMedia = vi.fn().mockResolvedValue({ data: new Uint8Array([1, 2, 3, 4]), mimeType: 'audio/ogg' });
+    mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText, markAsRead, downloadMedia } });
+    mockProcessMessage.mockResolvedValue({ conversationId: 'conv_1', messageId: 'msg_1', content: 'Towels are on their way.' });
+
+    await postWebhook(
+      makePayload([
+        {
+          from: '15559876543',
+          id: 'wamid.5',
+          timestamp: '1',
+          type: 'audio',
+          audio: { id: 'aud1', mime_type: 'audio/ogg; codecs=opus', sha256: 'x', voice: true },
+        },
+      ])
+    );
+
+    await vi.waitFor(() =>
+      expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({ channelId: '+15559876543', content: 'Towels are on their way.' }))
+    );
+    expect(downloadMedia).toHaveBeenCalledWith('aud1');
+    expect(mockProcessMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: '',
+        contentType: 'audio',
+        media: [expect.objectContaining({ kind: 'audio', mimeType: 'audio/ogg', size: 4 })],
+      })
+    );
+  });
+
+  it('sends the fallback when a photo cannot be downloaded', async () => {
+    const sendText = vi.fn().mockResolvedValue(undefined);
+    const markAsRead = vi.fn().mockResolvedValue(undefined);
+    const downloadMedia = vi.fn().mockRejectedValue(new Error('media expired'));
+    mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText, markAsRead, downloadMedia } });
+
+    await postWebhook(
+      makePayload([{ from: '15559876543', id: 'wamid.6', timestamp: '1', type: 'image', image: { id: 'img1', mime_type: 'image/png', sha256: 'x' } }])
+    );
+
+    await vi.waitFor(() => expect(sendText).toHaveBeenCalled());
+    expect(mockProcessMessage).not.toHaveBeenCalled();
+  });
+
+  it('checks the inbound guard before read receipts, media downloads and fallback replies', async () => {
+    const sendText = vi.fn().mockResolvedValue(undefined);
+    const markAsRead = vi.fn().mockResolvedValue(undefined);
+    const downloadMedia = vi.fn();
+    mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText, markAsRead, downloadMedia } });
+    await db.insert(guests).values({
+      id: generateId('guest'),
+      firstName: 'Blocked',
+      lastName: 'Sender',
+      phone: '+14155552672',
+      blockedAt: now(),
+      createdAt: now(),
+      updatedAt: now(),
+    });
+
+    await postWebhook(
+      makePayload([{ from: '14155552672', id: 'wamid.7', timestamp: '1', type: 'image', image: { id: 'img2', mime_type: 'image/jpeg', sha256: 'x' } }])
+    );
+
+    await vi.waitFor(async () => {
+      const rows = await db.select().from(activityLog).where(eq(activityLog.eventType, 'inbound.dropped'));
+      expect(rows.some((row) => row.details?.includes('+14155552672'))).toBe(true);
+    });
+    expect(markAsRead).not.toHaveBeenCalled();
+    expect(downloadMedia).not.toHaveBeenCalled();
+    expect(sendText).not.toHaveBeenCalled();
+    expect(mockProcessMessage).not.toHaveBeenCalled();
+  });
+
+  it('adds a + prefix to numbers that lack it and queues the AI reply keyed on the WhatsApp message ID', async () => {
     const sendText = vi.fn().mockResolvedValue(undefined);
     const markAsRead = vi.fn().mockResolvedValue(undefined);
     mockRegistryGet.mockReturnValue({ status: 'active', instance: { sendText, markAsRead } });
-    mockProcessMessage.mockResolvedValue({ content: 'Checkout is at 11am.' });
+    mockProcessMessage.mockResolvedValue({ conversationId: 'conv_1', messageId: 'msg_1', content: 'Checkout is at 11am.' });
 
     const res = await postWebhook(
       makePayload([{ from: '15559876543', id: 'wamid.3', timestamp: '1', type: 'text', text: { body: 'What time is checkout?' } }])
     );
 
     expect(res.status).toBe(200);
-    await vi.waitFor(() => expect(sendText).toHaveBeenCalledWith('+15559876543', 'Checkout is at 11am.'));
+    await vi.waitFor(() =>
+      expect(mockEnqueue).toHaveBeenCalledWith({
+        messageId: 'msg_1',
+        conversationId: 'conv_1',
+        channel: 'whatsapp',
+        appId: 'whatsapp-meta',
+        channelId: '+15559876543',
+        content: 'Checkout is at 11am.',
+        idempotencyKey: 'whatsapp:wamid.3',
+      })
+    );
+    expect(sendText).not.toHaveBeenCalled();
     expect(mockProcessMessage).toHaveBeenCalledWith(
       expect.objectContaining({ channel: 'whatsapp', channelId: '+15559876543', content: 'What time is checkout?' })
     );
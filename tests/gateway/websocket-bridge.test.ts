@@ -12,9 +12,10 @@ import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vite
 
 vi.mock('@/gateway/websocket.js', () => ({
   broadcast: vi.fn(),
+  sendToUser: vi.fn(),
 }));
 
-import { broadcast } from '@/gateway/websocket.js';
+import { broadcast, sendToUser } from '@/gateway/websocket.js';
 import { setupWebSocketBridge } from '@/gateway/websocket-bridge.js';
 import { events, EventTypes } from '@/events/index.js';
 import { db, tasks, conversations, reservations, guests } from '@/db/index.js';
@@ -29,6 +30,7 @@ import type {
   ConversationCreatedEvent,
   ConversationEscalatedEvent,
   ConversationUpdatedEvent,
+  ConversationNoteAddedEvent,
   ReservationCheckedInEvent,
   ReservationCheckedOutEvent,
   MessageSentEvent,
@@ -37,6 +39,7 @@ import type {
 } from '@/types/events.js';
 
 const broadcastMock = vi.mocked(broadcast);
+const sendToUserMock = vi.mocked(sendToUser);
 
 /** Give fire-and-forget async event listeners a chance to finish their DB work. */
 function flush(ms = 30) {
@@ -112,6 +115,7 @@ describe('websocket-bridge', () => {
 
   beforeEach(() => {
     broadcastMock.mockClear();
+    sendToUserMock.mockClear();
   });
 
   afterEach(() => {
@@ -264,6 +268,62 @@ describe('websocket-bridge', () => {
     });
   });
 
+  // ─────────────────────────────────────────────────────────────
+  // Internal notes
+  // ─────────────────────────────────────────────────────────────
+
+  describe('internal note mentions', () => {
+    function emitNote(overrides: Partial<ConversationNoteAddedEvent> = {}) {
+      const event: ConversationNoteAddedEvent = {
+        type: EventTypes.CONVERSATION_NOTE_ADDED,
+        timestamp: new Date(),
+        conversationId: generateId('conversation'),
+        messageId: generateId('message'),
+        authorId: 'staff-1',
+        authorName: 'Maria Garcia',
+        content: '@Tom Baker can you check the minibar?',
+        mentionedStaffIds: ['staff-2', 'staff-3'],
+        ...overrides,
+      };
+      events.emit(event);
+      return event;
+    }
+
+    it('sends conversation:mention to each mentioned staff member', async () => {
+      const event = emitNote();
+      await flush();
+
+      const payload = {
+        conversationId: event.conversationId,
+        messageId: event.messageId,
+        authorName: 'Maria Garcia',
+        snippet: '@Tom Baker can you check the minibar?',
+      };
+      expect(sendToUserMock).toHaveBeenCalledTimes(2);
+      expect(sendToUserMock).toHaveBeenCalledWith('staff-2', { type: 'conversation:mention', payload });
+      expect(sendToUserMock).toHaveBeenCalledWith('staff-3', { type: 'conversation:mention', payload });
+      expect(callsOfType('conversation:message')).toContainEqual({
+        type: 'conversation:message',
+        payload: { conversationId: event.conversationId },
+      });
+    });
+
+    it('shortens long notes in the snippet', async () => {
+      emitNote({ content: 'x'.repeat(200), mentionedStaffIds: ['staff-2'] });
+      await flush();
+
+      const message = sendToUserMock.mock.calls[0]![1] as { payload: { snippet: string } };
+      expect(message.payload.snippet).toBe('x'.repeat(120) + '…');
+    });
+
+    it('sends nothing to individuals when no one is mentioned', async () => {
+      emitNote({ mentionedStaffIds: [] });
+      await flush();
+
+      expect(sendToUserMock).not.toHaveBeenCalled();
+    });
+  });
+
   // ─────────────────────────────────────────────────────────────
   // Model download progress
   // ─────────────────────────────────────────────────────────────
@@ -24,6 +24,9 @@ vi.mock('@huggingface/transformers', () => ({
           generated_text: prompt + 'Hi there! How can I help you today?',
         },
       ];
+    } else if (task === 'automatic-speech-recognition') {
+      // Return a transcriber that reports how many samples it received
+      return async (audio: Float32Array) => ({ text: ` ${audio.length} samples ` });
     }
     throw new Error(`Unknown task: ${task}`);
   }),
@@ -126,6 +129,43 @@ describe('LocalAIProvider', () => {
     });
   });
 
+  describe('transcribe', () => {
+    /** 16-bit PCM WAV of `seconds` of silence */
+    function makeWav(seconds: number, sampleRate: number, channels: number): Uint8Array {
+      const dataSize = seconds * sampleRate * channels * 2;
+      const buf = Buffer.alloc(44 + dataSize);
+      buf.write('RIFF', 0);
+      buf.writeUInt32LE(36 + dataSize, 4);
+      buf.write('WAVE', 8);
+      buf.write('fmt ', 12);
+      buf.writeUInt32LE(16, 16);
+      buf.writeUInt16LE(1, 20);
+      buf.writeUInt16LE(channels, 22);
+      buf.writeUInt32LE(sampleRate, 24);
+      buf.writeUInt32LE(sampleRate * channels * 2, 28);
+      buf.writeUInt16LE(channels * 2, 32);
+      buf.writeUInt16LE(16, 34);
+      buf.write('data', 36);
+      buf.writeUInt32LE(dataSize, 40);
+      return new Uint8Array(buf);
+    }
+
+    it('decodes WAV to mono 16 kHz samples and returns the trimmed transcript', async () => {
+      const provider = new LocalAIProvider({}, mockContext);
+      const result = await provider.transcribe({ audio: makeWav(1, 48000, 2), mimeType: 'audio/wav' });
+
+      expect(result.text).toBe('16000 samples');
+    });
+
+    it('rejects WAV encodings other than 16-bit PCM', async () => {
+      const provider = new LocalAIProvider({}, mockContext);
+      const wav = makeWav(1, 16000, 1);
+      Buffer.from(wav.buffer).writeUInt16LE(3, 20); // IEEE float
+
+      await expect(provider.transcribe({ audio: wav, mimeType: 'audio/wav' })).rejects.toThrow('only 16-bit PCM');
+    });
+  });
+
   describe('testConnection', () => {
     it('should test connection successfully', async () => {
       const provider = new LocalAIProvider({}, mockContext);
@@ -166,11 +206,12 @@ describe('Local AI Manifest', () => {
     expect(manifest.capabilities.completion).toBe(true);
     expect(manifest.capabilities.embedding).toBe(true);
     expect(manifest.capabilities.streaming).toBe(false);
+    expect(manifest.capabilities.transcription).toBe(true);
   });
 
   it('should have config schema', () => {
     expect(Array.isArray(manifest.configSchema)).toBe(true);
-    expect(manifest.configSchema.length).toBe(3);
+    expect(manifest.configSchema.length).toBe(5);
 
     const embeddingField = manifest.configSchema.find((f) => f.key === 'embeddingModel');
     expect(embeddingField).toBeDefined();
@@ -183,6 +224,10 @@ describe('Local AI Manifest', () => {
     const utilityField = manifest.configSchema.find((f) => f.key === 'utilityModel');
     expect(utilityField).toBeDefined();
     expect(utilityField?.required).toBe(false);
+
+    const transcriptionField = manifest.configSchema.find((f) => f.key === 'transcriptionModel');
+    expect(transcriptionField).toBeDefined();
+    expect(transcriptionField?.required).toBe(false);
   });
 
   it('should create provider via factory', () => {
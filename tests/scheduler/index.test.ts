@@ -13,7 +13,7 @@ import { conversationService } from '@/services/conversation.js';
 vi.mock('@/apps/registry.js', () => ({ getAppRegistry: vi.fn() }));
 
 vi.mock('@/services/pms-sync.js', () => ({
-  pmsSyncService: { syncReservations: vi.fn() },
+  pmsSyncService: { syncReservations: vi.fn(), syncRooms: vi.fn() },
   getPMSSyncConfig: vi.fn(),
 }));
 
@@ -25,11 +25,58 @@ vi.mock('@/services/webchat-actions.js', () => ({
   cleanupRateLimitMaps: vi.fn().mockReturnValue(0),
 }));
 
+vi.mock('@/services/email-inbound.js', () => ({
+  emailInboundService: { receive: vi.fn().mockResolvedValue({ status: 'processed' }) },
+}));
+
+vi.mock('@/services/guest-journey.js', () => ({
+  guestJourneyService: {
+    runDue: vi.fn().mockResolvedValue({ sent: 0, skipped: 0, failed: 0, quietHours: false }),
+  },
+}));
+
+vi.mock('@/services/task-sla.js', () => ({
+  taskSlaService: {
+    runEscalations: vi.fn().mockResolvedValue({ breached: 0, escalated: 0 }),
+  },
+}));
+
+vi.mock('@/services/outbound-webhooks.js', () => ({
+  outboundWebhookService: {
+    runDue: vi.fn().mockResolvedValue({ delivered: 0, retrying: 0, failed: 0 }),
+  },
+}));
+
+vi.mock('@/services/outbound-queue.js', () => ({
+  outboundQueueService: {
+    runDue: vi.fn().mockResolvedValue({ sent: 0, retrying: 0, dead: 0 }),
+  },
+}));
+
+vi.mock('@/services/handoff-summary.js', () => ({
+  handoffSummaryService: {
+    runShiftHandoff: vi.fn().mockResolvedValue({ shiftChange: null, refreshed: 0, failed: 0 }),
+  },
+}));
+
+vi.mock('@/services/knowledge-gaps.js', () => ({
+  knowledgeGapService: {
+    runClustering: vi.fn().mockResolvedValue({ clustered: 0, clustersCreated: 0 }),
+  },
+}));
+
+vi.mock('@/services/knowledge-validity.js', () => ({
+  knowledgeValidityService: {
+    runChecks: vi.fn().mockResolvedValue({ flagged: 0, invalidated: 0 }),
+  },
+}));
+
 const { Scheduler } = await import('@/scheduler/index.js');
 const { getAppRegistry } = await import('@/apps/registry.js');
 const { pmsSyncService, getPMSSyncConfig } = await import('@/services/pms-sync.js');
 const { webchatSessionService } = await import('@/services/webchat-session.js');
 const { cleanupRateLimitMaps } = await import('@/services/webchat-actions.js');
+const { emailInboundService } = await import('@/services/email-inbound.js');
 
 const SYNC_INTERVAL_MS = 900_000;
 const LOG_PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
@@ -37,12 +84,13 @@ const CONVERSATION_IDLE_INTERVAL_MS = 30 * 60 * 1000;
 const WEBCHAT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
 
 function mockNoPMS() {
-  vi.mocked(getAppRegistry).mockReturnValue({ getActivePMSApp: () => undefined } as never);
+  vi.mocked(getAppRegistry).mockReturnValue({ getActivePMSApp: () => undefined, get: () => undefined } as never);
 }
 
 function mockActivePMS() {
   vi.mocked(getAppRegistry).mockReturnValue({
     getActivePMSApp: () => ({ id: 'test-pms', config: {} }),
+    get: () => undefined,
   } as never);
   vi.mocked(getPMSSyncConfig).mockReturnValue({
     stalenessThresholdMs: 300_000,
@@ -63,6 +111,13 @@ describe('Scheduler', () => {
       errors: 0,
       errorDetails: [],
     });
+    vi.mocked(pmsSyncService.syncRooms).mockResolvedValue({
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      errors: 0,
+      errorDetails: [],
+    });
     vi.mocked(webchatSessionService.cleanupExpired).mockResolvedValue(0);
     vi.mocked(cleanupRateLimitMaps).mockReturnValue(0);
 
@@ -81,7 +136,7 @@ describe('Scheduler', () => {
   });
 
   describe('start', () => {
-    it('registers pms-sync, log-purge, conversation-idle-timeout, and webchat-session-cleanup when a PMS app is active', async () => {
+    it('registers pms-sync, log-purge, conversation-idle-timeout, task-sla, guest-journey, handoff-summaries, knowledge-gaps, knowledge-validity, outbound-webhooks, outbound-queue, and webchat-session-cleanup when a PMS app is active', async () => {
       mockActivePMS();
       scheduler = new Scheduler();
       scheduler.start();
@@ -89,7 +144,19 @@ describe('Scheduler', () => {
 
       const names = scheduler.getStatus().jobs.map((j) => j.name).sort();
       expect(names).toEqual(
-        ['conversation-idle-timeout', 'log-purge', 'pms-sync', 'webchat-session-cleanup'].sort()
+        [
+          'conversation-idle-timeout',
+          'guest-journey',
+          'handoff-summaries',
+          'knowledge-gaps',
+          'knowledge-validity',
+          'log-purge',
+          'outbound-queue',
+          'outbound-webhooks',
+          'pms-sync',
+          'task-sla',
+          'webchat-session-cleanup',
+        ].sort()
       );
     });
 
@@ -102,10 +169,56 @@ describe('Scheduler', () => {
       const names = scheduler.getStatus().jobs.map((j) => j.name);
       expect(names).not.toContain('pms-sync');
       expect(names).toEqual(
-        expect.arrayContaining(['log-purge', 'conversation-idle-timeout', 'webchat-session-cleanup'])
+        expect.arrayContaining([
+          'log-purge',
+          'conversation-idle-timeout',
+          'task-sla',
+          'guest-journey',
+          'handoff-summaries',
+          'knowledge-gaps',
+          'knowledge-validity',
+          'outbound-webhooks',
+          'outbound-queue',
+          'webchat-session-cleanup',
+        ])
       );
     });
 
+    it('registers email-imap-poll when the SMTP app has IMAP configured and feeds fetched mail to the inbound service', async () => {
+      const polled = { from: 'jane@example.com', subject: 'Hi', text: 'Hello' };
+      const unlucky = { from: 'joe@example.com', subject: 'Towels', text: 'More towels please' };
+      const fetchInbound = vi.fn().mockResolvedValue([
+        { uid: 7, email: polled },
+        { uid: 8, email: unlucky },
+      ]);
+      const markSeen = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(emailInboundService.receive)
+        .mockResolvedValueOnce({ status: 'processed' })
+        .mockRejectedValueOnce(new Error('database is locked'));
+      vi.mocked(getAppRegistry).mockReturnValue({
+        getActivePMSApp: () => undefined,
+        get: (id: string) =>
+          id === 'email-smtp'
+            ? { status: 'active', instance: { hasInbound: () => true, fetchInbound, markSeen } }
+            : undefined,
+      } as never);
+
+      scheduler = new Scheduler();
+      scheduler.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      // The handler lazy-imports the inbound email service, so let the import settle
+      await vi.waitFor(() => {
+        const job = scheduler.getStatus().jobs.find((j) => j.name === 'email-imap-poll');
+        expect(job?.lastResult).toBe('success');
+      });
+      expect(fetchInbound).toHaveBeenCalledTimes(1);
+      expect(emailInboundService.receive).toHaveBeenCalledWith(polled, 'email-smtp');
+      // Mail that failed to process stays unseen for the next poll
+      expect(markSeen).toHaveBeenCalledTimes(1);
+      expect(markSeen).toHaveBeenCalledWith(7);
+    });
+
     it('runs every job immediately on start and records success', async () => {
       mockNoPMS();
       scheduler = new Scheduler();
@@ -128,8 +241,8 @@ describe('Scheduler', () => {
       await vi.advanceTimersByTimeAsync(0);
 
       const rows = await db.select().from(activityLog).where(eq(activityLog.eventType, 'scheduler.outcome'));
-      // log-purge, conversation-idle-timeout, webchat-session-cleanup (3 jobs registered, no PMS)
-      expect(rows.length).toBe(3);
+      // log-purge, conversation-idle-timeout, task-sla, guest-journey, handoff-summaries, knowledge-gaps, knowledge-validity, outbound-webhooks, outbound-queue, webchat-session-cleanup (10 jobs registered, no PMS)
+      expect(rows.length).toBe(10);
       expect(rows.every((r) => r.status === 'success')).toBe(true);
     });
 
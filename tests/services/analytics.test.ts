@@ -9,9 +9,9 @@
 
 import { describe, it, expect, afterEach } from 'vitest';
 import { db } from '@/db/index.js';
-import { guests, conversations, messages, activityLog } from '@/db/schema.js';
+import { guests, conversations, messages, activityLog, tasks, replyDrafts } from '@/db/schema.js';
 import { inArray } from 'drizzle-orm';
-import { getAnalyticsOverview } from '@/services/analytics.js';
+import { getAnalyticsOverview, getReplyDraftStats, getSlaCompliance } from '@/services/analytics.js';
 import { generateId } from '@/utils/id.js';
 
 // ---------------------------------------------------------------------------
@@ -40,8 +40,11 @@ describe('AnalyticsService', () => {
   let conversationIds: string[] = [];
   let messageIds: string[] = [];
   let activityLogIds: string[] = [];
+  let taskIds: string[] = [];
 
   afterEach(async () => {
+    if (conversationIds.length) await db.delete(replyDrafts).where(inArray(replyDrafts.conversationId, conversationIds));
+    if (taskIds.length) await db.delete(tasks).where(inArray(tasks.id, taskIds));
     if (messageIds.length) await db.delete(messages).where(inArray(messages.id, messageIds));
     if (activityLogIds.length) await db.delete(activityLog).where(inArray(activityLog.id, activityLogIds));
     if (conversationIds.length) await db.delete(conversations).where(inArray(conversations.id, conversationIds));
@@ -50,6 +53,7 @@ describe('AnalyticsService', () => {
     conversationIds = [];
     messageIds = [];
     activityLogIds = [];
+    taskIds = [];
   });
 
   async function makeGuest(createdAt: string): Promise<string> {
@@ -116,6 +120,31 @@ describe('AnalyticsService', () => {
     return id;
   }
 
+  async function makeTask(opts: {
+    department: string;
+    createdAt: string;
+    dueAt: string | null;
+    status?: string;
+    startedAt?: string | null;
+    slaBreachedAt?: string | null;
+  }): Promise<string> {
+    const id = generateId('task');
+    await db.insert(tasks).values({
+      id,
+      type: 'other',
+      department: opts.department,
+      description: 'fixture task',
+      status: opts.status ?? 'in_progress',
+      dueAt: opts.dueAt,
+      startedAt: opts.startedAt ?? null,
+      slaBreachedAt: opts.slaBreachedAt ?? null,
+      createdAt: opts.createdAt,
+      updatedAt: opts.createdAt,
+    });
+    taskIds.push(id);
+    return id;
+  }
+
   // A 7-day window covering "today" through 6 days ago.
   const range = { from: ymdAgo(6), to: ymdAgo(0) };
 
@@ -344,4 +373,56 @@ describe('AnalyticsService', () => {
       expect(byDate[shiftedYmd]).toBe(1);
     });
   });
+  describe('getSlaCompliance', () => {
+    it('rates tasks by due date, counting late or flagged pickups as breaches', async () => {
+      // Met: picked up 20 minutes after creation, due after an hour
+      await makeTask({ department: 'housekeeping', createdAt: isoAgo(3, 9), dueAt: isoAgo(3, 10), startedAt: isoAgo(3, 9).replace('09:00', '09:20') });
+      // Breached: picked up after the due time
+      await makeTask({ department: 'housekeeping', createdAt: isoAgo(3, 9), dueAt: isoAgo(3, 10), startedAt: isoAgo(3, 11) });
+      // Breached: still pending past due, already flagged by the SLA job
+      await makeTask({ department: 'maintenance', createdAt: isoAgo(2, 9), dueAt: isoAgo(2, 10), status: 'pending', slaBreachedAt: isoAgo(2, 10) });
+      // Excluded: cancelled, no due time, or due outside the range
+      await makeTask({ department: 'maintenance', createdAt: isoAgo(2, 9), dueAt: isoAgo(2, 10), status: 'cancelled' });
+      await makeTask({ department: 'maintenance', createdAt: isoAgo(2, 9), dueAt: null, startedAt: isoAgo(2, 11) });
+      await makeTask({ department: 'maintenance', createdAt: isoAgo(10, 9), dueAt: isoAgo(10, 10), startedAt: isoAgo(10, 9) });
+
+      const result = await getSlaCompliance({ range });
+
+      expect(result.evaluated).toBe(3);
+      expect(result.breached).toBe(2);
+      expect(result.complianceRate.value).toBe(33.3);
+      expect(result.avgPickupMinutes).toBe(70);
+
+      const byDate = Object.fromEntries(result.complianceRate.series.map((p) => [p.date, p.value]));
+      expect(byDate[ymdAgo(3)]).toBe(50);
+      expect(byDate[ymdAgo(2)]).toBe(0);
+
+      expect(result.byDepartment).toEqual([
+        { department: 'housekeeping', evaluated: 2, met: 1, rate: 50 },
+        { department: 'maintenance', evaluated: 1, met: 0, rate: 0 },
+      ]);
+    });
+  });
+
+  describe('getReplyDraftStats', () => {
+    it('counts drafts sent as is or edited, bucketed by draft date', async () => {
+      const conversationId = await makeConversation(null);
+      const draft = (createdAt: string, outcome: string | null) =>
+        db.insert(replyDrafts).values({ id: generateId('replyDraft'), conversationId, language: 'en', outcome, createdAt });
+
+      await draft(isoAgo(3), 'accepted');
+      await draft(isoAgo(3), 'edited');
+      await draft(isoAgo(3), null);
+      await draft(isoAgo(1), 'accepted');
+      await draft(isoAgo(10), 'accepted'); // outside the range
+
+      const result = await getReplyDraftStats({ range });
+
+      expect(result).toMatchObject({ generated: 4, accepted: 2, edited: 1, acceptedAsIsRate: 66.7 });
+      expect(result.usageRate.value).toBe(75);
+      const byDate = Object.fromEntries(result.usageRate.series.map((p) => [p.date, p.value]));
+      expect(byDate[ymdAgo(3)]).toBe(66.7);
+      expect(byDate[ymdAgo(1)]).toBe(100);
+    });
+  });
 });
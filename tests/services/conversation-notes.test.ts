@@ -0,0 +1,120 @@
+/**
+ * Conversation Notes Tests
+ *
+ * Covers src/services/conversation-notes.ts: @mention matching, adding an
+ * internal note (stored, announced with its mentions) and who can be
+ * mentioned. Also checks that notes stay out of guest-facing history.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { db, conversations, messages, roles, staff } from '@/db/index.js';
+import { NotFoundError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
+import { conversationNoteService, findMentions } from '@/services/conversation-notes.js';
+import { conversationService } from '@/services/conversation.js';
+
+const ana = { id: 'staff-note-ana', name: 'Ana' };
+const anaLopez = { id: 'staff-note-ana-lopez', name: 'Ana Lopez' };
+const ben = { id: 'staff-note-ben', name: 'Ben Ortiz' };
+
+describe('findMentions', () => {
+  it('prefers the longest matching name', () => {
+    expect(findMentions('@Ana Lopez can you call room 12?', [ana, anaLopez])).toEqual([anaLopez]);
+    expect(findMentions('@ana and @Ana Lopez', [ana, anaLopez])).toEqual([anaLopez, ana]);
+  });
+
+  it('needs a word boundary after the name', () => {
+    expect(findMentions('@Anastasia will handle it', [ana])).toEqual([]);
+    expect(findMentions('Thanks @ana, done.', [ana])).toEqual([ana]);
+    expect(findMentions('ana without the at sign', [ana])).toEqual([]);
+  });
+
+  it('lists each person once', () => {
+    expect(findMentions('@Ben Ortiz ... @ben ortiz again', [ben])).toEqual([ben]);
+  });
+});
+
+describe('ConversationNoteService', () => {
+  const noteEvents = vi.fn();
+
+  beforeAll(async () => {
+    await db.insert(roles).values({
+      id: 'role-note-test-none',
+      name: 'Notes Test No Conversations',
+      permissions: JSON.stringify(['tasks:view']),
+      isSystem: false,
+    });
+    await db.insert(staff).values([
+      { ...ana, email: 'ana@notes.test', roleId: SYSTEM_ROLE_IDS.STAFF, status: 'active' },
+      { ...anaLopez, email: 'ana.lopez@notes.test', roleId: SYSTEM_ROLE_IDS.MANAGER, status: 'active' },
+      { ...ben, email: 'ben@notes.test', roleId: SYSTEM_ROLE_IDS.STAFF, status: 'inactive' },
+      { id: 'staff-note-kim', name: 'Kim', email: 'kim@notes.test', roleId: 'role-note-test-none', status: 'active' },
+    ]);
+  });
+
+  beforeEach(async () => {
+    await db.delete(messages);
+    await db.delete(conversations);
+    events.on(EventTypes.CONVERSATION_NOTE_ADDED, noteEvents);
+  });
+
+  afterEach(() => {
+    events.off(EventTypes.CONVERSATION_NOTE_ADDED, noteEvents);
+    noteEvents.mockReset();
+  });
+
+  it('lists active staff who can view conversations', async () => {
+    const names = (await conversationNoteService.listMentionable()).map((s) => s.name);
+
+    expect(names).toEqual(expect.arrayContaining(['Ana', 'Ana Lopez']));
+    expect(names).not.toContain('Ben Ortiz');
+    expect(names).not.toContain('Kim');
+  });
+
+  it('stores the note as an internal message and announces the mentions', async () => {
+    const conversation = await conversationService.findOrCreate('webchat', 'session-notes-1');
+
+    const { message, mentions } = await conversationNoteService.add(
+      conversation.id,
+      ana.id,
+      '@Ana Lopez the guest is a travel agent, @Ana I will follow up'
+    );
+
+    expect(message).toMatchObject({ direction: 'internal', senderType: 'staff', senderId: ana.id });
+    expect(mentions.map((m) => m.id)).toEqual([anaLopez.id, ana.id]);
+    expect(noteEvents).toHaveBeenCalledOnce();
+    expect(noteEvents.mock.calls[0]![0]).toMatchObject({
+      conversationId: conversation.id,
+      messageId: message.id,
+      authorName: 'Ana',
+      // The author is not notified of their own mention
+      mentionedStaffIds: [anaLopez.id],
+    });
+  });
+
+  it('rejects a note from unknown staff', async () => {
+    const conversation = await conversationService.findOrCreate('webchat', 'session-notes-2');
+
+    await expect(conversationNoteService.add(conversation.id, 'staff-missing', 'Hello')).rejects.toThrow(NotFoundError);
+  });
+
+  it('keeps notes out of guest-facing history', async () => {
+    const conversation = await conversationService.findOrCreate('webchat', 'session-notes-3');
+    await conversationService.addMessage(conversation.id, {
+      direction: 'inbound',
+      senderType: 'guest',
+      content: 'Can I check out late?',
+      contentType: 'text',
+    });
+    await conversationNoteService.add(conversation.id, ana.id, 'Approved by the manager');
+
+    const all = await conversationService.getMessages(conversation.id);
+    const guestFacing = await conversationService.getMessages(conversation.id, { excludeInternal: true });
+    const notes = await conversationNoteService.listRecent(conversation.id);
+
+    expect(all).toHaveLength(2);
+    expect(guestFacing.map((m) => m.direction)).toEqual(['inbound']);
+    expect(notes.map((m) => m.content)).toEqual(['Approved by the manager']);
+  });
+});
@@ -5,6 +5,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ConversationService } from '@/services/conversation.js';
 import { db, conversations, messages } from '@/db/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import type { ConversationEscalatedEvent } from '@/types/events.js';
 import { eq } from 'drizzle-orm';
 
 describe('ConversationService', () => {
@@ -140,6 +142,23 @@ describe('ConversationService', () => {
       await db.delete(conversations).where(eq(conversations.id, conv.id));
     });
 
+    it('should emit CONVERSATION_ESCALATED only when escalating', async () => {
+      const escalations: ConversationEscalatedEvent[] = [];
+      const onEscalated = (e: ConversationEscalatedEvent) => void escalations.push(e);
+      events.on(EventTypes.CONVERSATION_ESCALATED, onEscalated);
+
+      const conv = await service.findOrCreate('webchat', `${testPrefix}-update-escalate`);
+      await service.update(conv.id, { state: 'escalated', _escalation: { reasons: ['complaint'], priority: 'high' } });
+      await service.update(conv.id, { state: 'escalated' });
+      events.off(EventTypes.CONVERSATION_ESCALATED, onEscalated);
+
+      expect(escalations).toHaveLength(1);
+      expect(escalations[0]).toMatchObject({ conversationId: conv.id, reasons: ['complaint'], priority: 'high' });
+
+      // Cleanup
+      await db.delete(conversations).where(eq(conversations.id, conv.id));
+    });
+
     it('should set resolvedAt when state is resolved', async () => {
       const channelId = `${testPrefix}-update-2`;
       const conv = await service.findOrCreate('webchat', channelId);
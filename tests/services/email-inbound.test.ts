@@ -0,0 +1,278 @@
+/**
+ * Inbound Email Service Tests
+ *
+ * Covers src/services/email-inbound.ts (threading, dedupe, loop guards,
+ * reply headers) and the parsing helpers in src/utils/email.ts.
+ *
+ * The pipeline is mocked with a stand-in that resolves conversations the
+ * same way resolveConversation does (explicit id, else findOrCreate by
+ * channel + address), so threading is exercised against the real DB.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { InboundEmail, OutboundMessage } from '@jackthebutler/shared';
+
+const mockRegistryGet = vi.fn();
+const mockActiveAdapters = new Map<string, unknown>();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    get: mockRegistryGet,
+    getActiveChannelAdapters: () => mockActiveAdapters,
+  }),
+}));
+
+vi.mock('@/pipeline/index.js', () => ({
+  processMessage: vi.fn(),
+}));
+
+import { db, conversations, messages, outboundQueue } from '@/db/index.js';
+import { processMessage } from '@/pipeline/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { emailInboundService } from '@/services/email-inbound.js';
+import type { InboundMessage } from '@/types/message.js';
+import {
+  isAutoGenerated,
+  parseEmailAddress,
+  parseMessageIds,
+  replySubject,
+  stripQuotedReply,
+} from '@/utils/email.js';
+
+const mockProcessMessage = processMessage as ReturnType<typeof vi.fn>;
+
+let sentCount = 0;
+const sendEmail = vi.fn();
+
+/** Email app stand-in: `send()` maps onto `sendEmail()` like the real adapters */
+const emailApp = {
+  sendEmail,
+  getFromAddress: () => 'Concierge@Hotel.com',
+  send: async (message: OutboundMessage) => {
+    const { messageId } = await sendEmail({ to: message.channelId, text: message.content, ...message.metadata });
+    return { status: 'sent', channelMessageId: messageId };
+  },
+};
+
+function activeProvider() {
+  mockRegistryGet.mockReturnValue({ status: 'active', instance: emailApp });
+  mockActiveAdapters.set('email-mailgun', emailApp);
+}
+
+function email(overrides: Partial<InboundEmail> = {}): InboundEmail {
+  return {
+    from: 'Jane Doe <jane@example.com>',
+    subject: 'Late checkout',
+    text: 'Can I check out at 2pm?',
+    messageId: '<guest-1@example.com>',
+    ...overrides,
+  };
+}
+
+describe('email utils', () => {
+  describe('stripQuotedReply', () => {
+    it('drops a Gmail-style attribution and everything below it', () => {
+      const text = 'Yes please, 2pm works.\n\nOn Mon, Jan 1, 2024 at 9:00 AM Hotel <concierge@hotel.com> wrote:\n> Would 2pm work?\n> Thanks';
+      expect(stripQuotedReply(text)).toBe('Yes please, 2pm works.');
+    });
+
+    it('handles an attribution line wrapped onto two lines', () => {
+      const text = 'Thanks!\n\nOn Mon, Jan 1, 2024 at 9:00 AM Grand Hotel Concierge <concierge@hotel.com>\nwrote:\n> Hello';
+      expect(stripQuotedReply(text)).toBe('Thanks!');
+    });
+
+    it('drops Outlook original-message blocks', () => {
+      const text = 'See you soon\r\n\r\n-----Original Message-----\r\nFrom: Hotel\r\nSent: Monday\r\n\r\nWelcome';
+      expect(stripQuotedReply(text)).toBe('See you soon');
+    });
+
+    it('drops signatures after the "-- " delimiter and mobile footers', () => {
+      expect(stripQuotedReply('Need towels\n-- \nJane Doe\nACME Corp')).toBe('Need towels');
+      expect(stripQuotedReply('Need towels\n\nSent from my iPhone')).toBe('Need towels');
+    });
+
+    it('removes interleaved quoted lines but keeps the guest text around them', () => {
+      const text = '> Would you like breakfast?\nYes, for two.\n> What time?\n8am';
+      expect(stripQuotedReply(text)).toBe('Yes, for two.\n8am');
+    });
+  });
+
+  it('parses addresses and message ids', () => {
+    expect(parseEmailAddress('"Jane Doe" <Jane@Example.com>')).toBe('jane@example.com');
+    expect(parseEmailAddress('jane@example.com')).toBe('jane@example.com');
+    expect(parseEmailAddress('not an address')).toBeNull();
+    expect(parseMessageIds('<a@x> <b@y>')).toEqual(['<a@x>', '<b@y>']);
+    expect(parseMessageIds('a@x')).toEqual(['<a@x>']);
+    expect(parseMessageIds('sendgrid-internal-id')).toEqual([]);
+  });
+
+  it('detects auto-generated mail', () => {
+    expect(isAutoGenerated({ 'auto-submitted': 'auto-replied' })).toBe(true);
+    expect(isAutoGenerated({ precedence: 'bulk' })).toBe(true);
+    expect(isAutoGenerated({ 'auto-submitted': 'no' })).toBe(false);
+    expect(isAutoGenerated(undefined)).toBe(false);
+  });
+
+  it('builds reply subjects without stacking prefixes', () => {
+    expect(replySubject('Parking')).toBe('Re: Parking');
+    expect(replySubject('RE: Parking')).toBe('RE: Parking');
+    expect(replySubject('')).toBe('Re: Your message');
+  });
+});
+
+describe('EmailInboundService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await db.delete(outboundQueue);
+    await db.delete(messages);
+    await db.delete(conversations);
+    sentCount = 0;
+    sendEmail.mockImplementation(async () => ({ messageId: `<reply-${++sentCount}@hotel.com>` }));
+    mockProcessMessage.mockImplementation(async (inbound: InboundMessage) => {
+      const conv = inbound.conversationId
+        ? { id: inbound.conversationId }
+        : await conversationService.findOrCreate('email', inbound.channelId);
+      const reply = await conversationService.addMessage(conv.id, {
+        direction: 'outbound',
+        senderType: 'ai',
+        content: 'Of course!',
+        contentType: 'text',
+      });
+      return { conversationId: conv.id, messageId: reply.id, content: 'Of course!', contentType: 'text' };
+    });
+    activeProvider();
+  });
+
+  it('processes a new email and replies in-thread', async () => {
+    const result = await emailInboundService.receive(email(), 'email-mailgun');
+
+    expect(result.status).toBe('processed');
+    expect(mockProcessMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'email',
+        channelId: 'jane@example.com',
+        channelMessageId: '<guest-1@example.com>',
+        content: 'Can I check out at 2pm?',
+        conversationId: undefined,
+      })
+    );
+    expect(sendEmail).toHaveBeenCalledWith({
+      to: 'jane@example.com',
+      subject: 'Re: Late checkout',
+      text: 'Of course!',
+      inReplyTo: '<guest-1@example.com>',
+      references: ['<guest-1@example.com>'],
+    });
+
+    const conversation = await conversationService.getById(result.conversationId!);
+    expect(emailInboundService.getThread(conversation)).toEqual({
+      subject: 'Late checkout',
+      messageIds: ['<guest-1@example.com>', '<reply-1@hotel.com>'],
+    });
+  });
+
+  it('threads a reply from a different address into the original conversation via In-Reply-To', async () => {
+    const first = await emailInboundService.receive(email(), 'email-mailgun');
+
+    const second = await emailInboundService.receive(
+      email({
+        from: 'jane.doe@work.example.com',
+        subject: 'Re: Late checkout',
+        text: 'Great, thanks!\n\nOn Mon, Hotel wrote:\n> Of course!',
+        messageId: '<guest-2@example.com>',
+        inReplyTo: '<reply-1@hotel.com>',
+        references: ['<guest-1@example.com>', '<reply-1@hotel.com>'],
+      }),
+      'email-mailgun'
+    );
+
+    expect(second.conversationId).toBe(first.conversationId);
+    expect(mockProcessMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ conversationId: first.conversationId, content: 'Great, thanks!' })
+    );
+    expect(sendEmail).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        to: 'jane.doe@work.example.com',
+        subject: 'Re: Late checkout',
+        inReplyTo: '<guest-2@example.com>',
+        references: ['<guest-1@example.com>', '<reply-1@hotel.com>', '<guest-2@example.com>'],
+      })
+    );
+  });
+
+  it('reopens a closed conversation when the guest replies in its thread', async () => {
+    const first = await emailInboundService.receive(email(), 'email-mailgun');
+    await conversationService.update(first.conversationId!, { state: 'closed' });
+
+    await emailInboundService.receive(
+      email({ messageId: '<guest-2@example.com>', inReplyTo: '<reply-1@hotel.com>' }),
+      'email-mailgun'
+    );
+
+    const conversation = await conversationService.getById(first.conversationId!);
+    expect(conversation.state).toBe('active');
+  });
+
+  it('treats a repeated Message-ID as a provider redelivery', async () => {
+    await emailInboundService.receive(email(), 'email-mailgun');
+    const again = await emailInboundService.receive(email(), 'email-mailgun');
+
+    expect(again.status).toBe('duplicate');
+    expect(mockProcessMessage).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores auto-replies, mail from our own address, and inactive apps', async () => {
+    const auto = await emailInboundService.receive(
+      email({ headers: { 'auto-submitted': 'auto-replied' } }),
+      'email-mailgun'
+    );
+    const own = await emailInboundService.receive(email({ from: 'concierge@hotel.com' }), 'email-mailgun');
+    mockRegistryGet.mockReturnValue(undefined);
+    const inactive = await emailInboundService.receive(email(), 'email-mailgun');
+
+    expect(auto).toEqual({ status: 'ignored', reason: 'auto_generated' });
+    expect(own).toEqual({ status: 'ignored', reason: 'own_address' });
+    expect(inactive).toEqual({ status: 'ignored', reason: 'app_inactive' });
+    expect(mockProcessMessage).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the HTML body, then the subject, when there is no text part', async () => {
+    await emailInboundService.receive(
+      email({ text: '', html: '<p>Is the <b>pool</b> open?</p><blockquote>old</blockquote>' }),
+      'email-mailgun'
+    );
+    expect(mockProcessMessage).toHaveBeenLastCalledWith(expect.objectContaining({ content: 'Is the pool open?' }));
+
+    await emailInboundService.receive(
+      email({ text: '', subject: 'Extra pillows please', messageId: '<guest-9@example.com>' }),
+      'email-mailgun'
+    );
+    expect(mockProcessMessage).toHaveBeenLastCalledWith(expect.objectContaining({ content: 'Extra pillows please' }));
+  });
+
+  it('sends an apology in-thread when the pipeline fails', async () => {
+    mockProcessMessage.mockRejectedValue(new Error('pipeline exploded'));
+
+    const result = await emailInboundService.receive(email(), 'email-mailgun');
+
+    expect(result).toEqual({ status: 'failed', reason: 'pipeline_error' });
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inReplyTo: '<guest-1@example.com>',
+        text: expect.stringContaining('encountered an error'),
+      })
+    );
+  });
+
+  it('builds reply headers for staff replies from the stored thread', async () => {
+    const first = await emailInboundService.receive(email(), 'email-mailgun');
+    const conversation = await conversationService.getById(first.conversationId!);
+
+    expect(emailInboundService.getReplyHeaders(conversation)).toEqual({
+      subject: 'Re: Late checkout',
+      inReplyTo: '<reply-1@hotel.com>',
+      references: ['<guest-1@example.com>', '<reply-1@hotel.com>'],
+    });
+    expect(emailInboundService.getReplyHeaders({ metadata: '{}' })).toEqual({ subject: 'Re: Your message' });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Guest Journey Service Tests
+ *
+ * Covers src/services/guest-journey.ts: step CRUD, due-step evaluation in the
+ * hotel timezone, quiet hours, channel selection from the guest's contacts,
+ * per-language templates, opt-out, hand-off to the outbound queue, and the
+ * send log.
+ *
+ * Channel adapters are mocked; everything else runs against the real DB.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+
+const mockGetChannelAdapterByType = vi.fn();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getChannelAdapterByType: mockGetChannelAdapterByType,
+  }),
+}));
+
+import {
+  db,
+  guests,
+  reservations,
+  conversations,
+  messages,
+  journeySends,
+  journeySteps,
+  outboundQueue,
+  whatsappTemplates,
+} from '@/db/index.js';
+import { emailInboundService } from '@/services/email-inbound.js';
+import { guestJourneyService, isQuietHours, renderTemplate } from '@/services/guest-journey.js';
+import { outboundQueueService } from '@/services/outbound-queue.js';
+import { settingsService } from '@/services/settings.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+
+// 10:30 in Paris (UTC+2 in June)
+const AT = new Date('2026-06-10T08:30:00Z');
+
+const whatsappSend = vi.fn();
+const emailSend = vi.fn();
+
+function activeAdapters(types: string[]) {
+  mockGetChannelAdapterByType.mockImplementation((type: string) => {
+    if (!types.includes(type)) return undefined;
+    return { channel: type, send: type === 'email' ? emailSend : whatsappSend };
+  });
+}
+
+async function addGuest(overrides: Partial<typeof guests.$inferInsert> = {}) {
+  const id = generateId('guest');
+  await db.insert(guests).values({
+    id,
+    firstName: 'Marie',
+    lastName: 'Curie',
+    phone: '+33612345678',
+    email: 'marie@example.com',
+    language: 'fr',
+    createdAt: now(),
+    updatedAt: now(),
+    ...overrides,
+  });
+  return id;
+}
+
+async function addReservation(guestId: string, overrides: Partial<typeof reservations.$inferInsert> = {}) {
+  const id = generateId('reservation');
+  await db.insert(reservations).values({
+    id,
+    guestId,
+    confirmationNumber: `CONF-${id}`,
+    roomType: 'double',
+    arrivalDate: '2026-06-12',
+    departureDate: '2026-06-15',
+    status: 'confirmed',
+    createdAt: now(),
+    updatedAt: now(),
+    ...overrides,
+  });
+  return id;
+}
+
+function preArrivalStep(overrides: Record<string, unknown> = {}) {
+  return guestJourneyService.createStep({
+    name: 'Pre-arrival welcome',
+    anchor: 'arrival',
+    offsetDays: -2,
+    sendTime: '10:00',
+    channel: 'auto',
+    templates: {
+      en: 'Hi {{firstName}}, see you on {{arrivalDate}} at {{hotelName}}!',
+      fr: 'Bonjour {{firstName}}, à bientôt le {{arrivalDate}} au {{hotelName}} !',
+    },
+    ...overrides,
+  });
+}
+
+describe('guest journey helpers', () => {
+  it('evaluates quiet hours, including windows that wrap past midnight', () => {
+    expect(isQuietHours('22:15', '21:00', '08:00')).toBe(true);
+    expect(isQuietHours('07:59', '21:00', '08:00')).toBe(true);
+    expect(isQuietHours('08:00', '21:00', '08:00')).toBe(false);
+    expect(isQuietHours('13:30', '13:00', '14:00')).toBe(true);
+    expect(isQuietHours('03:00', '00:00', '00:00')).toBe(false);
+  });
+
+  it('renders placeholders and blanks unknown ones', () => {
+    expect(renderTemplate('Hi {{ firstName }}, room {{roomNumber}}{{unknown}}', { firstName: 'Ada', roomNumber: null })).toBe(
+      'Hi Ada, room'
+    );
+  });
+});
+
+describe('GuestJourneyService', () => {
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    await db.delete(outboundQueue);
+    await db.delete(journeySends);
+    await db.delete(journeySteps);
+    await db.delete(messages);
+    await db.delete(conversations);
+    await db.delete(reservations);
+    await db.delete(guests);
+    await settingsService.set('hotel_profile', {
+      name: 'Hôtel Lumière',
+      timezone: 'Europe/Paris',
+      currency: 'EUR',
+      propertyLanguage: 'en',
+      checkInTime: '15:00',
+      checkOutTime: '11:00',
+    });
+    // Journeys start WhatsApp conversations, so they go out as the fallback template
+    await db.delete(whatsappTemplates);
+    await db.insert(whatsappTemplates).values({
+      id: generateId('whatsappTemplate'),
+      name: 'hotel_update',
+      language: 'fr',
+      category: 'UTILITY',
+      status: 'APPROVED',
+      body: '{{1}}',
+      parameterCount: 1,
+      variables: JSON.stringify(['message.content']),
+      isFallback: true,
+      syncedAt: now(),
+    });
+    whatsappSend.mockResolvedValue({ status: 'sent', channelMessageId: 'wamid.1' });
+    emailSend.mockResolvedValue({ status: 'sent', channelMessageId: '<journey-1@hotel.com>' });
+    activeAdapters(['whatsapp', 'email']);
+  });
+
+  it('creates, updates, lists, and deletes steps', async () => {
+    const step = await preArrivalStep();
+    expect(step.templates.fr).toContain('Bonjour');
+    expect(step.enabled).toBe(true);
+
+    const updated = await guestJourneyService.updateStep(step.id, { enabled: false, offsetDays: -3 });
+    expect(updated).toMatchObject({ enabled: false, offsetDays: -3, name: 'Pre-arrival welcome' });
+
+    expect(await guestJourneyService.listSteps()).toHaveLength(1);
+    await guestJourneyService.deleteStep(step.id);
+    await expect(guestJourneyService.getStep(step.id)).rejects.toThrow('not found');
+  });
+
+  it('sends a due step once, in the guest language, on the first reachable channel', async () => {
+    const step = await preArrivalStep();
+    const guestId = await addGuest();
+    const reservationId = await addReservation(guestId);
+
+    const first = await guestJourneyService.runDue(AT);
+    const second = await guestJourneyService.runDue(AT);
+
+    expect(first).toEqual({ sent: 1, skipped: 0, failed: 0, quietHours: false });
+    expect(second.sent).toBe(0);
+    expect(whatsappSend).toHaveBeenCalledTimes(1);
+    expect(whatsappSend).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channelId: '+33612345678',
+        content: 'Bonjour Marie, à bientôt le 2026-06-12 au Hôtel Lumière !',
+        metadata: expect.objectContaining({
+          template: {
+            name: 'hotel_update',
+            language: 'fr',
+            parameters: ['Bonjour Marie, à bientôt le 2026-06-12 au Hôtel Lumière !'],
+          },
+        }),
+      })
+    );
+
+    const [conversation] = await db.select().from(conversations);
+    expect(conversation).toMatchObject({ channelType: 'whatsapp', guestId, reservationId });
+    const [message] = await db.select().from(messages).where(eq(messages.conversationId, conversation!.id));
+    expect(message).toMatchObject({ direction: 'outbound', senderType: 'system', deliveryStatus: 'sent' });
+
+    const log = await guestJourneyService.getSendsForReservation(reservationId);
+    expect(log).toEqual([
+      expect.objectContaining({ stepId: step.id, stepName: 'Pre-arrival welcome', status: 'sent', channel: 'whatsapp' }),
+    ]);
+  });
+
+  it('falls back to the property language and to email with a subject', async () => {
+    await preArrivalStep({ subject: 'Your stay at {{hotelName}}' });
+    const guestId = await addGuest({ phone: null, language: 'de' });
+    await addReservation(guestId);
+
+    await guestJourneyService.runDue(AT);
+
+    expect(emailSend).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channelId: 'marie@example.com',
+        content: 'Hi Marie, see you on 2026-06-12 at Hôtel Lumière!',
+        metadata: expect.objectContaining({ subject: 'Your stay at Hôtel Lumière' }),
+      })
+    );
+    // The guest's reply threads back into the journey conversation
+    const [conversation] = await db.select().from(conversations);
+    expect(emailInboundService.getThread(conversation!)).toEqual({
+      subject: 'Your stay at Hôtel Lumière',
+      messageIds: ['<journey-1@hotel.com>'],
+    });
+  });
+
+  it('holds messages during quiet hours and before the step send time', async () => {
+    await preArrivalStep({ sendTime: '11:00' });
+    const guestId = await addGuest();
+    await addReservation(guestId);
+
+    // 22:30 Paris
+    const quiet = await guestJourneyService.runDue(new Date('2026-06-10T20:30:00Z'));
+    // 10:30 Paris, step sends at 11:00
+    const early = await guestJourneyService.runDue(AT);
+
+    expect(quiet.quietHours).toBe(true);
+    expect(early.sent).toBe(0);
+    expect(whatsappSend).not.toHaveBeenCalled();
+    expect(await db.select().from(journeySends)).toHaveLength(0);
+  });
+
+  it('logs a skip for opted-out guests and guests with no reachable channel', async () => {
+    await preArrivalStep({ channel: 'sms' });
+    const optedOut = await addReservation(await addGuest({ journeyOptOut: true }));
+    const noSms = await addReservation(await addGuest({ email: 'other@example.com', phone: '+33698765432' }));
+
+    const result = await guestJourneyService.runDue(AT);
+
+    expect(result).toMatchObject({ sent: 0, skipped: 2 });
+    expect((await guestJourneyService.getSendsForReservation(optedOut))[0]).toMatchObject({ status: 'skipped', reason: 'opted_out' });
+    expect((await guestJourneyService.getSendsForReservation(noSms))[0]).toMatchObject({ status: 'skipped', reason: 'no_contact' });
+    expect(whatsappSend).not.toHaveBeenCalled();
+  });
+
+  it('waits for check-in before sending an in-stay step', async () => {
+    await guestJourneyService.createStep({
+      name: 'Morning after check-in',
+      anchor: 'arrival',
+      offsetDays: 1,
+      sendTime: '09:00',
+      channel: 'whatsapp',
+      templates: { en: 'Good morning {{firstName}}, how was your first night?' },
+    });
+    const reservationId = await addReservation(await addGuest(), { arrivalDate: '2026-06-09' });
+
+    expect((await guestJourneyService.runDue(AT)).sent).toBe(0);
+
+    await db.update(reservations).set({ status: 'checked_in' }).where(eq(reservations.id, reservationId));
+    expect((await guestJourneyService.runDue(AT)).sent).toBe(1);
+  });
+
+  it('leaves a failed first attempt to the outbound queue and does not fire the step again', async () => {
+    whatsappSend.mockResolvedValue({ status: 'failed', error: 'Template not approved' });
+    const step = await preArrivalStep({ channel: 'whatsapp' });
+    const reservationId = await addReservation(await addGuest());
+
+    expect((await guestJourneyService.runDue(AT)).sent).toBe(1);
+    expect(await guestJourneyService.runDue(AT)).toMatchObject({ sent: 0, failed: 0 });
+
+    const [send] = await guestJourneyService.getSendsForReservation(reservationId);
+    expect(send).toMatchObject({ status: 'sent', reason: 'Template not approved' });
+    const [item] = await db.select().from(outboundQueue);
+    expect(item).toMatchObject({ status: 'pending', idempotencyKey: `journey:${step.id}:${reservationId}` });
+    const [message] = await db.select().from(messages);
+    expect(message!.deliveryStatus).toBe('pending');
+  });
+
+  it('marks the message failed when it cannot be queued', async () => {
+    vi.spyOn(outboundQueueService, 'enqueue').mockRejectedValueOnce(new Error('database is locked'));
+    await preArrivalStep({ channel: 'whatsapp' });
+    const reservationId = await addReservation(await addGuest());
+
+    expect((await guestJourneyService.runDue(AT)).failed).toBe(1);
+
+    const [message] = await db.select().from(messages);
+    expect(message).toMatchObject({ deliveryStatus: 'failed', deliveryError: 'database is locked' });
+    expect((await guestJourneyService.getSendsForReservation(reservationId))[0]).toMatchObject({
+      status: 'failed',
+      reason: 'database is locked',
+      conversationId: message!.conversationId,
+    });
+    expect(whatsappSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Guest Merge Service Tests
+ *
+ * Covers src/services/guest-merge.ts: finding duplicate candidates, merging
+ * a duplicate into the kept profile (related records, memories, profile
+ * fields, audit record) and undoing a merge.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { AIProvider } from '@jackthebutler/shared';
+
+let aiProvider: AIProvider | undefined;
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getActiveAIProvider: () => aiProvider,
+    getEmbeddingProvider: () => aiProvider,
+  }),
+}));
+
+import { db, auditLog, conversations, guestMemories, guests, messages, reservations, tasks } from '@/db/index.js';
+import { ConflictError, NotFoundError, ValidationError } from '@/errors/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { guestMergeService } from '@/services/guest-merge.js';
+import { MemoryService } from '@/services/memory.js';
+import { taskService } from '@/services/task.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+
+async function guest(values: Partial<typeof guests.$inferInsert> = {}) {
+  const id = generateId('guest');
+  await db.insert(guests).values({ id, firstName: 'John', lastName: 'Smith', createdAt: now(), updatedAt: now(), ...values });
+  return id;
+}
+
+async function stay(guestId: string, arrivalDate: string, departureDate: string) {
+  const id = generateId('reservation');
+  await db.insert(reservations).values({
+    id,
+    guestId,
+    confirmationNumber: `GM-${id}`,
+    roomType: 'Deluxe King',
+    arrivalDate,
+    departureDate,
+    status: 'confirmed',
+    createdAt: now(),
+    updatedAt: now(),
+  });
+  return id;
+}
+
+async function memory(guestId: string, content: string, category: 'preference' | 'habit' = 'preference') {
+  const [row] = await new MemoryService().insert(guestId, null, [{ category, content, confidence: 0.6 }], 'manual');
+  return row!;
+}
+
+function pairOf(candidates: Awaited<ReturnType<typeof guestMergeService.findCandidates>>, a: string, b: string) {
+  return candidates.find((c) => c.guests.some((g) => g.id === a) && c.guests.some((g) => g.id === b));
+}
+
+describe('Guest merge', () => {
+  beforeEach(async () => {
+    aiProvider = undefined;
+    await db.delete(auditLog);
+    await db.delete(guestMemories);
+    await db.delete(tasks);
+    await db.delete(messages);
+    await db.delete(conversations);
+    await db.delete(reservations);
+    await db.delete(guests);
+  });
+
+  describe('findCandidates', () => {
+    it('pairs guests by phone format, email case and PMS ID', async () => {
+      const byPhone = await guest({ phone: '+14155551234' });
+      const byPhoneToo = await guest({ firstName: 'Guest', lastName: '1234', phone: '(415) 555-1234' });
+      const byEmail = await guest({ firstName: 'Maria', lastName: 'Garcia', email: 'maria@example.com' });
+      const byEmailToo = await guest({ firstName: 'Maria', lastName: 'G.', email: 'Maria@Example.com' });
+      const byPms = await guest({ firstName: 'Ana', lastName: 'Lee', externalIds: '{"mews":"cust-1"}' });
+      const byPmsToo = await guest({ firstName: 'Anna', lastName: 'Lee', externalIds: '{"mews":"cust-1"}' });
+
+      const candidates = await guestMergeService.findCandidates();
+
+      expect(pairOf(candidates, byPhone, byPhoneToo)?.reasons).toEqual(['phone']);
+      expect(pairOf(candidates, byEmail, byEmailToo)?.reasons).toEqual(['email']);
+      expect(pairOf(candidates, byPms, byPmsToo)?.reasons).toEqual(['external_id']);
+      expect(candidates).toHaveLength(3);
+      expect(candidates[0]!.reasons).toEqual(['external_id']);
+    });
+
+    it('pairs guests with the same name only when their stays overlap', async () => {
+      const first = await guest();
+      const second = await guest({ firstName: 'john', lastName: 'SMITH' });
+      const third = await guest();
+      await stay(first, '2026-03-01', '2026-03-05');
+      await stay(first, '2026-05-01', '2026-05-03');
+      await stay(second, '2026-03-04', '2026-03-06');
+      await stay(third, '2026-04-01', '2026-04-03');
+
+      const candidates = await guestMergeService.findCandidates();
+
+      expect(candidates).toHaveLength(1);
+      // The guest with more stays comes first as the profile to keep
+      expect(candidates[0]!.guests.map((g) => g.id)).toEqual([first, second]);
+      expect(candidates[0]!.guests[0]!._counts.reservations).toBe(2);
+      expect(candidates[0]!.reasons).toEqual(['name_and_stay']);
+    });
+
+    it('skips anonymized guests', async () => {
+      await guest({ email: 'john@example.com' });
+      await guest({ firstName: 'Deleted', lastName: 'Guest', email: 'JOHN@example.com', tags: '["deleted"]' });
+
+      expect(await guestMergeService.findCandidates()).toEqual([]);
+    });
+  });
+
+  describe('merge', () => {
+    it('moves conversations, tasks, reservations and memories to the kept guest', async () => {
+      const target = await guest({ email: 'john@example.com', stayCount: 2, totalRevenue: 800, tags: '["vip"]' });
+      const source = await guest({
+        firstName: 'Guest',
+        lastName: '1234',
+        phone: '+14155551234',
+        stayCount: 1,
+        totalRevenue: 300,
+        tags: '["business"]',
+        externalIds: '{"mews":"cust-1"}',
+      });
+      const reservationId = await stay(source, '2026-03-01', '2026-03-05');
+      const conversation = await conversationService.findOrCreate('whatsapp', '+14155551234', source);
+      await taskService.create({ conversationId: conversation.id, type: 'housekeeping', department: 'housekeeping', description: 'Extra towels' });
+      const kept = await memory(target, 'Prefers a quiet room');
+      await memory(source, '  prefers a QUIET room ');
+      const moved = await memory(source, 'Runs every morning', 'habit');
+
+      const { guest: merged, merge } = await guestMergeService.merge(target, source, 'staff-1');
+
+      expect(merged).toMatchObject({
+        id: target,
+        firstName: 'John',
+        email: 'john@example.com',
+        phone: '+14155551234',
+        stayCount: 3,
+        totalRevenue: 1100,
+        tags: ['vip', 'business'],
+        externalIds: { mews: 'cust-1' },
+      });
+      expect(merge).toMatchObject({
+        targetId: target,
+        sourceId: source,
+        sourceName: 'Guest 1234',
+        mergedBy: 'staff-1',
+        counts: { conversations: 1, reservations: 1, tasks: 1, memories: 2 },
+        undoneAt: null,
+      });
+
+      expect(await db.select().from(guests).where(eq(guests.id, source))).toEqual([]);
+      expect((await conversationService.findById(conversation.id))!.guestId).toBe(target);
+      const [reservation] = await db.select().from(reservations).where(eq(reservations.id, reservationId));
+      expect(reservation!.guestId).toBe(target);
+
+      const memories = await new MemoryService().listForGuest(target);
+      expect(memories.map((m) => m.id).sort()).toEqual([kept.id, moved.id].sort());
+
+      const [entry] = await db.select().from(auditLog).where(eq(auditLog.action, 'guest_merged'));
+      expect(entry).toMatchObject({ id: merge.id, actorType: 'user', actorId: 'staff-1', resourceId: target });
+    });
+
+    it('takes the real name over a phone placeholder', async () => {
+      const target = await guest({ firstName: 'Guest', lastName: '1234', phone: '+14155551234' });
+      const source = await guest({ firstName: 'Maria', lastName: 'Garcia' });
+
+      const { guest: merged } = await guestMergeService.merge(target, source);
+
+      expect(merged).toMatchObject({ firstName: 'Maria', lastName: 'Garcia', phone: '+14155551234' });
+    });
+
+    it('drops memories the AI says confirm an existing one', async () => {
+      const vector = Array.from({ length: 8 }, (_, i) => (i + 1) * 0.1);
+      aiProvider = {
+        name: 'mock',
+        complete: vi.fn().mockResolvedValue({ content: 'CONFIRMS', usage: { inputTokens: 5, outputTokens: 1 } }),
+        embed: vi.fn().mockResolvedValue({ embedding: vector, usage: { inputTokens: 5, outputTokens: 0 } }),
+      };
+      const target = await guest();
+      const source = await guest({ firstName: 'Johnny' });
+      const kept = await memory(target, 'Likes a quiet room');
+      const dropped = await memory(source, 'Wants a room away from the lift');
+      const service = new MemoryService();
+      await service.updateEmbedding(kept.id, vector);
+      await service.updateEmbedding(dropped.id, vector);
+
+      const { merge } = await guestMergeService.merge(target, source);
+
+      expect(merge.counts.memories).toBe(1);
+      const memories = await service.listForGuest(target);
+      expect(memories).toHaveLength(1);
+      expect(memories[0]).toMatchObject({ id: kept.id, content: 'Likes a quiet room' });
+    });
+
+    it('rejects merging a guest into itself or an unknown guest', async () => {
+      const id = await guest();
+
+      await expect(guestMergeService.merge(id, id)).rejects.toThrow(ValidationError);
+      await expect(guestMergeService.merge(id, 'gst_missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('undo', () => {
+    it('recreates the merged guest and moves its records back', async () => {
+      const target = await guest({ stayCount: 2, tags: '["vip"]' });
+      const source = await guest({ firstName: 'Johnny', email: 'johnny@example.com', stayCount: 1, tags: '["business"]' });
+      const reservationId = await stay(source, '2026-03-01', '2026-03-05');
+      const conversation = await conversationService.findOrCreate('email', 'johnny@example.com', source);
+      const kept = await memory(target, 'Prefers a quiet room');
+      const dropped = await memory(source, 'Prefers a quiet room');
+      const moved = await memory(source, 'Runs every morning', 'habit');
+      const { merge } = await guestMergeService.merge(target, source);
+
+      const restored = await guestMergeService.undo(merge.id, 'staff-1');
+
+      expect(restored).toMatchObject({ id: source, firstName: 'Johnny', email: 'johnny@example.com', stayCount: 1 });
+      const [targetRow] = await db.select().from(guests).where(eq(guests.id, target));
+      expect(targetRow).toMatchObject({ email: null, stayCount: 2, tags: '["vip"]' });
+      expect((await conversationService.findById(conversation.id))!.guestId).toBe(source);
+      const [reservation] = await db.select().from(reservations).where(eq(reservations.id, reservationId));
+      expect(reservation!.guestId).toBe(source);
+
+      const memories = new MemoryService();
+      expect((await memories.listForGuest(source)).map((m) => m.id).sort()).toEqual([dropped.id, moved.id].sort());
+      expect(await memories.getById(kept.id)).toMatchObject({ guestId: target, confidence: kept.confidence });
+
+      const [listed] = await guestMergeService.listMerges();
+      expect(listed).toMatchObject({ id: merge.id, undoneAt: expect.any(String) });
+    });
+
+    it('keeps changes made to the kept guest after the merge', async () => {
+      const target = await guest();
+      const source = await guest({ firstName: 'Johnny', notes: 'Allergic to nuts' });
+      const { merge } = await guestMergeService.merge(target, source);
+      await db.update(guests).set({ notes: 'Edited by staff' }).where(eq(guests.id, target));
+
+      await guestMergeService.undo(merge.id);
+
+      const [targetRow] = await db.select().from(guests).where(eq(guests.id, target));
+      expect(targetRow!.notes).toBe('Edited by staff');
+    });
+
+    it('undoes a merge only once', async () => {
+      const target = await guest();
+      const source = await guest({ firstName: 'Johnny' });
+      const { merge } = await guestMergeService.merge(target, source);
+      await guestMergeService.undo(merge.id);
+
+      await expect(guestMergeService.undo(merge.id)).rejects.toThrow(ConflictError);
+      await expect(guestMergeService.undo('missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('refuses when another guest has taken the email since', async () => {
+      const target = await guest({ email: 'john@example.com' });
+      const source = await guest({ firstName: 'Johnny', email: 'johnny@example.com' });
+      const { merge } = await guestMergeService.merge(target, source);
+      await guest({ firstName: 'Other', email: 'johnny@example.com' });
+
+      await expect(guestMergeService.undo(merge.id)).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Handoff Summary Service Tests
+ *
+ * Covers src/services/handoff-summary.ts: writing the staff handoff note
+ * from a conversation and its open tasks, refreshing it on escalation and
+ * after shift changes, and appending it to tasks created by `routeTask`.
+ * The AI provider is mocked.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+
+const mockComplete = vi.fn();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getActiveAIProvider: () => ({ name: 'mock', complete: mockComplete }),
+    getEmbeddingProvider: () => undefined,
+  }),
+}));
+
+import { db, conversations, tasks } from '@/db/index.js';
+import { AppError } from '@/errors/index.js';
+import { routeTask } from '@/pipeline/stages/route-task.js';
+import type { ButlerContext } from '@/pipeline/context.js';
+import { conversationService } from '@/services/conversation.js';
+import {
+  HandoffSummaryService,
+  handoffSummaryService,
+  subscribeHandoffSummariesToEvents,
+} from '@/services/handoff-summary.js';
+import { hotelProfileService } from '@/services/hotel-profile.js';
+import { settingsService } from '@/services/settings.js';
+import { taskService } from '@/services/task.js';
+import type { CompletionRequest } from '@jackthebutler/shared';
+import type { Env } from '@thebutler/pipeline';
+
+const SUMMARY = {
+  guestWants: 'A quiet room away from the lift after a noisy first night.',
+  promised: ['Room move before 6pm', 'Complimentary breakfast tomorrow'],
+};
+
+function respond(content: unknown = SUMMARY) {
+  mockComplete.mockResolvedValue({ content: typeof content === 'string' ? content : JSON.stringify(content) });
+}
+
+async function conversation(channelId: string, state: 'active' | 'escalated' = 'active') {
+  const conv = await conversationService.findOrCreate('webchat', channelId);
+  await conversationService.addMessage(conv.id, {
+    direction: 'inbound',
+    senderType: 'guest',
+    content: 'La chambre est trop bruyante',
+    translatedContent: 'The room is too noisy',
+    contentType: 'text',
+  });
+  await conversationService.addMessage(conv.id, {
+    direction: 'outbound',
+    senderType: 'staff',
+    content: 'We will move you before 6pm.',
+    contentType: 'text',
+  });
+  if (state === 'escalated') {
+    await db.update(conversations).set({ state }).where(eq(conversations.id, conv.id));
+  }
+  return conv.id;
+}
+
+async function summaryTrigger(conversationId: string) {
+  return (await handoffSummaryService.get(conversationId))?.trigger ?? null;
+}
+
+describe('HandoffSummaryService', () => {
+  let service: HandoffSummaryService;
+
+  beforeEach(async () => {
+    service = new HandoffSummaryService();
+    vi.clearAllMocks();
+    respond();
+    await settingsService.set('hotel_profile', {
+      name: 'Hôtel Lumière',
+      timezone: 'Europe/Paris',
+      currency: 'EUR',
+      propertyLanguage: 'en',
+      checkInTime: '15:00',
+      checkOutTime: '11:00',
+      shiftChangeTimes: ['07:00', '19:00'],
+    });
+  });
+
+  describe('refresh', () => {
+    it('summarizes the conversation and lists its open tasks', async () => {
+      const conversationId = await conversation('handoff-refresh-1');
+      await taskService.create({ conversationId, type: 'housekeeping', department: 'housekeeping', roomNumber: '412', description: 'Prepare room 508 for move' });
+      const done = await taskService.create({ conversationId, type: 'other', department: 'front_desk', description: 'Call guest back' });
+      await db.update(tasks).set({ status: 'completed' }).where(eq(tasks.id, done.id));
+
+      const summary = await service.refresh(conversationId, 'manual');
+
+      const [request] = mockComplete.mock.calls[0] as [CompletionRequest];
+      expect(request.purpose).toBe('handoff_summary');
+      expect(request.messages[1]!.content).toContain('Guest: The room is too noisy');
+      expect(request.messages[1]!.content).toContain('Staff: We will move you before 6pm.');
+      expect(summary).toMatchObject({
+        ...SUMMARY,
+        openTasks: ['Prepare room 508 for move (housekeeping, room 412, pending)'],
+        trigger: 'manual',
+      });
+
+      const details = await conversationService.getDetails(conversationId);
+      expect(details.handoffSummary).toEqual(summary);
+    });
+
+    it('keeps the previous summary when the AI returns nothing usable', async () => {
+      const conversationId = await conversation('handoff-refresh-2');
+      await service.refresh(conversationId, 'manual');
+      respond('```json\n{"promised": []}\n```');
+
+      await expect(service.refresh(conversationId, 'escalation')).rejects.toThrow(AppError);
+      expect(await summaryTrigger(conversationId)).toBe('manual');
+    });
+  });
+
+  describe('escalation', () => {
+    beforeAll(() => {
+      subscribeHandoffSummariesToEvents();
+    });
+
+    it('summarizes a conversation when it is escalated', async () => {
+      const conversationId = await conversation('handoff-escalate-1');
+
+      await conversationService.update(conversationId, { state: 'escalated' });
+
+      await vi.waitFor(async () => expect(await summaryTrigger(conversationId)).toBe('escalation'));
+    });
+  });
+
+  describe('runShiftHandoff', () => {
+    // 10:00 in Paris; the last shift change was 07:00 local (06:00 UTC)
+    const AT = new Date('2026-03-10T09:00:00.000Z');
+
+    async function setSummary(conversationId: string, summarizedAt: string, lastMessageAt: string) {
+      await db
+        .update(conversations)
+        .set({ handoffSummary: JSON.stringify({ ...SUMMARY, openTasks: [], trigger: 'escalation', updatedAt: summarizedAt }), handoffSummaryAt: summarizedAt, lastMessageAt })
+        .where(eq(conversations.id, conversationId));
+    }
+
+    it('refreshes escalated conversations with news since the last shift change', async () => {
+      const unsummarized = await conversation('handoff-shift-1', 'escalated');
+      const moved = await conversation('handoff-shift-2', 'escalated');
+      await setSummary(moved, '2026-03-10T05:00:00.000Z', '2026-03-10T05:30:00.000Z');
+      const quiet = await conversation('handoff-shift-3', 'escalated');
+      await setSummary(quiet, '2026-03-10T05:00:00.000Z', '2026-03-10T04:00:00.000Z');
+      const fresh = await conversation('handoff-shift-4', 'escalated');
+      await setSummary(fresh, '2026-03-10T06:30:00.000Z', '2026-03-10T06:45:00.000Z');
+      const active = await conversation('handoff-shift-5');
+
+      const result = await service.runShiftHandoff(AT);
+
+      expect(result.shiftChange).toBe('2026-03-10T06:00:00.000Z');
+      expect(result.failed).toBe(0);
+      expect(await summaryTrigger(unsummarized)).toBe('shift_change');
+      expect(await summaryTrigger(moved)).toBe('shift_change');
+      expect(await summaryTrigger(quiet)).toBe('escalation');
+      expect(await summaryTrigger(fresh)).toBe('escalation');
+      expect(await summaryTrigger(active)).toBeNull();
+    });
+
+    it('does nothing when no shift changes are configured', async () => {
+      const { profile } = await hotelProfileService.getProfile();
+      await settingsService.set('hotel_profile', { ...profile, shiftChangeTimes: [] });
+      const conversationId = await conversation('handoff-shift-6', 'escalated');
+
+      expect(await service.runShiftHandoff(AT)).toEqual({ shiftChange: null, refreshed: 0, failed: 0 });
+      expect(await summaryTrigger(conversationId)).toBeNull();
+    });
+  });
+
+  describe('routeTask', () => {
+    const env = {
+      intents: new Map([
+        ['request.housekeeping', { description: 'Housekeeping request', metadata: { requiresAction: true, department: 'housekeeping' } }],
+      ]),
+    } as unknown as Env;
+
+    async function route(conversationId: string) {
+      const ctx = {
+        conversation: { id: conversationId },
+        classification: { intent: 'request.housekeeping', confidence: 0.9 },
+        entity: null,
+      } as unknown as ButlerContext;
+      await routeTask(ctx, env);
+      const [task] = await db.select().from(tasks).where(eq(tasks.id, ctx.taskId!));
+      return task!;
+    }
+
+    it('appends the handoff summary to the task description', async () => {
+      const conversationId = await conversation('handoff-route-1');
+      await service.refresh(conversationId, 'manual');
+
+      const task = await route(conversationId);
+
+      expect(task.description).toBe(
+        'Housekeeping request\n\nHandoff summary:\n' +
+          `Guest wants: ${SUMMARY.guestWants}\n` +
+          'Promised: Room move before 6pm; Complimentary breakfast tomorrow'
+      );
+    });
+
+    it('leaves the description alone without a summary', async () => {
+      const conversationId = await conversation('handoff-route-2');
+      expect((await route(conversationId)).description).toBe('Housekeeping request');
+    });
+  });
+});
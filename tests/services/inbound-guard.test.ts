@@ -0,0 +1,184 @@
+/**
+ * Inbound Guard Service Tests
+ *
+ * Covers src/services/inbound-guard.ts: dropping messages from blocked
+ * guests, holding floods of identical messages and messages over the
+ * per-sender and per-channel rate limits, and sending a sender to staff
+ * once their daily AI reply budget is spent. Also covers blocking a guest
+ * through GuestService.updateGuest.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { db, conversations, guests, messages } from '@/db/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { guestService } from '@/services/guest.js';
+import { InboundGuardService, type InboundLimitSettings } from '@/services/inbound-guard.js';
+import type { InboundMessage } from '@/types/message.js';
+import type { ChannelType } from '@jackthebutler/shared';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+
+const LIMITS: InboundLimitSettings = {
+  enabled: true,
+  perSenderPerMinute: 3,
+  perSenderPerHour: 10,
+  perChannelPerMinute: 0,
+  floodRepeats: 2,
+  dailyAiRepliesPerSender: 2,
+};
+
+function inbound(channel: ChannelType, channelId: string, content = 'Is the pool open?'): InboundMessage {
+  return { id: generateId('message'), channel, channelId, content, contentType: 'text', timestamp: new Date() };
+}
+
+function randomPhone() {
+  return `+4479${String(Math.floor(Math.random() * 1e8)).padStart(8, '0')}`;
+}
+
+/** Seed a sender's conversation with earlier guest messages and AI replies */
+async function history(channel: ChannelType, channelId: string, guestMessages: string[], aiReplies = 0) {
+  const conversation = await conversationService.findOrCreate(channel, channelId);
+  for (const content of guestMessages) {
+    await conversationService.addMessage(conversation.id, { direction: 'inbound', senderType: 'guest', content, contentType: 'text' });
+  }
+  for (let i = 0; i < aiReplies; i++) {
+    await conversationService.addMessage(conversation.id, { direction: 'outbound', senderType: 'ai', content: `Reply ${i}`, contentType: 'text' });
+  }
+  return conversation.id;
+}
+
+async function inboundCount(conversationId: string) {
+  const rows = await db
+    .select()
+    .from(messages)
+    .where(and(eq(messages.conversationId, conversationId), eq(messages.direction, 'inbound')));
+  return rows.length;
+}
+
+async function blockedGuest(phone: string | null) {
+  const id = generateId('guest');
+  await db.insert(guests).values({
+    id,
+    firstName: 'Spam',
+    lastName: 'Sender',
+    phone,
+    blockedAt: now(),
+    blockedReason: 'Abusive messages',
+    createdAt: now(),
+    updatedAt: now(),
+  });
+  return id;
+}
+
+describe('InboundGuardService', () => {
+  let service: InboundGuardService;
+
+  beforeEach(async () => {
+    service = new InboundGuardService();
+    await service.updateSettings(LIMITS);
+  });
+
+  describe('settings', () => {
+    it('merges stored limits over the defaults', async () => {
+      await service.updateSettings({ perSenderPerMinute: 12 });
+      expect(await service.getSettings()).toEqual({ ...LIMITS, perSenderPerMinute: 12 });
+    });
+  });
+
+  describe('block list', () => {
+    it('drops messages from a blocked guest by phone, even with limits off', async () => {
+      const phone = randomPhone();
+      await blockedGuest(phone);
+      await service.updateSettings({ enabled: false });
+
+      expect(await service.admit(inbound('whatsapp', phone))).toEqual({ action: 'drop', reason: 'blocked' });
+      const stored = await db.select().from(conversations).where(eq(conversations.channelId, phone));
+      expect(stored).toHaveLength(0);
+    });
+
+    it('drops messages from a blocked guest linked to the conversation', async () => {
+      const guestId = await blockedGuest(null);
+      const conversation = await conversationService.findOrCreate('telegram', '700001', guestId);
+
+      expect(await service.admit(inbound('telegram', '700001'))).toEqual({ action: 'drop', reason: 'blocked' });
+      expect(await inboundCount(conversation.id)).toBe(0);
+    });
+  });
+
+  describe('limits', () => {
+    it('lets ordinary messages through', async () => {
+      const phone = randomPhone();
+      await history('sms', phone, ['Hello'], 1);
+
+      expect(await service.admit(inbound('sms', phone))).toEqual({ action: 'process' });
+    });
+
+    it('holds repeats of the same message for staff', async () => {
+      const phone = randomPhone();
+      const conversationId = await history('sms', phone, ['WIN A PRIZE', 'WIN A PRIZE']);
+
+      const admission = await service.admit(inbound('sms', phone, 'WIN A PRIZE'));
+
+      expect(admission).toMatchObject({ action: 'hold', reason: 'flood', conversationId });
+      expect(await inboundCount(conversationId)).toBe(3);
+    });
+
+    it('holds messages over the per-sender limit for staff', async () => {
+      const phone = randomPhone();
+      const conversationId = await history('whatsapp', phone, ['one', 'two', 'three']);
+
+      const admission = await service.admit(inbound('whatsapp', phone, 'four'));
+
+      expect(admission).toMatchObject({ action: 'hold', reason: 'sender_rate', conversationId });
+      expect(await inboundCount(conversationId)).toBe(4);
+      expect((await conversationService.getById(conversationId)).state).toBe('active');
+    });
+
+    it('holds messages over the channel limit', async () => {
+      await service.updateSettings({ perChannelPerMinute: 2 });
+      await history('telegram', '700101', ['hi']);
+      await history('telegram', '700102', ['hello']);
+
+      expect(await service.admit(inbound('telegram', '700103'))).toMatchObject({ action: 'hold', reason: 'channel_rate' });
+    });
+
+    it('sends the sender to staff once the daily AI budget is spent', async () => {
+      const phone = randomPhone();
+      const conversationId = await history('whatsapp', phone, ['Hi'], 2);
+
+      const admission = await service.admit(inbound('whatsapp', phone));
+
+      expect(admission).toMatchObject({ action: 'hold', reason: 'ai_budget', conversationId });
+      expect(await inboundCount(conversationId)).toBe(2);
+      expect((await conversationService.getById(conversationId)).state).toBe('escalated');
+    });
+
+    it('skips rate checks when limits are off or set to 0', async () => {
+      const phone = randomPhone();
+      await history('whatsapp', phone, ['one', 'two', 'three'], 2);
+
+      await service.updateSettings({ perSenderPerMinute: 0, dailyAiRepliesPerSender: 0 });
+      expect(await service.admit(inbound('whatsapp', phone))).toEqual({ action: 'process' });
+
+      await service.updateSettings({ ...LIMITS, enabled: false });
+      expect(await service.admit(inbound('whatsapp', phone))).toEqual({ action: 'process' });
+    });
+  });
+
+  describe('blocking from the guest profile', () => {
+    it('records when a guest was blocked and clears it on unblock', async () => {
+      const guest = await guestService.createGuest({ firstName: 'Ada', lastName: 'Byron', phone: randomPhone(), language: 'en' });
+
+      const blocked = await guestService.updateGuest(guest.id, { blocked: true, blockedReason: 'Threats to staff' });
+      expect(blocked.blockedAt).toBeTruthy();
+      expect(blocked.blockedReason).toBe('Threats to staff');
+
+      const again = await guestService.updateGuest(guest.id, { blocked: true });
+      expect(again.blockedAt).toBe(blocked.blockedAt);
+
+      const unblocked = await guestService.updateGuest(guest.id, { blocked: false });
+      expect(unblocked).toMatchObject({ blockedAt: null, blockedReason: null });
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Knowledge Document Tests
+ *
+ * Covers src/services/knowledge-documents.ts: text extraction per format,
+ * heading-aware chunking, and re-import replacing a document's old entries.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { eq, like } from 'drizzle-orm';
+import { db, knowledgeBase } from '@/db/index.js';
+import {
+  knowledgeDocumentService,
+  chunkDocumentSections,
+  detectDocumentFormat,
+  documentSourceRef,
+  extractDocumentSections,
+  parseCsv,
+} from '@/services/knowledge-documents.js';
+import { ValidationError } from '@/errors/index.js';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Build a single-page PDF with one line of text per entry
+ */
+function buildPdf(lines: string[]): Uint8Array {
+  const stream = ['BT', '/F1 12 Tf', '72 720 Td', '14 TL']
+    .concat(lines.map((line) => `(${line}) Tj T*`))
+    .concat('ET')
+    .join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return encode(pdf);
+}
+
+describe('knowledge documents', () => {
+  afterEach(async () => {
+    await db.delete(knowledgeBase).where(like(knowledgeBase.sourceUrl, 'document:%'));
+  });
+
+  describe('detectDocumentFormat', () => {
+    it('should detect by extension, then MIME type', () => {
+      expect(detectDocumentFormat('Menu.PDF')).toBe('pdf');
+      expect(detectDocumentFormat('rules.docx')).toBe('docx');
+      expect(detectDocumentFormat('faq.md')).toBe('markdown');
+      expect(detectDocumentFormat('prices', 'text/csv; charset=utf-8')).toBe('csv');
+      expect(detectDocumentFormat('photo.png', 'image/png')).toBeNull();
+    });
+  });
+
+  describe('extractDocumentSections', () => {
+    it('should keep the markdown heading trail', async () => {
+      const sections = await extractDocumentSections(
+        encode('Intro text\n\n# House Rules\n\n## Pool\nOpen 7am to 10pm.\n\n## Quiet Hours\nFrom 11pm.\n\n# Spa\nBook ahead.'),
+        'markdown'
+      );
+
+      expect(sections).toEqual([
+        { headings: [], text: 'Intro text' },
+        { headings: ['House Rules', 'Pool'], text: 'Open 7am to 10pm.' },
+        { headings: ['House Rules', 'Quiet Hours'], text: 'From 11pm.' },
+        { headings: ['Spa'], text: 'Book ahead.' },
+      ]);
+    });
+
+    it('should turn CSV rows into labelled lines', async () => {
+      const sections = await extractDocumentSections(
+        encode('Treatment,Duration,Price\n"Massage, Swedish",60 min,120\nFacial,45 min,\n'),
+        'csv'
+      );
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0]!.text).toBe(
+        'Treatment: Massage, Swedish; Duration: 60 min; Price: 120\n\nTreatment: Facial; Duration: 45 min'
+      );
+    });
+
+    it('should extract PDF text and treat all-caps lines as headings', async () => {
+      const sections = await extractDocumentSections(
+        buildPdf(['BREAKFAST', 'Served 7am to 10:30am in the Garden Room.', 'ROOM SERVICE', 'Available 24 hours.']),
+        'pdf'
+      );
+
+      expect(sections.map((s) => s.headings)).toEqual([['BREAKFAST'], ['ROOM SERVICE']]);
+      expect(sections[0]!.text).toContain('Garden Room');
+      expect(sections[1]!.text).toContain('24 hours');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted fields, escaped quotes and CRLF', () => {
+      expect(parseCsv('a,"b ""x"", c"\r\n1,2')).toEqual([
+        ['a', 'b "x", c'],
+        ['1', '2'],
+      ]);
+    });
+  });
+
+  describe('chunkDocumentSections', () => {
+    it('should title chunks by heading trail and fall back to the document title', () => {
+      const chunks = chunkDocumentSections(
+        [
+          { headings: [], text: 'Welcome.' },
+          { headings: ['House Rules', 'Pool'], text: 'Open 7am.' },
+        ],
+        'Guest handbook'
+      );
+
+      expect(chunks).toEqual([
+        { title: 'Guest handbook', content: 'Welcome.', keywords: [] },
+        { title: 'House Rules › Pool', content: 'Open 7am.', keywords: ['house rules', 'pool'] },
+      ]);
+    });
+
+    it('should split long sections on paragraph boundaries and number the parts', () => {
+      const paragraph = 'The spa offers a range of treatments. '.repeat(20).trim();
+      const chunks = chunkDocumentSections([{ headings: ['Spa'], text: [paragraph, paragraph, paragraph].join('\n\n') }], 'x');
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0]!.title).toBe(`Spa (1/${chunks.length})`);
+      expect(chunks.every((c) => c.content.length <= 1500)).toBe(true);
+      expect(chunks.map((c) => c.content).join('\n\n')).toBe([paragraph, paragraph, paragraph].join('\n\n'));
+    });
+  });
+
+  describe('parse', () => {
+    it('should propose entries without writing to the knowledge base', async () => {
+      const result = await knowledgeDocumentService.parse(
+        { filename: 'house-rules.md', data: encode('# Pool\nOpen 7am.\n\n# Gym\nOpen 24h.') },
+        { category: 'policy' }
+      );
+
+      expect(result.document).toEqual({ filename: 'house-rules.md', format: 'markdown', sourceRef: 'document:house-rules.md' });
+      expect(result.entries.map((e) => [e.title, e.category])).toEqual([
+        ['Pool', 'policy'],
+        ['Gym', 'policy'],
+      ]);
+      expect(result.existingEntryCount).toBe(0);
+
+      const stored = await db.select().from(knowledgeBase).where(eq(knowledgeBase.sourceUrl, 'document:house-rules.md'));
+      expect(stored).toHaveLength(0);
+    });
+
+    it('should reject unsupported and empty documents', async () => {
+      await expect(knowledgeDocumentService.parse({ filename: 'logo.png', data: encode('x') })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(knowledgeDocumentService.parse({ filename: 'empty.md', data: encode('# Only a heading') })).rejects.toThrow(
+        'No text could be extracted'
+      );
+    });
+  });
+
+  describe('importEntries', () => {
+    const sourceRef = documentSourceRef('Spa-Prices.csv');
+
+    it('should store entries with the document reference', async () => {
+      const result = await knowledgeDocumentService.importEntries({
+        sourceRef,
+        entries: [{ category: 'amenity', title: 'Spa prices', content: 'Massage: 120', keywords: ['spa'], priority: 5 }],
+        qaPairs: [{ question: 'How much is a massage?', answer: '120', entryIndex: 0 }],
+      });
+
+      expect(result).toEqual({ imported: 2, replaced: 0 });
+      const stored = await db.select().from(knowledgeBase).where(eq(knowledgeBase.sourceUrl, 'document:spa-prices.csv'));
+      expect(stored.map((e) => e.category).sort()).toEqual(['amenity', 'faq']);
+    });
+
+    it('should replace the entries of a previous upload', async () => {
+      await knowledgeDocumentService.importEntries({
+        sourceRef,
+        entries: [
+          { category: 'amenity', title: 'Spa prices (1/2)', content: 'Massage: 120', keywords: [], priority: 5 },
+          { category: 'amenity', title: 'Spa prices (2/2)', content: 'Facial: 90', keywords: [], priority: 5 },
+        ],
+      });
+
+      const parsed = await knowledgeDocumentService.parse({ filename: 'spa-prices.csv', data: encode('Item,Price\nMassage,130') });
+      expect(parsed.existingEntryCount).toBe(2);
+
+      const result = await knowledgeDocumentService.importEntries({
+        sourceRef,
+        entries: [{ category: 'amenity', title: 'Spa prices', content: 'Massage: 130', keywords: [], priority: 5 }],
+      });
+
+      expect(result).toEqual({ imported: 1, replaced: 2 });
+      const stored = await db.select().from(knowledgeBase).where(eq(knowledgeBase.sourceUrl, sourceRef));
+      expect(stored.map((e) => e.content)).toEqual(['Massage: 130']);
+
+      const documents = await knowledgeDocumentService.listDocuments();
+      expect(documents).toEqual([expect.objectContaining({ sourceRef, filename: 'spa-prices.csv', entryCount: 1 })]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Knowledge Gap Tests
+ *
+ * Covers src/services/knowledge-gaps.ts (recording, clustering, listing,
+ * drafting, status changes) and the `recordKnowledgeGap` pipeline stage
+ * that decides which turns count as gaps.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { Env } from '@thebutler/pipeline';
+import { db, knowledgeGaps, knowledgeGapClusters } from '@/db/index.js';
+import { knowledgeGapService } from '@/services/knowledge-gaps.js';
+import { NotFoundError } from '@/errors/index.js';
+import { intentProvider } from '@/pipeline/intents.js';
+import { extractResponseTags } from '@/pipeline/stages/extract-response-tags.js';
+import { recordKnowledgeGap } from '@/pipeline/stages/record-knowledge-gap.js';
+import type { ButlerContext } from '@/pipeline/context.js';
+
+const SPA_VEC = [0.9, 0.1, 0, 0, 0.2, 0, 0, 0];
+// Close to SPA_VEC — the same question worded differently
+const SPA_PARAPHRASE_VEC = [0.85, 0.15, 0, 0, 0.25, 0, 0, 0];
+const GYM_VEC = [0, 0, 0.9, 0.1, 0, 0, 0.3, 0];
+
+describe('KnowledgeGapService', () => {
+  beforeEach(async () => {
+    await db.delete(knowledgeGaps);
+    await db.delete(knowledgeGapClusters);
+  });
+
+  it('groups similar questions and counts them', async () => {
+    await knowledgeGapService.record({ question: 'Do you have a spa?', reason: 'no_match', intent: 'inquiry.amenity', embedding: SPA_VEC });
+    await knowledgeGapService.record({ question: 'Is there a spa here?', reason: 'unanswered', intent: 'inquiry.amenity', embedding: SPA_PARAPHRASE_VEC });
+    await knowledgeGapService.record({ question: 'Where is the gym?', reason: 'no_match', intent: 'inquiry.amenity', embedding: GYM_VEC });
+
+    expect(await knowledgeGapService.runClustering()).toEqual({ clustered: 3, clustersCreated: 2 });
+
+    const gaps = await knowledgeGapService.listClusters();
+    expect(gaps.map((g) => [g.question, g.gapCount])).toEqual([
+      ['Do you have a spa?', 2],
+      ['Where is the gym?', 1],
+    ]);
+    expect(gaps[0]!.sampleQuestions.sort()).toEqual(['Do you have a spa?', 'Is there a spa here?']);
+
+    const rows = await db.select().from(knowledgeGaps);
+    expect(rows.every((r) => r.clusterId && r.embedding === null)).toBe(true);
+  });
+
+  it('falls back to normalized text when there is no embedding', async () => {
+    await knowledgeGapService.record({ question: 'Is the pool heated?', reason: 'unanswered' });
+    await knowledgeGapService.runClustering();
+    await knowledgeGapService.record({ question: 'is the pool heated', reason: 'unanswered' });
+    await knowledgeGapService.record({ question: 'Is the rooftop open?', reason: 'unanswered' });
+
+    expect(await knowledgeGapService.runClustering()).toEqual({ clustered: 2, clustersCreated: 1 });
+    const gaps = await knowledgeGapService.listClusters();
+    expect(gaps.map((g) => g.gapCount)).toEqual([2, 1]);
+  });
+
+  it('reopens a resolved gap when the question keeps coming', async () => {
+    await knowledgeGapService.record({ question: 'Do you have a spa?', reason: 'no_match', embedding: SPA_VEC });
+    await knowledgeGapService.runClustering();
+    const [gap] = await knowledgeGapService.listClusters();
+    await knowledgeGapService.resolve(gap!.id);
+    expect(await knowledgeGapService.listClusters()).toEqual([]);
+
+    await knowledgeGapService.record({ question: 'Is there a spa here?', reason: 'no_match', embedding: SPA_PARAPHRASE_VEC });
+    await knowledgeGapService.runClustering();
+
+    const [reopened] = await knowledgeGapService.listClusters();
+    expect(reopened).toMatchObject({ id: gap!.id, status: 'open', gapCount: 2 });
+  });
+
+  it('keeps dismissed gaps dismissed', async () => {
+    await knowledgeGapService.record({ question: 'Can I bring my horse?', reason: 'unanswered' });
+    await knowledgeGapService.runClustering();
+    const [gap] = await knowledgeGapService.listClusters();
+    await knowledgeGapService.setStatus(gap!.id, 'dismissed');
+
+    await knowledgeGapService.record({ question: 'Can I bring my horse', reason: 'unanswered' });
+    await knowledgeGapService.runClustering();
+
+    expect(await knowledgeGapService.listClusters()).toEqual([]);
+    const [dismissed] = await knowledgeGapService.listClusters({ status: 'dismissed' });
+    expect(dismissed!.gapCount).toBe(2);
+  });
+
+  it('drafts an entry from the representative question', async () => {
+    await knowledgeGapService.record({ question: 'What time does the rooftop bar open?', reason: 'no_match', intent: 'inquiry.dining' });
+    await knowledgeGapService.runClustering();
+    const [gap] = await knowledgeGapService.listClusters();
+
+    expect(await knowledgeGapService.draftEntry(gap!.id)).toEqual({
+      category: 'dining',
+      title: 'What time does the rooftop bar open?',
+      content: '',
+      keywords: ['time', 'rooftop', 'bar', 'open'],
+      priority: 5,
+    });
+    await expect(knowledgeGapService.draftEntry('kgc_missing')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('recordKnowledgeGap stage', () => {
+  const env = { intents: intentProvider, services: { logger: { warn: vi.fn() } } } as unknown as Env;
+
+  function turn(intent: string, overrides: Partial<ButlerContext> = {}): ButlerContext {
+    return {
+      inbound: { content: 'Do you have a spa?' },
+      classification: { intent, confidence: 0.9 },
+      aiResponse: { content: 'Let me check with the team.' },
+      ...overrides,
+    } as unknown as ButlerContext;
+  }
+
+  async function recordedReasons(): Promise<string[]> {
+    const rows = await db.select().from(knowledgeGaps);
+    return rows.map((r) => r.reason);
+  }
+
+  beforeEach(async () => {
+    await db.delete(knowledgeGaps);
+  });
+
+  it('records an inquiry with no knowledge match above the floor', async () => {
+    const ctx = turn('inquiry.amenity', {
+      knowledgeHits: [{ id: 'kb_1', title: 'Pool', content: 'Open 7am.', similarity: 0.31 }],
+    });
+    await recordKnowledgeGap(ctx, env);
+
+    expect(ctx.knowledgeGap).toBe('no_match');
+    const [row] = await db.select().from(knowledgeGaps);
+    expect(row).toMatchObject({ question: 'Do you have a spa?', intent: 'inquiry.amenity', topSimilarity: 0.31 });
+  });
+
+  it('records a reply the AI tagged [NO_ANSWER], with the tag stripped', async () => {
+    const ctx = turn('unknown', { aiResponse: { content: "I'm not sure, let me ask the team. [NO_ANSWER]" } });
+    await extractResponseTags(ctx, env);
+    await recordKnowledgeGap(ctx, env);
+
+    expect(ctx.aiResponse!.content).toBe("I'm not sure, let me ask the team.");
+    expect(await recordedReasons()).toEqual(['unanswered']);
+  });
+
+  it('skips answered, personal, action and small-talk turns', async () => {
+    const hit = { id: 'kb_1', title: 'Spa', content: 'Open 9am.', similarity: 0.82 };
+    await recordKnowledgeGap(turn('inquiry.amenity', { knowledgeHits: [hit] }), env);
+    await recordKnowledgeGap(turn('inquiry.reservation.status', { knowledgeHits: [] }), env);
+    await recordKnowledgeGap(turn('request.housekeeping.towels', { knowledgeHits: [] }), env);
+    await recordKnowledgeGap(turn('unknown', { knowledgeHits: [] }), env);
+    await recordKnowledgeGap(turn('inquiry.amenity', { knowledgeHits: [], responseCacheHit: { id: 'rc_1', similarity: 1 } }), env);
+
+    expect(await recordedReasons()).toEqual([]);
+  });
+
+  it('stores the translated question', async () => {
+    await recordKnowledgeGap(
+      turn('inquiry.amenity', { inboundTranslation: 'Is there a sauna?', knowledgeHits: [] } as Partial<ButlerContext>),
+      env
+    );
+
+    const rows = await db.select().from(knowledgeGaps).where(eq(knowledgeGaps.reason, 'no_match'));
+    expect(rows.map((r) => r.question)).toEqual(['Is there a sauna?']);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Knowledge Validity Tests
+ *
+ * Covers src/services/knowledge-validity.ts (window and schedule evaluation,
+ * expiry flagging, cache invalidation on day change) and the KnowledgeService
+ * retrieval and update paths that respect it.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, knowledgeBase } from '@/db/index.js';
+import { ValidationError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { KnowledgeService } from '@/services/knowledge.js';
+import { hotelProfileService } from '@/services/hotel-profile.js';
+import { responseCacheService } from '@/services/response-cache.js';
+import {
+  KnowledgeValidityService,
+  validateValidity,
+  validityState,
+} from '@/services/knowledge-validity.js';
+
+const ALWAYS = { validFrom: null, validUntil: null, schedule: null };
+
+async function addEntry(title: string, fields: Partial<typeof ALWAYS> = {}) {
+  return new KnowledgeService().add({
+    category: 'amenity',
+    title,
+    content: `${title} details.`,
+    ...fields,
+  });
+}
+
+describe('validityState', () => {
+  it('places a date relative to the window, inclusive at both ends', () => {
+    const entry = { ...ALWAYS, validFrom: '2026-06-01', validUntil: '2026-06-30' };
+    expect(validityState(entry, '2026-05-31')).toBe('scheduled');
+    expect(validityState(entry, '2026-06-01')).toBe('in_effect');
+    expect(validityState(entry, '2026-06-30')).toBe('in_effect');
+    expect(validityState(entry, '2026-07-01')).toBe('expired');
+  });
+
+  it('applies weekday schedules', () => {
+    const weekends = { ...ALWAYS, schedule: JSON.stringify({ daysOfWeek: [0, 6] }) };
+    expect(validityState(weekends, '2026-10-17')).toBe('in_effect'); // Saturday
+    expect(validityState(weekends, '2026-10-19')).toBe('off_schedule'); // Monday
+  });
+
+  it('applies seasons, including ones spanning the new year', () => {
+    const summer = { ...ALWAYS, schedule: JSON.stringify({ seasonStart: '06-01', seasonEnd: '08-31' }) };
+    expect(validityState(summer, '2027-07-15')).toBe('in_effect');
+    expect(validityState(summer, '2027-09-01')).toBe('off_schedule');
+
+    const winter = { ...ALWAYS, schedule: JSON.stringify({ seasonStart: '12-15', seasonEnd: '01-15' }) };
+    expect(validityState(winter, '2026-12-24')).toBe('in_effect');
+    expect(validityState(winter, '2027-01-10')).toBe('in_effect');
+    expect(validityState(winter, '2027-02-01')).toBe('off_schedule');
+  });
+
+  it('rejects windows and schedules that can never apply', () => {
+    expect(() => validateValidity('2026-07-01', '2026-06-01', null)).toThrow(ValidationError);
+    expect(() => validateValidity(null, null, { seasonStart: '06-01' })).toThrow(ValidationError);
+    expect(() => validateValidity(null, null, { seasonStart: '13-01', seasonEnd: '01-01' })).toThrow(ValidationError);
+    expect(() => validateValidity(null, null, { daysOfWeek: [] })).toThrow(ValidationError);
+    expect(() => validateValidity('2026-06-01', '2026-06-01', { daysOfWeek: [1] })).not.toThrow();
+  });
+});
+
+describe('KnowledgeService retrieval', () => {
+  beforeEach(async () => {
+    await db.delete(knowledgeBase);
+  });
+
+  it('skips entries that are not in effect today', async () => {
+    const current = await addEntry('Quokkaspa opening hours');
+    await addEntry('Quokkaspa renovation notice', { validUntil: '2000-01-31' });
+    await addEntry('Quokkaspa reopening offer', { validFrom: '2999-01-01' });
+
+    const results = await new KnowledgeService().hybridSearch('quokkaspa', undefined);
+    expect(results.map((r) => r.id)).toEqual([current.id]);
+  });
+});
+
+describe('KnowledgeValidityService', () => {
+  let service: KnowledgeValidityService;
+  const onExpiring = vi.fn();
+
+  beforeEach(async () => {
+    await db.delete(knowledgeBase);
+    responseCacheService.clear();
+    service = new KnowledgeValidityService();
+    events.on(EventTypes.KNOWLEDGE_EXPIRING, onExpiring);
+  });
+
+  afterEach(() => {
+    events.off(EventTypes.KNOWLEDGE_EXPIRING, onExpiring);
+    onExpiring.mockReset();
+  });
+
+  it('flags entries expiring within the warning period once', async () => {
+    const soon = await addEntry('Christmas brunch menu', { validUntil: '2026-12-26' });
+    await addEntry('Spring menu', { validUntil: '2027-04-30' });
+    await addEntry('Standing entry');
+
+    const at = new Date('2026-12-20T12:00:00Z');
+    expect((await service.runChecks(at)).flagged).toBe(1);
+    expect((await service.runChecks(at)).flagged).toBe(0);
+
+    expect(onExpiring).toHaveBeenCalledOnce();
+    expect(onExpiring.mock.calls[0]![0]).toMatchObject({
+      knowledgeId: soon.id,
+      title: 'Christmas brunch menu',
+      validUntil: '2026-12-26',
+    });
+  });
+
+  it('clears the flag when the end date moves', async () => {
+    const entry = await addEntry('Pool closed for renovation', { validUntil: '2026-06-05' });
+    await service.runChecks(new Date('2026-06-01T12:00:00Z'));
+
+    const updated = await new KnowledgeService().update(entry.id, { validUntil: '2026-06-30' });
+    expect(updated.expiryFlaggedAt).toBeNull();
+  });
+
+  it('drops cached answers grounded on an entry once it stops applying', async () => {
+    const entry = await addEntry('Pool closed for renovation', { validUntil: '2026-06-30' });
+    await responseCacheService.store({
+      query: 'Is the pool open?',
+      intent: 'inquiry.amenity',
+      response: 'The pool is closed for renovation until the end of June.',
+      knowledgeIds: [entry.id],
+    });
+
+    expect((await service.runChecks(new Date('2026-06-30T12:00:00Z'))).invalidated).toBe(0);
+    expect((await service.runChecks(new Date('2026-07-01T12:00:00Z'))).invalidated).toBe(1);
+  });
+
+  it('evaluates the day in the hotel timezone', async () => {
+    const { profile } = await hotelProfileService.getProfile();
+    await hotelProfileService.updateProfile({ ...profile, timezone: 'Pacific/Auckland' });
+
+    try {
+      const entry = await addEntry('Pool closed for renovation', { validUntil: '2026-07-08' });
+      // 2026-06-30 13:00 UTC is already 1 July in Auckland — within 7 days of the end
+      await service.runChecks(new Date('2026-06-30T13:00:00Z'));
+
+      const [row] = await db.select().from(knowledgeBase).where(eq(knowledgeBase.id, entry.id));
+      expect(row!.expiryFlaggedAt).not.toBeNull();
+    } finally {
+      await hotelProfileService.updateProfile(profile);
+    }
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Media Service Tests
+ *
+ * Covers src/services/media.ts: storing and reading guest photos / voice
+ * notes, and turning them into message text before the pipeline runs.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockTranscribe = vi.fn();
+const mockDescribeImage = vi.fn();
+const mockGetTranscriptionProvider = vi.fn();
+const mockGetVisionProvider = vi.fn();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getTranscriptionProvider: mockGetTranscriptionProvider,
+    getVisionProvider: mockGetVisionProvider,
+  }),
+}));
+
+import { NotFoundError, ValidationError } from '@/errors/index.js';
+import { MediaService, MAX_MEDIA_BYTES, mediaKind } from '@/services/media.js';
+import type { InboundMessage } from '@/types/message.js';
+
+function inbound(content: string, media: InboundMessage['media']): InboundMessage {
+  return {
+    id: 'msg_test',
+    channel: 'whatsapp',
+    channelId: '+15551234567',
+    content,
+    contentType: media?.[0]?.kind ?? 'text',
+    media,
+    timestamp: new Date(),
+  };
+}
+
+describe('MediaService', () => {
+  let service: MediaService;
+
+  beforeEach(() => {
+    service = new MediaService();
+    mockTranscribe.mockReset();
+    mockDescribeImage.mockReset();
+    mockGetTranscriptionProvider.mockReturnValue({ transcribe: mockTranscribe });
+    mockGetVisionProvider.mockReturnValue({ describeImage: mockDescribeImage });
+  });
+
+  describe('store / read', () => {
+    it('stores a file and reads it back with its MIME type', async () => {
+      const media = await service.store(new Uint8Array([1, 2, 3]), 'audio/ogg; codecs=opus');
+
+      expect(media).toMatchObject({ kind: 'audio', mimeType: 'audio/ogg', size: 3 });
+      expect(media.file).toBe(`${media.id}.ogg`);
+
+      const { data, mimeType } = await service.read(media.file);
+      expect([...data]).toEqual([1, 2, 3]);
+      expect(mimeType).toBe('audio/ogg');
+    });
+
+    it('rejects unsupported types and oversized files', async () => {
+      expect(mediaKind('video/mp4')).toBeNull();
+      await expect(service.store(new Uint8Array([1]), 'video/mp4')).rejects.toThrow(ValidationError);
+      await expect(service.store(new Uint8Array(MAX_MEDIA_BYTES + 1), 'image/jpeg')).rejects.toThrow(ValidationError);
+    });
+
+    it('only reads generated file names', async () => {
+      await expect(service.read('../jack.db')).rejects.toThrow(NotFoundError);
+      await expect(service.read('med_abc_0123abcd.jpg')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('prepareInbound', () => {
+    it('describes photos and appends the description to the caption', async () => {
+      mockDescribeImage.mockResolvedValue({ description: 'Water pooling under a bathroom sink.' });
+      const photo = await service.store(new Uint8Array([0xff, 0xd8]), 'image/jpeg');
+
+      const prepared = await service.prepareInbound(inbound('Room 204', [photo]));
+
+      expect(prepared.content).toBe('Room 204\n[Photo: Water pooling under a bathroom sink.]');
+      expect(prepared.media?.[0]?.description).toBe('Water pooling under a bathroom sink.');
+      expect(mockDescribeImage).toHaveBeenCalledWith(
+        expect.objectContaining({ mimeType: 'image/jpeg', purpose: 'guest_photo' })
+      );
+    });
+
+    it('uses the transcript of a voice note as the message content', async () => {
+      mockTranscribe.mockResolvedValue({ text: 'Could we get two more towels please?' });
+      const voice = await service.store(new Uint8Array([1, 2]), 'audio/ogg');
+
+      const prepared = await service.prepareInbound(inbound('', [voice]));
+
+      expect(prepared.content).toBe('Could we get two more towels please?');
+      expect(prepared.media?.[0]?.transcript).toBe('Could we get two more towels please?');
+    });
+
+    it('falls back to placeholders when no provider is available or processing fails', async () => {
+      mockGetVisionProvider.mockReturnValue(undefined);
+      mockTranscribe.mockRejectedValue(new Error('ffmpeg missing'));
+      const photo = await service.store(new Uint8Array([0xff]), 'image/png');
+      const voice = await service.store(new Uint8Array([1]), 'audio/mpeg');
+
+      const prepared = await service.prepareInbound(inbound('', [photo, voice]));
+
+      expect(prepared.content).toBe('[Photo]\n[Voice message]');
+      expect(prepared.media).toEqual([photo, voice]);
+    });
+
+    it('leaves messages without media untouched', async () => {
+      const message = inbound('What time is checkout?', undefined);
+      expect(await service.prepareInbound(message)).toBe(message);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Outbound Queue Tests
+ *
+ * Covers src/services/outbound-queue.ts: first attempt on enqueue,
+ * idempotency keys, per-channel retry with backoff, dead-lettering with
+ * MESSAGE_FAILED, and manual resend. Channel adapters are mocked.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+
+const mockSend = vi.fn();
+const activeAdapters = new Map<string, { id: string; channel: string; send: typeof mockSend }>();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getChannelAdapterByType: (type: string) => [...activeAdapters.values()].find((a) => a.channel === type),
+    getActiveChannelAdapters: () => activeAdapters,
+  }),
+}));
+
+import { db, messages, outboundQueue, whatsappTemplates } from '@/db/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import type { MessageFailedEvent } from '@/types/events.js';
+import { NotFoundError, ValidationError } from '@/errors/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { emailInboundService } from '@/services/email-inbound.js';
+import { OutboundQueueService, RETRY_POLICIES, retryDelayMs } from '@/services/outbound-queue.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+import type { ChannelType } from '@jackthebutler/shared';
+
+/** Make every pending item due now */
+async function expireBackoff() {
+  await db
+    .update(outboundQueue)
+    .set({ nextAttemptAt: new Date(Date.now() - 1000).toISOString() })
+    .where(eq(outboundQueue.status, 'pending'));
+}
+
+async function getMessage(id: string) {
+  const [row] = await db.select().from(messages).where(eq(messages.id, id));
+  return row!;
+}
+
+describe('OutboundQueueService', () => {
+  let service: OutboundQueueService;
+  let failed: MessageFailedEvent[];
+  const onFailed = (event: MessageFailedEvent) => failed.push(event);
+
+  async function reply(channel: ChannelType, channelId: string, content = 'Your towels are on the way.') {
+    const conversation = await conversationService.findOrCreate(channel, channelId);
+    const message = await conversationService.addMessage(conversation.id, {
+      direction: 'outbound',
+      senderType: 'ai',
+      content,
+      contentType: 'text',
+    });
+    return { conversationId: conversation.id, messageId: message.id, channel, channelId, content };
+  }
+
+  beforeEach(() => {
+    service = new OutboundQueueService();
+    failed = [];
+    mockSend.mockReset();
+    activeAdapters.clear();
+    activeAdapters.set('sms-twilio', { id: 'sms-twilio', channel: 'sms', send: mockSend });
+    events.on(EventTypes.MESSAGE_FAILED, onFailed);
+  });
+
+  afterEach(async () => {
+    events.off(EventTypes.MESSAGE_FAILED, onFailed);
+    await db.delete(outboundQueue);
+  });
+
+  it('sends on enqueue and records the channel message ID on the message', async () => {
+    mockSend.mockResolvedValue({ status: 'sent', channelMessageId: 'SM123' });
+    const input = await reply('sms', '+15550001111');
+
+    const item = await service.enqueue(input);
+
+    expect(item).toMatchObject({ status: 'sent', attempts: 1, channelMessageId: 'SM123' });
+    expect(mockSend).toHaveBeenCalledWith(
+      expect.objectContaining({ channelId: '+15550001111', content: 'Your towels are on the way.' })
+    );
+    expect(await getMessage(input.messageId)).toMatchObject({ deliveryStatus: 'sent', channelMessageId: 'SM123' });
+  });
+
+  it('queues each idempotency key only once', async () => {
+    mockSend.mockResolvedValue({ status: 'sent' });
+    const input = await reply('sms', '+15550002222');
+
+    const first = await service.enqueue({ ...input, idempotencyKey: 'sms:SM-inbound-1' });
+    const second = await service.enqueue({ ...input, idempotencyKey: 'sms:SM-inbound-1' });
+
+    expect(second.id).toBe(first.id);
+    expect(mockSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('never queues an internal staff note', async () => {
+    const conversation = await conversationService.findOrCreate('sms', '+15550002223');
+    const note = await conversationService.addMessage(conversation.id, {
+      direction: 'internal',
+      senderType: 'staff',
+      content: 'Guest sounds upset, offer a late checkout',
+      contentType: 'text',
+    });
+
+    await expect(
+      service.enqueue({ conversationId: conversation.id, messageId: note.id, channel: 'sms', channelId: '+15550002223', content: note.content })
+    ).rejects.toThrow(ValidationError);
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('retries failed sends with the channel backoff', async () => {
+    mockSend.mockRejectedValueOnce(new Error('Twilio 503')).mockResolvedValue({ status: 'sent' });
+    const input = await reply('sms', '+15550003333');
+
+    const item = await service.enqueue(input);
+    expect(item).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Twilio 503' });
+    expect(new Date(item.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now() + retryDelayMs('sms', 1) - 5000);
+    expect((await getMessage(input.messageId)).deliveryStatus).toBe('pending');
+
+    // Not due yet
+    expect(await service.runDue()).toEqual({ sent: 0, retrying: 0, dead: 0 });
+
+    await expireBackoff();
+    expect(await service.runDue()).toEqual({ sent: 1, retrying: 0, dead: 0 });
+    expect((await getMessage(input.messageId)).deliveryStatus).toBe('sent');
+  });
+
+  it('dead-letters after the last attempt and emits MESSAGE_FAILED once', async () => {
+    mockSend.mockResolvedValue({ status: 'failed', error: 'Invalid recipient' });
+    const input = await reply('sms', '+15550004444');
+
+    await service.enqueue(input);
+    for (let i = 1; i < RETRY_POLICIES.sms.maxAttempts; i++) {
+      expect(failed).toHaveLength(0);
+      await expireBackoff();
+      await service.runDue();
+    }
+
+    const [item] = await service.listDead();
+    expect(item).toMatchObject({ messageId: input.messageId, status: 'dead', attempts: RETRY_POLICIES.sms.maxAttempts });
+    expect(mockSend).toHaveBeenCalledTimes(RETRY_POLICIES.sms.maxAttempts);
+    expect(failed).toEqual([
+      expect.objectContaining({ messageId: input.messageId, channel: 'sms', error: 'Invalid recipient' }),
+    ]);
+    expect(await getMessage(input.messageId)).toMatchObject({ deliveryStatus: 'failed', deliveryError: 'Invalid recipient' });
+  });
+
+  it('counts a missing adapter as a failed attempt', async () => {
+    const input = await reply('whatsapp', '+15550005555');
+
+    const item = await service.enqueue({ ...input, appId: 'whatsapp-meta' });
+
+    expect(item).toMatchObject({ status: 'pending', lastError: 'No active whatsapp-meta channel adapter' });
+    expect(mockSend).not.toHaveBeenCalled();
+  });
+
+  it('resends a dead-lettered item with a fresh set of attempts', async () => {
+    activeAdapters.set('webchat', { id: 'webchat', channel: 'webchat', send: mockSend });
+    mockSend.mockRejectedValueOnce(new Error('socket closed')).mockResolvedValue({ status: 'sent' });
+    const input = await reply('webchat', 'session_1');
+
+    // Webchat is not retried automatically
+    const dead = await service.enqueue(input);
+    expect(dead.status).toBe('dead');
+
+    const resent = await service.resend(dead.id);
+
+    expect(resent).toMatchObject({ status: 'sent', attempts: 1, lastError: null });
+    expect(await service.listDead()).toHaveLength(0);
+    await expect(service.resend(dead.id)).rejects.toThrow(ValidationError);
+    await expect(service.resend('obq_missing')).rejects.toThrow(NotFoundError);
+  });
+
+  it('puts items stuck in sending back in the queue', async () => {
+    mockSend.mockResolvedValue({ status: 'sent' });
+    const input = await reply('sms', '+15550006666');
+    await db.insert(outboundQueue).values({
+      id: 'obq_stuck',
+      ...input,
+      idempotencyKey: 'stuck',
+      status: 'sending',
+      updatedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+    });
+
+    expect(await service.runDue()).toEqual({ sent: 1, retrying: 0, dead: 0 });
+  });
+
+  it('sends WhatsApp replies outside the 24-hour window as the fallback template', async () => {
+    activeAdapters.set('whatsapp-meta', { id: 'whatsapp-meta', channel: 'whatsapp', send: mockSend });
+    mockSend.mockResolvedValue({ status: 'sent', channelMessageId: 'wamid.1' });
+    const input = await reply('whatsapp', '+15550007777');
+
+    const withoutTemplate = await service.enqueue(input);
+    expect(withoutTemplate).toMatchObject({ status: 'pending', lastError: expect.stringContaining('no fallback template') });
+    expect(mockSend).not.toHaveBeenCalled();
+
+    await db.insert(whatsappTemplates).values({
+      id: generateId('whatsappTemplate'),
+      name: 'guest_reply',
+      language: 'en_US',
+      category: 'UTILITY',
+      status: 'APPROVED',
+      body: 'Reply from the hotel: {{1}}',
+      parameterCount: 1,
+      variables: JSON.stringify(['message.content']),
+      isFallback: true,
+      syncedAt: now(),
+    });
+    await expireBackoff();
+    expect(await service.runDue()).toEqual({ sent: 1, retrying: 0, dead: 0 });
+    expect(mockSend).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: { template: { name: 'guest_reply', language: 'en_US', parameters: ['Your towels are on the way.'] } },
+      })
+    );
+    await db.delete(whatsappTemplates);
+  });
+
+  it('adds the Message-ID of a sent email reply to the thread', async () => {
+    activeAdapters.set('email-mailgun', { id: 'email-mailgun', channel: 'email', send: mockSend });
+    mockSend.mockResolvedValue({ status: 'sent', channelMessageId: '<reply-1@hotel.example>' });
+    const input = await reply('email', 'guest@example.com');
+
+    await service.enqueue({ ...input, appId: 'email-mailgun', metadata: { subject: 'Re: Towels' } });
+
+    expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ metadata: { subject: 'Re: Towels' } }));
+    const conversation = await conversationService.getById(input.conversationId);
+    expect(emailInboundService.getThread(conversation)?.messageIds).toContain('<reply-1@hotel.example>');
+  });
+});
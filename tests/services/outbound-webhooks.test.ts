@@ -0,0 +1,307 @@
+/**
+ * Outbound Webhook Tests
+ *
+ * Covers src/services/outbound-webhooks.ts: signed delivery of subscribed
+ * events, retries with backoff (one attempt at a time per delivery),
+ * auto-disable after repeated failures, and manual redelivery. Deliveries go to a local HTTP server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createHmac } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { eq } from 'drizzle-orm';
+import { db, webhookSubscriptions, webhookDeliveries } from '@/db/index.js';
+import {
+  outboundWebhookService,
+  AUTO_DISABLE_AFTER,
+  MAX_ATTEMPTS,
+  WEBHOOK_EVENT_TYPES,
+} from '@/services/outbound-webhooks.js';
+import { EventTypes, type TaskCreatedEvent, type ConversationEscalatedEvent } from '@/types/events.js';
+import { NotFoundError } from '@/errors/index.js';
+
+function taskCreated(): TaskCreatedEvent {
+  return {
+    type: EventTypes.TASK_CREATED,
+    taskId: 'task_1',
+    conversationId: 'conv_1',
+    type_: 'housekeeping',
+    department: 'housekeeping',
+    priority: 'standard',
+    timestamp: new Date('2026-03-01T10:00:00Z'),
+  };
+}
+
+function escalated(): ConversationEscalatedEvent {
+  return {
+    type: EventTypes.CONVERSATION_ESCALATED,
+    conversationId: 'conv_1',
+    reasons: ['guest asked for a human'],
+    priority: 'high',
+    timestamp: new Date(),
+  };
+}
+
+/** Make every pending delivery due now */
+async function expireBackoff() {
+  await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(Date.now() - 1000).toISOString() })
+    .where(eq(webhookDeliveries.status, 'pending'));
+}
+
+describe('outbound webhooks', () => {
+  let server: Server;
+  let url: string;
+  let received: Array<{ path: string; body: string; headers: Record<string, string | string[] | undefined> }>;
+
+  beforeAll(async () => {
+    received = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', body, headers: req.headers });
+        setTimeout(
+          () => {
+            res.writeHead(req.url === '/fail' ? 503 : 200);
+            res.end();
+          },
+          req.url === '/slow' ? 300 : 0
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(async () => {
+    await db.delete(webhookSubscriptions);
+    received.length = 0;
+  });
+
+  describe('subscriptions', () => {
+    it('returns the secret on create only and stores it encrypted', async () => {
+      const { subscription, secret } = await outboundWebhookService.create({
+        name: 'CRM',
+        url: `${url}/ok`,
+        events: [EventTypes.TASK_CREATED],
+      });
+
+      expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(subscription).toMatchObject({ name: 'CRM', enabled: true, events: ['task.created'] });
+      expect(subscription).not.toHaveProperty('secretEncrypted');
+
+      const [row] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, subscription.id));
+      expect(row!.secretEncrypted).not.toContain(secret);
+    });
+
+    it('throws NotFoundError for unknown subscriptions', async () => {
+      await expect(outboundWebhookService.get('whk_missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('does not offer internal events', () => {
+      expect(WEBHOOK_EVENT_TYPES).toContain(EventTypes.TASK_CREATED);
+      expect(WEBHOOK_EVENT_TYPES).not.toContain(EventTypes.MODEL_DOWNLOAD_PROGRESS);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('posts a signed payload to subscribers of the event type', async () => {
+      const { subscription, secret } = await outboundWebhookService.create({
+        name: 'Housekeeping',
+        url: `${url}/ok`,
+        events: [EventTypes.TASK_CREATED],
+      });
+      await outboundWebhookService.create({ name: 'Other', url: `${url}/other`, events: [EventTypes.TASK_COMPLETED] });
+
+      expect(await outboundWebhookService.dispatch(taskCreated())).toBe(1);
+
+      expect(received).toHaveLength(1);
+      const { path, body, headers } = received[0]!;
+      expect(path).toBe('/ok');
+      expect(headers['x-jack-event']).toBe('task.created');
+      expect(headers['x-jack-signature']).toBe(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+
+      const payload = JSON.parse(body);
+      expect(payload).toMatchObject({
+        type: 'task.created',
+        createdAt: '2026-03-01T10:00:00.000Z',
+        data: { taskId: 'task_1', taskType: 'housekeeping', department: 'housekeeping' },
+      });
+      expect(payload.id).toMatch(/^evt_/);
+      expect(payload.data).not.toHaveProperty('type_');
+
+      const [delivery] = await outboundWebhookService.listDeliveries(subscription.id);
+      expect(delivery).toMatchObject({ status: 'success', attempts: 1, responseStatus: 200 });
+      expect(headers['x-jack-delivery']).toBe(delivery!.id);
+    });
+
+    it('skips disabled subscriptions', async () => {
+      await outboundWebhookService.create({
+        name: 'Paused',
+        url: `${url}/ok`,
+        events: [EventTypes.CONVERSATION_ESCALATED],
+        enabled: false,
+      });
+
+      expect(await outboundWebhookService.dispatch(escalated())).toBe(0);
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe('retries', () => {
+    it('backs off exponentially and gives up after the last attempt', async () => {
+      const { subscription } = await outboundWebhookService.create({
+        name: 'Flaky',
+        url: `${url}/fail`,
+        events: [EventTypes.CONVERSATION_ESCALATED],
+      });
+
+      await outboundWebhookService.dispatch(escalated());
+      let [delivery] = await outboundWebhookService.listDeliveries(subscription.id);
+      expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503, error: 'HTTP 503' });
+      const firstDelay = Date.parse(delivery!.nextAttemptAt!) - Date.now();
+      expect(firstDelay).toBeGreaterThan(50_000);
+      expect(firstDelay).toBeLessThanOrEqual(60_000);
+
+      // Not due yet
+      expect(await outboundWebhookService.runDue()).toEqual({ delivered: 0, retrying: 0, failed: 0 });
+
+      await expireBackoff();
+      expect(await outboundWebhookService.runDue()).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+      [delivery] = await outboundWebhookService.listDeliveries(subscription.id);
+      const secondDelay = Date.parse(delivery!.nextAttemptAt!) - Date.now();
+      expect(secondDelay).toBeGreaterThan(110_000);
+
+      for (let attempt = 3; attempt < MAX_ATTEMPTS; attempt++) {
+        await expireBackoff();
+        await outboundWebhookService.runDue();
+      }
+      await expireBackoff();
+      expect(await outboundWebhookService.runDue()).toEqual({ delivered: 0, retrying: 0, failed: 1 });
+
+      [delivery] = await outboundWebhookService.listDeliveries(subscription.id);
+      expect(delivery).toMatchObject({ status: 'failed', attempts: MAX_ATTEMPTS, nextAttemptAt: null });
+      expect(received).toHaveLength(MAX_ATTEMPTS);
+    });
+
+    it('delivers a retry once the endpoint recovers and resets the failure count', async () => {
+      const { subscription } = await outboundWebhookService.create({
+        name: 'Recovering',
+        url: `${url}/fail`,
+        events: [EventTypes.CONVERSATION_ESCALATED],
+      });
+      await outboundWebhookService.dispatch(escalated());
+      expect((await outboundWebhookService.get(subscription.id)).consecutiveFailures).toBe(1);
+
+      await outboundWebhookService.update(subscription.id, { url: `${url}/ok` });
+      await expireBackoff();
+      expect(await outboundWebhookService.runDue()).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+
+      const updated = await outboundWebhookService.get(subscription.id);
+      expect(updated.consecutiveFailures).toBe(0);
+      expect(updated.lastDeliveryAt).not.toBeNull();
+    });
+
+    it('does not post a delivery again while its first attempt is in flight', async () => {
+      const { subscription } = await outboundWebhookService.create({
+        name: 'Slow',
+        url: `${url}/slow`,
+        events: [EventTypes.CONVERSATION_ESCALATED],
+      });
+
+      const dispatching = outboundWebhookService.dispatch(escalated());
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(await outboundWebhookService.runDue()).toEqual({ delivered: 0, retrying: 0, failed: 0 });
+      await dispatching;
+
+      const [delivery] = await outboundWebhookService.listDeliveries(subscription.id);
+      expect(delivery).toMatchObject({ status: 'success', attempts: 1 });
+      expect(received).toHaveLength(1);
+    });
+
+    it('retries a delivery left in sending by a crash', async () => {
+      const { subscription } = await outboundWebhookService.create({
+        name: 'Interrupted',
+        url: `${url}/ok`,
+        events: [EventTypes.CONVERSATION_ESCALATED],
+      });
+      await db.insert(webhookDeliveries).values({
+        id: 'whd_stuck',
+        subscriptionId: subscription.id,
+        eventType: EventTypes.CONVERSATION_ESCALATED,
+        payload: '{}',
+        status: 'sending',
+        updatedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+      });
+
+      expect(await outboundWebhookService.runDue()).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+      expect(received).toHaveLength(1);
+    });
+
+    it('disables a subscription after repeated failures and re-enables it on request', async () => {
+      const { subscription } = await outboundWebhookService.create({
+        name: 'Dead',
+        url: `${url}/fail`,
+        events: [EventTypes.CONVERSATION_ESCALATED],
+      });
+
+      for (let i = 0; i < AUTO_DISABLE_AFTER; i++) {
+        await outboundWebhookService.dispatch(escalated());
+      }
+
+      const disabled = await outboundWebhookService.get(subscription.id);
+      expect(disabled.enabled).toBe(false);
+      expect(disabled.disabledReason).toContain(`${AUTO_DISABLE_AFTER} failed`);
+
+      const deliveries = await outboundWebhookService.listDeliveries(subscription.id);
+      expect(deliveries.every((d) => d.status === 'failed')).toBe(true);
+      expect(await outboundWebhookService.dispatch(escalated())).toBe(0);
+
+      const reenabled = await outboundWebhookService.update(subscription.id, { enabled: true });
+      expect(reenabled).toMatchObject({ enabled: true, consecutiveFailures: 0, disabledReason: null });
+    });
+  });
+
+  describe('redeliver', () => {
+    it('sends the same event again as a new delivery', async () => {
+      const { subscription } = await outboundWebhookService.create({
+        name: 'CRM',
+        url: `${url}/ok`,
+        events: [EventTypes.TASK_CREATED],
+      });
+      await outboundWebhookService.dispatch(taskCreated());
+      const [original] = await outboundWebhookService.listDeliveries(subscription.id);
+
+      const redelivery = await outboundWebhookService.redeliver(subscription.id, original!.id);
+
+      expect(redelivery).toMatchObject({ status: 'success', redeliveryOf: original!.id });
+      expect(received).toHaveLength(2);
+      expect(JSON.parse(received[1]!.body).id).toBe(JSON.parse(received[0]!.body).id);
+      expect(await outboundWebhookService.listDeliveries(subscription.id)).toHaveLength(2);
+    });
+
+    it('rejects deliveries from another subscription', async () => {
+      const { subscription: a } = await outboundWebhookService.create({
+        name: 'A',
+        url: `${url}/ok`,
+        events: [EventTypes.TASK_CREATED],
+      });
+      const { subscription: b } = await outboundWebhookService.create({
+        name: 'B',
+        url: `${url}/ok`,
+        events: [EventTypes.TASK_CREATED],
+      });
+      await outboundWebhookService.dispatch(taskCreated());
+      const [delivery] = await outboundWebhookService.listDeliveries(a.id);
+
+      await expect(outboundWebhookService.redeliver(b.id, delivery!.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * PMS Write-back Service Tests
+ *
+ * Covers src/services/pms-write-back.ts through TaskService.complete:
+ * pushing each PMS action to the mock PMS adapter, recording the outcome
+ * on the task and in the audit log, and retrying failed pushes. Also
+ * covers the reservation note `routeTask` attaches to AI-created tasks.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { MockPMSAdapter } from '@jackthebutler/pms-mock';
+import type { PMSAdapter } from '@jackthebutler/shared';
+
+let activeAdapter: PMSAdapter | undefined;
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getActivePMSAdapter: () => activeAdapter,
+  }),
+}));
+
+import { db, auditLog, conversations, guests, reservations, tasks } from '@/db/index.js';
+import { ConflictError } from '@/errors/index.js';
+import type { ButlerContext } from '@/pipeline/context.js';
+import { routeTask } from '@/pipeline/stages/route-task.js';
+import { conversationService } from '@/services/conversation.js';
+import type { PMSTaskAction } from '@/services/pms-write-back.js';
+import { taskService } from '@/services/task.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+import type { Env } from '@thebutler/pipeline';
+
+const context = { appLog: (_e: string, _d: unknown, fn: () => Promise<unknown>) => fn() };
+
+let mock: MockPMSAdapter;
+
+/** Guest with a reservation under the given PMS ID, not linked to any conversation */
+async function reservation(externalId: string | null, roomNumber = '415') {
+  const guestId = generateId('guest');
+  await db.insert(guests).values({ id: guestId, firstName: 'John', lastName: 'Smith', createdAt: now(), updatedAt: now() });
+  const reservationId = generateId('reservation');
+  await db.insert(reservations).values({
+    id: reservationId,
+    guestId,
+    confirmationNumber: `WB-${reservationId}`,
+    externalId,
+    roomNumber,
+    roomType: 'Deluxe King',
+    arrivalDate: '2026-03-01',
+    departureDate: '2026-03-05',
+    status: 'checked_in',
+    createdAt: now(),
+    updatedAt: now(),
+  });
+  return { guestId, reservationId };
+}
+
+/** Conversation linked to a reservation with the given PMS ID */
+async function stay(externalId: string | null, roomNumber = '415') {
+  const { guestId, reservationId } = await reservation(externalId, roomNumber);
+  const conversation = await conversationService.findOrCreate('webchat', generateId('session'), guestId);
+  await db.update(conversations).set({ reservationId }).where(eq(conversations.id, conversation.id));
+  return conversation.id;
+}
+
+async function taskWith(pmsAction: PMSTaskAction, conversationId?: string, roomNumber?: string) {
+  return taskService.create({
+    conversationId,
+    type: 'other',
+    department: 'front_desk',
+    description: 'Guest asked for late checkout at 2pm',
+    roomNumber,
+    pmsAction,
+  });
+}
+
+async function auditEntries(taskId: string) {
+  return db
+    .select()
+    .from(auditLog)
+    .where(and(eq(auditLog.resourceId, taskId), eq(auditLog.action, 'pms_write_back')));
+}
+
+describe('PMS write-back', () => {
+  beforeEach(() => {
+    mock = new MockPMSAdapter({}, context);
+    activeAdapter = mock;
+  });
+
+  it('adds a note to the reservation when the task is completed', async () => {
+    const conversationId = await stay('pms-res-001');
+    const task = await taskWith({ type: 'reservation_note' }, conversationId);
+
+    const completed = await taskService.complete(task.id, 'Approved until 2pm');
+
+    expect(completed).toMatchObject({ status: 'completed', pmsSyncStatus: 'synced', pmsSyncError: null });
+    expect(completed.pmsSyncedAt).toBeTruthy();
+    const reservation = await mock.getReservation('pms-res-001');
+    expect(reservation!.notes).toContain('Guest asked for late checkout at 2pm\nCompleted: Approved until 2pm');
+
+    await vi.waitFor(async () => expect(await auditEntries(task.id)).toHaveLength(1));
+    const [entry] = await auditEntries(task.id);
+    expect(JSON.parse(entry!.details!)).toMatchObject({ action: { type: 'reservation_note' }, status: 'synced' });
+  });
+
+  it('moves the departure time', async () => {
+    const conversationId = await stay('pms-res-001');
+    const task = await taskWith({ type: 'departure_time', departureTime: '2026-03-05T14:00:00.000Z' }, conversationId);
+
+    await taskService.complete(task.id);
+
+    expect(mock.getDepartureTime('pms-res-001')).toBe('2026-03-05T14:00:00.000Z');
+  });
+
+  it('takes the task room out of order', async () => {
+    const task = await taskWith({ type: 'room_out_of_order', until: '2026-03-06T12:00:00.000Z', reason: 'AC broken' }, undefined, '416');
+
+    const completed = await taskService.complete(task.id);
+
+    expect(completed.pmsSyncStatus).toBe('synced');
+    expect((await mock.getRoomStatus('416'))!.status).toBe('out_of_order');
+  });
+
+  it('posts a charge in the hotel currency by default', async () => {
+    const conversationId = await stay('pms-res-002', '302');
+    const task = await taskWith({ type: 'service_charge', amount: 24, description: 'Room service dinner' }, conversationId);
+
+    await taskService.complete(task.id);
+
+    expect(mock.getCharges('pms-res-002')).toMatchObject([{ description: 'Room service dinner', amount: 24, currency: 'USD' }]);
+  });
+
+  it('records a failure the task list can show', async () => {
+    const conversationId = await stay(null);
+    const task = await taskWith({ type: 'reservation_note' }, conversationId);
+
+    const completed = await taskService.complete(task.id);
+
+    expect(completed).toMatchObject({
+      status: 'completed',
+      pmsSyncStatus: 'failed',
+      pmsSyncError: 'Reservation has no PMS ID',
+      pmsSyncedAt: null,
+    });
+    const [summary] = await taskService.list({ conversationId });
+    expect(summary).toMatchObject({ pmsSyncStatus: 'failed', pmsSyncError: 'Reservation has no PMS ID' });
+  });
+
+  it('fails when the PMS does not support the write', async () => {
+    activeAdapter = { provider: 'mock' } as PMSAdapter;
+    const conversationId = await stay('pms-res-001');
+    const task = await taskWith({ type: 'reservation_note' }, conversationId);
+
+    const completed = await taskService.complete(task.id);
+
+    expect(completed.pmsSyncError).toBe('The connected PMS (mock) does not support addReservationNote');
+  });
+
+  it('keeps the PMS error message when the adapter throws', async () => {
+    const conversationId = await stay('pms-res-missing');
+    const task = await taskWith({ type: 'reservation_note' }, conversationId);
+
+    const completed = await taskService.complete(task.id);
+
+    expect(completed.pmsSyncError).toBe('PMS rejected the update: Reservation not found: pms-res-missing');
+  });
+
+  it('retries a failed push and refuses to push a synced task twice', async () => {
+    activeAdapter = undefined;
+    const conversationId = await stay('pms-res-001');
+    const task = await taskWith({ type: 'reservation_note', note: 'Late checkout 2pm' }, conversationId);
+
+    expect((await taskService.complete(task.id)).pmsSyncError).toBe('No PMS is connected');
+
+    activeAdapter = mock;
+    expect((await taskService.retryPmsSync(task.id)).pmsSyncStatus).toBe('synced');
+    await expect(taskService.retryPmsSync(task.id)).rejects.toThrow(ConflictError);
+
+    await taskService.reopen(task.id);
+    await taskService.complete(task.id);
+    expect((await mock.getReservation('pms-res-001'))!.notes!.filter((n) => n === 'Late checkout 2pm')).toHaveLength(1);
+  });
+
+  it('notes the guest\'s reservation for an AI task on a phone channel', async () => {
+    const { guestId, reservationId } = await reservation('pms-res-001', '416');
+    const conversation = await conversationService.findOrCreate('whatsapp', '+15550001111', guestId);
+    const env = {
+      intents: new Map([
+        ['request.housekeeping', { description: 'Extra towels', metadata: { requiresAction: true, department: 'housekeeping' } }],
+      ]),
+    } as unknown as Env;
+    const ctx = {
+      conversation: { id: conversation.id },
+      classification: { intent: 'request.housekeeping', confidence: 0.9 },
+      entity: { reservation: { id: reservationId, roomNumber: '416' } },
+    } as unknown as ButlerContext;
+
+    await routeTask(ctx, env);
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, ctx.taskId!));
+    expect(JSON.parse(task!.pmsAction!)).toEqual({ type: 'reservation_note', reservationId });
+
+    // Staff editing the note keep the reservation
+    await taskService.update(task!.id, { pmsAction: { type: 'reservation_note', note: 'Towels delivered' } });
+    const completed = await taskService.complete(task!.id);
+
+    expect(completed).toMatchObject({ pmsSyncStatus: 'synced', pmsSyncError: null });
+    expect((await mock.getReservation('pms-res-001'))!.notes).toContain('Towels delivered');
+  });
+
+  it('leaves tasks without a PMS action alone', async () => {
+    const task = await taskService.create({ type: 'housekeeping', department: 'housekeeping', description: 'Extra towels' });
+
+    const completed = await taskService.complete(task.id);
+
+    expect(completed.pmsSyncStatus).toBeNull();
+    await expect(taskService.retryPmsSync(task.id)).rejects.toThrow('Task has no PMS action');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Reply Draft Service Tests
+ *
+ * Covers src/services/reply-drafts.ts: drafting suggested replies from the
+ * conversation's guest context, translating them to the guest's language,
+ * and recording whether the suggestion staff sent was edited. The AI
+ * provider is mocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+
+const mockComplete = vi.fn();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getActiveAIProvider: () => ({ name: 'mock', complete: mockComplete }),
+    getEmbeddingProvider: () => undefined,
+  }),
+}));
+
+import { db, guests, guestMemories, replyDrafts } from '@/db/index.js';
+import { AppError, NotFoundError, ValidationError } from '@/errors/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { ReplyDraftService } from '@/services/reply-drafts.js';
+import { settingsService } from '@/services/settings.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+import type { CompletionRequest } from '@jackthebutler/shared';
+
+const DRAFTS = {
+  drafts: [
+    { tone: 'friendly', content: 'Hi Marie! Breakfast is included, served 7-10am.' },
+    { tone: 'formal', content: 'Dear Ms Curie, breakfast is included in your rate.' },
+    { tone: 'concise', content: 'Yes, breakfast is included.' },
+  ],
+};
+
+/** Drafts for the drafter call, `FR <text>` for translations */
+function respond(drafts: unknown = DRAFTS) {
+  mockComplete.mockImplementation(async (request: CompletionRequest) => {
+    if (request.purpose === 'translation') {
+      const text = /Text: "([\s\S]*)"$/.exec(request.messages[0]!.content)?.[1];
+      return { content: `FR ${text}` };
+    }
+    return { content: typeof drafts === 'string' ? drafts : JSON.stringify(drafts) };
+  });
+}
+
+describe('ReplyDraftService', () => {
+  let service: ReplyDraftService;
+
+  async function conversationWithGuest(options: { guestLanguage?: string; inbound?: boolean } = {}) {
+    const guestId = generateId('guest');
+    const phone = `+3361${Math.floor(Math.random() * 1e7)}`;
+    await db.insert(guests).values({
+      id: guestId,
+      firstName: 'Marie',
+      lastName: 'Curie',
+      phone,
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    await db.insert(guestMemories).values({
+      id: generateId('memory'),
+      guestId,
+      category: 'preference',
+      content: 'Prefers gluten-free pastries',
+      source: 'manual',
+    });
+    const conversation = await conversationService.findOrCreate('whatsapp', phone, guestId);
+    await conversationService.update(conversation.id, { guestLanguage: options.guestLanguage ?? 'fr' });
+    if (options.inbound !== false) {
+      await conversationService.addMessage(conversation.id, {
+        direction: 'inbound',
+        senderType: 'guest',
+        content: 'Le petit-déjeuner est-il inclus ?',
+        translatedContent: 'Is breakfast included?',
+        contentType: 'text',
+      });
+    }
+    return conversation.id;
+  }
+
+  beforeEach(async () => {
+    service = new ReplyDraftService();
+    vi.clearAllMocks();
+    respond();
+    await settingsService.set('hotel_profile', {
+      name: 'Hôtel Lumière',
+      timezone: 'Europe/Paris',
+      currency: 'EUR',
+      propertyLanguage: 'en',
+      checkInTime: '15:00',
+      checkOutTime: '11:00',
+    });
+  });
+
+  describe('generate', () => {
+    it('drafts a suggested reply and alternates from the guest context', async () => {
+      const conversationId = await conversationWithGuest();
+
+      const draft = await service.generate(conversationId, null);
+
+      const [request] = mockComplete.mock.calls.find(([r]) => r.purpose === 'reply_draft')!;
+      const [system, user] = request.messages;
+      expect(system.content).toContain('Name: Marie Curie');
+      expect(system.content).toContain('preference: Prefers gluten-free pastries');
+      expect(system.content).toContain('Hotel Name: Hôtel Lumière');
+      expect(system.content).not.toContain('[QUICK_REPLIES');
+      expect(user.content).toContain('Guest: Is breakfast included?');
+
+      expect(draft.language).toBe('fr');
+      expect(draft.messageId).toBeTruthy();
+      expect(draft.suggestions).toEqual(
+        DRAFTS.drafts.map((d) => ({ ...d, translation: `FR ${d.content}` }))
+      );
+    });
+
+    it('skips translation when the guest shares the property language', async () => {
+      const conversationId = await conversationWithGuest({ guestLanguage: 'en' });
+
+      const draft = await service.generate(conversationId, null);
+
+      expect(draft.suggestions.every((s) => s.translation === null)).toBe(true);
+      expect(mockComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps one well-formed draft per tone', async () => {
+      respond(
+        '```json\n' +
+          JSON.stringify({
+            drafts: [
+              { tone: 'friendly', content: 'Sure thing!' },
+              { tone: 'friendly', content: 'Of course!' },
+              { tone: 'sarcastic', content: 'Obviously.' },
+              { tone: 'formal', content: '   ' },
+              { tone: 'empathetic', content: 'Happy to help with that.' },
+            ],
+          }) +
+          '\n```'
+      );
+      const conversationId = await conversationWithGuest({ guestLanguage: 'en' });
+
+      const draft = await service.generate(conversationId, null);
+
+      expect(draft.suggestions.map((s) => `${s.tone}: ${s.content}`)).toEqual([
+        'friendly: Sure thing!',
+        'empathetic: Happy to help with that.',
+      ]);
+    });
+
+    it('fails when the AI returns nothing usable', async () => {
+      respond('Sorry, I cannot help with that.');
+      const conversationId = await conversationWithGuest();
+
+      await expect(service.generate(conversationId, null)).rejects.toThrow(AppError);
+      expect(await db.select().from(replyDrafts).where(eq(replyDrafts.conversationId, conversationId))).toHaveLength(0);
+    });
+
+    it('requires a guest message to reply to', async () => {
+      const conversationId = await conversationWithGuest({ inbound: false });
+      await expect(service.generate(conversationId, null)).rejects.toThrow(ValidationError);
+      await expect(service.generate('conv_missing', null)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('recordUse', () => {
+    async function sentMessage(conversationId: string, content: string) {
+      const message = await conversationService.addMessage(conversationId, {
+        direction: 'outbound',
+        senderType: 'staff',
+        content,
+        contentType: 'text',
+      });
+      return message.id;
+    }
+
+    it('records a suggestion sent unchanged as accepted, ignoring whitespace', async () => {
+      const conversationId = await conversationWithGuest();
+      const draft = await service.generate(conversationId, null);
+      const content = ' Yes, breakfast  is included. ';
+
+      const outcome = await service.recordUse(draft.id, conversationId, 2, await sentMessage(conversationId, content), content);
+
+      expect(outcome).toBe('accepted');
+      const [row] = await db.select().from(replyDrafts).where(eq(replyDrafts.id, draft.id));
+      expect(row).toMatchObject({ outcome: 'accepted', chosenIndex: 2 });
+      expect(row!.usedAt).toBeTruthy();
+    });
+
+    it('records an edited suggestion and only counts the first send', async () => {
+      const conversationId = await conversationWithGuest();
+      const draft = await service.generate(conversationId, null);
+      const edited = 'Hi Marie! Breakfast is included, served 7-11am on weekends.';
+
+      expect(await service.recordUse(draft.id, conversationId, 0, await sentMessage(conversationId, edited), edited)).toBe('edited');
+      const again = DRAFTS.drafts[1]!.content;
+      expect(await service.recordUse(draft.id, conversationId, 1, await sentMessage(conversationId, again), again)).toBe('edited');
+
+      const [row] = await db.select().from(replyDrafts).where(eq(replyDrafts.id, draft.id));
+      expect(row!.chosenIndex).toBe(0);
+    });
+
+    it('rejects drafts from another conversation and unknown suggestions', async () => {
+      const conversationId = await conversationWithGuest();
+      const other = await conversationWithGuest();
+      const draft = await service.generate(conversationId, null);
+      const messageId = await sentMessage(conversationId, 'Hello');
+
+      await expect(service.recordUse(draft.id, other, 0, messageId, 'Hello')).rejects.toThrow(NotFoundError);
+      await expect(service.recordUse(draft.id, conversationId, 7, messageId, 'Hello')).rejects.toThrow(ValidationError);
+    });
+  });
+});
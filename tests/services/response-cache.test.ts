@@ -0,0 +1,132 @@
+/**
+ * Response Cache Service Tests
+ *
+ * Covers src/services/response-cache.ts (exact + semantic lookup, intent
+ * scoping, expiry, invalidation) and the KnowledgeService hooks that drop
+ * answers grounded on an edited or removed entry.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, responseCache } from '@/db/index.js';
+import { KnowledgeService } from '@/services/knowledge.js';
+import { responseCacheService } from '@/services/response-cache.js';
+
+const WIFI_VEC = Array.from({ length: 8 }, (_, i) => (i + 1) * 0.1);
+// Near-identical direction to WIFI_VEC — a paraphrase
+const WIFI_PARAPHRASE_VEC = WIFI_VEC.map((v, i) => (i === 0 ? v + 0.01 : v));
+const UNRELATED_VEC = [0, 0, 0, 0, 0, 0, 0, 1];
+
+async function storeWifi(knowledgeIds: string[] = ['kb_wifi']) {
+  await responseCacheService.store({
+    query: 'What is the WiFi password?',
+    intent: 'inquiry.wifi',
+    embedding: WIFI_VEC,
+    response: 'The password is "butler123".',
+    knowledgeIds,
+  });
+}
+
+describe('ResponseCacheService', () => {
+  beforeEach(() => {
+    responseCacheService.clear();
+  });
+
+  it('normalizes case, punctuation and spacing before hashing', () => {
+    expect(responseCacheService.hashQuery('What is the WiFi password?')).toBe(
+      responseCacheService.hashQuery('  what is the  wifi password ')
+    );
+  });
+
+  it('serves an exact repeat and records the hit', async () => {
+    await storeWifi();
+
+    const hit = await responseCacheService.lookup({ query: 'what is the wifi password', intent: 'inquiry.wifi' });
+
+    expect(hit?.similarity).toBe(1);
+    expect(hit?.entry.response).toBe('The password is "butler123".');
+    const [row] = await db.select().from(responseCache).where(eq(responseCache.id, hit!.entry.id));
+    expect(row!.hitCount).toBe(1);
+    expect(row!.lastHitAt).not.toBeNull();
+  });
+
+  it('serves a paraphrase by embedding similarity', async () => {
+    await storeWifi();
+
+    const hit = await responseCacheService.lookup({
+      query: 'How do I get on the internet?',
+      intent: 'inquiry.wifi',
+      embedding: WIFI_PARAPHRASE_VEC,
+    });
+
+    expect(hit).not.toBeNull();
+    expect(hit!.similarity).toBeGreaterThan(0.92);
+    expect(hit!.similarity).toBeLessThan(1);
+  });
+
+  it('misses on a dissimilar question, another intent, or an expired entry', async () => {
+    await storeWifi();
+
+    expect(
+      await responseCacheService.lookup({ query: 'Is there a gym?', intent: 'inquiry.wifi', embedding: UNRELATED_VEC })
+    ).toBeNull();
+    expect(
+      await responseCacheService.lookup({ query: 'What is the WiFi password?', intent: 'inquiry.parking', embedding: WIFI_VEC })
+    ).toBeNull();
+
+    await db.update(responseCache).set({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+    expect(
+      await responseCacheService.lookup({ query: 'What is the WiFi password?', intent: 'inquiry.wifi', embedding: WIFI_VEC })
+    ).toBeNull();
+  });
+
+  it('refreshes an existing entry instead of duplicating it', async () => {
+    await storeWifi();
+    await responseCacheService.store({
+      query: 'what is the wifi password',
+      intent: 'inquiry.wifi',
+      embedding: WIFI_VEC,
+      response: 'It is now "butler456".',
+      knowledgeIds: ['kb_wifi'],
+    });
+
+    const rows = await db.select().from(responseCache);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]!.response).toBe('It is now "butler456".');
+  });
+
+  it('invalidates only entries grounded on the given knowledge id', async () => {
+    await storeWifi(['kb_wifi', 'kb_general']);
+    await responseCacheService.store({
+      query: 'Is there parking?',
+      intent: 'inquiry.parking',
+      response: 'Yes, valet parking is $30/night.',
+      knowledgeIds: ['kb_parking'],
+    });
+
+    expect(responseCacheService.invalidateByKnowledgeId('kb_wifi')).toBe(1);
+    const rows = await db.select().from(responseCache);
+    expect(rows.map((r) => r.intent)).toEqual(['inquiry.parking']);
+  });
+});
+
+describe('KnowledgeService cache invalidation', () => {
+  const knowledge = new KnowledgeService();
+
+  beforeEach(() => {
+    responseCacheService.clear();
+  });
+
+  it.each(['update', 'archive', 'delete'] as const)('drops cached answers on %s', async (operation) => {
+    const item = await knowledge.add({ category: 'amenity', title: 'WiFi', content: 'Password: butler123' });
+    await storeWifi([item.id]);
+
+    if (operation === 'update') {
+      await knowledge.update(item.id, { title: 'Guest WiFi' });
+    } else {
+      await knowledge[operation](item.id);
+    }
+
+    expect(await db.select().from(responseCache)).toHaveLength(0);
+  });
+});
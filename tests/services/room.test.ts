@@ -0,0 +1,143 @@
+/**
+ * Room Service Tests
+ *
+ * Covers the rooms table synced from the PMS (src/services/pms-sync.ts),
+ * the housekeeping board in src/services/room.ts, and the room number
+ * check in TaskService.create.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MockPMSAdapter } from '@jackthebutler/pms-mock';
+import type { PMSAdapter } from '@jackthebutler/shared';
+
+let activeAdapter: PMSAdapter | undefined;
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getActivePMSAdapter: () => activeAdapter,
+  }),
+}));
+
+import { db, guests, reservations, rooms } from '@/db/index.js';
+import { ValidationError } from '@/errors/index.js';
+import { events, EventTypes } from '@/events/index.js';
+import { pmsSyncService } from '@/services/pms-sync.js';
+import { roomService } from '@/services/room.js';
+import { taskService } from '@/services/task.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+
+const context = { appLog: (_e: string, _d: unknown, fn: () => Promise<unknown>) => fn() };
+
+/** Checked-in reservation with the given PMS ID */
+async function stay(externalId: string, roomNumber: string) {
+  const guestId = generateId('guest');
+  await db.insert(guests).values({ id: guestId, firstName: 'John', lastName: 'Smith', createdAt: now(), updatedAt: now() });
+  await db.insert(reservations).values({
+    id: generateId('reservation'),
+    guestId,
+    confirmationNumber: `RM-${generateId('reservation')}`,
+    externalId,
+    roomNumber,
+    roomType: 'Deluxe King',
+    arrivalDate: '2026-03-01',
+    departureDate: '2026-03-05',
+    status: 'checked_in',
+    createdAt: now(),
+    updatedAt: now(),
+  });
+}
+
+describe('Rooms', () => {
+  beforeEach(async () => {
+    activeAdapter = new MockPMSAdapter({}, context);
+    await db.delete(rooms);
+  });
+
+  describe('sync', () => {
+    it('creates every PMS room and links the guest staying in it', async () => {
+      await stay('pms-res-001', '415');
+
+      const result = await pmsSyncService.syncRooms();
+
+      expect(result).toMatchObject({ created: 4, updated: 0, errors: 0 });
+      const board = await roomService.listBoard();
+      expect(board.map((room) => room.number)).toEqual(['302', '415', '416', '501']);
+      expect(board.find((room) => room.number === '415')).toMatchObject({
+        floor: '4',
+        status: 'occupied',
+        guestName: 'John Smith',
+      });
+    });
+
+    it('leaves unchanged rooms alone and picks up status changes', async () => {
+      await pmsSyncService.syncRooms();
+      await activeAdapter!.setRoomOutOfOrder!('416', { reason: 'AC broken', from: now(), until: '2026-03-06T12:00:00.000Z' });
+
+      const result = await pmsSyncService.syncRooms();
+
+      expect(result).toMatchObject({ created: 0, updated: 1, unchanged: 3 });
+      expect((await roomService.findByNumber('416'))!.status).toBe('out_of_order');
+    });
+  });
+
+  describe('status changes', () => {
+    it('updates the room and emits an event', async () => {
+      await pmsSyncService.syncRooms();
+      const onChanged = vi.fn();
+      events.on(EventTypes.ROOM_STATUS_CHANGED, onChanged);
+
+      const room = await pmsSyncService.updateRoomStatus('416', 'inspected');
+
+      events.off(EventTypes.ROOM_STATUS_CHANGED, onChanged);
+      expect(room).toMatchObject({ number: '416', status: 'inspected' });
+      expect(onChanged).toHaveBeenCalledWith(
+        expect.objectContaining({ roomNumber: '416', previousStatus: 'dirty', status: 'inspected' })
+      );
+    });
+
+    it('ignores rooms that have not been synced', async () => {
+      expect(await pmsSyncService.updateRoomStatus('999', 'clean')).toBeNull();
+    });
+  });
+
+  describe('board', () => {
+    it('lists open tasks under their room', async () => {
+      await pmsSyncService.syncRooms();
+      const open = await taskService.create({ type: 'housekeeping', department: 'housekeeping', roomNumber: '302', description: 'Extra towels' });
+      const done = await taskService.create({ type: 'maintenance', department: 'maintenance', roomNumber: '302', description: 'Fix the lamp' });
+      await taskService.complete(done.id);
+
+      const board = await roomService.listBoard();
+
+      expect(board.find((room) => room.number === '302')!.openTasks).toEqual([
+        expect.objectContaining({ id: open.id, description: 'Extra towels', status: 'pending' }),
+      ]);
+      expect(board.find((room) => room.number === '501')!.openTasks).toEqual([]);
+    });
+  });
+
+  describe('task room numbers', () => {
+    it('accepts any room number before the first sync', async () => {
+      const task = await taskService.create({ type: 'housekeeping', department: 'housekeeping', roomNumber: '999', description: 'Extra pillows' });
+      expect(task.roomNumber).toBe('999');
+    });
+
+    it('rejects staff-entered rooms the PMS does not know once rooms are synced', async () => {
+      await pmsSyncService.syncRooms();
+
+      await expect(
+        taskService.create({ type: 'housekeeping', department: 'housekeeping', roomNumber: '999', description: 'Extra pillows', validateRoom: true })
+      ).rejects.toThrow(ValidationError);
+
+      const task = await taskService.create({ type: 'housekeeping', department: 'housekeeping', roomNumber: ' 416 ', description: 'Extra pillows', validateRoom: true });
+      expect(task.roomNumber).toBe('416');
+    });
+
+    it('keeps an unknown room on automatic tasks', async () => {
+      await pmsSyncService.syncRooms();
+
+      const task = await taskService.create({ source: 'auto', type: 'housekeeping', department: 'housekeeping', roomNumber: '12B', description: 'Extra pillows' });
+      expect(task.roomNumber).toBe('12B');
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Task SLA Service Tests
+ *
+ * Covers src/services/task-sla.ts: due-time computation from policies,
+ * TaskService.create integration, and the escalation ladder (breach event,
+ * supervisor notification, reassignment, priority bump).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { db, tasks, staff, settings } from '@/db/index.js';
+import { taskSlaService, bumpPriority, type TaskSlaSettings } from '@/services/task-sla.js';
+import { taskService } from '@/services/task.js';
+import { events, EventTypes } from '@/events/index.js';
+import type { TaskSlaBreachedEvent, TaskAssignedEvent } from '@/types/events.js';
+import { SYSTEM_ROLE_IDS } from '@/permissions/defaults.js';
+
+const CREATED = new Date('2026-05-01T09:00:00.000Z');
+const minutesAfter = (m: number) => new Date(CREATED.getTime() + m * 60_000);
+
+const STAFF_IDS = ['staff-sla-mgr-1', 'staff-sla-mgr-2', 'staff-sla-front-1'];
+
+const POLICIES: TaskSlaSettings['policies'] = [
+  {
+    department: '*',
+    priority: 'standard',
+    targetMinutes: 60,
+    escalation: [
+      { afterMinutes: 0, notifyRoleId: SYSTEM_ROLE_IDS.MANAGER },
+      { afterMinutes: 30, reassignToRoleId: SYSTEM_ROLE_IDS.MANAGER },
+      { afterMinutes: 60, bumpPriority: true },
+    ],
+  },
+  {
+    department: 'maintenance',
+    priority: 'standard',
+    targetMinutes: 20,
+    escalation: [],
+  },
+];
+
+async function insertTask(overrides: Partial<typeof tasks.$inferInsert> = {}) {
+  const id = `task-sla-${Math.random().toString(36).slice(2, 10)}`;
+  await db.insert(tasks).values({
+    id,
+    type: 'housekeeping',
+    department: 'housekeeping',
+    description: 'Extra towels',
+    priority: 'standard',
+    status: 'pending',
+    dueAt: minutesAfter(60).toISOString(),
+    createdAt: CREATED.toISOString(),
+    updatedAt: CREATED.toISOString(),
+    ...overrides,
+  });
+  return id;
+}
+
+async function getTask(id: string) {
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+  return task!;
+}
+
+describe('TaskSlaService', () => {
+  let breaches: TaskSlaBreachedEvent[];
+  let assignments: TaskAssignedEvent[];
+  const onBreach = (e: TaskSlaBreachedEvent) => void breaches.push(e);
+  const onAssign = (e: TaskAssignedEvent) => void assignments.push(e);
+
+  beforeEach(async () => {
+    breaches = [];
+    assignments = [];
+    events.on(EventTypes.TASK_SLA_BREACHED, onBreach);
+    events.on(EventTypes.TASK_ASSIGNED, onAssign);
+
+    await db.delete(tasks);
+    await db.delete(staff).where(inArray(staff.id, STAFF_IDS));
+    await db.insert(staff).values([
+      { id: 'staff-sla-mgr-1', email: 'sla-mgr-1@test.com', name: 'Manager One', roleId: SYSTEM_ROLE_IDS.MANAGER, status: 'active' },
+      { id: 'staff-sla-mgr-2', email: 'sla-mgr-2@test.com', name: 'Manager Two', roleId: SYSTEM_ROLE_IDS.MANAGER, status: 'active' },
+      { id: 'staff-sla-front-1', email: 'sla-front-1@test.com', name: 'Front Desk', roleId: SYSTEM_ROLE_IDS.STAFF, status: 'active' },
+    ]);
+    await taskSlaService.updateSettings({ enabled: true, policies: POLICIES });
+  });
+
+  afterEach(async () => {
+    events.off(EventTypes.TASK_SLA_BREACHED, onBreach);
+    events.off(EventTypes.TASK_ASSIGNED, onAssign);
+    await db.delete(tasks);
+    await db.delete(staff).where(inArray(staff.id, STAFF_IDS));
+    await db.delete(settings).where(eq(settings.key, 'task_sla'));
+  });
+
+  describe('due times', () => {
+    it('prefers a department policy and falls back to the * policy', async () => {
+      expect(await taskSlaService.computeDueAt('maintenance', 'standard', CREATED)).toBe(minutesAfter(20).toISOString());
+      expect(await taskSlaService.computeDueAt('concierge', 'standard', CREATED)).toBe(minutesAfter(60).toISOString());
+      expect(await taskSlaService.computeDueAt('concierge', 'urgent', CREATED)).toBeNull();
+    });
+
+    it('returns null when SLAs are disabled', async () => {
+      await taskSlaService.updateSettings({ enabled: false });
+      expect(await taskSlaService.computeDueAt('maintenance', 'standard', CREATED)).toBeNull();
+    });
+
+    it('sets dueAt on task creation unless one is given', async () => {
+      const before = Date.now();
+      const task = await taskService.create({ type: 'maintenance', department: 'maintenance', description: 'Fix AC' });
+      const explicit = await taskService.create({
+        type: 'maintenance',
+        department: 'maintenance',
+        description: 'Paint door',
+        dueAt: '2099-01-01T00:00:00.000Z',
+      });
+
+      const dueIn = new Date(task.dueAt!).getTime() - before;
+      expect(dueIn).toBeGreaterThanOrEqual(20 * 60_000 - 1000);
+      expect(dueIn).toBeLessThanOrEqual(20 * 60_000 + 5000);
+      expect(explicit.dueAt).toBe('2099-01-01T00:00:00.000Z');
+    });
+
+    it('rejects duplicate policies', async () => {
+      await expect(
+        taskSlaService.updateSettings({ policies: [POLICIES[1]!, POLICIES[1]!] })
+      ).rejects.toThrow('Duplicate SLA policy');
+    });
+  });
+
+  describe('runEscalations', () => {
+    it('flags a breach once and notifies the supervisor role', async () => {
+      const id = await insertTask();
+
+      const first = await taskSlaService.runEscalations(minutesAfter(65));
+      const second = await taskSlaService.runEscalations(minutesAfter(70));
+
+      expect(first).toEqual({ breached: 1, escalated: 1 });
+      expect(second).toEqual({ breached: 0, escalated: 0 });
+      expect(breaches).toHaveLength(1);
+      expect(breaches[0]).toMatchObject({ taskId: id, level: 1, overdueMinutes: 5 });
+      expect(breaches[0]!.notifyStaffIds.sort()).toEqual(['staff-sla-mgr-1', 'staff-sla-mgr-2']);
+
+      const task = await getTask(id);
+      expect(task.slaBreachedAt).toBe(minutesAfter(65).toISOString());
+      expect(task.escalationLevel).toBe(1);
+    });
+
+    it('walks the ladder: reassigns to the least-loaded manager, then bumps priority', async () => {
+      await insertTask({ status: 'in_progress', assignedTo: 'staff-sla-mgr-1', dueAt: null });
+      const id = await insertTask();
+
+      await taskSlaService.runEscalations(minutesAfter(95));
+      let task = await getTask(id);
+      expect(task).toMatchObject({ escalationLevel: 2, assignedTo: 'staff-sla-mgr-2', status: 'assigned', priority: 'standard' });
+      expect(assignments).toEqual([expect.objectContaining({ taskId: id, assignedTo: 'staff-sla-mgr-2' })]);
+
+      await taskSlaService.runEscalations(minutesAfter(125));
+      task = await getTask(id);
+      expect(task).toMatchObject({ escalationLevel: 3, priority: 'high' });
+      expect(breaches.at(-1)).toMatchObject({ level: 3, priority: 'high', previousPriority: 'standard' });
+    });
+
+    it('leaves picked-up, completed, and not-yet-due tasks alone', async () => {
+      await insertTask({ status: 'in_progress' });
+      await insertTask({ status: 'completed' });
+      await insertTask({ dueAt: minutesAfter(120).toISOString() });
+
+      expect(await taskSlaService.runEscalations(minutesAfter(90))).toEqual({ breached: 0, escalated: 0 });
+      expect(breaches).toHaveLength(0);
+    });
+
+    it('flags a breach with no policy ladder at level 0', async () => {
+      const id = await insertTask({ department: 'maintenance', dueAt: minutesAfter(20).toISOString() });
+
+      expect(await taskSlaService.runEscalations(minutesAfter(30))).toEqual({ breached: 1, escalated: 0 });
+      expect(breaches[0]).toMatchObject({ taskId: id, level: 0, notifyStaffIds: [] });
+    });
+  });
+
+  it('bumps priority one level and caps at urgent', () => {
+    expect(bumpPriority('low')).toBe('standard');
+    expect(bumpPriority('high')).toBe('urgent');
+    expect(bumpPriority('urgent')).toBe('urgent');
+  });
+});
@@ -102,17 +102,20 @@ describe('WebChatActionService', () => {
   // ── getActions ──────────────────────────────────────────────────────────────
 
   describe('getActions', () => {
-    it('returns the verify-reservation action', () => {
-      // Only verify-reservation remains after the "simplify webchat actions"
-      // refactor (commit 0321dc6) removed extend-stay/request-service/
-      // order-room-service/book-spa from src/apps/channels/webchat/actions.ts.
-      const actions = service.getActions();
-      expect(actions).toHaveLength(1);
-      expect(actions.map((a) => a.id)).toEqual(['verify-reservation']);
-    });
-
-    it('strips endpoint from returned actions', () => {
-      for (const action of service.getActions()) {
+    it('returns verify-reservation and the guest request actions', async () => {
+      const actions = await service.getActions();
+      expect(actions.map((a) => a.id)).toEqual([
+        'verify-reservation',
+        'late-checkout',
+        'wake-up-call',
+        'order-amenities',
+        'report-maintenance',
+        'airport-transfer',
+      ]);
+    });
+
+    it('strips endpoint from returned actions', async () => {
+      for (const action of await service.getActions()) {
         expect(action).not.toHaveProperty('endpoint');
       }
     });
@@ -125,11 +128,8 @@ describe('WebChatActionService', () => {
   // src/apps/channels/webchat/actions.ts in commit 0321dc6 ("simplify webchat
   // actions"), along with the extend-stay/request-service/order-room-service/
   // book-spa actions. Those tests are gone too — there is no method left to
-  // call and, since verify-reservation is the only remaining action and it has
-  // requiresVerification: false, the verification_required branch in
-  // execute() is currently unreachable through any registered action. That
-  // looks like dead code left over from the simplification, not something to
-  // paper over here — see final report.
+  // call. The verification_required branch in execute() is covered by the
+  // guest request actions in webchat-guest-requests.test.ts.
 
   describe('execute() pre-flight', () => {
     it('returns invalid_session for an unknown token', async () => {
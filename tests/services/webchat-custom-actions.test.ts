@@ -0,0 +1,299 @@
+/**
+ * WebChat Custom Action Tests
+ *
+ * Covers staff-defined actions in src/services/webchat-custom-actions.ts:
+ * CRUD and field validation, localized listing alongside the built-ins, and
+ * running task and signed webhook outcomes on submit.
+ *
+ * The WebSocket connection manager is mocked; webhooks go to a local HTTP server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createHmac } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { eq } from 'drizzle-orm';
+
+const { mockSend, mockLocale } = vi.hoisted(() => ({ mockSend: vi.fn(), mockLocale: vi.fn(() => 'en') }));
+
+vi.mock('@/apps/channels/webchat/connections.js', () => ({
+  webchatConnectionManager: { send: mockSend },
+  getSessionLocale: mockLocale,
+}));
+
+import { db, guests, reservations, tasks, webchatActions } from '@/db/index.js';
+import { WebChatActionService } from '@/services/webchat-actions.js';
+import { webchatCustomActionService, type CreateWebChatActionInput } from '@/services/webchat-custom-actions.js';
+import { webchatSessionService } from '@/services/webchat-session.js';
+import { conversationService } from '@/services/conversation.js';
+import { ConflictError, NotFoundError, ValidationError } from '@/errors/index.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+}
+
+async function verifiedSession() {
+  const guestId = generateId('guest');
+  await db.insert(guests).values({
+    id: guestId,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: `${guestId}@example.com`,
+    createdAt: now(),
+    updatedAt: now(),
+  });
+
+  const reservationId = generateId('reservation');
+  const externalId = `ext-${reservationId}`;
+  await db.insert(reservations).values({
+    id: reservationId,
+    guestId,
+    confirmationNumber: `CONF-${reservationId}`,
+    externalId,
+    roomNumber: '207',
+    roomType: 'double',
+    arrivalDate: daysFromNow(-1),
+    departureDate: daysFromNow(3),
+    status: 'checked_in',
+    createdAt: now(),
+    updatedAt: now(),
+  });
+
+  const session = await webchatSessionService.create();
+  const conversation = await conversationService.findOrCreate('webchat', session.id, guestId);
+  await webchatSessionService.linkConversation(session.id, conversation.id);
+  await webchatSessionService.verify(session.id, guestId, externalId, daysFromNow(-1), daysFromNow(3));
+
+  return { token: session.token, conversationId: conversation.id };
+}
+
+function spaAction(overrides: Partial<CreateWebChatActionInput> = {}): CreateWebChatActionInput {
+  return {
+    id: 'book-spa',
+    name: 'Book the Spa',
+    triggerHint: 'guest wants a massage or spa treatment',
+    fields: [
+      { key: 'treatment', label: 'Treatment', type: 'select', required: true, options: ['massage', 'facial'] },
+      {
+        key: 'pressure',
+        label: 'Pressure',
+        type: 'select',
+        required: true,
+        options: ['light', 'firm'],
+        showWhen: { field: 'treatment', values: ['massage'] },
+      },
+      { key: 'time', label: 'Preferred time', type: 'time', required: true },
+    ],
+    translations: {
+      es: {
+        name: 'Reservar spa',
+        fields: { treatment: { label: 'Tratamiento', options: { massage: 'Masaje' } } },
+        confirmationMessage: 'Hemos recibido su solicitud de {{treatment}} a las {{time}}.',
+      },
+    },
+    outcomes: [{ type: 'task', department: 'spa', taskType: 'concierge', priority: 'standard' }],
+    confirmationMessage: 'Thanks! We have your {{treatment}} request for {{time}}.',
+    ...overrides,
+  };
+}
+
+describe('webchat custom actions', () => {
+  const service = new WebChatActionService();
+
+  afterEach(async () => {
+    await db.delete(webchatActions);
+    mockSend.mockClear();
+    mockLocale.mockReturnValue('en');
+  });
+
+  describe('CRUD', () => {
+    it('creates, updates and deletes an action', async () => {
+      const created = await webchatCustomActionService.create(spaAction());
+      expect(created).toMatchObject({ id: 'book-spa', requiresVerification: true, enabled: true });
+
+      const updated = await webchatCustomActionService.update('book-spa', { name: 'Spa', enabled: false });
+      expect(updated).toMatchObject({ name: 'Spa', enabled: false, triggerHint: created.triggerHint });
+
+      await webchatCustomActionService.delete('book-spa');
+      await expect(webchatCustomActionService.get('book-spa')).rejects.toThrow(NotFoundError);
+    });
+
+    it('rejects a duplicate ID', async () => {
+      await webchatCustomActionService.create(spaAction());
+      await expect(webchatCustomActionService.create(spaAction())).rejects.toThrow(ConflictError);
+    });
+
+    it('rejects select fields without options and unknown showWhen dependencies', async () => {
+      await expect(
+        webchatCustomActionService.create(
+          spaAction({ fields: [{ key: 'room', label: 'Room', type: 'select', required: true }] })
+        )
+      ).rejects.toThrow(ValidationError);
+
+      await expect(
+        webchatCustomActionService.create(
+          spaAction({
+            fields: [
+              { key: 'treatment', label: 'Treatment', type: 'select', required: true, options: ['massage'] },
+              {
+                key: 'pressure',
+                label: 'Pressure',
+                type: 'text',
+                required: false,
+                showWhen: { field: 'treatment', values: ['sauna'] },
+              },
+            ],
+          })
+        )
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('never returns webhook secrets and keeps them across edits', async () => {
+      await webchatCustomActionService.create(
+        spaAction({ outcomes: [{ type: 'webhook', url: 'https://example.com/hook', secret: 'super-secret' }] })
+      );
+
+      const updated = await webchatCustomActionService.update('book-spa', {
+        outcomes: [{ type: 'webhook', url: 'https://example.com/hook' }],
+      });
+      expect(updated.outcomes).toEqual([{ type: 'webhook', url: 'https://example.com/hook', secretSet: true }]);
+
+      const [row] = await db.select().from(webchatActions).where(eq(webchatActions.id, 'book-spa'));
+      expect(row!.outcomes).not.toContain('super-secret');
+    });
+  });
+
+  describe('registry', () => {
+    it('lists enabled custom actions after the built-ins', async () => {
+      await webchatCustomActionService.create(spaAction());
+      await webchatCustomActionService.create(spaAction({ id: 'book-table', name: 'Book a Table', enabled: false }));
+
+      const ids = (await service.getActions()).map((a) => a.id);
+      expect(ids.at(-1)).toBe('book-spa');
+      expect(ids).not.toContain('book-table');
+      expect(await service.getAction('book-spa')).toMatchObject({ endpoint: '/api/v1/webchat/actions/book-spa' });
+    });
+
+    it('localizes custom actions, falling back to the default labels', async () => {
+      await webchatCustomActionService.create(spaAction());
+
+      const action = (await service.getActions('es')).find((a) => a.id === 'book-spa')!;
+      expect(action.name).toBe('Reservar spa');
+      const treatment = action.fields.find((f) => f.key === 'treatment')!;
+      expect(treatment.label).toBe('Tratamiento');
+      expect(treatment.optionLabels).toEqual(['Masaje', 'Facial']);
+      expect(action.fields.find((f) => f.key === 'time')!.label).toBe('Preferred time');
+    });
+  });
+
+  describe('submit', () => {
+    let server: Server;
+    let url: string;
+    let received: Array<{ body: string; signature: string | undefined }>;
+
+    beforeAll(async () => {
+      received = [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ body, signature: req.headers['x-jack-signature'] as string | undefined });
+          res.writeHead(req.url === '/fail' ? 500 : 200);
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('requires verification by default', async () => {
+      await webchatCustomActionService.create(spaAction());
+      const session = await webchatSessionService.create();
+
+      const result = await service.execute('book-spa', session.token, { treatment: 'facial', time: '15:00' });
+      expect(result.error).toBe('verification_required');
+    });
+
+    it('creates a task in the configured department and posts the confirmation', async () => {
+      await webchatCustomActionService.create(spaAction());
+      const { token, conversationId } = await verifiedSession();
+
+      const result = await service.execute('book-spa', token, { treatment: 'massage', pressure: 'firm', time: '15:00' });
+
+      expect(result).toMatchObject({ success: true, message: 'Thanks! We have your Massage request for 15:00.' });
+      const [task] = await db.select().from(tasks).where(eq(tasks.id, result.data?.taskId as string));
+      expect(task).toMatchObject({ conversationId, department: 'spa', type: 'concierge', roomNumber: '207' });
+      expect(task!.description).toBe('Book the Spa — Treatment: Massage; Pressure: Firm; Preferred time: 15:00');
+
+      const messages = await conversationService.getMessages(conversationId);
+      expect(messages.at(-1)?.content).toBe(result.message);
+    });
+
+    it('only requires fields that are shown', async () => {
+      await webchatCustomActionService.create(spaAction());
+      const { token } = await verifiedSession();
+
+      const missing = await service.execute('book-spa', token, { treatment: 'massage', time: '15:00' });
+      expect(missing.error).toBe('missing_fields');
+
+      const facial = await service.execute('book-spa', token, { treatment: 'facial', pressure: 'firm', time: '15:00' });
+      expect(facial.success).toBe(true);
+      const [task] = await db.select().from(tasks).where(eq(tasks.id, facial.data?.taskId as string));
+      expect(task!.description).not.toContain('Pressure');
+    });
+
+    it('confirms in the guest locale', async () => {
+      await webchatCustomActionService.create(spaAction());
+      const { token } = await verifiedSession();
+      mockLocale.mockReturnValue('es');
+
+      const result = await service.execute('book-spa', token, { treatment: 'facial', time: '09:00' });
+      expect(result.message).toBe('Hemos recibido su solicitud de Facial a las 09:00.');
+    });
+
+    it('posts a signed payload to the webhook', async () => {
+      await webchatCustomActionService.create(
+        spaAction({ outcomes: [{ type: 'webhook', url: `${url}/hook`, secret: 'webhook-secret' }] })
+      );
+      const { token } = await verifiedSession();
+      received.length = 0;
+
+      const result = await service.execute('book-spa', token, { treatment: 'facial', time: '09:00' });
+
+      expect(result.success).toBe(true);
+      expect(received).toHaveLength(1);
+      const { body, signature } = received[0]!;
+      expect(signature).toBe(`sha256=${createHmac('sha256', 'webhook-secret').update(body).digest('hex')}`);
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'webchat.action.submitted',
+        action: { id: 'book-spa' },
+        fields: { treatment: 'facial', time: '09:00' },
+        guest: { firstName: 'Ada' },
+        reservation: { roomNumber: '207' },
+      });
+    });
+
+    it('fails only when every outcome fails', async () => {
+      await webchatCustomActionService.create(
+        spaAction({
+          outcomes: [
+            { type: 'webhook', url: `${url}/fail` },
+            { type: 'task', department: 'spa', taskType: 'concierge', priority: 'standard' },
+          ],
+        })
+      );
+      const { token } = await verifiedSession();
+      expect((await service.execute('book-spa', token, { treatment: 'facial', time: '09:00' })).success).toBe(true);
+
+      await webchatCustomActionService.update('book-spa', { outcomes: [{ type: 'webhook', url: `${url}/fail` }] });
+      const failed = await service.execute('book-spa', token, { treatment: 'facial', time: '09:00' });
+      expect(failed).toMatchObject({ success: false, error: 'outcome_failed' });
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * WebChat Guest Request Action Tests
+ *
+ * Covers the self-service actions in src/services/webchat-guest-requests.ts:
+ * each creates a typed task for the right department, the room number comes
+ * from the verified reservation, dates are checked against the stay, and the
+ * confirmation is posted into the conversation.
+ *
+ * The WebSocket connection manager is mocked; everything else runs against the real DB.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+
+const { mockSend } = vi.hoisted(() => ({ mockSend: vi.fn() }));
+
+vi.mock('@/apps/channels/webchat/connections.js', () => ({
+  webchatConnectionManager: { send: mockSend },
+  getSessionLocale: vi.fn(() => 'en'),
+}));
+
+import { db, guests, reservations, tasks } from '@/db/index.js';
+import { WebChatActionService } from '@/services/webchat-actions.js';
+import { webchatSessionService } from '@/services/webchat-session.js';
+import { conversationService } from '@/services/conversation.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+}
+
+/**
+ * A verified session for a guest staying from yesterday until three days
+ * from now, linked to a webchat conversation.
+ */
+async function verifiedSession(roomNumber: string | null = '412') {
+  const guestId = generateId('guest');
+  await db.insert(guests).values({
+    id: guestId,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: `${guestId}@example.com`,
+    createdAt: now(),
+    updatedAt: now(),
+  });
+
+  const reservationId = generateId('reservation');
+  const externalId = `ext-${reservationId}`;
+  await db.insert(reservations).values({
+    id: reservationId,
+    guestId,
+    confirmationNumber: `CONF-${reservationId}`,
+    externalId,
+    roomNumber,
+    roomType: 'double',
+    arrivalDate: daysFromNow(-1),
+    departureDate: daysFromNow(3),
+    status: 'checked_in',
+    createdAt: now(),
+    updatedAt: now(),
+  });
+
+  const session = await webchatSessionService.create();
+  const conversation = await conversationService.findOrCreate('webchat', session.id, guestId);
+  await webchatSessionService.linkConversation(session.id, conversation.id);
+  await webchatSessionService.verify(session.id, guestId, externalId, daysFromNow(-1), daysFromNow(3));
+
+  return { token: session.token, conversationId: conversation.id };
+}
+
+async function taskFor(taskId: unknown) {
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId as string));
+  return task!;
+}
+
+describe('webchat guest request actions', () => {
+  const service = new WebChatActionService();
+
+  beforeEach(() => {
+    mockSend.mockClear();
+  });
+
+  it('registers each action as requiring verification', async () => {
+    const ids = ['late-checkout', 'wake-up-call', 'order-amenities', 'report-maintenance', 'airport-transfer'];
+    for (const id of ids) {
+      expect((await service.getAction(id))?.requiresVerification).toBe(true);
+    }
+  });
+
+  it('localizes action names and option labels', async () => {
+    const action = (await service.getActions('es')).find((a) => a.id === 'order-amenities')!;
+    expect(action.name).toBe('Pedir artículos');
+    expect(action.fields.find((f) => f.key === 'item')?.optionLabels?.[0]).toBe('Toallas');
+  });
+
+  it('rejects anonymous sessions', async () => {
+    const session = await webchatSessionService.create();
+    const result = await service.execute('late-checkout', session.token, { checkoutTime: '14:00' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('verification_required');
+  });
+
+  it('creates a front desk task for late checkout and posts the confirmation', async () => {
+    const { token, conversationId } = await verifiedSession();
+
+    const result = await service.execute('late-checkout', token, { checkoutTime: '14:00', notes: 'Late flight' });
+
+    expect(result.success).toBe(true);
+    const task = await taskFor(result.data?.taskId);
+    expect(task).toMatchObject({
+      conversationId,
+      type: 'other',
+      department: 'front_desk',
+      roomNumber: '412',
+      status: 'pending',
+    });
+    expect(task.description).toContain('14:00');
+    expect(task.description).toContain('Late flight');
+
+    const messages = await conversationService.getMessages(conversationId);
+    expect(messages.at(-1)?.content).toBe(result.message);
+    expect(mockSend).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ content: result.message }));
+  });
+
+  it('rejects a late checkout time that is not offered', async () => {
+    const { token } = await verifiedSession();
+    const result = await service.execute('late-checkout', token, { checkoutTime: '23:00' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('invalid_field');
+  });
+
+  it('books a wake-up call due at the requested time', async () => {
+    const { token } = await verifiedSession();
+    const date = daysFromNow(1);
+
+    const result = await service.execute('wake-up-call', token, { date, time: '06:30' });
+
+    expect(result.success).toBe(true);
+    const task = await taskFor(result.data?.taskId);
+    expect(task.department).toBe('front_desk');
+    // Hotel timezone defaults to UTC
+    expect(task.dueAt).toBe(`${date}T06:30:00.000Z`);
+  });
+
+  it('rejects wake-up calls outside the stay', async () => {
+    const { token } = await verifiedSession();
+    const result = await service.execute('wake-up-call', token, { date: daysFromNow(10), time: '06:30' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('invalid_date');
+  });
+
+  it('creates a housekeeping task for amenities with the item and quantity', async () => {
+    const { token } = await verifiedSession();
+
+    const result = await service.execute('order-amenities', token, { item: 'baby-cot', quantity: '1' });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain('Baby Cot');
+    const task = await taskFor(result.data?.taskId);
+    expect(task).toMatchObject({ type: 'housekeeping', department: 'housekeeping', roomNumber: '412' });
+    expect(task.description).toBe('Amenities: 1 × Baby Cot');
+  });
+
+  it('rejects an amenity quantity out of range', async () => {
+    const { token } = await verifiedSession();
+    const result = await service.execute('order-amenities', token, { item: 'towels', quantity: '50' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('invalid_field');
+  });
+
+  it('prefills the room number from the reservation', async () => {
+    const { token } = await verifiedSession('305');
+    expect(await service.getPrefill('report-maintenance', token)).toEqual({ roomNumber: '305' });
+    expect(await service.getPrefill('late-checkout', token)).toEqual({});
+  });
+
+  it('uses the reservation room for maintenance reports, not the submitted one', async () => {
+    const { token } = await verifiedSession('305');
+
+    const result = await service.execute('report-maintenance', token, {
+      roomNumber: '999',
+      category: 'plumbing',
+      description: 'No hot water',
+    });
+
+    expect(result.success).toBe(true);
+    const task = await taskFor(result.data?.taskId);
+    expect(task).toMatchObject({
+      type: 'maintenance',
+      department: 'maintenance',
+      priority: 'high',
+      roomNumber: '305',
+      description: 'Plumbing: No hot water',
+    });
+  });
+
+  it('asks for the room number when the reservation has none yet', async () => {
+    const { token } = await verifiedSession(null);
+
+    const missing = await service.execute('report-maintenance', token, { category: 'heating', description: 'Cold' });
+    expect(missing.error).toBe('missing_fields');
+
+    const result = await service.execute('report-maintenance', token, {
+      roomNumber: '12',
+      category: 'heating',
+      description: 'Cold',
+    });
+    expect(result.success).toBe(true);
+    expect((await taskFor(result.data?.taskId)).roomNumber).toBe('12');
+  });
+
+  it('creates a concierge task for an airport transfer', async () => {
+    const { token } = await verifiedSession();
+    const date = daysFromNow(3);
+
+    const result = await service.execute('airport-transfer', token, {
+      direction: 'to-airport',
+      date,
+      time: '09:15',
+      passengers: '2',
+      flightNumber: 'BA117',
+    });
+
+    expect(result.success).toBe(true);
+    const task = await taskFor(result.data?.taskId);
+    expect(task).toMatchObject({ type: 'concierge', department: 'concierge', dueAt: `${date}T09:15:00.000Z` });
+    expect(task.description).toBe(`Airport transfer (hotel to airport) on ${date} at 09:15 for 2 passenger(s), flight BA117`);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * WhatsApp Template Service Tests
+ *
+ * Covers src/services/whatsapp-templates.ts: syncing templates from the
+ * business account, variable mapping and fallback rules, the 24-hour
+ * window, and swapping a reply for the fallback template once it closes.
+ * The WhatsApp adapter is mocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+
+const mockListTemplates = vi.fn();
+const mockGetTemplateAdapter = vi.fn();
+vi.mock('@/apps/index.js', () => ({
+  getAppRegistry: () => ({
+    getTemplateAdapter: mockGetTemplateAdapter,
+  }),
+}));
+
+import { db, guests, messages, whatsappTemplates } from '@/db/index.js';
+import { NotFoundError, ValidationError } from '@/errors/index.js';
+import { conversationService } from '@/services/conversation.js';
+import { settingsService } from '@/services/settings.js';
+import { WhatsAppTemplateService, toTemplateParameter } from '@/services/whatsapp-templates.js';
+import { generateId } from '@/utils/id.js';
+import { now } from '@/utils/time.js';
+import type { MessageTemplate } from '@jackthebutler/shared';
+
+function template(overrides: Partial<MessageTemplate> = {}): MessageTemplate {
+  return {
+    name: 'guest_reply',
+    language: 'en_US',
+    category: 'UTILITY',
+    status: 'APPROVED',
+    body: 'Hello {{1}}, a reply from {{2}}: {{3}}',
+    parameterCount: 3,
+    ...overrides,
+  };
+}
+
+describe('WhatsAppTemplateService', () => {
+  let service: WhatsAppTemplateService;
+
+  /** Sync the given templates and return the stored rows */
+  async function sync(templates: MessageTemplate[]) {
+    mockListTemplates.mockResolvedValue(templates);
+    await service.sync();
+    return service.list();
+  }
+
+  async function whatsappConversation(lastInboundAgoMs: number | null, guest: Partial<typeof guests.$inferInsert> = {}) {
+    const guestId = generateId('guest');
+    await db.insert(guests).values({
+      id: guestId,
+      firstName: 'Marie',
+      lastName: 'Curie',
+      phone: `+3361${Math.floor(Math.random() * 1e7)}`,
+      createdAt: now(),
+      updatedAt: now(),
+      ...guest,
+    });
+    const conversation = await conversationService.findOrCreate('whatsapp', `+3361${Math.floor(Math.random() * 1e7)}`, guestId);
+    if (lastInboundAgoMs !== null) {
+      const message = await conversationService.addMessage(conversation.id, {
+        direction: 'inbound',
+        senderType: 'guest',
+        content: 'Is breakfast included?',
+        contentType: 'text',
+      });
+      await db
+        .update(messages)
+        .set({ createdAt: new Date(Date.now() - lastInboundAgoMs).toISOString() })
+        .where(eq(messages.id, message.id));
+    }
+    return conversation.id;
+  }
+
+  beforeEach(async () => {
+    service = new WhatsAppTemplateService();
+    vi.clearAllMocks();
+    mockGetTemplateAdapter.mockReturnValue({ listTemplates: mockListTemplates });
+    await db.delete(whatsappTemplates);
+    await settingsService.set('hotel_profile', {
+      name: 'Hôtel Lumière',
+      timezone: 'Europe/Paris',
+      currency: 'EUR',
+      propertyLanguage: 'en',
+      checkInTime: '15:00',
+      checkOutTime: '11:00',
+    });
+  });
+
+  describe('sync', () => {
+    it('adds templates with unmapped variables', async () => {
+      const [row] = await sync([template()]);
+
+      expect(row).toMatchObject({ name: 'guest_reply', language: 'en_US', status: 'APPROVED', parameterCount: 3 });
+      expect(row!.variables).toEqual([null, null, null]);
+      expect(row!.isFallback).toBe(false);
+    });
+
+    it('keeps mappings on re-sync and removes templates deleted in Meta', async () => {
+      const [row] = await sync([template(), template({ name: 'old_promo' })]);
+      await service.update(row!.id, { variables: ['guest.firstName', 'hotel.name', 'message.content'], isFallback: true });
+
+      mockListTemplates.mockResolvedValue([template()]);
+      expect(await service.sync()).toEqual({ added: 0, updated: 1, removed: 1 });
+
+      const rows = await service.list();
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        variables: ['guest.firstName', 'hotel.name', 'message.content'],
+        isFallback: true,
+      });
+    });
+
+    it('stops using a fallback that is no longer approved', async () => {
+      const [row] = await sync([template({ body: 'Hi {{1}}', parameterCount: 1 })]);
+      await service.update(row!.id, { variables: ['guest.firstName'], isFallback: true });
+
+      const [paused] = await sync([template({ body: 'Hi {{1}}', parameterCount: 1, status: 'PAUSED' })]);
+
+      expect(paused!.isFallback).toBe(false);
+    });
+
+    it('requires an active WhatsApp app with template support', async () => {
+      mockGetTemplateAdapter.mockReturnValue(undefined);
+      await expect(service.sync()).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('update', () => {
+    it('validates mappings before a template becomes the fallback', async () => {
+      const [approved, pending] = await sync([template(), template({ name: 'pending_reply', status: 'PENDING' })]);
+
+      await expect(service.update(approved!.id, { variables: ['guest.firstName'] })).rejects.toThrow(
+        'has 3 variable(s), got 1'
+      );
+      await expect(service.update(approved!.id, { isFallback: true })).rejects.toThrow('Map every variable');
+      await expect(
+        service.update(pending!.id, { variables: [null, null, 'message.content'], isFallback: true })
+      ).rejects.toThrow('Only approved templates');
+      await expect(service.update('wtpl_missing', { isFallback: true })).rejects.toThrow(NotFoundError);
+    });
+
+    it('keeps one fallback per language', async () => {
+      const rows = await sync([
+        template({ name: 'reply_a', body: '{{1}}', parameterCount: 1 }),
+        template({ name: 'reply_b', body: '{{1}}', parameterCount: 1 }),
+        template({ name: 'reply_a', language: 'fr', body: '{{1}}', parameterCount: 1 }),
+      ]);
+      for (const row of rows) {
+        await service.update(row.id, { variables: ['message.content'], isFallback: true });
+      }
+
+      const fallbacks = (await service.list()).filter((t) => t.isFallback);
+      expect(fallbacks.map((t) => `${t.name}:${t.language}`).sort()).toEqual(['reply_a:fr', 'reply_b:en_US']);
+    });
+  });
+
+  describe('getWindow', () => {
+    it('is open for 24 hours after the guest last wrote', async () => {
+      const open = await service.getWindow(await whatsappConversation(60 * 60 * 1000));
+      expect(open.open).toBe(true);
+      expect(new Date(open.closesAt!).getTime()).toBeCloseTo(Date.now() + 23 * 60 * 60 * 1000, -4);
+
+      expect((await service.getWindow(await whatsappConversation(25 * 60 * 60 * 1000))).open).toBe(false);
+      expect(await service.getWindow(await whatsappConversation(null))).toEqual({
+        open: false,
+        lastInboundAt: null,
+        closesAt: null,
+      });
+    });
+  });
+
+  describe('prepareOutbound', () => {
+    function outbound(conversationId: string, content = 'Yes,\n\nbreakfast is   included.') {
+      return { conversationId, channelId: '+33612345678', content, contentType: 'text' as const, metadata: { senderType: 'staff' } };
+    }
+
+    it('sends free-form text while the window is open', async () => {
+      const message = outbound(await whatsappConversation(60 * 1000));
+      expect(await service.prepareOutbound(message)).toBe(message);
+    });
+
+    it('fails when the window has closed and there is no fallback template', async () => {
+      await expect(service.prepareOutbound(outbound(await whatsappConversation(null)))).rejects.toThrow(
+        'no fallback template'
+      );
+    });
+
+    it('switches to the fallback template in the guest language once the window has closed', async () => {
+      const [en, fr] = await sync([template(), template({ language: 'fr', body: 'Bonjour {{1}}, {{2}} : {{3}}' })]);
+      const variables = ['guest.firstName', 'hotel.name', 'message.content'] as const;
+      await service.update(en!.id, { variables: [...variables], isFallback: true });
+      await service.update(fr!.id, { variables: [...variables], isFallback: true });
+
+      const prepared = await service.prepareOutbound(outbound(await whatsappConversation(null, { language: 'fr' })));
+
+      expect(prepared.metadata).toEqual({
+        senderType: 'staff',
+        template: {
+          name: 'guest_reply',
+          language: 'fr',
+          parameters: ['Marie', 'Hôtel Lumière', 'Yes, breakfast is included.'],
+        },
+      });
+    });
+  });
+
+  it('flattens parameters the way Meta requires', () => {
+    expect(toTemplateParameter('  ')).toBe('-');
+    expect(toTemplateParameter(null)).toBe('-');
+    expect(toTemplateParameter('a\tb\n\nc')).toBe('a b c');
+    expect(toTemplateParameter('x'.repeat(2000))).toHaveLength(1024);
+  });
+});
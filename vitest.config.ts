@@ -10,6 +10,7 @@ export const sharedConfig = {
       '@jackthebutler/shared': resolve(__dirname, './packages/shared/src/index.ts'),
       '@jackthebutler/pms-mock': resolve(__dirname, './packages/pms-mock/src/index.ts'),
       '@jackthebutler/pms-mews': resolve(__dirname, './packages/pms-mews/src/index.ts'),
+      '@jackthebutler/pms-apaleo': resolve(__dirname, './packages/pms-apaleo/src/index.ts'),
       '@jackthebutler/pms-cloudbeds': resolve(__dirname, './packages/pms-cloudbeds/src/index.ts'),
       '@jackthebutler/ai-anthropic': resolve(__dirname, './packages/ai-anthropic/src/index.ts'),
       '@jackthebutler/ai-openai': resolve(__dirname, './packages/ai-openai/src/index.ts'),